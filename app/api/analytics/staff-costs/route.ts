@@ -4,7 +4,10 @@ import { prisma } from "@/lib/db";
 import {
   calculateStaffCost,
   getEffectiveHourlyRate,
+  getTaxYearRules,
+  type StaffCostCalculation,
 } from "@/lib/uk-payroll";
+import { getPayrollProfiles } from "@/lib/payroll-profiles";
 
 export async function GET(req: Request) {
   try {
@@ -38,6 +41,14 @@ export async function GET(req: Request) {
     const prevMonthStart = new Date(year, monthNum - 2, 1);
     const prevMonthEnd = new Date(year, monthNum - 1, 0, 23, 59, 59, 999);
 
+    // Each month is costed with the tax year rules in force at its end, so
+    // past months keep their original figures when the rates change
+    const taxYear = getTaxYearRules(endDate);
+    const prevTaxYear = getTaxYearRules(prevMonthEnd);
+
+    // Pension opt-outs, tax codes and student loans from starter forms
+    const profiles = await getPayrollProfiles(session.user.organizationId, endDate);
+
     const isAdmin = session.user.role === "ADMIN";
 
     // Fetch all staff in the organization
@@ -146,35 +157,27 @@ export async function GET(req: Request) {
     };
 
     // Group by staff member
-    const staffCosts: Record<string, {
+    const staffCosts: Record<string, StaffCostCalculation & {
       userId: string;
       name: string;
       role: string;
       paymentType: string;
       hours: number;
-      grossPay: number;
-      holidayAccrual: number;
-      employeeNI: number;
-      employerNI: number;
-      totalCost: number;
       locationBreakdown: Record<string, { hours: number; grossPay: number }>;
     }> = {};
 
     // First, add monthly salaried staff with their fixed salary
     for (const staff of allStaff) {
       if (staff.paymentType === "MONTHLY" && staff.monthlySalary) {
-        const costs = calculateStaffCost(staff.monthlySalary, "MONTHLY");
         staffCosts[staff.id] = {
           userId: staff.id,
           name: staff.name,
           role: staff.role,
           paymentType: staff.paymentType,
           hours: 0, // Will be updated from time entries if any
-          grossPay: costs.grossPay,
-          holidayAccrual: costs.holidayAccrual,
-          employeeNI: costs.employeeNI,
-          employerNI: costs.employerNI,
-          totalCost: costs.totalCost,
+          ...calculateStaffCost(staff.monthlySalary, "MONTHLY", taxYear, {
+            profile: profiles.get(staff.id),
+          }),
           locationBreakdown: {},
         };
       }
@@ -207,11 +210,7 @@ export async function GET(req: Request) {
             role: entry.user.role,
             paymentType: entry.user.paymentType,
             hours: 0,
-            grossPay: 0,
-            holidayAccrual: 0,
-            employeeNI: 0,
-            employerNI: 0,
-            totalCost: 0,
+            ...calculateStaffCost(0, "HOURLY", taxYear),
             locationBreakdown: {},
           };
         }
@@ -239,15 +238,15 @@ export async function GET(req: Request) {
       }
     }
 
-    // Calculate NI and holiday accrual for hourly staff
+    // Calculate NI, pension, holiday accrual and deductions for hourly staff
     for (const staff of Object.values(staffCosts)) {
       if (staff.paymentType === "HOURLY") {
-        const costs = calculateStaffCost(staff.grossPay, staff.paymentType);
-        staff.grossPay = costs.grossPay;
-        staff.holidayAccrual = costs.holidayAccrual;
-        staff.employeeNI = costs.employeeNI;
-        staff.employerNI = costs.employerNI;
-        staff.totalCost = costs.totalCost;
+        Object.assign(
+          staff,
+          calculateStaffCost(staff.grossPay, staff.paymentType, taxYear, {
+            profile: profiles.get(staff.userId),
+          })
+        );
       }
       staff.hours = Math.round(staff.hours * 100) / 100;
     }
@@ -258,7 +257,9 @@ export async function GET(req: Request) {
     // Add monthly staff costs for previous month (same as current if they had salary)
     for (const staff of allStaff) {
       if (staff.paymentType === "MONTHLY" && staff.monthlySalary) {
-        const costs = calculateStaffCost(staff.monthlySalary, "MONTHLY");
+        const costs = calculateStaffCost(staff.monthlySalary, "MONTHLY", prevTaxYear, {
+          profile: profiles.get(staff.id),
+        });
         prevMonthTotal += costs.totalCost;
       }
     }
@@ -283,8 +284,10 @@ export async function GET(req: Request) {
     }
 
     // Calculate NI for previous month hourly totals
-    for (const grossPay of Object.values(prevHourlyCosts)) {
-      const costs = calculateStaffCost(grossPay, "HOURLY");
+    for (const [userId, grossPay] of Object.entries(prevHourlyCosts)) {
+      const costs = calculateStaffCost(grossPay, "HOURLY", prevTaxYear, {
+        profile: profiles.get(userId),
+      });
       prevMonthTotal += costs.totalCost;
     }
 
@@ -297,9 +300,24 @@ export async function GET(req: Request) {
         holidayAccrual: acc.holidayAccrual + staff.holidayAccrual,
         employeeNI: acc.employeeNI + staff.employeeNI,
         employerNI: acc.employerNI + staff.employerNI,
+        employerPension: acc.employerPension + staff.employerPension,
+        employeePension: acc.employeePension + staff.employeePension,
+        incomeTax: acc.incomeTax + staff.incomeTax,
+        studentLoan: acc.studentLoan + staff.studentLoan,
         totalCost: acc.totalCost + staff.totalCost,
       }),
-      { hours: 0, grossPay: 0, holidayAccrual: 0, employeeNI: 0, employerNI: 0, totalCost: 0 }
+      {
+        hours: 0,
+        grossPay: 0,
+        holidayAccrual: 0,
+        employeeNI: 0,
+        employerNI: 0,
+        employerPension: 0,
+        employeePension: 0,
+        incomeTax: 0,
+        studentLoan: 0,
+        totalCost: 0,
+      }
     );
 
     // Round totals
@@ -308,6 +326,10 @@ export async function GET(req: Request) {
     totals.holidayAccrual = Math.round(totals.holidayAccrual * 100) / 100;
     totals.employeeNI = Math.round(totals.employeeNI * 100) / 100;
     totals.employerNI = Math.round(totals.employerNI * 100) / 100;
+    totals.employerPension = Math.round(totals.employerPension * 100) / 100;
+    totals.employeePension = Math.round(totals.employeePension * 100) / 100;
+    totals.incomeTax = Math.round(totals.incomeTax * 100) / 100;
+    totals.studentLoan = Math.round(totals.studentLoan * 100) / 100;
     totals.totalCost = Math.round(totals.totalCost * 100) / 100;
 
     // Calculate variance
@@ -328,6 +350,7 @@ export async function GET(req: Request) {
       grossPay: number;
       holidayAccrual: number;
       employerNI: number;
+      employerPension: number;
       totalCost: number;
       staff: typeof staffList;
     }> = {};
@@ -341,30 +364,36 @@ export async function GET(req: Request) {
         grossPay: 0,
         holidayAccrual: 0,
         employerNI: 0,
+        employerPension: 0,
         totalCost: 0,
         staff: [],
       };
     }
 
-    // Aggregate by location from staff data
+    // Aggregate by location from staff data. NI and pension thresholds apply
+    // per employee, so each person's on-costs are split across locations in
+    // proportion to the gross pay they earned there.
     for (const staff of staffList) {
       for (const [locId, data] of Object.entries(staff.locationBreakdown)) {
-        if (locationCosts[locId]) {
-          locationCosts[locId].hours += data.hours;
-          locationCosts[locId].grossPay += data.grossPay;
-        }
+        const loc = locationCosts[locId];
+        if (!loc) continue;
+        const share = staff.grossPay > 0 ? data.grossPay / staff.grossPay : 0;
+        loc.hours += data.hours;
+        loc.grossPay += data.grossPay;
+        loc.holidayAccrual += staff.holidayAccrual * share;
+        loc.employerNI += staff.employerNI * share;
+        loc.employerPension += staff.employerPension * share;
+        loc.totalCost += staff.totalCost * share;
       }
     }
 
-    // Recalculate location totals with proper NI/holiday
     for (const loc of Object.values(locationCosts)) {
-      // For simplicity, estimate location-level costs based on proportion
-      // (In reality, NI thresholds apply per-employee, not per-location)
-      const costs = calculateStaffCost(loc.grossPay, "HOURLY"); // Assume hourly for location summary
-      loc.holidayAccrual = costs.holidayAccrual;
-      loc.employerNI = costs.employerNI;
-      loc.totalCost = costs.totalCost;
       loc.hours = Math.round(loc.hours * 100) / 100;
+      loc.grossPay = Math.round(loc.grossPay * 100) / 100;
+      loc.holidayAccrual = Math.round(loc.holidayAccrual * 100) / 100;
+      loc.employerNI = Math.round(loc.employerNI * 100) / 100;
+      loc.employerPension = Math.round(loc.employerPension * 100) / 100;
+      loc.totalCost = Math.round(loc.totalCost * 100) / 100;
     }
 
     // Filter staff list - non-admins can't see manager/admin salaries
@@ -378,6 +407,15 @@ export async function GET(req: Request) {
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
       },
+      taxYear: {
+        label: taxYear.label,
+        employerNIRate: taxYear.ni.employerRate,
+        secondaryThresholdMonthly: taxYear.ni.secondaryThresholdMonthly,
+        holidayAccrualRate: taxYear.holidayAccrualRate,
+        employmentAllowance: taxYear.employmentAllowance,
+        pensionEmployerRate: taxYear.pension.employerRate,
+        pensionEmployeeRate: taxYear.pension.employeeRate,
+      },
       totals,
       variance,
       staff: visibleStaff.sort((a, b) => b.totalCost - a.totalCost),
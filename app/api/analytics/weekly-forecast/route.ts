@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { getEffectiveHourlyRate } from "@/lib/uk-payroll";
+import { calculateStaffCost, getEffectiveHourlyRate, getTaxYearRules } from "@/lib/uk-payroll";
+import { getPayrollProfiles } from "@/lib/payroll-profiles";
 
 export async function GET(req: Request) {
   try {
@@ -281,6 +282,24 @@ export async function GET(req: Request) {
       }
     }
 
+    // Employer on-costs (holiday accrual, employer NI and pension) at the rates
+    // for the tax year the week falls in, with thresholds scaled to a week
+    const taxYear = getTaxYearRules(weekStart);
+    const paymentTypes = new Map(staff.map((member) => [member.id, member.paymentType]));
+    const profiles = await getPayrollProfiles(session.user.organizationId, weekStart);
+    const onCosts = (userId: string, grossPay: number) => {
+      const costs = calculateStaffCost(grossPay, paymentTypes.get(userId) || "HOURLY", taxYear, {
+        months: 12 / 52,
+        profile: profiles.get(userId),
+      });
+      return costs.holidayAccrual + costs.employerNI + costs.employerPension;
+    };
+    const contractedOnCosts = staffContracted.reduce((sum, s) => sum + onCosts(s.userId, s.estimatedCost), 0);
+    const scheduledOnCosts = Object.values(staffScheduled).reduce(
+      (sum, s) => sum + onCosts(s.userId, s.estimatedCost),
+      0
+    );
+
     // Calculate variance
     const hoursVariance = totalScheduledHours - totalContractedHours;
     const costVariance = totalScheduledCost - totalContractedCost;
@@ -291,15 +310,18 @@ export async function GET(req: Request) {
     return NextResponse.json({
       weekStart: weekStart.toISOString(),
       weekEnd: weekEnd.toISOString(),
+      taxYear: taxYear.label,
       contracted: {
         totalHours: round(totalContractedHours),
         totalCost: round(totalContractedCost),
+        onCosts: round(contractedOnCosts),
         staffCount: staffContracted.length,
         staff: staffContracted,
       },
       scheduled: {
         totalHours: round(totalScheduledHours),
         totalCost: round(totalScheduledCost),
+        onCosts: round(scheduledOnCosts),
         shiftCount: shifts.length,
         staff: Object.values(staffScheduled),
       },
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { NotFoundError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST acknowledge an announcement. Acknowledging twice keeps the first time.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const announcement = await prisma.announcement.findUnique({
+      where: { id },
+      select: { organizationId: true },
+    });
+    if (!announcement || announcement.organizationId !== session.user.organizationId) {
+      throw new NotFoundError("Announcement not found");
+    }
+
+    const acknowledgement = await prisma.announcementAcknowledgement.upsert({
+      where: { announcementId_userId: { announcementId: id, userId: session.user.id } },
+      update: {},
+      create: { announcementId: id, userId: session.user.id },
+    });
+
+    return NextResponse.json(acknowledgement);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getAcknowledgementReport } from "@/lib/announcements";
+import { NotFoundError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET who has and hasn't acknowledged an announcement
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const announcement = await prisma.announcement.findUnique({ where: { id } });
+    if (!announcement || announcement.organizationId !== session.user.organizationId) {
+      throw new NotFoundError("Announcement not found");
+    }
+
+    const report = await getAcknowledgementReport(announcement);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
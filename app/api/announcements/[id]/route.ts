@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { updateAnnouncementSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+async function getManagedAnnouncement(id: string, organizationId: string) {
+  const announcement = await prisma.announcement.findUnique({ where: { id } });
+  if (!announcement || announcement.organizationId !== organizationId) {
+    throw new NotFoundError("Announcement not found");
+  }
+  return announcement;
+}
+
+// PATCH update an announcement (e.g. extend or end it early)
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    await getManagedAnnouncement(id, session.user.organizationId);
+
+    const body = await req.json();
+    const result = updateAnnouncementSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { targetLocationIds, targetStaffRoles, expiresAt, ...data } = result.data;
+
+    const announcement = await prisma.announcement.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(targetLocationIds !== undefined && { targetLocationIds: JSON.stringify(targetLocationIds) }),
+        ...(targetStaffRoles !== undefined && { targetStaffRoles: JSON.stringify(targetStaffRoles) }),
+        ...(expiresAt !== undefined && { expiresAt: expiresAt ? new Date(expiresAt) : null }),
+      },
+    });
+
+    return NextResponse.json(announcement);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    await getManagedAnnouncement(id, session.user.organizationId);
+
+    await prisma.announcement.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  getActiveAnnouncementsForUser,
+  getTargetedUsers,
+  parseTargets,
+  requiresAcknowledgement,
+} from "@/lib/announcements";
+import { dispatchNotifications } from "@/lib/notifications";
+import { createAnnouncementSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET announcements. Staff get their active, targeted announcements;
+// managers can pass ?manage=true for every announcement including expired ones.
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+
+    if (searchParams.get("manage") === "true" && isManager) {
+      const announcements = await prisma.announcement.findMany({
+        where: { organizationId: session.user.organizationId },
+        include: {
+          createdBy: { select: { id: true, name: true } },
+          _count: { select: { acknowledgements: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+
+      return NextResponse.json(
+        announcements.map(({ targetLocationIds, targetStaffRoles, ...announcement }) => ({
+          ...announcement,
+          ...parseTargets({ targetLocationIds, targetStaffRoles }),
+          requiresAcknowledgement: requiresAcknowledgement(announcement.priority),
+        }))
+      );
+    }
+
+    const announcements = await getActiveAnnouncementsForUser(
+      session.user.id,
+      session.user.organizationId
+    );
+
+    return NextResponse.json(announcements);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST create an announcement and notify everyone it targets
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = createAnnouncementSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { targetLocationIds, targetStaffRoles, expiresAt, ...data } = result.data;
+    const organizationId = session.user.organizationId;
+
+    if (targetLocationIds.length > 0) {
+      const locationCount = await prisma.location.count({
+        where: { id: { in: targetLocationIds }, organizationId },
+      });
+      if (locationCount !== targetLocationIds.length) {
+        throw new ValidationError("One or more locations were not found");
+      }
+    }
+
+    const announcement = await prisma.announcement.create({
+      data: {
+        ...data,
+        targetLocationIds: JSON.stringify(targetLocationIds),
+        targetStaffRoles: JSON.stringify(targetStaffRoles),
+        expiresAt: expiresAt ? new Date(expiresAt) : null,
+        organizationId,
+        createdById: session.user.id,
+      },
+    });
+
+    const recipients = await getTargetedUsers(organizationId, {
+      locationIds: targetLocationIds,
+      staffRoles: targetStaffRoles,
+    });
+
+    await dispatchNotifications(
+      recipients
+        .filter((user) => user.id !== session.user.id)
+        .map((user) => ({
+          userId: user.id,
+          type: "ANNOUNCEMENT",
+          title: requiresAcknowledgement(announcement.priority)
+            ? `Action required: ${announcement.title}`
+            : announcement.title,
+          message: announcement.content.length > 140
+            ? `${announcement.content.slice(0, 139)}…`
+            : announcement.content,
+          link: "/dashboard",
+        }))
+    );
+
+    return NextResponse.json(announcement, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
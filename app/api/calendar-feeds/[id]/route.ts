@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { handleApiError } from "@/lib/api-utils";
+
+// DELETE revoke a feed. Subscribed calendars stop updating straight away.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { id },
+    });
+
+    if (!feed || feed.organizationId !== session.user.organizationId || feed.revokedAt) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    const canRevoke =
+      feed.userId === session.user.id ||
+      feed.createdById === session.user.id ||
+      (isManager && feed.type === "LOCATION");
+    if (!canRevoke) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await prisma.calendarFeed.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { generateFeedToken, getFeedUrls } from "@/lib/calendar-feeds";
+import { createCalendarFeedSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the current user's active feeds (and location feeds for managers)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+    const { origin } = new URL(req.url);
+
+    const feeds = await prisma.calendarFeed.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        revokedAt: null,
+        OR: [
+          { type: "USER", userId: session.user.id },
+          isManager ? { type: "LOCATION" } : { type: "LOCATION", createdById: session.user.id },
+        ],
+      },
+      include: {
+        location: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(
+      feeds.map(({ token, ...feed }) => ({ ...feed, ...getFeedUrls(origin, token) }))
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST create a feed. Each user has one active personal feed and each
+// location one active feed; asking again returns the existing one.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = createCalendarFeedSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { type, locationId } = result.data;
+    const organizationId = session.user.organizationId;
+    const { origin } = new URL(req.url);
+
+    if (type === "LOCATION") {
+      const isAdmin = session.user.role === "ADMIN";
+      const location = await prisma.location.findFirst({
+        where: {
+          id: locationId!,
+          organizationId,
+          // Staff can only subscribe to locations they work at
+          ...(isAdmin ? {} : { staff: { some: { userId: session.user.id } } }),
+        },
+        select: { id: true },
+      });
+      if (!location) {
+        return NextResponse.json({ error: "Location not found" }, { status: 404 });
+      }
+    }
+
+    const scope = type === "USER"
+      ? { type, userId: session.user.id }
+      : { type, locationId: locationId! };
+
+    const existing = await prisma.calendarFeed.findFirst({
+      where: { organizationId, revokedAt: null, ...scope },
+      include: { location: { select: { id: true, name: true } } },
+    });
+
+    const feed = existing || await prisma.calendarFeed.create({
+      data: {
+        ...scope,
+        token: generateFeedToken(),
+        organizationId,
+        createdById: session.user.id,
+      },
+      include: { location: { select: { id: true, name: true } } },
+    });
+
+    const { token, ...rest } = feed;
+    return NextResponse.json({ ...rest, ...getFeedUrls(origin, token) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { buildUserFeed, buildLocationFeed } from "@/lib/calendar-feeds";
+
+// GET public ICS feed. The token is the only credential, so revoked or
+// unknown tokens get a plain 404.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { token: token.replace(/\.ics$/, "") },
+    });
+
+    if (!feed || feed.revokedAt) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    let calendar: string;
+    if (feed.type === "USER" && feed.userId) {
+      calendar = await buildUserFeed(feed.organizationId, feed.userId);
+    } else if (feed.type === "LOCATION" && feed.locationId) {
+      calendar = await buildLocationFeed(feed.organizationId, feed.locationId);
+    } else {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    // Track usage without holding up the response
+    prisma.calendarFeed
+      .update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } })
+      .catch((err) => console.error("Failed to update calendar feed access time:", err));
+
+    return new Response(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="shifts.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
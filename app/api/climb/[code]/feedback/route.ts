@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getClimberPageLocation, saveRouteFeedback } from "@/lib/climber-page";
+import { routeFeedbackSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST a climber's rating and suggested grade for a route. Sending it again
+// updates their earlier feedback rather than adding another vote.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const location = await getClimberPageLocation(code);
+
+    const body = await req.json();
+    const result = routeFeedbackSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const feedback = await saveRouteFeedback(location, result.data);
+
+    return NextResponse.json({
+      rating: feedback.rating,
+      suggestedGrade: feedback.suggestedGrade,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getClimberPageLocation, reportRouteProblem } from "@/lib/climber-page";
+import { routeProblemSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST a problem with a route, such as a spinning hold. It goes on the
+// maintenance defect list for staff to fix.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const location = await getClimberPageLocation(code);
+
+    const body = await req.json();
+    const result = routeProblemSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { duplicate } = await reportRouteProblem(location, result.data);
+
+    return NextResponse.json({ reported: true, alreadyReported: duplicate }, { status: duplicate ? 200 : 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
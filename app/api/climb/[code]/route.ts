@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getClimberPageLocation } from "@/lib/climber-page";
+import { getGradeOptions, summarizeRouteFeedback } from "@/lib/route-feedback";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the routes up at a location for the public climber page, by sector,
+// with what climbers think of them. ?climberId= adds the climber's own
+// rating and grade for each route. Setters aren't shown.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const location = await getClimberPageLocation(code);
+
+    const { searchParams } = new URL(req.url);
+    const climberId = searchParams.get("climberId");
+
+    const sectors = await prisma.settingSector.findMany({
+      where: { locationId: location.id, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        discipline: true,
+        routes: {
+          where: { strippedAt: null },
+          select: {
+            id: true,
+            name: true,
+            grade: true,
+            color: true,
+            setDate: true,
+            feedback: { select: { climberId: true, rating: true, suggestedGrade: true, comment: true } },
+          },
+          orderBy: [{ setDate: "desc" }, { createdAt: "asc" }],
+        },
+      },
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json({
+      location: { name: location.name },
+      sectors: sectors.map((sector) => ({
+        ...sector,
+        routes: sector.routes.map(({ feedback, ...route }) => {
+          const mine = climberId ? feedback.find((f) => f.climberId === climberId) : undefined;
+          return {
+            ...route,
+            gradeOptions: getGradeOptions(route.grade),
+            summary: summarizeRouteFeedback(route.grade, feedback),
+            mine: mine ? { rating: mine.rating, suggestedGrade: mine.suggestedGrade, comment: mine.comment } : null,
+          };
+        }),
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { logAudit, getRequestContext } from "@/lib/audit";
-import { createNotification } from "@/lib/notifications";
+import { dispatchNotification } from "@/lib/notifications";
 
 // POST - Manager conducts a performance review
 export async function POST(
@@ -148,7 +148,7 @@ export async function POST(
     });
 
     // Create notification for the employee
-    await createNotification({
+    await dispatchNotification({
       userId,
       type: "REVIEW_COMPLETED",
       title: "Performance Review Ready",
@@ -238,7 +238,7 @@ export async function PATCH(
 
     // Notify the reviewer
     if (record.reviewedById) {
-      await createNotification({
+      await dispatchNotification({
         userId: record.reviewedById,
         type: "REVIEW_ACKNOWLEDGED",
         title: "Review Acknowledged",
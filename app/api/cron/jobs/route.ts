@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { processDueJobs, scheduleRecurringJobs } from "@/lib/jobs";
+
+// Called every few minutes by a scheduler (see the README) to enqueue each
+// organization's recurring jobs at their local time and run due jobs
+
+export async function GET(req: Request) {
+  try {
+    // Require CRON_SECRET for authorization
+    const authHeader = req.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret) {
+      console.error("CRON_SECRET not configured");
+      return NextResponse.json({ error: "Server misconfigured" }, { status: 500 });
+    }
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const now = new Date();
+    const scheduled = await scheduleRecurringJobs(now);
+    const { succeeded, failed } = await processDueJobs(now);
+
+    return NextResponse.json({
+      success: true,
+      scheduled,
+      succeeded,
+      failed,
+      timestamp: now.toISOString(),
+    });
+  } catch (error) {
+    console.error("Job runner cron error:", error);
+    return NextResponse.json({ error: "Failed to process jobs" }, { status: 500 });
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(req: Request) {
+  return GET(req);
+}
@@ -1,200 +0,0 @@
-import { NextResponse } from "next/server";
-import { prisma } from "@/lib/db";
-import { sendEmail, shiftReminderEmail, ShiftDetail } from "@/lib/email";
-import { createNotification } from "@/lib/notifications";
-
-// This route can be called by a cron job service (e.g., Vercel Cron, GitHub Actions)
-// to send shift reminders to employees
-
-interface ShiftWithDetails {
-  id: string;
-  title: string;
-  startTime: Date;
-  endTime: Date;
-  assignedTo: { id: string; name: string | null; email: string | null } | null;
-  location: { name: string } | null;
-}
-
-export async function GET(req: Request) {
-  try {
-    // Require CRON_SECRET for authorization
-    const authHeader = req.headers.get("authorization");
-    const cronSecret = process.env.CRON_SECRET;
-
-    if (!cronSecret) {
-      console.error("CRON_SECRET not configured");
-      return NextResponse.json({ error: "Server misconfigured" }, { status: 500 });
-    }
-    if (authHeader !== `Bearer ${cronSecret}`) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get all organizations with their reminder settings
-    const organizations = await prisma.organization.findMany({
-      select: {
-        id: true,
-        name: true,
-        shiftReminderHours: true,
-      },
-    });
-
-    const now = new Date();
-    let totalReminders = 0;
-    let emailsSent = 0;
-
-    for (const org of organizations) {
-      const reminderHours = org.shiftReminderHours;
-
-      // Calculate the time window for shifts that need reminders
-      // Shifts starting between now + (reminderHours - 0.5) and now + (reminderHours + 0.5) hours
-      const windowStart = new Date(now.getTime() + (reminderHours - 0.5) * 60 * 60 * 1000);
-      const windowEnd = new Date(now.getTime() + (reminderHours + 0.5) * 60 * 60 * 1000);
-
-      // Find shifts starting within the reminder window
-      const upcomingShifts = await prisma.shift.findMany({
-        where: {
-          organizationId: org.id,
-          status: "SCHEDULED",
-          assignedToId: { not: null },
-          startTime: {
-            gte: windowStart,
-            lt: windowEnd,
-          },
-        },
-        include: {
-          assignedTo: {
-            select: { id: true, name: true, email: true },
-          },
-          location: {
-            select: { name: true },
-          },
-        },
-        orderBy: { startTime: "asc" },
-      });
-
-      // Group shifts by user and date
-      const shiftsByUserAndDate = new Map<string, {
-        user: { id: string; name: string | null; email: string | null };
-        date: string;
-        formattedDate: string;
-        shifts: ShiftWithDetails[];
-      }>();
-
-      for (const shift of upcomingShifts) {
-        if (!shift.assignedTo) continue;
-
-        const shiftDate = new Date(shift.startTime);
-        const dateKey = shiftDate.toDateString(); // e.g., "Mon Jan 23 2024"
-        const userDateKey = `${shift.assignedTo.id}-${dateKey}`;
-
-        if (!shiftsByUserAndDate.has(userDateKey)) {
-          shiftsByUserAndDate.set(userDateKey, {
-            user: shift.assignedTo,
-            date: dateKey,
-            formattedDate: shiftDate.toLocaleDateString("en-GB", {
-              weekday: "short",
-              day: "numeric",
-              month: "short",
-            }),
-            shifts: [],
-          });
-        }
-
-        shiftsByUserAndDate.get(userDateKey)!.shifts.push(shift);
-      }
-
-      // Process each user-date group
-      for (const [, group] of shiftsByUserAndDate) {
-        const { user, formattedDate, shifts } = group;
-
-        // Check which shifts haven't had reminders sent yet
-        const shiftsNeedingReminder: ShiftWithDetails[] = [];
-
-        for (const shift of shifts) {
-          const existingReminder = await prisma.notification.findFirst({
-            where: {
-              userId: user.id,
-              type: "SHIFT_REMINDER",
-              createdAt: {
-                gte: new Date(now.getTime() - 24 * 60 * 60 * 1000), // Within last 24 hours
-              },
-              message: {
-                contains: shift.id,
-              },
-            },
-          });
-
-          if (!existingReminder) {
-            shiftsNeedingReminder.push(shift);
-
-            // Create in-app notification for each shift
-            const shiftStartTime = new Date(shift.startTime);
-            await createNotification({
-              userId: user.id,
-              type: "SHIFT_REMINDER",
-              title: "Upcoming Shift Reminder",
-              message: `You have a shift "${shift.title}" on ${formattedDate} at ${shiftStartTime.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}. Shift ID: ${shift.id}`,
-              link: "/dashboard/schedule",
-            });
-            totalReminders++;
-          }
-        }
-
-        // Send one combined email for all shifts needing reminders
-        if (shiftsNeedingReminder.length > 0 && user.email) {
-          const shiftDetails: ShiftDetail[] = shiftsNeedingReminder.map((shift) => {
-            const startTime = new Date(shift.startTime);
-            const endTime = new Date(shift.endTime);
-            return {
-              shiftTitle: shift.title,
-              shiftTime: `${startTime.toLocaleTimeString("en-GB", {
-                hour: "2-digit",
-                minute: "2-digit",
-              })} - ${endTime.toLocaleTimeString("en-GB", {
-                hour: "2-digit",
-                minute: "2-digit",
-              })}`,
-              locationName: shift.location?.name,
-            };
-          });
-
-          const emailContent = shiftReminderEmail({
-            employeeName: user.name || "Team Member",
-            shiftDate: formattedDate,
-            shifts: shiftDetails,
-            organizationName: org.name,
-          });
-
-          const result = await sendEmail({
-            to: user.email,
-            subject: emailContent.subject,
-            html: emailContent.html,
-            text: emailContent.text,
-          });
-
-          if (result.success) {
-            emailsSent++;
-          }
-        }
-      }
-    }
-
-    return NextResponse.json({
-      success: true,
-      remindersCreated: totalReminders,
-      emailsSent,
-      timestamp: now.toISOString(),
-    });
-  } catch (error) {
-    console.error("Shift reminder cron error:", error);
-    return NextResponse.json(
-      { error: "Failed to process shift reminders" },
-      { status: 500 }
-    );
-  }
-}
-
-// Also support POST for manual triggering
-export async function POST(req: Request) {
-  return GET(req);
-}
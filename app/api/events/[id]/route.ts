@@ -8,6 +8,7 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   GROUP: "#f59e0b",      // Orange
   TRAINING: "#3b82f6",   // Blue
   COMPETITION: "#8b5cf6", // Purple
+  SETTING: "#10b981",    // Green
   OTHER: "#6b7280",      // Gray
 };
 
@@ -49,8 +50,22 @@ export async function PATCH(
       expectedGuests,
       staffRequired,
       locationId,
+      sectorId,
     } = await req.json();
 
+    // Setting days can name the sector being reset, at the sector's location
+    let sector: { id: string; locationId: string } | null = null;
+    if (sectorId) {
+      sector = await prisma.settingSector.findFirst({
+        where: { id: sectorId, organizationId: session.user.organizationId },
+        select: { id: true, locationId: true },
+      });
+      if (!sector) {
+        return NextResponse.json({ error: "Sector not found" }, { status: 404 });
+      }
+    }
+    const isSettingDay = (eventType ?? existingEvent.eventType) === "SETTING";
+
     // Get color based on event type (if changed)
     const color = eventType
       ? EVENT_TYPE_COLORS[eventType] || EVENT_TYPE_COLORS.OTHER
@@ -71,6 +86,10 @@ export async function PATCH(
           staffRequired: staffRequired ? parseInt(staffRequired) : null,
         }),
         ...(locationId !== undefined && { locationId: locationId || null }),
+        ...(sector && isSettingDay && { locationId: sector.locationId }),
+        ...((sectorId !== undefined || !isSettingDay) && {
+          sectorId: isSettingDay ? sector?.id || null : null,
+        }),
       },
       include: {
         location: {
@@ -79,6 +98,9 @@ export async function PATCH(
         createdBy: {
           select: { id: true, name: true },
         },
+        sector: {
+          select: { id: true, name: true },
+        },
       },
     });
 
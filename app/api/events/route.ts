@@ -8,6 +8,7 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   GROUP: "#f59e0b",      // Orange
   TRAINING: "#3b82f6",   // Blue
   COMPETITION: "#8b5cf6", // Purple
+  SETTING: "#10b981",    // Green
   OTHER: "#6b7280",      // Gray
 };
 
@@ -62,6 +63,9 @@ export async function GET(req: Request) {
         createdBy: {
           select: { id: true, name: true },
         },
+        sector: {
+          select: { id: true, name: true },
+        },
       },
       orderBy: { startTime: "asc" },
     });
@@ -97,6 +101,7 @@ export async function POST(req: Request) {
       expectedGuests,
       staffRequired,
       locationId,
+      sectorId,
     } = await req.json();
 
     if (!title || !eventType || !startTime || !endTime) {
@@ -107,7 +112,7 @@ export async function POST(req: Request) {
     }
 
     // Validate event type
-    const validTypes = ["PARTY", "GROUP", "TRAINING", "COMPETITION", "OTHER"];
+    const validTypes = ["PARTY", "GROUP", "TRAINING", "COMPETITION", "SETTING", "OTHER"];
     if (!validTypes.includes(eventType)) {
       return NextResponse.json(
         { error: "Invalid event type" },
@@ -115,6 +120,18 @@ export async function POST(req: Request) {
       );
     }
 
+    // Setting days can name the sector being reset, at the sector's location
+    let sector: { id: string; locationId: string } | null = null;
+    if (sectorId && eventType === "SETTING") {
+      sector = await prisma.settingSector.findFirst({
+        where: { id: sectorId, organizationId: session.user.organizationId },
+        select: { id: true, locationId: true },
+      });
+      if (!sector) {
+        return NextResponse.json({ error: "Sector not found" }, { status: 404 });
+      }
+    }
+
     // Get color based on event type
     const color = EVENT_TYPE_COLORS[eventType] || EVENT_TYPE_COLORS.OTHER;
 
@@ -129,7 +146,8 @@ export async function POST(req: Request) {
         staffRequired: staffRequired ? parseInt(staffRequired) : null,
         color,
         organizationId: session.user.organizationId,
-        locationId: locationId || null,
+        locationId: sector?.locationId || locationId || null,
+        sectorId: sector?.id || null,
         createdById: session.user.id,
       },
       include: {
@@ -139,6 +157,9 @@ export async function POST(req: Request) {
         createdBy: {
           select: { id: true, name: true },
         },
+        sector: {
+          select: { id: true, name: true },
+        },
       },
     });
 
@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { createNotification } from "@/lib/notifications";
+import { dispatchNotification } from "@/lib/notifications";
+import { getLeaveSettings } from "@/lib/holiday-entitlement";
+import { recordAbsenceApproval, recordAbsenceCancellation } from "@/lib/absences";
+import { canApproveAbsence, getAbsenceLabel } from "@/lib/absence-types";
+import { checkLeaveRules, formatLeaveClashes, isLeaveRuleChecked } from "@/lib/leave-rules";
+
+const STATUSES = ["APPROVED", "REJECTED", "CANCELLED"];
 
 export async function PATCH(
   req: Request,
@@ -14,12 +20,8 @@ export async function PATCH(
     }
 
     const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
-    if (!isManager) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     const { id } = await params;
-    const { status } = await req.json();
+    const body = await req.json();
 
     const request = await prisma.holidayRequest.findUnique({
       where: { id },
@@ -30,27 +32,122 @@ export async function PATCH(
       return NextResponse.json({ error: "Request not found" }, { status: 404 });
     }
 
-    const updatedRequest = await prisma.holidayRequest.update({
-      where: { id },
-      data: { status },
-    });
-
-    // If approved, deduct from holiday balance
-    if (status === "APPROVED") {
-      await prisma.user.update({
-        where: { id: request.userId },
+    // Sickness evidence can be added after the absence is reported, by the
+    // employee or a manager
+    if (body.status === undefined) {
+      if (request.userId !== session.user.id && !isManager) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      if (request.type !== "SICK") {
+        return NextResponse.json({ error: "Only sickness records take evidence" }, { status: 400 });
+      }
+      if (body.selfCertified !== undefined && request.userId !== session.user.id) {
+        return NextResponse.json(
+          { error: "Only the employee can self-certify their sickness" },
+          { status: 403 }
+        );
+      }
+
+      const updated = await prisma.holidayRequest.update({
+        where: { id },
         data: {
-          holidayBalance: { decrement: request.hours },
+          ...(body.selfCertified !== undefined && { selfCertified: !!body.selfCertified }),
+          ...(body.documentUrl !== undefined && {
+            documentUrl: body.documentUrl || null,
+            documentName: body.documentUrl ? body.documentName || null : null,
+          }),
         },
       });
+      return NextResponse.json(updated);
+    }
+
+    const { status } = body;
+    if (!isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const label = getAbsenceLabel(request.type);
+    if (status !== "CANCELLED" && !canApproveAbsence(request.type, session.user.role)) {
+      return NextResponse.json(
+        { error: `${label} can only be approved or rejected by an admin` },
+        { status: 403 }
+      );
+    }
+
+    if (request.status === status) {
+      return NextResponse.json(
+        { error: `Request is already ${status.toLowerCase()}` },
+        { status: 400 }
+      );
+    }
+
+    // Check the leave rules again, as others may have been approved since it
+    // was requested, and show the shifts that would need reassigning
+    if (status === "APPROVED" && isLeaveRuleChecked(request.type)) {
+      const { clashes, shifts } = await checkLeaveRules(request, session.user.organizationId);
+      if (clashes.length > 0 && !body.overrideClashes) {
+        return NextResponse.json(
+          {
+            error: "This request breaks the leave rules",
+            code: "LEAVE_CLASH",
+            clashError: formatLeaveClashes(clashes),
+            clashes,
+            shifts,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const settings = await getLeaveSettings(session.user.organizationId);
+    const updatedRequest = await prisma.$transaction(async (tx) => {
+      // Only move on from the status we read, so two managers can't both approve
+      const claimed = await tx.holidayRequest.updateMany({
+        where: { id, status: request.status },
+        data: { status },
+      });
+      if (claimed.count === 0) return null;
+
+      // The ledger takes approved hours from the balance and gives them back
+      // if an approved request is later rejected or cancelled
+      if (status === "APPROVED") {
+        await recordAbsenceApproval(request, session.user.id, settings, tx);
+      } else if (request.status === "APPROVED") {
+        await recordAbsenceCancellation(
+          request,
+          session.user.id,
+          status === "REJECTED" ? "rejected after approval" : "cancelled",
+          settings,
+          tx
+        );
+      }
+
+      return tx.holidayRequest.findUniqueOrThrow({ where: { id } });
+    });
+
+    if (!updatedRequest) {
+      return NextResponse.json(
+        { error: "Request was changed by someone else. Refresh and try again." },
+        { status: 409 }
+      );
     }
 
+    const titles: Record<string, string> = {
+      APPROVED: `${label} Approved`,
+      REJECTED: `${label} Rejected`,
+      CANCELLED: `${label} Cancelled`,
+    };
+
     // Notify the user
-    await createNotification({
+    await dispatchNotification({
       userId: request.userId,
       type: status === "APPROVED" ? "HOLIDAY_APPROVED" : "HOLIDAY_REJECTED",
-      title: status === "APPROVED" ? "Holiday Approved" : "Holiday Rejected",
-      message: `Your holiday request has been ${status.toLowerCase()}`,
+      title: titles[status],
+      message: `Your ${label.toLowerCase()} request has been ${status.toLowerCase()}`,
       link: "/dashboard/holidays",
     });
 
@@ -78,9 +175,10 @@ export async function DELETE(
 
     const request = await prisma.holidayRequest.findUnique({
       where: { id },
+      include: { user: { select: { organizationId: true } } },
     });
 
-    if (!request) {
+    if (!request || request.user.organizationId !== session.user.organizationId) {
       return NextResponse.json({ error: "Request not found" }, { status: 404 });
     }
 
@@ -90,6 +188,30 @@ export async function DELETE(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Sickness counts towards the Bradford Factor, so only managers correct it
+    if (request.type === "SICK" && request.status === "APPROVED" && !isManager) {
+      return NextResponse.json(
+        { error: "Ask a manager to correct a sickness record" },
+        { status: 403 }
+      );
+    }
+
+    // Approved absence is cancelled rather than deleted, so the ledgers can
+    // still show where the hours went and when they came back
+    if (request.status === "APPROVED") {
+      const settings = await getLeaveSettings(session.user.organizationId);
+      await prisma.$transaction(async (tx) => {
+        const claimed = await tx.holidayRequest.updateMany({
+          where: { id, status: "APPROVED" },
+          data: { status: "CANCELLED" },
+        });
+        if (claimed.count > 0) {
+          await recordAbsenceCancellation(request, session.user.id, "cancelled", settings, tx);
+        }
+      });
+      return NextResponse.json({ success: true, cancelled: true });
+    }
+
     await prisma.holidayRequest.delete({
       where: { id },
     });
@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { adjustHolidayBalanceSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+import { logAudit, getRequestContext } from "@/lib/audit";
+import {
+  getCurrentLeaveYear,
+  getLeaveBalance,
+  getLeaveSettings,
+  getLeaveYear,
+  leaveStaffSelect,
+  recordAdjustment,
+} from "@/lib/holiday-entitlement";
+
+// GET a user's holiday ledger for a leave year (own ledger, or anyone's for managers)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId") || session.user.id;
+    const year = searchParams.get("year");
+
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+    if (userId !== session.user.id && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    if (year && !/^\d{4}-\d{2}-\d{2}$/.test(year)) {
+      throw new ValidationError("Year must be the leave year's start date (YYYY-MM-DD)");
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { id: userId, organizationId: session.user.organizationId },
+      select: { id: true, name: true, paymentType: true, contractedHours: true, holidayBalance: true },
+    });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const settings = await getLeaveSettings(session.user.organizationId);
+    const currentLeaveYear = getCurrentLeaveYear(settings);
+    const leaveYear = year ? getLeaveYear(year, settings) : currentLeaveYear;
+
+    const [entries, recordedYears, balance] = await Promise.all([
+      prisma.holidayLedgerEntry.findMany({
+        where: { userId, leaveYearStart: leaveYear.start },
+        include: {
+          createdBy: { select: { name: true } },
+          holidayRequest: { select: { startDate: true, endDate: true, status: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.holidayLedgerEntry.findMany({
+        where: { userId },
+        distinct: ["leaveYearStart"],
+        select: { leaveYearStart: true },
+      }),
+      getLeaveBalance(userId, leaveYear.start),
+    ]);
+
+    const yearStarts = new Set([currentLeaveYear.start, ...recordedYears.map((y) => y.leaveYearStart)]);
+    const years = [...yearStarts]
+      .sort()
+      .reverse()
+      .map((start) => getLeaveYear(start, settings));
+
+    return NextResponse.json({
+      user,
+      leaveYear,
+      currentLeaveYearStart: currentLeaveYear.start,
+      years,
+      // Staff whose ledger hasn't started yet still have their old balance
+      balance: entries.length === 0 && leaveYear.start === currentLeaveYear.start ? user.holidayBalance : balance,
+      entries,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST a manual adjustment to the current leave year's balance (manager/admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = adjustHolidayBalanceSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { userId, hours, reason } = result.data;
+
+    const staff = await prisma.user.findFirst({
+      where: { id: userId, organizationId: session.user.organizationId },
+      select: leaveStaffSelect,
+    });
+    if (!staff) {
+      throw new NotFoundError("User not found");
+    }
+
+    const settings = await getLeaveSettings(session.user.organizationId);
+    const { entry, balance } = await prisma.$transaction((tx) =>
+      recordAdjustment(staff, hours, reason, session.user.id, settings, tx)
+    );
+
+    await logAudit({
+      action: "HOLIDAY_BALANCE_ADJUSTED",
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+      resourceId: entry.id,
+      changes: {
+        before: { holidayBalance: staff.holidayBalance },
+        after: { holidayBalance: balance },
+      },
+      metadata: { staffId: userId, hours, reason },
+      ...getRequestContext(req),
+    });
+
+    return NextResponse.json({ entry, balance });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,7 +1,16 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { createNotifications } from "@/lib/notifications";
+import { dispatchNotifications } from "@/lib/notifications";
+import { getLeaveSettings, leaveStaffSelect } from "@/lib/holiday-entitlement";
+import { getAvailableAbsenceHours, recordAbsenceApproval } from "@/lib/absences";
+import { checkLeaveRules, formatLeaveClashes, isLeaveRuleChecked } from "@/lib/leave-rules";
+import {
+  canApproveAbsence,
+  getAbsenceRules,
+  getSicknessEvidence,
+  isAbsenceType,
+} from "@/lib/absence-types";
 
 export async function GET(req: Request) {
   try {
@@ -20,6 +29,7 @@ export async function GET(req: Request) {
         user: {
           select: { id: true, name: true, email: true, holidayBalance: true },
         },
+        recordedBy: { select: { id: true, name: true } },
       },
       orderBy: { createdAt: "desc" },
     });
@@ -41,7 +51,22 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { startDate, endDate, hours, reason } = await req.json();
+    const {
+      type = "HOLIDAY",
+      userId,
+      startDate,
+      endDate,
+      hours,
+      reason,
+      selfCertified,
+      documentUrl,
+      documentName,
+      overrideClashes,
+    } = await req.json();
+
+    if (!isAbsenceType(type)) {
+      return NextResponse.json({ error: "Invalid absence type" }, { status: 400 });
+    }
 
     if (!startDate || !endDate) {
       return NextResponse.json(
@@ -60,52 +85,151 @@ export async function POST(req: Request) {
     const start = new Date(startDate);
     const end = new Date(endDate);
 
-    // Check holiday balance
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-    });
-
-    if (!user || user.holidayBalance < hours) {
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
       return NextResponse.json(
-        { error: "Insufficient holiday balance" },
+        { error: "End date must be on or after the start date" },
         { status: 400 }
       );
     }
 
-    const request = await prisma.holidayRequest.create({
-      data: {
-        userId: session.user.id,
-        startDate: start,
-        endDate: end,
-        hours,
-        reason: reason || null,
-      },
-      include: {
-        user: {
-          select: { id: true, name: true, email: true },
-        },
-      },
-    });
+    // Managers can record an absence for someone else
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+    const forSomeoneElse = !!userId && userId !== session.user.id;
+    if (forSomeoneElse && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
-    // Notify managers
-    const managers = await prisma.user.findMany({
+    const user = await prisma.user.findFirst({
       where: {
+        id: forSomeoneElse ? userId : session.user.id,
         organizationId: session.user.organizationId,
-        role: { in: ["MANAGER", "ADMIN"] },
       },
+      select: { ...leaveStaffSelect, name: true },
     });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    // Short sickness is self-certified by the employee; a fit note can be
+    // added later for longer spells
+    const rules = getAbsenceRules(type);
+    if (
+      type === "SICK" &&
+      !forSomeoneElse &&
+      !documentUrl &&
+      getSicknessEvidence(start, end) === "SELF_CERTIFICATION" &&
+      !selfCertified
+    ) {
+      return NextResponse.json(
+        { error: "Confirm the self-certification to report sickness" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await getLeaveSettings(session.user.organizationId);
+    const balance = await getAvailableAbsenceHours(user, type, start, settings);
+    if (balance && balance.available < hours) {
+      return NextResponse.json(
+        { error: `Insufficient ${balance.label} (${balance.available} hours available)` },
+        { status: 400 }
+      );
+    }
 
-    await createNotifications(
-      managers.map((manager) => ({
-        userId: manager.id,
-        type: "HOLIDAY_REQUEST",
-        title: "Holiday Request",
-        message: `${session.user.name} requested ${hours} hours off`,
+    // Sickness is approved as it is reported, and so is anything recorded by
+    // someone allowed to approve it
+    const approved = rules.approver === null || (forSomeoneElse && canApproveAbsence(type, session.user.role));
+
+    // Staff can't book leave into a blackout. Other clashes are left for the
+    // approver, and anyone recording approved leave confirms them first.
+    const leaveCheck = isLeaveRuleChecked(type)
+      ? await checkLeaveRules({ userId: user.id, startDate: start, endDate: end }, session.user.organizationId)
+      : null;
+    const clashes = leaveCheck?.clashes ?? [];
+    const blackouts = clashes.filter((c) => c.type === "BLACKOUT");
+    if (!forSomeoneElse && blackouts.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Leave can't be booked during a blackout:\n${formatLeaveClashes(blackouts)}`,
+          code: "LEAVE_CLASH",
+          clashes: blackouts,
+        },
+        { status: 400 }
+      );
+    }
+    if (approved && clashes.length > 0 && !overrideClashes) {
+      return NextResponse.json(
+        {
+          error: "This absence breaks the leave rules",
+          code: "LEAVE_CLASH",
+          clashError: formatLeaveClashes(clashes),
+          clashes,
+          shifts: leaveCheck?.shifts ?? [],
+        },
+        { status: 409 }
+      );
+    }
+
+    const request = await prisma.$transaction(async (tx) => {
+      const created = await tx.holidayRequest.create({
+        data: {
+          userId: user.id,
+          type,
+          startDate: start,
+          endDate: end,
+          hours,
+          reason: reason || null,
+          status: approved ? "APPROVED" : "PENDING",
+          selfCertified: type === "SICK" && !forSomeoneElse && !!selfCertified,
+          documentUrl: type === "SICK" ? documentUrl || null : null,
+          documentName: type === "SICK" ? documentName || null : null,
+          recordedById: forSomeoneElse ? session.user.id : null,
+        },
+        include: {
+          user: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+      });
+      if (approved) {
+        await recordAbsenceApproval(created, session.user.id, settings, tx);
+      }
+      return created;
+    });
+
+    if (forSomeoneElse) {
+      await dispatchNotifications([{
+        userId: user.id,
+        type: approved ? "HOLIDAY_APPROVED" : "HOLIDAY_REQUEST",
+        title: `${rules.label} Recorded`,
+        message: `${session.user.name} recorded ${hours} hours of ${rules.label.toLowerCase()} for you`,
         link: "/dashboard/holidays",
-      }))
-    );
+      }]);
+    }
+
+    // Tell whoever needs to approve it, or managers when sickness is reported
+    if (!forSomeoneElse || !approved) {
+      const managers = await prisma.user.findMany({
+        where: {
+          organizationId: session.user.organizationId,
+          role: { in: rules.approver === "ADMIN" ? ["ADMIN"] : ["MANAGER", "ADMIN"] },
+          id: { not: session.user.id },
+        },
+      });
+
+      await dispatchNotifications(
+        managers.map((manager) => ({
+          userId: manager.id,
+          type: type === "SICK" ? "SICKNESS_REPORTED" : "HOLIDAY_REQUEST",
+          title: type === "SICK" ? "Sickness Reported" : `${rules.label} Request`,
+          message: type === "SICK"
+            ? `${user.name} is off sick (${hours} hours)`
+            : `${user.name} requested ${hours} hours of ${rules.label.toLowerCase()}${clashes.length > 0 ? " (clashes with the leave rules)" : ""}`,
+          link: "/dashboard/holidays",
+        }))
+      );
+    }
 
-    return NextResponse.json(request);
+    return NextResponse.json({ ...request, clashes });
   } catch (error) {
     console.error("Create holiday request error:", error);
     return NextResponse.json(
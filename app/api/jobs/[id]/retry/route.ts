@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { retryJob } from "@/lib/jobs";
+import { NotFoundError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST put a failed job back in the queue (admin only)
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    if (!(await retryJob(id, session.user.organizationId))) {
+      throw new NotFoundError("Failed job not found");
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
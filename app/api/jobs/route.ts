@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET recent background jobs and their attempts for the organization (admin only)
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const status = searchParams.get("status");
+
+    const jobs = await prisma.job.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        ...(status && { status }),
+      },
+      include: {
+        runs: { orderBy: { startedAt: "desc" } },
+      },
+      orderBy: { runAt: "desc" },
+      take: 100,
+    });
+
+    return NextResponse.json(jobs);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
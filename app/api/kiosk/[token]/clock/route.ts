@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getKioskDevice, verifyKioskPin } from "@/lib/kiosk";
+import { clockIn, clockOut } from "@/lib/clock-in";
+import { kioskClockSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST clock in or out on a kiosk with a PIN. Clocking in matches the
+// shift and flags early or late punches just like clocking in on a phone.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const device = await getKioskDevice(token);
+
+    const body = await req.json();
+    const result = kioskClockSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { userId, pin, action, photo } = result.data;
+    const user = await verifyKioskPin(device, userId, pin);
+
+    // Track usage without holding up the response
+    prisma.kioskDevice
+      .update({ where: { id: device.id }, data: { lastUsedAt: new Date() } })
+      .catch((err) => console.error("Failed to update kiosk last used time:", err));
+
+    if (action === "in") {
+      const timeEntry = await clockIn({
+        userId: user.id,
+        organizationId: device.organizationId,
+        kiosk: { id: device.id, locationId: device.locationId, photoUrl: photo },
+      });
+
+      return NextResponse.json({
+        action,
+        name: user.name,
+        clockIn: timeEntry.clockIn,
+        requiresApproval: timeEntry.requiresApproval,
+        flagReason: timeEntry.flagReason,
+      });
+    }
+
+    const timeEntry = await clockOut(user.id);
+
+    return NextResponse.json({
+      action,
+      name: user.name,
+      clockOut: timeEntry.clockOut,
+      warning: timeEntry.warning,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
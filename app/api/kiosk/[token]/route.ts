@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getKioskDevice, getKioskStaff } from "@/lib/kiosk";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the staff who can clock in at a kiosk. The token is the only
+// credential, so revoked or unknown tokens get a plain 404.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const device = await getKioskDevice(token);
+
+    const staff = await getKioskStaff(device.organizationId, device.locationId);
+
+    return NextResponse.json({
+      name: device.name,
+      location: { id: device.location.id, name: device.location.name },
+      staff,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
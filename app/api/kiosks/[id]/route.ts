@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { handleApiError } from "@/lib/api-utils";
+
+// DELETE revoke a kiosk. The tablet stops working straight away.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const device = await prisma.kioskDevice.findUnique({
+      where: { id },
+    });
+
+    if (!device || device.organizationId !== session.user.organizationId || device.revokedAt) {
+      return NextResponse.json({ error: "Kiosk not found" }, { status: 404 });
+    }
+
+    await prisma.kioskDevice.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { generateKioskToken, getKioskUrl } from "@/lib/kiosk";
+import { createKioskDeviceSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the organization's active kiosks
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { origin } = new URL(req.url);
+
+    const devices = await prisma.kioskDevice.findMany({
+      where: { organizationId: session.user.organizationId, revokedAt: null },
+      include: { location: { select: { id: true, name: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(
+      devices.map(({ token, ...device }) => ({ ...device, url: getKioskUrl(origin, token) }))
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST set up a kiosk for a location. Open the URL it returns on the tablet.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = createKioskDeviceSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { name, locationId } = result.data;
+    const organizationId = session.user.organizationId;
+    const { origin } = new URL(req.url);
+
+    const location = await prisma.location.findFirst({
+      where: { id: locationId, organizationId, isActive: true },
+      select: { id: true },
+    });
+    if (!location) {
+      throw new NotFoundError("Location not found");
+    }
+
+    const { token, ...device } = await prisma.kioskDevice.create({
+      data: {
+        name,
+        locationId,
+        organizationId,
+        token: generateKioskToken(),
+        createdById: session.user.id,
+      },
+      include: { location: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json({ ...device, url: getKioskUrl(origin, token) }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
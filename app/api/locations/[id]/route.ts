@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { leaveRulesSchema } from "@/lib/schemas";
 
 export async function GET(
   req: Request,
@@ -59,7 +60,17 @@ export async function PATCH(
     }
 
     const { id } = await params;
-    const { name, address, latitude, longitude, clockInRadiusMetres, isActive, breakRules } = await req.json();
+    const { name, address, latitude, longitude, clockInRadiusMetres, isActive, breakRules, leaveRules } = await req.json();
+
+    // Leave rules are stored as JSON; null clears them
+    let leaveRulesJson: string | null | undefined = leaveRules === undefined ? undefined : null;
+    if (leaveRules) {
+      const result = leaveRulesSchema.safeParse(leaveRules);
+      if (!result.success) {
+        return NextResponse.json({ error: result.error.issues[0].message }, { status: 400 });
+      }
+      leaveRulesJson = JSON.stringify(result.data);
+    }
 
     const location = await prisma.location.findUnique({
       where: { id },
@@ -79,6 +90,7 @@ export async function PATCH(
         clockInRadiusMetres: clockInRadiusMetres !== undefined ? clockInRadiusMetres : undefined,
         isActive: isActive !== undefined ? isActive : undefined,
         breakRules: breakRules !== undefined ? breakRules : undefined,
+        leaveRules: leaveRulesJson,
       },
     });
 
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { assetHistoryInclude, getAssetUrl, withAssetStatus } from "@/lib/assets";
+import { parseFormDate } from "@/lib/utils";
+import { updateAssetSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET an asset with its inspection history and QR label
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const asset = await prisma.maintenanceAsset.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      include: assetHistoryInclude,
+    });
+    if (!asset) {
+      throw new NotFoundError("Asset not found");
+    }
+
+    const url = getAssetUrl(new URL(req.url).origin, asset.qrCode);
+
+    return NextResponse.json({
+      ...withAssetStatus(asset),
+      url,
+      qrCodeImage: await QRCode.toDataURL(url, { margin: 1, width: 256 }),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PATCH edit an asset, or retire it from use
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const result = updateAssetSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const organizationId = session.user.organizationId;
+    const existing = await prisma.maintenanceAsset.findFirst({
+      where: { id, organizationId },
+      select: { id: true, retiredAt: true, purchaseDate: true, retirementDate: true },
+    });
+    if (!existing) {
+      throw new NotFoundError("Asset not found");
+    }
+
+    const { retired, purchaseDate, retirementDate, ...data } = result.data;
+
+    // A changed date still has to be in order with the one already saved
+    const newPurchase = parseFormDate(purchaseDate);
+    const newRetirement = parseFormDate(retirementDate);
+    const purchase = newPurchase !== undefined ? newPurchase : existing.purchaseDate;
+    const retirement = newRetirement !== undefined ? newRetirement : existing.retirementDate;
+    if (purchase && retirement && purchase >= retirement) {
+      throw new ValidationError("Retirement date must be after the purchase date");
+    }
+
+    if (data.locationId) {
+      const location = await prisma.location.findFirst({
+        where: { id: data.locationId, organizationId },
+        select: { id: true },
+      });
+      if (!location) {
+        throw new NotFoundError("Location not found");
+      }
+    }
+
+    const asset = await prisma.maintenanceAsset.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        purchaseDate: newPurchase,
+        retirementDate: newRetirement,
+        retiredAt: retired === undefined ? undefined : retired ? existing.retiredAt ?? new Date() : null,
+      },
+      include: { location: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json(withAssetStatus(asset));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
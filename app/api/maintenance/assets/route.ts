@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { generateAssetCode, needsAttention, withAssetStatus } from "@/lib/assets";
+import { parseFormDate } from "@/lib/utils";
+import { createAssetSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the asset register. ?attention=true returns only assets due for
+// inspection or past their lifespan; ?includeRetired=true adds retired ones.
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const locationId = searchParams.get("locationId");
+    const attention = searchParams.get("attention") === "true";
+    const includeRetired = searchParams.get("includeRetired") === "true";
+
+    const assets = await prisma.maintenanceAsset.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        ...(locationId && { locationId }),
+        ...(!includeRetired && { retiredAt: null }),
+      },
+      include: { location: { select: { id: true, name: true } } },
+      orderBy: [{ category: "asc" }, { name: "asc" }],
+    });
+
+    const now = new Date();
+    const withStatus = assets.map((asset) => withAssetStatus(asset, now));
+
+    return NextResponse.json(
+      attention ? withStatus.filter((asset) => needsAttention(asset.status)) : withStatus
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST add an asset to the register
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = createAssetSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { purchaseDate, retirementDate, ...data } = result.data;
+    const organizationId = session.user.organizationId;
+
+    const location = await prisma.location.findFirst({
+      where: { id: data.locationId, organizationId },
+      select: { id: true },
+    });
+    if (!location) {
+      throw new NotFoundError("Location not found");
+    }
+
+    const asset = await prisma.maintenanceAsset.create({
+      data: {
+        ...data,
+        serialNumber: data.serialNumber || null,
+        manufacturer: data.manufacturer || null,
+        model: data.model || null,
+        notes: data.notes || null,
+        purchaseDate: parseFormDate(purchaseDate),
+        retirementDate: parseFormDate(retirementDate),
+        qrCode: generateAssetCode(),
+        organizationId,
+      },
+      include: { location: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json(withAssetStatus(asset), { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { parseChecklist, summarizeReadings } from "@/lib/checklists";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the answers given to one checklist item over time, oldest first, for
+// trends. ?itemId= is required; ?locationId=, ?assetId= and ?days= (default
+// 365) narrow it down.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const itemId = searchParams.get("itemId");
+    const locationId = searchParams.get("locationId");
+    const assetId = searchParams.get("assetId");
+    const days = Math.min(parseInt(searchParams.get("days") || "365") || 365, 3650);
+
+    if (!itemId) {
+      throw new ValidationError("Choose a checklist item");
+    }
+
+    const checkType = await prisma.maintenanceCheckType.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true, name: true, checklist: true },
+    });
+    if (!checkType) {
+      throw new NotFoundError("Check type not found");
+    }
+
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+
+    const answers = await prisma.maintenanceCheckAnswer.findMany({
+      where: {
+        checkTypeId: checkType.id,
+        itemId,
+        checkDate: { gte: since },
+        ...(locationId && { locationId }),
+        ...(assetId && { assetId }),
+      },
+      select: {
+        id: true,
+        label: true,
+        type: true,
+        answer: true,
+        reading: true,
+        unit: true,
+        photoUrl: true,
+        outOfRange: true,
+        checkDate: true,
+        logId: true,
+        location: { select: { id: true, name: true } },
+        asset: { select: { id: true, name: true } },
+      },
+      orderBy: { checkDate: "asc" },
+      take: 1000,
+    });
+
+    return NextResponse.json({
+      // The item as it is now; it may since have been removed from the checklist
+      item: parseChecklist(checkType.checklist).find((item) => item.id === itemId) || null,
+      answers,
+      summary: summarizeReadings(answers),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { checklistSchema } from "@/lib/schemas";
 
 interface ExtendedUser {
   id: string;
@@ -41,7 +42,20 @@ export async function PATCH(
       return NextResponse.json({ error: "Not found" }, { status: 404 });
     }
 
-    const { name, description, frequencyDays, isActive, sortOrder } = body;
+    const { name, description, frequencyDays, isActive, sortOrder, checklist } = body;
+
+    // Checklist items are checked here so the check form can rely on them
+    let checklistJson: string | null | undefined;
+    if (checklist !== undefined) {
+      const result = checklistSchema.safeParse(checklist || []);
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+      checklistJson = result.data.length > 0 ? JSON.stringify(result.data) : null;
+    }
 
     const checkType = await prisma.maintenanceCheckType.update({
       where: { id },
@@ -51,6 +65,7 @@ export async function PATCH(
         ...(frequencyDays !== undefined && { frequencyDays }),
         ...(isActive !== undefined && { isActive }),
         ...(sortOrder !== undefined && { sortOrder }),
+        ...(checklistJson !== undefined && { checklist: checklistJson }),
       },
     });
 
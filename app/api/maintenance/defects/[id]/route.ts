@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { defectInclude, updateDefect } from "@/lib/defects";
+import { updateDefectSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// PATCH move a defect through its lifecycle. Managers can do anything;
+// whoever it is assigned to can start and resolve it.
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const result = updateDefectSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+    if (!isManager) {
+      const defect = await prisma.maintenanceDefect.findFirst({
+        where: { id, organizationId: session.user.organizationId },
+        select: { assignedToId: true },
+      });
+      const canWork = defect?.assignedToId === session.user.id &&
+        (result.data.action === "start" || result.data.action === "resolve");
+      if (!canWork) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    await updateDefect(
+      session.user.organizationId,
+      id,
+      { id: session.user.id, name: session.user.name || "A manager" },
+      result.data
+    );
+
+    const defect = await prisma.maintenanceDefect.findUnique({
+      where: { id },
+      include: defectInclude,
+    });
+
+    return NextResponse.json(defect);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { defectInclude, OPEN_DEFECT_STATUSES, reportDefect } from "@/lib/defects";
+import { createDefectSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET defects. ?status=open (the default) is everything not yet verified;
+// ?status=all includes verified defects from the last 90 days.
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const locationId = searchParams.get("locationId");
+    const status = searchParams.get("status") || "open";
+
+    const ninetyDaysAgo = new Date();
+    ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
+
+    const defects = await prisma.maintenanceDefect.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        ...(locationId && { locationId }),
+        ...(status === "all"
+          ? { OR: [{ status: { not: "VERIFIED" } }, { verifiedAt: { gte: ninetyDaysAgo } }] }
+          : status === "open"
+          ? { status: { in: [...OPEN_DEFECT_STATUSES, "RESOLVED"] } }
+          : { status }),
+      },
+      include: defectInclude,
+      orderBy: [{ dueBy: "asc" }, { createdAt: "asc" }],
+      take: 200,
+    });
+
+    return NextResponse.json(defects);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST report a defect by hand. Anyone can report one; managers work it.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = createDefectSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const defect = await reportDefect(session.user.organizationId, session.user.id, result.data);
+
+    const created = await prisma.maintenanceDefect.findUnique({
+      where: { id: defect.id },
+      include: defectInclude,
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { OPEN_DEFECT_STATUSES, isDefectOverdue } from "@/lib/defects";
+import { getAssetStatus } from "@/lib/assets";
 
 interface ExtendedUser {
   id: string;
@@ -120,6 +122,42 @@ export async function GET(req: Request) {
       take: 20,
     });
 
+    // Defects still being worked, and areas closed by critical defects
+    const openDefects = await prisma.maintenanceDefect.findMany({
+      where: {
+        organizationId: user.organizationId,
+        locationId: { in: locationIdsForQuery },
+        status: { in: OPEN_DEFECT_STATUSES },
+      },
+      select: {
+        id: true,
+        title: true,
+        severity: true,
+        area: true,
+        outOfService: true,
+        dueBy: true,
+        status: true,
+        location: { select: { id: true, name: true } },
+      },
+      orderBy: { dueBy: "asc" },
+    });
+
+    // Assets in use, to count those overdue an inspection or past their lifespan
+    const assets = await prisma.maintenanceAsset.findMany({
+      where: {
+        organizationId: user.organizationId,
+        locationId: { in: locationIdsForQuery },
+        retiredAt: null,
+      },
+      select: {
+        inspectionIntervalDays: true,
+        lastInspectedAt: true,
+        retirementDate: true,
+        retiredAt: true,
+        createdAt: true,
+      },
+    });
+
     // Get the last log for each check type per location to determine due status
     const lastLogsPerCheckLocation = await prisma.maintenanceLog.findMany({
       where: {
@@ -218,6 +256,7 @@ export async function GET(req: Request) {
       0
     );
     const openIssues = issuesLogs.length;
+    const now = new Date();
 
     // Determine if user can edit (log checks)
     const canEdit = user.role === "ADMIN" || user.role === "MANAGER";
@@ -229,11 +268,18 @@ export async function GET(req: Request) {
         dueToday,
         overdueChecks,
         openIssues,
+        openDefects: openDefects.length,
+        overdueDefects: openDefects.filter((d) => isDefectOverdue(d, now)).length,
+        assetsDue: assets.filter((a) => {
+          const status = getAssetStatus(a, now);
+          return status === "OVERDUE" || status === "PAST_LIFESPAN";
+        }).length,
       },
       checkTypes,
       locations, // All accessible locations for dropdown
       locationCheckStatus,
       recentIssues: issuesLogs,
+      outOfService: openDefects.filter((d) => d.outOfService),
       canEdit,
       userRole: user.role,
     });
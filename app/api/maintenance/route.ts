@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { raiseDefectsFromLog } from "@/lib/defects";
+import { recordAssetInspection } from "@/lib/assets";
+import { evaluateChecklist, parseChecklist, worstStatus, type CheckStatus } from "@/lib/checklists";
+import { checklistAnswersSchema } from "@/lib/schemas";
 
 interface ExtendedUser {
   id: string;
@@ -88,6 +92,12 @@ export async function GET(req: Request) {
               name: true,
             },
           },
+          asset: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           signedBy: {
             select: {
               id: true,
@@ -142,6 +152,8 @@ export async function POST(req: Request) {
       issues,
       signature,
       checkDate,
+      assetId,
+      answers,
     } = body;
 
     // Validate required fields
@@ -185,13 +197,55 @@ export async function POST(req: Request) {
       );
     }
 
+    // A checklist's answers set the status: an out-of-range answer can't be
+    // signed off as a pass
+    const checklist = parseChecklist(checkType.checklist);
+    let evaluation: ReturnType<typeof evaluateChecklist> | null = null;
+    if (checklist.length > 0) {
+      const parsed = checklistAnswersSchema.safeParse(answers || []);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: parsed.error.issues[0].message },
+          { status: 400 }
+        );
+      }
+
+      evaluation = evaluateChecklist(checklist, parsed.data);
+      if (evaluation.missing.length > 0) {
+        return NextResponse.json(
+          { error: `Answer every required item: ${evaluation.missing.join(", ")}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const logStatus = evaluation
+      ? worstStatus((status || "PASS") as CheckStatus, evaluation.status)
+      : status || "PASS";
+    const logIssues = [...(issues || []), ...(evaluation?.issues || [])];
+
+    // Checks can be recorded against an individual asset at the location
+    if (assetId) {
+      const asset = await prisma.maintenanceAsset.findFirst({
+        where: { id: assetId, organizationId: user.organizationId, locationId, retiredAt: null },
+      });
+
+      if (!asset) {
+        return NextResponse.json(
+          { error: "Asset not found at this location" },
+          { status: 404 }
+        );
+      }
+    }
+
     const log = await prisma.maintenanceLog.create({
       data: {
         checkTypeId,
         locationId,
-        status: status || "PASS",
+        assetId: assetId || null,
+        status: logStatus,
         notes: notes || null,
-        issues: issues ? JSON.stringify(issues) : null,
+        issues: logIssues.length > 0 ? JSON.stringify(logIssues) : null,
         signature,
         signedAt: new Date(),
         signedById: user.id,
@@ -212,6 +266,12 @@ export async function POST(req: Request) {
             name: true,
           },
         },
+        asset: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         signedBy: {
           select: {
             id: true,
@@ -222,7 +282,34 @@ export async function POST(req: Request) {
       },
     });
 
-    return NextResponse.json(log, { status: 201 });
+    if (evaluation && evaluation.results.length > 0) {
+      await prisma.maintenanceCheckAnswer.createMany({
+        data: evaluation.results.map(({ item, answer, outOfRange }) => ({
+          itemId: item.id,
+          label: item.label,
+          type: item.type,
+          answer: item.type === "YES_NO" ? answer.answer : null,
+          reading: item.type === "NUMBER" ? answer.reading : null,
+          unit: item.type === "NUMBER" ? item.unit || null : null,
+          photoUrl: answer.photoUrl || null,
+          outOfRange,
+          checkDate: log.checkDate,
+          logId: log.id,
+          checkTypeId: log.checkTypeId,
+          locationId: log.locationId,
+          assetId: log.assetId,
+        })),
+      });
+    }
+
+    if (log.assetId) {
+      await recordAssetInspection(log.assetId, log.checkDate);
+    }
+
+    // Failed and flagged checks become defects to be worked
+    const defectsRaised = await raiseDefectsFromLog(log);
+
+    return NextResponse.json({ ...log, defectsRaised }, { status: 201 });
   } catch (error) {
     console.error("Create maintenance log error:", error);
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { recordAssetInspection } from "@/lib/assets";
 
 interface ExtendedUser {
   id: string;
@@ -23,6 +24,7 @@ export async function GET(req: Request) {
     const user = session.user as ExtendedUser;
     const { searchParams } = new URL(req.url);
     const locationId = searchParams.get("locationId");
+    const assetId = searchParams.get("assetId");
     const category = searchParams.get("category");
     const limit = parseInt(searchParams.get("limit") || "50");
 
@@ -30,6 +32,7 @@ export async function GET(req: Request) {
       where: {
         organizationId: user.organizationId,
         ...(locationId && { locationId }),
+        ...(assetId && { assetId }),
         ...(category && { category }),
       },
       include: {
@@ -39,6 +42,9 @@ export async function GET(req: Request) {
         loggedBy: {
           select: { id: true, name: true },
         },
+        asset: {
+          select: { id: true, name: true },
+        },
       },
       orderBy: { completedAt: "desc" },
       take: limit,
@@ -81,6 +87,7 @@ export async function POST(req: Request) {
       photoUrls,
       partsUsed,
       estimatedCost,
+      assetId,
     } = body;
 
     if (!title || !locationId || !completedBy) {
@@ -105,6 +112,20 @@ export async function POST(req: Request) {
       );
     }
 
+    // Work can be recorded against an individual asset at the location
+    if (assetId) {
+      const asset = await prisma.maintenanceAsset.findFirst({
+        where: { id: assetId, organizationId: user.organizationId, locationId },
+      });
+
+      if (!asset) {
+        return NextResponse.json(
+          { error: "Asset not found at this location" },
+          { status: 404 }
+        );
+      }
+    }
+
     const workLog = await prisma.maintenanceWorkLog.create({
       data: {
         title,
@@ -118,6 +139,7 @@ export async function POST(req: Request) {
         photoUrls: JSON.stringify(photoUrls || []),
         partsUsed: partsUsed || null,
         estimatedCost: estimatedCost || null,
+        assetId: assetId || null,
         organizationId: user.organizationId,
       },
       include: {
@@ -127,9 +149,17 @@ export async function POST(req: Request) {
         loggedBy: {
           select: { id: true, name: true },
         },
+        asset: {
+          select: { id: true, name: true },
+        },
       },
     });
 
+    // A completed inspection counts towards the asset's schedule
+    if (workLog.assetId && workLog.category === "INSPECTION" && workLog.status === "COMPLETED") {
+      await recordAssetInspection(workLog.assetId, workLog.completedAt);
+    }
+
     return NextResponse.json(workLog, { status: 201 });
   } catch (error) {
     console.error("Create work log error:", error);
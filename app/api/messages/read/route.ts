@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { markConversationRead, resolveConversation } from "@/lib/messaging";
+import { markConversationReadSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST mark every message in a conversation as read
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = markConversationReadSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const conversation = await resolveConversation(session.user, result.data.conversation);
+    const count = await markConversationRead(session.user, conversation);
+
+    return NextResponse.json({ count });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
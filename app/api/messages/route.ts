@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { listConversations, resolveConversation, sendMessage } from "@/lib/messaging";
+import { sendMessageSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the current user's conversations with unread counts
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const conversations = await listConversations(session.user);
+
+    return NextResponse.json(conversations);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST send a message to a direct, shift or location conversation
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = sendMessageSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const conversation = await resolveConversation(session.user, result.data.conversation);
+    const message = await sendMessage(
+      { ...session.user, name: session.user.name || "Someone" },
+      conversation,
+      result.data.content
+    );
+
+    return NextResponse.json(message, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { resolveConversation } from "@/lib/messaging";
+import { conversationKeySchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+const THREAD_LIMIT = 100;
+
+// GET the latest messages in a conversation with read receipts
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const result = conversationKeySchema.safeParse(searchParams.get("conversation"));
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const conversation = await resolveConversation(session.user, result.data);
+
+    const messages = await prisma.message.findMany({
+      where: conversation.where,
+      include: {
+        sender: { select: { id: true, name: true, avatarUrl: true } },
+        reads: {
+          select: { userId: true, readAt: true, user: { select: { name: true } } },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      take: THREAD_LIMIT,
+    });
+
+    return NextResponse.json({
+      key: conversation.key,
+      type: conversation.type,
+      title: conversation.title,
+      canPost: conversation.canPost,
+      messages: messages.reverse(),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getUnreadCounts } from "@/lib/messaging";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET unread message counts for the notification badge
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const counts = await getUnreadCounts(session.user);
+
+    return NextResponse.json(counts);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
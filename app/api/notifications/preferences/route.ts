@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  resolveChannels,
+} from "@/lib/notification-preferences";
+import { updateNotificationPreferencesSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+async function getPreferences(userId: string) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      role: true,
+      managerDigestFrequency: true,
+      quietHoursStart: true,
+      quietHoursEnd: true,
+      notificationPreferences: true,
+      organization: { select: { timezone: true } },
+    },
+  });
+
+  const isManager = user.role === "ADMIN" || user.role === "MANAGER";
+
+  const types = Object.entries(NOTIFICATION_TYPES)
+    .filter(([, config]) => isManager || !config.managersOnly)
+    .map(([type, config]) => ({
+      type,
+      label: config.label,
+      category: config.category,
+      configurable: config.configurable ?? [...NOTIFICATION_CHANNELS],
+      channels: resolveChannels(
+        type,
+        user.notificationPreferences.find((p) => p.type === type)
+      ),
+    }));
+
+  return {
+    types,
+    quietHoursStart: user.quietHoursStart,
+    quietHoursEnd: user.quietHoursEnd,
+    timezone: user.organization.timezone,
+    managerDigestFrequency: isManager ? user.managerDigestFrequency : null,
+  };
+}
+
+// GET the current user's channels for each notification type, and quiet hours
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(await getPreferences(session.user.id));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// PUT update the current user's notification preferences
+export async function PUT(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = updateNotificationPreferencesSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { preferences, quietHoursStart, quietHoursEnd, managerDigestFrequency } = result.data;
+    const unknown = preferences.find((p) => !NOTIFICATION_TYPES[p.type]);
+    if (unknown) {
+      throw new ValidationError(`Unknown notification type: ${unknown.type}`);
+    }
+
+    const isManager = session.user.role === "ADMIN" || session.user.role === "MANAGER";
+    if (managerDigestFrequency && !isManager) {
+      throw new ValidationError("Only managers get the manager digest");
+    }
+
+    const userId = session.user.id;
+    await prisma.$transaction([
+      ...preferences.map(({ type, ...channels }) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, ...channels },
+          update: channels,
+        })
+      ),
+      ...(quietHoursStart !== undefined
+        ? [
+            prisma.user.update({
+              where: { id: userId },
+              data: { quietHoursStart, quietHoursEnd: quietHoursEnd ?? null },
+            }),
+          ]
+        : []),
+      ...(managerDigestFrequency
+        ? [prisma.user.update({ where: { id: userId }, data: { managerDigestFrequency } })]
+        : []),
+    ]);
+
+    return NextResponse.json(await getPreferences(userId));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
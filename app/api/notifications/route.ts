@@ -10,7 +10,7 @@ export async function GET() {
     }
 
     const notifications = await prisma.notification.findMany({
-      where: { userId: session.user.id },
+      where: { userId: session.user.id, showInApp: true },
       orderBy: { createdAt: "desc" },
       take: 20,
     });
@@ -81,6 +81,14 @@ export async function PATCH(
 
     const { name, startDate, endDate, payDate, notes, isActive } = body;
 
+    // Signed-off periods keep their dates so the payroll record stays accurate
+    if (existing.lockedAt && (startDate !== undefined || endDate !== undefined)) {
+      return NextResponse.json(
+        { error: "This pay period has been signed off and its dates can no longer change" },
+        { status: 409 }
+      );
+    }
+
     const payPeriod = await prisma.payPeriod.update({
       where: { id },
       data: {
@@ -134,6 +142,15 @@ export async function DELETE(
       return NextResponse.json({ error: "Not found" }, { status: 404 });
     }
 
+    if (existing.lockedAt) {
+      return NextResponse.json(
+        { error: "This pay period has been signed off and cannot be deleted" },
+        { status: 409 }
+      );
+    }
+
+    // Discard any draft payroll run along with the period
+    await prisma.payrollRun.deleteMany({ where: { payPeriodId: id, status: "DRAFT" } });
     await prisma.payPeriod.delete({ where: { id } });
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { ConflictError, NotFoundError } from "@/lib/errors";
+import { handleApiError, safeJsonParse } from "@/lib/api-utils";
+
+// GET a payroll run with its lines for review (admin only)
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      include: {
+        payPeriod: true,
+        generatedBy: { select: { id: true, name: true } },
+        signedOffBy: { select: { id: true, name: true } },
+        lines: { orderBy: { userName: "asc" } },
+        adjustments: {
+          include: { user: { select: { name: true } }, payPeriod: { select: { name: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!run) {
+      throw new NotFoundError("Payroll run not found");
+    }
+
+    return NextResponse.json({
+      ...run,
+      totals: safeJsonParse(run.totals, {}),
+      warnings: safeJsonParse<string[]>(run.warnings, []),
+      lines: run.lines.map((line) => ({
+        ...line,
+        categoryBreakdown: safeJsonParse(line.categoryBreakdown, []),
+        absenceBreakdown: safeJsonParse(line.absenceBreakdown, []),
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE discard a draft run. Signed-off runs are permanent.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const run = await prisma.payrollRun.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true, status: true },
+    });
+
+    if (!run) {
+      throw new NotFoundError("Payroll run not found");
+    }
+    if (run.status !== "DRAFT") {
+      throw new ConflictError("Signed-off payroll runs cannot be deleted");
+    }
+
+    await prisma.payrollRun.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
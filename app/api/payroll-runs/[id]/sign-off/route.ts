@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { logAudit, getRequestContext } from "@/lib/audit";
+import { signOffPayrollRun } from "@/lib/payroll-run";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST sign off a draft run. This locks the pay period.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const run = await signOffPayrollRun({
+      organizationId: session.user.organizationId,
+      payrollRunId: id,
+      signedOffById: session.user.id,
+    });
+
+    await logAudit({
+      action: "PAYROLL_RUN_SIGNED_OFF",
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+      resourceId: run.id,
+      ...getRequestContext(req),
+      metadata: {
+        payPeriodId: run.payPeriodId,
+        contentHash: run.contentHash,
+        totals: JSON.parse(run.totals),
+      },
+    });
+
+    return NextResponse.json(run);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
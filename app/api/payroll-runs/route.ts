@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { logAudit, getRequestContext } from "@/lib/audit";
+import { generatePayrollRun } from "@/lib/payroll-run";
+import { generatePayrollRunSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET pay periods with their payroll run status (admin only)
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [payPeriods, pendingAdjustments] = await Promise.all([
+      prisma.payPeriod.findMany({
+        where: { organizationId: session.user.organizationId },
+        include: {
+          payrollRun: {
+            select: {
+              id: true,
+              status: true,
+              totals: true,
+              generatedAt: true,
+              signedOffAt: true,
+              signedOffBy: { select: { name: true } },
+            },
+          },
+        },
+        orderBy: { startDate: "desc" },
+      }),
+      prisma.payrollAdjustment.count({
+        where: { organizationId: session.user.organizationId, paidInRunId: null },
+      }),
+    ]);
+
+    return NextResponse.json({ payPeriods, pendingAdjustments });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST generate (or regenerate) the draft run for a pay period (admin only)
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = generatePayrollRunSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const run = await generatePayrollRun({
+      organizationId: session.user.organizationId,
+      payPeriodId: result.data.payPeriodId,
+      generatedById: session.user.id,
+    });
+
+    await logAudit({
+      action: "PAYROLL_RUN_GENERATED",
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+      resourceId: run.id,
+      ...getRequestContext(req),
+      metadata: {
+        payPeriodId: run.payPeriodId,
+        lineCount: run.lines.length,
+        totals: JSON.parse(run.totals),
+      },
+    });
+
+    return NextResponse.json(run, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import QRCode from "qrcode";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { generateClimberPageCode, getClimberPageUrl } from "@/lib/climber-page";
+import { climberPageSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+async function findLocation(organizationId: string, locationId: string) {
+  const location = await prisma.location.findFirst({
+    where: { id: locationId, organizationId },
+    select: { id: true, climberPageCode: true },
+  });
+  if (!location) {
+    throw new NotFoundError("Location not found");
+  }
+  return location;
+}
+
+// The page link and QR codes to print: one for the whole location and one
+// per sector that opens straight onto that wall
+async function getClimberPage(origin: string, location: { id: string; climberPageCode: string | null }) {
+  if (!location.climberPageCode) {
+    return { url: null, qrCodeImage: null, sectors: [] };
+  }
+  const code = location.climberPageCode;
+  const url = getClimberPageUrl(origin, code);
+
+  const sectors = await prisma.settingSector.findMany({
+    where: { locationId: location.id, isActive: true },
+    select: { id: true, name: true },
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+  });
+
+  return {
+    url,
+    qrCodeImage: await QRCode.toDataURL(url, { margin: 1, width: 256 }),
+    sectors: await Promise.all(
+      sectors.map(async (sector) => {
+        const sectorUrl = getClimberPageUrl(origin, code, sector.id);
+        return {
+          ...sector,
+          url: sectorUrl,
+          qrCodeImage: await QRCode.toDataURL(sectorUrl, { margin: 1, width: 256 }),
+        };
+      })
+    ),
+  };
+}
+
+// GET a location's public climber page link and QR codes; the link is null
+// while the page is turned off
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams, origin } = new URL(req.url);
+    const result = climberPageSchema.safeParse({ locationId: searchParams.get("locationId") });
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const location = await findLocation(session.user.organizationId, result.data.locationId);
+    return NextResponse.json(await getClimberPage(origin, location));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST turn on a location's climber page, or give it a new link. A new link
+// stops the QR codes already on the walls from working.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = climberPageSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { id } = await findLocation(session.user.organizationId, result.data.locationId);
+    const location = await prisma.location.update({
+      where: { id },
+      data: { climberPageCode: generateClimberPageCode() },
+      select: { id: true, climberPageCode: true },
+    });
+
+    return NextResponse.json(await getClimberPage(new URL(req.url).origin, location));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE turn off a location's climber page. Feedback already left is kept.
+export async function DELETE(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const result = climberPageSchema.safeParse({ locationId: searchParams.get("locationId") });
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { id } = await findLocation(session.user.organizationId, result.data.locationId);
+    await prisma.location.update({ where: { id }, data: { climberPageCode: null } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getRouteStatus, routeInclude } from "@/lib/route-setting";
+import { parseFormDate } from "@/lib/utils";
+import { updateRouteSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// PATCH edit a route, or strip it (stripped: true) or put it back up
+// (stripped: false)
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const result = updateRouteSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const organizationId = session.user.organizationId;
+    const existing = await prisma.climbingRoute.findFirst({
+      where: { id, organizationId },
+      select: { id: true, setDate: true, plannedStripDate: true, setterId: true, externalSetterName: true },
+    });
+    if (!existing) {
+      throw new NotFoundError("Route not found");
+    }
+
+    const { sectorId, setDate, plannedStripDate, stripped, setterId, externalSetterName, ...data } = result.data;
+
+    // Check the dates against the saved ones where only one is changing
+    const setOn = setDate ? new Date(setDate) : existing.setDate;
+    const stripOn = plannedStripDate === undefined ? existing.plannedStripDate : parseFormDate(plannedStripDate);
+    if (stripOn && stripOn <= setOn) {
+      throw new ValidationError("Strip date must be after the set date");
+    }
+
+    let sector: { id: string; locationId: string } | null = null;
+    if (sectorId) {
+      sector = await prisma.settingSector.findFirst({
+        where: { id: sectorId, organizationId },
+        select: { id: true, locationId: true },
+      });
+      if (!sector) {
+        throw new NotFoundError("Sector not found");
+      }
+    }
+
+    if (setterId) {
+      const setter = await prisma.user.findFirst({ where: { id: setterId, organizationId }, select: { id: true } });
+      if (!setter) {
+        throw new NotFoundError("Setter not found");
+      }
+    }
+
+    // A route keeps one setter: staff, or an external name
+    const setterChanging = setterId !== undefined || externalSetterName !== undefined;
+    const nextSetterId = setterId === undefined ? existing.setterId : setterId;
+    const nextExternalName = externalSetterName === undefined ? existing.externalSetterName : externalSetterName;
+    if (setterChanging && !nextSetterId && !nextExternalName) {
+      throw new ValidationError("Choose a setter or enter an external setter's name");
+    }
+
+    const route = await prisma.climbingRoute.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(data.name !== undefined && { name: data.name || null }),
+        ...(data.notes !== undefined && { notes: data.notes || null }),
+        ...(setterChanging && {
+          setterId: nextSetterId || null,
+          externalSetterName: nextSetterId ? null : nextExternalName || null,
+        }),
+        ...(sector && { sectorId: sector.id, locationId: sector.locationId }),
+        ...(setDate && { setDate: setOn }),
+        ...(plannedStripDate !== undefined && { plannedStripDate: stripOn }),
+        ...(stripped !== undefined && { strippedAt: stripped ? new Date() : null }),
+      },
+      include: routeInclude,
+    });
+
+    return NextResponse.json({ ...route, status: getRouteStatus(route) });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE remove a route entered by mistake. Routes that have come down
+// should be stripped instead, to keep the sector's history.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const existing = await prisma.climbingRoute.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true },
+    });
+    if (!existing) {
+      throw new NotFoundError("Route not found");
+    }
+
+    await prisma.climbingRoute.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
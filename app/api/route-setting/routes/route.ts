@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getDefaultStripDate, getRouteStatus, routeInclude } from "@/lib/route-setting";
+import { parseFormDate } from "@/lib/utils";
+import { summarizeRouteFeedback } from "@/lib/route-feedback";
+import { createRoutesSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the routes that are up, newest first. ?locationId=, ?sectorId= and
+// ?setterId= narrow it down; ?includeStripped=true adds routes taken down.
+// Each route has a summary of climbers' ratings and grade votes.
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const locationId = searchParams.get("locationId");
+    const sectorId = searchParams.get("sectorId");
+    const setterId = searchParams.get("setterId");
+    const includeStripped = searchParams.get("includeStripped") === "true";
+
+    const routes = await prisma.climbingRoute.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        ...(locationId && { locationId }),
+        ...(sectorId && { sectorId }),
+        ...(setterId && { setterId }),
+        ...(!includeStripped && { strippedAt: null }),
+      },
+      include: { ...routeInclude, feedback: { select: { rating: true, suggestedGrade: true } } },
+      orderBy: [{ setDate: "desc" }, { createdAt: "asc" }],
+      take: 500,
+    });
+
+    const now = new Date();
+    return NextResponse.json(
+      routes.map(({ feedback, ...route }) => ({
+        ...route,
+        status: getRouteStatus(route, now),
+        summary: summarizeRouteFeedback(route.grade, feedback),
+      }))
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST record the routes set in a sector on a setting day, optionally
+// stripping the ones they replace
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = createRoutesSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { sectorId, setDate, plannedStripDate, stripExisting, routes } = result.data;
+    const organizationId = session.user.organizationId;
+
+    const sector = await prisma.settingSector.findFirst({
+      where: { id: sectorId, organizationId },
+      select: { id: true, locationId: true, resetIntervalDays: true },
+    });
+    if (!sector) {
+      throw new NotFoundError("Sector not found");
+    }
+
+    const setterIds = [...new Set(routes.flatMap((route) => (route.setterId ? [route.setterId] : [])))];
+    if (setterIds.length > 0) {
+      const setters = await prisma.user.count({ where: { id: { in: setterIds }, organizationId } });
+      if (setters !== setterIds.length) {
+        throw new NotFoundError("Setter not found");
+      }
+    }
+
+    const setOn = new Date(setDate);
+    // Without a planned strip date the routes come down after the sector's reset interval
+    const stripOn =
+      plannedStripDate === undefined
+        ? getDefaultStripDate(setOn, sector.resetIntervalDays)
+        : parseFormDate(plannedStripDate);
+
+    const created = await prisma.$transaction(async (tx) => {
+      if (stripExisting) {
+        await tx.climbingRoute.updateMany({
+          where: { sectorId: sector.id, strippedAt: null },
+          data: { strippedAt: setOn },
+        });
+      }
+
+      return Promise.all(
+        routes.map((route) =>
+          tx.climbingRoute.create({
+            data: {
+              name: route.name || null,
+              grade: route.grade,
+              color: route.color,
+              notes: route.notes || null,
+              setterId: route.setterId || null,
+              externalSetterName: route.setterId ? null : route.externalSetterName || null,
+              setDate: setOn,
+              plannedStripDate: stripOn,
+              sectorId: sector.id,
+              locationId: sector.locationId,
+              organizationId,
+            },
+            include: routeInclude,
+          })
+        )
+      );
+    });
+
+    const now = new Date();
+    return NextResponse.json(
+      created.map((route) => ({ ...route, status: getRouteStatus(route, now) })),
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
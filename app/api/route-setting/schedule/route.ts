@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { buildResetSchedule } from "@/lib/route-setting";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the rolling reset schedule: each active sector with the age of its
+// routes and its next planned setting day, oldest first
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const locationId = searchParams.get("locationId");
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const sectors = await prisma.settingSector.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        isActive: true,
+        ...(locationId && { locationId }),
+      },
+      select: {
+        id: true,
+        name: true,
+        discipline: true,
+        resetIntervalDays: true,
+        location: { select: { id: true, name: true } },
+        routes: { where: { strippedAt: null }, select: { setDate: true, strippedAt: true } },
+        settingDays: {
+          where: { isActive: true, eventType: "SETTING", startTime: { gte: today } },
+          select: { id: true, startTime: true },
+        },
+      },
+    });
+
+    const locations = new Map(sectors.map((sector) => [sector.id, sector.location]));
+    return NextResponse.json(
+      buildResetSchedule(sectors).map((entry) => ({ ...entry, location: locations.get(entry.sectorId) }))
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { updateSectorSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// PATCH rename a sector, change its reset interval or take it out of use
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const result = updateSectorSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const existing = await prisma.settingSector.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: { id: true },
+    });
+    if (!existing) {
+      throw new NotFoundError("Sector not found");
+    }
+
+    const sector = await prisma.settingSector.update({
+      where: { id },
+      data: result.data,
+      include: {
+        location: { select: { id: true, name: true } },
+        _count: { select: { routes: { where: { strippedAt: null } } } },
+      },
+    });
+
+    return NextResponse.json(sector);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { createSectorSchema } from "@/lib/schemas";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET the sectors at each location, with how many routes are up in each.
+// ?includeInactive=true adds sectors no longer in use.
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const locationId = searchParams.get("locationId");
+    const includeInactive = searchParams.get("includeInactive") === "true";
+
+    const sectors = await prisma.settingSector.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        ...(locationId && { locationId }),
+        ...(!includeInactive && { isActive: true }),
+      },
+      include: {
+        location: { select: { id: true, name: true } },
+        _count: { select: { routes: { where: { strippedAt: null } } } },
+      },
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json(sectors);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST add a sector to a location
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = createSectorSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const organizationId = session.user.organizationId;
+    const location = await prisma.location.findFirst({
+      where: { id: result.data.locationId, organizationId },
+      select: { id: true },
+    });
+    if (!location) {
+      throw new NotFoundError("Location not found");
+    }
+
+    const sector = await prisma.settingSector.create({
+      data: { ...result.data, organizationId },
+      include: {
+        location: { select: { id: true, name: true } },
+        _count: { select: { routes: { where: { strippedAt: null } } } },
+      },
+    });
+
+    return NextResponse.json(sector, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { buildSetterReports } from "@/lib/route-feedback";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET grade consensus and popularity for each setter's routes set in the
+// last ?days= (180 by default), with ?locationId= to narrow it down.
+// Managers see every setter; setters see their own routes.
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+
+    const { searchParams } = new URL(req.url);
+    const locationId = searchParams.get("locationId");
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "") || 180, 1), 730);
+
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - days);
+
+    const routes = await prisma.climbingRoute.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        setDate: { gte: since },
+        ...(locationId && { locationId }),
+        ...(!isManager && { setterId: session.user.id }),
+      },
+      select: {
+        id: true,
+        name: true,
+        grade: true,
+        color: true,
+        setDate: true,
+        strippedAt: true,
+        setterId: true,
+        externalSetterName: true,
+        sector: { select: { id: true, name: true } },
+        setter: { select: { id: true, name: true } },
+        signoff: { select: { id: true, settingDate: true } },
+        feedback: { select: { rating: true, suggestedGrade: true } },
+      },
+      orderBy: [{ setDate: "desc" }, { createdAt: "asc" }],
+    });
+
+    return NextResponse.json(buildSetterReports(routes));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
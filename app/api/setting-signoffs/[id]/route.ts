@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { settingSignoffRouteSelect } from "@/lib/route-setting";
 
 export async function GET(
   req: Request,
@@ -23,6 +24,10 @@ export async function GET(
         location: {
           select: { id: true, name: true },
         },
+        routes: {
+          select: settingSignoffRouteSelect,
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { settingSignoffRouteSelect } from "@/lib/route-setting";
 
 export async function GET(req: Request) {
   try {
@@ -48,6 +49,10 @@ export async function GET(req: Request) {
         location: {
           select: { id: true, name: true },
         },
+        routes: {
+          select: settingSignoffRouteSelect,
+          orderBy: { createdAt: "asc" },
+        },
       },
       orderBy: { settingDate: "desc" },
     });
@@ -85,6 +90,7 @@ export async function POST(req: Request) {
       photos,
       notes,
       settingDate,
+      routeIds,
     } = await req.json();
 
     // Validate required fields
@@ -115,6 +121,24 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Location not found" }, { status: 404 });
     }
 
+    // Routes set on the day must be at the same site
+    const coveredRouteIds: string[] = Array.isArray(routeIds) ? [...new Set<string>(routeIds)] : [];
+    if (coveredRouteIds.length > 0) {
+      const routeCount = await prisma.climbingRoute.count({
+        where: {
+          id: { in: coveredRouteIds },
+          locationId,
+          organizationId: session.user.organizationId,
+        },
+      });
+      if (routeCount !== coveredRouteIds.length) {
+        return NextResponse.json(
+          { error: "Routes must be set at the same site as the sign-off" },
+          { status: 400 }
+        );
+      }
+    }
+
     const signoff = await prisma.settingSignoff.create({
       data: {
         locationId,
@@ -128,6 +152,9 @@ export async function POST(req: Request) {
         settingDate: settingDate ? new Date(settingDate) : new Date(),
         signedOffById: session.user.id,
         organizationId: session.user.organizationId,
+        ...(coveredRouteIds.length > 0 && {
+          routes: { connect: coveredRouteIds.map((id) => ({ id })) },
+        }),
       },
       include: {
         signedOffBy: {
@@ -136,6 +163,10 @@ export async function POST(req: Request) {
         location: {
           select: { id: true, name: true },
         },
+        routes: {
+          select: settingSignoffRouteSelect,
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
 
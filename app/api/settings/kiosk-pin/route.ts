@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { hashKioskPin } from "@/lib/kiosk";
+import { setKioskPinSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// PUT set the current user's kiosk PIN. Setting a new PIN also clears a
+// lock from too many wrong attempts.
+export async function PUT(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = setKioskPinSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        kioskPinHash: await hashKioskPin(result.data.pin),
+        kioskPinAttempts: 0,
+        kioskPinLockedUntil: null,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// DELETE remove the current user's kiosk PIN, taking them off the kiosk
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { kioskPinHash: null, kioskPinAttempts: 0, kioskPinLockedUntil: null },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
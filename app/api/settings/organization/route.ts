@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { BANK_HOLIDAY_MODES, BANK_HOLIDAY_REGIONS } from "@/lib/holiday-entitlement";
 
 export async function PATCH(req: Request) {
   try {
@@ -26,6 +27,11 @@ export async function PATCH(req: Request) {
       locationLongitude,
       clockInRadiusMetres,
       requireGeolocation,
+      leaveYearStartMonth,
+      leaveYearStartDay,
+      holidayCarryOverHours,
+      bankHolidayMode,
+      bankHolidayRegion,
     } = await req.json();
 
     // Validate breakCalculationMode if provided
@@ -36,6 +42,34 @@ export async function PATCH(req: Request) {
       );
     }
 
+    // Days are capped at 28 so every leave year has the same start date
+    if (
+      (leaveYearStartMonth !== undefined && (!Number.isInteger(leaveYearStartMonth) || leaveYearStartMonth < 1 || leaveYearStartMonth > 12)) ||
+      (leaveYearStartDay !== undefined && (!Number.isInteger(leaveYearStartDay) || leaveYearStartDay < 1 || leaveYearStartDay > 28))
+    ) {
+      return NextResponse.json(
+        { error: "Leave year must start on a day between the 1st and 28th" },
+        { status: 400 }
+      );
+    }
+
+    if (holidayCarryOverHours !== undefined && (typeof holidayCarryOverHours !== "number" || holidayCarryOverHours < 0)) {
+      return NextResponse.json(
+        { error: "Carry-over cap can't be negative" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (bankHolidayMode && !(BANK_HOLIDAY_MODES as readonly string[]).includes(bankHolidayMode)) ||
+      (bankHolidayRegion && !(BANK_HOLIDAY_REGIONS as readonly string[]).includes(bankHolidayRegion))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid bank holiday setting" },
+        { status: 400 }
+      );
+    }
+
     const updatedOrg = await prisma.organization.update({
       where: { id: session.user.organizationId },
       data: {
@@ -50,6 +84,11 @@ export async function PATCH(req: Request) {
         locationLongitude: locationLongitude !== undefined ? locationLongitude : undefined,
         clockInRadiusMetres: clockInRadiusMetres !== undefined ? clockInRadiusMetres : undefined,
         requireGeolocation: requireGeolocation !== undefined ? requireGeolocation : undefined,
+        leaveYearStartMonth: leaveYearStartMonth !== undefined ? leaveYearStartMonth : undefined,
+        leaveYearStartDay: leaveYearStartDay !== undefined ? leaveYearStartDay : undefined,
+        holidayCarryOverHours: holidayCarryOverHours !== undefined ? holidayCarryOverHours : undefined,
+        bankHolidayMode: bankHolidayMode || undefined,
+        bankHolidayRegion: bankHolidayRegion || undefined,
       },
     });
 
@@ -86,7 +86,7 @@ export async function PATCH(
       );
     }
 
-    const { name, startTime, endTime, categoryId, defaultTitle, description, isActive, locationId } =
+    const { name, startTime, endTime, categoryId, defaultTitle, description, isActive, locationId, daysOfWeek } =
       await req.json();
 
     // Validate time format if provided
@@ -104,6 +104,18 @@ export async function PATCH(
       );
     }
 
+    // Validate days of week (0 = Sunday ... 6 = Saturday)
+    if (
+      daysOfWeek !== undefined &&
+      (!Array.isArray(daysOfWeek) ||
+        !daysOfWeek.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))
+    ) {
+      return NextResponse.json(
+        { error: "Days of week must be numbers from 0 (Sunday) to 6 (Saturday)" },
+        { status: 400 }
+      );
+    }
+
     // If categoryId provided, verify it belongs to the organization
     if (categoryId) {
       const category = await prisma.shiftCategory.findFirst({
@@ -147,6 +159,7 @@ export async function PATCH(
         ...(description !== undefined && { description: description || null }),
         ...(isActive !== undefined && { isActive }),
         ...(locationId !== undefined && { locationId: locationId || null }),
+        ...(daysOfWeek !== undefined && { daysOfWeek: JSON.stringify(daysOfWeek) }),
       },
       include: {
         category: {
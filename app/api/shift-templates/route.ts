@@ -65,7 +65,7 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "No organization found" }, { status: 400 });
     }
 
-    const { name, startTime, endTime, categoryId, defaultTitle, description, locationId } =
+    const { name, startTime, endTime, categoryId, defaultTitle, description, locationId, daysOfWeek } =
       await req.json();
 
     if (!name || !startTime || !endTime) {
@@ -84,6 +84,18 @@ export async function POST(req: Request) {
       );
     }
 
+    // Validate days of week (0 = Sunday ... 6 = Saturday)
+    if (
+      daysOfWeek !== undefined &&
+      (!Array.isArray(daysOfWeek) ||
+        !daysOfWeek.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6))
+    ) {
+      return NextResponse.json(
+        { error: "Days of week must be numbers from 0 (Sunday) to 6 (Saturday)" },
+        { status: 400 }
+      );
+    }
+
     // If categoryId provided, verify it belongs to the organization
     if (categoryId) {
       const category = await prisma.shiftCategory.findFirst({
@@ -125,6 +137,7 @@ export async function POST(req: Request) {
         description: description || null,
         categoryId: categoryId || null,
         locationId: locationId || null,
+        daysOfWeek: JSON.stringify(daysOfWeek || []),
         organizationId: session.user.organizationId,
       },
       include: {
@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { checkUserCertifications, formatCertificationError } from "@/lib/certification-utils";
-import { createNotifications } from "@/lib/notifications";
+import { checkShiftConflicts, isAssignmentAllowed, formatConflictError } from "@/lib/shift-conflicts";
+import { dispatchNotifications } from "@/lib/notifications";
 
 export async function POST(
   req: Request,
@@ -24,24 +24,33 @@ export async function POST(
       return NextResponse.json({ error: "Shift not found" }, { status: 404 });
     }
 
-    if (!shift.isOpen) {
+    if (!shift.isOpen || shift.status === "DRAFT") {
       return NextResponse.json(
         { error: "Shift is not available for pickup" },
         { status: 400 }
       );
     }
 
-    // Check certifications before allowing pickup
-    const certCheck = await checkUserCertifications(session.user.id, session.user.organizationId);
-    if (!certCheck.isValid) {
+    // Check conflicts before allowing pickup. Staff volunteering for a shift
+    // outside their stated availability is their own call, so that's skipped.
+    const conflicts = await checkShiftConflicts({
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      excludeShiftId: shift.id,
+      ignore: ["AVAILABILITY"],
+    });
+    if (!isAssignmentAllowed(conflicts, {}, false)) {
       return NextResponse.json(
         {
-          error: "Certification requirements not met",
-          certificationError: formatCertificationError(certCheck),
-          missingCertifications: certCheck.missingCertifications,
-          expiredCertifications: certCheck.expiredCertifications,
+          error: "Scheduling conflicts detected",
+          code: "SHIFT_CONFLICT",
+          conflictError: formatConflictError(conflicts),
+          hardConflicts: conflicts.hardConflicts,
+          softConflicts: conflicts.softConflicts,
         },
-        { status: 400 }
+        { status: 409 }
       );
     }
 
@@ -66,7 +75,7 @@ export async function POST(
       },
     });
 
-    await createNotifications(
+    await dispatchNotifications(
       managers.map((manager) => ({
         userId: manager.id,
         type: "SHIFT_PICKUP",
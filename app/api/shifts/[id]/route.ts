@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { checkUserCertifications, formatCertificationError } from "@/lib/certification-utils";
-import { sendEmail, newShiftAssignedEmail } from "@/lib/email";
+import { checkShiftConflicts, isAssignmentAllowed, formatConflictError } from "@/lib/shift-conflicts";
+import { logAudit, getRequestContext } from "@/lib/audit";
 
 export async function GET(
   req: Request,
@@ -31,7 +31,12 @@ export async function GET(
       },
     });
 
-    if (!shift || shift.organizationId !== session.user.organizationId) {
+    // Draft shifts aren't visible to staff until the week is published
+    if (
+      !shift ||
+      shift.organizationId !== session.user.organizationId ||
+      (shift.status === "DRAFT" && session.user.role === "EMPLOYEE")
+    ) {
       return NextResponse.json({ error: "Shift not found" }, { status: 404 });
     }
 
@@ -70,25 +75,41 @@ export async function PATCH(
       return NextResponse.json({ error: "Shift not found" }, { status: 404 });
     }
 
-    // Check certifications if assigning to a new user
-    if (data.assignedToId && data.assignedToId !== shift.assignedToId) {
-      const certCheck = await checkUserCertifications(data.assignedToId, session.user.organizationId);
-      if (!certCheck.isValid) {
+    // Check for conflicts if the shift is being (re)assigned or moved
+    const newAssigneeId = data.assignedToId !== undefined ? data.assignedToId : shift.assignedToId;
+    const newStartTime = data.startTime ? new Date(data.startTime) : shift.startTime;
+    const newEndTime = data.endTime ? new Date(data.endTime) : shift.endTime;
+    const assignmentChanged =
+      newAssigneeId !== shift.assignedToId ||
+      newStartTime.getTime() !== shift.startTime.getTime() ||
+      newEndTime.getTime() !== shift.endTime.getTime();
+
+    let overriddenConflicts = null;
+    if (newAssigneeId && assignmentChanged) {
+      const conflicts = await checkShiftConflicts({
+        userId: newAssigneeId,
+        organizationId: session.user.organizationId,
+        startTime: newStartTime,
+        endTime: newEndTime,
+        excludeShiftId: id,
+      });
+      if (!isAssignmentAllowed(conflicts, data, true)) {
         return NextResponse.json(
           {
-            error: "Certification requirements not met",
-            certificationError: formatCertificationError(certCheck),
-            missingCertifications: certCheck.missingCertifications,
-            expiredCertifications: certCheck.expiredCertifications,
+            error: "Scheduling conflicts detected",
+            code: "SHIFT_CONFLICT",
+            conflictError: formatConflictError(conflicts),
+            hardConflicts: conflicts.hardConflicts,
+            softConflicts: conflicts.softConflicts,
           },
-          { status: 400 }
+          { status: 409 }
         );
       }
+      if (conflicts.softConflicts.length > 0) {
+        overriddenConflicts = conflicts.softConflicts;
+      }
     }
 
-    // Track if this is a new assignment
-    const isNewAssignment = data.assignedToId && data.assignedToId !== shift.assignedToId;
-
     const updatedShift = await prisma.shift.update({
       where: { id },
       data: {
@@ -117,45 +138,19 @@ export async function PATCH(
       },
     });
 
-    // Send email notification for new shift assignment
-    if (isNewAssignment && updatedShift.assignedTo?.email) {
-      const org = await prisma.organization.findUnique({
-        where: { id: session.user.organizationId },
-        select: { name: true },
-      });
-
-      const shiftDate = new Date(updatedShift.startTime);
-      const endDate = new Date(updatedShift.endTime);
-
-      const formattedDate = shiftDate.toLocaleDateString("en-GB", {
-        weekday: "short",
-        day: "numeric",
-        month: "short",
-      });
-      const formattedTime = `${shiftDate.toLocaleTimeString("en-GB", {
-        hour: "2-digit",
-        minute: "2-digit",
-      })} - ${endDate.toLocaleTimeString("en-GB", {
-        hour: "2-digit",
-        minute: "2-digit",
-      })}`;
-
-      const emailContent = newShiftAssignedEmail({
-        employeeName: updatedShift.assignedTo.name || "Team Member",
-        shiftTitle: updatedShift.title,
-        shiftDate: formattedDate,
-        shiftTime: formattedTime,
-        locationName: updatedShift.location?.name,
-        organizationName: org?.name || "Your Organization",
+    if (overriddenConflicts) {
+      await logAudit({
+        action: "SHIFT_CONFLICT_OVERRIDDEN",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceId: id,
+        ...getRequestContext(req),
+        metadata: {
+          assignedToId: newAssigneeId,
+          reason: data.overrideReason,
+          conflicts: overriddenConflicts,
+        },
       });
-
-      // Send email in background (don't wait for it)
-      sendEmail({
-        to: updatedShift.assignedTo.email,
-        subject: emailContent.subject,
-        html: emailContent.html,
-        text: emailContent.text,
-      }).catch((err) => console.error("Failed to send shift assignment email:", err));
     }
 
     return NextResponse.json(updatedShift);
@@ -36,6 +36,8 @@ export async function GET(req: Request) {
           gte: new Date(startDate),
           lte: new Date(endDate),
         },
+        // Staff only see published shifts
+        ...(session.user.role === "EMPLOYEE" ? { status: { not: "DRAFT" } } : {}),
         // Only show shifts at locations the user is assigned to
         ...(locationIds.length > 0 ? { locationId: { in: locationIds } } : {}),
       },
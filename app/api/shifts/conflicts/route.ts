@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { checkShiftConflicts } from "@/lib/shift-conflicts";
+import { checkShiftConflictsSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// Preview conflicts for a proposed assignment without saving anything
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "EMPLOYEE") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = checkShiftConflictsSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { userId, startTime, endTime, shiftId } = result.data;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { organizationId: true },
+    });
+
+    if (!user || user.organizationId !== session.user.organizationId) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const conflicts = await checkShiftConflicts({
+      userId,
+      organizationId: session.user.organizationId,
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+      excludeShiftId: shiftId || undefined,
+    });
+
+    return NextResponse.json(conflicts);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { copyWeek } from "@/lib/rota-copy";
+import { copyWeekSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+import { logAudit, getRequestContext } from "@/lib/audit";
+
+// POST copy a week's shifts for a location into another week as drafts
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "EMPLOYEE") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = copyWeekSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { sourceWeekStart, targetWeekStart, locationId, keepAssignees } = result.data;
+
+    if (locationId) {
+      const location = await prisma.location.findFirst({
+        where: { id: locationId, organizationId: session.user.organizationId },
+        select: { id: true },
+      });
+      if (!location) {
+        return NextResponse.json({ error: "Location not found" }, { status: 404 });
+      }
+    }
+
+    const copied = await copyWeek({
+      organizationId: session.user.organizationId,
+      locationId: locationId || null,
+      sourceWeekStart,
+      targetWeekStart,
+      keepAssignees,
+      createdById: session.user.id,
+    });
+
+    await logAudit({
+      action: "ROTA_COPIED",
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+      ...getRequestContext(req),
+      metadata: {
+        sourceWeekStart,
+        targetWeekStart,
+        locationId,
+        keepAssignees,
+        copiedCount: copied.copiedCount,
+        conflictCount: copied.conflicts.length,
+      },
+    });
+
+    return NextResponse.json(copied);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
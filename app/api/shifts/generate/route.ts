@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { generateRota } from "@/lib/rota-generator";
+import { calculateScheduledBreak, getBreakRulesJson } from "@/lib/break-rules";
+import { generateRotaSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST generate a draft rota for a week and location from templates
+// With preview: true the proposal is returned without creating anything
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+    if (!isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = generateRotaSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { weekStart, locationId, preview } = result.data;
+
+    const location = await prisma.location.findFirst({
+      where: { id: locationId, organizationId: session.user.organizationId },
+      select: { id: true },
+    });
+    if (!location) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 });
+    }
+
+    const rota = await generateRota({
+      organizationId: session.user.organizationId,
+      locationId,
+      weekStart,
+    });
+
+    if (preview) {
+      return NextResponse.json(rota);
+    }
+
+    const breakRulesJson = await getBreakRulesJson(session.user.organizationId, locationId);
+
+    // Generated shifts are drafts until the manager reviews them
+    const created = await prisma.shift.createMany({
+      data: rota.proposals.map(({ slot, assignedToId }) => ({
+        title: slot.title,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        status: "DRAFT",
+        organizationId: session.user.organizationId,
+        createdById: session.user.id,
+        assignedToId,
+        isOpen: !assignedToId,
+        templateId: slot.templateId,
+        categoryId: slot.categoryId,
+        locationId,
+        scheduledBreakMinutes: calculateScheduledBreak(slot.startTime, slot.endTime, breakRulesJson),
+      })),
+    });
+
+    return NextResponse.json({
+      ...rota,
+      createdCount: created.count,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -20,6 +20,7 @@ export async function GET(req: Request) {
       where: {
         organizationId: session.user.organizationId,
         isOpen: true,
+        status: { not: "DRAFT" },
         startTime: { gte: today },
         ...(locationId ? { locationId } : {}),
       },
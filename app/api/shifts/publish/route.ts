@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getRotaStatus, publishRota } from "@/lib/rota-publishing";
+import { publishRotaSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+import { logAudit, getRequestContext } from "@/lib/audit";
+
+async function locationBelongsToOrg(locationId: string | null | undefined, organizationId: string) {
+  if (!locationId) return true;
+  const location = await prisma.location.findFirst({
+    where: { id: locationId, organizationId },
+    select: { id: true },
+  });
+  return !!location;
+}
+
+// GET publish status for a week and location
+export async function GET(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "EMPLOYEE") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const result = publishRotaSchema.safeParse({
+      weekStart: searchParams.get("weekStart"),
+      locationId: searchParams.get("locationId"),
+    });
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { weekStart, locationId } = result.data;
+    if (!(await locationBelongsToOrg(locationId, session.user.organizationId))) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 });
+    }
+
+    const status = await getRotaStatus({
+      organizationId: session.user.organizationId,
+      locationId: locationId || null,
+      weekStart,
+    });
+
+    return NextResponse.json(status);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+// POST publish a week's rota, notifying staff of their shifts or changes
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role === "EMPLOYEE") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = publishRotaSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { weekStart, locationId } = result.data;
+    if (!(await locationBelongsToOrg(locationId, session.user.organizationId))) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 });
+    }
+
+    const published = await publishRota({
+      organizationId: session.user.organizationId,
+      locationId: locationId || null,
+      weekStart,
+      publishedById: session.user.id,
+    });
+
+    await logAudit({
+      action: "ROTA_PUBLISHED",
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+      ...getRequestContext(req),
+      metadata: {
+        weekStart,
+        locationId,
+        isUpdate: published.isUpdate,
+        publishedCount: published.publishedCount,
+        notifiedUserIds: published.notifiedUserIds,
+      },
+    });
+
+    return NextResponse.json(published);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,11 +1,17 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { checkUserCertifications, formatCertificationError } from "@/lib/certification-utils";
+import {
+  checkShiftConflicts,
+  isAssignmentAllowed,
+  formatConflictError,
+  type ConflictCheckResult,
+} from "@/lib/shift-conflicts";
 import { createShiftSchema } from "@/lib/schemas";
 import { ValidationError } from "@/lib/errors";
 import { handleApiError } from "@/lib/api-utils";
-import { sendEmail, newShiftAssignedEmail } from "@/lib/email";
+import { logAudit, getRequestContext } from "@/lib/audit";
+import { calculateScheduledBreak, getBreakRulesJson } from "@/lib/break-rules";
 
 export async function GET(req: Request) {
   try {
@@ -21,6 +27,8 @@ export async function GET(req: Request) {
     const shifts = await prisma.shift.findMany({
       where: {
         organizationId: session.user.organizationId,
+        // Staff only see published shifts
+        ...(session.user.role === "EMPLOYEE" ? { status: { not: "DRAFT" } } : {}),
         ...(startDate && endDate
           ? {
               startTime: { gte: new Date(startDate) },
@@ -49,28 +57,6 @@ export async function GET(req: Request) {
   }
 }
 
-interface BreakRule {
-  minHours: number;
-  breakMinutes: number;
-}
-
-function calculateScheduledBreak(startTime: Date, endTime: Date, breakRulesJson: string): number {
-  try {
-    const breakRules: BreakRule[] = JSON.parse(breakRulesJson);
-    const durationMs = endTime.getTime() - startTime.getTime();
-    const durationHours = durationMs / (1000 * 60 * 60);
-
-    // Find applicable break rule (use the one with highest minHours that's <= duration)
-    const applicableRule = breakRules
-      .filter((r) => durationHours >= r.minHours)
-      .sort((a, b) => b.minHours - a.minHours)[0];
-
-    return applicableRule?.breakMinutes || 0;
-  } catch {
-    return 0;
-  }
-}
-
 export async function POST(req: Request) {
   try {
     const session = await auth();
@@ -102,45 +88,42 @@ export async function POST(req: Request) {
       throw new ValidationError(result.error.issues[0].message);
     }
 
-    const { title, description, startTime, endTime, assignedToId, categoryId, locationId } = result.data;
-
-    // Check certifications if assigning to a user
+    const {
+      title,
+      description,
+      startTime,
+      endTime,
+      assignedToId,
+      categoryId,
+      locationId,
+      overrideConflicts,
+      overrideReason,
+    } = result.data;
+
+    // Check for scheduling conflicts if assigning to a user
+    let conflicts: ConflictCheckResult | null = null;
     if (assignedToId) {
-      const certCheck = await checkUserCertifications(assignedToId, session.user.organizationId);
-      if (!certCheck.isValid) {
+      conflicts = await checkShiftConflicts({
+        userId: assignedToId,
+        organizationId: session.user.organizationId,
+        startTime: new Date(startTime),
+        endTime: new Date(endTime),
+      });
+      if (!isAssignmentAllowed(conflicts, { overrideConflicts, overrideReason }, true)) {
         return NextResponse.json(
           {
-            error: "Certification requirements not met",
-            certificationError: formatCertificationError(certCheck),
-            missingCertifications: certCheck.missingCertifications,
-            expiredCertifications: certCheck.expiredCertifications,
+            error: "Scheduling conflicts detected",
+            code: "SHIFT_CONFLICT",
+            conflictError: formatConflictError(conflicts),
+            hardConflicts: conflicts.hardConflicts,
+            softConflicts: conflicts.softConflicts,
           },
-          { status: 400 }
+          { status: 409 }
         );
       }
     }
 
-    // Get break rules: location-specific if provided, otherwise organization defaults
-    let breakRulesJson = "[]";
-
-    if (locationId) {
-      const location = await prisma.location.findUnique({
-        where: { id: locationId },
-        select: { breakRules: true },
-      });
-      if (location?.breakRules) {
-        breakRulesJson = location.breakRules;
-      }
-    }
-
-    // Fall back to organization break rules if location doesn't have custom rules
-    if (breakRulesJson === "[]") {
-      const organization = await prisma.organization.findUnique({
-        where: { id: session.user.organizationId },
-        select: { breakRules: true },
-      });
-      breakRulesJson = organization?.breakRules || "[]";
-    }
+    const breakRulesJson = await getBreakRulesJson(session.user.organizationId, locationId);
 
     const shiftStartTime = new Date(startTime);
     const shiftEndTime = new Date(endTime);
@@ -177,42 +160,19 @@ export async function POST(req: Request) {
       },
     });
 
-    // Send email notification for shift assignment
-    if (assignedToId && shift.assignedTo?.email) {
-      const org = await prisma.organization.findUnique({
-        where: { id: session.user.organizationId },
-        select: { name: true },
-      });
-
-      const formattedDate = shiftStartTime.toLocaleDateString("en-GB", {
-        weekday: "short",
-        day: "numeric",
-        month: "short",
-      });
-      const formattedTime = `${shiftStartTime.toLocaleTimeString("en-GB", {
-        hour: "2-digit",
-        minute: "2-digit",
-      })} - ${shiftEndTime.toLocaleTimeString("en-GB", {
-        hour: "2-digit",
-        minute: "2-digit",
-      })}`;
-
-      const emailContent = newShiftAssignedEmail({
-        employeeName: shift.assignedTo.name || "Team Member",
-        shiftTitle: shift.title,
-        shiftDate: formattedDate,
-        shiftTime: formattedTime,
-        locationName: shift.location?.name,
-        organizationName: org?.name || "Your Organization",
+    if (conflicts && conflicts.softConflicts.length > 0) {
+      await logAudit({
+        action: "SHIFT_CONFLICT_OVERRIDDEN",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceId: shift.id,
+        ...getRequestContext(req),
+        metadata: {
+          assignedToId,
+          reason: overrideReason,
+          conflicts: conflicts.softConflicts,
+        },
       });
-
-      // Send email in background (don't wait for it)
-      sendEmail({
-        to: shift.assignedTo.email,
-        subject: emailContent.subject,
-        html: emailContent.html,
-        text: emailContent.text,
-      }).catch((err) => console.error("Failed to send shift assignment email:", err));
     }
 
     return NextResponse.json(shift);
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { createNotification } from "@/lib/notifications";
+import { dispatchNotification } from "@/lib/notifications";
 
 export async function PATCH(
   req: Request,
@@ -60,7 +60,7 @@ export async function PATCH(
       });
 
       // Notify the requester
-      await createNotification({
+      await dispatchNotification({
         userId: existingRequest.requestedById,
         type: body.status === "APPROVED" ? "SPEND_APPROVED" : "SPEND_REJECTED",
         title: body.status === "APPROVED" ? "Spend Request Approved" : "Spend Request Rejected",
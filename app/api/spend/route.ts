@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { createNotifications } from "@/lib/notifications";
+import { dispatchNotifications } from "@/lib/notifications";
 
 export async function GET(req: Request) {
   try {
@@ -144,7 +144,7 @@ export async function POST(req: Request) {
       },
     });
 
-    await createNotifications(
+    await dispatchNotifications(
       admins.map((admin) => ({
         userId: admin.id,
         type: "SPEND_REQUEST",
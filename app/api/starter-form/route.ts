@@ -49,6 +49,7 @@ export async function PUT(req: Request) {
       submittedAt: _submittedAt,
       reviewedAt: _reviewedAt,
       reviewedById: _reviewedById,
+      pensionOptOutAt: _pensionOptOutAt,
       ...updateData
     } = body;
 
@@ -63,6 +64,17 @@ export async function PUT(req: Request) {
       updateData.rightToWorkExpiry = new Date(updateData.rightToWorkExpiry);
     }
 
+    // Record when the employee first opted out of the workplace pension
+    if (typeof updateData.pensionOptOut === "boolean") {
+      const existing = await prisma.starterForm.findUnique({
+        where: { userId: session.user.id },
+        select: { pensionOptOut: true, pensionOptOutAt: true },
+      });
+      updateData.pensionOptOutAt = updateData.pensionOptOut
+        ? (existing?.pensionOptOut && existing.pensionOptOutAt) || new Date()
+        : null;
+    }
+
     // Upsert the starter form
     const starterForm = await prisma.starterForm.upsert({
       where: { userId: session.user.id },
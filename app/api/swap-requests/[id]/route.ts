@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { createNotification } from "@/lib/notifications";
+import { dispatchNotification } from "@/lib/notifications";
+import { checkShiftConflicts, isAssignmentAllowed, formatConflictError } from "@/lib/shift-conflicts";
+import { logAudit, getRequestContext } from "@/lib/audit";
 
 export async function PATCH(
   req: Request,
@@ -16,7 +18,7 @@ export async function PATCH(
     const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
 
     const { id } = await params;
-    const { status } = await req.json();
+    const { status, overrideConflicts, overrideReason } = await req.json();
 
     const request = await prisma.swapRequest.findUnique({
       where: { id },
@@ -35,6 +37,33 @@ export async function PATCH(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Check the incoming user is free to take the shift before approving a swap
+    let overriddenConflicts = null;
+    if (status === "APPROVED" && request.type === "swap" && request.toUserId) {
+      const conflicts = await checkShiftConflicts({
+        userId: request.toUserId,
+        organizationId: request.shift.organizationId,
+        startTime: request.shift.startTime,
+        endTime: request.shift.endTime,
+        excludeShiftId: request.shiftId,
+      });
+      if (!isAssignmentAllowed(conflicts, { overrideConflicts, overrideReason }, isManager)) {
+        return NextResponse.json(
+          {
+            error: "Scheduling conflicts detected",
+            code: "SHIFT_CONFLICT",
+            conflictError: formatConflictError(conflicts),
+            hardConflicts: conflicts.hardConflicts,
+            softConflicts: conflicts.softConflicts,
+          },
+          { status: 409 }
+        );
+      }
+      if (conflicts.softConflicts.length > 0) {
+        overriddenConflicts = conflicts.softConflicts;
+      }
+    }
+
     const updatedRequest = await prisma.swapRequest.update({
       where: { id },
       data: { status },
@@ -59,10 +88,26 @@ export async function PATCH(
             assignedToId: request.toUserId,
           },
         });
+
+        if (overriddenConflicts) {
+          await logAudit({
+            action: "SHIFT_CONFLICT_OVERRIDDEN",
+            userId: session.user.id,
+            organizationId: session.user.organizationId,
+            resourceId: request.shiftId,
+            ...getRequestContext(req),
+            metadata: {
+              assignedToId: request.toUserId,
+              swapRequestId: id,
+              reason: overrideReason,
+              conflicts: overriddenConflicts,
+            },
+          });
+        }
       }
 
       // Notify the requester
-      await createNotification({
+      await dispatchNotification({
         userId: request.fromUserId,
         type: "REQUEST_APPROVED",
         title: "Request Approved",
@@ -71,7 +116,7 @@ export async function PATCH(
       });
     } else if (status === "REJECTED") {
       // Notify the requester
-      await createNotification({
+      await dispatchNotification({
         userId: request.fromUserId,
         type: "REQUEST_REJECTED",
         title: "Request Rejected",
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { createNotifications } from "@/lib/notifications";
+import { dispatchNotifications } from "@/lib/notifications";
 
 export async function GET(req: Request) {
   try {
@@ -102,7 +102,7 @@ export async function POST(req: Request) {
       },
     });
 
-    await createNotifications(
+    await dispatchNotifications(
       managers.map((manager) => ({
         userId: manager.id,
         type: type === "drop" ? "DROP_REQUEST" : "SWAP_REQUEST",
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { NotFoundError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// GET a staff member's recent notifications with per-channel delivery status,
+// so managers can see why someone wasn't told about something
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "ADMIN" && session.user.role !== "MANAGER") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const user = await prisma.user.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+      select: {
+        id: true,
+        email: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        _count: { select: { pushSubscriptions: true } },
+      },
+    });
+    if (!user) {
+      throw new NotFoundError("Team member not found");
+    }
+
+    const notifications = await prisma.notification.findMany({
+      where: { userId: id },
+      include: {
+        deliveries: {
+          select: { id: true, channel: true, status: true, reason: true, error: true, sentAt: true, updatedAt: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    });
+
+    return NextResponse.json({
+      hasEmail: !!user.email,
+      pushDevices: user._count.pushSubscriptions,
+      quietHoursStart: user.quietHoursStart,
+      quietHoursEnd: user.quietHoursEnd,
+      notifications,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
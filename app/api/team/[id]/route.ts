@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { getLeaveSettings, leaveStaffSelect, recordContractChange } from "@/lib/holiday-entitlement";
 
 export async function PATCH(
   req: Request,
@@ -12,7 +13,7 @@ export async function PATCH(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Admins can do everything; managers can update holidayBalance
+    // Admins can do everything; managers can update staffRole, phone and location
     if (session.user.role !== "ADMIN" && session.user.role !== "MANAGER") {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
@@ -20,7 +21,15 @@ export async function PATCH(
     const { id } = await params;
     const { name, email, role, staffRole, holidayBalance, phone, primaryLocationId, paymentType, monthlySalary, contractedHours, sortOrder } = await req.json();
 
-    // Managers can only update holidayBalance and staffRole
+    // Holiday balances come from the ledger; adjust them there instead
+    if (holidayBalance !== undefined) {
+      return NextResponse.json(
+        { error: "Holiday balances are adjusted through the holiday ledger" },
+        { status: 400 }
+      );
+    }
+
+    // Managers can't change identity, role or pay details
     if (session.user.role === "MANAGER") {
       if (role !== undefined || name !== undefined || email !== undefined || paymentType !== undefined || monthlySalary !== undefined || contractedHours !== undefined || sortOrder !== undefined) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
@@ -52,7 +61,6 @@ export async function PATCH(
         email: email !== undefined ? email.toLowerCase().trim() : undefined,
         role: role !== undefined ? role : undefined,
         staffRole: staffRole !== undefined ? staffRole : undefined,
-        holidayBalance: holidayBalance !== undefined ? holidayBalance : undefined,
         phone: phone !== undefined ? phone : undefined,
         primaryLocationId: primaryLocationId !== undefined ? primaryLocationId : undefined,
         paymentType: paymentType !== undefined ? paymentType : undefined,
@@ -78,6 +86,15 @@ export async function PATCH(
       },
     });
 
+    // Pro-rate the change in entitlement over the rest of the leave year
+    if (updatedUser.paymentType !== user.paymentType || updatedUser.contractedHours !== user.contractedHours) {
+      const settings = await getLeaveSettings(session.user.organizationId);
+      const staff = await prisma.user.findUniqueOrThrow({ where: { id }, select: leaveStaffSelect });
+      updatedUser.holidayBalance = await prisma.$transaction(async (tx) =>
+        (await recordContractChange(user, staff, session.user.id, settings, new Date(), tx)) ?? staff.holidayBalance
+      );
+    }
+
     return NextResponse.json(updatedUser);
   } catch (error) {
     console.error("Update user error:", error);
@@ -135,6 +152,30 @@ export async function DELETE(
         data: { createdById: null },
       });
 
+      // Keep absences they recorded and ledger entries they made for others
+      await tx.holidayRequest.updateMany({
+        where: { recordedById: id },
+        data: { recordedById: null },
+      });
+      await tx.holidayLedgerEntry.updateMany({
+        where: { createdById: id },
+        data: { createdById: null },
+      });
+      await tx.toilEntry.updateMany({
+        where: { createdById: id },
+        data: { createdById: null },
+      });
+
+      // Kiosks and calendar feeds they set up keep working
+      await tx.kioskDevice.updateMany({
+        where: { createdById: id },
+        data: { createdById: null },
+      });
+      await tx.calendarFeed.updateMany({
+        where: { createdById: id },
+        data: { createdById: null },
+      });
+
       // Delete related records
       await tx.holidayRequest.deleteMany({ where: { userId: id } });
       await tx.locationStaff.deleteMany({ where: { userId: id } });
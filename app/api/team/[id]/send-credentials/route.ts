@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { createNotification } from "@/lib/notifications";
+import { dispatchNotification } from "@/lib/notifications";
 import { sendEmail, welcomeCredentialsEmail } from "@/lib/email";
 
 // Generate a random temporary password
@@ -67,7 +67,7 @@ export async function POST(
     });
 
     // Create a notification for the user
-    await createNotification({
+    await dispatchNotification({
       userId: id,
       type: "CREDENTIALS_SENT",
       title: "Login Credentials Sent",
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { getLeaveSettings, startLeaveLedger } from "@/lib/holiday-entitlement";
 
 export async function POST(req: Request) {
   try {
@@ -95,6 +96,8 @@ export async function POST(req: Request) {
       },
     });
 
+    await startLeaveLedger(newUser.id, await getLeaveSettings(currentUser.organizationId));
+
     // If primary location is set, also add to LocationStaff
     if (primaryLocationId) {
       await prisma.locationStaff.create({
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { getLeaveSettings, startLeaveLedger } from "@/lib/holiday-entitlement";
 import { hash } from "bcryptjs";
 import { createUserSchema } from "@/lib/schemas";
 import { ValidationError } from "@/lib/errors";
@@ -97,6 +98,8 @@ export async function POST(req: Request) {
       },
     });
 
+    await startLeaveLedger(user.id, await getLeaveSettings(session.user.organizationId));
+
     return NextResponse.json(user);
   } catch (error) {
     return handleApiError(error);
@@ -2,7 +2,9 @@ import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { logAudit, getRequestContext } from "@/lib/audit";
-import { createNotification } from "@/lib/notifications";
+import { dispatchNotification } from "@/lib/notifications";
+import { getLockedPayPeriod, recordPayrollAdjustment, type AdjustableEntry } from "@/lib/payroll-run";
+import { getApprovedTimesheet } from "@/lib/timesheets";
 
 export async function PATCH(
   req: Request,
@@ -20,7 +22,16 @@ export async function PATCH(
     }
 
     const { id } = await params;
-    const { status, clockIn, clockOut, notes, approveClockIn, rejectClockIn } = await req.json();
+    const {
+      status,
+      clockIn,
+      clockOut,
+      notes,
+      approveClockIn,
+      rejectClockIn,
+      recordAsAdjustment,
+      changeApproved,
+    } = await req.json();
 
     const entry = await prisma.timeEntry.findUnique({
       where: { id },
@@ -31,6 +42,104 @@ export async function PATCH(
       return NextResponse.json({ error: "Entry not found" }, { status: 404 });
     }
 
+    const changesPay =
+      status !== undefined || clockIn !== undefined || clockOut !== undefined || !!rejectClockIn;
+
+    // Changes to a week whose timesheet has been approved have to be confirmed
+    const approvedTimesheet = changesPay
+      ? (await getApprovedTimesheet(entry.userId, entry.clockIn, session.user.organizationId)) ||
+        (clockIn ? await getApprovedTimesheet(entry.userId, new Date(clockIn), session.user.organizationId) : null)
+      : null;
+
+    if (approvedTimesheet && !changeApproved) {
+      return NextResponse.json(
+        {
+          error: `The timesheet for the week of ${approvedTimesheet.weekStart} has been approved. Changing it will be recorded in the audit log.`,
+          code: "TIMESHEET_LOCKED",
+        },
+        { status: 409 }
+      );
+    }
+
+    // Entries in a signed-off pay period can only change as payroll adjustments
+    const lockedPeriod = changesPay
+      ? (await getLockedPayPeriod(session.user.organizationId, entry.clockIn)) ||
+        (clockIn ? await getLockedPayPeriod(session.user.organizationId, new Date(clockIn)) : null)
+      : null;
+
+    if (lockedPeriod && !recordAsAdjustment) {
+      return NextResponse.json(
+        {
+          error: `Payroll for ${lockedPeriod.name} has been signed off. Save this change as an adjustment for the next payroll run.`,
+          code: "PERIOD_LOCKED",
+        },
+        { status: 409 }
+      );
+    }
+
+    const recordAdjustment = async (after: AdjustableEntry | null) => {
+      if (!lockedPeriod) return;
+      const adjustment = await recordPayrollAdjustment({
+        organizationId: session.user.organizationId,
+        payPeriodId: lockedPeriod.id,
+        timeEntryId: after ? id : null,
+        createdById: session.user.id,
+        before: entry,
+        after,
+        reason: after ? "Time entry changed after payroll sign-off" : "Time entry removed after payroll sign-off",
+      });
+      await logAudit({
+        action: "PAYROLL_ADJUSTMENT_RECORDED",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceId: adjustment.id,
+        ...getRequestContext(req),
+        changes: {
+          before: { clockIn: entry.clockIn, clockOut: entry.clockOut, status: entry.status },
+          after: after
+            ? { clockIn: after.clockIn, clockOut: after.clockOut, status: after.status }
+            : { deleted: true },
+        },
+        metadata: {
+          timeEntryId: id,
+          targetUserId: entry.userId,
+          payPeriodId: lockedPeriod.id,
+          hoursDelta: adjustment.hoursDelta,
+          amount: adjustment.amount,
+        },
+      });
+    };
+
+    type EntrySnapshot = AdjustableEntry & { notes: string | null; clockInApproved: boolean };
+    const logApprovedChange = async (after: EntrySnapshot | null) => {
+      if (!approvedTimesheet) return;
+      const snapshot = (e: EntrySnapshot) => ({
+        clockIn: e.clockIn,
+        clockOut: e.clockOut,
+        totalBreak: e.totalBreak,
+        status: e.status,
+        notes: e.notes,
+        clockInApproved: e.clockInApproved,
+      });
+      await logAudit({
+        action: "TIME_ENTRY_UPDATED",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceType: "TimeEntry",
+        resourceId: id,
+        ...getRequestContext(req),
+        changes: {
+          before: snapshot(entry),
+          after: after ? snapshot(after) : { deleted: true },
+        },
+        metadata: {
+          targetUserId: entry.userId,
+          timesheetId: approvedTimesheet.id,
+          afterApproval: true,
+        },
+      });
+    };
+
     // Build update data
     const updateData: {
       status?: string;
@@ -65,6 +174,8 @@ export async function PATCH(
     // Handle clock-in rejection (delete the entry)
     if (rejectClockIn) {
       await prisma.timeEntry.delete({ where: { id } });
+      await recordAdjustment(null);
+      await logApprovedChange(null);
 
       // Audit log for rejection
       const { ipAddress, userAgent } = getRequestContext(req);
@@ -84,7 +195,7 @@ export async function PATCH(
       });
 
       // Notify the user
-      await createNotification({
+      await dispatchNotification({
         userId: entry.userId,
         type: "CLOCKIN_REJECTED",
         title: "Clock-in Rejected",
@@ -108,6 +219,9 @@ export async function PATCH(
       },
     });
 
+    await recordAdjustment(updatedEntry);
+    await logApprovedChange(updatedEntry);
+
     // Audit logging for time entry changes
     const { ipAddress, userAgent } = getRequestContext(req);
 
@@ -178,7 +292,7 @@ export async function PATCH(
 
     // Notify the user only for status changes
     if (status) {
-      await createNotification({
+      await dispatchNotification({
         userId: entry.userId,
         type: status === "APPROVED" ? "TIMESHEET_APPROVED" : "TIMESHEET_REJECTED",
         title: status === "APPROVED" ? "Timesheet Approved" : "Timesheet Rejected",
@@ -189,7 +303,7 @@ export async function PATCH(
 
     // Notify user if their early/late clock-in was approved
     if (approveClockIn && entry.clockInFlag) {
-      await createNotification({
+      await dispatchNotification({
         userId: entry.userId,
         type: "CLOCKIN_APPROVED",
         title: "Clock-in Approved",
@@ -200,7 +314,7 @@ export async function PATCH(
 
     // Notify user if their time entry was edited by a manager
     if ((clockIn !== undefined || clockOut !== undefined) && entry.userId !== session.user.id) {
-      await createNotification({
+      await dispatchNotification({
         userId: entry.userId,
         type: "TIMESHEET_EDITED",
         title: "Time Entry Updated",
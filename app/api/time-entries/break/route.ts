@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/db";
+import { recordBreak } from "@/lib/clock-in";
+import { timeEntryBreakSchema } from "@/lib/schemas";
+import { handleApiError } from "@/lib/api-utils";
 
+// POST start or end a break. Each break is kept, and the unpaid ones are
+// added up into the entry's totalBreak as they end.
 export async function POST(req: Request) {
   try {
     const session = await auth();
@@ -9,69 +13,20 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { timeEntryId, action } = await req.json();
-
-    const timeEntry = await prisma.timeEntry.findFirst({
-      where: {
-        id: timeEntryId,
-        userId: session.user.id,
-        clockOut: null,
-      },
-    });
-
-    if (!timeEntry) {
+    const parseResult = timeEntryBreakSchema.safeParse(await req.json());
+    if (!parseResult.success) {
       return NextResponse.json(
-        { error: "No active time entry found" },
+        { error: parseResult.error.issues[0].message },
         { status: 400 }
       );
     }
 
-    if (action === "start") {
-      if (timeEntry.breakStart) {
-        return NextResponse.json(
-          { error: "Already on break" },
-          { status: 400 }
-        );
-      }
-
-      const updatedEntry = await prisma.timeEntry.update({
-        where: { id: timeEntryId },
-        data: {
-          breakStart: new Date(),
-        },
-      });
-
-      return NextResponse.json(updatedEntry);
-    } else if (action === "end") {
-      if (!timeEntry.breakStart) {
-        return NextResponse.json(
-          { error: "Not on break" },
-          { status: 400 }
-        );
-      }
+    const { timeEntryId, action, type } = parseResult.data;
 
-      const breakDuration = Math.round(
-        (new Date().getTime() - new Date(timeEntry.breakStart).getTime()) / (1000 * 60)
-      );
-
-      const updatedEntry = await prisma.timeEntry.update({
-        where: { id: timeEntryId },
-        data: {
-          breakStart: null,
-          breakEnd: new Date(),
-          totalBreak: timeEntry.totalBreak + breakDuration,
-        },
-      });
-
-      return NextResponse.json(updatedEntry);
-    }
+    const updatedEntry = await recordBreak(session.user.id, timeEntryId, action, type);
 
-    return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    return NextResponse.json(updatedEntry);
   } catch (error) {
-    console.error("Break error:", error);
-    return NextResponse.json(
-      { error: "Failed to process break" },
-      { status: 500 }
-    );
+    return handleApiError(error);
   }
 }
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { prisma } from "@/lib/db";
+import { clockOut } from "@/lib/clock-in";
+import { handleApiError } from "@/lib/api-utils";
 
 export async function POST(req: Request) {
   try {
@@ -11,66 +12,10 @@ export async function POST(req: Request) {
 
     const { timeEntryId } = await req.json();
 
-    const timeEntry = await prisma.timeEntry.findFirst({
-      where: {
-        id: timeEntryId,
-        userId: session.user.id,
-        clockOut: null,
-      },
-    });
+    const updatedEntry = await clockOut(session.user.id, timeEntryId ?? null);
 
-    if (!timeEntry) {
-      return NextResponse.json(
-        { error: "No active time entry found" },
-        { status: 400 }
-      );
-    }
-
-    // Can't clock out while on break
-    if (timeEntry.breakStart) {
-      return NextResponse.json(
-        { error: "End your break before clocking out" },
-        { status: 400 }
-      );
-    }
-
-    const now = new Date();
-    let warning: string | null = null;
-
-    // Check if clocking out late (after grace period)
-    if (timeEntry.shiftId) {
-      const shift = await prisma.shift.findUnique({
-        where: { id: timeEntry.shiftId },
-        include: {
-          organization: {
-            select: { clockOutGraceMinutes: true },
-          },
-        },
-      });
-
-      if (shift) {
-        const clockOutGraceMinutes = shift.organization.clockOutGraceMinutes;
-        const latestClockOut = new Date(shift.endTime.getTime() + clockOutGraceMinutes * 60 * 1000);
-
-        if (now > latestClockOut) {
-          warning = `You are clocking out more than ${clockOutGraceMinutes} minutes after your shift ended. This may be flagged for manager review.`;
-        }
-      }
-    }
-
-    const updatedEntry = await prisma.timeEntry.update({
-      where: { id: timeEntryId },
-      data: {
-        clockOut: now,
-      },
-    });
-
-    return NextResponse.json({ ...updatedEntry, warning });
+    return NextResponse.json(updatedEntry);
   } catch (error) {
-    console.error("Clock out error:", error);
-    return NextResponse.json(
-      { error: "Failed to clock out" },
-      { status: 500 }
-    );
+    return handleApiError(error);
   }
 }
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { summarizeBreaks } from "@/lib/timesheets";
 import * as XLSX from "xlsx";
 
 function csvEscape(value: string): string {
@@ -208,6 +209,9 @@ export async function GET(req: Request) {
             },
           },
         },
+        breaks: {
+          select: { type: true, startTime: true, endTime: true },
+        },
       },
       orderBy: [
         { user: { name: "asc" } },
@@ -223,7 +227,9 @@ export async function GET(req: Request) {
       const grossHours = clockOut
         ? (clockOut.getTime() - clockIn.getTime()) / (1000 * 60 * 60)
         : 0;
+      // totalBreak is the unpaid break; paid breaks stay in the hours worked
       const breakMinutes = entry.totalBreak;
+      const paidBreakMinutes = summarizeBreaks(entry.breaks).paidMinutes;
       const netHours = Math.max(0, grossHours - breakMinutes / 60);
 
       const hourlyRate = entry.shift?.category?.hourlyRate || 0;
@@ -236,7 +242,8 @@ export async function GET(req: Request) {
         Date: clockIn.toLocaleDateString(),
         "Clock In": clockIn.toLocaleTimeString(),
         "Clock Out": clockOut?.toLocaleTimeString() || "",
-        "Break Duration (min)": breakMinutes,
+        "Unpaid Break (min)": breakMinutes,
+        "Paid Break (min)": paidBreakMinutes,
         "Gross Hours": Number(grossHours.toFixed(2)),
         "Net Hours": Number(netHours.toFixed(2)),
         "Shift Category": entry.shift?.category?.name || "Uncategorized",
@@ -259,7 +266,8 @@ export async function GET(req: Request) {
       { wch: 12 }, // Date
       { wch: 12 }, // Clock In
       { wch: 12 }, // Clock Out
-      { wch: 18 }, // Break Duration
+      { wch: 18 }, // Unpaid Break
+      { wch: 16 }, // Paid Break
       { wch: 12 }, // Gross Hours
       { wch: 12 }, // Net Hours
       { wch: 18 }, // Shift Category
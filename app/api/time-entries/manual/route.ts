@@ -2,7 +2,10 @@ import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { z } from "zod";
-import { createNotification } from "@/lib/notifications";
+import { dispatchNotification } from "@/lib/notifications";
+import { logAudit, getRequestContext } from "@/lib/audit";
+import { getLockedPayPeriod, recordPayrollAdjustment } from "@/lib/payroll-run";
+import { getApprovedTimesheet } from "@/lib/timesheets";
 
 const manualTimeEntrySchema = z.object({
   userId: z.string().cuid({ error: "Invalid user ID" }),
@@ -11,6 +14,8 @@ const manualTimeEntrySchema = z.object({
   clockOut: z.string().datetime({ error: "Invalid clock-out time" }),
   totalBreak: z.number().min(0).optional(),
   notes: z.string().optional().nullable(),
+  recordAsAdjustment: z.boolean().optional(),
+  changeApproved: z.boolean().optional(),
 }).refine(
   (data) => new Date(data.clockIn) < new Date(data.clockOut),
   {
@@ -43,7 +48,8 @@ export async function POST(req: Request) {
       );
     }
 
-    const { userId, clockIn, clockOut, totalBreak, notes, shiftId } = parseResult.data;
+    const { userId, clockIn, clockOut, totalBreak, notes, shiftId, recordAsAdjustment, changeApproved } =
+      parseResult.data;
 
     // Verify the user belongs to the same organization
     const targetUser = await prisma.user.findUnique({
@@ -58,6 +64,30 @@ export async function POST(req: Request) {
     const clockInDate = new Date(clockIn);
     const clockOutDate = new Date(clockOut);
 
+    // Adding time to a week whose timesheet has been approved has to be confirmed
+    const approvedTimesheet = await getApprovedTimesheet(userId, clockInDate, session.user.organizationId);
+    if (approvedTimesheet && !changeApproved) {
+      return NextResponse.json(
+        {
+          error: `The timesheet for the week of ${approvedTimesheet.weekStart} has been approved. Adding this entry will be recorded in the audit log.`,
+          code: "TIMESHEET_LOCKED",
+        },
+        { status: 409 }
+      );
+    }
+
+    // Hours added to a signed-off pay period are paid as an adjustment in the next run
+    const lockedPeriod = await getLockedPayPeriod(session.user.organizationId, clockInDate);
+    if (lockedPeriod && !recordAsAdjustment) {
+      return NextResponse.json(
+        {
+          error: `Payroll for ${lockedPeriod.name} has been signed off. Save this entry as an adjustment for the next payroll run.`,
+          code: "PERIOD_LOCKED",
+        },
+        { status: 409 }
+      );
+    }
+
     // Create the manual time entry - mark as APPROVED since it's manually entered by manager
     const entry = await prisma.timeEntry.create({
       data: {
@@ -82,8 +112,59 @@ export async function POST(req: Request) {
       },
     });
 
+    if (lockedPeriod) {
+      const adjustment = await recordPayrollAdjustment({
+        organizationId: session.user.organizationId,
+        payPeriodId: lockedPeriod.id,
+        timeEntryId: entry.id,
+        createdById: session.user.id,
+        before: null,
+        after: entry,
+        reason: "Manual time entry added after payroll sign-off",
+      });
+      await logAudit({
+        action: "PAYROLL_ADJUSTMENT_RECORDED",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceId: adjustment.id,
+        ...getRequestContext(req),
+        metadata: {
+          timeEntryId: entry.id,
+          targetUserId: userId,
+          payPeriodId: lockedPeriod.id,
+          hoursDelta: adjustment.hoursDelta,
+          amount: adjustment.amount,
+        },
+      });
+    }
+
+    if (approvedTimesheet) {
+      await logAudit({
+        action: "TIME_ENTRY_CREATED",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceType: "TimeEntry",
+        resourceId: entry.id,
+        ...getRequestContext(req),
+        changes: {
+          after: {
+            clockIn: entry.clockIn,
+            clockOut: entry.clockOut,
+            totalBreak: entry.totalBreak,
+            status: entry.status,
+            notes: entry.notes,
+          },
+        },
+        metadata: {
+          targetUserId: userId,
+          timesheetId: approvedTimesheet.id,
+          afterApproval: true,
+        },
+      });
+    }
+
     // Notify the employee about the manual entry
-    await createNotification({
+    await dispatchNotification({
       userId,
       type: "MANUAL_TIME_ENTRY",
       title: "Time Entry Added",
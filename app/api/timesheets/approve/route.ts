@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { logAudit, getRequestContext } from "@/lib/audit";
+import { dispatchNotifications } from "@/lib/notifications";
+import { approveTimesheets } from "@/lib/timesheets";
+import { approveTimesheetsSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST approve a finished week's timesheets for several employees. This locks the week.
+// Pending time in a signed-off pay period needs recordAsAdjustment.
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = approveTimesheetsSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { weekStart, userIds, recordAsAdjustment } = result.data;
+    const approval = await approveTimesheets(
+      session.user.organizationId,
+      session.user.id,
+      weekStart,
+      userIds,
+      { recordAsAdjustment }
+    );
+
+    const context = getRequestContext(req);
+    for (const adjustment of approval.adjustments) {
+      await logAudit({
+        action: "PAYROLL_ADJUSTMENT_RECORDED",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceId: adjustment.id,
+        ...context,
+        metadata: {
+          timeEntryId: adjustment.timeEntryId,
+          targetUserId: adjustment.userId,
+          payPeriodId: adjustment.payPeriodId,
+          hoursDelta: adjustment.hoursDelta,
+          amount: adjustment.amount,
+        },
+      });
+    }
+    for (const approved of approval.approved) {
+      await logAudit({
+        action: "TIMESHEET_APPROVED",
+        userId: session.user.id,
+        organizationId: session.user.organizationId,
+        resourceId: approved.timesheetId,
+        ...context,
+        metadata: {
+          targetUserId: approved.userId,
+          weekStart,
+          entryCount: approved.entryCount,
+        },
+      });
+    }
+
+    await dispatchNotifications(
+      approval.approved
+        .filter((approved) => approved.userId !== session.user.id)
+        .map((approved) => ({
+          userId: approved.userId,
+          type: "TIMESHEET_APPROVED",
+          title: "Timesheet Approved",
+          message: `Your timesheet for the week of ${weekStart} has been approved`,
+          link: `/dashboard/timesheet/weekly?week=${weekStart}`,
+        }))
+    );
+
+    return NextResponse.json(approval);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { logAudit, getRequestContext } from "@/lib/audit";
+import { queryTimesheet } from "@/lib/timesheets";
+import { queryTimesheetSchema } from "@/lib/schemas";
+import { ValidationError } from "@/lib/errors";
+import { handleApiError } from "@/lib/api-utils";
+
+// POST raise a query on an employee's week, in the timesheet's message thread
+export async function POST(req: Request) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = queryTimesheetSchema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(result.error.issues[0].message);
+    }
+
+    const { weekStart, userId, content } = result.data;
+    const { timesheet, conversation, message } = await queryTimesheet(
+      { ...session.user, name: session.user.name || "Someone" },
+      userId,
+      weekStart,
+      content
+    );
+
+    await logAudit({
+      action: "TIMESHEET_QUERIED",
+      userId: session.user.id,
+      organizationId: session.user.organizationId,
+      resourceId: timesheet.id,
+      ...getRequestContext(req),
+      metadata: {
+        targetUserId: userId,
+        weekStart,
+        messageId: message.id,
+      },
+    });
+
+    return NextResponse.json({ timesheetId: timesheet.id, conversation, message }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -3,6 +3,8 @@ import { auth } from "@/lib/auth";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+// Documents such as fit notes can also be PDFs
+const DOCUMENT_TYPES = [...ALLOWED_TYPES, "application/pdf"];
 
 export async function POST(req: Request) {
   try {
@@ -13,15 +15,16 @@ export async function POST(req: Request) {
 
     const formData = await req.formData();
     const file = formData.get("file") as File | null;
+    const isDocument = formData.get("kind") === "document";
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
     }
 
     // Validate file type
-    if (!ALLOWED_TYPES.includes(file.type)) {
+    if (!(isDocument ? DOCUMENT_TYPES : ALLOWED_TYPES).includes(file.type)) {
       return NextResponse.json(
-        { error: "Invalid file type. Allowed: JPEG, PNG, WebP, GIF" },
+        { error: `Invalid file type. Allowed: JPEG, PNG, WebP, GIF${isDocument ? ", PDF" : ""}` },
         { status: 400 }
       );
     }
@@ -0,0 +1,31 @@
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/db";
+import { ClimberRoutes } from "@/components/climber-routes";
+
+export const metadata = {
+  title: "Routes - ShiftFlow",
+};
+
+// Public climber page, opened from the QR codes on the walls. No login:
+// the code in the URL picks the location, and ?sector= opens one wall.
+export default async function ClimbPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ code: string }>;
+  searchParams: Promise<{ sector?: string }>;
+}) {
+  const { code } = await params;
+  const { sector } = await searchParams;
+
+  const location = await prisma.location.findUnique({
+    where: { climberPageCode: code },
+    select: { name: true, isActive: true },
+  });
+
+  if (!location || !location.isActive) {
+    notFound();
+  }
+
+  return <ClimberRoutes code={code} locationName={location.name} initialSectorId={sector} />;
+}
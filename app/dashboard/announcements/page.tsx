@@ -0,0 +1,46 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { AnnouncementsManager } from "@/components/announcements-manager";
+import { DEFAULT_STAFF_ROLES } from "@/lib/staff-roles";
+
+export default async function AnnouncementsPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect("/login");
+  }
+
+  if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+    redirect("/dashboard");
+  }
+
+  const [locations, staffRoles] = await Promise.all([
+    prisma.location.findMany({
+      where: { organizationId: session.user.organizationId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.staffRole.findMany({
+      where: { organizationId: session.user.organizationId, isActive: true },
+      select: { code: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Announcements</h1>
+        <p className="text-muted-foreground mt-1">
+          Post notices to the whole team, a location or specific roles
+        </p>
+      </div>
+
+      <AnnouncementsManager
+        locations={locations}
+        staffRoles={staffRoles.length > 0 ? staffRoles : DEFAULT_STAFF_ROLES}
+      />
+    </div>
+  );
+}
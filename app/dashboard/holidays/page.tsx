@@ -2,16 +2,30 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { formatDate } from "@/lib/utils";
+import { formatDate, formatDateTime } from "@/lib/utils";
 import { HolidayRequestForm } from "@/components/holiday-request-form";
 import { HolidayActions } from "@/components/holiday-actions";
+import { HolidayLedger } from "@/components/holiday-ledger";
+import { AbsenceEvidenceActions } from "@/components/absence-evidence-actions";
+import { getCurrentLeaveYear, getLeaveSettings } from "@/lib/holiday-entitlement";
+import { getToilBalance } from "@/lib/absences";
+import { checkLeaveRules, isLeaveRuleChecked } from "@/lib/leave-rules";
+import {
+  canApproveAbsence,
+  getAbsenceRules,
+  getOutstandingEvidence,
+  getSicknessEvidence,
+} from "@/lib/absence-types";
 import { cn } from "@/lib/utils";
 import { Users } from "lucide-react";
 
 async function getHolidayData(userId: string, organizationId: string, role: string) {
   const isManager = role === "MANAGER" || role === "ADMIN";
+  const leaveYear = getCurrentLeaveYear(await getLeaveSettings(organizationId));
+  // Requests are stored at UTC midnight of the chosen day
+  const leaveYearStart = new Date(`${leaveYear.start}T00:00:00Z`);
 
-  const [requests, user, teamUsers, teamHolidayRequests] = await Promise.all([
+  const [requests, user, teamUsers, teamHolidayRequests, toilBalance] = await Promise.all([
     prisma.holidayRequest.findMany({
       where: isManager
         ? { user: { organizationId } }
@@ -20,6 +34,7 @@ async function getHolidayData(userId: string, organizationId: string, role: stri
         user: {
           select: { id: true, name: true, email: true, holidayBalance: true },
         },
+        recordedBy: { select: { name: true } },
       },
       orderBy: { createdAt: "desc" },
     }),
@@ -35,15 +50,16 @@ async function getHolidayData(userId: string, organizationId: string, role: stri
           orderBy: { name: "asc" },
         })
       : Promise.resolve([]),
-    // Get approved holiday hours per user for the current year (managers only)
+    // Get approved holiday hours per user for the current leave year (managers only)
     isManager
       ? prisma.holidayRequest.groupBy({
           by: ["userId"],
           where: {
             user: { organizationId },
+            type: "HOLIDAY",
             status: "APPROVED",
             startDate: {
-              gte: new Date(new Date().getFullYear(), 0, 1),
+              gte: leaveYearStart,
             },
           },
           _sum: {
@@ -51,6 +67,7 @@ async function getHolidayData(userId: string, organizationId: string, role: stri
           },
         })
       : Promise.resolve([]),
+    getToilBalance(userId),
   ]);
 
   // Create a map of used hours per user
@@ -59,7 +76,15 @@ async function getHolidayData(userId: string, organizationId: string, role: stri
     usedHoursMap.set(req.userId, req._sum.hours || 0);
   });
 
-  return { requests, holidayBalance: user?.holidayBalance || 0, teamUsers, usedHoursMap };
+  return {
+    requests,
+    holidayBalance: user?.holidayBalance || 0,
+    toilBalance,
+    teamUsers,
+    usedHoursMap,
+    leaveYear,
+    leaveYearStart,
+  };
 }
 
 function getHolidayStatus(balance: number, usedHours: number) {
@@ -85,7 +110,7 @@ export default async function HolidaysPage() {
   const session = await auth();
   if (!session?.user) return null;
 
-  const { requests, holidayBalance, teamUsers, usedHoursMap } = await getHolidayData(
+  const { requests, holidayBalance, toilBalance, teamUsers, usedHoursMap, leaveYear, leaveYearStart } = await getHolidayData(
     session.user.id,
     session.user.organizationId,
     session.user.role
@@ -93,6 +118,14 @@ export default async function HolidaysPage() {
 
   const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
   const pendingRequests = requests.filter((r) => r.status === "PENDING");
+  // Pending requests are shown against the leave rules, so they aren't approved blind
+  const leaveChecks = new Map(
+    await Promise.all(
+      pendingRequests
+        .filter((r) => isLeaveRuleChecked(r.type))
+        .map(async (r) => [r.id, await checkLeaveRules(r, session.user.organizationId)] as const)
+    )
+  );
   const approvedRequests = requests.filter((r) => r.status === "APPROVED");
   const otherRequests = requests.filter(
     (r) => r.status !== "PENDING" && r.status !== "APPROVED"
@@ -113,21 +146,107 @@ export default async function HolidaysPage() {
     }
   };
 
-  // Calculate used and pending days (for current user only)
+  const today = new Date(new Date().toISOString().slice(0, 10) + "T00:00:00Z");
+
+  // Calculate used and pending holiday this leave year (for current user only)
   const usedHours = approvedRequests
-    .filter((r) => r.userId === session.user.id)
+    .filter((r) => r.userId === session.user.id && r.type === "HOLIDAY" && r.startDate >= leaveYearStart)
     .reduce((total, r) => total + r.hours, 0);
   const pendingHours = pendingRequests
-    .filter((r) => r.userId === session.user.id)
+    .filter((r) => r.userId === session.user.id && r.type === "HOLIDAY")
     .reduce((total, r) => total + r.hours, 0);
 
+  // Type, who recorded it and any sickness evidence, shared by both lists
+  const renderRequestDetails = (request: (typeof requests)[number]) => {
+    const outstanding = getOutstandingEvidence(request);
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          {isManager && (
+            <span className="font-medium">{request.user.name}</span>
+          )}
+          <Badge variant="outline">{getAbsenceRules(request.type).label}</Badge>
+          {getStatusBadge(request.status)}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {formatDate(request.startDate)} - {formatDate(request.endDate)}
+        </p>
+        <p className="text-sm">
+          <span className="font-medium">{request.hours} hours</span>
+        </p>
+        {request.reason && (
+          <p className="text-sm text-muted-foreground italic">
+            &quot;{request.reason}&quot;
+          </p>
+        )}
+        {request.recordedBy && (
+          <p className="text-xs text-muted-foreground">Recorded by {request.recordedBy.name}</p>
+        )}
+        {request.type === "SICK" && request.selfCertified && (
+          <p className="text-xs text-muted-foreground">Self-certified</p>
+        )}
+        {request.documentUrl && (
+          <a
+            href={request.documentUrl}
+            download={request.documentName || "fit-note"}
+            className="text-xs text-blue-600 hover:underline"
+          >
+            {request.documentName || "Fit note"}
+          </a>
+        )}
+        {outstanding && request.status === "APPROVED" && (
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            <Badge variant="warning">{outstanding}</Badge>
+            {(isManager || request.userId === session.user.id) && (
+              <AbsenceEvidenceActions
+                requestId={request.id}
+                evidence={getSicknessEvidence(request.startDate, request.endDate)}
+                isOwner={request.userId === session.user.id}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Leave rules the request breaks, and shifts that would need reassigning
+  const renderLeaveCheck = (requestId: string) => {
+    const check = leaveChecks.get(requestId);
+    if (!check || (check.clashes.length === 0 && check.shifts.length === 0)) return null;
+    return (
+      <div className="space-y-1 text-xs">
+        {check.clashes.map((clash) => (
+          <p key={`${clash.locationId}-${clash.type}-${clash.message}`} className="text-red-600">
+            {clash.locationName}: {clash.message} (
+            {clash.dates.length === 1
+              ? formatDate(clash.dates[0])
+              : `${formatDate(clash.dates[0])} - ${formatDate(clash.dates[clash.dates.length - 1])}`}
+            )
+          </p>
+        ))}
+        {check.shifts.length > 0 && (
+          <div className="text-muted-foreground">
+            <p className="font-medium">Shifts to reassign if approved:</p>
+            {check.shifts.map((shift) => (
+              <p key={shift.id}>
+                {shift.title} - {formatDateTime(shift.startTime)}
+                {shift.location && `, ${shift.location.name}`}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="p-8">
       <div className="mb-8">
         <h1 className="text-3xl font-bold">Holidays</h1>
         <p className="text-muted-foreground mt-1">
           {isManager
-            ? "Manage team holiday requests"
+            ? "Manage team holiday requests and absence"
             : "Request and track your time off"}
         </p>
       </div>
@@ -136,10 +255,10 @@ export default async function HolidaysPage() {
       <Card className="mb-6">
         <CardHeader>
           <CardTitle>Holiday Balance</CardTitle>
-          <CardDescription>Your available time off</CardDescription>
+          <CardDescription>Your available time off for the {leaveYear.label} leave year</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className="grid gap-4 md:grid-cols-4">
             <div className="text-center p-4 rounded-lg bg-muted/50">
               <p className="text-3xl font-bold text-green-600">{holidayBalance}</p>
               <p className="text-sm text-muted-foreground">Hours Available</p>
@@ -152,6 +271,10 @@ export default async function HolidaysPage() {
               <p className="text-3xl font-bold text-yellow-600">{pendingHours}</p>
               <p className="text-sm text-muted-foreground">Hours Pending</p>
             </div>
+            <div className="text-center p-4 rounded-lg bg-muted/50">
+              <p className="text-3xl font-bold text-teal-600">{toilBalance}</p>
+              <p className="text-sm text-muted-foreground">TOIL Available</p>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -214,10 +337,16 @@ export default async function HolidaysPage() {
         <Card>
           <CardHeader>
             <CardTitle>Request Time Off</CardTitle>
-            <CardDescription>Submit a new holiday request</CardDescription>
+            <CardDescription>Request holiday or other leave, or report sickness</CardDescription>
           </CardHeader>
           <CardContent>
-            <HolidayRequestForm maxHours={holidayBalance} />
+            <HolidayRequestForm
+              maxHours={holidayBalance}
+              leaveYearLabel={leaveYear.label}
+              leaveYearEnd={leaveYear.end}
+              toilBalance={toilBalance}
+              staff={isManager ? teamUsers.filter((u) => u.id !== session.user.id) : undefined}
+            />
           </CardContent>
         </Card>
 
@@ -241,29 +370,15 @@ export default async function HolidaysPage() {
                     key={request.id}
                     className="flex items-center justify-between p-4 rounded-lg border"
                   >
-                    <div className="space-y-1">
-                      <div className="flex items-center gap-2">
-                        {isManager && (
-                          <span className="font-medium">{request.user.name}</span>
-                        )}
-                        {getStatusBadge(request.status)}
-                      </div>
-                      <p className="text-sm text-muted-foreground">
-                        {formatDate(request.startDate)} - {formatDate(request.endDate)}
-                      </p>
-                      <p className="text-sm">
-                        <span className="font-medium">{request.hours} hours</span>
-                      </p>
-                      {request.reason && (
-                        <p className="text-sm text-muted-foreground italic">
-                          &quot;{request.reason}&quot;
-                        </p>
-                      )}
+                    <div className="space-y-2">
+                      {renderRequestDetails(request)}
+                      {renderLeaveCheck(request.id)}
                     </div>
                     <HolidayActions
                       requestId={request.id}
                       isManager={isManager}
                       isOwner={request.userId === session.user.id}
+                      canApprove={canApproveAbsence(request.type, session.user.role)}
                     />
                   </div>
                 ))}
@@ -277,11 +392,22 @@ export default async function HolidaysPage() {
         </Card>
       </div>
 
+      {/* Balance History - how the current user's balance was worked out */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Balance History</CardTitle>
+          <CardDescription>Every change to your holiday balance</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <HolidayLedger userId={session.user.id} />
+        </CardContent>
+      </Card>
+
       {/* Approved & Other Requests */}
       <Card className="mt-6">
         <CardHeader>
           <CardTitle>Request History</CardTitle>
-          <CardDescription>Past and approved holiday requests</CardDescription>
+          <CardDescription>Past and approved holiday, leave and sickness</CardDescription>
         </CardHeader>
         <CardContent>
           {[...approvedRequests, ...otherRequests].length > 0 ? (
@@ -291,20 +417,19 @@ export default async function HolidaysPage() {
                   key={request.id}
                   className="flex items-center justify-between p-4 rounded-lg border"
                 >
-                  <div className="space-y-1">
-                    <div className="flex items-center gap-2">
-                      {isManager && (
-                        <span className="font-medium">{request.user.name}</span>
-                      )}
-                      {getStatusBadge(request.status)}
-                    </div>
-                    <p className="text-sm text-muted-foreground">
-                      {formatDate(request.startDate)} - {formatDate(request.endDate)}
-                    </p>
-                    <p className="text-sm">
-                      <span className="font-medium">{request.hours} hours</span>
-                    </p>
-                  </div>
+                  {renderRequestDetails(request)}
+                  {request.status === "APPROVED" &&
+                    (request.endDate >= today || (isManager && request.type === "SICK")) && (
+                    <HolidayActions
+                      requestId={request.id}
+                      isManager={isManager}
+                      // Sickness is corrected by managers, not withdrawn
+                      isOwner={request.userId === session.user.id && request.type !== "SICK"}
+                      isApproved
+                      label={getAbsenceRules(request.type).label}
+                      usesBalance={getAbsenceRules(request.type).balance !== null}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -0,0 +1,83 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { redirect } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LeaveRulesEditor } from "@/components/leave-rules-editor";
+import { parseLeaveRules } from "@/lib/leave-rules";
+import { DEFAULT_STAFF_ROLES } from "@/lib/staff-roles";
+
+async function getLeaveRulesData(organizationId: string) {
+  const [locations, staffRoles] = await Promise.all([
+    prisma.location.findMany({
+      where: { organizationId, isActive: true },
+      select: { id: true, name: true, leaveRules: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.staffRole.findMany({
+      where: { organizationId, isActive: true },
+      select: { code: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  return {
+    locations: locations.map((l) => ({ id: l.id, name: l.name, rules: parseLeaveRules(l.leaveRules) })),
+    staffRoles: staffRoles.length > 0 ? staffRoles : DEFAULT_STAFF_ROLES,
+  };
+}
+
+export default async function LeaveRulesPage() {
+  const session = await auth();
+  if (!session?.user) return null;
+
+  // Only admins can access
+  if (session.user.role !== "ADMIN") {
+    redirect("/dashboard");
+  }
+
+  const { locations, staffRoles } = await getLeaveRulesData(session.user.organizationId);
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Leave Rules</h1>
+        <p className="text-muted-foreground mt-1">
+          Limit how many people can be off at each location, and when
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {locations.length > 0 ? (
+          <LeaveRulesEditor locations={locations} staffRoles={staffRoles} />
+        ) : (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Add a location before setting leave rules.
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>How Leave Rules Work</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground space-y-3">
+            <p>
+              Staff are checked against the rules of every location they work at. Staff can&apos;t
+              request leave during a blackout. Other clashes are shown on the request, and the
+              approver confirms them before approving.
+            </p>
+            <p>
+              Everyone already on approved leave or off sick counts towards the people off. Minimum
+              staff counts the people with the same staff role as the person asking who aren&apos;t off.
+            </p>
+            <p>
+              Approving a request lists the shifts the person is already scheduled for, so they can
+              be reassigned.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import QRCode from "qrcode";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { assetHistoryInclude, getAssetUrl, withAssetStatus } from "@/lib/assets";
+import { APP_URL } from "@/lib/notifications";
+import { formatDate } from "@/lib/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download } from "lucide-react";
+
+const CATEGORY_LABELS: Record<string, string> = {
+  AUTO_BELAY: "Auto-belay",
+  HARNESS: "Harness",
+  ROPE: "Rope",
+  DRILL: "Drill",
+  LADDER: "Ladder",
+  OTHER: "Other",
+};
+
+const STATUS_BADGES: Record<string, { label: string; variant: "success" | "warning" | "destructive" | "secondary" }> = {
+  RETIRED: { label: "Retired", variant: "secondary" },
+  PAST_LIFESPAN: { label: "Past Lifespan", variant: "destructive" },
+  OVERDUE: { label: "Inspection Overdue", variant: "destructive" },
+  DUE_SOON: { label: "Inspection Due Soon", variant: "warning" },
+  OK: { label: "OK", variant: "success" },
+};
+
+// Scanning an asset's QR label opens this page
+export default async function AssetPage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const session = await auth();
+  if (!session?.user) return null;
+
+  const { code } = await params;
+  const found = await prisma.maintenanceAsset.findFirst({
+    where: { qrCode: code, organizationId: session.user.organizationId },
+    include: assetHistoryInclude,
+  });
+  if (!found) notFound();
+
+  const asset = withAssetStatus(found);
+  const qrCodeImage = await QRCode.toDataURL(getAssetUrl(APP_URL, asset.qrCode), { margin: 1, width: 256 });
+  const status = STATUS_BADGES[asset.status];
+
+  const details = [
+    { label: "Location", value: asset.location.name },
+    { label: "Manufacturer", value: [asset.manufacturer, asset.model].filter(Boolean).join(" ") || null },
+    { label: "Serial number", value: asset.serialNumber },
+    { label: "Purchased", value: asset.purchaseDate && formatDate(asset.purchaseDate) },
+    { label: "Retire by", value: asset.retirementDate && formatDate(asset.retirementDate) },
+    {
+      label: "Inspected every",
+      value: asset.inspectionIntervalDays && `${asset.inspectionIntervalDays} days`,
+    },
+    { label: "Last inspected", value: asset.lastInspectedAt ? formatDate(asset.lastInspectedAt) : "Never" },
+    {
+      label: "Next inspection",
+      value: asset.nextInspectionDue && !asset.retiredAt ? formatDate(asset.nextInspectionDue) : null,
+    },
+  ].filter((detail) => detail.value);
+
+  return (
+    <div className="p-8 space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-4 -ml-2">
+          <Link href="/dashboard/maintenance?tab=assets">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Asset Register
+          </Link>
+        </Button>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold">{asset.name}</h1>
+          <Badge variant={status.variant}>{status.label}</Badge>
+        </div>
+        <p className="text-muted-foreground mt-1">{CATEGORY_LABELS[asset.category] || asset.category}</p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid gap-4 sm:grid-cols-2">
+              {details.map((detail) => (
+                <div key={detail.label}>
+                  <dt className="text-sm text-muted-foreground">{detail.label}</dt>
+                  <dd className="font-medium">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+            {asset.notes && <p className="text-sm mt-4 whitespace-pre-line">{asset.notes}</p>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>QR Label</CardTitle>
+            <CardDescription>Stick this on the asset to open this page</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center gap-3">
+            <img src={qrCodeImage} alt={`QR code for ${asset.name}`} className="h-40 w-40" />
+            <Button variant="outline" size="sm" asChild>
+              <a href={qrCodeImage} download={`${asset.name}.png`}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Inspections</CardTitle>
+          <CardDescription>Checks logged against this asset</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {asset.logs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No checks logged yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Check</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Signed By</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {asset.logs.map((log) => (
+                  <TableRow key={log.id}>
+                    <TableCell>{formatDate(log.checkDate)}</TableCell>
+                    <TableCell>{log.checkType.name}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={log.status === "PASS" ? "success" : log.status === "FAIL" ? "destructive" : "warning"}
+                      >
+                        {log.status === "NEEDS_ATTENTION" ? "Needs Attention" : log.status === "PASS" ? "Pass" : "Fail"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{log.signature}</TableCell>
+                    <TableCell className="text-muted-foreground">{log.notes}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Work Log</CardTitle>
+          <CardDescription>Repairs, replacements and inspections recorded against this asset</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {asset.workLogs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No work logged yet</p>
+          ) : (
+            <div className="space-y-2">
+              {asset.workLogs.map((log) => (
+                <div key={log.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{log.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(log.completedAt)} · {log.completedBy}
+                    </p>
+                  </div>
+                  <Badge variant="outline">
+                    {log.category.charAt(0) + log.category.slice(1).toLowerCase()}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
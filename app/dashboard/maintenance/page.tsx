@@ -11,13 +11,18 @@ interface ExtendedUser {
   organizationName: string;
 }
 
-export default async function MaintenancePage() {
+export default async function MaintenancePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ tab?: string }>;
+}) {
   const session = await auth();
   if (!session?.user) return null;
 
   const user = session.user as ExtendedUser;
   const isAdmin = user.role === "ADMIN";
   const isManager = user.role === "MANAGER" || isAdmin;
+  const { tab } = await searchParams;
 
   return (
     <div className="p-8">
@@ -31,10 +36,12 @@ export default async function MaintenancePage() {
       </div>
 
       <MaintenancePageContent
+        userId={user.id}
         userName={user.name || "User"}
         userRole={user.role}
         isAdmin={isAdmin}
         isManager={isManager}
+        initialTab={tab}
       />
     </div>
   );
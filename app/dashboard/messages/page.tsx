@@ -0,0 +1,41 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { MessagesPageContent } from "@/components/messages-page-content";
+
+export default async function MessagesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ c?: string }>;
+}) {
+  const session = await auth();
+  if (!session?.user) return null;
+
+  const { c } = await searchParams;
+
+  // Colleagues the user can start a direct message with
+  const teamMembers = await prisma.user.findMany({
+    where: {
+      organizationId: session.user.organizationId,
+      id: { not: session.user.id },
+    },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Messages</h1>
+        <p className="text-muted-foreground mt-1">
+          Direct messages, shift threads and location broadcasts
+        </p>
+      </div>
+
+      <MessagesPageContent
+        currentUserId={session.user.id}
+        teamMembers={teamMembers}
+        initialConversation={c || null}
+      />
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ async function getOpenShifts(organizationId: string, locationId?: string | null)
     where: {
       organizationId,
       isOpen: true,
+      status: { not: "DRAFT" },
       startTime: { gte: today },
       ...(locationId ? { locationId } : {}),
     },
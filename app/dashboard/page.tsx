@@ -7,6 +7,8 @@ import { formatDate, formatTime } from "@/lib/utils";
 import { Calendar, Clock, ArrowLeftRight, Palmtree, Users, FileText, CheckCircle, AlertCircle, DollarSign, Hand } from "lucide-react";
 import Link from "next/link";
 import { ClockInButton } from "@/components/clock-in-button";
+import { AnnouncementsBoard } from "@/components/announcements-board";
+import { getActiveAnnouncementsForUser } from "@/lib/announcements";
 
 async function getDashboardData(userId: string, organizationId: string, role: string) {
   const today = new Date();
@@ -39,11 +41,13 @@ async function getDashboardData(userId: string, organizationId: string, role: st
     periodShifts,
     userCategoryRates,
     openShiftsCount,
+    announcements,
   ] = await Promise.all([
     // Today's shift for the user
     prisma.shift.findFirst({
       where: {
         assignedToId: userId,
+        status: { not: "DRAFT" },
         startTime: { gte: today },
         endTime: { lt: tomorrow },
       },
@@ -53,6 +57,7 @@ async function getDashboardData(userId: string, organizationId: string, role: st
     prisma.shift.findMany({
       where: {
         assignedToId: userId,
+        status: { not: "DRAFT" },
         startTime: { gte: tomorrow, lt: weekEnd },
       },
       orderBy: { startTime: "asc" },
@@ -76,6 +81,9 @@ async function getDashboardData(userId: string, organizationId: string, role: st
         userId,
         clockOut: null,
       },
+      include: {
+        breaks: { orderBy: { startTime: "asc" } },
+      },
     }),
     // Team member count
     prisma.user.count({
@@ -90,6 +98,7 @@ async function getDashboardData(userId: string, organizationId: string, role: st
     prisma.shift.findMany({
       where: {
         assignedToId: userId,
+        status: { not: "DRAFT" },
         startTime: { gte: periodStart },
         endTime: { lte: new Date(periodEnd.getTime() + 24 * 60 * 60 * 1000) },
       },
@@ -107,9 +116,12 @@ async function getDashboardData(userId: string, organizationId: string, role: st
       where: {
         organizationId,
         isOpen: true,
+        status: { not: "DRAFT" },
         startTime: { gte: today },
       },
     }),
+    // Pinned announcements
+    getActiveAnnouncementsForUser(userId, organizationId),
   ]);
 
   // Calculate earnings estimate
@@ -143,6 +155,7 @@ async function getDashboardData(userId: string, organizationId: string, role: st
     totalHours,
     periodName: currentPayPeriod?.name || "This Week",
     openShiftsCount,
+    announcements,
   };
 }
 
@@ -186,6 +199,8 @@ export default async function DashboardPage() {
         </p>
       </div>
 
+      <AnnouncementsBoard announcements={data.announcements} />
+
       {/* Quick Stats */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 mb-8">
         <Card>
@@ -0,0 +1,28 @@
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { PayrollRunsManager } from "@/components/payroll-runs-manager";
+
+export default async function PayrollPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect("/login");
+  }
+
+  if (session.user.role !== "ADMIN") {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Payroll</h1>
+        <p className="text-muted-foreground mt-1">
+          Generate, review and sign off payroll for each pay period
+        </p>
+      </div>
+
+      <PayrollRunsManager />
+    </div>
+  );
+}
@@ -3,7 +3,9 @@ import { prisma } from "@/lib/db";
 import { redirect } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { DollarSign, Clock, Users, MapPin, TrendingUp, Calendar } from "lucide-react";
+import { DollarSign, Clock, Users, MapPin, TrendingUp, Calendar, PiggyBank } from "lucide-react";
+import { calculateStaffCost, getTaxYearRules } from "@/lib/uk-payroll";
+import { getPayrollProfiles } from "@/lib/payroll-profiles";
 
 interface LaborCostData {
   totalCost: number;
@@ -27,6 +29,17 @@ interface LaborCostData {
     cost: number;
     hours: number;
   }[];
+  employment: {
+    taxYear: string;
+    holidayAccrual: number;
+    employerNI: number;
+    employerPension: number;
+    totalCost: number;
+    incomeTax: number;
+    employeeNI: number;
+    employeePension: number;
+    studentLoan: number;
+  };
 }
 
 async function getLaborCostData(
@@ -45,7 +58,7 @@ async function getLaborCostData(
     include: {
       category: { select: { id: true, name: true, hourlyRate: true, color: true } },
       location: { select: { id: true, name: true } },
-      assignedTo: { select: { id: true } },
+      assignedTo: { select: { id: true, paymentType: true } },
     },
   });
 
@@ -69,6 +82,7 @@ async function getLaborCostData(
   const locationMap = new Map<string, { name: string; cost: number; hours: number }>();
   const categoryMap = new Map<string, { name: string; color: string; cost: number; hours: number }>();
   const dayMap = new Map<string, { dayName: string; cost: number; hours: number }>();
+  const staffMap = new Map<string, { paymentType: string; cost: number }>();
 
   shifts.forEach((shift) => {
     const start = new Date(shift.startTime);
@@ -87,6 +101,16 @@ async function getLaborCostData(
     totalCost += cost;
     totalHours += paidHours;
 
+    // By staff member, for NI and pension thresholds
+    if (shift.assignedTo) {
+      const member = staffMap.get(shift.assignedTo.id) || {
+        paymentType: shift.assignedTo.paymentType,
+        cost: 0,
+      };
+      member.cost += cost;
+      staffMap.set(shift.assignedTo.id, member);
+    }
+
     // By location
     if (shift.location) {
       const loc = locationMap.get(shift.location.id) || {
@@ -121,7 +145,39 @@ async function getLaborCostData(
     dayMap.set(dateKey, day);
   });
 
+  // Employer on-costs and indicative deductions per person, with thresholds
+  // scaled to the length of the period
+  const taxYear = getTaxYearRules(endDate);
+  const profiles = await getPayrollProfiles(organizationId, endDate);
+  const days = Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const employment = {
+    taxYear: taxYear.label,
+    holidayAccrual: 0,
+    employerNI: 0,
+    employerPension: 0,
+    totalCost: 0,
+    incomeTax: 0,
+    employeeNI: 0,
+    employeePension: 0,
+    studentLoan: 0,
+  };
+  staffMap.forEach((member, userId) => {
+    const costs = calculateStaffCost(member.cost, member.paymentType, taxYear, {
+      months: (days * 12) / 365,
+      profile: profiles.get(userId),
+    });
+    employment.holidayAccrual += costs.holidayAccrual;
+    employment.employerNI += costs.employerNI;
+    employment.employerPension += costs.employerPension;
+    employment.totalCost += costs.totalCost;
+    employment.incomeTax += costs.incomeTax;
+    employment.employeeNI += costs.employeeNI;
+    employment.employeePension += costs.employeePension;
+    employment.studentLoan += costs.studentLoan;
+  });
+
   return {
+    employment,
     totalCost,
     totalHours,
     byLocation: Array.from(locationMap.entries())
@@ -178,7 +234,7 @@ export default async function LaborCostsPage({
     endDate
   );
 
-  const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+  const formatCurrency = (amount: number) => `£${amount.toFixed(2)}`;
   const formatHours = (hours: number) => `${hours.toFixed(1)}h`;
 
   const dateRangeStr = `${startDate.toLocaleDateString("en-GB", {
@@ -276,7 +332,7 @@ export default async function LaborCostsPage({
             <div className="text-3xl font-bold">
               {data.totalHours > 0
                 ? formatCurrency(data.totalCost / data.totalHours)
-                : "$0.00"}
+                : "£0.00"}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               Average hourly rate
@@ -285,6 +341,74 @@ export default async function LaborCostsPage({
         </Card>
       </div>
 
+      {/* Employment Costs */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PiggyBank className="h-5 w-5" />
+            Employment Costs
+          </CardTitle>
+          <CardDescription>
+            On-costs at {data.employment.taxYear} rates, and indicative employee deductions from
+            starter form tax codes
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-muted-foreground">
+            <div>
+              <span className="block text-lg font-semibold text-foreground">
+                {formatCurrency(data.employment.holidayAccrual)}
+              </span>
+              Holiday accrual
+            </div>
+            <div>
+              <span className="block text-lg font-semibold text-foreground">
+                {formatCurrency(data.employment.employerNI)}
+              </span>
+              Employer NI
+            </div>
+            <div>
+              <span className="block text-lg font-semibold text-foreground">
+                {formatCurrency(data.employment.employerPension)}
+              </span>
+              Employer pension
+            </div>
+            <div>
+              <span className="block text-lg font-semibold text-green-600">
+                {formatCurrency(data.employment.totalCost)}
+              </span>
+              Total employer cost
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-muted-foreground border-t pt-4">
+            <div>
+              <span className="block font-medium text-foreground">
+                {formatCurrency(data.employment.incomeTax)}
+              </span>
+              Est. PAYE
+            </div>
+            <div>
+              <span className="block font-medium text-foreground">
+                {formatCurrency(data.employment.employeeNI)}
+              </span>
+              Employee NI
+            </div>
+            <div>
+              <span className="block font-medium text-foreground">
+                {formatCurrency(data.employment.employeePension)}
+              </span>
+              Employee pension
+            </div>
+            <div>
+              <span className="block font-medium text-foreground">
+                {formatCurrency(data.employment.studentLoan)}
+              </span>
+              Student loans
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="grid gap-6 lg:grid-cols-2">
         {/* By Location */}
         <Card>
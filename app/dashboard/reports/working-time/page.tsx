@@ -0,0 +1,192 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { addDaysToDateString } from "@/lib/utils";
+import { getWeekStart } from "@/lib/absence-types";
+import { getTimesheetWeekRange, getTimesheetWeekStart, getWorkingTimeIssues } from "@/lib/timesheets";
+import type { WorkingTimeIssueType } from "@/lib/working-time";
+import { Scale } from "lucide-react";
+
+const ISSUE_LABELS: Record<WorkingTimeIssueType, string> = {
+  REST_BREAK: "Rest break",
+  BREAK_RULE: "Break rule",
+  DAILY_REST: "Daily rest",
+  DAILY_HOURS: "Daily hours",
+  WEEKLY_HOURS: "Weekly hours",
+};
+
+async function getWorkingTimeReport(organizationId: string, weekStart: string, timeZone: string) {
+  const { start, end } = getTimesheetWeekRange(weekStart, timeZone);
+
+  // Everyone who worked that week
+  const users = await prisma.user.findMany({
+    where: {
+      organizationId,
+      timeEntries: { some: { clockIn: { gte: start, lt: end }, clockOut: { not: null } } },
+    },
+    select: { id: true, name: true },
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+  });
+
+  const checks = await getWorkingTimeIssues(organizationId, users.map((u) => u.id), weekStart);
+
+  return users.map((user) => ({
+    ...user,
+    ...(checks.get(user.id) ?? { youngWorker: false, issues: [] }),
+  }));
+}
+
+interface WorkingTimeReportPageProps {
+  searchParams: Promise<{ week?: string }>;
+}
+
+export default async function WorkingTimeReportPage({ searchParams }: WorkingTimeReportPageProps) {
+  const session = await auth();
+  if (!session?.user) return null;
+
+  if (session.user.role !== "MANAGER" && session.user.role !== "ADMIN") {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const organization = await prisma.organization.findUnique({
+    where: { id: session.user.organizationId },
+    select: { timezone: true },
+  });
+  const timeZone = organization?.timezone || "UTC";
+
+  const weekStart =
+    params.week && /^\d{4}-\d{2}-\d{2}$/.test(params.week)
+      ? getWeekStart(params.week)
+      : addDaysToDateString(getTimesheetWeekStart(new Date(), timeZone), -7);
+
+  const report = await getWorkingTimeReport(session.user.organizationId, weekStart, timeZone);
+  const withIssues = report.filter((r) => r.issues.length > 0);
+  const issueCounts = report
+    .flatMap((r) => r.issues)
+    .reduce<Partial<Record<WorkingTimeIssueType, number>>>((counts, issue) => {
+      counts[issue.type] = (counts[issue.type] ?? 0) + 1;
+      return counts;
+    }, {});
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <Scale className="h-8 w-8" />
+            Working Time Report
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Breaks, rest and hours worked in the week of {weekStart}, against the Working Time
+            Regulations and your break rules
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link href={`/dashboard/reports/working-time?week=${addDaysToDateString(weekStart, -7)}`}>
+            <Button variant="outline" size="sm">Previous week</Button>
+          </Link>
+          <Link href={`/dashboard/reports/working-time?week=${addDaysToDateString(weekStart, 7)}`}>
+            <Button variant="outline" size="sm">Next week</Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 mb-8">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Staff Worked</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{report.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Staff With Issues</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{withIssues.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Issues</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {Object.entries(issueCounts).length > 0 ? (
+              Object.entries(issueCounts).map(([type, count]) => (
+                <Badge key={type} variant="warning">
+                  {ISSUE_LABELS[type as WorkingTimeIssueType]}: {count}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-2xl font-bold">0</span>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {withIssues.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No working time issues this week.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {withIssues.map((row) => (
+            <Card key={row.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center gap-3">
+                  <CardTitle className="text-lg">{row.name}</CardTitle>
+                  {row.youngWorker && <Badge variant="outline">Under 18</Badge>}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {row.issues.map((issue, i) => (
+                      <tr key={i} className="border-b last:border-b-0">
+                        <td className="py-2 pr-4 whitespace-nowrap">{issue.date}</td>
+                        <td className="py-2 pr-4">
+                          <Badge variant="warning">{ISSUE_LABELS[issue.type]}</Badge>
+                        </td>
+                        <td className="py-2">{issue.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card className="mt-8">
+        <CardHeader>
+          <CardTitle>What Is Checked</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground space-y-3">
+          <p>
+            Adults need a 20 minute break when working more than 6 hours, 11 hours rest between
+            working days, and can work no more than 48 hours a week averaged over 17 weeks.
+          </p>
+          <p>
+            Staff under 18, going by the date of birth on their starter form, need a 30 minute break
+            after 4.5 hours and 12 hours rest, and can work no more than 8 hours a day or 40 hours
+            a week.
+          </p>
+          <p>
+            Breaks are also checked against the break rules for the location of the shift, or the
+            organization&apos;s if the location has none.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { RouteSettingPageContent } from "@/components/route-setting-page-content";
+
+export default async function RouteSettingPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ tab?: string; locationId?: string }>;
+}) {
+  const session = await auth();
+  if (!session?.user) return null;
+
+  const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+  const { tab, locationId } = await searchParams;
+
+  const locations = await prisma.location.findMany({
+    where: { organizationId: session.user.organizationId, isActive: true },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Route Setting</h1>
+        <p className="text-muted-foreground mt-1">
+          Walls, the routes set on them and when each sector is due a reset
+        </p>
+      </div>
+
+      <RouteSettingPageContent
+        locations={locations}
+        isManager={isManager}
+        initialTab={tab}
+        initialLocationId={locations.some((loc) => loc.id === locationId) ? locationId : undefined}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { SchedulePageContent } from "@/components/schedule-page-content";
+import { isYoungWorker } from "@/lib/working-time";
 
 async function getScheduleData(organizationId: string, userId: string, role: string, locationId?: string | null) {
   // Calculate date range: current week with some buffer for navigation
@@ -104,6 +105,8 @@ async function getScheduleData(organizationId: string, userId: string, role: str
         organizationId,
         startTime: { gte: startOfWeek, lt: endOfWeek },
         ...locationFilter,
+        // Staff only see published shifts
+        ...(role === "EMPLOYEE" ? { status: { not: "DRAFT" } } : {}),
       },
       include: {
         assignedTo: {
@@ -125,12 +128,21 @@ async function getScheduleData(organizationId: string, userId: string, role: str
           locationAccess: { some: { locationId: filterLocationId } },
         } : {}),
       },
-      select: { id: true, name: true, email: true, role: true, staffRole: true, contractedHours: true, sortOrder: true },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        staffRole: true,
+        contractedHours: true,
+        sortOrder: true,
+        starterForm: { select: { dateOfBirth: true } },
+      },
       orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
     }),
     prisma.organization.findUnique({
       where: { id: organizationId },
-      select: { breakRules: true, breakCalculationMode: true },
+      select: { breakRules: true, breakCalculationMode: true, timezone: true },
     }),
     prisma.staffAvailability.findMany({
       where: {
@@ -151,7 +163,7 @@ async function getScheduleData(organizationId: string, userId: string, role: str
       select: { id: true, name: true, hourlyRate: true, color: true },
       orderBy: { name: "asc" },
     }),
-    // Fetch approved holidays that overlap with the current period
+    // Fetch approved absences that overlap with the current period
     prisma.holidayRequest.findMany({
       where: {
         user: { organizationId },
@@ -165,6 +177,7 @@ async function getScheduleData(organizationId: string, userId: string, role: str
       select: {
         id: true,
         userId: true,
+        type: true,
         startDate: true,
         endDate: true,
         hours: true,
@@ -190,16 +203,39 @@ async function getScheduleData(organizationId: string, userId: string, role: str
         createdBy: {
           select: { id: true, name: true },
         },
+        sector: {
+          select: { id: true, name: true },
+        },
       },
       orderBy: { startTime: "asc" },
     }),
   ]);
 
+  // Rest and weekly hours count shifts worked anywhere, so managers also get
+  // the rota'd staff's shifts at locations the rota isn't showing
+  const shiftsElsewhere = isAdmin || isManager
+    ? await prisma.shift.findMany({
+        where: {
+          organizationId,
+          startTime: { gte: startOfWeek, lt: endOfWeek },
+          assignedToId: { in: users.map((u) => u.id) },
+          id: { notIn: shifts.map((s) => s.id) },
+        },
+        select: { id: true, assignedToId: true, startTime: true, endTime: true, scheduledBreakMinutes: true },
+      })
+    : [];
+
   return {
     shifts,
-    users,
+    shiftsElsewhere,
+    // Only whether someone is under 18 is needed for the working time warnings
+    users: users.map(({ starterForm, ...user }) => ({
+      ...user,
+      youngWorker: isYoungWorker(starterForm?.dateOfBirth, today),
+    })),
     breakRules: organization?.breakRules || "",
     breakCalculationMode: organization?.breakCalculationMode || "PER_SHIFT",
+    timeZone: organization?.timezone || "UTC",
     allOrgLocations, // All locations for admins/managers
     userLocations, // User's assigned locations for staff dropdown
     currentLocationId: filterLocationId,
@@ -236,9 +272,11 @@ export default async function SchedulePage({ searchParams }: SchedulePageProps)
 
   const {
     shifts,
+    shiftsElsewhere,
     users,
     breakRules,
     breakCalculationMode,
+    timeZone,
     allOrgLocations,
     userLocations,
     currentLocationId,
@@ -269,6 +307,7 @@ export default async function SchedulePage({ searchParams }: SchedulePageProps)
   return (
     <SchedulePageContent
       initialShifts={shifts}
+      shiftsElsewhere={shiftsElsewhere}
       users={users}
       currentUserId={session.user.id}
       isManager={isManager}
@@ -286,6 +325,7 @@ export default async function SchedulePage({ searchParams }: SchedulePageProps)
       events={events}
       breakRules={breakRules}
       breakCalculationMode={breakCalculationMode}
+      timeZone={timeZone}
     />
   );
 }
@@ -3,6 +3,7 @@ import { prisma } from "@/lib/db";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { formatDate } from "@/lib/utils";
+import { getHoldColorHex, settingSignoffRouteSelect } from "@/lib/route-setting";
 import { SettingSignoffForm } from "@/components/setting-signoff-form";
 import { SettingSignoffFilters } from "@/components/setting-signoff-filters";
 import { SettingSignoffDetail } from "@/components/setting-signoff-detail";
@@ -21,6 +22,13 @@ interface SettingSignoff {
   createdAt: Date;
   signedOffBy: { id: string; name: string; email: string };
   location: { id: string; name: string };
+  routes: {
+    id: string;
+    name: string | null;
+    grade: string;
+    color: string;
+    sector: { id: string; name: string };
+  }[];
 }
 
 async function getSettingSignoffData(
@@ -64,6 +72,10 @@ async function getSettingSignoffData(
         location: {
           select: { id: true, name: true },
         },
+        routes: {
+          select: settingSignoffRouteSelect,
+          orderBy: { createdAt: "asc" },
+        },
       },
       orderBy: { settingDate: "desc" },
     }),
@@ -233,6 +245,23 @@ export default async function SettingSignoffsPage({
                           )}
                         </div>
 
+                        {signoff.routes.length > 0 && (
+                          <div className="flex flex-wrap items-center gap-1.5 text-sm">
+                            <span className="text-muted-foreground">
+                              {signoff.routes.length} route{signoff.routes.length !== 1 && "s"}:
+                            </span>
+                            {signoff.routes.map((route) => (
+                              <Badge key={route.id} variant="outline" className="gap-1.5">
+                                <span
+                                  className="h-2.5 w-2.5 rounded-full border"
+                                  style={{ backgroundColor: getHoldColorHex(route.color) }}
+                                />
+                                {route.grade} · {route.sector.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+
                         {signoff.notes && (
                           <p className="text-sm text-muted-foreground italic">
                             Notes: {signoff.notes}
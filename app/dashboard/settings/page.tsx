@@ -7,14 +7,20 @@ import { OrganizationForm } from "@/components/organization-form";
 import { ShiftCategoriesManager } from "@/components/shift-categories-manager";
 import { BreakRulesForm } from "@/components/break-rules-form";
 import { ClockSettingsForm } from "@/components/clock-settings-form";
+import { LeaveYearSettingsForm } from "@/components/leave-year-settings-form";
 import { LocationSettingsForm } from "@/components/location-settings-form";
 import { LocationsManager } from "@/components/locations-manager";
 import { StaffRolesManager } from "@/components/staff-roles-manager";
 import { AvailabilityForm } from "@/components/availability-form";
 import { PayPeriodsManager } from "@/components/pay-periods-manager";
+import { CalendarFeedsManager } from "@/components/calendar-feeds-manager";
+import { KioskDevicesManager } from "@/components/kiosk-devices-manager";
+import { KioskPinForm } from "@/components/kiosk-pin-form";
+import { JobHistory } from "@/components/job-history";
+import { NotificationPreferencesForm } from "@/components/notification-preferences-form";
 
-async function getSettingsData(userId: string, organizationId: string) {
-  const [user, organization] = await Promise.all([
+async function getSettingsData(userId: string, organizationId: string, role: string) {
+  const [user, organization, locations, kioskPinCount] = await Promise.all([
     prisma.user.findUnique({
       where: { id: userId },
       select: {
@@ -39,20 +45,40 @@ async function getSettingsData(userId: string, organizationId: string) {
         locationLongitude: true,
         clockInRadiusMetres: true,
         requireGeolocation: true,
+        leaveYearStartMonth: true,
+        leaveYearStartDay: true,
+        holidayCarryOverHours: true,
+        bankHolidayMode: true,
+        bankHolidayRegion: true,
       },
     }),
+    // Locations the user can subscribe to a calendar for
+    prisma.location.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        ...(role === "ADMIN" ? {} : { staff: { some: { userId } } }),
+      },
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+    // Only whether a PIN is set; the hash never leaves the server
+    prisma.user.count({
+      where: { id: userId, kioskPinHash: { not: null } },
+    }),
   ]);
 
-  return { user, organization };
+  return { user, organization, locations, hasKioskPin: kioskPinCount > 0 };
 }
 
 export default async function SettingsPage() {
   const session = await auth();
   if (!session?.user) return null;
 
-  const { user, organization } = await getSettingsData(
+  const { user, organization, locations, hasKioskPin } = await getSettingsData(
     session.user.id,
-    session.user.organizationId
+    session.user.organizationId,
+    session.user.role
   );
 
   if (!user || !organization) return null;
@@ -91,6 +117,17 @@ export default async function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Kiosk PIN (All users) */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Kiosk PIN</CardTitle>
+            <CardDescription>Your PIN for clocking in on a shared front desk tablet</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <KioskPinForm hasPin={hasKioskPin} />
+          </CardContent>
+        </Card>
+
         {/* Organization Settings (Admin only) */}
         {isAdmin && (
           <Card>
@@ -170,6 +207,42 @@ export default async function SettingsPage() {
           </Card>
         )}
 
+        {/* Front Desk Kiosks (Admin only) */}
+        {isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Front Desk Kiosks</CardTitle>
+              <CardDescription>
+                Shared tablets staff clock in and out on with a PIN
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <KioskDevicesManager locations={locations} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Holiday Entitlement (Admin only) */}
+        {isAdmin && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Holiday Entitlement</CardTitle>
+              <CardDescription>
+                Configure the leave year, carry-over and bank holidays
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeaveYearSettingsForm
+                leaveYearStartMonth={organization.leaveYearStartMonth}
+                leaveYearStartDay={organization.leaveYearStartDay}
+                holidayCarryOverHours={organization.holidayCarryOverHours}
+                bankHolidayMode={organization.bankHolidayMode}
+                bankHolidayRegion={organization.bankHolidayRegion}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Location Settings (Admin only) */}
         {isAdmin && (
           <Card>
@@ -208,6 +281,9 @@ export default async function SettingsPage() {
         {/* Pay Periods (Admin only) */}
         {isAdmin && <PayPeriodsManager />}
 
+        {/* Background Jobs (Admin only) */}
+        {isAdmin && <JobHistory />}
+
         {/* Staff Availability (All users) */}
         <Card>
           <CardHeader>
@@ -220,6 +296,32 @@ export default async function SettingsPage() {
             <AvailabilityForm />
           </CardContent>
         </Card>
+
+        {/* Notification Preferences (All users) */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Notifications</CardTitle>
+            <CardDescription>
+              Choose how you hear about each kind of update
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NotificationPreferencesForm />
+          </CardContent>
+        </Card>
+
+        {/* Calendar Sync (All users) */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Calendar Sync</CardTitle>
+            <CardDescription>
+              Add your shifts to your phone or computer calendar
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CalendarFeedsManager locations={locations} />
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
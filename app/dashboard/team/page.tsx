@@ -14,11 +14,19 @@ import { EditUserDialog } from "@/components/edit-user-dialog";
 import { HolidayAllowanceDialog } from "@/components/holiday-allowance-dialog";
 import { ResetPasswordDialog } from "@/components/reset-password-dialog";
 import { SendCredentialsDialog } from "@/components/send-credentials-dialog";
+import { NotificationLogDialog } from "@/components/notification-log-dialog";
 import { StarterFormStatusBadge } from "@/components/starter-form-status-badge";
 import { ViewStarterFormDialog } from "@/components/view-starter-form-dialog";
 import { LocationScheduleFilter } from "@/components/location-schedule-filter";
 import { UserPlus, Palmtree, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getCurrentLeaveYear, getLeaveSettings } from "@/lib/holiday-entitlement";
+import {
+  BRADFORD_WINDOW_WEEKS,
+  calculateBradfordFactor,
+  getBradfordBand,
+  type AbsenceSpan,
+} from "@/lib/absence-types";
 
 async function getTeamData(organizationId: string, locationId?: string | null) {
   // Build location filter for users
@@ -26,7 +34,11 @@ async function getTeamData(organizationId: string, locationId?: string | null) {
     ? { locationAccess: { some: { locationId } } }
     : {};
 
-  const [users, locations, holidayRequests] = await Promise.all([
+  const leaveYear = getCurrentLeaveYear(await getLeaveSettings(organizationId));
+
+  const sicknessFrom = new Date(Date.now() - BRADFORD_WINDOW_WEEKS * 7 * 24 * 60 * 60 * 1000);
+
+  const [users, locations, holidayRequests, sickness] = await Promise.all([
     prisma.user.findMany({
       where: { organizationId, ...locationFilter },
       select: {
@@ -69,20 +81,31 @@ async function getTeamData(organizationId: string, locationId?: string | null) {
       select: { id: true, name: true },
       orderBy: { name: "asc" },
     }),
-    // Get approved holiday hours per user for the current year
+    // Get approved holiday hours per user for the current leave year
     prisma.holidayRequest.groupBy({
       by: ["userId"],
       where: {
         user: { organizationId },
+        type: "HOLIDAY",
         status: "APPROVED",
         startDate: {
-          gte: new Date(new Date().getFullYear(), 0, 1),
+          gte: new Date(`${leaveYear.start}T00:00:00Z`),
         },
       },
       _sum: {
         hours: true,
       },
     }),
+    // Sickness over the Bradford Factor window
+    prisma.holidayRequest.findMany({
+      where: {
+        user: { organizationId },
+        type: "SICK",
+        status: "APPROVED",
+        endDate: { gte: sicknessFrom },
+      },
+      select: { userId: true, startDate: true, endDate: true },
+    }),
   ]);
 
   // Create a map of used hours per user
@@ -91,7 +114,12 @@ async function getTeamData(organizationId: string, locationId?: string | null) {
     usedHoursMap.set(req.userId, req._sum.hours || 0);
   });
 
-  return { users, locations, usedHoursMap };
+  const sicknessMap = new Map<string, AbsenceSpan[]>();
+  sickness.forEach((absence) => {
+    sicknessMap.set(absence.userId, [...(sicknessMap.get(absence.userId) || []), absence]);
+  });
+
+  return { users, locations, usedHoursMap, sicknessMap };
 }
 
 function getHolidayStatus(balance: number, usedHours: number) {
@@ -127,7 +155,7 @@ export default async function TeamPage({ searchParams }: TeamPageProps) {
 
   const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
   const isAdmin = session.user.role === "ADMIN";
-  const { users, locations, usedHoursMap } = await getTeamData(session.user.organizationId, locationId);
+  const { users, locations, usedHoursMap, sicknessMap } = await getTeamData(session.user.organizationId, locationId);
 
   const showLocationFilter = locations.length > 0;
   const showAllOption = isAdmin || isManager;
@@ -171,7 +199,7 @@ export default async function TeamPage({ searchParams }: TeamPageProps) {
   const employees = users.filter((u) => u.role === "EMPLOYEE");
 
   // Holiday summary stats for managers
-  const totalHolidayRemaining = users.reduce((sum, u) => sum + u.holidayBalance, 0);
+  const totalHolidayRemaining = Math.round(users.reduce((sum, u) => sum + u.holidayBalance, 0) * 100) / 100;
   const usersWithLowHoliday = users.filter((u) => {
     const usedHours = usedHoursMap.get(u.id) || 0;
     const status = getHolidayStatus(u.holidayBalance, usedHours);
@@ -309,6 +337,8 @@ export default async function TeamPage({ searchParams }: TeamPageProps) {
             {users.map((user) => {
               const usedHours = usedHoursMap.get(user.id) || 0;
               const holidayStatus = getHolidayStatus(user.holidayBalance, usedHours);
+              const bradford = calculateBradfordFactor(sicknessMap.get(user.id) || []);
+              const bradfordBand = getBradfordBand(bradford.score);
 
               return (
                 <div
@@ -378,15 +408,38 @@ export default async function TeamPage({ searchParams }: TeamPageProps) {
                       </p>
                       {isManager && usedHours > 0 && (
                         <p className="text-xs text-muted-foreground">
-                          {usedHours}h used this year
+                          {usedHours}h used this leave year
                         </p>
                       )}
                     </div>
+                    {/* Bradford Factor: sickness spells squared times days, last 52 weeks */}
+                    {isManager && (
+                      <div
+                        className="text-right"
+                        title={`${bradford.spells} ${bradford.spells === 1 ? "spell" : "spells"}, ${bradford.days} ${bradford.days === 1 ? "day" : "days"} of sickness in the last ${BRADFORD_WINDOW_WEEKS} weeks`}
+                      >
+                        <Badge
+                          variant={
+                            bradfordBand?.level === "ACTION"
+                              ? "destructive"
+                              : bradfordBand?.level === "REVIEW"
+                                ? "warning"
+                                : bradfordBand
+                                  ? "secondary"
+                                  : "outline"
+                          }
+                        >
+                          {bradford.score}
+                        </Badge>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          Bradford{bradfordBand ? ` (${bradfordBand.label})` : ""}
+                        </p>
+                      </div>
+                    )}
                     {isManager && (
                       <HolidayAllowanceDialog
                         userId={user.id}
                         userName={user.name}
-                        currentBalance={user.holidayBalance}
                       />
                     )}
                     {isAdmin && (
@@ -442,6 +495,12 @@ export default async function TeamPage({ searchParams }: TeamPageProps) {
                         userEmail={user.email}
                       />
                     )}
+                    {isManager && (
+                      <NotificationLogDialog
+                        userId={user.id}
+                        userName={user.name}
+                      />
+                    )}
                     {isManager && user.id !== session.user.id && (
                       <TeamMemberActions
                         userId={user.id}
@@ -1,13 +1,16 @@
+import Link from "next/link";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { formatDate, formatTime, calculateHours } from "@/lib/utils";
 import { TimesheetActions } from "@/components/timesheet-actions";
 import { ExportTimesheetDialog } from "@/components/export-timesheet-dialog";
 import { LocationScheduleFilter } from "@/components/location-schedule-filter";
 import { AddManualTimeEntryDialog } from "@/components/add-manual-time-entry-dialog";
-import { Calendar, Banknote } from "lucide-react";
+import { summarizeBreaks } from "@/lib/timesheets";
+import { Calendar, Banknote, CalendarCheck } from "lucide-react";
 
 interface PayPeriod {
   id: string;
@@ -41,6 +44,9 @@ async function getTimeEntries(userId: string, organizationId: string, role: stri
       shift: {
         select: { id: true, title: true, startTime: true, locationId: true },
       },
+      breaks: {
+        select: { type: true, startTime: true, endTime: true },
+      },
     },
     orderBy: { clockIn: "desc" },
     take: 50,
@@ -215,6 +221,12 @@ export default async function TimesheetPage({ searchParams }: TimesheetPageProps
               showAllOption={showAllOption}
             />
           )}
+          <Link href="/dashboard/timesheet/weekly">
+            <Button variant="outline">
+              <CalendarCheck className="mr-2 h-4 w-4" />
+              Weekly Review
+            </Button>
+          </Link>
           {isManager && <AddManualTimeEntryDialog users={users} breakRules={breakRules} />}
           {isManager && <ExportTimesheetDialog />}
         </div>
@@ -325,6 +337,15 @@ export default async function TimesheetPage({ searchParams }: TimesheetPageProps
                       <Badge variant="secondary">On Break</Badge>
                     )}
                   </div>
+                  {isManager && entry.clockInPhotoUrl && (
+                    <a href={entry.clockInPhotoUrl} target="_blank" rel="noreferrer" title="Kiosk photo">
+                      <img
+                        src={entry.clockInPhotoUrl}
+                        alt={`${entry.user.name} clocking in`}
+                        className="h-16 w-16 rounded-md object-cover border"
+                      />
+                    </a>
+                  )}
                 </div>
               ))}
             </div>
@@ -364,6 +385,15 @@ export default async function TimesheetPage({ searchParams }: TimesheetPageProps
                       </p>
                     )}
                   </div>
+                  {entry.clockInPhotoUrl && (
+                    <a href={entry.clockInPhotoUrl} target="_blank" rel="noreferrer" title="Kiosk photo">
+                      <img
+                        src={entry.clockInPhotoUrl}
+                        alt={`${entry.user.name} clocking in`}
+                        className="h-16 w-16 rounded-md object-cover border"
+                      />
+                    </a>
+                  )}
                   <TimesheetActions entry={entry} showApprovalActions={true} />
                 </div>
               ))}
@@ -408,7 +438,13 @@ export default async function TimesheetPage({ searchParams }: TimesheetPageProps
                       {entry.totalBreak > 0 && (
                         <span className="text-muted-foreground">
                           {" "}
-                          ({entry.totalBreak} min break)
+                          ({entry.totalBreak} min unpaid break)
+                        </span>
+                      )}
+                      {summarizeBreaks(entry.breaks).paidMinutes > 0 && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          ({summarizeBreaks(entry.breaks).paidMinutes} min paid break)
                         </span>
                       )}
                     </p>
@@ -0,0 +1,183 @@
+import Link from "next/link";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { Button } from "@/components/ui/button";
+import { LocationScheduleFilter } from "@/components/location-schedule-filter";
+import { WeeklyTimesheetReview } from "@/components/weekly-timesheet-review";
+import { addDaysToDateString } from "@/lib/utils";
+import { getWeekStart } from "@/lib/absence-types";
+import {
+  buildTimesheetWeek,
+  getTimesheetWeekRange,
+  getTimesheetWeekStart,
+  getWorkingTimeIssues,
+  type TimesheetStatus,
+} from "@/lib/timesheets";
+import { ArrowLeft } from "lucide-react";
+
+async function getLocations(organizationId: string) {
+  return prisma.location.findMany({
+    where: { organizationId, isActive: true },
+    select: { id: true, name: true },
+    orderBy: { name: "asc" },
+  });
+}
+
+async function getWeeklyTimesheets(
+  organizationId: string,
+  userIds: string[] | null,
+  locationId: string | undefined,
+  weekStart: string,
+  timeZone: string
+) {
+  const { start, end } = getTimesheetWeekRange(weekStart, timeZone);
+
+  const users = await prisma.user.findMany({
+    where: {
+      organizationId,
+      ...(userIds ? { id: { in: userIds } } : {}),
+      ...(locationId
+        ? { OR: [{ primaryLocationId: locationId }, { locationAccess: { some: { locationId } } }] }
+        : {}),
+    },
+    select: {
+      id: true,
+      name: true,
+      assignedShifts: {
+        where: { startTime: { gte: start, lt: end } },
+        select: { id: true, title: true, startTime: true, endTime: true, scheduledBreakMinutes: true },
+      },
+      timeEntries: {
+        where: { clockIn: { gte: start, lt: end } },
+        select: {
+          id: true,
+          clockIn: true,
+          clockOut: true,
+          totalBreak: true,
+          status: true,
+          clockInFlag: true,
+          missedClockOut: true,
+          shiftId: true,
+          breaks: { select: { type: true, startTime: true, endTime: true } },
+        },
+      },
+      timesheets: {
+        where: { weekStart },
+        select: { id: true, status: true, approvedAt: true, _count: { select: { messages: true } } },
+      },
+    },
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+  });
+
+  return users
+    // Managers only review people who were scheduled or clocked in that week
+    .filter((user) => userIds || user.assignedShifts.length > 0 || user.timeEntries.length > 0)
+    .map((user) => {
+      const timesheet = user.timesheets[0];
+      return {
+        userId: user.id,
+        name: user.name,
+        week: buildTimesheetWeek(weekStart, user.assignedShifts, user.timeEntries, timeZone),
+        timesheetId: timesheet?.id ?? null,
+        status: (timesheet?.status ?? "OPEN") as TimesheetStatus,
+        approvedAt: timesheet?.approvedAt ?? null,
+        hasQuery: (timesheet?._count.messages ?? 0) > 0,
+        stillClockedIn: user.timeEntries.some((e) => !e.clockOut),
+      };
+    });
+}
+
+interface WeeklyTimesheetPageProps {
+  searchParams: Promise<{ week?: string; location?: string }>;
+}
+
+export default async function WeeklyTimesheetPage({ searchParams }: WeeklyTimesheetPageProps) {
+  const session = await auth();
+  if (!session?.user) return null;
+
+  const params = await searchParams;
+  const isManager = session.user.role === "MANAGER" || session.user.role === "ADMIN";
+  const locationId = isManager && params.location && params.location !== "all" ? params.location : undefined;
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: session.user.organizationId },
+    select: { timezone: true },
+  });
+  const timeZone = organization?.timezone || "UTC";
+
+  // Default to last week, the most recent one that can be approved
+  const now = new Date();
+  const weekStart =
+    params.week && /^\d{4}-\d{2}-\d{2}$/.test(params.week)
+      ? getWeekStart(params.week)
+      : addDaysToDateString(getTimesheetWeekStart(now, timeZone), -7);
+  const weekOver = getTimesheetWeekRange(weekStart, timeZone).end <= now;
+
+  const [timesheets, locations] = await Promise.all([
+    getWeeklyTimesheets(
+      session.user.organizationId,
+      isManager ? null : [session.user.id],
+      locationId,
+      weekStart,
+      timeZone
+    ),
+    isManager ? getLocations(session.user.organizationId) : Promise.resolve([]),
+  ]);
+
+  // Breaks, rest and hours against the Working Time Regulations
+  const workingTime = await getWorkingTimeIssues(
+    session.user.organizationId,
+    timesheets.map((t) => t.userId),
+    weekStart
+  );
+  const rows = timesheets.map((t) => ({
+    ...t,
+    workingTime: workingTime.get(t.userId) ?? { youngWorker: false, issues: [] },
+  }));
+
+  const weekHref = (week: string) =>
+    `/dashboard/timesheet/weekly?week=${week}${locationId ? `&location=${locationId}` : ""}`;
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <Link
+            href="/dashboard/timesheet"
+            className="text-sm text-muted-foreground hover:underline inline-flex items-center gap-1 mb-2"
+          >
+            <ArrowLeft className="h-3 w-3" />
+            Timesheet
+          </Link>
+          <h1 className="text-3xl font-bold">Weekly Review</h1>
+          <p className="text-muted-foreground mt-1">
+            {isManager
+              ? "Compare scheduled and actual hours, then approve each week"
+              : "Your scheduled and actual hours for the week"}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {isManager && locations.length > 0 && (
+            <LocationScheduleFilter
+              locations={locations}
+              currentLocationId={locationId || "all"}
+            />
+          )}
+          <Link href={weekHref(addDaysToDateString(weekStart, -7))}>
+            <Button variant="outline" size="sm">Previous week</Button>
+          </Link>
+          <Link href={weekHref(addDaysToDateString(weekStart, 7))}>
+            <Button variant="outline" size="sm">Next week</Button>
+          </Link>
+        </div>
+      </div>
+
+      <WeeklyTimesheetReview
+        weekStart={weekStart}
+        weekOver={weekOver}
+        rows={rows}
+        isManager={isManager}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/db";
+import { KioskClock } from "@/components/kiosk-clock";
+
+export const metadata = {
+  title: "Clock In - ShiftFlow",
+};
+
+// Front desk kiosk. No login: the token in the URL fixes the tablet to its
+// location and staff identify themselves with their PIN.
+export default async function KioskPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  const device = await prisma.kioskDevice.findUnique({
+    where: { token },
+    select: {
+      name: true,
+      revokedAt: true,
+      location: { select: { name: true, isActive: true } },
+    },
+  });
+
+  if (!device || device.revokedAt || !device.location.isActive) {
+    notFound();
+  }
+
+  return (
+    <KioskClock
+      token={token}
+      kioskName={device.name}
+      locationName={device.location.name}
+    />
+  );
+}
@@ -2,6 +2,7 @@ import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { redirect } from "next/navigation";
 import { MobileStaffView } from "@/components/mobile-staff-view";
+import { getActiveAnnouncementsForUser } from "@/lib/announcements";
 
 async function getStaffData(userId: string, organizationId: string) {
   const today = new Date();
@@ -19,11 +20,13 @@ async function getStaffData(userId: string, organizationId: string) {
     monthTimeEntries,
     pendingSwapRequests,
     user,
+    announcements,
   ] = await Promise.all([
     // Upcoming shifts for next 2 weeks
     prisma.shift.findMany({
       where: {
         assignedToId: userId,
+        status: { not: "DRAFT" },
         startTime: { gte: today, lt: twoWeeksFromNow },
       },
       include: {
@@ -40,6 +43,7 @@ async function getStaffData(userId: string, organizationId: string) {
       },
       include: {
         shift: { select: { id: true, title: true } },
+        breaks: { orderBy: { startTime: "asc" } },
       },
     }),
     // This month's time entries for timesheet
@@ -69,6 +73,8 @@ async function getStaffData(userId: string, organizationId: string) {
       where: { id: userId },
       select: { name: true, email: true, staffRole: true },
     }),
+    // Pinned announcements
+    getActiveAnnouncementsForUser(userId, organizationId),
   ]);
 
   // Calculate monthly hours
@@ -95,6 +101,7 @@ async function getStaffData(userId: string, organizationId: string) {
     monthTimeEntries,
     pendingSwapRequests,
     user,
+    announcements,
     monthlyStats: {
       totalHoursWithBreaks: Math.round(totalHoursWithBreaks * 100) / 100,
       totalHoursWithoutBreaks: Math.round(totalHoursWithoutBreaks * 100) / 100,
@@ -126,6 +133,7 @@ export default async function StaffMobilePage() {
       monthTimeEntries={data.monthTimeEntries}
       pendingSwapRequests={data.pendingSwapRequests}
       monthlyStats={data.monthlyStats}
+      announcements={data.announcements}
     />
   );
 }
@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { FitNoteUpload } from "@/components/fit-note-upload";
+
+interface AbsenceEvidenceActionsProps {
+  requestId: string;
+  evidence: "SELF_CERTIFICATION" | "FIT_NOTE";
+  isOwner: boolean;
+}
+
+/**
+ * Complete a sickness record after it was reported: the employee
+ * self-certifies a short spell, or anyone who can see it adds the fit note
+ */
+export function AbsenceEvidenceActions({ requestId, evidence, isOwner }: AbsenceEvidenceActionsProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const update = async (data: Record<string, unknown>) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/holidays/${requestId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const body = await res.json();
+        alert(body.error || "Failed to update the sickness record");
+        return;
+      }
+      router.refresh();
+    } catch (error) {
+      console.error("Evidence update failed:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {evidence === "SELF_CERTIFICATION" && isOwner && (
+        <Button size="sm" variant="outline" onClick={() => update({ selfCertified: true })} disabled={loading}>
+          Self-Certify
+        </Button>
+      )}
+      <FitNoteUpload
+        label="Add Fit Note"
+        disabled={loading}
+        onUploaded={(url, name) => update({ documentUrl: url, documentName: name })}
+      />
+    </div>
+  );
+}
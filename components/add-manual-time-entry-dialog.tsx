@@ -2,6 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
+import { saveTimeEntryChange } from "@/components/timesheet-actions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -111,17 +112,21 @@ export function AddManualTimeEntryDialog({ users, breakRules }: AddManualTimeEnt
         clockOut.setDate(clockOut.getDate() + 1);
       }
 
-      const res = await fetch("/api/time-entries/manual", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          userId: formData.userId,
-          clockIn: clockIn.toISOString(),
-          clockOut: clockOut.toISOString(),
-          totalBreak: autoBreakMinutes,
-          notes: formData.notes || null,
-        }),
-      });
+      // Approved weeks and signed-off pay periods need the change confirming
+      const res = await saveTimeEntryChange((overrides) =>
+        fetch("/api/time-entries/manual", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            userId: formData.userId,
+            clockIn: clockIn.toISOString(),
+            clockOut: clockOut.toISOString(),
+            totalBreak: autoBreakMinutes,
+            notes: formData.notes || null,
+            ...overrides,
+          }),
+        })
+      );
 
       if (!res.ok) {
         const data = await res.json();
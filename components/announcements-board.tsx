@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { Megaphone, CheckCircle, AlertTriangle } from "lucide-react";
+
+export interface BoardAnnouncement {
+  id: string;
+  title: string;
+  content: string;
+  priority: number;
+  expiresAt: Date | string | null;
+  createdAt: Date | string;
+  createdBy: { name: string } | null;
+  requiresAcknowledgement: boolean;
+  acknowledgedAt: Date | string | null;
+}
+
+interface AnnouncementsBoardProps {
+  announcements: BoardAnnouncement[];
+  compact?: boolean;
+}
+
+const formatDay = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+
+export function AnnouncementsBoard({ announcements, compact }: AnnouncementsBoardProps) {
+  const [acknowledged, setAcknowledged] = useState<Record<string, boolean>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const handleAcknowledge = async (id: string) => {
+    setSavingId(id);
+    try {
+      const res = await fetch(`/api/announcements/${id}/acknowledge`, { method: "POST" });
+      if (res.ok) {
+        setAcknowledged((prev) => ({ ...prev, [id]: true }));
+      } else {
+        const data = await res.json();
+        alert(data.error || "Failed to acknowledge announcement");
+      }
+    } catch (error) {
+      console.error("Failed to acknowledge announcement:", error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (announcements.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-3", compact ? "" : "mb-8")}>
+      {announcements.map((announcement) => {
+        const isHigh = announcement.priority >= 2;
+        const isAcknowledged = !!announcement.acknowledgedAt || acknowledged[announcement.id];
+        const needsAction = announcement.requiresAcknowledgement && !isAcknowledged;
+
+        return (
+          <div
+            key={announcement.id}
+            className={cn(
+              "rounded-lg border p-4",
+              isHigh
+                ? "border-destructive/40 bg-destructive/5"
+                : announcement.priority === 1
+                  ? "border-amber-300 bg-amber-50 dark:bg-amber-950/30"
+                  : "bg-card"
+            )}
+          >
+            <div className="flex items-start gap-3">
+              {isHigh ? (
+                <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+              ) : (
+                <Megaphone className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="font-semibold">{announcement.title}</p>
+                  {isHigh && <Badge variant="destructive">High priority</Badge>}
+                  {announcement.priority === 1 && <Badge variant="warning">Important</Badge>}
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{announcement.content}</p>
+                <p className="text-xs text-muted-foreground">
+                  {announcement.createdBy?.name ? `${announcement.createdBy.name} · ` : ""}
+                  {formatDay(announcement.createdAt)}
+                  {announcement.expiresAt && ` · Until ${formatDay(announcement.expiresAt)}`}
+                </p>
+              </div>
+            </div>
+            {announcement.requiresAcknowledgement && (
+              <div className="mt-3 flex justify-end">
+                {needsAction ? (
+                  <Button
+                    size="sm"
+                    onClick={() => handleAcknowledge(announcement.id)}
+                    disabled={savingId === announcement.id}
+                  >
+                    {savingId === announcement.id ? "Saving..." : "I've read this"}
+                  </Button>
+                ) : (
+                  <span className="text-xs text-green-700 flex items-center gap-1">
+                    <CheckCircle className="h-3 w-3" />
+                    Acknowledged
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
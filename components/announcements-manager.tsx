@@ -0,0 +1,428 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2, Users, CalendarX } from "lucide-react";
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface StaffRoleOption {
+  code: string;
+  name: string;
+}
+
+interface Announcement {
+  id: string;
+  title: string;
+  content: string;
+  priority: number;
+  locationIds: string[];
+  staffRoles: string[];
+  expiresAt: string | null;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+  requiresAcknowledgement: boolean;
+  _count: { acknowledgements: number };
+}
+
+interface AcknowledgementReport {
+  acknowledged: { id: string; name: string; acknowledgedAt: string }[];
+  outstanding: { id: string; name: string }[];
+}
+
+interface AnnouncementsManagerProps {
+  locations: Option[];
+  staffRoles: StaffRoleOption[];
+}
+
+const priorityOptions = [
+  { value: "0", label: "Normal" },
+  { value: "1", label: "Important" },
+  { value: "2", label: "High - must be acknowledged" },
+];
+
+const emptyForm = {
+  title: "",
+  content: "",
+  priority: "0",
+  targetLocationIds: [] as string[],
+  targetStaffRoles: [] as string[],
+  expiresAt: "",
+};
+
+const toggle = (list: string[], value: string, checked: boolean) =>
+  checked ? [...list, value] : list.filter((v) => v !== value);
+
+export function AnnouncementsManager({ locations, staffRoles }: AnnouncementsManagerProps) {
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [report, setReport] = useState<AcknowledgementReport | null>(null);
+
+  useEffect(() => {
+    fetchAnnouncements();
+  }, []);
+
+  const fetchAnnouncements = async () => {
+    try {
+      const res = await fetch("/api/announcements?manage=true");
+      if (res.ok) {
+        setAnnouncements(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch announcements:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/announcements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          priority: parseInt(formData.priority),
+          // Expire at the end of the chosen day
+          expiresAt: formData.expiresAt
+            ? new Date(`${formData.expiresAt}T23:59:59`).toISOString()
+            : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to post announcement");
+        return;
+      }
+      setShowDialog(false);
+      setFormData(emptyForm);
+      await fetchAnnouncements();
+    } catch (error) {
+      console.error("Failed to post announcement:", error);
+      setError("Failed to post announcement");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnd = async (announcement: Announcement) => {
+    if (!confirm(`Take down "${announcement.title}" now?`)) return;
+    try {
+      const res = await fetch(`/api/announcements/${announcement.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresAt: new Date().toISOString() }),
+      });
+      if (res.ok) {
+        await fetchAnnouncements();
+      }
+    } catch (error) {
+      console.error("Failed to end announcement:", error);
+    }
+  };
+
+  const handleDelete = async (announcement: Announcement) => {
+    if (!confirm(`Delete "${announcement.title}"? Acknowledgement records will be lost.`)) return;
+    try {
+      const res = await fetch(`/api/announcements/${announcement.id}`, { method: "DELETE" });
+      if (res.ok) {
+        await fetchAnnouncements();
+      }
+    } catch (error) {
+      console.error("Failed to delete announcement:", error);
+    }
+  };
+
+  const toggleReport = async (id: string) => {
+    if (reportId === id) {
+      setReportId(null);
+      setReport(null);
+      return;
+    }
+    setReportId(id);
+    setReport(null);
+    try {
+      const res = await fetch(`/api/announcements/${id}/acknowledgements`);
+      if (res.ok) {
+        setReport(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch acknowledgements:", error);
+    }
+  };
+
+  const describeAudience = (announcement: Announcement) => {
+    const parts: string[] = [];
+    if (announcement.locationIds.length > 0) {
+      parts.push(
+        announcement.locationIds
+          .map((id) => locations.find((l) => l.id === id)?.name || "Unknown location")
+          .join(", ")
+      );
+    }
+    if (announcement.staffRoles.length > 0) {
+      parts.push(
+        announcement.staffRoles
+          .map((code) => staffRoles.find((r) => r.code === code)?.name || code)
+          .join(", ")
+      );
+    }
+    return parts.length > 0 ? parts.join(" · ") : "Everyone";
+  };
+
+  const isExpired = (announcement: Announcement) =>
+    !!announcement.expiresAt && new Date(announcement.expiresAt) <= new Date();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setShowDialog(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Announcement
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : announcements.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            No announcements yet
+          </CardContent>
+        </Card>
+      ) : (
+        announcements.map((announcement) => (
+          <Card key={announcement.id} className={isExpired(announcement) ? "opacity-60" : ""}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="font-semibold">{announcement.title}</p>
+                    {announcement.priority === 2 && <Badge variant="destructive">High</Badge>}
+                    {announcement.priority === 1 && <Badge variant="warning">Important</Badge>}
+                    {isExpired(announcement) && <Badge variant="secondary">Expired</Badge>}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{announcement.content}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeAudience(announcement)} · Posted{" "}
+                    {new Date(announcement.createdAt).toLocaleDateString("en-GB")}
+                    {announcement.createdBy && ` by ${announcement.createdBy.name}`}
+                    {announcement.expiresAt &&
+                      ` · ${isExpired(announcement) ? "Ended" : "Until"} ${new Date(announcement.expiresAt).toLocaleDateString("en-GB")}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {announcement.requiresAcknowledgement && (
+                    <Button size="sm" variant="outline" onClick={() => toggleReport(announcement.id)}>
+                      <Users className="mr-2 h-4 w-4" />
+                      {announcement._count.acknowledgements} read
+                    </Button>
+                  )}
+                  {!isExpired(announcement) && (
+                    <Button size="sm" variant="outline" onClick={() => handleEnd(announcement)} title="End now">
+                      <CalendarX className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => handleDelete(announcement)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {reportId === announcement.id && (
+                <div className="border-t pt-3">
+                  {!report ? (
+                    <p className="text-sm text-muted-foreground">Loading...</p>
+                  ) : (
+                    <div className="grid gap-4 sm:grid-cols-2 text-sm">
+                      <div>
+                        <p className="font-medium text-destructive mb-1">
+                          Not yet read ({report.outstanding.length})
+                        </p>
+                        {report.outstanding.length === 0 ? (
+                          <p className="text-muted-foreground">Everyone has read this</p>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {report.outstanding.map((user) => (
+                              <li key={user.id}>{user.name}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      <div>
+                        <p className="font-medium text-green-700 mb-1">
+                          Acknowledged ({report.acknowledged.length})
+                        </p>
+                        <ul className="space-y-0.5">
+                          {report.acknowledged.map((user) => (
+                            <li key={user.id} className="flex justify-between gap-2">
+                              <span>{user.name}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {new Date(user.acknowledgedAt).toLocaleString("en-GB", {
+                                  dateStyle: "short",
+                                  timeStyle: "short",
+                                })}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>New Announcement</DialogTitle>
+            <DialogDescription>
+              Pinned on the dashboard for everyone it targets until it expires.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-hidden">
+            <div className="space-y-4 py-4 overflow-y-auto flex-1 pr-2">
+              {error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="announcementTitle">Title</Label>
+                <Input
+                  id="announcementTitle"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="announcementContent">Message</Label>
+                <Textarea
+                  id="announcementContent"
+                  value={formData.content}
+                  onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                  rows={5}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="announcementPriority">Priority</Label>
+                  <Select
+                    id="announcementPriority"
+                    options={priorityOptions}
+                    value={formData.priority}
+                    onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="announcementExpires">Expires (optional)</Label>
+                  <Input
+                    id="announcementExpires"
+                    type="date"
+                    value={formData.expiresAt}
+                    onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {locations.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Locations</Label>
+                  <p className="text-xs text-muted-foreground">Leave empty for every location</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {locations.map((location) => (
+                      <div key={location.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`location-${location.id}`}
+                          checked={formData.targetLocationIds.includes(location.id)}
+                          onCheckedChange={(checked) =>
+                            setFormData({
+                              ...formData,
+                              targetLocationIds: toggle(formData.targetLocationIds, location.id, checked),
+                            })
+                          }
+                        />
+                        <Label htmlFor={`location-${location.id}`} className="font-normal">
+                          {location.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Staff roles</Label>
+                <p className="text-xs text-muted-foreground">Leave empty for every role</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {staffRoles.map((role) => (
+                    <div key={role.code} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`role-${role.code}`}
+                        checked={formData.targetStaffRoles.includes(role.code)}
+                        onCheckedChange={(checked) =>
+                          setFormData({
+                            ...formData,
+                            targetStaffRoles: toggle(formData.targetStaffRoles, role.code, checked),
+                          })
+                        }
+                      />
+                      <Label htmlFor={`role-${role.code}`} className="font-normal">
+                        {role.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter className="flex-shrink-0 pt-4 border-t mt-4">
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Posting..." : "Post Announcement"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
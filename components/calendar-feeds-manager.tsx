@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { CalendarPlus, Copy, Check, RefreshCw, Trash2 } from "lucide-react";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface CalendarFeed {
+  id: string;
+  type: "USER" | "LOCATION";
+  url: string;
+  webcalUrl: string;
+  lastAccessedAt: string | null;
+  location: Location | null;
+}
+
+interface CalendarFeedsManagerProps {
+  locations: Location[];
+}
+
+export function CalendarFeedsManager({ locations }: CalendarFeedsManagerProps) {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [locationId, setLocationId] = useState(locations[0]?.id || "");
+
+  useEffect(() => {
+    fetchFeeds();
+  }, []);
+
+  const fetchFeeds = async () => {
+    try {
+      const res = await fetch("/api/calendar-feeds");
+      if (res.ok) {
+        setFeeds(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch calendar feeds:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createFeed = async (body: { type: "USER" | "LOCATION"; locationId?: string }) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/calendar-feeds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        await fetchFeeds();
+      } else {
+        setError(data.error || "Failed to create calendar feed");
+      }
+    } catch (error) {
+      console.error("Failed to create calendar feed:", error);
+      setError("Failed to create calendar feed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeFeed = async (feed: CalendarFeed, recreate: boolean) => {
+    const message = recreate
+      ? "Reset this link? Calendars subscribed to the old link will stop updating."
+      : "Remove this feed? Calendars subscribed to it will stop updating.";
+    if (!confirm(message)) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/calendar-feeds/${feed.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to revoke calendar feed");
+        return;
+      }
+      if (recreate) {
+        await createFeed({ type: feed.type, locationId: feed.location?.id });
+      } else {
+        await fetchFeeds();
+      }
+    } catch (error) {
+      console.error("Failed to revoke calendar feed:", error);
+      setError("Failed to revoke calendar feed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopiedId(feed.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy feed URL:", error);
+    }
+  };
+
+  const renderFeed = (feed: CalendarFeed, label: string) => (
+    <div key={feed.id} className="flex flex-col gap-2 p-3 border rounded-lg sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        <p className="font-medium">{label}</p>
+        <p className="text-xs text-muted-foreground">
+          {feed.lastAccessedAt
+            ? `Last synced ${new Date(feed.lastAccessedAt).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}`
+            : "Not synced yet"}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button size="sm" asChild>
+          <a href={feed.webcalUrl}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Subscribe
+          </a>
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => copyUrl(feed)} title="Copy link">
+          {copiedId === feed.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => revokeFeed(feed, true)} disabled={saving} title="Reset link">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+        {feed.type === "LOCATION" && (
+          <Button size="sm" variant="outline" onClick={() => revokeFeed(feed, false)} disabled={saving} title="Remove">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  const userFeed = feeds.find((f) => f.type === "USER");
+  const locationFeeds = feeds.filter((f) => f.type === "LOCATION");
+  const availableLocations = locations.filter(
+    (loc) => !locationFeeds.some((f) => f.location?.id === loc.id)
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Subscribe in Google, Apple or Outlook Calendar to see your published shifts and approved holidays.
+          Anyone with the link can see your shifts, so reset it if it&apos;s shared by mistake.
+        </p>
+        {userFeed ? (
+          renderFeed(userFeed, "My shifts")
+        ) : (
+          <Button variant="outline" onClick={() => createFeed({ type: "USER" })} disabled={saving}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Create My Calendar Link
+          </Button>
+        )}
+      </div>
+
+      {locations.length > 0 && (
+        <div className="space-y-2 pt-2 border-t">
+          <p className="text-sm font-medium pt-2">Location calendars</p>
+          <p className="text-sm text-muted-foreground">
+            Events and open shifts for a location.
+          </p>
+          {locationFeeds.map((feed) => renderFeed(feed, feed.location?.name || "Location"))}
+          {availableLocations.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="flex-1">
+                <Select
+                  options={availableLocations.map((loc) => ({ value: loc.id, label: loc.name }))}
+                  value={availableLocations.some((loc) => loc.id === locationId) ? locationId : availableLocations[0].id}
+                  onChange={(e) => setLocationId(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() =>
+                  createFeed({
+                    type: "LOCATION",
+                    locationId: availableLocations.some((loc) => loc.id === locationId)
+                      ? locationId
+                      : availableLocations[0].id,
+                  })
+                }
+                disabled={saving}
+              >
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
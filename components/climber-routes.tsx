@@ -0,0 +1,377 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle2, Flag, Mountain, Star } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+import { getHoldColorHex } from "@/lib/route-setting";
+import { ROUTE_PROBLEMS, type RouteFeedbackSummary } from "@/lib/route-feedback";
+
+interface ClimberRoute {
+  id: string;
+  name: string | null;
+  grade: string;
+  color: string;
+  setDate: string;
+  gradeOptions: string[];
+  summary: RouteFeedbackSummary;
+  mine: { rating: number | null; suggestedGrade: string | null; comment: string | null } | null;
+}
+
+interface ClimberSector {
+  id: string;
+  name: string;
+  routes: ClimberRoute[];
+}
+
+interface ClimberRoutesProps {
+  code: string;
+  locationName: string;
+  initialSectorId?: string;
+}
+
+const CLIMBER_ID_KEY = "climberId";
+
+// Climbers don't log in. A random ID kept in the browser lets them change
+// their rating later instead of voting twice.
+function getClimberId(): string {
+  let id = localStorage.getItem(CLIMBER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID?.() || `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+    localStorage.setItem(CLIMBER_ID_KEY, id);
+  }
+  return id;
+}
+
+const emptyFeedback = { rating: 0, suggestedGrade: "", comment: "" };
+const emptyReport = { problem: ROUTE_PROBLEMS[0].value, details: "" };
+
+export function ClimberRoutes({ code, locationName, initialSectorId }: ClimberRoutesProps) {
+  const [sectors, setSectors] = useState<ClimberSector[]>([]);
+  const [sectorId, setSectorId] = useState(initialSectorId || "");
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<ClimberRoute | null>(null);
+  const [feedback, setFeedback] = useState(emptyFeedback);
+  const [reporting, setReporting] = useState(false);
+  const [report, setReport] = useState(emptyReport);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchRoutes = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/climb/${code}?climberId=${encodeURIComponent(getClimberId())}`);
+      if (res.ok) {
+        const data = await res.json();
+        setSectors(data.sectors);
+      }
+    } catch (error) {
+      console.error("Failed to fetch routes:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [code]);
+
+  useEffect(() => {
+    fetchRoutes();
+  }, [fetchRoutes]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(null), 5000);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  const openRoute = (route: ClimberRoute) => {
+    setError(null);
+    setReporting(false);
+    setReport(emptyReport);
+    setFeedback({
+      rating: route.mine?.rating || 0,
+      suggestedGrade: route.mine?.suggestedGrade || "",
+      comment: route.mine?.comment || "",
+    });
+    setSelected(route);
+  };
+
+  const submit = async (path: string, body: object, thanks: string) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/climb/${code}/${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Something went wrong. Please try again.");
+        return;
+      }
+      setSelected(null);
+      setNotice(data.alreadyReported ? "Thanks! Staff already know about this one." : thanks);
+      fetchRoutes();
+    } catch (error) {
+      console.error("Failed to send route feedback:", error);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFeedback = () => {
+    if (!selected) return;
+    submit(
+      "feedback",
+      {
+        climberId: getClimberId(),
+        routeId: selected.id,
+        rating: feedback.rating || null,
+        suggestedGrade: feedback.suggestedGrade || null,
+        comment: feedback.comment || null,
+      },
+      "Thanks for your feedback!"
+    );
+  };
+
+  const handleReport = () => {
+    if (!selected) return;
+    submit(
+      "reports",
+      { routeId: selected.id, problem: report.problem, details: report.details || null },
+      "Thanks! We've let the staff know."
+    );
+  };
+
+  const currentSector = sectors.find((sector) => sector.id === sectorId) || sectors[0];
+
+  const getGradeNote = (summary: RouteFeedbackSummary) => {
+    if (summary.grade.verdict === "HARD") return `Feels hard (${summary.grade.consensusGrade})`;
+    if (summary.grade.verdict === "SOFT") return `Feels soft (${summary.grade.consensusGrade})`;
+    if (summary.grade.verdict === "ON_GRADE") return "On grade";
+    return null;
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30 flex flex-col">
+      <header className="bg-primary text-primary-foreground p-4">
+        <h1 className="text-xl font-bold">{locationName}</h1>
+        <p className="text-sm opacity-90">Rate the routes, tell us the grade and report any problems</p>
+      </header>
+
+      <main className="flex-1 p-4 max-w-2xl w-full mx-auto space-y-4">
+        {notice && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-100 text-green-800">
+            <CheckCircle2 className="h-5 w-5 flex-shrink-0" />
+            <span>{notice}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : !currentSector ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Mountain className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="font-medium">No routes up right now</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {sectors.map((sector) => (
+                <Button
+                  key={sector.id}
+                  size="sm"
+                  variant={sector.id === currentSector.id ? "default" : "outline"}
+                  className="flex-shrink-0"
+                  onClick={() => setSectorId(sector.id)}
+                >
+                  {sector.name}
+                </Button>
+              ))}
+            </div>
+
+            {currentSector.routes.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground border rounded-lg bg-background">
+                <p className="font-medium">No routes up on {currentSector.name}</p>
+              </div>
+            ) : (
+              <div className="divide-y border rounded-lg bg-background">
+                {currentSector.routes.map((route) => (
+                  <button
+                    key={route.id}
+                    type="button"
+                    className="w-full flex items-center justify-between gap-3 p-3 text-left hover:bg-muted/50"
+                    onClick={() => openRoute(route)}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span
+                        className="h-6 w-6 rounded-full border flex-shrink-0"
+                        style={{ backgroundColor: getHoldColorHex(route.color) }}
+                        title={route.color}
+                      />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold">{route.grade}</span>
+                          <span className="truncate">{route.name || route.color}</span>
+                          {route.mine && <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {getGradeNote(route.summary) || `Set ${formatDate(new Date(route.setDate))}`}
+                        </div>
+                      </div>
+                    </div>
+                    {route.summary.averageRating !== null && (
+                      <span className="flex items-center gap-1 text-sm flex-shrink-0">
+                        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                        {route.summary.averageRating}
+                        <span className="text-muted-foreground">({route.summary.ratings})</span>
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {/* Route Feedback Dialog */}
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>
+              {selected && `${selected.grade} ${selected.name || selected.color}`}
+            </DialogTitle>
+            <DialogDescription>
+              {selected && `${currentSector?.name} · Set ${formatDate(new Date(selected.setDate))}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4 overflow-y-auto flex-1">
+            {error && (
+              <div className="flex items-start gap-2 p-3 text-sm text-red-600 bg-red-50 rounded-md">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {reporting ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="routeProblem">What&apos;s wrong?</Label>
+                  <Select
+                    id="routeProblem"
+                    options={ROUTE_PROBLEMS.map((p) => ({ value: p.value, label: p.label }))}
+                    value={report.problem}
+                    onChange={(e) => setReport({ ...report, problem: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="routeProblemDetails">Details</Label>
+                  <Textarea
+                    id="routeProblemDetails"
+                    value={report.details}
+                    onChange={(e) => setReport({ ...report, details: e.target.value })}
+                    placeholder="e.g., The big jug near the top spins"
+                    rows={3}
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>How was it?</Label>
+                  <div className="flex gap-1">
+                    {[1, 2, 3, 4, 5].map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        aria-label={`${value} star${value !== 1 ? "s" : ""}`}
+                        onClick={() => setFeedback({ ...feedback, rating: feedback.rating === value ? 0 : value })}
+                      >
+                        <Star
+                          className={`h-8 w-8 ${
+                            value <= feedback.rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+                          }`}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {selected && selected.gradeOptions.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>What grade did it feel?</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {selected.gradeOptions.map((grade) => (
+                        <Button
+                          key={grade}
+                          type="button"
+                          size="sm"
+                          variant={feedback.suggestedGrade === grade ? "default" : "outline"}
+                          onClick={() =>
+                            setFeedback({ ...feedback, suggestedGrade: feedback.suggestedGrade === grade ? "" : grade })
+                          }
+                        >
+                          {grade}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="routeComment">Comment</Label>
+                  <Textarea
+                    id="routeComment"
+                    value={feedback.comment}
+                    onChange={(e) => setFeedback({ ...feedback, comment: e.target.value })}
+                    placeholder="Optional"
+                    rows={2}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            {reporting ? (
+              <>
+                <Button variant="outline" onClick={() => setReporting(false)} disabled={submitting}>
+                  Back
+                </Button>
+                <Button onClick={handleReport} disabled={submitting}>
+                  {submitting ? "Sending..." : "Report Problem"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setReporting(true)} disabled={submitting}>
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report a Problem
+                </Button>
+                <Button
+                  onClick={handleFeedback}
+                  disabled={submitting || (!feedback.rating && !feedback.suggestedGrade)}
+                >
+                  {submitting ? "Sending..." : "Send"}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
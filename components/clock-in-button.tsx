@@ -4,12 +4,14 @@ import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Clock, Coffee, LogOut, AlertCircle, MapPin, Loader2 } from "lucide-react";
+import { TimeEntryBreakList, type TimeEntryBreakItem } from "@/components/time-entry-breaks";
 
 interface ClockInButtonProps {
   activeTimeEntry: {
     id: string;
     clockIn: Date;
     breakStart: Date | null;
+    breaks?: TimeEntryBreakItem[];
   } | null;
   todayShift: {
     id: string;
@@ -115,8 +117,9 @@ export function ClockInButton({ activeTimeEntry, todayShift }: ClockInButtonProp
     }
   };
 
-  const handleBreak = async (action: "start" | "end") => {
+  const handleBreak = async (action: "start" | "end", type: "PAID" | "UNPAID" = "UNPAID") => {
     setLoading(true);
+    setError(null);
     try {
       const res = await fetch(`/api/time-entries/break`, {
         method: "POST",
@@ -124,10 +127,14 @@ export function ClockInButton({ activeTimeEntry, todayShift }: ClockInButtonProp
         body: JSON.stringify({
           timeEntryId: activeTimeEntry?.id,
           action,
+          type,
         }),
       });
       if (res.ok) {
         router.refresh();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to update break");
       }
     } catch (error) {
       console.error("Break action failed:", error);
@@ -210,11 +217,22 @@ export function ClockInButton({ activeTimeEntry, todayShift }: ClockInButtonProp
           Clock Out
         </Button>
       </div>
-      {isOnBreak && (
+      {isOnBreak ? (
         <p className="text-sm text-center text-muted-foreground">
           End your break before clocking out
         </p>
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => handleBreak("start", "PAID")}
+          disabled={loading}
+        >
+          Start a paid break instead
+        </Button>
       )}
+      <TimeEntryBreakList breaks={activeTimeEntry.breaks ?? []} />
     </div>
   );
 }
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Copy, AlertTriangle } from "lucide-react";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface CopyConflictReport {
+  shiftId: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  assignedToName: string;
+  conflicts: { type: string; severity: "HARD" | "SOFT"; message: string }[];
+}
+
+interface CopyWeekResult {
+  copiedCount: number;
+  conflicts: CopyConflictReport[];
+}
+
+interface CopyWeekDialogProps {
+  locations: Location[];
+  defaultLocationId?: string | null;
+}
+
+// Monday of the current week plus a number of weeks, as YYYY-MM-DD
+function getMonday(weeksFromNow: number): string {
+  const date = new Date();
+  const day = date.getDay();
+  date.setDate(date.getDate() - (day === 0 ? 6 : day - 1) + weeksFromNow * 7);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+const formatShiftTime = (start: string, end: string) => {
+  const startDate = new Date(start);
+  const day = startDate.toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short" });
+  const time = (d: Date) => d.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+  return `${day}, ${time(startDate)} - ${time(new Date(end))}`;
+};
+
+export function CopyWeekDialog({ locations, defaultLocationId }: CopyWeekDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CopyWeekResult | null>(null);
+  const [formData, setFormData] = useState({
+    sourceWeekStart: getMonday(0),
+    targetWeekStart: getMonday(1),
+    locationId: defaultLocationId || locations[0]?.id || "",
+    keepAssignees: true,
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setResult(null);
+      setError(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/shifts/copy-week", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          locationId: formData.locationId || null,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to copy week");
+        return;
+      }
+
+      router.refresh();
+      if (data.conflicts.length === 0) {
+        handleOpenChange(false);
+      } else {
+        setResult(data);
+      }
+    } catch (error) {
+      console.error("Failed to copy week:", error);
+      setError("Failed to copy week. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Copy className="mr-2 h-4 w-4" />
+          Copy Week
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Copy Week</DialogTitle>
+          <DialogDescription>
+            Copy all shifts from one week into an empty week. Copies are created as drafts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <>
+            <div className="space-y-4 py-4 overflow-y-auto flex-1 pr-2">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{result.copiedCount} shifts copied</Badge>
+                <Badge variant="warning">{result.conflicts.length} need attention</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                These copied shifts clash with holidays, availability or certifications. Reassign them before publishing.
+              </p>
+              <div className="border rounded-md divide-y text-sm">
+                {result.conflicts.map((report) => (
+                  <div key={report.shiftId} className="px-3 py-2 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{report.assignedToName}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatShiftTime(report.startTime, report.endTime)}
+                      </span>
+                    </div>
+                    <ul className="space-y-0.5">
+                      {report.conflicts.map((conflict, i) => (
+                        <li
+                          key={i}
+                          className={conflict.severity === "HARD" ? "text-destructive" : "text-amber-700"}
+                        >
+                          <AlertTriangle className="inline h-3 w-3 mr-1" />
+                          {conflict.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <DialogFooter className="flex-shrink-0 pt-4 border-t mt-4">
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col flex-1 overflow-hidden">
+            <div className="space-y-4 py-4 overflow-y-auto flex-1 pr-2">
+              {error && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sourceWeekStart">Copy From (Monday)</Label>
+                  <Input
+                    id="sourceWeekStart"
+                    type="date"
+                    value={formData.sourceWeekStart}
+                    onChange={(e) => setFormData({ ...formData, sourceWeekStart: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="targetWeekStart">Copy To (Monday)</Label>
+                  <Input
+                    id="targetWeekStart"
+                    type="date"
+                    value={formData.targetWeekStart}
+                    onChange={(e) => setFormData({ ...formData, targetWeekStart: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              {locations.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="copyLocation">Location</Label>
+                  <Select
+                    id="copyLocation"
+                    options={locations.map((loc) => ({ value: loc.id, label: loc.name }))}
+                    value={formData.locationId}
+                    onChange={(e) => setFormData({ ...formData, locationId: e.target.value })}
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="keepAssignees"
+                  checked={formData.keepAssignees}
+                  onCheckedChange={(checked) => setFormData({ ...formData, keepAssignees: checked })}
+                />
+                <Label htmlFor="keepAssignees" className="font-normal">
+                  Keep staff assignments (otherwise copies are open shifts)
+                </Label>
+              </div>
+            </div>
+
+            <DialogFooter className="flex-shrink-0 pt-4 border-t mt-4">
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Copying..." : "Copy Shifts"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -33,6 +33,7 @@ const EVENT_TYPES = [
   { value: "GROUP", label: "Group Booking", description: "School groups, corporate team building" },
   { value: "TRAINING", label: "Training", description: "Coaching sessions, youth team practice" },
   { value: "COMPETITION", label: "Competition", description: "Climbing competitions, leagues" },
+  { value: "SETTING", label: "Setting Day", description: "Resetting a wall or sector" },
   { value: "OTHER", label: "Other", description: "Miscellaneous events" },
 ];
 
@@ -15,7 +15,12 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Plus, Clock, AlertTriangle } from "lucide-react";
+import { Plus, Clock } from "lucide-react";
+import {
+  ShiftConflictWarning,
+  useShiftConflicts,
+  isBlockedByConflicts,
+} from "@/components/shift-conflict-warning";
 
 interface User {
   id: string;
@@ -41,13 +46,6 @@ interface Location {
   name: string;
 }
 
-interface CertificationWarning {
-  isValid: boolean;
-  errorMessage: string | null;
-  missingCertifications: { id: string; name: string }[];
-  expiredCertifications: { id: string; name: string }[];
-}
-
 interface Shift {
   id: string;
   title: string;
@@ -84,8 +82,7 @@ export function CreateShiftDialog({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [categories, setCategories] = useState<ShiftCategory[]>([]);
-  const [certWarning, setCertWarning] = useState<CertificationWarning | null>(null);
-  const [checkingCerts, setCheckingCerts] = useState(false);
+  const [overrideReason, setOverrideReason] = useState("");
   const [formData, setFormData] = useState({
     title: "",
     description: "",
@@ -144,29 +141,22 @@ export function CreateShiftDialog({
     fetchCategories();
   }, []);
 
-  // Check certifications when user selection changes
-  useEffect(() => {
-    const checkCertifications = async () => {
-      if (!formData.assignedToId) {
-        setCertWarning(null);
-        return;
-      }
-
-      setCheckingCerts(true);
-      try {
-        const res = await fetch(`/api/certifications/check?userId=${formData.assignedToId}`);
-        if (res.ok) {
-          const data = await res.json();
-          setCertWarning(data);
-        }
-      } catch (error) {
-        console.error("Failed to check certifications:", error);
-      } finally {
-        setCheckingCerts(false);
-      }
+  // Check for conflicts when the assignee or times change
+  const { startIso, endIso } = useMemo(() => {
+    if (!formData.date || !formData.startTime || !formData.endTime) {
+      return { startIso: null, endIso: null };
+    }
+    return {
+      startIso: new Date(`${formData.date}T${formData.startTime}`).toISOString(),
+      endIso: new Date(`${formData.date}T${formData.endTime}`).toISOString(),
     };
-    checkCertifications();
-  }, [formData.assignedToId]);
+  }, [formData.date, formData.startTime, formData.endTime]);
+
+  const { conflicts, checking: checkingConflicts } = useShiftConflicts({
+    userId: formData.assignedToId || null,
+    startTime: startIso,
+    endTime: endIso,
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -193,7 +183,7 @@ export function CreateShiftDialog({
       description: formData.description || null,
       startTime: startDateTime,
       endTime: endDateTime,
-      status: "SCHEDULED",
+      status: "DRAFT",
       isOpen: !formData.assignedToId,
       assignedTo: assignedUser
         ? { id: assignedUser.id, name: assignedUser.name, email: assignedUser.email }
@@ -204,6 +194,8 @@ export function CreateShiftDialog({
 
     // Save form data before resetting
     const savedFormData = { ...formData };
+    const savedOverrideReason = overrideReason;
+    const hasSoftConflicts = !!conflicts && conflicts.softConflicts.length > 0;
 
     // Add shift first, then close dialog
     onShiftCreated?.(optimisticShift);
@@ -218,6 +210,7 @@ export function CreateShiftDialog({
       categoryId: "",
       locationId: defaultLocationId || "",
     });
+    setOverrideReason("");
 
     // API call happens in background
     try {
@@ -232,6 +225,8 @@ export function CreateShiftDialog({
           assignedToId: savedFormData.assignedToId || null,
           categoryId: savedFormData.categoryId || null,
           locationId: savedFormData.locationId || null,
+          overrideConflicts: hasSoftConflicts,
+          overrideReason: hasSoftConflicts ? savedOverrideReason : null,
         }),
       });
 
@@ -247,8 +242,9 @@ export function CreateShiftDialog({
       } else {
         // Rollback the optimistic update and show error
         onShiftRollback?.(tempId);
-        setError(data.error || "Failed to create shift. Please try logging out and back in.");
+        setError(data.conflictError || data.error || "Failed to create shift. Please try logging out and back in.");
         setFormData(savedFormData);
+        setOverrideReason(savedOverrideReason);
         setOpen(true);
       }
     } catch (error) {
@@ -393,28 +389,12 @@ export function CreateShiftDialog({
                 }
               />
             </div>
-            {/* Certification warning */}
-            {checkingCerts && (
-              <div className="text-sm text-muted-foreground">
-                Checking certifications...
-              </div>
-            )}
-            {certWarning && !certWarning.isValid && (
-              <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md text-sm">
-                <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
-                <div className="space-y-1">
-                  <p className="font-medium text-amber-800 dark:text-amber-200">
-                    Certification Warning
-                  </p>
-                  <p className="text-amber-700 dark:text-amber-300">
-                    {certWarning.errorMessage}
-                  </p>
-                  <p className="text-amber-600 dark:text-amber-400 text-xs">
-                    This staff member cannot be assigned to shifts until certifications are up to date.
-                  </p>
-                </div>
-              </div>
-            )}
+            <ShiftConflictWarning
+              conflicts={conflicts}
+              checking={checkingConflicts}
+              overrideReason={overrideReason}
+              onOverrideReasonChange={setOverrideReason}
+            />
             {/* Show calculated break time */}
             {shiftDuration > 0 && (
               <div className="flex items-center gap-2 p-3 bg-muted rounded-md text-sm">
@@ -434,7 +414,7 @@ export function CreateShiftDialog({
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading || (certWarning !== null && !certWarning.isValid)}>
+            <Button type="submit" disabled={loading || isBlockedByConflicts(conflicts, overrideReason)}>
               {loading ? "Creating..." : "Create Shift"}
             </Button>
           </DialogFooter>
@@ -14,6 +14,25 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+
+const DAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+function parseDaysOfWeek(json?: string): number[] {
+  try {
+    return json ? JSON.parse(json) : [];
+  } catch {
+    return [];
+  }
+}
 
 interface Location {
   id: string;
@@ -38,6 +57,7 @@ interface ShiftTemplate {
   category?: ShiftCategory | null;
   locationId?: string | null;
   location?: Location | null;
+  daysOfWeek?: string;
 }
 
 interface CreateTemplateDialogProps {
@@ -68,6 +88,7 @@ export function CreateTemplateDialog({
     defaultTitle: "",
     categoryId: "",
     locationId: "",
+    daysOfWeek: [] as number[],
   });
 
   const isEditing = !!template;
@@ -99,6 +120,7 @@ export function CreateTemplateDialog({
           defaultTitle: template.defaultTitle || "",
           categoryId: template.categoryId || "",
           locationId: template.locationId || "",
+          daysOfWeek: parseDaysOfWeek(template.daysOfWeek),
         });
       } else {
         setFormData({
@@ -108,6 +130,7 @@ export function CreateTemplateDialog({
           defaultTitle: "",
           categoryId: "",
           locationId: defaultLocationId,
+          daysOfWeek: [],
         });
       }
       setError(null);
@@ -142,6 +165,7 @@ export function CreateTemplateDialog({
           defaultTitle: formData.defaultTitle || null,
           categoryId: formData.categoryId || null,
           locationId: formData.locationId || null,
+          daysOfWeek: formData.daysOfWeek,
         }),
       });
 
@@ -188,6 +212,15 @@ export function CreateTemplateDialog({
     }
   };
 
+  const toggleDay = (day: number) => {
+    setFormData({
+      ...formData,
+      daysOfWeek: formData.daysOfWeek.includes(day)
+        ? formData.daysOfWeek.filter((d) => d !== day)
+        : [...formData.daysOfWeek, day].sort((a, b) => a - b),
+    });
+  };
+
   const categoryOptions = [
     { value: "", label: "No Category" },
     ...categories.map((cat) => ({
@@ -265,6 +298,30 @@ export function CreateTemplateDialog({
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Runs On</Label>
+              <div className="flex flex-wrap gap-1">
+                {DAYS.map((day) => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => toggleDay(day.value)}
+                    className={cn(
+                      "px-2.5 py-1 rounded-md border text-xs font-medium transition-colors",
+                      formData.daysOfWeek.includes(day.value)
+                        ? "bg-primary text-primary-foreground border-primary"
+                        : "bg-background hover:bg-muted"
+                    )}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Used when generating a draft rota for the week
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="category">Category</Label>
               <Select
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,6 +16,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
+import {
+  ShiftConflictWarning,
+  useShiftConflicts,
+  isBlockedByConflicts,
+} from "@/components/shift-conflict-warning";
 
 interface ShiftCategory {
   id: string;
@@ -126,6 +131,31 @@ export function EditShiftDialog({
     locationId: shift.location?.id || "",
     scheduledBreakMinutes: shift.scheduledBreakMinutes || 0,
   });
+  const [overrideReason, setOverrideReason] = useState("");
+
+  // Build datetimes from the form, handling overnight shifts
+  const shiftTimes = useMemo(() => {
+    const start = new Date(`${formData.date}T${formData.startTime}`);
+    const end = new Date(`${formData.date}T${formData.endTime}`);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return null;
+    if (end <= start) {
+      end.setDate(end.getDate() + 1);
+    }
+    return { start, end };
+  }, [formData.date, formData.startTime, formData.endTime]);
+
+  // Only check conflicts when the assignee or times have actually changed
+  const assignmentChanged =
+    formData.assignedToId !== (shift.assignedTo?.id || "") ||
+    shiftTimes?.start.getTime() !== new Date(shift.startTime).getTime() ||
+    shiftTimes?.end.getTime() !== new Date(shift.endTime).getTime();
+
+  const { conflicts, checking: checkingConflicts } = useShiftConflicts({
+    userId: assignmentChanged ? formData.assignedToId || null : null,
+    startTime: shiftTimes?.start.toISOString() || null,
+    endTime: shiftTimes?.end.toISOString() || null,
+    shiftId: shift.id,
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -133,14 +163,12 @@ export function EditShiftDialog({
     setError(null);
 
     try {
-      // Build datetime strings
-      const startDateTime = new Date(`${formData.date}T${formData.startTime}`);
-      let endDateTime = new Date(`${formData.date}T${formData.endTime}`);
-
-      // Handle overnight shifts
-      if (endDateTime <= startDateTime) {
-        endDateTime.setDate(endDateTime.getDate() + 1);
+      if (!shiftTimes) {
+        setError("Invalid shift times");
+        return;
       }
+      const { start: startDateTime, end: endDateTime } = shiftTimes;
+      const hasSoftConflicts = !!conflicts && conflicts.softConflicts.length > 0;
 
       const res = await fetch(`/api/shifts/${shift.id}`, {
         method: "PATCH",
@@ -154,12 +182,14 @@ export function EditShiftDialog({
           categoryId: formData.categoryId || null,
           locationId: formData.locationId || null,
           scheduledBreakMinutes: formData.scheduledBreakMinutes,
+          overrideConflicts: hasSoftConflicts,
+          overrideReason: hasSoftConflicts ? overrideReason : null,
         }),
       });
 
       if (!res.ok) {
         const data = await res.json();
-        setError(data.error || "Failed to update shift");
+        setError(data.conflictError || data.error || "Failed to update shift");
         return;
       }
 
@@ -310,6 +340,13 @@ export function EditShiftDialog({
             />
           </div>
 
+          <ShiftConflictWarning
+            conflicts={conflicts}
+            checking={checkingConflicts}
+            overrideReason={overrideReason}
+            onOverrideReasonChange={setOverrideReason}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="location">Location</Label>
             <Select
@@ -444,7 +481,7 @@ export function EditShiftDialog({
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading}>
+            <Button type="submit" disabled={loading || isBlockedByConflicts(conflicts, overrideReason)}>
               {loading ? "Saving..." : "Save Changes"}
             </Button>
           </DialogFooter>
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { saveTimeEntryChange } from "@/components/timesheet-actions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -67,15 +68,19 @@ export function EditTimeEntryDialog({ entry, open, onOpenChange }: EditTimeEntry
         }
       }
 
-      const res = await fetch(`/api/time-entries/${entry.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          clockIn: formData.clockIn ? new Date(formData.clockIn).toISOString() : undefined,
-          clockOut: formData.clockOut ? new Date(formData.clockOut).toISOString() : null,
-          notes: formData.notes || null,
-        }),
-      });
+      // Approved weeks and signed-off pay periods need the change confirming
+      const res = await saveTimeEntryChange((overrides) =>
+        fetch(`/api/time-entries/${entry.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            clockIn: formData.clockIn ? new Date(formData.clockIn).toISOString() : undefined,
+            clockOut: formData.clockOut ? new Date(formData.clockOut).toISOString() : null,
+            notes: formData.notes || null,
+            ...overrides,
+          }),
+        })
+      );
 
       if (!res.ok) {
         const data = await res.json();
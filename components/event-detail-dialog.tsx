@@ -15,7 +15,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Cake, Users, GraduationCap, Trophy, CalendarDays, MapPin, Clock, Pencil, Trash2, AlertTriangle } from "lucide-react";
+import { Cake, Users, GraduationCap, Trophy, Hammer, CalendarDays, MapPin, Clock, Pencil, Trash2, AlertTriangle } from "lucide-react";
 import { formatTime } from "@/lib/utils";
 
 interface Location {
@@ -35,6 +35,7 @@ interface Event {
   color: string;
   location: { id: string; name: string } | null;
   createdBy: { id: string; name: string } | null;
+  sector?: { id: string; name: string } | null;
 }
 
 interface EventDetailDialogProps {
@@ -49,6 +50,7 @@ const EVENT_TYPES = [
   { value: "GROUP", label: "Group Booking", icon: Users },
   { value: "TRAINING", label: "Training", icon: GraduationCap },
   { value: "COMPETITION", label: "Competition", icon: Trophy },
+  { value: "SETTING", label: "Setting Day", icon: Hammer },
   { value: "OTHER", label: "Other", icon: CalendarDays },
 ];
 
@@ -83,7 +85,7 @@ export function EventDetailDialog({
     locationId: event.location?.id || "",
   });
 
-  const eventTypeInfo = EVENT_TYPES.find((t) => t.value === event.eventType) || EVENT_TYPES[4];
+  const eventTypeInfo = EVENT_TYPES.find((t) => t.value === event.eventType) || EVENT_TYPES[EVENT_TYPES.length - 1];
   const EventIcon = eventTypeInfo.icon;
 
   const handleSave = async () => {
@@ -178,6 +180,7 @@ export function EventDetailDialog({
             {!isEditing && (
               <DialogDescription>
                 {eventTypeInfo.label}
+                {event.sector && ` for ${event.sector.name}`}
                 {event.location && ` at ${event.location.name}`}
               </DialogDescription>
             )}
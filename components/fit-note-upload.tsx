@@ -0,0 +1,74 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Paperclip } from "lucide-react";
+
+interface FitNoteUploadProps {
+  onUploaded: (url: string, name: string) => void | Promise<void>;
+  label?: string;
+  disabled?: boolean;
+}
+
+export function FitNoteUpload({ onUploaded, label = "Upload Fit Note", disabled }: FitNoteUploadProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      const formDataUpload = new FormData();
+      formDataUpload.append("file", file);
+      formDataUpload.append("kind", "document");
+
+      const res = await fetch("/api/upload", {
+        method: "POST",
+        body: formDataUpload,
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Upload failed");
+      }
+
+      const { url } = await res.json();
+      await onUploaded(url, file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload fit note");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp,application/pdf"
+        className="hidden"
+        onChange={handleFileUpload}
+      />
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || uploading}
+      >
+        <Paperclip className="mr-1 h-4 w-4" />
+        {uploading ? "Uploading..." : label}
+      </Button>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
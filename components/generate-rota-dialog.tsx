@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Wand2 } from "lucide-react";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface RotaProposal {
+  slot: {
+    key: string;
+    source: "TEMPLATE" | "EVENT";
+    title: string;
+    startTime: string;
+    endTime: string;
+  };
+  assignedToId: string | null;
+  assignedToName: string | null;
+}
+
+interface RotaStaffSummary {
+  userId: string;
+  name: string;
+  contractedHours: number | null;
+  scheduledHours: number;
+  proposedHours: number;
+}
+
+interface GeneratedRota {
+  proposals: RotaProposal[];
+  unfilledCount: number;
+  skippedCount: number;
+  staff: RotaStaffSummary[];
+}
+
+interface GenerateRotaDialogProps {
+  locations: Location[];
+  defaultLocationId?: string | null;
+}
+
+function getNextMonday(): string {
+  const date = new Date();
+  const day = date.getDay();
+  date.setDate(date.getDate() + (day === 0 ? 1 : 8 - day));
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short" });
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+
+export function GenerateRotaDialog({ locations, defaultLocationId }: GenerateRotaDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [weekStart, setWeekStart] = useState(getNextMonday);
+  const [locationId, setLocationId] = useState(defaultLocationId || locations[0]?.id || "");
+  const [preview, setPreview] = useState<GeneratedRota | null>(null);
+
+  const generate = async (previewOnly: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/shifts/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weekStart, locationId, preview: previewOnly }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to generate rota");
+        return;
+      }
+
+      if (previewOnly) {
+        setPreview(data);
+      } else {
+        setOpen(false);
+        setPreview(null);
+        router.refresh();
+      }
+    } catch (error) {
+      console.error("Failed to generate rota:", error);
+      setError("Failed to generate rota. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const locationOptions = locations.map((loc) => ({ value: loc.id, label: loc.name }));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Wand2 className="mr-2 h-4 w-4" />
+          Generate Rota
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Generate Draft Rota</DialogTitle>
+          <DialogDescription>
+            Fill a week from your shift templates and events. Shifts are created as drafts you can adjust before publishing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4 overflow-y-auto flex-1 pr-2">
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="weekStart">Week Starting (Monday)</Label>
+              <Input
+                id="weekStart"
+                type="date"
+                value={weekStart}
+                onChange={(e) => {
+                  setWeekStart(e.target.value);
+                  setPreview(null);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rotaLocation">Location</Label>
+              <Select
+                id="rotaLocation"
+                options={locationOptions}
+                value={locationId}
+                onChange={(e) => {
+                  setLocationId(e.target.value);
+                  setPreview(null);
+                }}
+              />
+            </div>
+          </div>
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{preview.proposals.length} new shifts</Badge>
+                {preview.unfilledCount > 0 && (
+                  <Badge variant="warning">{preview.unfilledCount} left open</Badge>
+                )}
+                {preview.skippedCount > 0 && (
+                  <Badge variant="outline">{preview.skippedCount} already on the rota</Badge>
+                )}
+              </div>
+
+              {preview.proposals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nothing to generate. Check your templates have days selected for this location.
+                </p>
+              ) : (
+                <div className="border rounded-md divide-y text-sm">
+                  {preview.proposals.map((p) => (
+                    <div key={p.slot.key} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <div>
+                        <p className="font-medium">{p.slot.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDay(p.slot.startTime)} · {formatTime(p.slot.startTime)} - {formatTime(p.slot.endTime)}
+                        </p>
+                      </div>
+                      {p.assignedToName ? (
+                        <span>{p.assignedToName}</span>
+                      ) : (
+                        <Badge variant="warning">Open shift</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {preview.staff.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium">Hours this week</p>
+                  <div className="border rounded-md divide-y text-sm">
+                    {preview.staff.map((s) => (
+                      <div key={s.userId} className="flex items-center justify-between px-3 py-1.5">
+                        <span>{s.name}</span>
+                        <span className="text-muted-foreground">
+                          {(s.scheduledHours + s.proposedHours).toFixed(1)}h
+                          {s.contractedHours ? ` / ${s.contractedHours}h contracted` : ""}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="flex-shrink-0 pt-4 border-t mt-4">
+          <Button type="button" variant="outline" onClick={() => generate(true)} disabled={loading || !locationId}>
+            {loading && !preview ? "Generating..." : "Preview"}
+          </Button>
+          <Button
+            type="button"
+            onClick={() => generate(false)}
+            disabled={loading || !preview || preview.proposals.length === 0}
+          >
+            {loading && preview ? "Creating..." : "Create Draft Shifts"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,22 +4,59 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Check, X } from "lucide-react";
+import { formatDateTime } from "@/lib/utils";
+
+interface LeaveClashResponse {
+  clashError: string;
+  shifts: { title: string; startTime: string; location: { name: string } | null }[];
+}
+
+/**
+ * Show the leave rules an absence breaks and the shifts that would need
+ * reassigning, and ask whether to go ahead anyway
+ */
+export function confirmLeaveClashes(data: LeaveClashResponse): boolean {
+  const shifts = data.shifts.map(
+    (s) => `- ${s.title} (${formatDateTime(s.startTime)}${s.location ? `, ${s.location.name}` : ""})`
+  );
+  return confirm(
+    `This breaks the leave rules:\n${data.clashError}` +
+      (shifts.length > 0 ? `\n\nShifts to reassign:\n${shifts.join("\n")}` : "") +
+      "\n\nApprove anyway?"
+  );
+}
 
 interface HolidayActionsProps {
   requestId: string;
   isManager: boolean;
   isOwner: boolean;
+  // Approved requests can only be cancelled, which returns the hours
+  isApproved?: boolean;
+  // Some absence types can only be approved by an admin
+  canApprove?: boolean;
+  label?: string;
+  usesBalance?: boolean;
 }
 
 export function HolidayActions({
   requestId,
   isManager,
   isOwner,
+  isApproved = false,
+  canApprove = isManager,
+  label = "Holiday",
+  usesBalance = true,
 }: HolidayActionsProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
 
   const handleAction = async (status: "APPROVED" | "REJECTED" | "CANCELLED") => {
+    const message = usesBalance
+      ? `Cancel this ${label.toLowerCase()}? The hours will go back on the balance.`
+      : `Cancel this ${label.toLowerCase()}?`;
+    if (isApproved && !confirm(message)) {
+      return;
+    }
     setLoading(true);
     try {
       if (status === "CANCELLED") {
@@ -27,11 +64,21 @@ export function HolidayActions({
           method: "DELETE",
         });
       } else {
-        await fetch(`/api/holidays/${requestId}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ status }),
-        });
+        const update = (overrideClashes: boolean) =>
+          fetch(`/api/holidays/${requestId}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ status, overrideClashes }),
+          });
+        const res = await update(false);
+        if (res.status === 409) {
+          const data = await res.json();
+          if (data.code !== "LEAVE_CLASH") {
+            alert(data.error);
+          } else if (confirmLeaveClashes(data)) {
+            await update(true);
+          }
+        }
       }
       router.refresh();
     } catch (error) {
@@ -41,9 +88,22 @@ export function HolidayActions({
     }
   };
 
+  if (isApproved) {
+    return (isOwner || isManager) ? (
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => handleAction("CANCELLED")}
+        disabled={loading}
+      >
+        Cancel {label}
+      </Button>
+    ) : null;
+  }
+
   return (
     <div className="flex gap-2">
-      {isManager && (
+      {canApprove && (
         <>
           <Button
             size="sm"
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+
+interface LeaveYear {
+  start: string;
+  end: string;
+  label: string;
+}
+
+interface LedgerEntry {
+  id: string;
+  type: string;
+  hours: number;
+  description: string;
+  createdAt: string;
+  createdBy: { name: string } | null;
+}
+
+interface Ledger {
+  leaveYear: LeaveYear;
+  currentLeaveYearStart: string;
+  years: LeaveYear[];
+  balance: number;
+  entries: LedgerEntry[];
+}
+
+interface HolidayLedgerProps {
+  userId: string;
+  // Managers can add adjustments to the current leave year
+  canAdjust?: boolean;
+  onAdjusted?: (balance: number) => void;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  OPENING_BALANCE: "Opening balance",
+  ENTITLEMENT: "Entitlement",
+  CARRY_OVER: "Carry-over",
+  BANK_HOLIDAY: "Bank holiday",
+  ACCRUAL: "Accrual",
+  REQUEST_APPROVED: "Holiday taken",
+  REQUEST_CANCELLED: "Holiday returned",
+  ADJUSTMENT: "Adjustment",
+};
+
+const formatHours = (hours: number) => `${hours > 0 ? "+" : ""}${Math.round(hours * 100) / 100}h`;
+
+export function HolidayLedger({ userId, canAdjust = false, onAdjusted }: HolidayLedgerProps) {
+  const [ledger, setLedger] = useState<Ledger | null>(null);
+  const [year, setYear] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [adjustment, setAdjustment] = useState({ hours: "", reason: "" });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [userId, year]);
+
+  const fetchLedger = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ userId });
+      if (year) params.set("year", year);
+      const res = await fetch(`/api/holidays/ledger?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load holiday ledger");
+      }
+      setLedger(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/holidays/ledger", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          hours: parseFloat(adjustment.hours) || 0,
+          reason: adjustment.reason,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to adjust balance");
+      }
+      setAdjustment({ hours: "", reason: "" });
+      onAdjusted?.(data.balance);
+      await fetchLedger();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !ledger) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  if (!ledger) {
+    return (
+      <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+        {error || "Failed to load holiday ledger"}
+      </div>
+    );
+  }
+
+  const isCurrentYear = ledger.leaveYear.start === ledger.currentLeaveYearStart;
+  let running = 0;
+  const rows = ledger.entries.map((entry) => {
+    running += entry.hours;
+    return { ...entry, balance: Math.round(running * 100) / 100 };
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-2xl font-bold">{ledger.balance}h</p>
+          <p className="text-xs text-muted-foreground">
+            Balance for {ledger.leaveYear.label} ({ledger.leaveYear.start} to {ledger.leaveYear.end})
+          </p>
+        </div>
+        {ledger.years.length > 1 && (
+          <Select
+            value={ledger.leaveYear.start}
+            onChange={(e) => setYear(e.target.value)}
+            options={ledger.years.map((y) => ({ value: y.start, label: y.label }))}
+            className="w-32"
+            aria-label="Leave year"
+          />
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground border rounded-lg">
+          <p className="font-medium">No balance movements yet</p>
+          <p className="text-sm">The leave year is opened overnight</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 font-medium">Date</th>
+                <th className="text-left py-2 font-medium">Details</th>
+                <th className="text-right py-2 font-medium">Change</th>
+                <th className="text-right py-2 font-medium">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((entry) => (
+                <tr key={entry.id} className="border-b last:border-0 align-top">
+                  <td className="py-2 pr-2 whitespace-nowrap text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleDateString("en-GB", {
+                      day: "numeric",
+                      month: "short",
+                      year: "numeric",
+                    })}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <Badge variant="outline" className="mr-2">
+                      {TYPE_LABELS[entry.type] || entry.type}
+                    </Badge>
+                    {entry.description}
+                    {entry.createdBy && (
+                      <span className="text-xs text-muted-foreground"> by {entry.createdBy.name}</span>
+                    )}
+                  </td>
+                  <td className={`py-2 text-right whitespace-nowrap ${entry.hours < 0 ? "text-red-600" : "text-green-600"}`}>
+                    {formatHours(entry.hours)}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap font-medium">{entry.balance}h</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canAdjust && isCurrentYear && (
+        <form onSubmit={handleAdjust} className="space-y-3 p-3 bg-muted rounded-md">
+          <p className="text-sm font-medium">Adjust balance</p>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="adjustmentHours">Hours</Label>
+              <Input
+                id="adjustmentHours"
+                type="number"
+                step="0.5"
+                placeholder="e.g. -7.5"
+                value={adjustment.hours}
+                onChange={(e) => setAdjustment({ ...adjustment, hours: e.target.value })}
+                required
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="adjustmentReason">Reason</Label>
+              <Input
+                id="adjustmentReason"
+                placeholder="e.g. Extra day for long service"
+                value={adjustment.reason}
+                onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Use a negative number to take hours away
+          </p>
+          <Button type="submit" size="sm" disabled={saving}>
+            {saving ? "Saving..." : "Add Adjustment"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -3,61 +3,139 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { FitNoteUpload } from "@/components/fit-note-upload";
+import { confirmLeaveClashes } from "@/components/holiday-actions";
+import {
+  ABSENCE_TYPES,
+  ABSENCE_TYPE_RULES,
+  SELF_CERTIFICATION_DAYS,
+  getSicknessEvidence,
+  type AbsenceType,
+} from "@/lib/absence-types";
 
 interface HolidayRequestFormProps {
   maxHours: number;
+  // Current leave year; requests after it are checked against next year's balance
+  leaveYearLabel: string;
+  leaveYearEnd: string;
+  toilBalance: number;
+  // Managers can record absence for their staff
+  staff?: { id: string; name: string }[];
 }
 
-export function HolidayRequestForm({ maxHours }: HolidayRequestFormProps) {
+const TYPE_OPTIONS = ABSENCE_TYPES.map((type) => ({
+  value: type,
+  label: ABSENCE_TYPE_RULES[type].label,
+}));
+
+const EMPTY_FORM = {
+  type: "HOLIDAY" as AbsenceType,
+  userId: "",
+  startDate: "",
+  endDate: "",
+  hours: "",
+  reason: "",
+  selfCertified: false,
+  documentUrl: "",
+  documentName: "",
+};
+
+export function HolidayRequestForm({
+  maxHours,
+  leaveYearLabel,
+  leaveYearEnd,
+  toilBalance,
+  staff,
+}: HolidayRequestFormProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
-  const [formData, setFormData] = useState({
-    startDate: "",
-    endDate: "",
-    hours: "",
-    reason: "",
-  });
+  const [warning, setWarning] = useState("");
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const rules = ABSENCE_TYPE_RULES[formData.type];
+  const forSomeoneElse = !!formData.userId;
+  const isSick = formData.type === "SICK";
+  const evidence =
+    isSick && formData.startDate && formData.endDate
+      ? getSicknessEvidence(
+          new Date(`${formData.startDate}T00:00:00Z`),
+          new Date(`${formData.endDate}T00:00:00Z`)
+        )
+      : null;
+  const today = new Date().toISOString().split("T")[0];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+    setWarning("");
 
     const requestedHours = parseInt(formData.hours) || 0;
     if (requestedHours <= 0) {
-      setError("Please enter the number of hours requested");
+      setError("Please enter the number of hours");
       return;
     }
-    if (requestedHours > maxHours) {
-      setError(`You only have ${maxHours} hours available`);
-      return;
+    // Someone else's balances are checked when the absence is saved
+    if (!forSomeoneElse) {
+      if (rules.balance === "HOLIDAY" && formData.startDate <= leaveYearEnd && requestedHours > maxHours) {
+        setError(`You only have ${maxHours} hours available`);
+        return;
+      }
+      if (rules.balance === "TOIL" && requestedHours > toilBalance) {
+        setError(`You only have ${toilBalance} hours of TOIL available`);
+        return;
+      }
+      if (evidence === "SELF_CERTIFICATION" && !formData.selfCertified && !formData.documentUrl) {
+        setError("Please confirm the self-certification");
+        return;
+      }
     }
 
     setLoading(true);
 
     try {
-      const res = await fetch("/api/holidays", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          startDate: formData.startDate,
-          endDate: formData.endDate,
-          hours: requestedHours,
-          reason: formData.reason,
-        }),
-      });
-
-      const data = await res.json();
+      const submit = (overrideClashes: boolean) =>
+        fetch("/api/holidays", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            type: formData.type,
+            userId: formData.userId || undefined,
+            startDate: formData.startDate,
+            endDate: formData.endDate,
+            hours: requestedHours,
+            reason: formData.reason,
+            selfCertified: formData.selfCertified,
+            documentUrl: formData.documentUrl || undefined,
+            documentName: formData.documentName || undefined,
+            overrideClashes,
+          }),
+        });
+
+      let res = await submit(false);
+      let data = await res.json();
+
+      // Recording approved absence that breaks the leave rules needs confirming
+      if (res.status === 409 && data.code === "LEAVE_CLASH") {
+        if (!confirmLeaveClashes(data)) return;
+        res = await submit(true);
+        data = await res.json();
+      }
 
       if (!res.ok) {
         setError(data.error || "Failed to submit request");
         return;
       }
 
-      setFormData({ startDate: "", endDate: "", hours: "", reason: "" });
+      if (data.clashes?.length > 0 && data.status === "PENDING") {
+        setWarning("Submitted, but the dates clash with the leave rules, so your manager may not be able to approve it.");
+      }
+      setFormData(EMPTY_FORM);
       router.refresh();
     } catch {
       setError("Something went wrong");
@@ -69,10 +147,40 @@ export function HolidayRequestForm({ maxHours }: HolidayRequestFormProps) {
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {error && (
-        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md whitespace-pre-line">
           {error}
         </div>
       )}
+      {warning && (
+        <div className="p-3 text-sm text-amber-700 bg-amber-50 rounded-md">
+          {warning}
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="type">Type</Label>
+          <Select
+            id="type"
+            value={formData.type}
+            onChange={(e) => setFormData({ ...formData, type: e.target.value as AbsenceType })}
+            options={TYPE_OPTIONS}
+          />
+        </div>
+        {staff && staff.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="userId">For</Label>
+            <Select
+              id="userId"
+              value={formData.userId}
+              onChange={(e) => setFormData({ ...formData, userId: e.target.value, selfCertified: false })}
+              options={[
+                { value: "", label: "Myself" },
+                ...staff.map((member) => ({ value: member.id, label: member.name })),
+              ]}
+            />
+          </div>
+        )}
+      </div>
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label htmlFor="startDate">Start Date</Label>
@@ -83,7 +191,8 @@ export function HolidayRequestForm({ maxHours }: HolidayRequestFormProps) {
             onChange={(e) =>
               setFormData({ ...formData, startDate: e.target.value })
             }
-            min={new Date().toISOString().split("T")[0]}
+            // Sickness and absence recorded by a manager can be in the past
+            min={isSick || forSomeoneElse ? undefined : today}
             required
           />
         </div>
@@ -96,41 +205,98 @@ export function HolidayRequestForm({ maxHours }: HolidayRequestFormProps) {
             onChange={(e) =>
               setFormData({ ...formData, endDate: e.target.value })
             }
-            min={formData.startDate || new Date().toISOString().split("T")[0]}
+            min={formData.startDate || (isSick || forSomeoneElse ? undefined : today)}
             required
           />
         </div>
       </div>
       <div className="space-y-2">
-        <Label htmlFor="hours">Hours Requested</Label>
+        <Label htmlFor="hours">Hours</Label>
         <Input
           id="hours"
           type="number"
           min="1"
-          max={maxHours}
           placeholder="e.g., 8"
           value={formData.hours}
           onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
           required
         />
         <p className="text-xs text-muted-foreground">
-          Enter the total hours you're requesting off
+          The total working hours the absence covers
         </p>
       </div>
       <div className="space-y-2">
         <Label htmlFor="reason">Reason (optional)</Label>
         <Textarea
           id="reason"
-          placeholder="e.g., Family vacation, Personal day..."
+          placeholder={isSick ? "e.g., Flu" : "e.g., Family vacation, Personal day..."}
           value={formData.reason}
           onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
         />
       </div>
-      <p className="text-sm text-muted-foreground">
-        You have <span className="font-medium">{maxHours}</span> hours available
-      </p>
-      <Button type="submit" disabled={loading || maxHours === 0}>
-        {loading ? "Submitting..." : "Submit Request"}
+
+      {evidence === "SELF_CERTIFICATION" && !forSomeoneElse && (
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="selfCertified"
+            checked={formData.selfCertified}
+            onCheckedChange={(checked) => setFormData({ ...formData, selfCertified: checked })}
+          />
+          <Label htmlFor="selfCertified" className="text-sm font-normal leading-snug">
+            I confirm I was unfit for work for these days. Sickness of up to {SELF_CERTIFICATION_DAYS}{" "}
+            days is self-certified.
+          </Label>
+        </div>
+      )}
+      {evidence === "FIT_NOTE" && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Sickness of more than {SELF_CERTIFICATION_DAYS} days needs a fit note. You can add it
+            now or once you have it.
+          </p>
+          {formData.documentUrl ? (
+            <p className="text-sm">
+              Attached: <span className="font-medium">{formData.documentName || "Fit note"}</span>{" "}
+              <button
+                type="button"
+                className="text-xs text-muted-foreground underline"
+                onClick={() => setFormData({ ...formData, documentUrl: "", documentName: "" })}
+              >
+                Remove
+              </button>
+            </p>
+          ) : (
+            <FitNoteUpload
+              onUploaded={(url, name) => setFormData({ ...formData, documentUrl: url, documentName: name })}
+            />
+          )}
+        </div>
+      )}
+
+      {!forSomeoneElse && rules.balance === "HOLIDAY" && (
+        <p className="text-sm text-muted-foreground">
+          You have <span className="font-medium">{maxHours}</span> hours available in the{" "}
+          {leaveYearLabel} leave year
+        </p>
+      )}
+      {!forSomeoneElse && rules.balance === "TOIL" && (
+        <p className="text-sm text-muted-foreground">
+          You have <span className="font-medium">{toilBalance}</span> hours of TOIL available
+        </p>
+      )}
+      {rules.approver === null && (
+        <p className="text-sm text-muted-foreground">
+          Sickness is recorded straight away and your manager is told.
+        </p>
+      )}
+      {rules.approver === "ADMIN" && (
+        <p className="text-sm text-muted-foreground">
+          {rules.label} is approved by an admin.
+          {rules.pay !== "PAID" && " Salaried pay stops for the hours taken."}
+        </p>
+      )}
+      <Button type="submit" disabled={loading}>
+        {loading ? "Submitting..." : isSick || forSomeoneElse ? "Record Absence" : "Submit Request"}
       </Button>
     </form>
   );
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History, RefreshCw, RotateCcw } from "lucide-react";
+
+interface JobRun {
+  id: string;
+  attempt: number;
+  status: string;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface Job {
+  id: string;
+  type: string;
+  status: string;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  result: string | null;
+  finishedAt: string | null;
+  runs: JobRun[];
+}
+
+const JOB_LABELS: Record<string, string> = {
+  SCHEDULE_SHIFT_REMINDERS: "Queue shift reminders",
+  SHIFT_REMINDER: "Shift reminder",
+  FLAG_MISSED_CLOCK_OUTS: "Flag missed clock-outs",
+  CERTIFICATION_EXPIRY: "Certification expiry",
+  SEND_DEFERRED_PUSH: "Push after quiet hours",
+  SEND_NOTIFICATION_DIGESTS: "Daily digest emails",
+  SEND_MANAGER_DIGESTS: "Manager digests",
+  UPDATE_LEAVE_BALANCES: "Holiday and TOIL balances",
+};
+
+const STATUS_VARIANTS: Record<string, "success" | "destructive" | "warning" | "secondary"> = {
+  SUCCEEDED: "success",
+  FAILED: "destructive",
+  RUNNING: "warning",
+  PENDING: "secondary",
+};
+
+const STATUS_FILTERS = ["ALL", "PENDING", "SUCCEEDED", "FAILED"];
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function JobHistory() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("ALL");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs(statusFilter);
+  }, [statusFilter]);
+
+  const fetchJobs = async (status: string) => {
+    setLoading(true);
+    try {
+      const query = status === "ALL" ? "" : `?status=${status}`;
+      const res = await fetch(`/api/jobs${query}`);
+      if (res.ok) {
+        setJobs(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch jobs:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetry = async (id: string) => {
+    setRetryingId(id);
+    try {
+      const res = await fetch(`/api/jobs/${id}/retry`, { method: "POST" });
+      if (res.ok) {
+        fetchJobs(statusFilter);
+      } else {
+        const data = await res.json();
+        alert(data.error || "Failed to retry job");
+      }
+    } catch (error) {
+      console.error("Failed to retry job:", error);
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Background Jobs
+            </CardTitle>
+            <CardDescription>
+              Shift reminders, missed clock-out checks and certification expiry run at your
+              organization&apos;s local time
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="icon" onClick={() => fetchJobs(statusFilter)}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2 mb-4">
+          {STATUS_FILTERS.map((status) => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? "default" : "outline"}
+              size="sm"
+              onClick={() => setStatusFilter(status)}
+            >
+              {status === "ALL" ? "All" : status.charAt(0) + status.slice(1).toLowerCase()}
+            </Button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading...</div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground border rounded-lg">
+            <p className="font-medium">No jobs yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {jobs.map((job) => (
+              <div key={job.id} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    className="flex-1 text-left"
+                    onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{JOB_LABELS[job.type] || job.type}</span>
+                      <Badge variant={STATUS_VARIANTS[job.status] || "secondary"}>
+                        {job.status.toLowerCase()}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {job.status === "PENDING" ? "Due" : "Scheduled"} {formatDateTime(job.runAt)}
+                      {" · "}
+                      {job.attempts}/{job.maxAttempts} attempts
+                    </div>
+                    {job.lastError && job.status !== "SUCCEEDED" && (
+                      <p className="text-sm text-destructive mt-1">{job.lastError}</p>
+                    )}
+                  </button>
+                  {job.status === "FAILED" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={retryingId === job.id}
+                      onClick={() => handleRetry(job.id)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+
+                {expandedId === job.id && (
+                  <div className="mt-3 space-y-1 text-sm border-t pt-3">
+                    {job.runs.length === 0 ? (
+                      <p className="text-muted-foreground">Not run yet</p>
+                    ) : (
+                      job.runs.map((run) => (
+                        <div key={run.id} className="flex items-start gap-2">
+                          <Badge variant={STATUS_VARIANTS[run.status] || "secondary"}>
+                            #{run.attempt}
+                          </Badge>
+                          <span className="text-muted-foreground">
+                            {formatDateTime(run.startedAt)}
+                          </span>
+                          {run.error && <span className="text-destructive">{run.error}</span>}
+                        </div>
+                      ))
+                    )}
+                    {job.result && (
+                      <pre className="text-xs bg-muted rounded p-2 mt-2 overflow-x-auto">
+                        {job.result}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle2, Delete, Loader2, LogOut, Clock, Camera } from "lucide-react";
+
+interface KioskStaff {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+  clockedIn: boolean;
+  onBreak: boolean;
+}
+
+interface KioskClockProps {
+  token: string;
+  kioskName: string;
+  locationName: string;
+}
+
+interface KioskResult {
+  type: "success" | "warning";
+  message: string;
+}
+
+const RESULT_SECONDS = 5;
+const SNAPSHOT_WIDTH = 320;
+
+export function KioskClock({ token, kioskName, locationName }: KioskClockProps) {
+  const [staff, setStaff] = useState<KioskStaff[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<KioskStaff | null>(null);
+  const [pin, setPin] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<KioskResult | null>(null);
+  const [now, setNow] = useState(new Date());
+  const [cameraReady, setCameraReady] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const fetchStaff = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/kiosk/${token}`);
+      if (res.ok) {
+        const data = await res.json();
+        setStaff(data.staff);
+      }
+    } catch (error) {
+      console.error("Failed to fetch kiosk staff:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchStaff();
+    const interval = setInterval(fetchStaff, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [fetchStaff]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setCameraReady(false);
+  }, []);
+
+  // The camera is optional: without one (or without permission) staff can
+  // still clock in, just without a snapshot
+  useEffect(() => {
+    if (!selected || selected.clockedIn || !navigator.mediaDevices?.getUserMedia) return;
+
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "user" }, audio: false })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          setCameraReady(true);
+        }
+      })
+      .catch((err) => console.error("Camera unavailable:", err));
+
+    return () => {
+      cancelled = true;
+      stopCamera();
+    };
+  }, [selected, stopCamera]);
+
+  const reset = useCallback(() => {
+    setSelected(null);
+    setPin("");
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    if (!result) return;
+    const timeout = setTimeout(() => setResult(null), RESULT_SECONDS * 1000);
+    return () => clearTimeout(timeout);
+  }, [result]);
+
+  const takeSnapshot = (): string | null => {
+    const video = videoRef.current;
+    if (!cameraReady || !video || !video.videoWidth) return null;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SNAPSHOT_WIDTH;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * SNAPSHOT_WIDTH);
+    canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.7);
+  };
+
+  const handleSubmit = async () => {
+    if (!selected || pin.length < 4) return;
+
+    const action = selected.clockedIn ? "out" : "in";
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/kiosk/${token}/clock`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: selected.id,
+          pin,
+          action,
+          photo: action === "in" ? takeSnapshot() : null,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || `Failed to clock ${action}`);
+        setPin("");
+        return;
+      }
+
+      const notice = action === "in" ? data.flagReason : data.warning;
+      setResult({
+        type: notice ? "warning" : "success",
+        message: notice || (action === "in"
+          ? `Welcome, ${data.name}. You're clocked in.`
+          : `Thanks, ${data.name}. You're clocked out.`),
+      });
+      reset();
+      fetchStaff();
+    } catch (error) {
+      console.error("Kiosk clock failed:", error);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const pressDigit = (digit: string) => {
+    setError(null);
+    setPin((current) => (current.length < 6 ? current + digit : current));
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30 flex flex-col">
+      <header className="bg-primary text-primary-foreground p-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">{locationName}</h1>
+          <p className="text-sm opacity-90">{kioskName}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-bold tabular-nums">
+            {now.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}
+          </p>
+          <p className="text-sm opacity-90">
+            {now.toLocaleDateString("en-GB", { weekday: "long", day: "numeric", month: "long" })}
+          </p>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 max-w-4xl w-full mx-auto space-y-6">
+        {result && (
+          <div
+            className={`flex items-center gap-3 p-4 rounded-lg text-lg ${
+              result.type === "success" ? "bg-green-100 text-green-800" : "bg-amber-100 text-amber-800"
+            }`}
+          >
+            {result.type === "success" ? (
+              <CheckCircle2 className="h-6 w-6 flex-shrink-0" />
+            ) : (
+              <AlertCircle className="h-6 w-6 flex-shrink-0" />
+            )}
+            <span>{result.message}</span>
+          </div>
+        )}
+
+        {selected ? (
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-2xl font-bold">{selected.name}</p>
+                  <p className="text-muted-foreground">
+                    Enter your PIN to clock {selected.clockedIn ? "out" : "in"}
+                  </p>
+                </div>
+                <Button variant="outline" onClick={reset} disabled={submitting}>
+                  Cancel
+                </Button>
+              </div>
+
+              {selected.onBreak && (
+                <div className="flex items-start gap-2 p-3 text-sm text-amber-700 bg-amber-50 rounded-md">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>You&apos;re on a break. End it on your phone before clocking out.</span>
+                </div>
+              )}
+
+              {error && (
+                <div className="flex items-start gap-2 p-3 text-sm text-red-600 bg-red-50 rounded-md">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <div className="grid gap-6 md:grid-cols-2">
+                {!selected.clockedIn && (
+                  <div className="space-y-2">
+                    <div className="relative aspect-[4/3] bg-muted rounded-lg overflow-hidden">
+                      <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                      {!cameraReady && (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
+                          <Camera className="h-8 w-8 mb-2" />
+                          <span className="text-sm">No camera</span>
+                        </div>
+                      )}
+                    </div>
+                    {cameraReady && (
+                      <p className="text-xs text-muted-foreground text-center">
+                        A photo is taken when you clock in
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className={`space-y-4 ${selected.clockedIn ? "md:col-span-2 max-w-sm mx-auto w-full" : ""}`}>
+                  <div className="flex justify-center gap-3 h-6">
+                    {Array.from({ length: Math.max(4, pin.length) }).map((_, i) => (
+                      <span
+                        key={i}
+                        className={`h-4 w-4 rounded-full border-2 border-primary ${i < pin.length ? "bg-primary" : ""}`}
+                      />
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    {["1", "2", "3", "4", "5", "6", "7", "8", "9"].map((digit) => (
+                      <Button
+                        key={digit}
+                        variant="outline"
+                        className="h-16 text-2xl"
+                        onClick={() => pressDigit(digit)}
+                        disabled={submitting}
+                      >
+                        {digit}
+                      </Button>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      className="h-16"
+                      onClick={() => setPin("")}
+                      disabled={submitting}
+                    >
+                      Clear
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="h-16 text-2xl"
+                      onClick={() => pressDigit("0")}
+                      disabled={submitting}
+                    >
+                      0
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      className="h-16"
+                      onClick={() => setPin((current) => current.slice(0, -1))}
+                      disabled={submitting}
+                      title="Delete"
+                    >
+                      <Delete className="h-6 w-6" />
+                    </Button>
+                  </div>
+                  <Button
+                    size="lg"
+                    variant={selected.clockedIn ? "destructive" : "default"}
+                    className="w-full h-16 text-lg"
+                    onClick={handleSubmit}
+                    disabled={submitting || pin.length < 4}
+                  >
+                    {submitting ? (
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    ) : selected.clockedIn ? (
+                      <LogOut className="mr-2 h-5 w-5" />
+                    ) : (
+                      <Clock className="mr-2 h-5 w-5" />
+                    )}
+                    {selected.clockedIn ? "Clock Out" : "Clock In"}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : staff.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              No staff have set a kiosk PIN for {locationName} yet. Staff can set one in their settings.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-lg font-medium">Tap your name</p>
+            <div className="grid gap-3 grid-cols-2 sm:grid-cols-3 md:grid-cols-4">
+              {staff.map((person) => (
+                <button
+                  key={person.id}
+                  type="button"
+                  onClick={() => {
+                    setResult(null);
+                    setSelected(person);
+                  }}
+                  className="flex flex-col items-center gap-2 p-4 bg-background border rounded-lg hover:border-primary transition-colors"
+                >
+                  <span className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10 text-lg font-semibold text-primary">
+                    {person.name.charAt(0).toUpperCase()}
+                  </span>
+                  <span className="font-medium text-center">{person.name}</span>
+                  {person.clockedIn && (
+                    <Badge variant={person.onBreak ? "secondary" : "default"}>
+                      {person.onBreak ? "On Break" : "Clocked In"}
+                    </Badge>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
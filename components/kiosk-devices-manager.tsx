@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select } from "@/components/ui/select";
+import { Copy, Check, ExternalLink, Trash2 } from "lucide-react";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface KioskDevice {
+  id: string;
+  name: string;
+  url: string;
+  lastUsedAt: string | null;
+  location: Location;
+}
+
+interface KioskDevicesManagerProps {
+  locations: Location[];
+}
+
+export function KioskDevicesManager({ locations }: KioskDevicesManagerProps) {
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [name, setName] = useState("Front desk");
+  const [locationId, setLocationId] = useState(locations[0]?.id || "");
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const fetchDevices = async () => {
+    try {
+      const res = await fetch("/api/kiosks");
+      if (res.ok) {
+        setDevices(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch kiosks:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createDevice = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/kiosks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, locationId }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        await fetchDevices();
+      } else {
+        setError(data.error || "Failed to set up kiosk");
+      }
+    } catch (error) {
+      console.error("Failed to set up kiosk:", error);
+      setError("Failed to set up kiosk");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeDevice = async (device: KioskDevice) => {
+    if (!confirm(`Remove ${device.name}? The tablet will stop working straight away.`)) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/kiosks/${device.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to remove kiosk");
+        return;
+      }
+      await fetchDevices();
+    } catch (error) {
+      console.error("Failed to remove kiosk:", error);
+      setError("Failed to remove kiosk");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyUrl = async (device: KioskDevice) => {
+    try {
+      await navigator.clipboard.writeText(device.url);
+      setCopiedId(device.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy kiosk URL:", error);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Open a kiosk link on a shared tablet and staff at that location can clock in and out with their PIN.
+        Anyone with the link can use the kiosk, so remove it if the tablet goes missing.
+      </p>
+
+      {devices.map((device) => (
+        <div key={device.id} className="flex flex-col gap-2 p-3 border rounded-lg sm:flex-row sm:items-center sm:justify-between">
+          <div className="min-w-0">
+            <p className="font-medium">
+              {device.name} <span className="text-muted-foreground font-normal">· {device.location.name}</span>
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {device.lastUsedAt
+                ? `Last used ${new Date(device.lastUsedAt).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}`
+                : "Not used yet"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" asChild>
+              <a href={device.url} target="_blank" rel="noreferrer">
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Open
+              </a>
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => copyUrl(device)} title="Copy link">
+              {copiedId === device.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => revokeDevice(device)} disabled={saving} title="Remove">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {locations.length > 0 && (
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Kiosk name"
+            className="sm:w-48"
+          />
+          <div className="flex-1">
+            <Select
+              options={locations.map((loc) => ({ value: loc.id, label: loc.name }))}
+              value={locationId}
+              onChange={(e) => setLocationId(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={createDevice} disabled={saving || !name.trim() || !locationId}>
+            Add Kiosk
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
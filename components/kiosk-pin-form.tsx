@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface KioskPinFormProps {
+  hasPin: boolean;
+}
+
+export function KioskPinForm({ hasPin: initialHasPin }: KioskPinFormProps) {
+  const [hasPin, setHasPin] = useState(initialHasPin);
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState("");
+  const [error, setError] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+
+    if (pin !== confirmPin) {
+      setError("PINs do not match");
+      return;
+    }
+
+    if (!/^\d{4,6}$/.test(pin)) {
+      setError("PIN must be 4 to 6 digits");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/settings/kiosk-pin", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pin }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to set PIN");
+        return;
+      }
+
+      setHasPin(true);
+      setSuccess("PIN saved");
+      setPin("");
+      setConfirmPin("");
+    } catch {
+      setError("Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm("Remove your PIN? You won't be able to clock in on the front desk kiosk.")) return;
+    setError("");
+    setSuccess("");
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/settings/kiosk-pin", { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to remove PIN");
+        return;
+      }
+      setHasPin(false);
+      setSuccess("PIN removed");
+    } catch {
+      setError("Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {success && (
+        <div className="p-3 text-sm text-green-600 bg-green-50 rounded-md">
+          {success}
+        </div>
+      )}
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded-md">
+          {error}
+        </div>
+      )}
+      <p className="text-sm text-muted-foreground">
+        {hasPin
+          ? "You have a PIN set. Enter a new one to change it."
+          : "Set a PIN to clock in and out on the front desk kiosk."}
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="kioskPin">{hasPin ? "New PIN" : "PIN"}</Label>
+          <Input
+            id="kioskPin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirmKioskPin">Confirm PIN</Label>
+          <Input
+            id="confirmKioskPin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={6}
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+            required
+          />
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={loading}>
+          {loading ? "Saving..." : hasPin ? "Change PIN" : "Set PIN"}
+        </Button>
+        {hasPin && (
+          <Button type="button" variant="outline" onClick={handleRemove} disabled={loading}>
+            Remove PIN
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Plus, Trash2, MapPin, Check } from "lucide-react";
+import type { LeaveRules } from "@/lib/leave-rules";
+
+interface Location {
+  id: string;
+  name: string;
+  rules: LeaveRules;
+}
+
+interface LeaveRulesEditorProps {
+  // At least one location
+  locations: Location[];
+  staffRoles: { code: string; name: string }[];
+}
+
+const EVENT_TYPES = [
+  { value: "COMPETITION", label: "Competitions" },
+  { value: "SETTING", label: "Setting days" },
+  { value: "PARTY", label: "Parties" },
+  { value: "GROUP", label: "Group bookings" },
+  { value: "TRAINING", label: "Training" },
+  { value: "OTHER", label: "Other events" },
+];
+
+export function LeaveRulesEditor({ locations, staffRoles }: LeaveRulesEditorProps) {
+  const router = useRouter();
+  const [selectedLocation, setSelectedLocation] = useState(locations[0].id);
+  const [rules, setRules] = useState<LeaveRules>(locations[0].rules);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState("");
+
+  const update = (changes: Partial<LeaveRules>) => {
+    setRules({ ...rules, ...changes });
+    setSuccess(false);
+  };
+
+  const handleLocationChange = (locationId: string) => {
+    setSelectedLocation(locationId);
+    setRules(locations.find((l) => l.id === locationId)!.rules);
+    setSuccess(false);
+    setError("");
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSuccess(false);
+    setError("");
+    try {
+      const res = await fetch(`/api/locations/${selectedLocation}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ leaveRules: rules }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to save leave rules");
+        return;
+      }
+      setSuccess(true);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to save leave rules:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const roleOptions = staffRoles.map((role) => ({ value: role.code, label: role.name }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Leave Rules</CardTitle>
+        <CardDescription>
+          Checked when leave is requested and again when it is approved. Sickness is never blocked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Location Selector */}
+        <div className="flex items-center gap-4 p-4 bg-muted/50 rounded-lg">
+          <div className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-muted-foreground" />
+            <Label className="font-medium">Configure rules for:</Label>
+          </div>
+          <Select
+            options={locations.map((l) => ({ value: l.id, label: l.name }))}
+            value={selectedLocation}
+            onChange={(e) => handleLocationChange(e.target.value)}
+            className="w-64"
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">{error}</div>
+        )}
+
+        {/* Maximum off */}
+        <div className="space-y-2">
+          <Label htmlFor="maxOff" className="font-medium">Maximum people off at once</Label>
+          <Input
+            id="maxOff"
+            type="number"
+            min="1"
+            placeholder="No limit"
+            value={rules.maxOff ?? ""}
+            onChange={(e) => update({ maxOff: e.target.value ? parseInt(e.target.value) || 1 : null })}
+            className="w-32"
+          />
+        </div>
+
+        {/* Minimum staff per role */}
+        <div className="space-y-3">
+          <Label className="font-medium">Minimum staff left available</Label>
+          {rules.minStaff.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center border rounded-lg">
+              No minimums set.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {rules.minStaff.map((rule, index) => (
+                <div key={index} className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg">
+                  <span className="text-sm">Keep at least</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={rule.minimum}
+                    onChange={(e) =>
+                      update({
+                        minStaff: rules.minStaff.map((r, i) =>
+                          i === index ? { ...r, minimum: parseInt(e.target.value) || 1 } : r
+                        ),
+                      })
+                    }
+                    className="w-20"
+                  />
+                  <Select
+                    options={roleOptions}
+                    value={rule.staffRole}
+                    onChange={(e) =>
+                      update({
+                        minStaff: rules.minStaff.map((r, i) =>
+                          i === index ? { ...r, staffRole: e.target.value } : r
+                        ),
+                      })
+                    }
+                    className="w-48"
+                  />
+                  <span className="text-sm">staff not on leave</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ minStaff: rules.minStaff.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              update({ minStaff: [...rules.minStaff, { staffRole: staffRoles[0]?.code || "DESK", minimum: 1 }] })
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Minimum
+          </Button>
+        </div>
+
+        {/* Blackout dates */}
+        <div className="space-y-3">
+          <Label className="font-medium">Blackout dates</Label>
+          {rules.blackouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center border rounded-lg">
+              No blackout dates.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {rules.blackouts.map((blackout, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-3 p-3 bg-muted/30 rounded-lg">
+                  <Input
+                    type="date"
+                    value={blackout.startDate}
+                    onChange={(e) =>
+                      update({
+                        blackouts: rules.blackouts.map((b, i) =>
+                          i === index ? { ...b, startDate: e.target.value } : b
+                        ),
+                      })
+                    }
+                    className="w-40"
+                  />
+                  <span className="text-sm">to</span>
+                  <Input
+                    type="date"
+                    value={blackout.endDate}
+                    min={blackout.startDate}
+                    onChange={(e) =>
+                      update({
+                        blackouts: rules.blackouts.map((b, i) =>
+                          i === index ? { ...b, endDate: e.target.value } : b
+                        ),
+                      })
+                    }
+                    className="w-40"
+                  />
+                  <Input
+                    placeholder="Reason, e.g. Summer holiday club"
+                    value={blackout.reason}
+                    onChange={(e) =>
+                      update({
+                        blackouts: rules.blackouts.map((b, i) =>
+                          i === index ? { ...b, reason: e.target.value } : b
+                        ),
+                      })
+                    }
+                    className="flex-1 min-w-48"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ blackouts: rules.blackouts.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ blackouts: [...rules.blackouts, { startDate: "", endDate: "", reason: "" }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Blackout
+          </Button>
+        </div>
+
+        {/* Event blackouts */}
+        <div className="space-y-3">
+          <Label className="font-medium">Block leave around events</Label>
+          <div className="flex flex-wrap gap-4">
+            {EVENT_TYPES.map((type) => (
+              <div key={type.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`event-${type.value}`}
+                  checked={rules.blackoutEventTypes.includes(type.value)}
+                  onCheckedChange={(checked) =>
+                    update({
+                      blackoutEventTypes: checked
+                        ? [...rules.blackoutEventTypes, type.value]
+                        : rules.blackoutEventTypes.filter((t) => t !== type.value),
+                    })
+                  }
+                />
+                <Label htmlFor={`event-${type.value}`} className="text-sm font-normal">
+                  {type.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          {rules.blackoutEventTypes.length > 0 && (
+            <div className="flex items-center gap-3">
+              <span className="text-sm">Including</span>
+              <Input
+                type="number"
+                min="0"
+                max="14"
+                value={rules.eventBufferDays}
+                onChange={(e) => update({ eventBufferDays: parseInt(e.target.value) || 0 })}
+                className="w-20"
+              />
+              <span className="text-sm">days either side for set-up and clear-up</span>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-3 pt-4 border-t">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Changes"}
+          </Button>
+          {success && (
+            <div className="flex items-center gap-1 text-sm text-green-600">
+              <Check className="h-4 w-4" />
+              Saved
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
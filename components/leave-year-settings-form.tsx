@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+
+interface LeaveYearSettingsFormProps {
+  leaveYearStartMonth: number;
+  leaveYearStartDay: number;
+  holidayCarryOverHours: number;
+  bankHolidayMode: string;
+  bankHolidayRegion: string;
+}
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+].map((label, index) => ({ value: String(index + 1), label }));
+
+const BANK_HOLIDAY_MODES = [
+  { value: "INCLUDED", label: "Included in the 5.6 weeks (booked as holiday)" },
+  { value: "DEDUCTED", label: "Deducted up front (we close on bank holidays)" },
+  { value: "ADDITIONAL", label: "On top of the 5.6 weeks" },
+];
+
+const BANK_HOLIDAY_REGIONS = [
+  { value: "england-and-wales", label: "England and Wales" },
+  { value: "scotland", label: "Scotland" },
+  { value: "northern-ireland", label: "Northern Ireland" },
+];
+
+export function LeaveYearSettingsForm(props: LeaveYearSettingsFormProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState(props);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setSuccess(false);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/settings/organization", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      });
+
+      if (res.ok) {
+        setSuccess(true);
+        router.refresh();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to update holiday settings");
+      }
+    } catch (error) {
+      console.error("Failed to update holiday settings:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {success && (
+        <div className="p-3 text-sm text-green-600 bg-green-50 rounded-md">
+          Holiday settings updated successfully
+        </div>
+      )}
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="leaveYearStartMonth">Leave Year Starts</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="leaveYearStartDay"
+            type="number"
+            min="1"
+            max="28"
+            value={formData.leaveYearStartDay}
+            onChange={(e) =>
+              setFormData({ ...formData, leaveYearStartDay: parseInt(e.target.value) || 1 })
+            }
+            className="w-20"
+            aria-label="Day"
+          />
+          <Select
+            id="leaveYearStartMonth"
+            value={String(formData.leaveYearStartMonth)}
+            onChange={(e) =>
+              setFormData({ ...formData, leaveYearStartMonth: parseInt(e.target.value) })
+            }
+            options={MONTHS}
+            className="w-40"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Entitlement is granted and unused hours carry over on this date each year. Change it
+          between leave years; balances already granted aren&apos;t moved.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="holidayCarryOverHours">Carry-Over Cap</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="holidayCarryOverHours"
+            type="number"
+            min="0"
+            step="0.5"
+            value={formData.holidayCarryOverHours}
+            onChange={(e) =>
+              setFormData({ ...formData, holidayCarryOverHours: parseFloat(e.target.value) || 0 })
+            }
+            className="w-24"
+          />
+          <span className="text-sm text-muted-foreground">hours</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The most unused holiday that rolls into the next leave year. Anything over this lapses.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="bankHolidayMode">Bank Holidays</Label>
+        <Select
+          id="bankHolidayMode"
+          value={formData.bankHolidayMode}
+          onChange={(e) => setFormData({ ...formData, bankHolidayMode: e.target.value })}
+          options={BANK_HOLIDAY_MODES}
+        />
+        <Select
+          id="bankHolidayRegion"
+          value={formData.bankHolidayRegion}
+          onChange={(e) => setFormData({ ...formData, bankHolidayRegion: e.target.value })}
+          options={BANK_HOLIDAY_REGIONS}
+          aria-label="Bank holiday region"
+        />
+        <p className="text-xs text-muted-foreground">
+          Salaried staff get 5.6 weeks of their contracted hours, pro-rated for new starters.
+          Hourly staff accrue holiday on the hours they work.
+        </p>
+      </div>
+
+      <Button type="submit" disabled={loading}>
+        {loading ? "Saving..." : "Save Settings"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,445 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Package, QrCode } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface Asset {
+  id: string;
+  name: string;
+  category: string;
+  serialNumber: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  purchaseDate: string | null;
+  retirementDate: string | null;
+  inspectionIntervalDays: number | null;
+  lastInspectedAt: string | null;
+  qrCode: string;
+  notes: string | null;
+  retiredAt: string | null;
+  location: Location;
+  status: "RETIRED" | "PAST_LIFESPAN" | "OVERDUE" | "DUE_SOON" | "OK";
+  nextInspectionDue: string | null;
+}
+
+interface MaintenanceAssetsProps {
+  selectedLocationId?: string;
+  isManager: boolean;
+}
+
+const CATEGORIES = [
+  { value: "AUTO_BELAY", label: "Auto-belay" },
+  { value: "HARNESS", label: "Harness" },
+  { value: "ROPE", label: "Rope" },
+  { value: "DRILL", label: "Drill" },
+  { value: "LADDER", label: "Ladder" },
+  { value: "OTHER", label: "Other" },
+];
+
+const FILTERS = [
+  { value: "attention", label: "Due or past lifespan" },
+  { value: "active", label: "All in use" },
+  { value: "all", label: "Including retired" },
+];
+
+const emptyForm = {
+  name: "",
+  category: "AUTO_BELAY",
+  serialNumber: "",
+  manufacturer: "",
+  model: "",
+  purchaseDate: "",
+  retirementDate: "",
+  inspectionIntervalDays: "",
+  notes: "",
+  locationId: "",
+};
+
+const toDateInput = (value: string | null) => (value ? value.split("T")[0] : "");
+
+export function MaintenanceAssets({ selectedLocationId, isManager }: MaintenanceAssetsProps) {
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [filter, setFilter] = useState("attention");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Asset | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  useEffect(() => {
+    fetchAssets();
+  }, [selectedLocationId, filter]);
+
+  const fetchLocations = async () => {
+    try {
+      const res = await fetch("/api/locations?activeOnly=true");
+      if (res.ok) {
+        setLocations(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch locations:", error);
+    }
+  };
+
+  const fetchAssets = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (selectedLocationId) params.append("locationId", selectedLocationId);
+      if (filter === "attention") params.append("attention", "true");
+      if (filter === "all") params.append("includeRetired", "true");
+
+      const res = await fetch(`/api/maintenance/assets?${params}`);
+      if (res.ok) {
+        setAssets(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch assets:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (asset: Asset | null) => {
+    setEditing(asset);
+    setError(null);
+    setFormData(
+      asset
+        ? {
+            name: asset.name,
+            category: asset.category,
+            serialNumber: asset.serialNumber || "",
+            manufacturer: asset.manufacturer || "",
+            model: asset.model || "",
+            purchaseDate: toDateInput(asset.purchaseDate),
+            retirementDate: toDateInput(asset.retirementDate),
+            inspectionIntervalDays: asset.inspectionIntervalDays?.toString() || "",
+            notes: asset.notes || "",
+            locationId: asset.location.id,
+          }
+        : { ...emptyForm, locationId: selectedLocationId || "" }
+    );
+    setShowDialog(true);
+  };
+
+  const saveAsset = async (body: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(editing ? `/api/maintenance/assets/${editing.id}` : "/api/maintenance/assets", {
+        method: editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save asset");
+        return;
+      }
+      setShowDialog(false);
+      fetchAssets();
+    } catch (error) {
+      console.error("Failed to save asset:", error);
+      setError("Failed to save asset");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!formData.name || !formData.locationId) {
+      setError("Name and location are required");
+      return;
+    }
+
+    saveAsset({
+      ...formData,
+      serialNumber: formData.serialNumber || null,
+      manufacturer: formData.manufacturer || null,
+      model: formData.model || null,
+      purchaseDate: formData.purchaseDate || null,
+      retirementDate: formData.retirementDate || null,
+      inspectionIntervalDays: formData.inspectionIntervalDays ? parseInt(formData.inspectionIntervalDays) : null,
+      notes: formData.notes || null,
+    });
+  };
+
+  const handleRetire = () => {
+    if (!editing) return;
+    if (!editing.retiredAt && !confirm(`Retire ${editing.name}? It will no longer be available for checks.`)) return;
+    saveAsset({ retired: !editing.retiredAt });
+  };
+
+  const getStatusBadge = (asset: Asset) => {
+    switch (asset.status) {
+      case "RETIRED":
+        return <Badge variant="secondary">Retired</Badge>;
+      case "PAST_LIFESPAN":
+        return <Badge variant="destructive">Past Lifespan</Badge>;
+      case "OVERDUE":
+        return <Badge variant="destructive">Inspection Overdue</Badge>;
+      case "DUE_SOON":
+        return <Badge variant="warning">Inspection Due Soon</Badge>;
+      default:
+        return <Badge variant="success">OK</Badge>;
+    }
+  };
+
+  const categoryLabel = (category: string) =>
+    CATEGORIES.find((c) => c.value === category)?.label || category;
+
+  const locationOptions = [
+    { value: "", label: "Select location..." },
+    ...locations.map((loc) => ({ value: loc.id, label: loc.name })),
+  ];
+
+  if (loading) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-between sm:items-center">
+          <div className="w-48">
+            <Select options={FILTERS} value={filter} onChange={(e) => setFilter(e.target.value)} />
+          </div>
+          {isManager && (
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Asset
+            </Button>
+          )}
+        </div>
+
+        {assets.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground border rounded-lg">
+            <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="font-medium">
+              {filter === "attention" ? "Nothing due for inspection" : "No assets registered"}
+            </p>
+            <p className="text-sm mt-1">
+              Register auto-belays, harnesses, ropes and drills to track their inspections
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {assets.map((asset) => (
+              <div key={asset.id} className="p-4 border rounded-lg">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className="font-medium">{asset.name}</span>
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+                        {categoryLabel(asset.category)}
+                      </span>
+                      {getStatusBadge(asset)}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                      <span>{asset.location.name}</span>
+                      {(asset.manufacturer || asset.model) && (
+                        <span>{[asset.manufacturer, asset.model].filter(Boolean).join(" ")}</span>
+                      )}
+                      {asset.serialNumber && <span>S/N {asset.serialNumber}</span>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-sm">
+                      {asset.nextInspectionDue && !asset.retiredAt && (
+                        <span>
+                          <span className="text-muted-foreground">Next inspection:</span>{" "}
+                          {asset.lastInspectedAt ? formatDate(new Date(asset.nextInspectionDue)) : "Not yet inspected"}
+                        </span>
+                      )}
+                      {asset.retirementDate && (
+                        <span>
+                          <span className="text-muted-foreground">Retire by:</span>{" "}
+                          {formatDate(new Date(asset.retirementDate))}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" asChild>
+                      <Link href={`/dashboard/maintenance/assets/${asset.qrCode}`}>
+                        <QrCode className="h-4 w-4 mr-2" />
+                        History
+                      </Link>
+                    </Button>
+                    {isManager && (
+                      <Button size="sm" variant="outline" onClick={() => openDialog(asset)}>
+                        Edit
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Asset Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Asset" : "Add Asset"}</DialogTitle>
+            <DialogDescription>
+              Inspection interval and retirement date come from the manufacturer&apos;s instructions
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4 overflow-y-auto flex-1">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assetName">Name *</Label>
+                <Input
+                  id="assetName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Auto-belay 3"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assetCategory">Category</Label>
+                <Select
+                  id="assetCategory"
+                  options={CATEGORIES}
+                  value={formData.category}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assetLocation">Location *</Label>
+              <Select
+                id="assetLocation"
+                options={locationOptions}
+                value={formData.locationId}
+                onChange={(e) => setFormData({ ...formData, locationId: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assetManufacturer">Manufacturer</Label>
+                <Input
+                  id="assetManufacturer"
+                  value={formData.manufacturer}
+                  onChange={(e) => setFormData({ ...formData, manufacturer: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assetModel">Model</Label>
+                <Input
+                  id="assetModel"
+                  value={formData.model}
+                  onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assetSerial">Serial Number</Label>
+                <Input
+                  id="assetSerial"
+                  value={formData.serialNumber}
+                  onChange={(e) => setFormData({ ...formData, serialNumber: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assetPurchaseDate">Purchased</Label>
+                <Input
+                  id="assetPurchaseDate"
+                  type="date"
+                  value={formData.purchaseDate}
+                  onChange={(e) => setFormData({ ...formData, purchaseDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assetRetirementDate">Retire By</Label>
+                <Input
+                  id="assetRetirementDate"
+                  type="date"
+                  value={formData.retirementDate}
+                  onChange={(e) => setFormData({ ...formData, retirementDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assetInterval">Inspect Every (days)</Label>
+                <Input
+                  id="assetInterval"
+                  type="number"
+                  min="1"
+                  value={formData.inspectionIntervalDays}
+                  onChange={(e) => setFormData({ ...formData, inspectionIntervalDays: e.target.value })}
+                  placeholder="e.g., 180"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assetNotes">Notes</Label>
+              <Textarea
+                id="assetNotes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="sm:justify-between">
+            {editing ? (
+              <Button variant="outline" onClick={handleRetire} disabled={saving}>
+                {editing.retiredAt ? "Return to Use" : "Retire"}
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowDialog(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? "Saving..." : editing ? "Save" : "Add Asset"}
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
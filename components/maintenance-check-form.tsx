@@ -1,10 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import {
   Dialog,
@@ -15,18 +16,27 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { CheckCircle2, XCircle, AlertTriangle } from "lucide-react";
+import { MaintenanceChecklistFields } from "@/components/maintenance-checklist-fields";
+import {
+  evaluateChecklist,
+  parseChecklist,
+  worstStatus,
+  type ChecklistAnswer,
+} from "@/lib/checklists";
 
 interface MaintenanceCheckFormProps {
   checkType: {
     id: string;
     name: string;
     frequencyDays: number;
+    checklist?: string | null;
   };
   location: {
     id: string;
     name: string;
   };
   userName: string;
+  assetId?: string;
   onClose: () => void;
   onComplete: () => void;
 }
@@ -37,6 +47,7 @@ export function MaintenanceCheckForm({
   checkType,
   location,
   userName,
+  assetId: initialAssetId = "",
   onClose,
   onComplete,
 }: MaintenanceCheckFormProps) {
@@ -46,6 +57,22 @@ export function MaintenanceCheckForm({
   const [signature, setSignature] = useState(userName);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
+  const [assets, setAssets] = useState<{ id: string; name: string }[]>([]);
+  const [assetId, setAssetId] = useState(initialAssetId);
+  const [answers, setAnswers] = useState<Record<string, ChecklistAnswer>>({});
+
+  // Checklist answers set the lowest status the check can be signed off with
+  const checklist = parseChecklist(checkType.checklist);
+  const evaluation = evaluateChecklist(checklist, Object.values(answers));
+  const effectiveStatus = worstStatus(status, evaluation.status);
+  const needsIssue = effectiveStatus === "FAIL" && !issues.trim() && evaluation.issues.length === 0;
+
+  useEffect(() => {
+    fetch(`/api/maintenance/assets?locationId=${location.id}`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setAssets)
+      .catch((err) => console.error("Failed to fetch assets:", err));
+  }, [location.id]);
 
   const handleSubmit = async () => {
     if (!signature.trim()) {
@@ -63,10 +90,12 @@ export function MaintenanceCheckForm({
         body: JSON.stringify({
           checkTypeId: checkType.id,
           locationId: location.id,
-          status,
+          status: effectiveStatus,
           notes: notes.trim() || null,
           issues: issues.trim() ? [issues.trim()] : null,
           signature: signature.trim(),
+          assetId: assetId || null,
+          answers: evaluation.results.map((result) => result.answer),
         }),
       });
 
@@ -106,7 +135,7 @@ export function MaintenanceCheckForm({
 
   return (
     <Dialog open onOpenChange={onClose}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[90vh] flex flex-col">
         <DialogHeader>
           <DialogTitle>Log Maintenance Check</DialogTitle>
           <DialogDescription>
@@ -114,24 +143,44 @@ export function MaintenanceCheckForm({
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4 py-4">
+        <div className="space-y-4 py-4 overflow-y-auto flex-1">
+          {/* Checklist */}
+          {checklist.length > 0 && (
+            <div className="space-y-2">
+              <Label>Checklist</Label>
+              <MaintenanceChecklistFields
+                items={checklist}
+                answers={answers}
+                onChange={(answer) => setAnswers((current) => ({ ...current, [answer.itemId]: answer }))}
+              />
+            </div>
+          )}
+
           {/* Status Selection */}
           <div className="space-y-2">
             <Label>Status</Label>
+            {evaluation.status !== "PASS" && (
+              <p className="text-xs text-muted-foreground">
+                Set from the checklist answers. You can only mark it as worse.
+              </p>
+            )}
             <div className="grid grid-cols-3 gap-2">
               {statusOptions.map((option) => {
                 const Icon = option.icon;
-                const isSelected = status === option.value;
+                const isSelected = effectiveStatus === option.value;
+                const isBelowChecklist = worstStatus(option.value, evaluation.status) !== option.value;
                 return (
                   <button
                     key={option.value}
                     type="button"
+                    disabled={isBelowChecklist}
                     onClick={() => setStatus(option.value)}
                     className={cn(
                       "flex flex-col items-center gap-1 p-3 rounded-lg border-2 transition-colors",
                       isSelected
                         ? option.color
-                        : "border-muted hover:border-muted-foreground/50"
+                        : "border-muted hover:border-muted-foreground/50",
+                      isBelowChecklist && "opacity-50 cursor-not-allowed"
                     )}
                   >
                     <Icon className={cn("h-6 w-6", isSelected ? "" : "text-muted-foreground")} />
@@ -144,6 +193,22 @@ export function MaintenanceCheckForm({
             </div>
           </div>
 
+          {/* Asset (optional) */}
+          {assets.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="asset">Asset (optional)</Label>
+              <Select
+                id="asset"
+                options={[
+                  { value: "", label: "Whole location" },
+                  ...assets.map((asset) => ({ value: asset.id, label: asset.name })),
+                ]}
+                value={assetId}
+                onChange={(e) => setAssetId(e.target.value)}
+              />
+            </div>
+          )}
+
           {/* Notes */}
           <div className="space-y-2">
             <Label htmlFor="notes">Notes (optional)</Label>
@@ -157,10 +222,18 @@ export function MaintenanceCheckForm({
           </div>
 
           {/* Issues (shown for non-pass statuses) */}
-          {status !== "PASS" && (
+          {effectiveStatus !== "PASS" && (
             <div className="space-y-2">
+              {evaluation.issues.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {evaluation.issues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
               <Label htmlFor="issues">
-                Issue Description {status === "FAIL" && "(Required)"}
+                {evaluation.issues.length > 0 ? "Other Issues" : "Issue Description"}{" "}
+                {needsIssue && "(Required)"}
               </Label>
               <Textarea
                 id="issues"
@@ -169,10 +242,10 @@ export function MaintenanceCheckForm({
                 placeholder="Describe the issue or what needs attention..."
                 rows={3}
                 className={cn(
-                  status === "FAIL" && !issues.trim() && "border-red-300"
+                  needsIssue && "border-red-300"
                 )}
               />
-              {status === "FAIL" && !issues.trim() && (
+              {needsIssue && (
                 <p className="text-sm text-red-600">
                   Please describe the issue when marking as Fail
                 </p>
@@ -195,6 +268,12 @@ export function MaintenanceCheckForm({
             </p>
           </div>
 
+          {evaluation.missing.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Still to answer: {evaluation.missing.join(", ")}
+            </p>
+          )}
+
           {error && (
             <div className="text-sm text-red-600 bg-red-50 p-2 rounded">
               {error}
@@ -208,7 +287,7 @@ export function MaintenanceCheckForm({
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={saving || !signature.trim() || (status === "FAIL" && !issues.trim())}
+            disabled={saving || !signature.trim() || needsIssue || evaluation.missing.length > 0}
           >
             {saving ? "Saving..." : "Submit Check"}
           </Button>
@@ -17,13 +17,17 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Plus, Pencil, Trash2, ClipboardCheck, GripVertical, ToggleLeft, ToggleRight } from "lucide-react";
+import { Plus, Pencil, Trash2, ClipboardCheck, GripVertical, ToggleLeft, ToggleRight, ListChecks, TrendingUp } from "lucide-react";
+import { MaintenanceChecklistBuilder } from "@/components/maintenance-checklist-builder";
+import { MaintenanceChecklistTrends } from "@/components/maintenance-checklist-trends";
+import { parseChecklist } from "@/lib/checklists";
 
 interface CheckType {
   id: string;
   name: string;
   description: string | null;
   frequencyDays: number;
+  checklist: string | null;
   isActive: boolean;
   sortOrder: number;
   _count: {
@@ -38,6 +42,8 @@ export function MaintenanceCheckTypesManager() {
   const [showDialog, setShowDialog] = useState(false);
   const [saving, setSaving] = useState(false);
   const [editingItem, setEditingItem] = useState<CheckType | null>(null);
+  const [checklistFor, setChecklistFor] = useState<CheckType | null>(null);
+  const [trendsFor, setTrendsFor] = useState<CheckType | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
@@ -200,62 +206,93 @@ export function MaintenanceCheckTypesManager() {
           </div>
         ) : (
           <div className="space-y-2">
-            {checkTypes.map((item) => (
-              <div
-                key={item.id}
-                className={cn(
-                  "flex items-center gap-3 p-4 border rounded-lg",
-                  !item.isActive && "opacity-60 bg-muted/50"
-                )}
-              >
-                <GripVertical className="h-5 w-5 text-muted-foreground/50 cursor-move" />
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2">
-                    <span className="font-medium">{item.name}</span>
-                    <Badge variant="outline" className="text-xs">
-                      {getFrequencyLabel(item.frequencyDays)}
-                    </Badge>
-                    {!item.isActive && (
-                      <Badge variant="secondary" className="text-xs">
-                        Inactive
+            {checkTypes.map((item) => {
+              const checklistCount = parseChecklist(item.checklist).length;
+              return (
+                <div
+                  key={item.id}
+                  className={cn(
+                    "flex items-center gap-3 p-4 border rounded-lg",
+                    !item.isActive && "opacity-60 bg-muted/50"
+                  )}
+                >
+                  <GripVertical className="h-5 w-5 text-muted-foreground/50 cursor-move" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{item.name}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {getFrequencyLabel(item.frequencyDays)}
                       </Badge>
+                      {checklistCount > 0 && (
+                        <Badge variant="outline" className="text-xs">
+                          {checklistCount} item{checklistCount !== 1 ? "s" : ""}
+                        </Badge>
+                      )}
+                      {!item.isActive && (
+                        <Badge variant="secondary" className="text-xs">
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                    {item.description && (
+                      <p className="text-sm text-muted-foreground mt-0.5 truncate">
+                        {item.description}
+                      </p>
                     )}
                   </div>
-                  {item.description && (
-                    <p className="text-sm text-muted-foreground mt-0.5 truncate">
-                      {item.description}
-                    </p>
-                  )}
-                </div>
-                <div className="text-sm text-muted-foreground whitespace-nowrap">
-                  {item._count.logs} log{item._count.logs !== 1 ? "s" : ""}
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => handleToggleActive(item)}
-                    title={item.isActive ? "Deactivate" : "Activate"}
-                  >
-                    {item.isActive ? (
-                      <ToggleRight className="h-5 w-5 text-green-600" />
-                    ) : (
-                      <ToggleLeft className="h-5 w-5 text-muted-foreground" />
+                  <div className="text-sm text-muted-foreground whitespace-nowrap">
+                    {item._count.logs} log{item._count.logs !== 1 ? "s" : ""}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleToggleActive(item)}
+                      title={item.isActive ? "Deactivate" : "Activate"}
+                    >
+                      {item.isActive ? (
+                        <ToggleRight className="h-5 w-5 text-green-600" />
+                      ) : (
+                        <ToggleLeft className="h-5 w-5 text-muted-foreground" />
+                      )}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setChecklistFor(item)} title="Checklist">
+                      <ListChecks className="h-4 w-4" />
+                    </Button>
+                    {checklistCount > 0 && (
+                      <Button size="sm" variant="ghost" onClick={() => setTrendsFor(item)} title="Trends">
+                        <TrendingUp className="h-4 w-4" />
+                      </Button>
                     )}
-                  </Button>
-                  <Button size="sm" variant="ghost" onClick={() => handleEdit(item)}>
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-                  <Button size="sm" variant="ghost" onClick={() => handleDelete(item.id)}>
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleEdit(item)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(item.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
 
+      {checklistFor && (
+        <MaintenanceChecklistBuilder
+          checkType={checklistFor}
+          onClose={() => setChecklistFor(null)}
+          onSaved={() => {
+            setChecklistFor(null);
+            fetchCheckTypes();
+          }}
+        />
+      )}
+
+      {trendsFor && (
+        <MaintenanceChecklistTrends checkType={trendsFor} onClose={() => setTrendsFor(null)} />
+      )}
+
       {/* Add/Edit Dialog */}
       <Dialog open={showDialog} onOpenChange={setShowDialog}>
         <DialogContent className="max-w-md">
@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, CornerDownRight, Plus, Trash2 } from "lucide-react";
+import { parseChecklist, type ChecklistItem, type ChecklistItemType } from "@/lib/checklists";
+
+interface MaintenanceChecklistBuilderProps {
+  checkType: {
+    id: string;
+    name: string;
+    checklist: string | null;
+  };
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const ITEM_TYPES = [
+  { value: "YES_NO", label: "Yes / No" },
+  { value: "NUMBER", label: "Reading" },
+  { value: "PHOTO", label: "Photo" },
+];
+
+const FAIL_STATUSES = [
+  { value: "NEEDS_ATTENTION", label: "Needs attention" },
+  { value: "FAIL", label: "Fail" },
+];
+
+const newItemId = () => `item_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const newItem = (type: ChecklistItemType = "YES_NO"): ChecklistItem => ({
+  id: newItemId(),
+  label: "",
+  type,
+  required: true,
+  expected: type === "YES_NO" ? "yes" : null,
+  min: null,
+  max: null,
+  unit: null,
+  failStatus: "FAIL",
+  showIf: null,
+});
+
+const parseNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function MaintenanceChecklistBuilder({ checkType, onClose, onSaved }: MaintenanceChecklistBuilderProps) {
+  const [items, setItems] = useState<ChecklistItem[]>(() => parseChecklist(checkType.checklist));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateItem = (id: string, changes: Partial<ChecklistItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const changeType = (item: ChecklistItem, type: ChecklistItemType) => {
+    updateItem(item.id, {
+      type,
+      expected: type === "YES_NO" ? item.expected || "yes" : null,
+      min: type === "NUMBER" ? item.min : null,
+      max: type === "NUMBER" ? item.max : null,
+      unit: type === "NUMBER" ? item.unit : null,
+    });
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    setItems((current) => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + direction, 0, moved);
+      return next;
+    });
+  };
+
+  // Removing an item also removes the follow-ups that depend on it
+  const removeItem = (id: string) => {
+    setItems((current) => {
+      const removed = new Set([id]);
+      for (const item of current) {
+        if (item.showIf && removed.has(item.showIf.itemId)) removed.add(item.id);
+      }
+      return current.filter((item) => !removed.has(item.id));
+    });
+  };
+
+  const addFollowUp = (parent: ChecklistItem, index: number) => {
+    const followUp = {
+      ...newItem(),
+      showIf: { itemId: parent.id, when: parent.type === "YES_NO" ? (parent.expected === "yes" ? "no" : "yes") : "out_of_range" } as const,
+    };
+    setItems((current) => [...current.slice(0, index + 1), followUp, ...current.slice(index + 1)]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/maintenance/check-types/${checkType.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ checklist: items }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save checklist");
+        return;
+      }
+      onSaved();
+    } catch (error) {
+      console.error("Failed to save checklist:", error);
+      setError("Failed to save checklist");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const conditionOptions = (parent: ChecklistItem) => [
+    ...(parent.type === "YES_NO"
+      ? [
+          { value: "yes", label: `"${parent.label || "previous item"}" is yes` },
+          { value: "no", label: `"${parent.label || "previous item"}" is no` },
+        ]
+      : []),
+    { value: "out_of_range", label: `"${parent.label || "previous item"}" is out of range` },
+  ];
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{checkType.name} Checklist</DialogTitle>
+          <DialogDescription>
+            Answers outside what&apos;s expected set the check&apos;s status automatically and raise a defect
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-4 overflow-y-auto flex-1">
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {items.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No checklist yet. Checks are signed off as pass, needs attention or fail.
+            </p>
+          )}
+
+          {items.map((item, index) => {
+            const parent = item.showIf ? items.find((i) => i.id === item.showIf?.itemId) : null;
+
+            return (
+              <div key={item.id} className={`p-3 border rounded-lg space-y-3 ${parent ? "ml-6 bg-muted/30" : ""}`}>
+                {parent && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <CornerDownRight className="h-4 w-4 flex-shrink-0" />
+                    <span>Ask when</span>
+                    <Select
+                      className="h-8"
+                      options={conditionOptions(parent)}
+                      value={item.showIf?.when}
+                      onChange={(e) =>
+                        updateItem(item.id, {
+                          showIf: { itemId: parent.id, when: e.target.value as "yes" | "no" | "out_of_range" },
+                        })
+                      }
+                    />
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Input
+                    value={item.label}
+                    onChange={(e) => updateItem(item.id, { label: e.target.value })}
+                    placeholder="e.g., Retraction test passed"
+                    className="flex-1"
+                  />
+                  <div className="w-32">
+                    <Select
+                      options={ITEM_TYPES}
+                      value={item.type}
+                      onChange={(e) => changeType(item, e.target.value as ChecklistItemType)}
+                    />
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => moveItem(index, -1)} disabled={index === 0} title="Move up">
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => moveItem(index, 1)}
+                    disabled={index === items.length - 1}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => removeItem(item.id)} title="Remove">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  {item.type === "YES_NO" && (
+                    <div className="flex items-center gap-2">
+                      <Label className="font-normal">Passes on</Label>
+                      <Select
+                        className="h-8 w-24"
+                        options={[
+                          { value: "yes", label: "Yes" },
+                          { value: "no", label: "No" },
+                          { value: "", label: "Either" },
+                        ]}
+                        value={item.expected || ""}
+                        onChange={(e) => updateItem(item.id, { expected: (e.target.value || null) as "yes" | "no" | null })}
+                      />
+                    </div>
+                  )}
+
+                  {item.type === "NUMBER" && (
+                    <div className="flex items-center gap-2">
+                      <Label className="font-normal">Range</Label>
+                      <Input
+                        type="number"
+                        step="any"
+                        className="h-8 w-20"
+                        placeholder="Min"
+                        value={item.min ?? ""}
+                        onChange={(e) => updateItem(item.id, { min: parseNumber(e.target.value) })}
+                      />
+                      <span>to</span>
+                      <Input
+                        type="number"
+                        step="any"
+                        className="h-8 w-20"
+                        placeholder="Max"
+                        value={item.max ?? ""}
+                        onChange={(e) => updateItem(item.id, { max: parseNumber(e.target.value) })}
+                      />
+                      <Input
+                        className="h-8 w-20"
+                        placeholder="Unit"
+                        value={item.unit || ""}
+                        onChange={(e) => updateItem(item.id, { unit: e.target.value || null })}
+                      />
+                    </div>
+                  )}
+
+                  {item.type !== "PHOTO" && (
+                    <div className="flex items-center gap-2">
+                      <Label className="font-normal">Otherwise</Label>
+                      <Select
+                        className="h-8 w-40"
+                        options={FAIL_STATUSES}
+                        value={item.failStatus}
+                        onChange={(e) => updateItem(item.id, { failStatus: e.target.value as ChecklistItem["failStatus"] })}
+                      />
+                    </div>
+                  )}
+
+                  <label className="flex items-center gap-2">
+                    <Checkbox
+                      checked={item.required}
+                      onCheckedChange={(checked) => updateItem(item.id, { required: checked })}
+                    />
+                    Required
+                  </label>
+
+                  {item.type !== "PHOTO" && (
+                    <Button size="sm" variant="link" className="h-auto p-0" onClick={() => addFollowUp(item, index)}>
+                      Add follow-up
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex gap-2">
+            {ITEM_TYPES.map((type) => (
+              <Button
+                key={type.value}
+                size="sm"
+                variant="outline"
+                onClick={() => setItems((current) => [...current, newItem(type.value as ChecklistItemType)])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {type.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Checklist"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
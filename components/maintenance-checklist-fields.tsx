@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { Camera, CornerDownRight, Loader2, X } from "lucide-react";
+import {
+  describeRange,
+  isItemShown,
+  isOutOfRange,
+  type ChecklistAnswer,
+  type ChecklistItem,
+} from "@/lib/checklists";
+
+interface MaintenanceChecklistFieldsProps {
+  items: ChecklistItem[];
+  answers: Record<string, ChecklistAnswer>;
+  onChange: (answer: ChecklistAnswer) => void;
+}
+
+export function MaintenanceChecklistFields({ items, answers, onChange }: MaintenanceChecklistFieldsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [photoItemId, setPhotoItemId] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const answerList = Object.values(answers);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !photoItemId) return;
+
+    setUploadingId(photoItemId);
+    setUploadError(null);
+    try {
+      const uploadData = new FormData();
+      uploadData.append("file", file);
+      const res = await fetch("/api/upload", { method: "POST", body: uploadData });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Upload failed");
+      }
+      onChange({ itemId: photoItemId, photoUrl: data.url });
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : "Failed to upload photo");
+    } finally {
+      setUploadingId(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        capture="environment"
+        onChange={handleFileUpload}
+        className="hidden"
+      />
+
+      {uploadError && (
+        <div className="text-sm text-red-600 bg-red-50 p-2 rounded">{uploadError}</div>
+      )}
+
+      {items.filter((item) => isItemShown(item, items, answerList)).map((item) => {
+        const answer = answers[item.id];
+        const outOfRange = isOutOfRange(item, answer);
+        const range = item.type === "NUMBER" ? describeRange(item) : null;
+
+        return (
+          <div
+            key={item.id}
+            className={cn(
+              "p-3 border rounded-lg space-y-2",
+              item.showIf && "ml-4",
+              outOfRange && (item.failStatus === "FAIL" ? "border-red-300 bg-red-50" : "border-amber-300 bg-amber-50")
+            )}
+          >
+            <div className="flex items-start gap-2 text-sm font-medium">
+              {item.showIf && <CornerDownRight className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />}
+              <span>
+                {item.label}
+                {item.required && <span className="text-red-600"> *</span>}
+              </span>
+            </div>
+
+            {item.type === "YES_NO" && (
+              <div className="flex gap-2">
+                {(["yes", "no"] as const).map((value) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={answer?.answer === value ? "default" : "outline"}
+                    onClick={() => onChange({ itemId: item.id, answer: value })}
+                  >
+                    {value === "yes" ? "Yes" : "No"}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {item.type === "NUMBER" && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="any"
+                  className="w-32"
+                  value={answer?.reading ?? ""}
+                  onChange={(e) =>
+                    onChange({ itemId: item.id, reading: e.target.value === "" ? null : Number(e.target.value) })
+                  }
+                />
+                {item.unit && <span className="text-sm text-muted-foreground">{item.unit}</span>}
+                {range && <span className="text-xs text-muted-foreground">Expected {range}</span>}
+              </div>
+            )}
+
+            {item.type === "PHOTO" && (
+              answer?.photoUrl ? (
+                <div className="relative inline-block">
+                  <img src={answer.photoUrl} alt={item.label} className="h-20 w-20 rounded object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => onChange({ itemId: item.id, photoUrl: null })}
+                    className="absolute top-0 right-0 bg-destructive text-destructive-foreground rounded-bl p-0.5"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={uploadingId !== null}
+                  onClick={() => {
+                    setPhotoItemId(item.id);
+                    fileInputRef.current?.click();
+                  }}
+                >
+                  {uploadingId === item.id ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Camera className="h-4 w-4 mr-2" />
+                  )}
+                  Add Photo
+                </Button>
+              )
+            )}
+
+            {outOfRange && (
+              <p className={cn("text-xs", item.failStatus === "FAIL" ? "text-red-600" : "text-amber-700")}>
+                {item.failStatus === "FAIL" ? "This fails the check" : "This needs attention"}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { describeRange, parseChecklist, type ChecklistItem } from "@/lib/checklists";
+import { formatDate } from "@/lib/utils";
+
+interface MaintenanceChecklistTrendsProps {
+  checkType: {
+    id: string;
+    name: string;
+    checklist: string | null;
+  };
+  onClose: () => void;
+}
+
+interface HistoryAnswer {
+  id: string;
+  answer: string | null;
+  reading: number | null;
+  unit: string | null;
+  photoUrl: string | null;
+  outOfRange: boolean;
+  checkDate: string;
+  location: { id: string; name: string };
+  asset: { id: string; name: string } | null;
+}
+
+interface History {
+  item: ChecklistItem | null;
+  answers: HistoryAnswer[];
+  summary: {
+    count: number;
+    outOfRange: number;
+    min: number | null;
+    max: number | null;
+    average: number | null;
+  };
+}
+
+const PERIODS = [
+  { value: "90", label: "Last 3 months" },
+  { value: "365", label: "Last year" },
+  { value: "1095", label: "Last 3 years" },
+];
+
+export function MaintenanceChecklistTrends({ checkType, onClose }: MaintenanceChecklistTrendsProps) {
+  const items = parseChecklist(checkType.checklist).filter((item) => item.type !== "PHOTO");
+  const [itemId, setItemId] = useState(
+    () => (items.find((item) => item.type === "NUMBER") || items[0])?.id || ""
+  );
+  const [days, setDays] = useState("365");
+  const [history, setHistory] = useState<History | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [checkType.id, itemId, days]);
+
+  const fetchHistory = async () => {
+    if (!itemId) return;
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ itemId, days });
+      const res = await fetch(`/api/maintenance/check-types/${checkType.id}/history?${params}`);
+      if (res.ok) {
+        setHistory(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch checklist history:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const item = items.find((i) => i.id === itemId);
+  const chartData = (history?.answers || [])
+    .filter((answer) => answer.reading !== null)
+    .map((answer) => ({
+      date: new Date(answer.checkDate).toLocaleDateString("en-GB", { day: "numeric", month: "short" }),
+      reading: answer.reading,
+    }));
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{checkType.name} Trends</DialogTitle>
+          <DialogDescription>Answers to a checklist item over time</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4 overflow-y-auto flex-1">
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              This checklist has no yes/no or reading items to trend
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="trendItem">Item</Label>
+                  <Select
+                    id="trendItem"
+                    options={items.map((i) => ({ value: i.id, label: i.label }))}
+                    value={itemId}
+                    onChange={(e) => setItemId(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trendPeriod">Period</Label>
+                  <Select id="trendPeriod" options={PERIODS} value={days} onChange={(e) => setDays(e.target.value)} />
+                </div>
+              </div>
+
+              {loading && !history ? (
+                <div className="text-center py-4 text-muted-foreground">Loading...</div>
+              ) : !history || history.answers.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No answers recorded in this period</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <span>
+                      <span className="text-muted-foreground">Checks:</span> {history.summary.count}
+                    </span>
+                    <span className={history.summary.outOfRange > 0 ? "text-red-600" : ""}>
+                      <span className="text-muted-foreground">Out of range:</span> {history.summary.outOfRange}
+                    </span>
+                    {history.summary.average !== null && (
+                      <>
+                        <span>
+                          <span className="text-muted-foreground">Average:</span> {history.summary.average}
+                          {item?.unit && ` ${item.unit}`}
+                        </span>
+                        <span>
+                          <span className="text-muted-foreground">Range seen:</span> {history.summary.min}–
+                          {history.summary.max}
+                        </span>
+                      </>
+                    )}
+                    {item && describeRange(item) && (
+                      <span>
+                        <span className="text-muted-foreground">Expected:</span> {describeRange(item)}
+                      </span>
+                    )}
+                  </div>
+
+                  {item?.type === "NUMBER" && chartData.length > 1 && (
+                    <ResponsiveContainer width="100%" height={240}>
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                        <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                        <YAxis tick={{ fontSize: 12 }} domain={["auto", "auto"]} />
+                        <Tooltip />
+                        {item.min != null && <ReferenceLine y={item.min} stroke="#dc2626" strokeDasharray="4 4" />}
+                        {item.max != null && <ReferenceLine y={item.max} stroke="#dc2626" strokeDasharray="4 4" />}
+                        <Line type="monotone" dataKey="reading" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  )}
+
+                  <div className="divide-y border rounded-lg">
+                    {[...history.answers].reverse().map((answer) => (
+                      <div key={answer.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                        <div>
+                          <span>{formatDate(new Date(answer.checkDate))}</span>
+                          <span className="text-muted-foreground">
+                            {" "}
+                            · {answer.location.name}
+                            {answer.asset && ` · ${answer.asset.name}`}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">
+                            {answer.reading !== null
+                              ? `${answer.reading}${answer.unit ? ` ${answer.unit}` : ""}`
+                              : answer.answer === "yes" ? "Yes" : "No"}
+                          </span>
+                          {answer.outOfRange && <Badge variant="destructive">Out of range</Badge>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,651 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle2, Plus } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface Person {
+  id: string;
+  name: string;
+}
+
+interface Defect {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  severity: string;
+  area: string | null;
+  outOfService: boolean;
+  dueBy: string;
+  createdAt: string;
+  resolvedAt: string | null;
+  verifiedAt: string | null;
+  location: Location;
+  sourceLog: { id: string; status: string; checkDate: string; checkType: { name: string } } | null;
+  workLog: { id: string; title: string; completedBy: string; completedAt: string } | null;
+  route: { id: string; grade: string; color: string } | null;
+  reportedBy: Person | null;
+  assignedTo: Person | null;
+  resolvedBy: Person | null;
+  verifiedBy: Person | null;
+}
+
+interface MaintenanceDefectsProps {
+  selectedLocationId?: string;
+  userId: string;
+  isManager: boolean;
+}
+
+type DialogMode = "assign" | "resolve" | "reopen" | "edit";
+
+const SEVERITIES = [
+  { value: "LOW", label: "Low (30 days)" },
+  { value: "MEDIUM", label: "Medium (7 days)" },
+  { value: "HIGH", label: "High (3 days)" },
+  { value: "CRITICAL", label: "Critical (24 hours)" },
+];
+
+const STATUS_LABELS: Record<string, string> = {
+  OPEN: "Open",
+  ASSIGNED: "Assigned",
+  IN_PROGRESS: "In Progress",
+  RESOLVED: "Awaiting Verification",
+  VERIFIED: "Verified",
+};
+
+const emptyReport = { title: "", description: "", severity: "MEDIUM", area: "", outOfService: false, locationId: "" };
+const emptyResolve = { completedBy: "", description: "", partsUsed: "" };
+
+export function MaintenanceDefects({ selectedLocationId, userId, isManager }: MaintenanceDefectsProps) {
+  const [defects, setDefects] = useState<Defect[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [team, setTeam] = useState<Person[]>([]);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [report, setReport] = useState(emptyReport);
+  const [active, setActive] = useState<{ defect: Defect; mode: DialogMode } | null>(null);
+  const [assignedToId, setAssignedToId] = useState("");
+  const [resolveForm, setResolveForm] = useState(emptyResolve);
+  const [reopenReason, setReopenReason] = useState("");
+  const [editForm, setEditForm] = useState({ severity: "MEDIUM", area: "", outOfService: false });
+
+  useEffect(() => {
+    fetchLocations();
+    if (isManager) fetchTeam();
+  }, [isManager]);
+
+  useEffect(() => {
+    fetchDefects();
+  }, [selectedLocationId, statusFilter]);
+
+  const fetchLocations = async () => {
+    try {
+      const res = await fetch("/api/locations?activeOnly=true");
+      if (res.ok) {
+        setLocations(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch locations:", error);
+    }
+  };
+
+  const fetchTeam = async () => {
+    try {
+      const res = await fetch("/api/team");
+      if (res.ok) {
+        const data: Person[] = await res.json();
+        setTeam(data.map(({ id, name }) => ({ id, name })));
+      }
+    } catch (error) {
+      console.error("Failed to fetch team:", error);
+    }
+  };
+
+  const fetchDefects = async () => {
+    try {
+      const params = new URLSearchParams({ status: statusFilter });
+      if (selectedLocationId) {
+        params.append("locationId", selectedLocationId);
+      }
+      const res = await fetch(`/api/maintenance/defects?${params}`);
+      if (res.ok) {
+        setDefects(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch defects:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDefect = async (defect: Defect, body: Record<string, unknown>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/maintenance/defects/${defect.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to update defect");
+        return false;
+      }
+      setActive(null);
+      fetchDefects();
+      return true;
+    } catch (error) {
+      console.error("Failed to update defect:", error);
+      setError("Failed to update defect");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openDialog = (defect: Defect, mode: DialogMode) => {
+    setError(null);
+    setAssignedToId(defect.assignedTo?.id || "");
+    setResolveForm(emptyResolve);
+    setReopenReason("");
+    setEditForm({ severity: defect.severity, area: defect.area || "", outOfService: defect.outOfService });
+    setActive({ defect, mode });
+  };
+
+  const submitDialog = () => {
+    if (!active) return;
+    const { defect, mode } = active;
+
+    switch (mode) {
+      case "assign":
+        return updateDefect(defect, { action: "assign", assignedToId });
+      case "resolve":
+        return updateDefect(defect, {
+          action: "resolve",
+          workLog: {
+            completedBy: resolveForm.completedBy,
+            description: resolveForm.description || null,
+            partsUsed: resolveForm.partsUsed || null,
+          },
+        });
+      case "reopen":
+        return updateDefect(defect, { action: "reopen", reason: reopenReason || null });
+      case "edit":
+        return updateDefect(defect, {
+          action: "edit",
+          severity: editForm.severity,
+          area: editForm.area || null,
+          outOfService: editForm.severity === "CRITICAL" && editForm.outOfService,
+        });
+    }
+  };
+
+  const handleReport = async () => {
+    if (!report.title || !report.locationId) {
+      setError("Title and location are required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/maintenance/defects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...report,
+          description: report.description || null,
+          area: report.area || null,
+          outOfService: report.severity === "CRITICAL" && report.outOfService,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to report defect");
+        return;
+      }
+      setShowReport(false);
+      fetchDefects();
+    } catch (error) {
+      console.error("Failed to report defect:", error);
+      setError("Failed to report defect");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getSeverityBadge = (severity: string) => {
+    const colors: Record<string, string> = {
+      CRITICAL: "bg-red-100 text-red-800",
+      HIGH: "bg-orange-100 text-orange-800",
+      MEDIUM: "bg-amber-100 text-amber-800",
+      LOW: "bg-gray-100 text-gray-800",
+    };
+    return (
+      <span className={`px-2 py-0.5 rounded text-xs font-medium ${colors[severity] || colors.LOW}`}>
+        {severity.charAt(0) + severity.slice(1).toLowerCase()}
+      </span>
+    );
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "VERIFIED":
+        return <Badge variant="success">{STATUS_LABELS[status]}</Badge>;
+      case "RESOLVED":
+        return <Badge variant="warning">{STATUS_LABELS[status]}</Badge>;
+      case "OPEN":
+        return <Badge variant="outline">{STATUS_LABELS[status]}</Badge>;
+      default:
+        return <Badge variant="secondary">{STATUS_LABELS[status] || status}</Badge>;
+    }
+  };
+
+  const isOpen = (defect: Defect) => ["OPEN", "ASSIGNED", "IN_PROGRESS"].includes(defect.status);
+  const isOverdue = (defect: Defect) => isOpen(defect) && new Date(defect.dueBy) < new Date();
+
+  const locationOptions = [
+    { value: "", label: "Select location..." },
+    ...locations.map((loc) => ({ value: loc.id, label: loc.name })),
+  ];
+
+  if (loading) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-between sm:items-center">
+          <div className="w-48">
+            <Select
+              options={[
+                { value: "open", label: "Open and awaiting verification" },
+                { value: "all", label: "All (last 90 days)" },
+              ]}
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => {
+              setReport({ ...emptyReport, locationId: selectedLocationId || "" });
+              setError(null);
+              setShowReport(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Report Defect
+          </Button>
+        </div>
+
+        {error && !active && !showReport && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {defects.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground border rounded-lg">
+            <CheckCircle2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="font-medium">No open defects</p>
+            <p className="text-sm mt-1">Failed checks and reported problems show up here</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {defects.map((defect) => {
+              const isAssignee = defect.assignedTo?.id === userId;
+              const canWork = isManager || isAssignee;
+
+              return (
+                <div
+                  key={defect.id}
+                  className={`p-4 border rounded-lg ${defect.outOfService ? "border-red-300 bg-red-50/50" : ""}`}
+                >
+                  <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <span className="font-medium">{defect.title}</span>
+                        {getSeverityBadge(defect.severity)}
+                        {getStatusBadge(defect.status)}
+                        {isOverdue(defect) && <Badge variant="destructive">Overdue</Badge>}
+                        {defect.outOfService && (
+                          <Badge variant="destructive">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Out of Service
+                          </Badge>
+                        )}
+                      </div>
+                      {defect.description && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-line">{defect.description}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-sm text-muted-foreground">
+                        <span>
+                          {defect.location.name}
+                          {defect.area && ` · ${defect.area}`}
+                        </span>
+                        {isOpen(defect) && <span>Due {formatDate(new Date(defect.dueBy))}</span>}
+                        <span>
+                          {defect.assignedTo ? `Assigned to ${defect.assignedTo.name}` : "Unassigned"}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {defect.sourceLog
+                          ? `From ${defect.sourceLog.checkType.name} check on ${formatDate(new Date(defect.sourceLog.checkDate))}`
+                          : `Reported${defect.reportedBy ? ` by ${defect.reportedBy.name}` : defect.route ? " by a climber" : ""} on ${formatDate(new Date(defect.createdAt))}`}
+                      </p>
+                      {defect.workLog && (
+                        <p className="text-sm mt-1">
+                          <span className="text-muted-foreground">Fixed:</span> {defect.workLog.title} by{" "}
+                          {defect.workLog.completedBy}
+                          {defect.resolvedBy && ` (signed off by ${defect.resolvedBy.name})`}
+                        </p>
+                      )}
+                      {defect.verifiedBy && defect.verifiedAt && (
+                        <p className="text-sm mt-1">
+                          <span className="text-muted-foreground">Verified by</span> {defect.verifiedBy.name} on{" "}
+                          {formatDate(new Date(defect.verifiedAt))}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      {isManager && isOpen(defect) && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => openDialog(defect, "assign")}>
+                            {defect.assignedTo ? "Reassign" : "Assign"}
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openDialog(defect, "edit")}>
+                            Edit
+                          </Button>
+                        </>
+                      )}
+                      {canWork && defect.status !== "IN_PROGRESS" && isOpen(defect) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={saving}
+                          onClick={() => updateDefect(defect, { action: "start" })}
+                        >
+                          Start
+                        </Button>
+                      )}
+                      {canWork && isOpen(defect) && (
+                        <Button size="sm" onClick={() => openDialog(defect, "resolve")}>
+                          Resolve
+                        </Button>
+                      )}
+                      {isManager && defect.status === "RESOLVED" && (
+                        <>
+                          <Button
+                            size="sm"
+                            disabled={saving}
+                            onClick={() => updateDefect(defect, { action: "verify" })}
+                          >
+                            Verify
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openDialog(defect, "reopen")}>
+                            Reopen
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Report Defect Dialog */}
+      <Dialog open={showReport} onOpenChange={setShowReport}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Report Defect</DialogTitle>
+            <DialogDescription>
+              Report something broken or unsafe so it can be fixed
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="defectTitle">What&apos;s wrong *</Label>
+              <Input
+                id="defectTitle"
+                value={report.title}
+                onChange={(e) => setReport({ ...report, title: e.target.value })}
+                placeholder="e.g., Spinning hold on the cave"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="defectLocation">Location *</Label>
+                <Select
+                  id="defectLocation"
+                  options={locationOptions}
+                  value={report.locationId}
+                  onChange={(e) => setReport({ ...report, locationId: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="defectArea">Area</Label>
+                <Input
+                  id="defectArea"
+                  value={report.area}
+                  onChange={(e) => setReport({ ...report, area: e.target.value })}
+                  placeholder="e.g., Auto-belay 3"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="defectSeverity">Severity</Label>
+              <Select
+                id="defectSeverity"
+                options={SEVERITIES}
+                value={report.severity}
+                onChange={(e) => setReport({ ...report, severity: e.target.value })}
+              />
+            </div>
+
+            {report.severity === "CRITICAL" && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={report.outOfService}
+                  onCheckedChange={(checked) => setReport({ ...report, outOfService: checked })}
+                />
+                Take this area out of service
+              </label>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="defectDescription">Details</Label>
+              <Textarea
+                id="defectDescription"
+                value={report.description}
+                onChange={(e) => setReport({ ...report, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReport(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReport} disabled={saving}>
+              {saving ? "Saving..." : "Report Defect"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Defect Action Dialog */}
+      <Dialog open={!!active} onOpenChange={(open) => !open && setActive(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {active?.mode === "assign" && "Assign Defect"}
+              {active?.mode === "resolve" && "Resolve Defect"}
+              {active?.mode === "reopen" && "Reopen Defect"}
+              {active?.mode === "edit" && "Edit Defect"}
+            </DialogTitle>
+            <DialogDescription>{active?.defect.title}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            {active?.mode === "assign" && (
+              <div className="space-y-2">
+                <Label htmlFor="assignedTo">Assign to</Label>
+                <Select
+                  id="assignedTo"
+                  options={[
+                    { value: "", label: "Select person..." },
+                    ...team.map((person) => ({ value: person.id, label: person.name })),
+                  ]}
+                  value={assignedToId}
+                  onChange={(e) => setAssignedToId(e.target.value)}
+                />
+              </div>
+            )}
+
+            {active?.mode === "resolve" && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  This adds a repair to the work log.
+                  {active.defect.severity === "CRITICAL" && " Someone else will need to verify the fix."}
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="resolveCompletedBy">Completed By *</Label>
+                  <Input
+                    id="resolveCompletedBy"
+                    value={resolveForm.completedBy}
+                    onChange={(e) => setResolveForm({ ...resolveForm, completedBy: e.target.value })}
+                    placeholder="Name of person"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="resolveDescription">What was done</Label>
+                  <Textarea
+                    id="resolveDescription"
+                    value={resolveForm.description}
+                    onChange={(e) => setResolveForm({ ...resolveForm, description: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="resolvePartsUsed">Parts/Materials Used</Label>
+                  <Input
+                    id="resolvePartsUsed"
+                    value={resolveForm.partsUsed}
+                    onChange={(e) => setResolveForm({ ...resolveForm, partsUsed: e.target.value })}
+                  />
+                </div>
+              </>
+            )}
+
+            {active?.mode === "reopen" && (
+              <div className="space-y-2">
+                <Label htmlFor="reopenReason">Why isn&apos;t it fixed?</Label>
+                <Textarea
+                  id="reopenReason"
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  rows={2}
+                />
+              </div>
+            )}
+
+            {active?.mode === "edit" && (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="editSeverity">Severity</Label>
+                    <Select
+                      id="editSeverity"
+                      options={SEVERITIES}
+                      value={editForm.severity}
+                      onChange={(e) => setEditForm({ ...editForm, severity: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="editArea">Area</Label>
+                    <Input
+                      id="editArea"
+                      value={editForm.area}
+                      onChange={(e) => setEditForm({ ...editForm, area: e.target.value })}
+                    />
+                  </div>
+                </div>
+                {editForm.severity === "CRITICAL" && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={editForm.outOfService}
+                      onCheckedChange={(checked) => setEditForm({ ...editForm, outOfService: checked })}
+                    />
+                    Area is out of service until the fix is verified
+                  </label>
+                )}
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setActive(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={submitDialog}
+              disabled={
+                saving ||
+                (active?.mode === "assign" && !assignedToId) ||
+                (active?.mode === "resolve" && !resolveForm.completedBy.trim())
+              }
+            >
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
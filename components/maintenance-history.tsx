@@ -33,6 +33,10 @@ interface MaintenanceLog {
     id: string;
     name: string;
   };
+  asset: {
+    id: string;
+    name: string;
+  } | null;
   signedBy: {
     id: string;
     name: string;
@@ -296,7 +300,12 @@ export function MaintenanceHistory({ selectedLocationId = "" }: MaintenanceHisto
                       </div>
                     </TableCell>
                     <TableCell>{log.location.name}</TableCell>
-                    <TableCell>{log.checkType.name}</TableCell>
+                    <TableCell>
+                      {log.checkType.name}
+                      {log.asset && (
+                        <div className="text-xs text-muted-foreground">{log.asset.name}</div>
+                      )}
+                    </TableCell>
                     <TableCell>{getStatusBadge(log.status)}</TableCell>
                     <TableCell>
                       {log.signedBy.name}
@@ -22,6 +22,7 @@ interface CheckType {
   id: string;
   name: string;
   frequencyDays: number;
+  checklist: string | null;
 }
 
 interface Location {
@@ -63,6 +64,9 @@ interface OverviewData {
     dueToday: number;
     overdueChecks: number;
     openIssues: number;
+    openDefects: number;
+    overdueDefects: number;
+    assetsDue: number;
   };
   checkTypes: CheckType[];
   locations: Location[];
@@ -76,6 +80,12 @@ interface OverviewData {
     location: { name: string };
     signedBy: { name: string };
   }>;
+  outOfService: Array<{
+    id: string;
+    title: string;
+    area: string | null;
+    location: { id: string; name: string };
+  }>;
   canEdit: boolean;
   userRole: string;
 }
@@ -330,20 +340,56 @@ export function MaintenanceOverview({
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
-              Open Issues (30d)
+              Open Defects
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className={cn(
               "text-2xl font-bold",
-              data.summary.openIssues > 0 ? "text-amber-600" : ""
+              data.summary.overdueDefects > 0
+                ? "text-red-600"
+                : data.summary.openDefects > 0 ? "text-amber-600" : ""
             )}>
-              {data.summary.openIssues}
+              {data.summary.openDefects}
             </div>
+            {data.summary.overdueDefects > 0 && (
+              <p className="text-xs text-red-600 mt-1">
+                {data.summary.overdueDefects} past due
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {data.summary.assetsDue > 0 && (
+        <div className="flex items-center gap-2 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <span>
+            {data.summary.assetsDue} {data.summary.assetsDue === 1 ? "asset is" : "assets are"} overdue an
+            inspection or past their lifespan. See the Assets tab.
+          </span>
+        </div>
+      )}
+
+      {/* Areas closed by critical defects */}
+      {data.outOfService.length > 0 && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="py-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+              <div className="space-y-1">
+                <p className="font-medium text-red-800">Out of service</p>
+                {data.outOfService.map((defect) => (
+                  <p key={defect.id} className="text-sm text-red-700">
+                    <span className="font-medium">{defect.area}</span> at {defect.location.name}: {defect.title}
+                  </p>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Location Check Grid */}
       <Card>
         <CardHeader>
@@ -445,6 +491,7 @@ export function MaintenanceOverview({
                                           id: check.checkTypeId,
                                           name: check.checkTypeName,
                                           frequencyDays: check.frequencyDays,
+                                          checklist: data.checkTypes.find((t) => t.id === check.checkTypeId)?.checklist ?? null,
                                         },
                                         location: {
                                           id: loc.locationId,
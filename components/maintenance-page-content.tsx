@@ -9,6 +9,8 @@ import { MaintenanceOverview } from "@/components/maintenance-overview";
 import { MaintenanceHistory } from "@/components/maintenance-history";
 import { MaintenanceCheckTypesManager } from "@/components/maintenance-check-types-manager";
 import { MaintenanceWorkLog } from "@/components/maintenance-work-log";
+import { MaintenanceDefects } from "@/components/maintenance-defects";
+import { MaintenanceAssets } from "@/components/maintenance-assets";
 import { MapPin, ChevronDown } from "lucide-react";
 
 interface Location {
@@ -17,17 +19,21 @@ interface Location {
 }
 
 interface MaintenancePageContentProps {
+  userId: string;
   userName: string;
   userRole: string;
   isAdmin: boolean;
   isManager: boolean;
+  initialTab?: string;
 }
 
 export function MaintenancePageContent({
+  userId,
   userName,
   userRole,
   isAdmin,
   isManager,
+  initialTab = "today",
 }: MaintenancePageContentProps) {
   const [locations, setLocations] = useState<Location[]>([]);
   const [selectedLocationId, setSelectedLocationId] = useState<string>("");
@@ -89,9 +95,11 @@ export function MaintenancePageContent({
       </Card>
 
       {/* Tabs */}
-      <Tabs defaultValue="today">
+      <Tabs defaultValue={initialTab}>
         <TabsList className="mb-6">
           <TabsTrigger value="today">Safety Checks</TabsTrigger>
+          <TabsTrigger value="defects">Defects</TabsTrigger>
+          <TabsTrigger value="assets">Assets</TabsTrigger>
           <TabsTrigger value="work-log">Work Log</TabsTrigger>
           <TabsTrigger value="history">History</TabsTrigger>
           {isManager && <TabsTrigger value="check-types">Check Types</TabsTrigger>}
@@ -105,6 +113,38 @@ export function MaintenancePageContent({
           />
         </TabsContent>
 
+        <TabsContent value="defects">
+          <Card>
+            <CardHeader>
+              <CardTitle>Defects</CardTitle>
+              <CardDescription>
+                Work orders raised from failed checks and reported problems, tracked until the fix is verified
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MaintenanceDefects
+                selectedLocationId={selectedLocationId}
+                userId={userId}
+                isManager={isManager}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="assets">
+          <Card>
+            <CardHeader>
+              <CardTitle>Asset Register</CardTitle>
+              <CardDescription>
+                Individual equipment with its own inspection schedule and lifespan, for LOLER and PPE records
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MaintenanceAssets selectedLocationId={selectedLocationId} isManager={isManager} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="work-log">
           <Card>
             <CardHeader>
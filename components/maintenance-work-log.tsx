@@ -37,6 +37,7 @@ interface WorkLog {
   estimatedCost: number | null;
   location: Location;
   loggedBy: { id: string; name: string };
+  asset: { id: string; name: string } | null;
 }
 
 interface MaintenanceWorkLogProps {
@@ -62,6 +63,7 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
   const [locations, setLocations] = useState<Location[]>([]);
+  const [assets, setAssets] = useState<{ id: string; name: string }[]>([]);
   const [loading, setLoading] = useState(true);
   const [showDialog, setShowDialog] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -75,6 +77,7 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
     completedBy: "",
     completedAt: new Date().toISOString().split("T")[0],
     locationId: "",
+    assetId: "",
     photoUrls: [] as string[],
     partsUsed: "",
     estimatedCost: "",
@@ -94,6 +97,17 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
     }
   }, [selectedLocationId]);
 
+  useEffect(() => {
+    if (!formData.locationId) {
+      setAssets([]);
+      return;
+    }
+    fetch(`/api/maintenance/assets?locationId=${formData.locationId}`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setAssets)
+      .catch((err) => console.error("Failed to fetch assets:", err));
+  }, [formData.locationId]);
+
   const fetchLocations = async () => {
     try {
       const res = await fetch("/api/locations?activeOnly=true");
@@ -185,6 +199,7 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
       completedBy: "",
       completedAt: new Date().toISOString().split("T")[0],
       locationId: selectedLocationId || "",
+      assetId: "",
       photoUrls: [],
       partsUsed: "",
       estimatedCost: "",
@@ -210,6 +225,7 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
           estimatedCost: formData.estimatedCost
             ? parseFloat(formData.estimatedCost)
             : null,
+          assetId: formData.assetId || null,
         }),
       });
 
@@ -315,6 +331,12 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
                       )}
                       <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
                         <span>{log.location.name}</span>
+                        {log.asset && (
+                          <>
+                            <span>•</span>
+                            <span>{log.asset.name}</span>
+                          </>
+                        )}
                         <span>•</span>
                         <span>{formatDate(new Date(log.completedAt))}</span>
                         <span>•</span>
@@ -385,7 +407,7 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
                   id="location"
                   options={locationOptions}
                   value={formData.locationId}
-                  onChange={(e) => setFormData({ ...formData, locationId: e.target.value })}
+                  onChange={(e) => setFormData({ ...formData, locationId: e.target.value, assetId: "" })}
                 />
               </div>
               <div className="space-y-2">
@@ -420,6 +442,26 @@ export function MaintenanceWorkLog({ selectedLocationId }: MaintenanceWorkLogPro
               </div>
             </div>
 
+            {assets.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="asset">Asset (optional)</Label>
+                <Select
+                  id="asset"
+                  options={[
+                    { value: "", label: "No specific asset" },
+                    ...assets.map((asset) => ({ value: asset.id, label: asset.name })),
+                  ]}
+                  value={formData.assetId}
+                  onChange={(e) => setFormData({ ...formData, assetId: e.target.value })}
+                />
+                {formData.assetId && formData.category === "INSPECTION" && formData.status === "COMPLETED" && (
+                  <p className="text-xs text-muted-foreground">
+                    This counts as the asset&apos;s latest inspection
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
               <Select
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { Send } from "lucide-react";
+
+interface MessageRead {
+  userId: string;
+  readAt: string;
+  user: { name: string };
+}
+
+interface Message {
+  id: string;
+  content: string;
+  createdAt: string;
+  sender: { id: string; name: string };
+  reads: MessageRead[];
+}
+
+interface Thread {
+  key: string;
+  type: "dm" | "shift" | "location" | "timesheet";
+  title: string;
+  canPost: boolean;
+  messages: Message[];
+}
+
+interface MessageThreadProps {
+  conversation: string;
+  currentUserId: string;
+  compact?: boolean;
+  onRead?: () => void;
+}
+
+// Poll for new messages every 15 seconds while the thread is open
+const POLL_INTERVAL_MS = 15000;
+
+const formatMessageTime = (dateString: string) => {
+  const date = new Date(dateString);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleString("en-GB", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+};
+
+export function MessageThread({ conversation, currentUserId, compact, onRead }: MessageThreadProps) {
+  const [thread, setThread] = useState<Thread | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [content, setContent] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const fetchThread = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/messages/thread?conversation=${encodeURIComponent(conversation)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load messages");
+        return;
+      }
+      setThread(data);
+
+      const hasUnread = data.messages.some(
+        (m: Message) => m.sender.id !== currentUserId && !m.reads.some((r) => r.userId === currentUserId)
+      );
+      if (hasUnread) {
+        await fetch("/api/messages/read", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ conversation }),
+        });
+        onRead?.();
+      }
+    } catch (error) {
+      console.error("Failed to fetch messages:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversation, currentUserId, onRead]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    fetchThread();
+    const interval = setInterval(fetchThread, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchThread]);
+
+  const messageCount = thread?.messages.length ?? 0;
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messageCount]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ conversation, content }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to send message");
+        return;
+      }
+      setContent("");
+      setThread((prev) => (prev ? { ...prev, messages: [...prev.messages, data] } : prev));
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      setError("Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Read receipt for the latest message I sent
+  const getSeenLabel = (message: Message) => {
+    const readers = message.reads.filter((r) => r.userId !== currentUserId);
+    if (readers.length === 0) return null;
+    if (thread?.type === "dm") return "Seen";
+    if (readers.length <= 3) return `Seen by ${readers.map((r) => r.user.name).join(", ")}`;
+    return `Seen by ${readers.length} people`;
+  };
+
+  if (loading && !thread) {
+    return <p className="text-sm text-muted-foreground">Loading messages...</p>;
+  }
+
+  const messages = thread?.messages || [];
+  const lastOwnMessageId = [...messages].reverse().find((m) => m.sender.id === currentUserId)?.id;
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      <div className={cn("space-y-3 overflow-y-auto", compact ? "max-h-60" : "max-h-[60vh]")}>
+        {messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">No messages yet</p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.sender.id === currentUserId;
+            const seenLabel = message.id === lastOwnMessageId ? getSeenLabel(message) : null;
+            return (
+              <div key={message.id} className={cn("flex flex-col", isOwn ? "items-end" : "items-start")}>
+                {!isOwn && thread?.type !== "dm" && (
+                  <span className="text-xs text-muted-foreground mb-0.5">{message.sender.name}</span>
+                )}
+                <div
+                  className={cn(
+                    "max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words",
+                    isOwn ? "bg-primary text-primary-foreground" : "bg-muted"
+                  )}
+                >
+                  {message.content}
+                </div>
+                <span className="text-xs text-muted-foreground mt-0.5">
+                  {formatMessageTime(message.createdAt)}
+                  {seenLabel && ` · ${seenLabel}`}
+                </span>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {thread?.canPost ? (
+        <form onSubmit={handleSend} className="flex items-end gap-2">
+          <Textarea
+            placeholder="Write a message..."
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSend(e);
+              }
+            }}
+            rows={compact ? 1 : 2}
+            maxLength={2000}
+            className="flex-1"
+          />
+          <Button type="submit" size="icon" disabled={sending || !content.trim()} title="Send">
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      ) : (
+        thread && (
+          <p className="text-xs text-muted-foreground">Only managers can post in location broadcasts.</p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select } from "@/components/ui/select";
+import { MessageThread } from "@/components/message-thread";
+import { cn } from "@/lib/utils";
+import { Calendar, ClipboardList, Megaphone, User } from "lucide-react";
+
+interface TeamMember {
+  id: string;
+  name: string;
+}
+
+interface Conversation {
+  key: string;
+  type: "dm" | "shift" | "location" | "timesheet";
+  title: string;
+  subtitle: string | null;
+  lastMessage: { content: string; createdAt: string; senderName: string } | null;
+  unreadCount: number;
+}
+
+interface MessagesPageContentProps {
+  currentUserId: string;
+  teamMembers: TeamMember[];
+  initialConversation: string | null;
+}
+
+const conversationIcons = {
+  dm: User,
+  shift: Calendar,
+  location: Megaphone,
+  timesheet: ClipboardList,
+};
+
+const formatSubtitle = (conversation: Conversation) => {
+  if (conversation.type === "shift" && conversation.subtitle) {
+    return new Date(conversation.subtitle).toLocaleString("en-GB", {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  }
+  return conversation.subtitle;
+};
+
+export function MessagesPageContent({
+  currentUserId,
+  teamMembers,
+  initialConversation,
+}: MessagesPageContentProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(initialConversation);
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const res = await fetch("/api/messages");
+      if (res.ok) {
+        setConversations(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch conversations:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConversations();
+    const interval = setInterval(fetchConversations, 30000);
+    return () => clearInterval(interval);
+  }, [fetchConversations]);
+
+  const selectConversation = (key: string) => {
+    setSelected(key);
+    window.history.replaceState(null, "", `/dashboard/messages?c=${encodeURIComponent(key)}`);
+  };
+
+  const selectedConversation = conversations.find((c) => c.key === selected);
+  const selectedTitle =
+    selectedConversation?.title ||
+    (selected?.startsWith("dm:")
+      ? teamMembers.find((m) => `dm:${m.id}` === selected)?.name
+      : null) ||
+    "Conversation";
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Conversations</CardTitle>
+          {teamMembers.length > 0 && (
+            <Select
+              options={[
+                { value: "", label: "New message to..." },
+                ...teamMembers.map((m) => ({ value: m.id, label: m.name })),
+              ]}
+              value=""
+              onChange={(e) => e.target.value && selectConversation(`dm:${e.target.value}`)}
+            />
+          )}
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+          ) : conversations.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No conversations yet</p>
+          ) : (
+            <div className="divide-y">
+              {conversations.map((conversation) => {
+                const Icon = conversationIcons[conversation.type];
+                return (
+                  <button
+                    key={conversation.key}
+                    onClick={() => selectConversation(conversation.key)}
+                    className={cn(
+                      "w-full text-left px-4 py-3 hover:bg-muted/50 transition-colors",
+                      selected === conversation.key && "bg-muted"
+                    )}
+                  >
+                    <div className="flex items-start gap-3">
+                      <Icon className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className={cn("text-sm truncate", conversation.unreadCount > 0 && "font-semibold")}>
+                            {conversation.title}
+                          </p>
+                          {conversation.unreadCount > 0 && (
+                            <Badge variant="destructive">{conversation.unreadCount}</Badge>
+                          )}
+                        </div>
+                        {conversation.subtitle && (
+                          <p className="text-xs text-muted-foreground">{formatSubtitle(conversation)}</p>
+                        )}
+                        {conversation.lastMessage && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {conversation.lastMessage.senderName}: {conversation.lastMessage.content}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        {selected ? (
+          <>
+            <CardHeader>
+              <CardTitle className="text-lg">{selectedTitle}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MessageThread
+                key={selected}
+                conversation={selected}
+                currentUserId={currentUserId}
+                onRead={fetchConversations}
+              />
+            </CardContent>
+          </>
+        ) : (
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            Select a conversation or start a new message
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -22,6 +22,8 @@ import {
 } from "lucide-react";
 import { formatDate, formatTime, calculateHours } from "@/lib/utils";
 import { MobileSwapDropDialog } from "@/components/mobile-swap-drop-dialog";
+import { AnnouncementsBoard, type BoardAnnouncement } from "@/components/announcements-board";
+import { TimeEntryBreakList, type TimeEntryBreakItem } from "@/components/time-entry-breaks";
 
 interface Shift {
   id: string;
@@ -38,6 +40,7 @@ interface TimeEntry {
   clockOut: Date | null;
   breakStart: Date | null;
   totalBreak: number;
+  breaks?: TimeEntryBreakItem[];
   status: string;
   shift: { id: string; title: string } | null;
 }
@@ -70,6 +73,7 @@ interface MobileStaffViewProps {
     totalBreakMinutes: number;
     entriesCount: number;
   };
+  announcements: BoardAnnouncement[];
 }
 
 type TabType = "clock" | "shifts" | "rota" | "timesheet";
@@ -81,6 +85,7 @@ export function MobileStaffView({
   monthTimeEntries,
   pendingSwapRequests,
   monthlyStats,
+  announcements,
 }: MobileStaffViewProps) {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<TabType>("clock");
@@ -232,21 +237,24 @@ export function MobileStaffView({
     }
   };
 
-  const handleBreak = async (action: "start" | "end") => {
+  const handleBreak = async (action: "start" | "end", type: "PAID" | "UNPAID" = "UNPAID") => {
     if (!activeTimeEntry) return;
     setLoading(true);
+    setError(null);
 
     try {
       const res = await fetch("/api/time-entries/break", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ timeEntryId: activeTimeEntry.id, action }),
+        body: JSON.stringify({ timeEntryId: activeTimeEntry.id, action, type }),
       });
 
+      const data = await res.json();
       if (res.ok) {
-        const data = await res.json();
         setActiveTimeEntry(data);
         router.refresh();
+      } else {
+        setError(data.error || "Failed to update break status");
       }
     } catch {
       setError("Failed to update break status");
@@ -296,6 +304,13 @@ export function MobileStaffView({
 
       {/* Content */}
       <main className="flex-1 overflow-y-auto pb-20">
+        {/* Pinned announcements */}
+        {announcements.length > 0 && (
+          <div className="px-4 pt-4">
+            <AnnouncementsBoard announcements={announcements} compact />
+          </div>
+        )}
+
         {/* Clock Tab */}
         {activeTab === "clock" && (
           <div className="p-4 space-y-4">
@@ -354,11 +369,22 @@ export function MobileStaffView({
                         Clock Out
                       </Button>
                     </div>
-                    {isOnBreak && (
+                    {isOnBreak ? (
                       <p className="text-sm text-muted-foreground">
                         End your break before clocking out
                       </p>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => handleBreak("start", "PAID")}
+                        disabled={loading}
+                      >
+                        Start a paid break instead
+                      </Button>
                     )}
+                    <TimeEntryBreakList breaks={activeTimeEntry.breaks ?? []} />
                   </div>
                 ) : (
                   <div className="text-center space-y-4">
@@ -14,6 +14,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { PoundSterling } from "lucide-react";
+import { calculateStaffCost, getTaxYearRules } from "@/lib/uk-payroll";
 
 interface MonthlySalaryEditorProps {
   userId: string;
@@ -62,9 +63,8 @@ export function MonthlySalaryEditor({ userId, userName, currentSalary }: Monthly
 
   // Calculate estimated costs for display
   const salaryNum = parseFloat(salary) || 0;
-  const holidayAccrual = 0; // Monthly staff don't get holiday accrual
-  const employerNI = salaryNum > 758.33 ? (salaryNum - 758.33) * 0.138 : 0;
-  const totalCost = salaryNum + employerNI;
+  const taxYear = getTaxYearRules(new Date());
+  const { employerNI, totalCost } = calculateStaffCost(salaryNum, "MONTHLY", taxYear);
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -114,7 +114,7 @@ export function MonthlySalaryEditor({ userId, userName, currentSalary }: Monthly
                 <span>£0.00 (included)</span>
               </div>
               <div className="flex justify-between text-muted-foreground">
-                <span>Employer NI (13.8%)</span>
+                <span>Employer NI ({Math.round(taxYear.ni.employerRate * 1000) / 10}%, {taxYear.label})</span>
                 <span>£{employerNI.toFixed(2)}</span>
               </div>
               <div className="flex justify-between font-medium pt-2 border-t">
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Bell } from "lucide-react";
+import { Bell, MessageSquare } from "lucide-react";
 import {
   Popover,
   PopoverContent,
@@ -23,16 +23,24 @@ interface Notification {
 export function NotificationBadge() {
   const router = useRouter();
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadMessages, setUnreadMessages] = useState(0);
   const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
 
   const fetchNotifications = async () => {
     try {
-      const res = await fetch("/api/notifications");
+      const [res, messagesRes] = await Promise.all([
+        fetch("/api/notifications"),
+        fetch("/api/messages/unread-count"),
+      ]);
       if (res.ok) {
         const data = await res.json();
         setNotifications(data);
       }
+      if (messagesRes.ok) {
+        const data = await messagesRes.json();
+        setUnreadMessages(data.total);
+      }
     } catch (error) {
       console.error("Failed to fetch notifications:", error);
     } finally {
@@ -47,7 +55,7 @@ export function NotificationBadge() {
     return () => clearInterval(interval);
   }, []);
 
-  const unreadCount = notifications.filter((n) => !n.isRead).length;
+  const unreadCount = notifications.filter((n) => !n.isRead).length + unreadMessages;
 
   const handleNotificationClick = async (notification: Notification) => {
     // Mark as read
@@ -116,7 +124,7 @@ export function NotificationBadge() {
       <PopoverContent className="w-80 p-0 max-h-[60vh] flex flex-col" align="end" side="right" sideOffset={8}>
         <div className="flex items-center justify-between p-3 border-b flex-shrink-0">
           <h4 className="font-semibold">Notifications</h4>
-          {unreadCount > 0 && (
+          {unreadCount > unreadMessages && (
             <Button
               variant="ghost"
               size="sm"
@@ -128,11 +136,25 @@ export function NotificationBadge() {
           )}
         </div>
         <div className="flex-1 overflow-y-auto">
+          {unreadMessages > 0 && (
+            <button
+              onClick={() => {
+                setOpen(false);
+                router.push("/dashboard/messages");
+              }}
+              className="w-full text-left p-3 border-b bg-primary/5 hover:bg-muted/50 transition-colors flex items-center gap-2"
+            >
+              <MessageSquare className="h-4 w-4 text-primary flex-shrink-0" />
+              <span className="text-sm font-medium">
+                {unreadMessages} unread {unreadMessages === 1 ? "message" : "messages"}
+              </span>
+            </button>
+          )}
           {loading ? (
             <div className="p-4 text-center text-sm text-muted-foreground">
               Loading...
             </div>
-          ) : notifications.length === 0 ? (
+          ) : notifications.length === 0 && unreadMessages === 0 ? (
             <div className="p-4 text-center text-sm text-muted-foreground">
               No notifications
             </div>
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { BellRing } from "lucide-react";
+
+interface Delivery {
+  id: string;
+  channel: string;
+  status: string;
+  reason: string | null;
+  error: string | null;
+}
+
+interface LoggedNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  isRead: boolean;
+  showInApp: boolean;
+  createdAt: string;
+  deliveries: Delivery[];
+}
+
+interface NotificationLog {
+  hasEmail: boolean;
+  pushDevices: number;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  notifications: LoggedNotification[];
+}
+
+interface NotificationLogDialogProps {
+  userId: string;
+  userName: string;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  IN_APP: "In-app",
+  EMAIL: "Email",
+  PUSH: "Push",
+  DIGEST: "Digest",
+};
+
+const STATUS_VARIANTS: Record<string, "success" | "destructive" | "warning" | "secondary" | "outline"> = {
+  SENT: "success",
+  FAILED: "destructive",
+  DEFERRED: "warning",
+  QUEUED: "warning",
+  SKIPPED: "outline",
+};
+
+export function NotificationLogDialog({ userId, userName }: NotificationLogDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [log, setLog] = useState<NotificationLog | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLog = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/team/${userId}/notifications`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load notifications");
+      }
+      setLog(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) fetchLog();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Notification log">
+          <BellRing className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle>Notification Log</DialogTitle>
+          <DialogDescription>
+            What {userName} was sent recently, and how each channel went
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto py-2">
+          {loading ? (
+            <div className="text-center py-4 text-muted-foreground">Loading...</div>
+          ) : error ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          ) : log ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant={log.hasEmail ? "secondary" : "destructive"}>
+                  {log.hasEmail ? "Has email address" : "No email address"}
+                </Badge>
+                <Badge variant={log.pushDevices > 0 ? "secondary" : "outline"}>
+                  {log.pushDevices} push device{log.pushDevices !== 1 ? "s" : ""}
+                </Badge>
+                {log.quietHoursStart && log.quietHoursEnd && (
+                  <Badge variant="outline">
+                    Quiet hours {log.quietHoursStart}–{log.quietHoursEnd}
+                  </Badge>
+                )}
+              </div>
+
+              {log.notifications.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground border rounded-lg">
+                  <p className="font-medium">No notifications yet</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {log.notifications.map((notification) => (
+                    <div key={notification.id} className="p-3 border rounded-lg">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="font-medium text-sm">{notification.title}</p>
+                          <p className="text-sm text-muted-foreground">{notification.message}</p>
+                        </div>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {new Date(notification.createdAt).toLocaleString("en-GB", {
+                            day: "numeric",
+                            month: "short",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </span>
+                      </div>
+                      <div className="mt-2 space-y-1">
+                        {notification.deliveries.map((delivery) => (
+                          <div key={delivery.id} className="flex items-center gap-2 text-xs">
+                            <span className="w-14 text-muted-foreground">
+                              {CHANNEL_LABELS[delivery.channel] || delivery.channel}
+                            </span>
+                            <Badge variant={STATUS_VARIANTS[delivery.status] || "secondary"}>
+                              {delivery.status.toLowerCase()}
+                            </Badge>
+                            {(delivery.error || delivery.reason) && (
+                              <span className={delivery.error ? "text-destructive" : "text-muted-foreground"}>
+                                {delivery.error || delivery.reason}
+                              </span>
+                            )}
+                            {delivery.channel === "IN_APP" && delivery.status === "SENT" && (
+                              <span className="text-muted-foreground">
+                                {notification.isRead ? "Read" : "Unread"}
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : null}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
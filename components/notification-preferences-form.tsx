@@ -0,0 +1,251 @@
+"use client";
+
+import { Fragment, useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select } from "@/components/ui/select";
+
+type Channel = "inApp" | "email" | "push" | "digest";
+
+interface TypePreference {
+  type: string;
+  label: string;
+  category: string;
+  configurable: Channel[];
+  channels: Record<Channel, boolean>;
+}
+
+const CHANNELS: { key: Channel; label: string }[] = [
+  { key: "inApp", label: "In-app" },
+  { key: "email", label: "Email" },
+  { key: "push", label: "Push" },
+  { key: "digest", label: "Daily digest" },
+];
+
+const DIGEST_FREQUENCIES = [
+  { value: "DAILY", label: "Every morning" },
+  { value: "WEEKLY", label: "Monday mornings" },
+  { value: "OFF", label: "Off" },
+];
+
+export function NotificationPreferencesForm() {
+  const [types, setTypes] = useState<TypePreference[]>([]);
+  const [quietHours, setQuietHours] = useState({ enabled: false, start: "22:00", end: "07:00" });
+  const [timezone, setTimezone] = useState("UTC");
+  // Only set for managers
+  const [managerDigestFrequency, setManagerDigestFrequency] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, []);
+
+  const applyResponse = (data: {
+    types: TypePreference[];
+    quietHoursStart: string | null;
+    quietHoursEnd: string | null;
+    timezone: string;
+    managerDigestFrequency: string | null;
+  }) => {
+    setTypes(data.types);
+    setTimezone(data.timezone);
+    setManagerDigestFrequency(data.managerDigestFrequency);
+    setQuietHours({
+      enabled: !!(data.quietHoursStart && data.quietHoursEnd),
+      start: data.quietHoursStart || "22:00",
+      end: data.quietHoursEnd || "07:00",
+    });
+  };
+
+  const fetchPreferences = async () => {
+    try {
+      const res = await fetch("/api/notifications/preferences");
+      if (res.ok) {
+        applyResponse(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch notification preferences:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleChannel = (type: string, channel: Channel, checked: boolean) => {
+    setSuccess(false);
+    setTypes((prev) =>
+      prev.map((t) => {
+        if (t.type !== type || !t.configurable.includes(channel)) return t;
+        const channels = { ...t.channels, [channel]: checked };
+        // A daily digest replaces the immediate email, and vice versa
+        if (channel === "digest" && checked) channels.email = false;
+        if (channel === "email" && checked) channels.digest = false;
+        return { ...t, channels };
+      })
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSuccess(false);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          preferences: types.map((t) => ({ type: t.type, ...t.channels })),
+          quietHoursStart: quietHours.enabled ? quietHours.start : null,
+          quietHoursEnd: quietHours.enabled ? quietHours.end : null,
+          ...(managerDigestFrequency && { managerDigestFrequency }),
+        }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        applyResponse(data);
+        setSuccess(true);
+      } else {
+        setError(data.error || "Failed to save preferences");
+      }
+    } catch {
+      setError("Failed to save preferences");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  const categories = [...new Set(types.map((t) => t.category))];
+
+  return (
+    <div className="space-y-6">
+      {success && (
+        <div className="p-3 text-sm text-green-600 bg-green-50 rounded-md">
+          Notification preferences saved
+        </div>
+      )}
+      {error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">{error}</div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-2 font-medium">Notification</th>
+              {CHANNELS.map((channel) => (
+                <th key={channel.key} className="py-2 px-2 font-medium text-center whitespace-nowrap">
+                  {channel.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {categories.map((category) => (
+              <Fragment key={category}>
+                <tr>
+                  <td colSpan={CHANNELS.length + 1} className="pt-4 pb-1 text-xs font-semibold uppercase text-muted-foreground">
+                    {category}
+                  </td>
+                </tr>
+                {types
+                  .filter((t) => t.category === category)
+                  .map((t) => (
+                    <tr key={t.type} className="border-b last:border-0">
+                      <td className="py-2">{t.label}</td>
+                      {CHANNELS.map((channel) => (
+                        <td key={channel.key} className="py-2 px-2 text-center">
+                          {t.configurable.includes(channel.key) ? (
+                            <div className="inline-flex">
+                              <Checkbox
+                                checked={t.channels[channel.key]}
+                                onCheckedChange={(checked) => toggleChannel(t.type, channel.key, checked)}
+                                aria-label={`${t.label}: ${channel.label}`}
+                              />
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">
+                              {t.channels[channel.key] ? "Always" : "–"}
+                            </span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="quietHours"
+            checked={quietHours.enabled}
+            onCheckedChange={(checked) => {
+              setSuccess(false);
+              setQuietHours({ ...quietHours, enabled: checked });
+            }}
+          />
+          <Label htmlFor="quietHours">Quiet hours</Label>
+        </div>
+        {quietHours.enabled && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={quietHours.start}
+              onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+              className="w-32"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              value={quietHours.end}
+              onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+              className="w-32"
+            />
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Push notifications during quiet hours are held until they end ({timezone} time).
+          In-app and email notifications still arrive.
+        </p>
+      </div>
+
+      {managerDigestFrequency && (
+        <div className="space-y-2">
+          <Label htmlFor="managerDigest">Manager digest email</Label>
+          <Select
+            id="managerDigest"
+            value={managerDigestFrequency}
+            onChange={(e) => {
+              setSuccess(false);
+              setManagerDigestFrequency(e.target.value);
+            }}
+            options={DIGEST_FREQUENCIES}
+            className="w-48"
+          />
+          <p className="text-xs text-muted-foreground">
+            A summary of requests, approvals, overdue tasks, failed checks, low stock, cash-up
+            discrepancies and expiring compliance at your locations. Only sent when something
+            needs action.
+          </p>
+        </div>
+      )}
+
+      <Button onClick={handleSave} disabled={saving}>
+        {saving ? "Saving..." : "Save Preferences"}
+      </Button>
+    </div>
+  );
+}
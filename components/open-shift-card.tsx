@@ -59,7 +59,7 @@ export function OpenShiftCard({ shift }: OpenShiftCardProps) {
       if (res.ok) {
         router.refresh();
       } else {
-        setError(data.certificationError || data.error || "Failed to claim shift");
+        setError(data.conflictError || data.error || "Failed to claim shift");
       }
     } catch (err) {
       console.error("Failed to claim shift:", err);
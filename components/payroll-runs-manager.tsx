@@ -0,0 +1,468 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDate } from "@/lib/utils";
+import { AlertTriangle, Download, Lock, RefreshCw, ShieldCheck, Trash2 } from "lucide-react";
+
+interface PayrollTotals {
+  hours: number;
+  grossPay: number;
+  holidayAccrual: number;
+  employeeNI: number;
+  employerNI: number;
+  employerPension: number;
+  employeePension: number;
+  totalCost: number;
+}
+
+interface PayPeriodSummary {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  payDate: string | null;
+  lockedAt: string | null;
+  payrollRun: {
+    id: string;
+    status: "DRAFT" | "SIGNED_OFF";
+    totals: string;
+    generatedAt: string;
+    signedOffAt: string | null;
+    signedOffBy: { name: string } | null;
+  } | null;
+}
+
+interface PayrollLine {
+  id: string;
+  userId: string;
+  userName: string;
+  paymentType: string;
+  hours: number;
+  grossPay: number;
+  adjustmentsTotal: number;
+  holidayAccrual: number;
+  employeeNI: number;
+  employerNI: number;
+  employerPension: number;
+  employeePension: number;
+  totalCost: number;
+  categoryBreakdown: { categoryId: string | null; categoryName: string; hours: number; rate: number; amount: number }[];
+  absenceDeductions: number;
+  absenceBreakdown: { type: string; label: string; payrollCode: string; hours: number; deduction: number }[];
+}
+
+interface PayrollRunDetail {
+  id: string;
+  status: "DRAFT" | "SIGNED_OFF";
+  taxYear: string;
+  totals: PayrollTotals;
+  warnings: string[];
+  contentHash: string | null;
+  generatedAt: string;
+  signedOffAt: string | null;
+  generatedBy: { name: string };
+  signedOffBy: { name: string } | null;
+  payPeriod: { name: string };
+  lines: PayrollLine[];
+  adjustments: { id: string; amount: number; hoursDelta: number; reason: string; user: { name: string }; payPeriod: { name: string } }[];
+}
+
+const money = (value: number) =>
+  value.toLocaleString("en-GB", { style: "currency", currency: "GBP" });
+
+export function PayrollRunsManager() {
+  const [payPeriods, setPayPeriods] = useState<PayPeriodSummary[]>([]);
+  const [pendingAdjustments, setPendingAdjustments] = useState(0);
+  const [selectedPeriodId, setSelectedPeriodId] = useState<string | null>(null);
+  const [run, setRun] = useState<PayrollRunDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPayPeriods();
+  }, []);
+
+  const fetchPayPeriods = async () => {
+    try {
+      const res = await fetch("/api/payroll-runs");
+      if (res.ok) {
+        const data = await res.json();
+        setPayPeriods(data.payPeriods);
+        setPendingAdjustments(data.pendingAdjustments);
+      }
+    } catch (error) {
+      console.error("Failed to fetch pay periods:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRun = async (runId: string) => {
+    try {
+      const res = await fetch(`/api/payroll-runs/${runId}`);
+      if (res.ok) {
+        setRun(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch payroll run:", error);
+    }
+  };
+
+  const selectPeriod = async (period: PayPeriodSummary) => {
+    setSelectedPeriodId(period.id);
+    setRun(null);
+    setError(null);
+    if (period.payrollRun) {
+      await fetchRun(period.payrollRun.id);
+    }
+  };
+
+  const handleGenerate = async (periodId: string) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/payroll-runs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payPeriodId: periodId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to generate payroll run");
+        return;
+      }
+      await Promise.all([fetchPayPeriods(), fetchRun(data.id)]);
+    } catch (error) {
+      console.error("Failed to generate payroll run:", error);
+      setError("Failed to generate payroll run");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSignOff = async () => {
+    if (!run) return;
+    if (!confirm(`Sign off payroll for ${run.payPeriod.name}? The pay period will be locked and this run can no longer change.`)) {
+      return;
+    }
+    setWorking(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/payroll-runs/${run.id}/sign-off`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to sign off payroll run");
+        return;
+      }
+      await Promise.all([fetchPayPeriods(), fetchRun(run.id)]);
+    } catch (error) {
+      console.error("Failed to sign off payroll run:", error);
+      setError("Failed to sign off payroll run");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!run || !confirm("Discard this draft payroll run?")) return;
+    setWorking(true);
+    try {
+      const res = await fetch(`/api/payroll-runs/${run.id}`, { method: "DELETE" });
+      if (res.ok) {
+        setRun(null);
+        await fetchPayPeriods();
+      }
+    } catch (error) {
+      console.error("Failed to discard payroll run:", error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const downloadCsv = () => {
+    if (!run) return;
+    const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    const rows = [
+      "Employee,Payment Type,Hours,Gross Pay,Adjustments,Absence Deductions,Absences,Holiday Accrual,Employee NI,Employer NI,Employee Pension,Employer Pension,Total Cost",
+      ...run.lines.map((line) =>
+        [
+          escape(line.userName),
+          line.paymentType,
+          line.hours.toFixed(2),
+          line.grossPay.toFixed(2),
+          line.adjustmentsTotal.toFixed(2),
+          line.absenceDeductions.toFixed(2),
+          escape(line.absenceBreakdown.map((a) => `${a.payrollCode} ${a.hours}h`).join("; ")),
+          line.holidayAccrual.toFixed(2),
+          line.employeeNI.toFixed(2),
+          line.employerNI.toFixed(2),
+          line.employeePension.toFixed(2),
+          line.employerPension.toFixed(2),
+          line.totalCost.toFixed(2),
+        ].join(",")
+      ),
+    ];
+    const blob = new Blob([rows.join("\n")], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `payroll-${run.payPeriod.name.replace(/\s+/g, "-").toLowerCase()}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  const selectedPeriod = payPeriods.find((p) => p.id === selectedPeriodId);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[300px_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Pay Periods</CardTitle>
+          {pendingAdjustments > 0 && (
+            <CardDescription>
+              {pendingAdjustments} adjustment{pendingAdjustments === 1 ? "" : "s"} waiting for the next run
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="p-0">
+          {payPeriods.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              No pay periods yet. Add them in Settings.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {payPeriods.map((period) => (
+                <button
+                  key={period.id}
+                  onClick={() => selectPeriod(period)}
+                  className={`w-full text-left px-4 py-3 hover:bg-muted/50 transition-colors ${
+                    selectedPeriodId === period.id ? "bg-muted" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm">{period.name}</span>
+                    {period.payrollRun?.status === "SIGNED_OFF" ? (
+                      <Badge variant="success">Signed off</Badge>
+                    ) : period.payrollRun ? (
+                      <Badge variant="warning">Draft</Badge>
+                    ) : null}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(period.startDate)} - {formatDate(period.endDate)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {error && (
+          <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {!selectedPeriod ? (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">
+              Select a pay period to review its payroll run
+            </CardContent>
+          </Card>
+        ) : !run ? (
+          <Card>
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-sm text-muted-foreground">
+                No payroll run for {selectedPeriod.name} yet.
+              </p>
+              <Button onClick={() => handleGenerate(selectedPeriod.id)} disabled={working}>
+                {working ? "Generating..." : "Generate Payroll Run"}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    {run.payPeriod.name}
+                    {run.status === "SIGNED_OFF" ? (
+                      <Badge variant="success">
+                        <Lock className="mr-1 h-3 w-3" />
+                        Signed off
+                      </Badge>
+                    ) : (
+                      <Badge variant="warning">Draft</Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {run.taxYear} rates · Generated {new Date(run.generatedAt).toLocaleString("en-GB")} by {run.generatedBy.name}
+                    {run.signedOffAt &&
+                      ` · Signed off ${new Date(run.signedOffAt).toLocaleString("en-GB")} by ${run.signedOffBy?.name}`}
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap gap-2 justify-end">
+                  <Button variant="outline" size="sm" onClick={downloadCsv}>
+                    <Download className="mr-2 h-4 w-4" />
+                    CSV
+                  </Button>
+                  {run.status === "DRAFT" && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => handleGenerate(selectedPeriod.id)} disabled={working}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Regenerate
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handleDiscard} disabled={working} title="Discard draft">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" onClick={handleSignOff} disabled={working}>
+                        <ShieldCheck className="mr-2 h-4 w-4" />
+                        Sign Off
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-4 lg:grid-cols-7 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Hours</p>
+                    <p className="text-lg font-semibold">{run.totals.hours.toFixed(2)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Gross pay</p>
+                    <p className="text-lg font-semibold">{money(run.totals.grossPay)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Holiday accrual</p>
+                    <p className="text-lg font-semibold">{money(run.totals.holidayAccrual)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Employee NI</p>
+                    <p className="text-lg font-semibold">{money(run.totals.employeeNI)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Employer NI</p>
+                    <p className="text-lg font-semibold">{money(run.totals.employerNI)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Employer pension</p>
+                    <p className="text-lg font-semibold">{money(run.totals.employerPension ?? 0)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Total cost</p>
+                    <p className="text-lg font-semibold">{money(run.totals.totalCost)}</p>
+                  </div>
+                </div>
+
+                {run.warnings.length > 0 && run.status === "DRAFT" && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800 space-y-1">
+                    {run.warnings.map((warning, i) => (
+                      <p key={i} className="flex items-start gap-2">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {run.contentHash && (
+                  <p className="text-xs text-muted-foreground break-all">
+                    Record fingerprint: {run.contentHash}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="px-4 py-2 font-medium">Employee</th>
+                      <th className="px-4 py-2 font-medium text-right">Hours</th>
+                      <th className="px-4 py-2 font-medium text-right">Gross</th>
+                      <th className="px-4 py-2 font-medium text-right">Holiday</th>
+                      <th className="px-4 py-2 font-medium text-right">Emp. NI</th>
+                      <th className="px-4 py-2 font-medium text-right">Er. NI</th>
+                      <th className="px-4 py-2 font-medium text-right">Pension (Ee/Er)</th>
+                      <th className="px-4 py-2 font-medium text-right">Total cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {run.lines.map((line) => (
+                      <tr key={line.id} className="border-b last:border-b-0 align-top">
+                        <td className="px-4 py-2">
+                          <p className="font-medium">{line.userName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {line.paymentType === "MONTHLY"
+                              ? "Salaried"
+                              : line.categoryBreakdown
+                                  .map((c) => `${c.categoryName}: ${c.hours}h @ ${money(c.rate)}`)
+                                  .join(", ")}
+                          </p>
+                          {line.adjustmentsTotal !== 0 && (
+                            <p className="text-xs text-amber-700">
+                              Includes {money(line.adjustmentsTotal)} in adjustments
+                            </p>
+                          )}
+                          {line.absenceBreakdown.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {line.absenceBreakdown.map((a) => `${a.label}: ${a.hours}h`).join(", ")}
+                              {line.absenceDeductions > 0 && (
+                                <span className="text-amber-700">
+                                  {" "}({money(line.absenceDeductions)} unpaid)
+                                </span>
+                              )}
+                            </p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">{line.hours.toFixed(2)}</td>
+                        <td className="px-4 py-2 text-right">{money(line.grossPay)}</td>
+                        <td className="px-4 py-2 text-right">{money(line.holidayAccrual)}</td>
+                        <td className="px-4 py-2 text-right">{money(line.employeeNI)}</td>
+                        <td className="px-4 py-2 text-right">{money(line.employerNI)}</td>
+                        <td className="px-4 py-2 text-right">
+                          {money(line.employeePension)} / {money(line.employerPension)}
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium">{money(line.totalCost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            {run.adjustments.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Adjustments paid in this run</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1 text-sm">
+                  {run.adjustments.map((adjustment) => (
+                    <div key={adjustment.id} className="flex justify-between gap-4">
+                      <span>
+                        {adjustment.user.name} · {adjustment.payPeriod.name} · {adjustment.reason}
+                      </span>
+                      <span className="font-medium">{money(adjustment.amount)}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
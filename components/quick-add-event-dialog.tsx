@@ -33,6 +33,7 @@ const EVENT_TYPES = [
   { value: "GROUP", label: "Group Booking" },
   { value: "TRAINING", label: "Training" },
   { value: "COMPETITION", label: "Competition" },
+  { value: "SETTING", label: "Setting Day" },
   { value: "OTHER", label: "Other" },
 ];
 
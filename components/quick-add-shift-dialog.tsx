@@ -116,7 +116,7 @@ export function QuickAddShiftDialog({
       description: null,
       startTime: startDateTime,
       endTime: endDateTime,
-      status: "SCHEDULED",
+      status: "DRAFT",
       isOpen: !formData.assignedToId,
       assignedTo: assignedUser
         ? { id: assignedUser.id, name: assignedUser.name, email: assignedUser.email }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select } from "@/components/ui/select";
@@ -12,7 +12,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { AlertTriangle, Calendar, Clock } from "lucide-react";
+import { Calendar, Clock } from "lucide-react";
+import {
+  ShiftConflictWarning,
+  useShiftConflicts,
+  isBlockedByConflicts,
+} from "@/components/shift-conflict-warning";
 
 interface User {
   id: string;
@@ -38,13 +43,6 @@ interface ShiftTemplate {
   category?: ShiftCategory | null;
 }
 
-interface CertificationWarning {
-  isValid: boolean;
-  errorMessage: string | null;
-  missingCertifications: { id: string; name: string }[];
-  expiredCertifications: { id: string; name: string }[];
-}
-
 interface Shift {
   id: string;
   title: string;
@@ -88,41 +86,39 @@ export function QuickAssignDialog({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [assignedToId, setAssignedToId] = useState("");
-  const [certWarning, setCertWarning] = useState<CertificationWarning | null>(null);
-  const [checkingCerts, setCheckingCerts] = useState(false);
+  const [overrideReason, setOverrideReason] = useState("");
 
   // Reset form when dialog opens
   useEffect(() => {
     if (open) {
       setAssignedToId(defaultUserId || "");
       setError(null);
-      setCertWarning(null);
+      setOverrideReason("");
     }
   }, [open, defaultUserId]);
 
-  // Check certifications when user selection changes
-  useEffect(() => {
-    const checkCertifications = async () => {
-      if (!assignedToId) {
-        setCertWarning(null);
-        return;
-      }
+  // Build the shift times from the target date and template times
+  const shiftTimes = useMemo(() => {
+    if (!template || !targetDate) return null;
 
-      setCheckingCerts(true);
-      try {
-        const res = await fetch(`/api/certifications/check?userId=${assignedToId}`);
-        if (res.ok) {
-          const data = await res.json();
-          setCertWarning(data);
-        }
-      } catch (error) {
-        console.error("Failed to check certifications:", error);
-      } finally {
-        setCheckingCerts(false);
-      }
-    };
-    checkCertifications();
-  }, [assignedToId]);
+    const dateStr = targetDate.toISOString().split("T")[0];
+    const start = new Date(`${dateStr}T${template.startTime}`);
+    const end = new Date(`${dateStr}T${template.endTime}`);
+
+    // Handle overnight shifts
+    if (end <= start) {
+      end.setDate(end.getDate() + 1);
+    }
+
+    return { start, end };
+  }, [template, targetDate]);
+
+  // Check for conflicts when the assignee changes
+  const { conflicts, checking: checkingConflicts } = useShiftConflicts({
+    userId: assignedToId || null,
+    startTime: shiftTimes?.start.toISOString() || null,
+    endTime: shiftTimes?.end.toISOString() || null,
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -130,15 +126,9 @@ export function QuickAssignDialog({
 
     setError(null);
 
-    // Build the datetime from date and template times
-    const dateStr = targetDate.toISOString().split("T")[0];
-    const startDateTime = new Date(`${dateStr}T${template.startTime}`);
-    const endDateTime = new Date(`${dateStr}T${template.endTime}`);
-
-    // Handle overnight shifts
-    if (endDateTime <= startDateTime) {
-      endDateTime.setDate(endDateTime.getDate() + 1);
-    }
+    if (!shiftTimes) return;
+    const { start: startDateTime, end: endDateTime } = shiftTimes;
+    const hasSoftConflicts = !!conflicts && conflicts.softConflicts.length > 0;
 
     // Find the assigned user info for the optimistic update
     const assignedUser = assignedToId
@@ -155,7 +145,7 @@ export function QuickAssignDialog({
       description: null,
       startTime: startDateTime,
       endTime: endDateTime,
-      status: "SCHEDULED",
+      status: "DRAFT",
       isOpen: !assignedToId,
       assignedTo: assignedUser
         ? { id: assignedUser.id, name: assignedUser.name, email: assignedUser.email }
@@ -181,6 +171,8 @@ export function QuickAssignDialog({
           categoryId: template.categoryId || null,
           templateId: template.id,
           locationId: locationId || null,
+          overrideConflicts: hasSoftConflicts,
+          overrideReason: hasSoftConflicts ? overrideReason : null,
         }),
       });
 
@@ -188,7 +180,7 @@ export function QuickAssignDialog({
         const data = await res.json();
         // Rollback the optimistic update
         onShiftRollback?.(tempId);
-        setError(data.error || "Failed to create shift");
+        setError(data.conflictError || data.error || "Failed to create shift");
         onOpenChange(true); // Reopen dialog to show error
         return;
       }
@@ -277,28 +269,12 @@ export function QuickAssignDialog({
                 </p>
               </div>
 
-              {/* Certification warning */}
-              {checkingCerts && (
-                <div className="text-sm text-muted-foreground">
-                  Checking certifications...
-                </div>
-              )}
-              {certWarning && !certWarning.isValid && (
-                <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md text-sm">
-                  <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
-                  <div className="space-y-1">
-                    <p className="font-medium text-amber-800 dark:text-amber-200">
-                      Certification Warning
-                    </p>
-                    <p className="text-amber-700 dark:text-amber-300">
-                      {certWarning.errorMessage}
-                    </p>
-                    <p className="text-amber-600 dark:text-amber-400 text-xs">
-                      This staff member cannot be assigned until certifications are up to date.
-                    </p>
-                  </div>
-                </div>
-              )}
+              <ShiftConflictWarning
+                conflicts={conflicts}
+                checking={checkingConflicts}
+                overrideReason={overrideReason}
+                onOverrideReasonChange={setOverrideReason}
+              />
             </div>
 
             <DialogFooter className="flex-shrink-0 pt-4 border-t mt-4">
@@ -311,7 +287,7 @@ export function QuickAssignDialog({
               </Button>
               <Button
                 type="submit"
-                disabled={loading || (certWarning !== null && !certWarning.isValid && !!assignedToId)}
+                disabled={loading || (!!assignedToId && isBlockedByConflicts(conflicts, overrideReason))}
               >
                 {loading ? "Creating..." : "Create Shift"}
               </Button>
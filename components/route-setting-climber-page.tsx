@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, QrCode } from "lucide-react";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface ClimberPage {
+  url: string | null;
+  qrCodeImage: string | null;
+  sectors: { id: string; name: string; url: string; qrCodeImage: string }[];
+}
+
+interface RouteSettingClimberPageProps {
+  locations: Location[];
+  selectedLocationId?: string;
+}
+
+// Managers turn on the public page climbers use to rate routes and report
+// problems, and print its QR codes for the walls
+export function RouteSettingClimberPage({ locations, selectedLocationId }: RouteSettingClimberPageProps) {
+  const [open, setOpen] = useState(false);
+  const [locationId, setLocationId] = useState("");
+  const [page, setPage] = useState<ClimberPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && locationId) fetchPage();
+  }, [open, locationId]);
+
+  const fetchPage = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/route-setting/climber-page?locationId=${locationId}`);
+      if (res.ok) {
+        setPage(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch climber page:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = () => {
+    setError(null);
+    setPage(null);
+    setLocationId(selectedLocationId || locations[0]?.id || "");
+    setOpen(true);
+  };
+
+  const handleGenerate = async () => {
+    if (page?.url && !confirm("The QR codes already on the walls will stop working. Make a new link?")) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/route-setting/climber-page", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ locationId }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to turn on the climber page");
+        return;
+      }
+      setPage(data);
+    } catch (error) {
+      console.error("Failed to turn on climber page:", error);
+      setError("Failed to turn on the climber page");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    if (!confirm("Turn off the climber page? The QR codes on the walls will stop working.")) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/route-setting/climber-page?locationId=${locationId}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || "Failed to turn off the climber page");
+        return;
+      }
+      setPage({ url: null, qrCodeImage: null, sectors: [] });
+    } catch (error) {
+      console.error("Failed to turn off climber page:", error);
+      setError("Failed to turn off the climber page");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const locationName = locations.find((loc) => loc.id === locationId)?.name || "climber-page";
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog} disabled={locations.length === 0}>
+        <QrCode className="h-4 w-4 mr-2" />
+        Climber Page
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Climber Page</DialogTitle>
+            <DialogDescription>
+              Climbers scan these QR codes to rate routes, suggest grades and report problems. No login needed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4 overflow-y-auto flex-1">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="climberPageLocation">Location</Label>
+              <Select
+                id="climberPageLocation"
+                options={locations.map((loc) => ({ value: loc.id, label: loc.name }))}
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+              />
+            </div>
+
+            {loading || !page ? (
+              <div className="text-center py-4 text-muted-foreground">Loading...</div>
+            ) : !page.url || !page.qrCodeImage ? (
+              <div className="text-center py-6 text-muted-foreground border rounded-lg">
+                <QrCode className="h-10 w-10 mx-auto mb-3 opacity-50" />
+                <p className="font-medium">The climber page is off for this location</p>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="climberPageUrl">Link</Label>
+                  <Input id="climberPageUrl" value={page.url} readOnly onFocus={(e) => e.target.select()} />
+                </div>
+
+                <div className="flex flex-col items-center gap-3 border rounded-lg p-4">
+                  <img src={page.qrCodeImage} alt={`QR code for ${locationName}`} className="h-40 w-40" />
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={page.qrCodeImage} download={`${locationName}.png`}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download
+                    </a>
+                  </Button>
+                </div>
+
+                {page.sectors.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Sector QR codes</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Put these on each wall to open the page at that sector&apos;s routes
+                    </p>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                      {page.sectors.map((sector) => (
+                        <div key={sector.id} className="flex flex-col items-center gap-2 border rounded-lg p-3">
+                          <img src={sector.qrCodeImage} alt={`QR code for ${sector.name}`} className="h-24 w-24" />
+                          <span className="text-sm font-medium text-center">{sector.name}</span>
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href={sector.qrCodeImage} download={`${locationName} - ${sector.name}.png`}>
+                              <Download className="h-4 w-4 mr-2" />
+                              Download
+                            </a>
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            {page?.url && (
+              <Button variant="outline" onClick={handleTurnOff} disabled={saving}>
+                Turn Off
+              </Button>
+            )}
+            <Button onClick={handleGenerate} disabled={saving || loading || !locationId}>
+              {saving ? "Saving..." : page?.url ? "New Link" : "Turn On"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { RouteSettingSchedule } from "@/components/route-setting-schedule";
+import { RouteSettingRoutes } from "@/components/route-setting-routes";
+import { RouteSettingSectors } from "@/components/route-setting-sectors";
+import { RouteSettingSetters } from "@/components/route-setting-setters";
+import { MapPin } from "lucide-react";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface RouteSettingPageContentProps {
+  locations: Location[];
+  isManager: boolean;
+  initialTab?: string;
+  initialLocationId?: string;
+}
+
+export function RouteSettingPageContent({
+  locations,
+  isManager,
+  initialTab = "schedule",
+  initialLocationId,
+}: RouteSettingPageContentProps) {
+  const [selectedLocationId, setSelectedLocationId] = useState(initialLocationId || "");
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="py-4">
+          <div className="flex items-center gap-4">
+            <MapPin className="h-5 w-5 text-muted-foreground" />
+            <div className="flex-1 max-w-xs">
+              <Label htmlFor="routeSettingLocation" className="text-sm text-muted-foreground">
+                Filter by Location
+              </Label>
+              <div className="mt-1">
+                <Select
+                  id="routeSettingLocation"
+                  options={[
+                    { value: "", label: `All Locations (${locations.length})` },
+                    ...locations.map((loc) => ({ value: loc.id, label: loc.name })),
+                  ]}
+                  value={selectedLocationId}
+                  onChange={(e) => setSelectedLocationId(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue={initialTab}>
+        <TabsList>
+          <TabsTrigger value="schedule">Reset Schedule</TabsTrigger>
+          <TabsTrigger value="routes">Routes</TabsTrigger>
+          <TabsTrigger value="setters">Setters</TabsTrigger>
+          <TabsTrigger value="sectors">Sectors</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="schedule">
+          <Card>
+            <CardHeader>
+              <CardTitle>Reset Schedule</CardTitle>
+              <CardDescription>
+                Sectors in the order they are due a reset, oldest routes first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RouteSettingSchedule selectedLocationId={selectedLocationId} isManager={isManager} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="routes">
+          <Card>
+            <CardHeader>
+              <CardTitle>Routes</CardTitle>
+              <CardDescription>
+                Routes and problems on the walls, with their grade, colour and setter
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RouteSettingRoutes selectedLocationId={selectedLocationId} isManager={isManager} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="setters">
+          <Card>
+            <CardHeader>
+              <CardTitle>Setters</CardTitle>
+              <CardDescription>
+                Ratings and grade consensus from climbers, by setter and setting day
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RouteSettingSetters selectedLocationId={selectedLocationId} isManager={isManager} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="sectors">
+          <Card>
+            <CardHeader>
+              <CardTitle>Sectors</CardTitle>
+              <CardDescription>
+                Walls and sectors at each location and how often they are reset
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RouteSettingSectors
+                locations={locations}
+                selectedLocationId={selectedLocationId}
+                isManager={isManager}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
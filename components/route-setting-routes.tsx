@@ -0,0 +1,700 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Route as RouteIcon, Star, Trash2 } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+import { HOLD_COLORS, getHoldColorHex, getRouteSetterName, type RouteStatus } from "@/lib/route-setting";
+import { GRADE_VERDICT_LABELS, type RouteFeedbackSummary } from "@/lib/route-feedback";
+
+interface Person {
+  id: string;
+  name: string;
+}
+
+interface Sector {
+  id: string;
+  name: string;
+  resetIntervalDays: number;
+  location: { id: string; name: string };
+}
+
+interface ClimbingRoute {
+  id: string;
+  name: string | null;
+  grade: string;
+  color: string;
+  setDate: string;
+  plannedStripDate: string | null;
+  strippedAt: string | null;
+  notes: string | null;
+  externalSetterName: string | null;
+  setter: Person | null;
+  sector: { id: string; name: string };
+  location: { id: string; name: string };
+  signoff: { id: string; settingDate: string } | null;
+  status: RouteStatus;
+  summary: RouteFeedbackSummary;
+}
+
+interface RouteRow {
+  key: number;
+  grade: string;
+  color: string;
+  name: string;
+  setterId: string;
+  externalSetterName: string;
+}
+
+interface RouteSettingRoutesProps {
+  selectedLocationId?: string;
+  isManager: boolean;
+}
+
+// Setter select value for someone who isn't on the team
+const EXTERNAL_SETTER = "external";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const toDateInput = (value: string | null) => (value ? value.split("T")[0] : "");
+
+const newRow = (previous?: RouteRow): RouteRow => ({
+  key: Date.now() + Math.random(),
+  grade: "",
+  color: HOLD_COLORS[0].value,
+  name: "",
+  setterId: previous?.setterId || "",
+  externalSetterName: previous?.externalSetterName || "",
+});
+
+// The setter fields the API expects, from the setter select
+const setterFields = (setterId: string, externalSetterName: string) =>
+  setterId === EXTERNAL_SETTER
+    ? { setterId: null, externalSetterName: externalSetterName || null }
+    : { setterId: setterId || null, externalSetterName: null };
+
+export function RouteSettingRoutes({ selectedLocationId, isManager }: RouteSettingRoutesProps) {
+  const [routes, setRoutes] = useState<ClimbingRoute[]>([]);
+  const [sectors, setSectors] = useState<Sector[]>([]);
+  const [team, setTeam] = useState<Person[]>([]);
+  const [sectorFilter, setSectorFilter] = useState("");
+  const [showStripped, setShowStripped] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showSetDialog, setShowSetDialog] = useState(false);
+  const [setForm, setSetForm] = useState({ sectorId: "", setDate: today(), plannedStripDate: "", stripExisting: false });
+  const [rows, setRows] = useState<RouteRow[]>([newRow()]);
+
+  const [editing, setEditing] = useState<ClimbingRoute | null>(null);
+  const [editForm, setEditForm] = useState({
+    grade: "",
+    color: "",
+    name: "",
+    setterId: "",
+    externalSetterName: "",
+    sectorId: "",
+    setDate: "",
+    plannedStripDate: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    fetchTeam();
+  }, []);
+
+  useEffect(() => {
+    fetchSectors();
+  }, [selectedLocationId]);
+
+  useEffect(() => {
+    fetchRoutes();
+  }, [selectedLocationId, sectorFilter, showStripped]);
+
+  const fetchTeam = async () => {
+    try {
+      const res = await fetch("/api/team");
+      if (res.ok) {
+        const data: Person[] = await res.json();
+        setTeam(data.map(({ id, name }) => ({ id, name })));
+      }
+    } catch (error) {
+      console.error("Failed to fetch team:", error);
+    }
+  };
+
+  const fetchSectors = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (selectedLocationId) params.append("locationId", selectedLocationId);
+
+      const res = await fetch(`/api/route-setting/sectors?${params}`);
+      if (res.ok) {
+        const data: Sector[] = await res.json();
+        setSectors(data);
+        setSectorFilter((current) => (data.some((sector) => sector.id === current) ? current : ""));
+      }
+    } catch (error) {
+      console.error("Failed to fetch sectors:", error);
+    }
+  };
+
+  const fetchRoutes = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (selectedLocationId) params.append("locationId", selectedLocationId);
+      if (sectorFilter) params.append("sectorId", sectorFilter);
+      if (showStripped) params.append("includeStripped", "true");
+
+      const res = await fetch(`/api/route-setting/routes?${params}`);
+      if (res.ok) {
+        setRoutes(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch routes:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSetDialog = () => {
+    setError(null);
+    setSetForm({ sectorId: sectorFilter || sectors[0]?.id || "", setDate: today(), plannedStripDate: "", stripExisting: false });
+    setRows([newRow()]);
+    setShowSetDialog(true);
+  };
+
+  const updateRow = (key: number, changes: Partial<RouteRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const handleSetRoutes = async () => {
+    if (!setForm.sectorId) {
+      setError("Choose a sector");
+      return;
+    }
+    if (rows.some((row) => !row.grade || !row.setterId || (row.setterId === EXTERNAL_SETTER && !row.externalSetterName))) {
+      setError("Every route needs a grade and a setter");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/route-setting/routes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sectorId: setForm.sectorId,
+          setDate: setForm.setDate,
+          // Left blank, the strip date comes from the sector's reset interval
+          ...(setForm.plannedStripDate && { plannedStripDate: setForm.plannedStripDate }),
+          stripExisting: setForm.stripExisting,
+          routes: rows.map((row) => ({
+            grade: row.grade,
+            color: row.color,
+            name: row.name || null,
+            ...setterFields(row.setterId, row.externalSetterName),
+          })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save routes");
+        return;
+      }
+      setShowSetDialog(false);
+      fetchRoutes();
+    } catch (error) {
+      console.error("Failed to save routes:", error);
+      setError("Failed to save routes");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openEditDialog = (route: ClimbingRoute) => {
+    setError(null);
+    setEditing(route);
+    setEditForm({
+      grade: route.grade,
+      color: route.color,
+      name: route.name || "",
+      setterId: route.setter?.id || (route.externalSetterName ? EXTERNAL_SETTER : ""),
+      externalSetterName: route.externalSetterName || "",
+      sectorId: route.sector.id,
+      setDate: toDateInput(route.setDate),
+      plannedStripDate: toDateInput(route.plannedStripDate),
+      notes: route.notes || "",
+    });
+  };
+
+  const updateRoute = async (body: Record<string, unknown>) => {
+    if (!editing) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/route-setting/routes/${editing.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to update route");
+        return;
+      }
+      setEditing(null);
+      fetchRoutes();
+    } catch (error) {
+      console.error("Failed to update route:", error);
+      setError("Failed to update route");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveEdit = () => {
+    if (!editForm.grade || !editForm.setterId) {
+      setError("Grade and setter are required");
+      return;
+    }
+
+    updateRoute({
+      grade: editForm.grade,
+      color: editForm.color,
+      name: editForm.name || null,
+      ...setterFields(editForm.setterId, editForm.externalSetterName),
+      sectorId: editForm.sectorId,
+      setDate: editForm.setDate,
+      plannedStripDate: editForm.plannedStripDate || null,
+      notes: editForm.notes || null,
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!editing || !confirm("Delete this route? Strip it instead if it has come down.")) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/route-setting/routes/${editing.id}`, { method: "DELETE" });
+      if (res.ok) {
+        setEditing(null);
+        fetchRoutes();
+      } else {
+        const data = await res.json();
+        setError(data.error || "Failed to delete route");
+      }
+    } catch (error) {
+      console.error("Failed to delete route:", error);
+      setError("Failed to delete route");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getStatusBadge = (route: ClimbingRoute) => {
+    switch (route.status) {
+      case "STRIPPED":
+        return <Badge variant="secondary">Stripped {formatDate(new Date(route.strippedAt!))}</Badge>;
+      case "STRIP_DUE":
+        return <Badge variant="warning">Due to strip</Badge>;
+      default:
+        return null;
+    }
+  };
+
+  const sectorOptions = sectors.map((sector) => ({
+    value: sector.id,
+    label: selectedLocationId ? sector.name : `${sector.name} (${sector.location.name})`,
+  }));
+
+  const setterOptions = [
+    { value: "", label: "Select setter..." },
+    ...team.map((person) => ({ value: person.id, label: person.name })),
+    { value: EXTERNAL_SETTER, label: "External setter..." },
+  ];
+
+  const colorOptions = HOLD_COLORS.map((color) => ({ value: color.value, label: color.value }));
+
+  if (loading) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-between sm:items-center">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="w-56">
+              <Select
+                options={[{ value: "", label: "All sectors" }, ...sectorOptions]}
+                value={sectorFilter}
+                onChange={(e) => setSectorFilter(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={showStripped} onCheckedChange={setShowStripped} />
+              Include stripped routes
+            </label>
+          </div>
+          {isManager && (
+            <Button onClick={openSetDialog} disabled={sectors.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Set Routes
+            </Button>
+          )}
+        </div>
+
+        {routes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground border rounded-lg">
+            <RouteIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="font-medium">No routes up</p>
+            <p className="text-sm mt-1">
+              {sectors.length === 0
+                ? "Add the walls or sectors in the Sectors tab first"
+                : "Record routes as they are set to track their age and setter"}
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {routes.map((route) => (
+              <div key={route.id} className="flex items-center justify-between gap-3 p-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span
+                    className="h-5 w-5 rounded-full border flex-shrink-0"
+                    style={{ backgroundColor: getHoldColorHex(route.color) }}
+                    title={route.color}
+                  />
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">{route.grade}</span>
+                      <span>{route.name || route.color}</span>
+                      {getStatusBadge(route)}
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                      <span>
+                        {route.sector.name}
+                        {!selectedLocationId && ` · ${route.location.name}`}
+                      </span>
+                      <span>{getRouteSetterName(route)}</span>
+                      <span>Set {formatDate(new Date(route.setDate))}</span>
+                      {route.plannedStripDate && !route.strippedAt && (
+                        <span>Strip by {formatDate(new Date(route.plannedStripDate))}</span>
+                      )}
+                      {route.signoff && <span>Signed off</span>}
+                      {route.summary.averageRating !== null && (
+                        <span className="flex items-center gap-1">
+                          <Star className="h-3 w-3" />
+                          {route.summary.averageRating} ({route.summary.ratings})
+                        </span>
+                      )}
+                      {route.summary.grade.verdict && (
+                        <span>
+                          {GRADE_VERDICT_LABELS[route.summary.grade.verdict]}
+                          {route.summary.grade.verdict !== "ON_GRADE" && ` (climbers say ${route.summary.grade.consensusGrade})`}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+                {isManager && (
+                  <Button size="sm" variant="outline" onClick={() => openEditDialog(route)}>
+                    Edit
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Set Routes Dialog */}
+      <Dialog open={showSetDialog} onOpenChange={setShowSetDialog}>
+        <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Set Routes</DialogTitle>
+            <DialogDescription>Record the routes set in a sector on a setting day</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4 overflow-y-auto flex-1">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="setSector">Sector *</Label>
+                <Select
+                  id="setSector"
+                  options={sectorOptions}
+                  value={setForm.sectorId}
+                  onChange={(e) => setSetForm({ ...setForm, sectorId: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="setDate">Set On *</Label>
+                <Input
+                  id="setDate"
+                  type="date"
+                  value={setForm.setDate}
+                  onChange={(e) => setSetForm({ ...setForm, setDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="setStripDate">Strip By</Label>
+                <Input
+                  id="setStripDate"
+                  type="date"
+                  value={setForm.plannedStripDate}
+                  onChange={(e) => setSetForm({ ...setForm, plannedStripDate: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Blank for the sector&apos;s reset interval
+                  {sectors.find((s) => s.id === setForm.sectorId) &&
+                    ` (${sectors.find((s) => s.id === setForm.sectorId)!.resetIntervalDays} days)`}
+                </p>
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={setForm.stripExisting}
+                onCheckedChange={(checked) => setSetForm({ ...setForm, stripExisting: checked })}
+              />
+              Strip the routes currently up in this sector (full reset)
+            </label>
+
+            <div className="space-y-2">
+              <Label>Routes</Label>
+              {rows.map((row) => (
+                <div key={row.key} className="flex flex-wrap gap-2 p-2 border rounded-lg">
+                  <Input
+                    className="w-20"
+                    placeholder="Grade"
+                    value={row.grade}
+                    onChange={(e) => updateRow(row.key, { grade: e.target.value })}
+                  />
+                  <div className="w-28">
+                    <Select
+                      options={colorOptions}
+                      value={row.color}
+                      onChange={(e) => updateRow(row.key, { color: e.target.value })}
+                    />
+                  </div>
+                  <Input
+                    className="flex-1 min-w-[8rem]"
+                    placeholder="Name (optional)"
+                    value={row.name}
+                    onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                  />
+                  <div className="w-44">
+                    <Select
+                      options={setterOptions}
+                      value={row.setterId}
+                      onChange={(e) => updateRow(row.key, { setterId: e.target.value })}
+                    />
+                  </div>
+                  {row.setterId === EXTERNAL_SETTER && (
+                    <Input
+                      className="w-40"
+                      placeholder="Setter's name"
+                      value={row.externalSetterName}
+                      onChange={(e) => updateRow(row.key, { externalSetterName: e.target.value })}
+                    />
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setRows((current) => current.filter((r) => r.key !== row.key))}
+                    disabled={rows.length === 1}
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setRows((current) => [...current, newRow(current[current.length - 1])])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Route
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSetDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSetRoutes} disabled={saving}>
+              {saving ? "Saving..." : `Save ${rows.length} Route${rows.length !== 1 ? "s" : ""}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Route Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Edit Route</DialogTitle>
+            <DialogDescription>
+              {editing && `${editing.grade} ${editing.color} in ${editing.sector.name}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4 overflow-y-auto flex-1">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="editGrade">Grade *</Label>
+                <Input
+                  id="editGrade"
+                  value={editForm.grade}
+                  onChange={(e) => setEditForm({ ...editForm, grade: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="editColor">Colour</Label>
+                <Select
+                  id="editColor"
+                  options={
+                    HOLD_COLORS.some((c) => c.value === editForm.color)
+                      ? colorOptions
+                      : [{ value: editForm.color, label: editForm.color }, ...colorOptions]
+                  }
+                  value={editForm.color}
+                  onChange={(e) => setEditForm({ ...editForm, color: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="editSector">Sector</Label>
+                <Select
+                  id="editSector"
+                  options={
+                    sectors.some((s) => s.id === editForm.sectorId) || !editing
+                      ? sectorOptions
+                      : [{ value: editing.sector.id, label: editing.sector.name }, ...sectorOptions]
+                  }
+                  value={editForm.sectorId}
+                  onChange={(e) => setEditForm({ ...editForm, sectorId: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="editName">Name</Label>
+              <Input
+                id="editName"
+                value={editForm.name}
+                onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="editSetter">Setter *</Label>
+                <Select
+                  id="editSetter"
+                  options={setterOptions}
+                  value={editForm.setterId}
+                  onChange={(e) => setEditForm({ ...editForm, setterId: e.target.value })}
+                />
+              </div>
+              {editForm.setterId === EXTERNAL_SETTER && (
+                <div className="space-y-2">
+                  <Label htmlFor="editExternalSetter">Setter&apos;s Name *</Label>
+                  <Input
+                    id="editExternalSetter"
+                    value={editForm.externalSetterName}
+                    onChange={(e) => setEditForm({ ...editForm, externalSetterName: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="editSetDate">Set On</Label>
+                <Input
+                  id="editSetDate"
+                  type="date"
+                  value={editForm.setDate}
+                  onChange={(e) => setEditForm({ ...editForm, setDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="editStripDate">Strip By</Label>
+                <Input
+                  id="editStripDate"
+                  type="date"
+                  value={editForm.plannedStripDate}
+                  onChange={(e) => setEditForm({ ...editForm, plannedStripDate: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="editNotes">Notes</Label>
+              <Textarea
+                id="editNotes"
+                value={editForm.notes}
+                onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="sm:justify-between">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => updateRoute({ stripped: !editing?.strippedAt })}
+                disabled={saving}
+              >
+                {editing?.strippedAt ? "Put Back Up" : "Strip"}
+              </Button>
+              <Button variant="ghost" onClick={handleDelete} disabled={saving} title="Delete">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveEdit} disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
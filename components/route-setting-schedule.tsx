@@ -0,0 +1,252 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarPlus, Hammer, Mountain } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+interface ScheduleEntry {
+  sectorId: string;
+  name: string;
+  discipline: string;
+  resetIntervalDays: number;
+  routesUp: number;
+  oldestSetDate: string | null;
+  newestSetDate: string | null;
+  ageDays: number | null;
+  resetDue: string | null;
+  overdue: boolean;
+  nextSettingDay: { id: string; startTime: string } | null;
+  location: { id: string; name: string };
+}
+
+interface RouteSettingScheduleProps {
+  selectedLocationId?: string;
+  isManager: boolean;
+}
+
+export function RouteSettingSchedule({ selectedLocationId, isManager }: RouteSettingScheduleProps) {
+  const [entries, setEntries] = useState<ScheduleEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [planning, setPlanning] = useState<ScheduleEntry | null>(null);
+  const [planForm, setPlanForm] = useState({ date: "", startTime: "08:00", endTime: "16:00" });
+
+  useEffect(() => {
+    fetchSchedule();
+  }, [selectedLocationId]);
+
+  const fetchSchedule = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (selectedLocationId) params.append("locationId", selectedLocationId);
+
+      const res = await fetch(`/api/route-setting/schedule?${params}`);
+      if (res.ok) {
+        setEntries(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch reset schedule:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openPlanDialog = (entry: ScheduleEntry) => {
+    // Suggest the day the reset is due, or tomorrow if that has passed
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const suggested = entry.resetDue && new Date(entry.resetDue) > tomorrow ? new Date(entry.resetDue) : tomorrow;
+
+    setError(null);
+    setPlanForm({ date: suggested.toISOString().split("T")[0], startTime: "08:00", endTime: "16:00" });
+    setPlanning(entry);
+  };
+
+  // Setting days are events on the schedule, so they show alongside shifts
+  const handlePlan = async () => {
+    if (!planning || !planForm.date) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/events", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: `Reset ${planning.name}`,
+          eventType: "SETTING",
+          startTime: new Date(`${planForm.date}T${planForm.startTime}`).toISOString(),
+          endTime: new Date(`${planForm.date}T${planForm.endTime}`).toISOString(),
+          locationId: planning.location.id,
+          sectorId: planning.sectorId,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to plan setting day");
+        return;
+      }
+      setPlanning(null);
+      fetchSchedule();
+    } catch (error) {
+      console.error("Failed to plan setting day:", error);
+      setError("Failed to plan setting day");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getDueBadge = (entry: ScheduleEntry) => {
+    if (entry.routesUp === 0) return <Badge variant="warning">Empty</Badge>;
+    if (entry.overdue) return <Badge variant="destructive">Reset overdue</Badge>;
+    return null;
+  };
+
+  if (loading) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <>
+      {entries.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground border rounded-lg">
+          <Mountain className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p className="font-medium">No sectors to reset</p>
+          <p className="text-sm mt-1">Add the walls or sectors in the Sectors tab to build the schedule</p>
+        </div>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {entries.map((entry, index) => (
+            <div key={entry.sectorId} className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex items-start gap-3 min-w-0">
+                <span className="w-6 text-sm text-muted-foreground text-right flex-shrink-0">{index + 1}</span>
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-medium">{entry.name}</span>
+                    {!selectedLocationId && (
+                      <span className="text-sm text-muted-foreground">{entry.location.name}</span>
+                    )}
+                    {getDueBadge(entry)}
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                    <span>
+                      {entry.routesUp} route{entry.routesUp !== 1 && "s"} up
+                    </span>
+                    {entry.oldestSetDate && (
+                      <span>
+                        Oldest set {formatDate(new Date(entry.oldestSetDate))} ({entry.ageDays} days)
+                      </span>
+                    )}
+                    {entry.resetDue && (
+                      <span className={entry.overdue ? "text-red-600" : ""}>
+                        Reset due {formatDate(new Date(entry.resetDue))}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 sm:flex-shrink-0">
+                {entry.nextSettingDay ? (
+                  <Badge variant="success" className="gap-1">
+                    <Hammer className="h-3 w-3" />
+                    Setting {formatDate(new Date(entry.nextSettingDay.startTime))}
+                  </Badge>
+                ) : (
+                  isManager && (
+                    <Button size="sm" variant="outline" onClick={() => openPlanDialog(entry)}>
+                      <CalendarPlus className="h-4 w-4 mr-2" />
+                      Plan Reset
+                    </Button>
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {entries.some((entry) => entry.nextSettingDay) && (
+        <p className="text-sm text-muted-foreground mt-3">
+          Planned setting days appear on the{" "}
+          <Link href="/dashboard/schedule" className="underline">
+            schedule
+          </Link>
+          .
+        </p>
+      )}
+
+      {/* Plan Setting Day Dialog */}
+      <Dialog open={planning !== null} onOpenChange={(open) => !open && setPlanning(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Plan Reset</DialogTitle>
+            <DialogDescription>
+              {planning && `Add a setting day for ${planning.name} to the schedule`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="planDate">Date *</Label>
+              <Input
+                id="planDate"
+                type="date"
+                value={planForm.date}
+                onChange={(e) => setPlanForm({ ...planForm, date: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="planStart">Start</Label>
+                <Input
+                  id="planStart"
+                  type="time"
+                  value={planForm.startTime}
+                  onChange={(e) => setPlanForm({ ...planForm, startTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="planEnd">End</Label>
+                <Input
+                  id="planEnd"
+                  type="time"
+                  value={planForm.endTime}
+                  onChange={(e) => setPlanForm({ ...planForm, endTime: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlanning(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePlan} disabled={saving || !planForm.date}>
+              {saving ? "Saving..." : "Add to Schedule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
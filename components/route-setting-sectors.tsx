@@ -0,0 +1,292 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Mountain } from "lucide-react";
+import { SECTOR_DISCIPLINES } from "@/lib/route-setting";
+import { RouteSettingClimberPage } from "@/components/route-setting-climber-page";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+interface Sector {
+  id: string;
+  name: string;
+  discipline: string;
+  resetIntervalDays: number;
+  sortOrder: number;
+  isActive: boolean;
+  location: Location;
+  _count: { routes: number };
+}
+
+interface RouteSettingSectorsProps {
+  locations: Location[];
+  selectedLocationId?: string;
+  isManager: boolean;
+}
+
+const emptyForm = {
+  name: "",
+  discipline: "BOULDER",
+  resetIntervalDays: "42",
+  sortOrder: "0",
+  locationId: "",
+  isActive: true,
+};
+
+export function RouteSettingSectors({ locations, selectedLocationId, isManager }: RouteSettingSectorsProps) {
+  const [sectors, setSectors] = useState<Sector[]>([]);
+  const [showInactive, setShowInactive] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Sector | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchSectors();
+  }, [selectedLocationId, showInactive]);
+
+  const fetchSectors = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (selectedLocationId) params.append("locationId", selectedLocationId);
+      if (showInactive) params.append("includeInactive", "true");
+
+      const res = await fetch(`/api/route-setting/sectors?${params}`);
+      if (res.ok) {
+        setSectors(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch sectors:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (sector: Sector | null) => {
+    setEditing(sector);
+    setError(null);
+    setFormData(
+      sector
+        ? {
+            name: sector.name,
+            discipline: sector.discipline,
+            resetIntervalDays: sector.resetIntervalDays.toString(),
+            sortOrder: sector.sortOrder.toString(),
+            locationId: sector.location.id,
+            isActive: sector.isActive,
+          }
+        : { ...emptyForm, locationId: selectedLocationId || locations[0]?.id || "" }
+    );
+    setShowDialog(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.name || !formData.locationId) {
+      setError("Name and location are required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const body = {
+        name: formData.name,
+        discipline: formData.discipline,
+        resetIntervalDays: parseInt(formData.resetIntervalDays) || 0,
+        sortOrder: parseInt(formData.sortOrder) || 0,
+        ...(editing ? { isActive: formData.isActive } : { locationId: formData.locationId }),
+      };
+      const res = await fetch(editing ? `/api/route-setting/sectors/${editing.id}` : "/api/route-setting/sectors", {
+        method: editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to save sector");
+        return;
+      }
+      setShowDialog(false);
+      fetchSectors();
+    } catch (error) {
+      console.error("Failed to save sector:", error);
+      setError("Failed to save sector");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const disciplineLabel = (discipline: string) =>
+    SECTOR_DISCIPLINES.find((d) => d.value === discipline)?.label || discipline;
+
+  if (loading) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-between sm:items-center">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={showInactive} onCheckedChange={setShowInactive} />
+            Show sectors no longer in use
+          </label>
+          {isManager && (
+            <div className="flex gap-2">
+              <RouteSettingClimberPage locations={locations} selectedLocationId={selectedLocationId} />
+              <Button onClick={() => openDialog(null)} disabled={locations.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Sector
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {sectors.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground border rounded-lg">
+            <Mountain className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="font-medium">No sectors yet</p>
+            <p className="text-sm mt-1">Add the walls or sectors that are reset in rotation</p>
+          </div>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {sectors.map((sector) => (
+              <div key={sector.id} className="flex items-center justify-between gap-3 p-4">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-medium">{sector.name}</span>
+                    <Badge variant="outline">{disciplineLabel(sector.discipline)}</Badge>
+                    {!sector.isActive && <Badge variant="secondary">Not in use</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                    <span>{sector.location.name}</span>
+                    <span>
+                      {sector._count.routes} route{sector._count.routes !== 1 && "s"} up
+                    </span>
+                    <span>Reset every {sector.resetIntervalDays} days</span>
+                  </div>
+                </div>
+                {isManager && (
+                  <Button size="sm" variant="outline" onClick={() => openDialog(sector)}>
+                    Edit
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Sector Dialog */}
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Sector" : "Add Sector"}</DialogTitle>
+            <DialogDescription>
+              Routes set here are due to come down after the reset interval
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="sectorName">Name *</Label>
+              <Input
+                id="sectorName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Wall 3, The Cave"
+              />
+            </div>
+
+            {!editing && (
+              <div className="space-y-2">
+                <Label htmlFor="sectorLocation">Location *</Label>
+                <Select
+                  id="sectorLocation"
+                  options={locations.map((loc) => ({ value: loc.id, label: loc.name }))}
+                  value={formData.locationId}
+                  onChange={(e) => setFormData({ ...formData, locationId: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sectorDiscipline">Type</Label>
+                <Select
+                  id="sectorDiscipline"
+                  options={SECTOR_DISCIPLINES}
+                  value={formData.discipline}
+                  onChange={(e) => setFormData({ ...formData, discipline: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sectorInterval">Reset Every (days)</Label>
+                <Input
+                  id="sectorInterval"
+                  type="number"
+                  min="1"
+                  value={formData.resetIntervalDays}
+                  onChange={(e) => setFormData({ ...formData, resetIntervalDays: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sectorOrder">Order</Label>
+                <Input
+                  id="sectorOrder"
+                  type="number"
+                  value={formData.sortOrder}
+                  onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {editing && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                />
+                In use
+              </label>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : editing ? "Save" : "Add Sector"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
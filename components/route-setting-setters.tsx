@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Select } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, Star, Users } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+import { getHoldColorHex } from "@/lib/route-setting";
+import {
+  GRADE_VERDICT_LABELS,
+  type GradeVerdict,
+  type RouteFeedbackSummary,
+  type SetterSummary,
+} from "@/lib/route-feedback";
+
+interface SetterRoute {
+  id: string;
+  name: string | null;
+  grade: string;
+  color: string;
+  setDate: string;
+  strippedAt: string | null;
+  sector: { id: string; name: string };
+  summary: RouteFeedbackSummary;
+}
+
+interface SetterReport {
+  key: string;
+  setterId: string | null;
+  name: string;
+  summary: SetterSummary;
+  settingDays: { signoffId: string | null; date: string; summary: SetterSummary }[];
+  routes: SetterRoute[];
+}
+
+interface RouteSettingSettersProps {
+  selectedLocationId?: string;
+  isManager: boolean;
+}
+
+const PERIOD_OPTIONS = [
+  { value: "90", label: "Last 3 months" },
+  { value: "180", label: "Last 6 months" },
+  { value: "365", label: "Last year" },
+];
+
+export function RouteSettingSetters({ selectedLocationId, isManager }: RouteSettingSettersProps) {
+  const [setters, setSetters] = useState<SetterReport[]>([]);
+  const [days, setDays] = useState("180");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSetters();
+  }, [selectedLocationId, days]);
+
+  const fetchSetters = async () => {
+    try {
+      const params = new URLSearchParams({ days });
+      if (selectedLocationId) params.append("locationId", selectedLocationId);
+
+      const res = await fetch(`/api/route-setting/setters?${params}`);
+      if (res.ok) {
+        setSetters(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch setter feedback:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getVerdictBadge = (verdict: GradeVerdict | null, averageOffset?: number | null) => {
+    if (!verdict) return null;
+    const offset = averageOffset ? ` (${averageOffset > 0 ? "+" : ""}${averageOffset})` : "";
+    return (
+      <Badge variant={verdict === "ON_GRADE" ? "success" : "warning"}>
+        {GRADE_VERDICT_LABELS[verdict]}
+        {offset}
+      </Badge>
+    );
+  };
+
+  const renderRating = (averageRating: number | null, ratings: number) =>
+    averageRating !== null ? (
+      <span className="flex items-center gap-1">
+        <Star className="h-3 w-3" />
+        {averageRating} ({ratings})
+      </span>
+    ) : (
+      <span>No ratings</span>
+    );
+
+  if (loading) {
+    return <div className="text-center py-4 text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:justify-between sm:items-center">
+        <p className="text-sm text-muted-foreground">
+          {isManager
+            ? "How climbers rate each setter's routes and whether they agree with the grades"
+            : "How climbers rate your routes and whether they agree with your grades"}
+        </p>
+        <div className="w-48">
+          <Select options={PERIOD_OPTIONS} value={days} onChange={(e) => setDays(e.target.value)} />
+        </div>
+      </div>
+
+      {setters.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground border rounded-lg">
+          <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p className="font-medium">No routes set in this period</p>
+          <p className="text-sm mt-1">Feedback from the climber page shows here as routes are set</p>
+        </div>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {setters.map((setter) => (
+            <div key={setter.key}>
+              <div className="flex items-center justify-between gap-3 p-4">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-medium">{setter.name}</span>
+                    {!setter.setterId && <Badge variant="outline">External</Badge>}
+                    {getVerdictBadge(setter.summary.verdict, setter.summary.averageOffset)}
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                    <span>
+                      {setter.summary.routes} route{setter.summary.routes !== 1 && "s"}
+                    </span>
+                    {renderRating(setter.summary.averageRating, setter.summary.ratings)}
+                    <span>
+                      {setter.summary.gradeVotes} grade vote{setter.summary.gradeVotes !== 1 && "s"}
+                    </span>
+                    {setter.summary.offGradeRoutes > 0 && (
+                      <span>{setter.summary.offGradeRoutes} off grade</span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setExpanded(expanded === setter.key ? null : setter.key)}
+                >
+                  {expanded === setter.key ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </Button>
+              </div>
+
+              {expanded === setter.key && (
+                <div className="px-4 pb-4 space-y-4">
+                  <div>
+                    <p className="text-sm font-medium mb-2">Setting days</p>
+                    <div className="divide-y border rounded-md text-sm">
+                      {setter.settingDays.map((day) => {
+                        const date = day.date.split("T")[0];
+                        return (
+                          <div key={day.signoffId || date} className="flex flex-wrap items-center gap-x-4 gap-y-1 p-2">
+                            <span className="font-medium">{formatDate(new Date(day.date))}</span>
+                            <span className="text-muted-foreground">
+                              {day.summary.routes} route{day.summary.routes !== 1 && "s"}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {renderRating(day.summary.averageRating, day.summary.ratings)}
+                            </span>
+                            {getVerdictBadge(day.summary.verdict, day.summary.averageOffset)}
+                            {day.signoffId ? (
+                              <Link
+                                href={`/dashboard/setting-signoffs?startDate=${date}&endDate=${date}`}
+                                className="underline text-muted-foreground"
+                              >
+                                Sign-off
+                              </Link>
+                            ) : (
+                              <span className="text-muted-foreground">Not signed off</span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-sm font-medium mb-2">Routes</p>
+                    <div className="divide-y border rounded-md text-sm">
+                      {setter.routes.map((route) => (
+                        <div key={route.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 p-2">
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="h-4 w-4 rounded-full border flex-shrink-0"
+                              style={{ backgroundColor: getHoldColorHex(route.color) }}
+                              title={route.color}
+                            />
+                            <span className="font-semibold">{route.grade}</span>
+                            <span>{route.name || route.color}</span>
+                          </span>
+                          <span className="text-muted-foreground">
+                            {route.sector.name} · Set {formatDate(new Date(route.setDate))}
+                            {route.strippedAt && " · Stripped"}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {renderRating(route.summary.averageRating, route.summary.ratings)}
+                          </span>
+                          {route.summary.grade.verdict && route.summary.grade.verdict !== "ON_GRADE" && (
+                            <span className="text-muted-foreground">
+                              Climbers say {route.summary.grade.consensusGrade} ({route.summary.grade.votes} vote
+                              {route.summary.grade.votes !== 1 && "s"})
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
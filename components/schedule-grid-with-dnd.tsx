@@ -24,6 +24,7 @@ import { ScheduleGrid } from "./schedule-grid";
 import { QuickAssignDialog } from "./quick-assign-dialog";
 import { DraggableTemplateOverlay } from "./draggable-template";
 import { StaffRowDragOverlay } from "./schedule-grid/staff-row-drag-overlay";
+import type { ShiftElsewhere } from "./schedule-grid/types";
 
 interface ShiftCategory {
   id: string;
@@ -53,6 +54,7 @@ interface User {
   staffRole?: string;
   contractedHours?: number | null;
   sortOrder?: number;
+  youngWorker?: boolean;
 }
 
 interface Availability {
@@ -83,6 +85,7 @@ interface Location {
 interface Holiday {
   id: string;
   userId: string;
+  type: string;
   startDate: string;
   endDate: string;
   hours: number;
@@ -105,6 +108,7 @@ interface Event {
 
 interface ScheduleGridWithDndProps {
   shifts: Shift[];
+  shiftsElsewhere?: ShiftElsewhere[];
   users: User[];
   currentUserId: string;
   isManager: boolean;
@@ -117,10 +121,12 @@ interface ScheduleGridWithDndProps {
   events?: Event[];
   breakRules?: string;
   breakCalculationMode?: string;
+  timeZone?: string;
 }
 
 export function ScheduleGridWithDnd({
   shifts,
+  shiftsElsewhere,
   users,
   currentUserId,
   isManager,
@@ -133,6 +139,7 @@ export function ScheduleGridWithDnd({
   events = [],
   breakRules = "[]",
   breakCalculationMode = "PER_SHIFT",
+  timeZone,
   onShiftCreated,
   onShiftConfirmed,
   onShiftRollback,
@@ -257,6 +264,7 @@ export function ScheduleGridWithDnd({
     return (
       <ScheduleGrid
         shifts={shifts}
+        shiftsElsewhere={shiftsElsewhere}
         users={users}
         currentUserId={currentUserId}
         isManager={isManager}
@@ -268,6 +276,7 @@ export function ScheduleGridWithDnd({
         events={events}
         breakRules={breakRules}
         breakCalculationMode={breakCalculationMode}
+        timeZone={timeZone}
         onShiftCreated={onShiftCreated}
         onShiftConfirmed={onShiftConfirmed}
         onShiftRollback={onShiftRollback}
@@ -292,6 +301,7 @@ export function ScheduleGridWithDnd({
           >
             <ScheduleGrid
               shifts={shifts}
+              shiftsElsewhere={shiftsElsewhere}
               users={sortedUsers}
               currentUserId={currentUserId}
               isManager={isManager}
@@ -305,6 +315,7 @@ export function ScheduleGridWithDnd({
               events={events}
               breakRules={breakRules}
               breakCalculationMode={breakCalculationMode}
+              timeZone={timeZone}
               onShiftCreated={onShiftCreated}
               onShiftConfirmed={onShiftConfirmed}
               onShiftRollback={onShiftRollback}
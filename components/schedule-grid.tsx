@@ -4,6 +4,7 @@ import { useState, useMemo, useCallback } from "react";
 import { useDroppable } from "@dnd-kit/core";
 import { Plus, CalendarDays, GripVertical } from "lucide-react";
 import { cn, isSameDay } from "@/lib/utils";
+import { checkRotaWorkingTime } from "@/lib/working-time";
 import { ShiftDetailDialog } from "./shift-detail-dialog";
 import { QuickAddShiftDialog } from "./quick-add-shift-dialog";
 import { QuickAddEventDialog } from "./quick-add-event-dialog";
@@ -24,6 +25,7 @@ import { EventCard } from "./schedule-grid/event-card";
 import { StaffRow } from "./schedule-grid/staff-row";
 import { SortableStaffRow } from "./schedule-grid/sortable-staff-row";
 import { OpenShiftsRow } from "./schedule-grid/open-shifts-row";
+import { RotaPublishButton } from "./schedule-grid/rota-publish-button";
 
 // Droppable cell component for drag-and-drop
 function DroppableGridCell({
@@ -32,6 +34,7 @@ function DroppableGridCell({
   isToday,
   isManager,
   hasNoAvailability,
+  isAbsent,
   children,
   onClick,
 }: {
@@ -40,11 +43,13 @@ function DroppableGridCell({
   isToday: boolean;
   isManager: boolean;
   hasNoAvailability?: boolean;
+  isAbsent?: boolean;
   children: React.ReactNode;
   onClick: () => void;
 }) {
   const { isOver, setNodeRef } = useDroppable({
     id: `cell-${userId || "open"}-${date.toISOString()}`,
+    disabled: isAbsent,
     data: {
       type: "grid-cell",
       date,
@@ -59,7 +64,7 @@ function DroppableGridCell({
         "px-3 py-3 border-r last:border-r-0 align-top transition-colors",
         isToday && "bg-blue-50/50",
         hasNoAvailability && "bg-gray-100",
-        isManager && "cursor-pointer hover:bg-gray-50",
+        isManager && !isAbsent && "cursor-pointer hover:bg-gray-50",
         isOver && "bg-green-100 ring-2 ring-green-400 ring-inset"
       )}
       onClick={onClick}
@@ -105,6 +110,7 @@ const AddEventHint = ({ hasEvents }: { hasEvents?: boolean }) => (
 
 export function ScheduleGrid({
   shifts,
+  shiftsElsewhere,
   users,
   currentUserId,
   isManager,
@@ -119,6 +125,7 @@ export function ScheduleGrid({
   events = [],
   breakRules = "[]",
   breakCalculationMode = "PER_SHIFT",
+  timeZone = "UTC",
   onShiftCreated,
   onShiftConfirmed,
   onShiftRollback,
@@ -325,6 +332,47 @@ export function ScheduleGrid({
     return userTotalHoursMap.get(userId) || "0.00";
   }, [userTotalHoursMap]);
 
+  // Working time warnings for the week, from every loaded shift so rest can
+  // look back into the previous week
+  const workingTimeWarnings = useMemo(() => {
+    const map = new Map<string, string[]>();
+    if (!isManager) return map;
+
+    const weekStart = getDateKey(orderedWeekDates[0]);
+
+    const onRota = new Set(shifts.map((shift) => shift.id));
+
+    users.forEach((user) => {
+      const periods = [
+        ...shifts
+          .filter((shift) => shift.assignedTo?.id === user.id)
+          .map((shift) => ({
+            id: shift.id,
+            startTime: new Date(shift.startTime),
+            endTime: new Date(shift.endTime),
+            breakMinutes: shift.scheduledBreakMinutes || 0,
+          })),
+        // Shifts at other locations still count towards rest and hours
+        ...(shiftsElsewhere ?? [])
+          .filter((shift) => shift.assignedToId === user.id && !onRota.has(shift.id))
+          .map((shift) => ({
+            id: shift.id,
+            startTime: new Date(shift.startTime),
+            endTime: new Date(shift.endTime),
+            breakMinutes: shift.scheduledBreakMinutes,
+          })),
+      ];
+      if (periods.length === 0) return;
+
+      const issues = checkRotaWorkingTime(periods, weekStart, !!user.youngWorker, timeZone);
+      if (issues.length > 0) {
+        map.set(user.id, issues.map((issue) => `${issue.date}: ${issue.message}`));
+      }
+    });
+
+    return map;
+  }, [isManager, users, shifts, shiftsElsewhere, orderedWeekDates, getDateKey, timeZone]);
+
   // --- Event handlers ---
 
   const handleCellClick = (date: Date, userId: string | null) => {
@@ -344,6 +392,7 @@ export function ScheduleGrid({
     userId,
     isToday,
     hasNoAvailability,
+    isAbsent,
     children,
     onClick,
   }: {
@@ -351,6 +400,7 @@ export function ScheduleGrid({
     userId: string | null;
     isToday: boolean;
     hasNoAvailability?: boolean;
+    isAbsent?: boolean;
     children: React.ReactNode;
     onClick: () => void;
   }) => (
@@ -361,6 +411,7 @@ export function ScheduleGrid({
       isToday={isToday}
       isManager={isManager}
       hasNoAvailability={hasNoAvailability}
+      isAbsent={isAbsent}
       onClick={onClick}
     >
       {children}
@@ -387,6 +438,16 @@ export function ScheduleGrid({
           currentDate={currentDate}
           setCurrentDate={setCurrentDate}
           handleDateSelect={handleDateSelect}
+          actions={
+            // Rotas are published per location, so an "all locations" view can't be published
+            isManager && (locationId || locations.length === 0) ? (
+              <RotaPublishButton
+                weekStart={getDateKey(orderedWeekDates[0])}
+                locationId={locationId || null}
+                refreshKey={shifts}
+              />
+            ) : undefined
+          }
         />
 
         {/* Grid */}
@@ -570,6 +631,7 @@ export function ScheduleGrid({
                     onCellClick={handleCellClick}
                     onShiftSelect={setSelectedShift}
                     totalHours={getTotalHoursForUser(user.id)}
+                    workingTimeWarnings={workingTimeWarnings.get(user.id)}
                     getShiftsForUserAndDate={getShiftsForUserAndDate}
                     isUserAvailable={isUserAvailable}
                     getUserHolidayForDate={getUserHolidayForDate}
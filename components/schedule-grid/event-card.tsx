@@ -1,6 +1,6 @@
 "use client";
 
-import { Cake, Users, GraduationCap, Trophy, CalendarDays } from "lucide-react";
+import { Cake, Users, GraduationCap, Trophy, Hammer, CalendarDays } from "lucide-react";
 import { formatTime } from "@/lib/utils";
 import type { Event } from "./types";
 
@@ -19,6 +19,8 @@ export function getEventIcon(eventType: string) {
       return GraduationCap;
     case "COMPETITION":
       return Trophy;
+    case "SETTING":
+      return Hammer;
     default:
       return CalendarDays;
   }
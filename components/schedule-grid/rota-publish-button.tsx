@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Send } from "lucide-react";
+
+interface RotaStatus {
+  published: boolean;
+  publishedAt: string | null;
+  draftCount: number;
+  changedStaffCount: number;
+}
+
+interface RotaPublishButtonProps {
+  weekStart: string; // YYYY-MM-DD
+  locationId: string | null;
+  refreshKey?: unknown; // Re-check status when this changes (e.g. the shifts list)
+}
+
+export function RotaPublishButton({ weekStart, locationId, refreshKey }: RotaPublishButtonProps) {
+  const router = useRouter();
+  const [status, setStatus] = useState<RotaStatus | null>(null);
+  const [publishing, setPublishing] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    const params = new URLSearchParams({ weekStart });
+    if (locationId) params.set("locationId", locationId);
+
+    try {
+      const res = await fetch(`/api/shifts/publish?${params}`);
+      if (res.ok) {
+        setStatus(await res.json());
+      }
+    } catch (error) {
+      console.error("Failed to fetch rota status:", error);
+    }
+  }, [weekStart, locationId]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus, refreshKey]);
+
+  const hasChanges = !!status && (status.draftCount > 0 || status.changedStaffCount > 0);
+
+  const handlePublish = async () => {
+    const message = status?.published
+      ? "Publish changes? Affected staff will be notified of what changed."
+      : "Publish this week? Staff will be notified of their shifts.";
+    if (!confirm(message)) return;
+
+    setPublishing(true);
+    try {
+      const res = await fetch("/api/shifts/publish", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weekStart, locationId }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || "Failed to publish rota");
+        return;
+      }
+
+      await fetchStatus();
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to publish rota:", error);
+      alert("Failed to publish rota. Please try again.");
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {status.published ? (
+        <Badge variant={hasChanges ? "warning" : "success"}>
+          {hasChanges ? "Unpublished changes" : "Published"}
+        </Badge>
+      ) : (
+        <Badge variant="secondary">Draft</Badge>
+      )}
+      {(!status.published || hasChanges) && (
+        <Button size="sm" onClick={handlePublish} disabled={publishing}>
+          <Send className="mr-2 h-4 w-4" />
+          {publishing ? "Publishing..." : status.published ? "Publish Changes" : "Publish Week"}
+        </Button>
+      )}
+    </div>
+  );
+}
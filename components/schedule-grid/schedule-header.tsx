@@ -1,6 +1,6 @@
 "use client";
 
-import { RefObject } from "react";
+import { RefObject, ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ChevronLeft, ChevronRight, Calendar } from "lucide-react";
@@ -18,6 +18,7 @@ interface ScheduleHeaderProps {
   currentDate: Date;
   setCurrentDate: (date: Date) => void;
   handleDateSelect: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  actions?: ReactNode;
 }
 
 export function ScheduleHeader({
@@ -32,6 +33,7 @@ export function ScheduleHeader({
   currentDate,
   setCurrentDate,
   handleDateSelect,
+  actions,
 }: ScheduleHeaderProps) {
   return (
     <div className="flex items-center justify-between px-6 py-4 border-b bg-gray-50">
@@ -74,6 +76,7 @@ export function ScheduleHeader({
         </div>
       </div>
       <div className="flex items-center gap-2">
+        {actions}
         {/* View Mode Toggle */}
         <div className="flex rounded-md border overflow-hidden">
           <button
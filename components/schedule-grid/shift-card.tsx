@@ -1,6 +1,6 @@
 "use client";
 
-import { formatTime } from "@/lib/utils";
+import { cn, formatTime } from "@/lib/utils";
 import type { Shift } from "./types";
 
 interface ShiftCardProps {
@@ -35,6 +35,7 @@ export function ShiftCard({ shift, onSelect }: ShiftCardProps) {
   const luminance = getLuminance(categoryColor);
   const textColor = luminance > 0.5 ? "#1f2937" : "#ffffff";
   const textSecondaryColor = luminance > 0.5 ? "rgba(0,0,0,0.6)" : "rgba(255,255,255,0.8)";
+  const isDraft = shift.status === "DRAFT";
 
   return (
     <button
@@ -43,7 +44,11 @@ export function ShiftCard({ shift, onSelect }: ShiftCardProps) {
         e.stopPropagation();
         onSelect(shift);
       }}
-      className="w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-all hover:opacity-90 hover:shadow-lg shadow-md"
+      className={cn(
+        "w-full text-left px-3 py-2 rounded-md text-sm font-medium transition-all hover:opacity-90 hover:shadow-lg shadow-md",
+        isDraft && "opacity-75 outline-dashed outline-2 outline-offset-1 outline-gray-400"
+      )}
+      title={isDraft ? "Draft - not yet visible to staff" : undefined}
       style={{
         backgroundColor: categoryColor,
         color: textColor,
@@ -52,6 +57,11 @@ export function ShiftCard({ shift, onSelect }: ShiftCardProps) {
       <div className="font-bold">
         {startStr} - {endStr}
       </div>
+      {isDraft && (
+        <div className="text-[10px] uppercase tracking-wide" style={{ color: textSecondaryColor }}>
+          Draft
+        </div>
+      )}
       {categoryName && (
         <div className="text-xs uppercase mt-0.5 truncate" style={{ color: textSecondaryColor }}>
           {categoryName}
@@ -18,6 +18,7 @@ interface SortableStaffRowProps {
   onCellClick: (date: Date, userId: string | null) => void;
   onShiftSelect: (shift: Shift) => void;
   totalHours: string;
+  workingTimeWarnings?: string[];
   getShiftsForUserAndDate: (userId: string, date: Date) => Shift[];
   isUserAvailable: (userId: string, date: Date) => boolean;
   getUserHolidayForDate: (userId: string, date: Date) => Holiday | null;
@@ -26,6 +27,7 @@ interface SortableStaffRowProps {
     userId: string;
     isToday: boolean;
     hasNoAvailability: boolean;
+    isAbsent?: boolean;
     children: React.ReactNode;
     onClick: () => void;
   }) => React.ReactNode;
@@ -2,10 +2,20 @@
 
 import React, { memo } from "react";
 import { cn, isSameDay } from "@/lib/utils";
-import { GripVertical } from "lucide-react";
+import { getAbsenceLabel } from "@/lib/absence-types";
+import { AlertTriangle, GripVertical } from "lucide-react";
 import { ShiftCard } from "./shift-card";
 import type { Shift, User, Holiday } from "./types";
 
+const ABSENCE_COLORS: Record<string, string> = {
+  HOLIDAY: "bg-purple-500",
+  SICK: "bg-red-500",
+  TOIL: "bg-teal-500",
+  UNPAID: "bg-gray-500",
+  COMPASSIONATE: "bg-slate-500",
+  PARENTAL: "bg-pink-500",
+};
+
 interface StaffRowProps {
   user: User;
   currentUserId: string;
@@ -19,6 +29,8 @@ interface StaffRowProps {
   onCellClick: (date: Date, userId: string | null) => void;
   onShiftSelect: (shift: Shift) => void;
   totalHours: string;
+  // Working Time Regulations issues with this week's shifts
+  workingTimeWarnings?: string[];
   getShiftsForUserAndDate: (userId: string, date: Date) => Shift[];
   isUserAvailable: (userId: string, date: Date) => boolean;
   getUserHolidayForDate: (userId: string, date: Date) => Holiday | null;
@@ -27,6 +39,7 @@ interface StaffRowProps {
     userId: string;
     isToday: boolean;
     hasNoAvailability: boolean;
+    isAbsent?: boolean;
     children: React.ReactNode;
     onClick: () => void;
   }) => React.ReactNode;
@@ -50,6 +63,7 @@ export const StaffRow = memo(function StaffRow({
   onCellClick,
   onShiftSelect,
   totalHours,
+  workingTimeWarnings,
   getShiftsForUserAndDate,
   isUserAvailable,
   getUserHolidayForDate,
@@ -73,8 +87,13 @@ export const StaffRow = memo(function StaffRow({
       <div className="relative group min-h-[100px]">
         <div className="space-y-2">
           {holiday && (
-            <div className="w-full text-left px-3 py-2 rounded-md text-sm font-medium bg-purple-500 text-white shadow-md">
-              <div className="font-bold">Holiday</div>
+            <div
+              className={cn(
+                "w-full text-left px-3 py-2 rounded-md text-sm font-medium text-white shadow-md",
+                ABSENCE_COLORS[holiday.type] ?? ABSENCE_COLORS.HOLIDAY
+              )}
+            >
+              <div className="font-bold">{getAbsenceLabel(holiday.type)}</div>
               <div className="text-xs opacity-80 mt-0.5">
                 {holiday.hours}h off
               </div>
@@ -90,7 +109,7 @@ export const StaffRow = memo(function StaffRow({
             </div>
           ) : null}
         </div>
-        {isManager && renderAddShiftHint({ hasShifts: userShifts.length > 0 || !!holiday })}
+        {isManager && !holiday && renderAddShiftHint({ hasShifts: userShifts.length > 0 })}
       </div>
     );
   };
@@ -101,6 +120,11 @@ export const StaffRow = memo(function StaffRow({
     const hasNoAvailability = availabilityLength > 0 && !hasAvailability && userShifts.length === 0;
     const isToday = isSameDay(date, today);
     const cellContent = renderCellContent(date);
+    // Nobody can be scheduled on a day they are absent
+    const isAbsent = !!getUserHolidayForDate(user.id, date);
+    const handleClick = () => {
+      if (!isAbsent) onCellClick(date, user.id);
+    };
 
     if (enableDroppable) {
       return renderDroppableCell({
@@ -108,8 +132,9 @@ export const StaffRow = memo(function StaffRow({
         userId: user.id,
         isToday,
         hasNoAvailability,
+        isAbsent,
         children: cellContent,
-        onClick: () => onCellClick(date, user.id),
+        onClick: handleClick,
       });
     }
 
@@ -120,9 +145,9 @@ export const StaffRow = memo(function StaffRow({
           "px-3 py-3 border-r last:border-r-0 align-top transition-colors",
           isToday && "bg-blue-50/50",
           hasNoAvailability && "bg-gray-100",
-          isManager && "cursor-pointer"
+          isManager && !isAbsent && "cursor-pointer"
         )}
-        onClick={() => onCellClick(date, user.id)}
+        onClick={handleClick}
       >
         {cellContent}
       </td>
@@ -176,6 +201,15 @@ export const StaffRow = memo(function StaffRow({
                 </>
               )}
             </span>
+            {workingTimeWarnings && workingTimeWarnings.length > 0 && (
+              <span
+                className="flex items-center gap-1 text-xs text-amber-600"
+                title={workingTimeWarnings.join("\n")}
+              >
+                <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                {workingTimeWarnings.length} working time {workingTimeWarnings.length === 1 ? "issue" : "issues"}
+              </span>
+            )}
           </div>
         </div>
       </td>
@@ -18,6 +18,15 @@ export interface Shift {
   category?: ShiftCategory | null;
 }
 
+// A rota'd user's shift at another location, only used for working time checks
+export interface ShiftElsewhere {
+  id: string;
+  assignedToId: string | null;
+  startTime: Date;
+  endTime: Date;
+  scheduledBreakMinutes: number;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -26,6 +35,7 @@ export interface User {
   staffRole?: string;
   contractedHours?: number | null;
   sortOrder?: number;
+  youngWorker?: boolean;
 }
 
 export interface Availability {
@@ -46,6 +56,7 @@ export interface Location {
 export interface Holiday {
   id: string;
   userId: string;
+  type: string;
   startDate: string;
   endDate: string;
   hours: number;
@@ -64,6 +75,7 @@ export interface Event {
   color: string;
   location: { id: string; name: string } | null;
   createdBy: { id: string; name: string } | null;
+  sector?: { id: string; name: string } | null;
 }
 
 export interface BreakRule {
@@ -73,6 +85,7 @@ export interface BreakRule {
 
 export interface ScheduleGridProps {
   shifts: Shift[];
+  shiftsElsewhere?: ShiftElsewhere[];
   users: User[];
   currentUserId: string;
   isManager: boolean;
@@ -87,6 +100,8 @@ export interface ScheduleGridProps {
   events?: Event[];
   breakRules?: string;
   breakCalculationMode?: string;
+  // The organization's timezone, which working time days and weeks follow
+  timeZone?: string;
   onShiftCreated?: (shift: Shift) => void;
   onShiftConfirmed?: (tempId: string, serverShift: Shift) => void;
   onShiftRollback?: (tempId: string) => void;
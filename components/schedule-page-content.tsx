@@ -4,8 +4,11 @@ import { useState, useCallback, useEffect } from "react";
 import { ScheduleGridWithDnd } from "./schedule-grid-with-dnd";
 import { CreateShiftDialog } from "./create-shift-dialog";
 import { CreateEventDialog } from "./create-event-dialog";
+import { GenerateRotaDialog } from "./generate-rota-dialog";
+import { CopyWeekDialog } from "./copy-week-dialog";
 import { LocationScheduleFilter } from "./location-schedule-filter";
 import { WeeklyForecastCard } from "./weekly-forecast-card";
+import type { ShiftElsewhere } from "./schedule-grid/types";
 
 interface ShiftCategory {
   id: string;
@@ -35,6 +38,7 @@ interface User {
   staffRole?: string;
   contractedHours?: number | null;
   sortOrder?: number;
+  youngWorker?: boolean;
 }
 
 interface Availability {
@@ -55,6 +59,7 @@ interface Location {
 interface Holiday {
   id: string;
   userId: string;
+  type: string;
   startDate: string;
   endDate: string;
   hours: number;
@@ -77,6 +82,7 @@ interface Event {
 
 interface SchedulePageContentProps {
   initialShifts: Shift[];
+  shiftsElsewhere: ShiftElsewhere[];
   users: User[];
   currentUserId: string;
   isManager: boolean;
@@ -94,10 +100,12 @@ interface SchedulePageContentProps {
   events: Event[];
   breakRules: string;
   breakCalculationMode: string;
+  timeZone: string;
 }
 
 export function SchedulePageContent({
   initialShifts,
+  shiftsElsewhere,
   users,
   currentUserId,
   isManager,
@@ -115,6 +123,7 @@ export function SchedulePageContent({
   events,
   breakRules,
   breakCalculationMode,
+  timeZone,
 }: SchedulePageContentProps) {
   // Local state for shifts - enables optimistic updates
   const [localShifts, setLocalShifts] = useState<Shift[]>(initialShifts);
@@ -162,6 +171,14 @@ export function SchedulePageContent({
           )}
           {isManager && (
             <>
+              <CopyWeekDialog
+                locations={isAdmin ? allOrgLocations : userLocations}
+                defaultLocationId={currentLocationId}
+              />
+              <GenerateRotaDialog
+                locations={isAdmin ? allOrgLocations : userLocations}
+                defaultLocationId={currentLocationId}
+              />
               <CreateEventDialog
                 locations={isAdmin ? allOrgLocations : userLocations}
                 defaultLocationId={currentLocationId}
@@ -182,7 +199,7 @@ export function SchedulePageContent({
 
       {!isAdmin && !isManager && userLocationIds.length === 0 && allOrgLocations.length > 0 && (
         <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
-          You haven't been assigned to any locations yet. Contact your admin to be assigned.
+          You haven&apos;t been assigned to any locations yet. Contact your admin to be assigned.
         </div>
       )}
 
@@ -195,6 +212,7 @@ export function SchedulePageContent({
 
       <ScheduleGridWithDnd
         shifts={localShifts}
+        shiftsElsewhere={shiftsElsewhere}
         users={users}
         currentUserId={currentUserId}
         isManager={isManager}
@@ -207,6 +225,7 @@ export function SchedulePageContent({
         events={events}
         breakRules={breakRules}
         breakCalculationMode={breakCalculationMode}
+        timeZone={timeZone}
         onShiftCreated={handleShiftCreated}
         onShiftConfirmed={handleShiftConfirmed}
         onShiftRollback={handleShiftRollback}
@@ -14,6 +14,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { formatDate } from "@/lib/utils";
+import { getHoldColorHex } from "@/lib/route-setting";
 import { Eye, Trash2, CheckCircle, XCircle, MapPin, User, Calendar } from "lucide-react";
 
 interface SettingSignoff {
@@ -29,6 +30,13 @@ interface SettingSignoff {
   createdAt: Date;
   signedOffBy: { id: string; name: string; email: string };
   location: { id: string; name: string };
+  routes: {
+    id: string;
+    name: string | null;
+    grade: string;
+    color: string;
+    sector: { id: string; name: string };
+  }[];
 }
 
 interface SettingSignoffDetailProps {
@@ -140,6 +148,26 @@ export function SettingSignoffDetail({ signoff, isAdmin }: SettingSignoffDetailP
             </div>
           </div>
 
+          {/* Routes */}
+          {signoff.routes.length > 0 && (
+            <div className="space-y-2">
+              <p className="font-semibold">Routes Set ({signoff.routes.length})</p>
+              <div className="divide-y border rounded-lg">
+                {signoff.routes.map((route) => (
+                  <div key={route.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                    <span
+                      className="h-3 w-3 rounded-full border flex-shrink-0"
+                      style={{ backgroundColor: getHoldColorHex(route.color) }}
+                    />
+                    <span className="font-medium">{route.grade}</span>
+                    <span>{route.name || route.color}</span>
+                    <span className="text-muted-foreground ml-auto">{route.sector.name}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Photos */}
           {photos.length > 0 && (
             <div className="space-y-2">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,12 +18,23 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { PlusCircle, X, ImagePlus, Upload, Loader2 } from "lucide-react";
+import { getHoldColorHex } from "@/lib/route-setting";
 
 interface Location {
   id: string;
   name: string;
 }
 
+interface SetRoute {
+  id: string;
+  name: string | null;
+  grade: string;
+  color: string;
+  setDate: string;
+  sector: { id: string; name: string };
+  signoff: { id: string } | null;
+}
+
 interface SettingSignoffFormProps {
   locations: Location[];
 }
@@ -46,8 +57,46 @@ export function SettingSignoffForm({ locations }: SettingSignoffFormProps) {
     photos: [] as string[],
     notes: "",
     settingDate: new Date().toISOString().split("T")[0],
+    routeIds: [] as string[],
   });
 
+  const [dayRoutes, setDayRoutes] = useState<SetRoute[]>([]);
+
+  useEffect(() => {
+    fetchDayRoutes();
+  }, [open, formData.locationId, formData.settingDate]);
+
+  // Routes recorded at the site on the setting date that aren't on another sign-off
+  const fetchDayRoutes = async () => {
+    if (!open || !formData.locationId) {
+      setDayRoutes([]);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/route-setting/routes?locationId=${formData.locationId}`);
+      if (res.ok) {
+        const routes: SetRoute[] = await res.json();
+        const unsigned = routes.filter(
+          (route) => !route.signoff && route.setDate.split("T")[0] === formData.settingDate
+        );
+        setDayRoutes(unsigned);
+        setFormData((current) => ({ ...current, routeIds: unsigned.map((route) => route.id) }));
+      }
+    } catch (error) {
+      console.error("Failed to fetch routes:", error);
+    }
+  };
+
+  const toggleRoute = (routeId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      routeIds: checked
+        ? [...formData.routeIds, routeId]
+        : formData.routeIds.filter((id) => id !== routeId),
+    });
+  };
+
   const handleAddPhotoUrl = () => {
     if (photoUrl && formData.photos.length < 5) {
       setFormData({
@@ -155,6 +204,7 @@ export function SettingSignoffForm({ locations }: SettingSignoffFormProps) {
           photos: [],
           notes: "",
           settingDate: new Date().toISOString().split("T")[0],
+          routeIds: [],
         });
         router.refresh();
       } else {
@@ -246,6 +296,40 @@ export function SettingSignoffForm({ locations }: SettingSignoffFormProps) {
               />
             </div>
 
+            {/* Routes set */}
+            {formData.locationId && (
+              <div className="space-y-2">
+                <Label>Routes set</Label>
+                {dayRoutes.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    No routes recorded at this site on this date. Record them under Route Setting to
+                    attach them to the sign-off.
+                  </p>
+                ) : (
+                  <div className="divide-y border rounded-lg">
+                    {dayRoutes.map((route) => (
+                      <label
+                        key={route.id}
+                        className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={formData.routeIds.includes(route.id)}
+                          onCheckedChange={(checked) => toggleRoute(route.id, Boolean(checked))}
+                        />
+                        <span
+                          className="h-3 w-3 rounded-full border flex-shrink-0"
+                          style={{ backgroundColor: getHoldColorHex(route.color) }}
+                        />
+                        <span className="font-medium">{route.grade}</span>
+                        <span>{route.name || route.color}</span>
+                        <span className="text-muted-foreground ml-auto">{route.sector.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Safety Checklist */}
             <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
               <Label className="text-base font-semibold">Safety Checklist</Label>
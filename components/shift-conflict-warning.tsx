@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { ConflictCheckResult } from "@/lib/shift-conflicts";
+
+interface UseShiftConflictsOptions {
+  userId: string | null;
+  startTime: string | null; // ISO string
+  endTime: string | null; // ISO string
+  shiftId?: string | null;
+}
+
+/**
+ * Fetch conflicts for a proposed assignment whenever the assignee or times change
+ */
+export function useShiftConflicts({ userId, startTime, endTime, shiftId }: UseShiftConflictsOptions) {
+  const [conflicts, setConflicts] = useState<ConflictCheckResult | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const checkConflicts = async () => {
+      if (!userId || !startTime || !endTime || startTime >= endTime) {
+        setConflicts(null);
+        return;
+      }
+
+      setChecking(true);
+      try {
+        const res = await fetch("/api/shifts/conflicts", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ userId, startTime, endTime, shiftId: shiftId || null }),
+        });
+        if (res.ok && !cancelled) {
+          const data = await res.json();
+          setConflicts(data);
+        }
+      } catch (error) {
+        console.error("Failed to check shift conflicts:", error);
+      } finally {
+        if (!cancelled) setChecking(false);
+      }
+    };
+    checkConflicts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, startTime, endTime, shiftId]);
+
+  return { conflicts, checking };
+}
+
+/**
+ * Whether the current conflicts stop the form from being submitted
+ */
+export function isBlockedByConflicts(
+  conflicts: ConflictCheckResult | null,
+  overrideReason: string
+): boolean {
+  if (!conflicts) return false;
+  if (conflicts.hardConflicts.length > 0) return true;
+  return conflicts.softConflicts.length > 0 && !overrideReason.trim();
+}
+
+interface ShiftConflictWarningProps {
+  conflicts: ConflictCheckResult | null;
+  checking?: boolean;
+  overrideReason: string;
+  onOverrideReasonChange: (reason: string) => void;
+}
+
+export function ShiftConflictWarning({
+  conflicts,
+  checking,
+  overrideReason,
+  onOverrideReasonChange,
+}: ShiftConflictWarningProps) {
+  if (checking) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        Checking for conflicts...
+      </div>
+    );
+  }
+
+  if (!conflicts || !conflicts.hasConflicts) return null;
+
+  return (
+    <div className="space-y-2">
+      {conflicts.hardConflicts.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm">
+          <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+          <div className="space-y-1">
+            <p className="font-medium text-destructive">Cannot assign</p>
+            <ul className="list-disc pl-4 text-destructive">
+              {conflicts.hardConflicts.map((c, i) => (
+                <li key={i}>{c.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+      {conflicts.hardConflicts.length === 0 && conflicts.softConflicts.length > 0 && (
+        <div className="p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md text-sm space-y-2">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className="space-y-1">
+              <p className="font-medium text-amber-800 dark:text-amber-200">
+                Scheduling Warning
+              </p>
+              <ul className="list-disc pl-4 text-amber-700 dark:text-amber-300">
+                {conflicts.softConflicts.map((c, i) => (
+                  <li key={i}>{c.message}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="overrideReason" className="text-xs">
+              Reason for override (required)
+            </Label>
+            <Textarea
+              id="overrideReason"
+              rows={2}
+              placeholder="e.g., Agreed with staff member"
+              value={overrideReason}
+              onChange={(e) => onOverrideReasonChange(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -14,9 +14,15 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { EditShiftDialog } from "./edit-shift-dialog";
+import { MessageThread } from "./message-thread";
+import {
+  ShiftConflictWarning,
+  useShiftConflicts,
+  isBlockedByConflicts,
+} from "./shift-conflict-warning";
 import { formatDate, formatTime, calculateHours } from "@/lib/utils";
 import { Textarea } from "@/components/ui/textarea";
-import { Calendar, Clock, User, ArrowLeftRight, Trash2, Coffee, Tag, DollarSign, AlertTriangle, Pencil, MessageSquare, Save } from "lucide-react";
+import { Calendar, Clock, User, ArrowLeftRight, Trash2, Coffee, Tag, DollarSign, Pencil, MessageSquare, MessagesSquare, Save } from "lucide-react";
 
 interface ShiftCategory {
   id: string;
@@ -52,13 +58,6 @@ interface User {
   role: string;
 }
 
-interface CertificationWarning {
-  isValid: boolean;
-  errorMessage: string | null;
-  missingCertifications: { id: string; name: string }[];
-  expiredCertifications: { id: string; name: string }[];
-}
-
 interface ShiftDetailDialogProps {
   shift: Shift;
   users: User[];
@@ -81,8 +80,8 @@ export function ShiftDetailDialog({
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [newAssignee, setNewAssignee] = useState(shift.assignedTo?.id || "");
-  const [certWarning, setCertWarning] = useState<CertificationWarning | null>(null);
-  const [checkingCerts, setCheckingCerts] = useState(false);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [reassignError, setReassignError] = useState<string | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [handoverNotes, setHandoverNotes] = useState(shift.handoverNotes || "");
   const [editingHandover, setEditingHandover] = useState(false);
@@ -91,30 +90,13 @@ export function ShiftDetailDialog({
   const isMyShift = shift.assignedTo?.id === currentUserId;
   const hours = calculateHours(shift.startTime, shift.endTime);
 
-  // Check certifications when reassignment selection changes
-  useEffect(() => {
-    const checkCertifications = async () => {
-      // Only check if selecting a new user (not unassigning)
-      if (!newAssignee || newAssignee === shift.assignedTo?.id) {
-        setCertWarning(null);
-        return;
-      }
-
-      setCheckingCerts(true);
-      try {
-        const res = await fetch(`/api/certifications/check?userId=${newAssignee}`);
-        if (res.ok) {
-          const data = await res.json();
-          setCertWarning(data);
-        }
-      } catch (error) {
-        console.error("Failed to check certifications:", error);
-      } finally {
-        setCheckingCerts(false);
-      }
-    };
-    checkCertifications();
-  }, [newAssignee, shift.assignedTo?.id]);
+  // Check conflicts when reassignment selection changes (not when unassigning)
+  const { conflicts, checking: checkingConflicts } = useShiftConflicts({
+    userId: newAssignee && newAssignee !== shift.assignedTo?.id ? newAssignee : null,
+    startTime: new Date(shift.startTime).toISOString(),
+    endTime: new Date(shift.endTime).toISOString(),
+    shiftId: shift.id,
+  });
 
   const handlePickupShift = async () => {
     setLoading(true);
@@ -157,17 +139,24 @@ export function ShiftDetailDialog({
 
   const handleReassign = async () => {
     setLoading(true);
+    setReassignError(null);
+    const hasSoftConflicts = !!conflicts && conflicts.softConflicts.length > 0;
     try {
       const res = await fetch(`/api/shifts/${shift.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           assignedToId: newAssignee || null,
+          overrideConflicts: hasSoftConflicts,
+          overrideReason: hasSoftConflicts ? overrideReason : null,
         }),
       });
       if (res.ok) {
         router.refresh();
         onClose();
+      } else {
+        const data = await res.json();
+        setReassignError(data.conflictError || data.error || "Failed to reassign shift");
       }
     } catch (error) {
       console.error("Failed to reassign shift:", error);
@@ -356,6 +345,15 @@ export function ShiftDetailDialog({
             )}
           </div>
 
+          {/* Shift Thread Section */}
+          <div className="border-t pt-4 space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <MessagesSquare className="h-4 w-4" />
+              Shift Thread
+            </p>
+            <MessageThread conversation={`shift:${shift.id}`} currentUserId={currentUserId} compact />
+          </div>
+
           {isManager && (
             <div className="border-t pt-4 space-y-2">
               <p className="text-sm font-medium">Reassign Shift</p>
@@ -364,26 +362,15 @@ export function ShiftDetailDialog({
                 value={newAssignee}
                 onChange={(e) => setNewAssignee(e.target.value)}
               />
-              {/* Certification warning */}
-              {checkingCerts && (
-                <div className="text-sm text-muted-foreground">
-                  Checking certifications...
-                </div>
-              )}
-              {certWarning && !certWarning.isValid && (
-                <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-md text-sm">
-                  <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
-                  <div className="space-y-1">
-                    <p className="font-medium text-amber-800 dark:text-amber-200">
-                      Certification Warning
-                    </p>
-                    <p className="text-amber-700 dark:text-amber-300">
-                      {certWarning.errorMessage}
-                    </p>
-                    <p className="text-amber-600 dark:text-amber-400 text-xs">
-                      This staff member cannot be assigned until certifications are up to date.
-                    </p>
-                  </div>
+              <ShiftConflictWarning
+                conflicts={conflicts}
+                checking={checkingConflicts}
+                overrideReason={overrideReason}
+                onOverrideReasonChange={setOverrideReason}
+              />
+              {reassignError && (
+                <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md text-sm text-destructive">
+                  {reassignError}
                 </div>
               )}
             </div>
@@ -421,7 +408,7 @@ export function ShiftDetailDialog({
               <Button
                 variant="outline"
                 onClick={handleReassign}
-                disabled={loading || newAssignee === (shift.assignedTo?.id || "") || (certWarning !== null && !certWarning.isValid)}
+                disabled={loading || newAssignee === (shift.assignedTo?.id || "") || isBlockedByConflicts(conflicts, overrideReason)}
                 className="w-full sm:w-auto"
               >
                 Reassign
@@ -17,6 +17,7 @@ import {
   MapPin,
   FileSpreadsheet,
   Coffee,
+  CalendarX,
   Layers,
   ShieldCheck,
   Wrench,
@@ -26,11 +27,16 @@ import {
   Banknote,
   Smartphone,
   ClipboardCheck,
+  Mountain,
   ChevronLeft,
   ChevronRight,
   Package,
   ListTodo,
+  MessageSquare,
+  Megaphone,
+  ReceiptPoundSterling,
   X,
+  Scale,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { NotificationBadge } from "@/components/notification-badge";
@@ -52,20 +58,26 @@ const navigation = [
   { name: "Timesheet", href: "/dashboard/timesheet", icon: Clock },
   { name: "Availability", href: "/dashboard/availability", icon: CalendarClock },
   { name: "Shift Swaps", href: "/dashboard/swaps", icon: ArrowLeftRight },
+  { name: "Messages", href: "/dashboard/messages", icon: MessageSquare },
+  { name: "Announcements", href: "/dashboard/announcements", icon: Megaphone, managerOnly: true },
   { name: "Holidays", href: "/dashboard/holidays", icon: Palmtree },
   { name: "Team", href: "/dashboard/team", icon: Users },
   { name: "Compliance", href: "/dashboard/compliance", icon: ShieldCheck },
   { name: "Maintenance", href: "/dashboard/maintenance", icon: Wrench },
+  { name: "Route Setting", href: "/dashboard/route-setting", icon: Mountain },
   { name: "Setting Sign-offs", href: "/dashboard/setting-signoffs", icon: ClipboardCheck, managerOnly: true },
   { name: "Growth", href: "/dashboard/growth", icon: TrendingUp, managerOnly: true },
   { name: "Spend", href: "/dashboard/spend", icon: Wallet, managerOnly: true },
   { name: "Cash", href: "/dashboard/cash", icon: Banknote },
   { name: "Inventory", href: "/dashboard/inventory", icon: Package, managerOnly: true },
   { name: "Tasks", href: "/dashboard/tasks", icon: ListTodo },
+  { name: "Payroll", href: "/dashboard/payroll", icon: ReceiptPoundSterling, adminOnly: true },
   { name: "Analytics", href: "/dashboard/analytics", icon: BarChart3, managerOnly: true },
+  { name: "Working Time", href: "/dashboard/reports/working-time", icon: Scale, managerOnly: true },
   { name: "Locations", href: "/dashboard/locations", icon: MapPin, managerOnly: true },
   { name: "Shift Types", href: "/dashboard/shift-types", icon: Layers, adminOnly: true },
   { name: "Break Rules", href: "/dashboard/break-rules", icon: Coffee, adminOnly: true },
+  { name: "Leave Rules", href: "/dashboard/leave-rules", icon: CalendarX, adminOnly: true },
   { name: "Export", href: "/dashboard/export", icon: FileSpreadsheet, managerOnly: true },
   { name: "Settings", href: "/dashboard/settings", icon: Settings },
 ] as const;
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { StaffCostTable } from "@/components/staff-cost-table";
-import { TrendingUp, TrendingDown, Clock, PoundSterling, Palmtree, Building2 } from "lucide-react";
+import { TrendingUp, TrendingDown, Clock, PoundSterling, Palmtree, Building2, PiggyBank } from "lucide-react";
 
 interface StaffCost {
   userId: string;
@@ -15,6 +15,11 @@ interface StaffCost {
   grossPay: number;
   holidayAccrual: number;
   employerNI: number;
+  employerPension: number;
+  employeePension: number;
+  incomeTax: number;
+  studentLoan: number;
+  netPay: number;
   totalCost: number;
 }
 
@@ -25,6 +30,7 @@ interface LocationCost {
   grossPay: number;
   holidayAccrual: number;
   employerNI: number;
+  employerPension: number;
   totalCost: number;
 }
 
@@ -34,11 +40,25 @@ interface AnalyticsData {
     startDate: string;
     endDate: string;
   };
+  taxYear: {
+    label: string;
+    employerNIRate: number;
+    secondaryThresholdMonthly: number;
+    holidayAccrualRate: number;
+    employmentAllowance: number;
+    pensionEmployerRate: number;
+    pensionEmployeeRate: number;
+  };
   totals: {
     hours: number;
     grossPay: number;
     holidayAccrual: number;
+    employeeNI: number;
     employerNI: number;
+    employerPension: number;
+    employeePension: number;
+    incomeTax: number;
+    studentLoan: number;
     totalCost: number;
   };
   variance: {
@@ -59,6 +79,8 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+const formatRate = (rate: number) => `${Math.round(rate * 10000) / 100}%`;
+
 function getMonthOptions() {
   const options = [];
   const now = new Date();
@@ -160,10 +182,13 @@ export function StaffCostAnalytics() {
             options={locationOptions}
           />
         </div>
+        <p className="self-center text-sm text-muted-foreground">
+          {data.taxYear.label} tax year rates
+        </p>
       </div>
 
       {/* Summary Cards */}
-      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Hours</CardTitle>
@@ -191,7 +216,9 @@ export function StaffCostAnalytics() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(data.totals.holidayAccrual)}</div>
-            <p className="text-xs text-muted-foreground">12.07% for hourly staff</p>
+            <p className="text-xs text-muted-foreground">
+              {formatRate(data.taxYear.holidayAccrualRate)} for hourly staff
+            </p>
           </CardContent>
         </Card>
 
@@ -202,7 +229,22 @@ export function StaffCostAnalytics() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(data.totals.employerNI)}</div>
-            <p className="text-xs text-muted-foreground">13.8% above threshold</p>
+            <p className="text-xs text-muted-foreground">
+              {formatRate(data.taxYear.employerNIRate)} above {formatCurrency(data.taxYear.secondaryThresholdMonthly)}/month
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Employer Pension</CardTitle>
+            <PiggyBank className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(data.totals.employerPension)}</div>
+            <p className="text-xs text-muted-foreground">
+              {formatRate(data.taxYear.pensionEmployerRate)} of qualifying earnings
+            </p>
           </CardContent>
         </Card>
 
@@ -245,6 +287,37 @@ export function StaffCostAnalytics() {
         </CardContent>
       </Card>
 
+      {/* Employee Deductions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Employee Deductions</CardTitle>
+          <CardDescription>
+            Indicative estimate from starter form tax codes and student loan plans. Payroll
+            software works these out cumulatively, so actual figures can differ.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-muted-foreground">
+            <div>
+              <span className="block text-lg font-bold text-foreground">{formatCurrency(data.totals.incomeTax)}</span>
+              PAYE income tax
+            </div>
+            <div>
+              <span className="block text-lg font-bold text-foreground">{formatCurrency(data.totals.employeeNI)}</span>
+              Employee NI
+            </div>
+            <div>
+              <span className="block text-lg font-bold text-foreground">{formatCurrency(data.totals.employeePension)}</span>
+              Employee pension ({formatRate(data.taxYear.pensionEmployeeRate)})
+            </div>
+            <div>
+              <span className="block text-lg font-bold text-foreground">{formatCurrency(data.totals.studentLoan)}</span>
+              Student loans
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Cost Breakdown */}
       <Card>
         <CardHeader>
@@ -279,7 +352,7 @@ export function StaffCostAnalytics() {
                         <h4 className="font-medium">{location.locationName}</h4>
                         <span className="text-lg font-bold">{formatCurrency(location.totalCost)}</span>
                       </div>
-                      <div className="grid grid-cols-4 gap-4 text-sm text-muted-foreground">
+                      <div className="grid grid-cols-5 gap-4 text-sm text-muted-foreground">
                         <div>
                           <span className="block font-medium text-foreground">{location.hours.toFixed(1)}</span>
                           Hours
@@ -296,6 +369,10 @@ export function StaffCostAnalytics() {
                           <span className="block font-medium text-foreground">{formatCurrency(location.employerNI)}</span>
                           Employer NI
                         </div>
+                        <div>
+                          <span className="block font-medium text-foreground">{formatCurrency(location.employerPension)}</span>
+                          Employer Pension
+                        </div>
                       </div>
                     </div>
                   ))}
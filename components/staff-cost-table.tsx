@@ -19,6 +19,8 @@ interface StaffCost {
   grossPay: number;
   holidayAccrual: number;
   employerNI: number;
+  employerPension: number;
+  netPay: number;
   totalCost: number;
 }
 
@@ -41,9 +43,11 @@ export function StaffCostTable({ staff }: StaffCostTableProps) {
       grossPay: acc.grossPay + s.grossPay,
       holidayAccrual: acc.holidayAccrual + s.holidayAccrual,
       employerNI: acc.employerNI + s.employerNI,
+      employerPension: acc.employerPension + s.employerPension,
+      netPay: acc.netPay + s.netPay,
       totalCost: acc.totalCost + s.totalCost,
     }),
-    { hours: 0, grossPay: 0, holidayAccrual: 0, employerNI: 0, totalCost: 0 }
+    { hours: 0, grossPay: 0, holidayAccrual: 0, employerNI: 0, employerPension: 0, netPay: 0, totalCost: 0 }
   );
 
   return (
@@ -56,7 +60,9 @@ export function StaffCostTable({ staff }: StaffCostTableProps) {
           <TableHead className="text-right">Gross Pay</TableHead>
           <TableHead className="text-right">Holiday Accrual</TableHead>
           <TableHead className="text-right">Employer NI</TableHead>
+          <TableHead className="text-right">Employer Pension</TableHead>
           <TableHead className="text-right">Total Cost</TableHead>
+          <TableHead className="text-right">Est. Net Pay</TableHead>
         </TableRow>
       </TableHeader>
       <TableBody>
@@ -74,7 +80,11 @@ export function StaffCostTable({ staff }: StaffCostTableProps) {
               {s.holidayAccrual > 0 ? formatCurrency(s.holidayAccrual) : "-"}
             </TableCell>
             <TableCell className="text-right">{formatCurrency(s.employerNI)}</TableCell>
+            <TableCell className="text-right">
+              {s.employerPension > 0 ? formatCurrency(s.employerPension) : "-"}
+            </TableCell>
             <TableCell className="text-right font-bold">{formatCurrency(s.totalCost)}</TableCell>
+            <TableCell className="text-right text-muted-foreground">{formatCurrency(s.netPay)}</TableCell>
           </TableRow>
         ))}
       </TableBody>
@@ -85,7 +95,9 @@ export function StaffCostTable({ staff }: StaffCostTableProps) {
           <TableCell className="text-right font-bold">{formatCurrency(totals.grossPay)}</TableCell>
           <TableCell className="text-right font-bold">{formatCurrency(totals.holidayAccrual)}</TableCell>
           <TableCell className="text-right font-bold">{formatCurrency(totals.employerNI)}</TableCell>
+          <TableCell className="text-right font-bold">{formatCurrency(totals.employerPension)}</TableCell>
           <TableCell className="text-right font-bold">{formatCurrency(totals.totalCost)}</TableCell>
+          <TableCell className="text-right font-bold text-muted-foreground">{formatCurrency(totals.netPay)}</TableCell>
         </TableRow>
       </TableFooter>
     </Table>
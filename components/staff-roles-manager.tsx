@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Briefcase, Plus, Trash2, Users } from "lucide-react";
+import { DEFAULT_STAFF_ROLES } from "@/lib/staff-roles";
 
 interface StaffRole {
   id: string;
@@ -16,14 +17,6 @@ interface StaffRole {
   isActive: boolean;
 }
 
-// Default roles that can be created if none exist
-const DEFAULT_ROLES = [
-  { name: "Front Desk", code: "DESK", color: "#3b82f6" },
-  { name: "Coach", code: "COACH", color: "#10b981" },
-  { name: "Route Setter", code: "SETTER", color: "#f59e0b" },
-  { name: "Instructor", code: "INSTRUCTOR", color: "#8b5cf6" },
-];
-
 export function StaffRolesManager() {
   const router = useRouter();
   const [roles, setRoles] = useState<StaffRole[]>([]);
@@ -103,7 +96,7 @@ export function StaffRolesManager() {
     setSaving(true);
     setError(null);
     try {
-      for (const role of DEFAULT_ROLES) {
+      for (const role of DEFAULT_STAFF_ROLES) {
         await fetch("/api/staff-roles", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -229,6 +229,12 @@ export function StarterFormPDF({ form, employeeName, organizationName }: Starter
             <Text style={styles.label}>Student Loan Plan:</Text>
             <Text style={styles.value}>{getStudentLoanLabel(form.studentLoanPlan)}</Text>
           </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Workplace Pension:</Text>
+            <Text style={styles.value}>
+              {form.pensionOptOut ? `Opted out (${formatDate(form.pensionOptOutAt)})` : "Enrolled"}
+            </Text>
+          </View>
         </View>
 
         {/* Emergency Contact */}
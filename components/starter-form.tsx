@@ -40,6 +40,8 @@ interface StarterFormData {
   p45TotalTax: string;
   starterDeclaration: string;
   studentLoanPlan: string;
+  // Workplace Pension
+  pensionOptOut: boolean;
   // Emergency Contact
   emergencyName: string;
   emergencyRelationship: string;
@@ -84,6 +86,7 @@ const emptyFormData: StarterFormData = {
   p45TotalTax: "",
   starterDeclaration: "",
   studentLoanPlan: "NONE",
+  pensionOptOut: false,
   emergencyName: "",
   emergencyRelationship: "",
   emergencyPhone: "",
@@ -779,6 +782,25 @@ export function StarterForm() {
                   ]}
                 />
               </div>
+
+              <div className="space-y-3 border-t pt-4">
+                <h4 className="font-medium">Workplace Pension</h4>
+                <p className="text-sm text-muted-foreground">
+                  If you are aged 22 or over and earn enough, you will be enrolled in our workplace
+                  pension automatically. You and we both pay in a percentage of your qualifying
+                  earnings. You can choose to opt out, and opt back in later by telling your manager.
+                </p>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="pensionOptOut"
+                    checked={formData.pensionOptOut}
+                    onCheckedChange={(checked) => updateField("pensionOptOut", checked === true)}
+                  />
+                  <Label htmlFor="pensionOptOut" className="font-normal">
+                    I want to opt out of the workplace pension
+                  </Label>
+                </div>
+              </div>
             </div>
           )}
 
@@ -997,6 +1019,10 @@ export function StarterForm() {
                         : formData.studentLoanPlan?.replace("_", " ")}
                     </dd>
                   </div>
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">Workplace Pension:</dt>
+                    <dd>{formData.pensionOptOut ? "Opted out" : "Enrolled"}</dd>
+                  </div>
                 </dl>
               </div>
 
@@ -18,20 +18,47 @@ export function SwapRequestActions({
 }: SwapRequestActionsProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateStatus = (status: string, overrideReason?: string) =>
+    fetch(`/api/swap-requests/${requestId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        status,
+        overrideConflicts: !!overrideReason,
+        overrideReason: overrideReason || null,
+      }),
+    });
 
   const handleAction = async (status: "APPROVED" | "REJECTED" | "CANCELLED") => {
     setLoading(true);
+    setError(null);
     try {
       if (status === "CANCELLED") {
         await fetch(`/api/swap-requests/${requestId}`, {
           method: "DELETE",
         });
       } else {
-        await fetch(`/api/swap-requests/${requestId}`, {
-          method: "PATCH",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ status }),
-        });
+        let res = await updateStatus(status);
+
+        // Soft conflicts can be overridden by a manager with a reason
+        if (res.status === 409) {
+          const data = await res.json();
+          if (!isManager || data.hardConflicts?.length > 0) {
+            setError(data.conflictError || data.error);
+            return;
+          }
+          const reason = prompt(`${data.conflictError}\n\nEnter a reason to approve anyway:`);
+          if (!reason?.trim()) return;
+          res = await updateStatus(status, reason);
+        }
+
+        if (!res.ok) {
+          const data = await res.json();
+          setError(data.conflictError || data.error || "Action failed");
+          return;
+        }
       }
       router.refresh();
     } catch (error) {
@@ -42,37 +69,42 @@ export function SwapRequestActions({
   };
 
   return (
-    <div className="flex gap-2">
-      {isManager && (
-        <>
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {isManager && (
+          <>
+            <Button
+              size="sm"
+              onClick={() => handleAction("APPROVED")}
+              disabled={loading}
+            >
+              <Check className="mr-1 h-4 w-4" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => handleAction("REJECTED")}
+              disabled={loading}
+            >
+              <X className="mr-1 h-4 w-4" />
+              Reject
+            </Button>
+          </>
+        )}
+        {isOwner && (
           <Button
             size="sm"
-            onClick={() => handleAction("APPROVED")}
+            variant="outline"
+            onClick={() => handleAction("CANCELLED")}
             disabled={loading}
           >
-            <Check className="mr-1 h-4 w-4" />
-            Approve
+            Cancel
           </Button>
-          <Button
-            size="sm"
-            variant="destructive"
-            onClick={() => handleAction("REJECTED")}
-            disabled={loading}
-          >
-            <X className="mr-1 h-4 w-4" />
-            Reject
-          </Button>
-        </>
-      )}
-      {isOwner && (
-        <Button
-          size="sm"
-          variant="outline"
-          onClick={() => handleAction("CANCELLED")}
-          disabled={loading}
-        >
-          Cancel
-        </Button>
+        )}
+      </div>
+      {error && (
+        <p className="text-xs text-destructive">{error}</p>
       )}
     </div>
   );
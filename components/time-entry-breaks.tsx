@@ -0,0 +1,49 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { formatTime } from "@/lib/utils";
+
+export interface TimeEntryBreakItem {
+  id: string;
+  type: string;
+  startTime: Date;
+  endTime: Date | null;
+}
+
+function getMinutes(item: TimeEntryBreakItem): number {
+  const end = item.endTime ? new Date(item.endTime) : new Date();
+  return Math.max(0, Math.round((end.getTime() - new Date(item.startTime).getTime()) / 60000));
+}
+
+/**
+ * Breaks taken so far during a time entry, oldest first
+ */
+export function TimeEntryBreakList({ breaks }: { breaks: TimeEntryBreakItem[] }) {
+  if (breaks.length === 0) return null;
+
+  const unpaidMinutes = breaks
+    .filter((b) => b.type !== "PAID")
+    .reduce((sum, b) => sum + getMinutes(b), 0);
+
+  return (
+    <div className="space-y-1 text-sm text-left">
+      <p className="font-medium">Breaks taken</p>
+      {breaks.map((b) => (
+        <div key={b.id} className="flex items-center justify-between text-muted-foreground">
+          <span>
+            {formatTime(b.startTime)} – {b.endTime ? formatTime(b.endTime) : "now"}
+          </span>
+          <span className="flex items-center gap-2">
+            {getMinutes(b)}m
+            <Badge variant={b.type === "PAID" ? "secondary" : "outline"}>
+              {b.type === "PAID" ? "Paid" : "Unpaid"}
+            </Badge>
+          </span>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        {unpaidMinutes}m unpaid, taken off your hours
+      </p>
+    </div>
+  );
+}
@@ -20,6 +20,37 @@ interface TimeEntry {
   };
 }
 
+interface TimeEntryOverrides {
+  changeApproved?: boolean;
+  recordAsAdjustment?: boolean;
+}
+
+/**
+ * Send a time entry change, asking for confirmation when it falls in an
+ * approved timesheet week or a signed-off pay period. If a confirmation is
+ * declined the locked response is returned.
+ */
+export async function saveTimeEntryChange(
+  send: (overrides: TimeEntryOverrides) => Promise<Response>
+): Promise<Response> {
+  const overrides: TimeEntryOverrides = {};
+  for (;;) {
+    const res = await send(overrides);
+    if (res.status !== 409) return res;
+
+    const data = await res.clone().json();
+    if (data.code === "TIMESHEET_LOCKED" && !overrides.changeApproved) {
+      if (!confirm(`${data.error}\n\nMake the change anyway?`)) return res;
+      overrides.changeApproved = true;
+    } else if (data.code === "PERIOD_LOCKED" && !overrides.recordAsAdjustment) {
+      if (!confirm(`${data.error}\n\nRecord it as an adjustment?`)) return res;
+      overrides.recordAsAdjustment = true;
+    } else {
+      return res;
+    }
+  }
+}
+
 interface TimesheetActionsProps {
   entry: TimeEntry;
   showApprovalActions?: boolean;
@@ -30,14 +61,19 @@ export function TimesheetActions({ entry, showApprovalActions = true }: Timeshee
   const [loading, setLoading] = useState(false);
   const [editOpen, setEditOpen] = useState(false);
 
+  const patchEntry = (body: Record<string, unknown>) =>
+    saveTimeEntryChange((overrides) =>
+      fetch(`/api/time-entries/${entry.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, ...overrides }),
+      })
+    );
+
   const handleAction = async (status: "APPROVED" | "REJECTED" | "PENDING") => {
     setLoading(true);
     try {
-      await fetch(`/api/time-entries/${entry.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status }),
-      });
+      await patchEntry({ status });
       router.refresh();
     } catch (error) {
       console.error("Action failed:", error);
@@ -49,11 +85,7 @@ export function TimesheetActions({ entry, showApprovalActions = true }: Timeshee
   const handleClockInApproval = async (approve: boolean) => {
     setLoading(true);
     try {
-      await fetch(`/api/time-entries/${entry.id}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(approve ? { approveClockIn: true } : { rejectClockIn: true }),
-      });
+      await patchEntry(approve ? { approveClockIn: true } : { rejectClockIn: true });
       router.refresh();
     } catch (error) {
       console.error("Clock-in approval failed:", error);
@@ -58,6 +58,9 @@ interface StarterFormData {
   p45TotalTax: number | null;
   starterDeclaration: string | null;
   studentLoanPlan: string | null;
+  // Workplace Pension
+  pensionOptOut: boolean;
+  pensionOptOutAt: string | null;
   // Emergency Contact
   emergencyName: string | null;
   emergencyRelationship: string | null;
@@ -428,6 +431,14 @@ export function ViewStarterFormDialog({ userId, userName, formStatus }: ViewStar
                     <dt className="text-muted-foreground">Student Loan</dt>
                     <dd className="font-medium">{getStudentLoanLabel(form.studentLoanPlan)}</dd>
                   </div>
+                  <div>
+                    <dt className="text-muted-foreground">Workplace Pension</dt>
+                    <dd className="font-medium">
+                      {form.pensionOptOut
+                        ? `Opted out${form.pensionOptOutAt ? ` on ${formatDate(form.pensionOptOutAt)}` : ""}`
+                        : "Enrolled"}
+                    </dd>
+                  </div>
                 </dl>
               </div>
 
@@ -8,14 +8,17 @@ import { cn } from "@/lib/utils";
 interface ForecastData {
   weekStart: string;
   weekEnd: string;
+  taxYear: string;
   contracted: {
     totalHours: number;
     totalCost: number;
+    onCosts: number;
     staffCount: number;
   };
   scheduled: {
     totalHours: number;
     totalCost: number;
+    onCosts: number;
     shiftCount: number;
   };
   variance: {
@@ -160,6 +163,10 @@ export function WeeklyForecastCard({ weekStart, locationId }: WeeklyForecastCard
           </div>
         </div>
 
+        <p className="text-xs text-muted-foreground">
+          +{formatCurrency(scheduled.onCosts)} holiday, employer NI and pension ({forecast.taxYear} rates)
+        </p>
+
         {/* Variance */}
         {hasContractedData && (
           <div className="pt-2 border-t">
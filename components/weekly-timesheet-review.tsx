@@ -0,0 +1,254 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatTime } from "@/lib/utils";
+import { saveTimeEntryChange } from "@/components/timesheet-actions";
+import type { TimesheetFlag, TimesheetStatus, TimesheetWeek, WorkingTimeCheck } from "@/lib/timesheets";
+import { AlertTriangle, Check, Lock, MessageSquare } from "lucide-react";
+
+const FLAG_LABELS: Record<TimesheetFlag, string> = {
+  EARLY: "Early",
+  LATE: "Late",
+  MISSED_CLOCK_OUT: "Missed clock-out",
+  OVER_BREAK: "Over break",
+};
+
+const DAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+interface TimesheetRow {
+  userId: string;
+  name: string;
+  week: TimesheetWeek;
+  timesheetId: string | null;
+  status: TimesheetStatus;
+  approvedAt: Date | null;
+  hasQuery: boolean;
+  stillClockedIn: boolean;
+  workingTime: WorkingTimeCheck;
+}
+
+interface WeeklyTimesheetReviewProps {
+  weekStart: string;
+  // Weeks can only be approved once they are over
+  weekOver: boolean;
+  rows: TimesheetRow[];
+  isManager: boolean;
+}
+
+export function WeeklyTimesheetReview({ weekStart, weekOver, rows, isManager }: WeeklyTimesheetReviewProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const approvable = rows.filter((r) => r.status !== "APPROVED" && !r.stillClockedIn);
+  const canApprove = isManager && weekOver;
+
+  const toggle = (userId: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, userId] : prev.filter((id) => id !== userId)));
+  };
+
+  const handleApprove = async () => {
+    setLoading(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await saveTimeEntryChange((overrides) =>
+        fetch("/api/timesheets/approve", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ weekStart, userIds: selected, ...overrides }),
+        })
+      );
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to approve timesheets");
+      }
+      const skipped = data.skipped.map((s: { name: string; reason: string }) => `${s.name}: ${s.reason}`);
+      setNotice(
+        `Approved ${data.approved.length} timesheet${data.approved.length === 1 ? "" : "s"}` +
+          (skipped.length > 0 ? `. Skipped ${skipped.join(", ")}` : "")
+      );
+      setSelected([]);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to approve timesheets");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleQuery = async (row: TimesheetRow) => {
+    const content = prompt(`What would you like to ask about ${row.name}'s week?`);
+    if (!content?.trim()) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/timesheets/query", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weekStart, userId: row.userId, content }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to send query");
+      }
+      router.push(`/dashboard/messages?c=${encodeURIComponent(data.conversation)}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send query");
+      setLoading(false);
+    }
+  };
+
+  const getStatusBadge = (row: TimesheetRow) => {
+    switch (row.status) {
+      case "APPROVED":
+        return (
+          <Badge variant="success" className="gap-1">
+            <Lock className="h-3 w-3" />
+            Approved
+          </Badge>
+        );
+      case "QUERIED":
+        return <Badge variant="warning">Queried</Badge>;
+      default:
+        return <Badge variant="secondary">Open</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isManager && (
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div className="flex items-center gap-3">
+            <Checkbox
+              checked={approvable.length > 0 && selected.length === approvable.length}
+              onCheckedChange={(checked) => setSelected(checked ? approvable.map((r) => r.userId) : [])}
+              disabled={!canApprove || approvable.length === 0}
+            />
+            <span className="text-sm">
+              {weekOver
+                ? `${selected.length} of ${approvable.length} selected`
+                : "This week can be approved once it is over"}
+            </span>
+          </div>
+          <Button onClick={handleApprove} disabled={!canApprove || loading || selected.length === 0}>
+            <Check className="mr-1 h-4 w-4" />
+            Approve selected
+          </Button>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{error}</div>}
+      {notice && <div className="text-sm text-green-700 bg-green-50 p-3 rounded-md">{notice}</div>}
+
+      {rows.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            Nobody was scheduled or clocked in this week.
+          </CardContent>
+        </Card>
+      )}
+
+      {rows.map((row) => {
+        const isSelectable = canApprove && row.status !== "APPROVED" && !row.stillClockedIn;
+        return (
+          <Card key={row.userId}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  {isManager && (
+                    <Checkbox
+                      checked={selected.includes(row.userId)}
+                      onCheckedChange={(checked) => toggle(row.userId, checked)}
+                      disabled={!isSelectable}
+                    />
+                  )}
+                  <CardTitle className="text-lg">{row.name}</CardTitle>
+                  {getStatusBadge(row)}
+                  {row.stillClockedIn && <Badge variant="warning">Still clocked in</Badge>}
+                  {row.workingTime.youngWorker && <Badge variant="outline">Under 18</Badge>}
+                </div>
+                <div className="flex items-center gap-4 text-sm">
+                  <span>
+                    Scheduled <strong>{row.week.scheduledHours.toFixed(2)}h</strong>
+                  </span>
+                  <span>
+                    Actual <strong>{row.week.actualHours.toFixed(2)}h</strong>
+                  </span>
+                  <span className={row.week.variance === 0 ? "" : row.week.variance > 0 ? "text-amber-600" : "text-blue-600"}>
+                    {row.week.variance > 0 ? "+" : ""}
+                    {row.week.variance.toFixed(2)}h
+                  </span>
+                  {row.hasQuery && row.timesheetId && (
+                    <Link
+                      href={`/dashboard/messages?c=${encodeURIComponent(`timesheet:${row.timesheetId}`)}`}
+                      className="text-primary hover:underline inline-flex items-center gap-1"
+                    >
+                      <MessageSquare className="h-4 w-4" />
+                      Thread
+                    </Link>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => handleQuery(row)} disabled={loading}>
+                    Query
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {row.workingTime.issues.length > 0 && (
+                <div className="mb-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+                  {row.workingTime.issues.map((issue, i) => (
+                    <div key={i} className="flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {issue.date}: {issue.message}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-7 gap-2">
+                {row.week.days.map((day, i) => (
+                  <div key={day.date} className="rounded-md border p-2 text-xs space-y-1">
+                    <div className="font-medium">
+                      {DAY_NAMES[i]} {day.date.slice(8)}
+                    </div>
+                    {day.shifts.map((shift) => (
+                      <div key={shift.id} className="text-muted-foreground">
+                        {formatTime(shift.startTime)}-{formatTime(shift.endTime)}
+                      </div>
+                    ))}
+                    {day.entries.map((entry) => (
+                      <div key={entry.id} className={entry.status === "REJECTED" ? "line-through" : ""}>
+                        {formatTime(entry.clockIn)}-{entry.clockOut ? formatTime(entry.clockOut) : "..."}
+                        {entry.flags.map((flag) => (
+                          <Badge key={flag} variant="warning" className="ml-1 px-1 py-0 text-[10px]">
+                            {FLAG_LABELS[flag]}
+                          </Badge>
+                        ))}
+                      </div>
+                    ))}
+                    {(day.scheduledHours > 0 || day.actualHours > 0) && (
+                      <div className="pt-1 border-t">
+                        {day.actualHours.toFixed(2)} / {day.scheduledHours.toFixed(2)}h
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
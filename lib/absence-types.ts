@@ -0,0 +1,211 @@
+/**
+ * Absence types
+ *
+ * Every absence is a HolidayRequest with a type. The type decides who can
+ * approve it, which balance (if any) it draws on and how it is paid:
+ *
+ * - HOLIDAY: annual leave from the holiday ledger, approved by a manager
+ * - SICK: reported rather than requested, so it is approved as soon as it is
+ *   recorded. Up to 7 days is self-certified; longer spells need a fit note.
+ * - TOIL: time off in lieu, drawn from hours worked over contract
+ * - UNPAID: approved by an admin and taken off salaried staff's pay
+ * - COMPASSIONATE: paid, approved by a manager
+ * - PARENTAL: approved by an admin. Salary stops for the hours taken and the
+ *   payroll provider pays the statutory amount instead.
+ *
+ * Hourly staff are only ever paid for hours worked, so for them absences are
+ * reported to payroll but never change gross pay.
+ */
+
+export const ABSENCE_TYPES = ["HOLIDAY", "SICK", "TOIL", "UNPAID", "COMPASSIONATE", "PARENTAL"] as const;
+export type AbsenceType = (typeof ABSENCE_TYPES)[number];
+
+export interface AbsenceTypeRules {
+  label: string;
+  // Lowest role that can approve it; null when it is approved as it is recorded
+  approver: "MANAGER" | "ADMIN" | null;
+  balance: "HOLIDAY" | "TOIL" | null;
+  pay: "PAID" | "UNPAID" | "STATUTORY";
+  payrollCode: string;
+}
+
+export const ABSENCE_TYPE_RULES: Record<AbsenceType, AbsenceTypeRules> = {
+  HOLIDAY: { label: "Holiday", approver: "MANAGER", balance: "HOLIDAY", pay: "PAID", payrollCode: "HOL" },
+  SICK: { label: "Sickness", approver: null, balance: null, pay: "PAID", payrollCode: "SICK" },
+  TOIL: { label: "Time off in lieu", approver: "MANAGER", balance: "TOIL", pay: "PAID", payrollCode: "TOIL" },
+  UNPAID: { label: "Unpaid leave", approver: "ADMIN", balance: null, pay: "UNPAID", payrollCode: "UNPD" },
+  COMPASSIONATE: { label: "Compassionate leave", approver: "MANAGER", balance: null, pay: "PAID", payrollCode: "COMP" },
+  PARENTAL: { label: "Parental leave", approver: "ADMIN", balance: null, pay: "STATUTORY", payrollCode: "PAR" },
+};
+
+export const SELF_CERTIFICATION_DAYS = 7;
+export const BRADFORD_WINDOW_WEEKS = 52;
+
+// Scores at which a Bradford Factor usually triggers each stage of review
+export const BRADFORD_THRESHOLDS = { WATCH: 51, REVIEW: 201, ACTION: 401 } as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKS_PER_YEAR = 52;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function isAbsenceType(value: unknown): value is AbsenceType {
+  return typeof value === "string" && (ABSENCE_TYPES as readonly string[]).includes(value);
+}
+
+export function getAbsenceRules(type: string): AbsenceTypeRules {
+  return isAbsenceType(type) ? ABSENCE_TYPE_RULES[type] : ABSENCE_TYPE_RULES.HOLIDAY;
+}
+
+export function getAbsenceLabel(type: string): string {
+  return getAbsenceRules(type).label;
+}
+
+/**
+ * Whether a role can approve or reject an absence of this type. Absences
+ * that need no approval can still be rejected by a manager.
+ */
+export function canApproveAbsence(type: string, role: string): boolean {
+  if (role === "ADMIN") return true;
+  return role === "MANAGER" && getAbsenceRules(type).approver !== "ADMIN";
+}
+
+/**
+ * Calendar days an absence covers. Dates are UTC midnight of the day chosen
+ * and the end date is inclusive.
+ */
+export function countAbsenceDays(startDate: Date, endDate: Date): number {
+  return Math.max(0, Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1);
+}
+
+// Sickness
+
+export type SicknessEvidence = "SELF_CERTIFICATION" | "FIT_NOTE";
+
+export function getSicknessEvidence(startDate: Date, endDate: Date): SicknessEvidence {
+  return countAbsenceDays(startDate, endDate) > SELF_CERTIFICATION_DAYS ? "FIT_NOTE" : "SELF_CERTIFICATION";
+}
+
+/**
+ * What is still missing from a sickness record, or null when nothing is
+ */
+export function getOutstandingEvidence(absence: {
+  type: string;
+  startDate: Date;
+  endDate: Date;
+  selfCertified: boolean;
+  documentUrl: string | null;
+}): string | null {
+  if (absence.type !== "SICK") return null;
+  if (getSicknessEvidence(absence.startDate, absence.endDate) === "FIT_NOTE") {
+    return absence.documentUrl ? null : "Fit note needed";
+  }
+  return absence.selfCertified || absence.documentUrl ? null : "Self-certification needed";
+}
+
+export interface AbsenceSpan {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Sickness within the window as separate spells. Records that run on from
+ * one another are one spell, so a week recorded a day at a time still
+ * counts once.
+ */
+export function getSicknessSpells(absences: AbsenceSpan[], windowStart: Date, windowEnd: Date): AbsenceSpan[] {
+  const clipped = absences
+    .filter((a) => a.startDate <= windowEnd && a.endDate >= windowStart)
+    .map((a) => ({
+      startDate: a.startDate < windowStart ? windowStart : a.startDate,
+      endDate: a.endDate > windowEnd ? windowEnd : a.endDate,
+    }))
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  const spells: AbsenceSpan[] = [];
+  for (const absence of clipped) {
+    const last = spells[spells.length - 1];
+    if (last && absence.startDate.getTime() <= last.endDate.getTime() + DAY_MS) {
+      if (absence.endDate > last.endDate) last.endDate = absence.endDate;
+    } else {
+      spells.push({ ...absence });
+    }
+  }
+  return spells;
+}
+
+/**
+ * Bradford Factor over the last 52 weeks: spells squared times total days.
+ * Frequent short absences score far higher than one long one.
+ */
+export function calculateBradfordFactor(
+  absences: AbsenceSpan[],
+  now: Date = new Date()
+): { spells: number; days: number; score: number } {
+  const today = new Date(`${now.toISOString().slice(0, 10)}T00:00:00Z`);
+  const windowStart = new Date(today.getTime() - (BRADFORD_WINDOW_WEEKS * 7 - 1) * DAY_MS);
+  const spells = getSicknessSpells(absences, windowStart, today);
+  const days = spells.reduce((sum, spell) => sum + countAbsenceDays(spell.startDate, spell.endDate), 0);
+  return { spells: spells.length, days, score: spells.length * spells.length * days };
+}
+
+export function getBradfordBand(score: number): { level: "WATCH" | "REVIEW" | "ACTION"; label: string } | null {
+  if (score >= BRADFORD_THRESHOLDS.ACTION) return { level: "ACTION", label: "Formal review" };
+  if (score >= BRADFORD_THRESHOLDS.REVIEW) return { level: "REVIEW", label: "Informal review" };
+  if (score >= BRADFORD_THRESHOLDS.WATCH) return { level: "WATCH", label: "Monitor" };
+  return null;
+}
+
+// Pay
+
+export interface PayrollAbsence {
+  userId: string;
+  type: string;
+  startDate: Date;
+  endDate: Date;
+  hours: number;
+}
+
+export interface AbsencePay {
+  type: string;
+  label: string;
+  payrollCode: string;
+  hours: number;
+  deduction: number;
+}
+
+/**
+ * The share of an absence's hours that falls in a pay period, spread evenly
+ * over the days it covers
+ */
+export function getAbsenceHoursInPeriod(absence: PayrollAbsence, periodStart: Date, periodEnd: Date): number {
+  const start = absence.startDate > periodStart ? absence.startDate : periodStart;
+  const end = absence.endDate < periodEnd ? absence.endDate : periodEnd;
+  if (end < start) return 0;
+  return round((absence.hours * countAbsenceDays(start, end)) / countAbsenceDays(absence.startDate, absence.endDate));
+}
+
+/**
+ * What an hour of a salaried contract is worth, or null without contracted
+ * hours to divide by
+ */
+export function getSalaryHourlyEquivalent(monthlySalary: number | null, contractedHours: number | null | undefined): number | null {
+  if (!monthlySalary || !contractedHours) return null;
+  return (monthlySalary * 12) / WEEKS_PER_YEAR / contractedHours;
+}
+
+// TOIL
+
+/**
+ * Monday of the week a local date falls in
+ */
+export function getWeekStart(localDate: string): string {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function calculateToilEarned(hoursWorked: number, contractedHours: number | null): number {
+  if (!contractedHours) return 0;
+  return Math.max(0, round(hoursWorked - contractedHours));
+}
@@ -0,0 +1,212 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getLocalTimeParts } from "@/lib/shift-conflicts";
+import { getTimeEntryHours } from "@/lib/payroll-run";
+import { addDaysToDateString, zonedTimeToUtc } from "@/lib/utils";
+import {
+  calculateToilEarned,
+  getAbsenceLabel,
+  getAbsenceRules,
+  getWeekStart,
+} from "@/lib/absence-types";
+import {
+  getAvailableHours,
+  getRequestLeaveYear,
+  recordRequestApproval,
+  recordRequestCancellation,
+  type LeaveSettings,
+  type LeaveStaff,
+} from "@/lib/holiday-entitlement";
+
+/**
+ * Absences
+ *
+ * The balance side of absence types (see lib/absence-types.ts). Holiday is
+ * kept in the holiday ledger; TOIL has its own ledger of ToilEntry rows,
+ * earned each week that a salaried member of staff's approved hours go over
+ * their contracted hours and spent by approved TOIL absences.
+ */
+
+// Weeks of TOIL re-checked each night, so late approvals and edits are caught
+const TOIL_LOOKBACK_WEEKS = 4;
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export async function getToilBalance(userId: string, db: Db = prisma): Promise<number> {
+  const result = await db.toilEntry.aggregate({
+    where: { userId },
+    _sum: { hours: true },
+  });
+  return round(result._sum.hours ?? 0);
+}
+
+/**
+ * Hours available for an absence that draws on a balance, and what to call
+ * that balance in an error. Null when the type has no balance or it can't
+ * be limited.
+ */
+export async function getAvailableAbsenceHours(
+  staff: LeaveStaff,
+  type: string,
+  startDate: Date,
+  settings: LeaveSettings
+): Promise<{ available: number; label: string } | null> {
+  const { balance } = getAbsenceRules(type);
+
+  if (balance === "HOLIDAY") {
+    const leaveYear = getRequestLeaveYear({ startDate }, settings);
+    const available = await getAvailableHours(staff, settings, leaveYear);
+    return available === null ? null : { available, label: `holiday balance for ${leaveYear.label}` };
+  }
+  if (balance === "TOIL") {
+    return { available: await getToilBalance(staff.id), label: "TOIL balance" };
+  }
+  return null;
+}
+
+/**
+ * Bring the TOIL earned in one week in line with the approved hours worked
+ * that week. Hourly staff are paid for extra hours instead, so earn none.
+ */
+export async function syncToilEarned(
+  staff: Pick<LeaveStaff, "id" | "paymentType" | "contractedHours">,
+  settings: LeaveSettings,
+  weekStart: string,
+  db: Db = prisma
+): Promise<number> {
+  const [timeEntries, earned] = await Promise.all([
+    staff.paymentType === "HOURLY"
+      ? Promise.resolve([])
+      : db.timeEntry.findMany({
+          where: {
+            userId: staff.id,
+            status: "APPROVED",
+            clockOut: { not: null },
+            clockIn: {
+              gte: zonedTimeToUtc(weekStart, "00:00", settings.timezone),
+              lt: zonedTimeToUtc(addDaysToDateString(weekStart, 7), "00:00", settings.timezone),
+            },
+          },
+          select: { clockIn: true, clockOut: true, totalBreak: true },
+        }),
+    db.toilEntry.aggregate({
+      where: { userId: staff.id, type: "EARNED", weekStart },
+      _sum: { hours: true },
+    }),
+  ]);
+
+  const worked = round(timeEntries.reduce((sum, entry) => sum + getTimeEntryHours(entry), 0));
+  const expected = staff.paymentType === "HOURLY" ? 0 : calculateToilEarned(worked, staff.contractedHours);
+  const already = round(earned._sum.hours ?? 0);
+  const difference = round(expected - already);
+  if (difference === 0) return 0;
+
+  await db.toilEntry.create({
+    data: {
+      userId: staff.id,
+      type: "EARNED",
+      hours: difference,
+      weekStart,
+      description:
+        already === 0
+          ? `${worked}h worked in the week of ${formatDay(weekStart)} against ${staff.contractedHours}h contracted`
+          : `TOIL corrected after hours in the week of ${formatDay(weekStart)} changed`,
+    },
+  });
+  return 1;
+}
+
+/**
+ * Sync TOIL for the last few completed weeks for everyone in the organization
+ */
+export async function updateToilBalances(organizationId: string, settings: LeaveSettings, now: Date) {
+  const thisWeek = getWeekStart(getLocalTimeParts(now, settings.timezone).date);
+  const weeks = Array.from({ length: TOIL_LOOKBACK_WEEKS }, (_, i) => addDaysToDateString(thisWeek, -7 * (i + 1)));
+
+  const staff = await prisma.user.findMany({
+    where: { organizationId },
+    select: { id: true, paymentType: true, contractedHours: true },
+  });
+
+  let toilEntries = 0;
+  for (const member of staff) {
+    for (const weekStart of weeks) {
+      toilEntries += await syncToilEarned(member, settings, weekStart);
+    }
+  }
+  return { toilEntries };
+}
+
+/**
+ * Take an approved absence from whichever balance its type draws on
+ */
+export async function recordAbsenceApproval(
+  request: { id: string; type: string; userId: string; hours: number; startDate: Date },
+  approvedById: string,
+  settings: LeaveSettings,
+  db: Db = prisma
+) {
+  const { balance } = getAbsenceRules(request.type);
+
+  if (balance === "HOLIDAY") {
+    await recordRequestApproval(request, approvedById, settings, db);
+  } else if (balance === "TOIL") {
+    await db.toilEntry.create({
+      data: {
+        userId: request.userId,
+        type: "TAKEN",
+        hours: -request.hours,
+        description: `${getAbsenceLabel(request.type)} from ${formatDay(request.startDate.toISOString().slice(0, 10))} approved`,
+        holidayRequestId: request.id,
+        createdById: approvedById,
+      },
+    });
+  }
+}
+
+/**
+ * Give back whatever an approved absence took from its balance. Safe to call
+ * more than once.
+ */
+export async function recordAbsenceCancellation(
+  request: { id: string; type: string; userId: string; startDate: Date },
+  cancelledById: string,
+  reason: string,
+  settings: LeaveSettings,
+  db: Db = prisma
+) {
+  const { balance } = getAbsenceRules(request.type);
+
+  if (balance === "HOLIDAY") {
+    await recordRequestCancellation(request, cancelledById, reason, settings, db);
+  } else if (balance === "TOIL") {
+    const taken = await db.toilEntry.aggregate({
+      where: { holidayRequestId: request.id, type: { in: ["TAKEN", "RETURNED"] } },
+      _sum: { hours: true },
+    });
+    const net = round(taken._sum.hours ?? 0);
+    if (net >= 0) return;
+
+    await db.toilEntry.create({
+      data: {
+        userId: request.userId,
+        type: "RETURNED",
+        hours: -net,
+        description: `${getAbsenceLabel(request.type)} from ${formatDay(request.startDate.toISOString().slice(0, 10))} ${reason}`,
+        holidayRequestId: request.id,
+        createdById: cancelledById,
+      },
+    });
+  }
+}
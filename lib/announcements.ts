@@ -0,0 +1,160 @@
+import { prisma } from "@/lib/db";
+import { safeJsonParse } from "@/lib/api-utils";
+
+/**
+ * Announcements
+ *
+ * Announcements target the whole organization, or are narrowed to locations
+ * and/or staff roles (a user must match both when both are set). They stay
+ * pinned until they expire. High priority announcements must be acknowledged
+ * by everyone they target.
+ */
+
+export const ANNOUNCEMENT_PRIORITY = {
+  NORMAL: 0,
+  IMPORTANT: 1,
+  HIGH: 2,
+} as const;
+
+export interface AnnouncementTargets {
+  locationIds: string[];
+  staffRoles: string[];
+}
+
+export interface AnnouncementAudience {
+  locationIds: string[];
+  staffRole: string;
+}
+
+export interface AcknowledgementReport {
+  acknowledged: { id: string; name: string; acknowledgedAt: Date }[];
+  outstanding: { id: string; name: string }[];
+}
+
+export function requiresAcknowledgement(priority: number): boolean {
+  return priority >= ANNOUNCEMENT_PRIORITY.HIGH;
+}
+
+export function parseTargets(announcement: {
+  targetLocationIds: string;
+  targetStaffRoles: string;
+}): AnnouncementTargets {
+  return {
+    locationIds: safeJsonParse<string[]>(announcement.targetLocationIds, []),
+    staffRoles: safeJsonParse<string[]>(announcement.targetStaffRoles, []),
+  };
+}
+
+export function isTargetedAt(targets: AnnouncementTargets, audience: AnnouncementAudience): boolean {
+  const locationMatch =
+    targets.locationIds.length === 0 ||
+    targets.locationIds.some((id) => audience.locationIds.includes(id));
+  const roleMatch =
+    targets.staffRoles.length === 0 || targets.staffRoles.includes(audience.staffRole);
+  return locationMatch && roleMatch;
+}
+
+function activeWhere(organizationId: string, now = new Date()) {
+  return {
+    organizationId,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+  };
+}
+
+async function getAudiences(organizationId: string, userIds?: string[]) {
+  const users = await prisma.user.findMany({
+    where: { organizationId, ...(userIds ? { id: { in: userIds } } : {}) },
+    select: {
+      id: true,
+      name: true,
+      staffRole: true,
+      primaryLocationId: true,
+      locationAccess: { select: { locationId: true } },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return users.map((user) => ({
+    id: user.id,
+    name: user.name,
+    audience: {
+      staffRole: user.staffRole,
+      locationIds: [
+        ...user.locationAccess.map((a) => a.locationId),
+        ...(user.primaryLocationId ? [user.primaryLocationId] : []),
+      ],
+    },
+  }));
+}
+
+/**
+ * Users an announcement is aimed at
+ */
+export async function getTargetedUsers(
+  organizationId: string,
+  targets: AnnouncementTargets
+): Promise<{ id: string; name: string }[]> {
+  const users = await getAudiences(organizationId);
+  return users
+    .filter((user) => isTargetedAt(targets, user.audience))
+    .map(({ id, name }) => ({ id, name }));
+}
+
+/**
+ * Unexpired announcements for a user, highest priority first, with whether
+ * they still need to acknowledge each one
+ */
+export async function getActiveAnnouncementsForUser(userId: string, organizationId: string) {
+  const [announcements, [user]] = await Promise.all([
+    prisma.announcement.findMany({
+      where: activeWhere(organizationId),
+      include: {
+        createdBy: { select: { name: true } },
+        acknowledgements: { where: { userId }, select: { acknowledgedAt: true } },
+      },
+      orderBy: [{ priority: "desc" }, { createdAt: "desc" }],
+    }),
+    getAudiences(organizationId, [userId]),
+  ]);
+
+  if (!user) return [];
+
+  return announcements
+    .filter((a) => a.createdById === userId || isTargetedAt(parseTargets(a), user.audience))
+    .map(({ acknowledgements, targetLocationIds, targetStaffRoles, ...announcement }) => ({
+      ...announcement,
+      ...parseTargets({ targetLocationIds, targetStaffRoles }),
+      requiresAcknowledgement: requiresAcknowledgement(announcement.priority),
+      acknowledgedAt: acknowledgements[0]?.acknowledgedAt ?? null,
+    }));
+}
+
+/**
+ * Who has and hasn't acknowledged an announcement, out of the people it targets
+ */
+export async function getAcknowledgementReport(announcement: {
+  id: string;
+  organizationId: string;
+  targetLocationIds: string;
+  targetStaffRoles: string;
+}): Promise<AcknowledgementReport> {
+  const [targeted, acknowledgements] = await Promise.all([
+    getTargetedUsers(announcement.organizationId, parseTargets(announcement)),
+    prisma.announcementAcknowledgement.findMany({
+      where: { announcementId: announcement.id },
+      include: { user: { select: { id: true, name: true } } },
+      orderBy: { acknowledgedAt: "asc" },
+    }),
+  ]);
+
+  const acknowledgedIds = new Set(acknowledgements.map((a) => a.userId));
+
+  return {
+    acknowledged: acknowledgements.map((a) => ({
+      id: a.user.id,
+      name: a.user.name,
+      acknowledgedAt: a.acknowledgedAt,
+    })),
+    outstanding: targeted.filter((user) => !acknowledgedIds.has(user.id)),
+  };
+}
@@ -0,0 +1,120 @@
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/db";
+
+/**
+ * Asset register
+ *
+ * Individual pieces of equipment at a location, each with its own
+ * inspection interval and manufacturer lifespan. Checks and work logs can
+ * be recorded against an asset; a check, or a completed inspection in the
+ * work log, counts as the asset's latest inspection.
+ */
+
+export type AssetStatus = "RETIRED" | "PAST_LIFESPAN" | "OVERDUE" | "DUE_SOON" | "OK";
+
+// Inspections due within this many days show as due soon
+export const ASSET_DUE_SOON_DAYS = 7;
+
+interface AssetSchedule {
+  inspectionIntervalDays: number | null;
+  lastInspectedAt: Date | null;
+  retirementDate: Date | null;
+  retiredAt: Date | null;
+  createdAt: Date;
+}
+
+export function generateAssetCode(): string {
+  return randomBytes(9).toString("base64url");
+}
+
+export function getAssetUrl(origin: string, code: string): string {
+  return `${origin}/dashboard/maintenance/assets/${code}`;
+}
+
+/**
+ * When the next inspection is due. An asset that has never been inspected
+ * is due from the day it was added to the register.
+ */
+export function getNextInspectionDue(asset: AssetSchedule): Date | null {
+  if (!asset.inspectionIntervalDays) return null;
+  if (!asset.lastInspectedAt) return asset.createdAt;
+
+  const due = new Date(asset.lastInspectedAt);
+  due.setDate(due.getDate() + asset.inspectionIntervalDays);
+  return due;
+}
+
+/**
+ * Where an asset stands. Being past its lifespan outranks an overdue
+ * inspection: no inspection makes it fit to use again.
+ */
+export function getAssetStatus(asset: AssetSchedule, now = new Date()): AssetStatus {
+  if (asset.retiredAt) return "RETIRED";
+  if (asset.retirementDate && asset.retirementDate <= now) return "PAST_LIFESPAN";
+
+  const due = getNextInspectionDue(asset);
+  if (!due) return "OK";
+  if (due <= now) return "OVERDUE";
+
+  const soon = new Date(now);
+  soon.setDate(soon.getDate() + ASSET_DUE_SOON_DAYS);
+  return due <= soon ? "DUE_SOON" : "OK";
+}
+
+export function needsAttention(status: AssetStatus): boolean {
+  return status === "PAST_LIFESPAN" || status === "OVERDUE" || status === "DUE_SOON";
+}
+
+/**
+ * Add the computed schedule to assets loaded from the database
+ */
+export function withAssetStatus<T extends AssetSchedule>(asset: T, now = new Date()) {
+  return {
+    ...asset,
+    status: getAssetStatus(asset, now),
+    nextInspectionDue: getNextInspectionDue(asset),
+  };
+}
+
+// An asset with its inspection and work history, newest first
+export const assetHistoryInclude = {
+  location: { select: { id: true, name: true } },
+  logs: {
+    select: {
+      id: true,
+      status: true,
+      notes: true,
+      checkDate: true,
+      signature: true,
+      checkType: { select: { name: true } },
+    },
+    orderBy: { checkDate: "desc" as const },
+    take: 100,
+  },
+  workLogs: {
+    select: {
+      id: true,
+      title: true,
+      category: true,
+      status: true,
+      completedBy: true,
+      completedAt: true,
+    },
+    orderBy: { completedAt: "desc" as const },
+    take: 100,
+  },
+};
+
+/**
+ * Record an inspection, keeping the latest date if an older one is logged
+ * late
+ */
+export async function recordAssetInspection(assetId: string, inspectedAt: Date) {
+  await prisma.maintenanceAsset.updateMany({
+    where: {
+      id: assetId,
+      OR: [{ lastInspectedAt: null }, { lastInspectedAt: { lt: inspectedAt } }],
+    },
+    data: { lastInspectedAt: inspectedAt },
+  });
+}
@@ -18,7 +18,16 @@ export type ImportantAuditAction =
   | "COMPLIANCE_REVIEW_COMPLETED"
   | "USER_ROLE_CHANGED"
   | "SHIFT_ASSIGNED"
-  | "SHIFT_DELETED";
+  | "SHIFT_DELETED"
+  | "SHIFT_CONFLICT_OVERRIDDEN"
+  | "ROTA_PUBLISHED"
+  | "ROTA_COPIED"
+  | "PAYROLL_RUN_GENERATED"
+  | "PAYROLL_RUN_SIGNED_OFF"
+  | "PAYROLL_ADJUSTMENT_RECORDED"
+  | "HOLIDAY_BALANCE_ADJUSTED"
+  | "TIMESHEET_APPROVED"
+  | "TIMESHEET_QUERIED";
 
 // Legacy actions (for backwards compatibility)
 export type LegacyAuditAction =
@@ -131,5 +140,10 @@ function inferResourceType(action: AuditAction): string {
   if (action.startsWith("USER")) return "User";
   if (action.startsWith("SHIFT")) return "Shift";
   if (action.startsWith("LOCATION")) return "Location";
+  if (action.startsWith("ROTA")) return "RotaPublication";
+  if (action.startsWith("PAYROLL_ADJUSTMENT")) return "PayrollAdjustment";
+  if (action.startsWith("PAYROLL")) return "PayrollRun";
+  if (action.startsWith("HOLIDAY_BALANCE")) return "HolidayLedgerEntry";
+  if (action.startsWith("TIMESHEET")) return "Timesheet";
   return "Unknown";
 }
@@ -0,0 +1,58 @@
+import { prisma } from "@/lib/db";
+
+export interface BreakRule {
+  minHours: number;
+  breakMinutes: number;
+}
+
+/**
+ * Calculate the scheduled break for a shift from a JSON array of break rules
+ * Uses the rule with the highest minHours that the shift duration meets
+ */
+export function calculateScheduledBreak(startTime: Date, endTime: Date, breakRulesJson: string): number {
+  try {
+    const breakRules: BreakRule[] = JSON.parse(breakRulesJson);
+    const durationMs = endTime.getTime() - startTime.getTime();
+    const durationHours = durationMs / (1000 * 60 * 60);
+
+    // Find applicable break rule (use the one with highest minHours that's <= duration)
+    const applicableRule = breakRules
+      .filter((r) => durationHours >= r.minHours)
+      .sort((a, b) => b.minHours - a.minHours)[0];
+
+    return applicableRule?.breakMinutes || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Get break rules JSON: location-specific if set, otherwise organization defaults
+ */
+export async function getBreakRulesJson(
+  organizationId: string,
+  locationId?: string | null
+): Promise<string> {
+  let breakRulesJson = "[]";
+
+  if (locationId) {
+    const location = await prisma.location.findUnique({
+      where: { id: locationId },
+      select: { breakRules: true },
+    });
+    if (location?.breakRules) {
+      breakRulesJson = location.breakRules;
+    }
+  }
+
+  // Fall back to organization break rules if location doesn't have custom rules
+  if (breakRulesJson === "[]") {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { breakRules: true },
+    });
+    breakRulesJson = organization?.breakRules || "[]";
+  }
+
+  return breakRulesJson;
+}
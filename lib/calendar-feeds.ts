@@ -0,0 +1,229 @@
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/db";
+import { buildIcsCalendar, type IcsEvent } from "@/lib/ics";
+import { getAbsenceLabel } from "@/lib/absence-types";
+
+/**
+ * Calendar feeds
+ *
+ * USER feeds cover a person's published shifts and approved absences.
+ * LOCATION feeds cover events at the location (and org-wide events) plus
+ * published open shifts. UIDs are derived from record IDs so calendar apps
+ * update entries in place when a shift moves.
+ */
+
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface FeedLocation {
+  name: string;
+  address: string | null;
+}
+
+interface FeedShift {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  updatedAt: Date;
+  handoverNotes: string | null;
+  category: { name: string } | null;
+  location: FeedLocation | null;
+  segments: { startTime: Date; endTime: Date; category: { name: string } }[];
+}
+
+export function generateFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+function formatLocation(location: FeedLocation | null): string | undefined {
+  if (!location) return undefined;
+  return location.address ? `${location.name}, ${location.address}` : location.name;
+}
+
+function formatTime(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone });
+}
+
+/**
+ * Description for a shift: category, segment breakdown, address and handover notes
+ */
+export function describeShift(shift: FeedShift, timeZone: string): string {
+  const lines: string[] = [];
+
+  if (shift.category) {
+    lines.push(shift.category.name);
+  }
+
+  if (shift.segments.length > 0) {
+    lines.push(
+      "",
+      "Segments:",
+      ...[...shift.segments]
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+        .map((s) => `${formatTime(s.startTime, timeZone)}-${formatTime(s.endTime, timeZone)} ${s.category.name}`)
+    );
+  }
+
+  if (shift.location?.address) {
+    lines.push("", `Address: ${shift.location.address}`);
+  }
+
+  if (shift.handoverNotes) {
+    lines.push("", "Handover notes:", shift.handoverNotes);
+  }
+
+  return lines.join("\n").trim();
+}
+
+function shiftToIcsEvent(shift: FeedShift, timeZone: string, summary: string): IcsEvent {
+  return {
+    uid: `shift-${shift.id}@shiftflow`,
+    summary,
+    start: shift.startTime,
+    end: shift.endTime,
+    description: describeShift(shift, timeZone) || undefined,
+    location: formatLocation(shift.location),
+    lastModified: shift.updatedAt,
+  };
+}
+
+const shiftInclude = {
+  category: { select: { name: true } },
+  location: { select: { name: true, address: true } },
+  segments: {
+    select: { startTime: true, endTime: true, category: { select: { name: true } } },
+  },
+} as const;
+
+function getFeedWindow() {
+  const now = Date.now();
+  return {
+    from: new Date(now - FEED_PAST_DAYS * DAY_MS),
+    to: new Date(now + FEED_FUTURE_DAYS * DAY_MS),
+  };
+}
+
+async function getTimeZone(organizationId: string): Promise<string> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+  return organization?.timezone || "UTC";
+}
+
+export async function buildUserFeed(organizationId: string, userId: string): Promise<string> {
+  const { from, to } = getFeedWindow();
+
+  const [timeZone, user, shifts, holidays] = await Promise.all([
+    getTimeZone(organizationId),
+    prisma.user.findUnique({ where: { id: userId }, select: { name: true } }),
+    prisma.shift.findMany({
+      where: {
+        organizationId,
+        assignedToId: userId,
+        status: { not: "DRAFT" },
+        startTime: { gte: from, lt: to },
+      },
+      include: shiftInclude,
+      orderBy: { startTime: "asc" },
+    }),
+    prisma.holidayRequest.findMany({
+      where: {
+        userId,
+        status: "APPROVED",
+        endDate: { gte: from },
+        startDate: { lt: to },
+      },
+      orderBy: { startDate: "asc" },
+    }),
+  ]);
+
+  const events: IcsEvent[] = [
+    ...shifts.map((shift) => shiftToIcsEvent(shift, timeZone, shift.title)),
+    ...holidays.map((holiday) => ({
+      uid: `holiday-${holiday.id}@shiftflow`,
+      summary: getAbsenceLabel(holiday.type),
+      start: holiday.startDate,
+      // Holiday end dates are inclusive; all-day DTEND is exclusive
+      end: new Date(holiday.endDate.getTime() + DAY_MS),
+      allDay: true,
+      // Calendars get shared, so the reason for sickness stays out of them
+      description: holiday.type === "SICK" ? undefined : holiday.reason || undefined,
+      lastModified: holiday.updatedAt,
+    })),
+  ];
+
+  return buildIcsCalendar({
+    name: `${user?.name || "My"} shifts`,
+    events,
+    timeZone,
+  });
+}
+
+export async function buildLocationFeed(organizationId: string, locationId: string): Promise<string> {
+  const { from, to } = getFeedWindow();
+
+  const [timeZone, location, events, openShifts] = await Promise.all([
+    getTimeZone(organizationId),
+    prisma.location.findUnique({ where: { id: locationId }, select: { name: true, address: true } }),
+    prisma.event.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        OR: [{ locationId }, { locationId: null }],
+        endTime: { gte: from },
+        startTime: { lt: to },
+      },
+      include: { location: { select: { name: true, address: true } } },
+      orderBy: { startTime: "asc" },
+    }),
+    prisma.shift.findMany({
+      where: {
+        organizationId,
+        locationId,
+        isOpen: true,
+        status: { not: "DRAFT" },
+        startTime: { gte: from, lt: to },
+      },
+      include: shiftInclude,
+      orderBy: { startTime: "asc" },
+    }),
+  ]);
+
+  const icsEvents: IcsEvent[] = [
+    ...events.map((event) => {
+      const details = [
+        event.description,
+        event.expectedGuests ? `Expected guests: ${event.expectedGuests}` : null,
+        event.staffRequired ? `Extra staff needed: ${event.staffRequired}` : null,
+      ].filter(Boolean);
+
+      return {
+        uid: `event-${event.id}@shiftflow`,
+        summary: event.title,
+        start: event.startTime,
+        end: event.endTime,
+        description: details.join("\n") || undefined,
+        location: formatLocation(event.location || location),
+        lastModified: event.updatedAt,
+      };
+    }),
+    ...openShifts.map((shift) => shiftToIcsEvent(shift, timeZone, `Open shift: ${shift.title}`)),
+  ];
+
+  return buildIcsCalendar({
+    name: `${location?.name || "Location"} events`,
+    events: icsEvents,
+    timeZone,
+  });
+}
+
+/**
+ * Subscription URLs for a feed token. webcal:// opens straight into calendar apps.
+ */
+export function getFeedUrls(origin: string, token: string): { url: string; webcalUrl: string } {
+  const url = `${origin}/api/calendar/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, "webcal://") };
+}
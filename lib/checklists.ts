@@ -0,0 +1,178 @@
+/**
+ * Maintenance checklists
+ *
+ * A check type can carry a checklist of yes/no questions, numeric readings
+ * with an acceptable range, and photos. Follow-up items only appear when
+ * an earlier answer calls for them. Any answer outside what is expected
+ * sets the check's overall status, so nobody can pass a check with a
+ * failed reading.
+ *
+ * Pure functions only, so the check form can evaluate answers as they're
+ * given.
+ */
+
+export type ChecklistItemType = "YES_NO" | "NUMBER" | "PHOTO";
+export type CheckStatus = "PASS" | "NEEDS_ATTENTION" | "FAIL";
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  type: ChecklistItemType;
+  required: boolean;
+  expected?: "yes" | "no" | null;         // YES_NO: the answer that passes
+  min?: number | null;                    // NUMBER: acceptable range
+  max?: number | null;
+  unit?: string | null;
+  failStatus: "NEEDS_ATTENTION" | "FAIL"; // Status when the answer is out of range
+  showIf?: {                              // Follow-up to an earlier item
+    itemId: string;
+    when: "yes" | "no" | "out_of_range";
+  } | null;
+}
+
+export interface ChecklistAnswer {
+  itemId: string;
+  answer?: "yes" | "no" | null;
+  reading?: number | null;
+  photoUrl?: string | null;
+}
+
+export interface ChecklistResult {
+  item: ChecklistItem;
+  answer: ChecklistAnswer;
+  outOfRange: boolean;
+}
+
+const STATUS_ORDER: CheckStatus[] = ["PASS", "NEEDS_ATTENTION", "FAIL"];
+
+export function parseChecklist(json: string | null | undefined): ChecklistItem[] {
+  if (!json) return [];
+  try {
+    const items = JSON.parse(json);
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
+
+export function worstStatus(...statuses: CheckStatus[]): CheckStatus {
+  return statuses.reduce(
+    (worst, status) => (STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst) ? status : worst),
+    "PASS" as CheckStatus
+  );
+}
+
+export function describeRange(item: Pick<ChecklistItem, "min" | "max" | "unit">): string | null {
+  const unit = item.unit ? ` ${item.unit}` : "";
+  const hasMin = item.min !== null && item.min !== undefined;
+  const hasMax = item.max !== null && item.max !== undefined;
+  if (hasMin && hasMax) return `${item.min}–${item.max}${unit}`;
+  if (hasMin) return `at least ${item.min}${unit}`;
+  if (hasMax) return `at most ${item.max}${unit}`;
+  return null;
+}
+
+export function isAnswered(item: ChecklistItem, answer: ChecklistAnswer | undefined): boolean {
+  if (!answer) return false;
+  switch (item.type) {
+    case "YES_NO":
+      return answer.answer === "yes" || answer.answer === "no";
+    case "NUMBER":
+      return typeof answer.reading === "number" && Number.isFinite(answer.reading);
+    case "PHOTO":
+      return !!answer.photoUrl;
+  }
+}
+
+export function isOutOfRange(item: ChecklistItem, answer: ChecklistAnswer | undefined): boolean {
+  if (!answer || !isAnswered(item, answer)) return false;
+  switch (item.type) {
+    case "YES_NO":
+      return !!item.expected && answer.answer !== item.expected;
+    case "NUMBER": {
+      const reading = answer.reading as number;
+      return (
+        (item.min !== null && item.min !== undefined && reading < item.min) ||
+        (item.max !== null && item.max !== undefined && reading > item.max)
+      );
+    }
+    case "PHOTO":
+      return false;
+  }
+}
+
+/**
+ * Whether an item is asked. A follow-up is only asked when the item it
+ * follows is asked and answered the way it's waiting for.
+ */
+export function isItemShown(
+  item: ChecklistItem,
+  items: ChecklistItem[],
+  answers: ChecklistAnswer[]
+): boolean {
+  if (!item.showIf) return true;
+
+  const parent = items.find((i) => i.id === item.showIf?.itemId);
+  if (!parent || !isItemShown(parent, items, answers)) return false;
+
+  const answer = answers.find((a) => a.itemId === parent.id);
+  if (item.showIf.when === "out_of_range") return isOutOfRange(parent, answer);
+  return parent.type === "YES_NO" && answer?.answer === item.showIf.when;
+}
+
+function describeIssue(item: ChecklistItem, answer: ChecklistAnswer): string {
+  if (item.type === "NUMBER") {
+    const unit = item.unit ? ` ${item.unit}` : "";
+    return `${item.label}: ${answer.reading}${unit} (expected ${describeRange(item)})`;
+  }
+  return `${item.label}: ${answer.answer}`;
+}
+
+/**
+ * Work out a check's status from its checklist answers. Out-of-range
+ * answers become issues, which raise defects like any other flagged check.
+ */
+export function evaluateChecklist(items: ChecklistItem[], answers: ChecklistAnswer[]) {
+  const results: ChecklistResult[] = [];
+  const missing: string[] = [];
+  const issues: string[] = [];
+  let status: CheckStatus = "PASS";
+
+  for (const item of items) {
+    if (!isItemShown(item, items, answers)) continue;
+
+    const answer = answers.find((a) => a.itemId === item.id);
+    if (!answer || !isAnswered(item, answer)) {
+      if (item.required) missing.push(item.label);
+      continue;
+    }
+
+    const outOfRange = isOutOfRange(item, answer);
+    if (outOfRange) {
+      status = worstStatus(status, item.failStatus);
+      issues.push(describeIssue(item, answer));
+    }
+    results.push({ item, answer, outOfRange });
+  }
+
+  return { status, results, missing, issues };
+}
+
+/**
+ * Summary of an item's readings over time, for trends
+ */
+export function summarizeReadings(readings: { reading: number | null; outOfRange: boolean }[]) {
+  const values = readings
+    .map((r) => r.reading)
+    .filter((value): value is number => typeof value === "number");
+
+  return {
+    count: readings.length,
+    outOfRange: readings.filter((r) => r.outOfRange).length,
+    min: values.length > 0 ? Math.min(...values) : null,
+    max: values.length > 0 ? Math.max(...values) : null,
+    average: values.length > 0
+      ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+      : null,
+  };
+}
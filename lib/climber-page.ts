@@ -0,0 +1,123 @@
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/db";
+import { NotFoundError, ValidationError } from "@/lib/errors";
+import { OPEN_DEFECT_STATUSES, reportDefect } from "@/lib/defects";
+import { getGradeOptions, getProblemLabel, ROUTE_PROBLEMS } from "@/lib/route-feedback";
+
+/**
+ * Public climber page
+ *
+ * Each location can have a page climbers reach from QR codes on the walls,
+ * without logging in. The code in its URL is the only thing that ties it to
+ * the location; regenerating it retires the old QR codes. Climbers are
+ * identified only by a random ID their browser keeps, so each can leave one
+ * rating and grade per route and change it later.
+ */
+
+export function generateClimberPageCode(): string {
+  return randomBytes(12).toString("base64url");
+}
+
+export function getClimberPageUrl(origin: string, code: string, sectorId?: string | null): string {
+  return `${origin}/climb/${code}${sectorId ? `?sector=${sectorId}` : ""}`;
+}
+
+/**
+ * Find an active location from its climber page code
+ */
+export async function getClimberPageLocation(code: string) {
+  const location = await prisma.location.findUnique({
+    where: { climberPageCode: code },
+    select: { id: true, name: true, isActive: true, organizationId: true },
+  });
+
+  if (!location || !location.isActive) {
+    throw new NotFoundError("Page not found");
+  }
+  return location;
+}
+
+async function getRouteUp(location: { id: string; organizationId: string }, routeId: string) {
+  const route = await prisma.climbingRoute.findFirst({
+    where: { id: routeId, locationId: location.id, organizationId: location.organizationId, strippedAt: null },
+    select: { id: true, grade: true, color: true, sector: { select: { name: true } } },
+  });
+  if (!route) {
+    throw new NotFoundError("Route not found");
+  }
+  return route;
+}
+
+/**
+ * Save a climber's rating and grade for a route, replacing what they said
+ * before
+ */
+export async function saveRouteFeedback(
+  location: { id: string; organizationId: string },
+  data: {
+    climberId: string;
+    routeId: string;
+    rating?: number | null;
+    suggestedGrade?: string | null;
+    comment?: string | null;
+  }
+) {
+  const route = await getRouteUp(location, data.routeId);
+
+  if (data.suggestedGrade && !getGradeOptions(route.grade).includes(data.suggestedGrade)) {
+    throw new ValidationError("Choose a grade from the list");
+  }
+
+  const feedback = {
+    rating: data.rating || null,
+    suggestedGrade: data.suggestedGrade || null,
+    comment: data.comment || null,
+  };
+
+  return prisma.routeFeedback.upsert({
+    where: { routeId_climberId: { routeId: route.id, climberId: data.climberId } },
+    create: { ...feedback, climberId: data.climberId, routeId: route.id, organizationId: location.organizationId },
+    update: feedback,
+  });
+}
+
+/**
+ * Turn a climber's problem report into a maintenance defect on the route.
+ * Several climbers often report the same spinning hold, so a report that
+ * matches a defect still open on the route adds nothing new.
+ */
+export async function reportRouteProblem(
+  location: { id: string; organizationId: string },
+  data: { routeId: string; problem: string; details?: string | null },
+  now = new Date()
+) {
+  const route = await getRouteUp(location, data.routeId);
+  const problem = ROUTE_PROBLEMS.find((p) => p.value === data.problem);
+  if (!problem) {
+    throw new ValidationError("Choose what the problem is");
+  }
+
+  const title = `${route.color} ${route.grade} in ${route.sector.name}: ${getProblemLabel(problem.value)}`;
+
+  const existing = await prisma.maintenanceDefect.findFirst({
+    where: { routeId: route.id, title, status: { in: OPEN_DEFECT_STATUSES } },
+  });
+  if (existing) {
+    return { defect: existing, duplicate: true };
+  }
+
+  const defect = await reportDefect(
+    location.organizationId,
+    null,
+    {
+      title,
+      description: data.details ? `Reported by a climber: ${data.details}` : "Reported by a climber",
+      severity: problem.severity,
+      area: route.sector.name,
+      locationId: location.id,
+      routeId: route.id,
+    },
+    now
+  );
+  return { defect, duplicate: false };
+}
@@ -0,0 +1,304 @@
+import { prisma } from "@/lib/db";
+import { AppError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors";
+import { EARLY_CLOCK_IN_MINUTES, LATE_CLOCK_IN_MINUTES, getBreakMinutes, type BreakType } from "@/lib/timesheets";
+
+/**
+ * Clocking in and out, and breaks in between
+ *
+ * Shared by staff on their own phones and by front-desk kiosks. Either way
+ * the shift is matched the same way and early or late punches are flagged
+ * for a manager to approve. Geolocation is only checked on phones; a kiosk
+ * is already fixed to its location, so only shifts there are matched.
+ */
+
+export type ClockInFlag = "EARLY" | "LATE";
+
+export interface ClockInRequest {
+  userId: string;
+  organizationId: string;
+  shiftId?: string | null;
+  latitude?: number;
+  longitude?: number;
+  // Set when clocking in on a kiosk
+  kiosk?: {
+    id: string;
+    locationId: string;
+    photoUrl?: string | null;
+  };
+}
+
+export function getDistanceMetres(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000; // Earth's radius in metres
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
+            Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+            Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+}
+
+/**
+ * Flag a clock-in more than EARLY_CLOCK_IN_MINUTES before the shift starts
+ * or more than LATE_CLOCK_IN_MINUTES after
+ */
+export function getClockInFlag(shiftStart: Date, now: Date): ClockInFlag | null {
+  const minutesBeforeShift = (shiftStart.getTime() - now.getTime()) / (60 * 1000);
+  if (minutesBeforeShift > EARLY_CLOCK_IN_MINUTES) return "EARLY";
+  if (-minutesBeforeShift > LATE_CLOCK_IN_MINUTES) return "LATE";
+  return null;
+}
+
+export function getClockInFlagReason(flag: string | null): string | null {
+  if (flag === "EARLY") {
+    return `You clocked in more than ${EARLY_CLOCK_IN_MINUTES} minutes early. This requires manager approval.`;
+  }
+  if (flag === "LATE") {
+    return `You clocked in more than ${LATE_CLOCK_IN_MINUTES} minutes late. This requires manager approval.`;
+  }
+  return null;
+}
+
+const shiftLocationSelect = {
+  select: {
+    id: true,
+    name: true,
+    latitude: true,
+    longitude: true,
+    clockInRadiusMetres: true,
+  },
+};
+
+/**
+ * Clock someone in to their shift. Without a shift ID their next scheduled
+ * shift is used.
+ */
+export async function clockIn(request: ClockInRequest, now = new Date()) {
+  const { userId, organizationId, shiftId, latitude, longitude, kiosk } = request;
+
+  const activeEntry = await prisma.timeEntry.findFirst({
+    where: { userId, clockOut: null },
+  });
+  if (activeEntry) {
+    throw new ValidationError("Already clocked in");
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: {
+      clockInWindowMinutes: true,
+      requireGeolocation: true,
+    },
+  });
+
+  const clockInWindowMinutes = organization?.clockInWindowMinutes ?? 15;
+
+  let targetShift;
+  if (shiftId) {
+    targetShift = await prisma.shift.findUnique({
+      where: { id: shiftId },
+      include: { location: shiftLocationSelect },
+    });
+
+    if (!targetShift) {
+      throw new NotFoundError("Shift not found");
+    }
+    if (targetShift.assignedToId !== userId) {
+      throw new ForbiddenError("This shift is not assigned to you");
+    }
+    // Drafts aren't on the published rota yet
+    if (targetShift.status !== "SCHEDULED") {
+      throw new AppError("This shift hasn't been published yet", 400, "NO_SHIFT");
+    }
+  } else {
+    targetShift = await prisma.shift.findFirst({
+      where: {
+        assignedToId: userId,
+        status: "SCHEDULED",
+        ...(kiosk ? { locationId: kiosk.locationId } : {}),
+        startTime: {
+          gte: new Date(now.getTime() - clockInWindowMinutes * 60 * 1000),
+          lte: new Date(now.getTime() + 24 * 60 * 60 * 1000),
+        },
+      },
+      include: { location: shiftLocationSelect },
+      orderBy: { startTime: "asc" },
+    });
+  }
+
+  if (!targetShift) {
+    throw new AppError(
+      kiosk
+        ? "No shift found here. You can only clock in when you have a scheduled shift at this location."
+        : "No shift found. You can only clock in when you have a scheduled shift.",
+      400,
+      "NO_SHIFT"
+    );
+  }
+
+  if (now > targetShift.endTime) {
+    throw new AppError("This shift has already ended. Please contact your manager.", 400, "SHIFT_ENDED");
+  }
+
+  const clockInFlag = getClockInFlag(targetShift.startTime, now);
+
+  // Validate geolocation against the shift's location (if configured)
+  if (!kiosk && organization?.requireGeolocation && targetShift.location) {
+    const location = targetShift.location;
+
+    if (location.latitude !== null && location.longitude !== null) {
+      if (latitude === undefined || longitude === undefined) {
+        throw new AppError("Please enable location services to clock in", 400, "LOCATION_REQUIRED");
+      }
+
+      const distance = getDistanceMetres(latitude, longitude, location.latitude, location.longitude);
+      const radius = location.clockInRadiusMetres || 100;
+      if (distance > radius) {
+        throw new AppError(
+          `You must be within ${radius}m of ${location.name} to clock in. You are currently ${Math.round(distance)}m away.`,
+          400,
+          "TOO_FAR"
+        );
+      }
+    }
+  }
+
+  const timeEntry = await prisma.timeEntry.create({
+    data: {
+      userId,
+      shiftId: targetShift.id,
+      clockIn: now,
+      clockInLatitude: latitude ?? null,
+      clockInLongitude: longitude ?? null,
+      clockInFlag,
+      clockInApproved: clockInFlag === null,
+      kioskDeviceId: kiosk?.id ?? null,
+      clockInPhotoUrl: kiosk?.photoUrl ?? null,
+    },
+  });
+
+  return {
+    ...timeEntry,
+    requiresApproval: clockInFlag !== null,
+    flagReason: getClockInFlagReason(clockInFlag),
+  };
+}
+
+/**
+ * Clock someone out of their open time entry. Clocking out well after the
+ * shift ended comes back with a warning rather than an error.
+ */
+export async function clockOut(userId: string, timeEntryId?: string | null, now = new Date()) {
+  const timeEntry = await prisma.timeEntry.findFirst({
+    where: {
+      ...(timeEntryId ? { id: timeEntryId } : {}),
+      userId,
+      clockOut: null,
+    },
+  });
+
+  if (!timeEntry) {
+    throw new ValidationError("No active time entry found");
+  }
+
+  // Can't clock out while on break
+  if (timeEntry.breakStart) {
+    throw new ValidationError("End your break before clocking out");
+  }
+
+  let warning: string | null = null;
+
+  // Check if clocking out late (after grace period)
+  if (timeEntry.shiftId) {
+    const shift = await prisma.shift.findUnique({
+      where: { id: timeEntry.shiftId },
+      include: {
+        organization: {
+          select: { clockOutGraceMinutes: true },
+        },
+      },
+    });
+
+    if (shift) {
+      const clockOutGraceMinutes = shift.organization.clockOutGraceMinutes;
+      const latestClockOut = new Date(shift.endTime.getTime() + clockOutGraceMinutes * 60 * 1000);
+
+      if (now > latestClockOut) {
+        warning = `You are clocking out more than ${clockOutGraceMinutes} minutes after your shift ended. This may be flagged for manager review.`;
+      }
+    }
+  }
+
+  const updatedEntry = await prisma.timeEntry.update({
+    where: { id: timeEntry.id },
+    data: {
+      clockOut: now,
+    },
+  });
+
+  return { ...updatedEntry, warning };
+}
+
+const breakEntryInclude = {
+  shift: { select: { id: true, title: true } },
+  breaks: { orderBy: { startTime: "asc" as const } },
+};
+
+/**
+ * Start or end a break on someone's open time entry. Each break is kept, and
+ * unpaid minutes are added to the entry's totalBreak as each break ends.
+ */
+export async function recordBreak(
+  userId: string,
+  timeEntryId: string,
+  action: "start" | "end",
+  type: BreakType = "UNPAID",
+  now = new Date()
+) {
+  const timeEntry = await prisma.timeEntry.findFirst({
+    where: { id: timeEntryId, userId, clockOut: null },
+    include: { breaks: true },
+  });
+  if (!timeEntry) {
+    throw new ValidationError("No active time entry found");
+  }
+
+  const openBreak = timeEntry.breaks.find((b) => !b.endTime);
+
+  if (action === "start") {
+    if (openBreak || timeEntry.breakStart) {
+      throw new ValidationError("Already on break");
+    }
+
+    return prisma.timeEntry.update({
+      where: { id: timeEntry.id },
+      data: {
+        breakStart: now,
+        breaks: { create: { type, startTime: now } },
+      },
+      include: breakEntryInclude,
+    });
+  }
+
+  // A break started before breaks were recorded separately only has
+  // breakStart, so it becomes an unpaid break record as it ends
+  const ending = openBreak ?? (timeEntry.breakStart ? { type: "UNPAID", startTime: timeEntry.breakStart } : null);
+  if (!ending) {
+    throw new ValidationError("Not on break");
+  }
+
+  const minutes = getBreakMinutes({ ...ending, endTime: now });
+
+  return prisma.timeEntry.update({
+    where: { id: timeEntry.id },
+    data: {
+      breakStart: null,
+      // Added on, so break minutes from before break records are kept
+      totalBreak: timeEntry.totalBreak + (ending.type === "PAID" ? 0 : minutes),
+      breaks: openBreak
+        ? { update: { where: { id: openBreak.id }, data: { endTime: now } } }
+        : { create: { type: "UNPAID", startTime: ending.startTime, endTime: now } },
+    },
+    include: breakEntryInclude,
+  });
+}
@@ -0,0 +1,389 @@
+import { prisma } from "@/lib/db";
+import { ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors";
+import { dispatchNotifications } from "@/lib/notifications";
+
+/**
+ * Maintenance defects
+ *
+ * A failed or flagged check raises a defect for each issue it lists, which
+ * is then worked as a work order:
+ *
+ *   OPEN -> ASSIGNED -> IN_PROGRESS -> RESOLVED -> VERIFIED
+ *
+ * Resolving links the MaintenanceWorkLog for the fix. Severity sets the
+ * due-by date. Critical defects are safety-critical: they can put the wall
+ * or equipment area out of service until the fix is verified, and have to
+ * be verified by someone other than whoever resolved them.
+ */
+
+export type DefectStatus = "OPEN" | "ASSIGNED" | "IN_PROGRESS" | "RESOLVED" | "VERIFIED";
+export type DefectSeverity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+export type DefectAction = "assign" | "start" | "resolve" | "verify" | "reopen";
+
+export const DEFECT_STATUSES: DefectStatus[] = ["OPEN", "ASSIGNED", "IN_PROGRESS", "RESOLVED", "VERIFIED"];
+export const DEFECT_SEVERITIES: DefectSeverity[] = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+// Still needing work; resolved defects are waiting on verification only
+export const OPEN_DEFECT_STATUSES: DefectStatus[] = ["OPEN", "ASSIGNED", "IN_PROGRESS"];
+
+// Hours to fix a defect of each severity
+export const DEFECT_SLA_HOURS: Record<DefectSeverity, number> = {
+  CRITICAL: 24,
+  HIGH: 72,
+  MEDIUM: 7 * 24,
+  LOW: 30 * 24,
+};
+
+const TRANSITIONS: Record<DefectAction, Partial<Record<DefectStatus, DefectStatus>>> = {
+  assign: { OPEN: "ASSIGNED", ASSIGNED: "ASSIGNED", IN_PROGRESS: "IN_PROGRESS" },
+  start: { OPEN: "IN_PROGRESS", ASSIGNED: "IN_PROGRESS" },
+  resolve: { OPEN: "RESOLVED", ASSIGNED: "RESOLVED", IN_PROGRESS: "RESOLVED" },
+  verify: { RESOLVED: "VERIFIED" },
+  reopen: { RESOLVED: "IN_PROGRESS" },
+};
+
+// Everything the defect list shows
+export const defectInclude = {
+  location: { select: { id: true, name: true } },
+  sourceLog: {
+    select: {
+      id: true,
+      status: true,
+      checkDate: true,
+      checkType: { select: { name: true } },
+    },
+  },
+  workLog: { select: { id: true, title: true, completedBy: true, completedAt: true } },
+  route: { select: { id: true, grade: true, color: true } },
+  reportedBy: { select: { id: true, name: true } },
+  assignedTo: { select: { id: true, name: true } },
+  resolvedBy: { select: { id: true, name: true } },
+  verifiedBy: { select: { id: true, name: true } },
+};
+
+export function getDefectDueBy(severity: string, from: Date): Date {
+  const hours = DEFECT_SLA_HOURS[severity as DefectSeverity] ?? DEFECT_SLA_HOURS.MEDIUM;
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * Severity for defects raised by a check: a FAIL is high, anything else
+ * flagged is medium. Managers can raise it to critical.
+ */
+export function getDefaultSeverity(logStatus: string): DefectSeverity {
+  return logStatus === "FAIL" ? "HIGH" : "MEDIUM";
+}
+
+export function isSafetyCritical(severity: string): boolean {
+  return severity === "CRITICAL";
+}
+
+/**
+ * The status an action moves a defect to. Throws if the action isn't
+ * allowed from its current status.
+ */
+export function getNextDefectStatus(current: string, action: DefectAction): DefectStatus {
+  const next = TRANSITIONS[action][current as DefectStatus];
+  if (!next) {
+    throw new ValidationError(`Can't ${action} a defect that is ${current.toLowerCase().replace("_", " ")}`);
+  }
+  return next;
+}
+
+export function isDefectOverdue(defect: { status: string; dueBy: Date }, now = new Date()): boolean {
+  return OPEN_DEFECT_STATUSES.includes(defect.status as DefectStatus) && defect.dueBy < now;
+}
+
+/**
+ * Issues listed on a maintenance log, from its issues JSON
+ */
+export function getLogIssues(issuesJson: string | null): string[] {
+  if (!issuesJson) return [];
+  try {
+    const issues = JSON.parse(issuesJson);
+    return Array.isArray(issues) ? issues.filter((i) => typeof i === "string" && i.trim()) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function notifyCriticalDefects(
+  organizationId: string,
+  defects: { title: string; locationName: string }[],
+  excludeUserId?: string | null
+) {
+  if (defects.length === 0) return;
+
+  const managers = await prisma.user.findMany({
+    where: {
+      organizationId,
+      role: { in: ["MANAGER", "ADMIN"] },
+      ...(excludeUserId ? { id: { not: excludeUserId } } : {}),
+    },
+    select: { id: true },
+  });
+
+  await dispatchNotifications(
+    managers.flatMap((manager) =>
+      defects.map((defect) => ({
+        userId: manager.id,
+        type: "DEFECT_RAISED",
+        title: "Safety-Critical Defect",
+        message: `${defect.title} at ${defect.locationName}`,
+        link: "/dashboard/maintenance?tab=defects",
+      }))
+    )
+  );
+}
+
+/**
+ * Raise a defect for each issue on a failed or flagged check. A check with
+ * no issues listed raises one defect from its notes.
+ */
+export async function raiseDefectsFromLog(log: {
+  id: string;
+  status: string;
+  notes: string | null;
+  issues: string | null;
+  checkDate: Date;
+  locationId: string;
+  organizationId: string;
+  signedById: string;
+  checkType: { name: string };
+  asset?: { name: string } | null;
+}) {
+  if (log.status !== "FAIL" && log.status !== "NEEDS_ATTENTION") return 0;
+
+  const issues = getLogIssues(log.issues);
+  const severity = getDefaultSeverity(log.status);
+  const dueBy = getDefectDueBy(severity, log.checkDate);
+
+  const titles = issues.length > 0 ? issues : [log.notes || `${log.checkType.name} check ${log.status === "FAIL" ? "failed" : "needs attention"}`];
+
+  const { count } = await prisma.maintenanceDefect.createMany({
+    data: titles.map((issue) => ({
+      title: `${log.checkType.name}: ${issue}`.slice(0, 200),
+      description: issues.length > 0 ? log.notes : null,
+      severity,
+      area: log.asset?.name ?? null,
+      dueBy,
+      locationId: log.locationId,
+      sourceLogId: log.id,
+      reportedById: log.signedById,
+      organizationId: log.organizationId,
+    })),
+  });
+  return count;
+}
+
+/**
+ * Report a defect by hand, outside of a check
+ */
+export async function reportDefect(
+  organizationId: string,
+  reportedById: string | null,
+  data: {
+    title: string;
+    description?: string | null;
+    severity: DefectSeverity;
+    area?: string | null;
+    outOfService?: boolean;
+    locationId: string;
+    // A set route the defect is on, for problems climbers report
+    routeId?: string | null;
+  },
+  now = new Date()
+) {
+  const location = await prisma.location.findFirst({
+    where: { id: data.locationId, organizationId },
+    select: { id: true, name: true },
+  });
+  if (!location) {
+    throw new NotFoundError("Location not found");
+  }
+
+  if (data.outOfService && !isSafetyCritical(data.severity)) {
+    throw new ValidationError("Only critical defects can put an area out of service");
+  }
+  if (data.outOfService && !data.area) {
+    throw new ValidationError("Say which area is out of service");
+  }
+
+  const defect = await prisma.maintenanceDefect.create({
+    data: {
+      title: data.title,
+      description: data.description || null,
+      severity: data.severity,
+      area: data.area || null,
+      outOfService: !!data.outOfService,
+      dueBy: getDefectDueBy(data.severity, now),
+      locationId: location.id,
+      routeId: data.routeId || null,
+      reportedById,
+      organizationId,
+    },
+  });
+
+  if (isSafetyCritical(defect.severity)) {
+    await notifyCriticalDefects(organizationId, [{ title: defect.title, locationName: location.name }], reportedById);
+  }
+
+  return defect;
+}
+
+export type DefectUpdate =
+  | { action: "assign"; assignedToId: string }
+  | { action: "start" }
+  | {
+      action: "resolve";
+      workLogId?: string | null;
+      workLog?: { title?: string | null; description?: string | null; completedBy: string; partsUsed?: string | null } | null;
+    }
+  | { action: "verify" }
+  | { action: "reopen"; reason?: string | null }
+  | { action: "edit"; severity?: DefectSeverity; area?: string | null; outOfService?: boolean };
+
+/**
+ * Move a defect through its lifecycle, or edit its severity and area
+ */
+export async function updateDefect(
+  organizationId: string,
+  defectId: string,
+  actor: { id: string; name: string },
+  update: DefectUpdate,
+  now = new Date()
+) {
+  const defect = await prisma.maintenanceDefect.findFirst({
+    where: { id: defectId, organizationId },
+    include: { location: { select: { name: true } } },
+  });
+  if (!defect) {
+    throw new NotFoundError("Defect not found");
+  }
+
+  if (update.action === "edit") {
+    if (defect.status === "VERIFIED") {
+      throw new ValidationError("Verified defects can't be changed");
+    }
+    const severity = update.severity ?? defect.severity;
+    const area = update.area !== undefined ? update.area || null : defect.area;
+    const outOfService = update.outOfService ?? (isSafetyCritical(severity) && defect.outOfService);
+
+    if (outOfService && !isSafetyCritical(severity)) {
+      throw new ValidationError("Only critical defects can put an area out of service");
+    }
+    if (outOfService && !area) {
+      throw new ValidationError("Say which area is out of service");
+    }
+
+    const updated = await prisma.maintenanceDefect.update({
+      where: { id: defect.id },
+      data: {
+        severity,
+        area,
+        outOfService,
+        dueBy: severity !== defect.severity ? getDefectDueBy(severity, defect.createdAt) : undefined,
+      },
+    });
+
+    if (isSafetyCritical(severity) && !isSafetyCritical(defect.severity)) {
+      await notifyCriticalDefects(organizationId, [{ title: defect.title, locationName: defect.location.name }], actor.id);
+    }
+    return updated;
+  }
+
+  const status = getNextDefectStatus(defect.status, update.action);
+
+  switch (update.action) {
+    case "assign": {
+      const assignee = await prisma.user.findFirst({
+        where: { id: update.assignedToId, organizationId },
+        select: { id: true },
+      });
+      if (!assignee) {
+        throw new NotFoundError("User not found");
+      }
+
+      const updated = await prisma.maintenanceDefect.update({
+        where: { id: defect.id },
+        data: { status, assignedToId: assignee.id },
+      });
+
+      if (assignee.id !== actor.id) {
+        await dispatchNotifications([{
+          userId: assignee.id,
+          type: "DEFECT_ASSIGNED",
+          title: "Defect Assigned",
+          message: `${actor.name} assigned you "${defect.title}" at ${defect.location.name}, due ${defect.dueBy.toLocaleDateString("en-GB")}`,
+          link: "/dashboard/maintenance?tab=defects",
+        }]);
+      }
+      return updated;
+    }
+
+    case "start":
+      return prisma.maintenanceDefect.update({
+        where: { id: defect.id },
+        data: { status, assignedToId: defect.assignedToId ?? actor.id },
+      });
+
+    case "resolve": {
+      let workLogId: string;
+      if (update.workLogId) {
+        const workLog = await prisma.maintenanceWorkLog.findFirst({
+          where: { id: update.workLogId, organizationId, locationId: defect.locationId },
+          select: { id: true },
+        });
+        if (!workLog) {
+          throw new NotFoundError("Work log not found");
+        }
+        workLogId = workLog.id;
+      } else if (update.workLog) {
+        const workLog = await prisma.maintenanceWorkLog.create({
+          data: {
+            title: update.workLog.title || `Fixed: ${defect.title}`,
+            description: update.workLog.description || null,
+            category: "REPAIR",
+            status: "COMPLETED",
+            completedBy: update.workLog.completedBy,
+            completedAt: now,
+            partsUsed: update.workLog.partsUsed || null,
+            locationId: defect.locationId,
+            loggedById: actor.id,
+            organizationId,
+          },
+        });
+        workLogId = workLog.id;
+      } else {
+        throw new ValidationError("Log the work that fixed the defect");
+      }
+
+      return prisma.maintenanceDefect.update({
+        where: { id: defect.id },
+        data: { status, workLogId, resolvedAt: now, resolvedById: actor.id },
+      });
+    }
+
+    case "verify":
+      if (isSafetyCritical(defect.severity) && defect.resolvedById === actor.id) {
+        throw new ForbiddenError("A critical defect has to be verified by someone other than whoever resolved it");
+      }
+      return prisma.maintenanceDefect.update({
+        where: { id: defect.id },
+        data: { status, verifiedAt: now, verifiedById: actor.id, outOfService: false },
+      });
+
+    case "reopen":
+      return prisma.maintenanceDefect.update({
+        where: { id: defect.id },
+        data: {
+          status,
+          resolvedAt: null,
+          resolvedById: null,
+          description: update.reason
+            ? [defect.description, `Reopened by ${actor.name}: ${update.reason}`].filter(Boolean).join("\n\n")
+            : undefined,
+        },
+      });
+  }
+}
@@ -240,6 +240,88 @@ This is an automated message from ShiftFlow.
   return { subject, html, text };
 }
 
+export function rotaPublishedEmail(params: {
+  employeeName: string;
+  weekLabel: string;
+  changes: string[];
+  isUpdate: boolean;
+  organizationName: string;
+}): { subject: string; html: string; text: string } {
+  const { employeeName, weekLabel, changes, isUpdate, organizationName } = params;
+
+  const heading = isUpdate ? "Rota Updated" : "Rota Published";
+  const subject = isUpdate
+    ? `Your rota for ${weekLabel} has changed`
+    : `Your rota for ${weekLabel} is ready`;
+  const intro = isUpdate
+    ? `Your rota for the week of <strong>${weekLabel}</strong> has been updated. Here's what changed:`
+    : `The rota for the week of <strong>${weekLabel}</strong> has been published. Here are your shifts:`;
+
+  const changesHtml = changes.map((change, index) => `
+    <tr style="${index > 0 ? 'border-top: 1px solid #e5e7eb;' : ''}">
+      <td style="padding: 10px 8px;">${change}</td>
+    </tr>
+  `).join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${heading}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${heading}</h1>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <p style="margin-top: 0;">Hey ${employeeName}!</p>
+
+    <p>${intro}</p>
+
+    <div style="background: #f9fafb; border-radius: 8px; padding: 16px; margin: 20px 0;">
+      <table style="width: 100%; border-collapse: collapse;">
+        <tbody>
+          ${changesHtml}
+        </tbody>
+      </table>
+    </div>
+
+    <p>If anything doesn't work for you, please speak to your manager as soon as possible.</p>
+
+    <p style="margin-bottom: 0; color: #6b7280; font-size: 14px;">
+      — The ${organizationName} Team
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    <p style="margin: 0;">This is an automated message from ShiftFlow.</p>
+  </div>
+</body>
+</html>
+`;
+
+  const text = `
+${heading}
+
+Hey ${employeeName}!
+
+${intro.replace(/<\/?strong>/g, "")}
+
+${changes.map((change) => `• ${change}`).join("\n")}
+
+If anything doesn't work for you, please speak to your manager as soon as possible.
+
+— The ${organizationName} Team
+
+This is an automated message from ShiftFlow.
+`;
+
+  return { subject, html, text };
+}
+
 export function welcomeCredentialsEmail(params: {
   employeeName: string;
   email: string;
@@ -419,3 +501,222 @@ This is an automated message from ShiftFlow.
 
   return { subject, html, text };
 }
+
+export function notificationEmail(params: {
+  recipientName: string;
+  title: string;
+  message: string;
+  linkUrl?: string;
+  organizationName: string;
+}): { subject: string; html: string; text: string } {
+  const { recipientName, title, message, linkUrl, organizationName } = params;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${title}</h1>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <p style="margin-top: 0;">Hi ${recipientName},</p>
+
+    <p>${message}</p>
+    ${linkUrl ? `
+    <div style="text-align: center; margin: 24px 0;">
+      <a href="${linkUrl}" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: white; text-decoration: none; padding: 12px 24px; border-radius: 8px; font-weight: 600;">Open ShiftFlow</a>
+    </div>
+    ` : ''}
+    <p style="margin-bottom: 0; color: #6b7280; font-size: 14px;">
+      — The ${organizationName} Team
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    <p style="margin: 0;">You can change which emails you get in Settings &gt; Notifications.</p>
+  </div>
+</body>
+</html>
+`;
+
+  const text = `
+${title}
+
+Hi ${recipientName},
+
+${message}
+${linkUrl ? `\nOpen ShiftFlow: ${linkUrl}\n` : ''}
+— The ${organizationName} Team
+
+You can change which emails you get in Settings > Notifications.
+`;
+
+  return { subject: title, html, text };
+}
+
+export function notificationDigestEmail(params: {
+  recipientName: string;
+  items: { title: string; message: string; createdAt: string }[];
+  appUrl: string;
+  organizationName: string;
+}): { subject: string; html: string; text: string } {
+  const { recipientName, items, appUrl, organizationName } = params;
+
+  const subject = `Your daily summary: ${items.length} update${items.length !== 1 ? 's' : ''}`;
+
+  const itemsHtml = items.map((item, index) => `
+    <tr style="${index > 0 ? 'border-top: 1px solid #e5e7eb;' : ''}">
+      <td style="padding: 10px 8px; color: #6b7280; font-size: 14px; white-space: nowrap; vertical-align: top;">${item.createdAt}</td>
+      <td style="padding: 10px 8px;"><strong>${item.title}</strong><br>${item.message}</td>
+    </tr>
+  `).join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Daily Summary</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">Daily Summary</h1>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <p style="margin-top: 0;">Hi ${recipientName},</p>
+
+    <p>Here's what happened since your last summary:</p>
+
+    <div style="background: #f9fafb; border-radius: 8px; padding: 16px; margin: 20px 0;">
+      <table style="width: 100%; border-collapse: collapse;">
+        <tbody>
+          ${itemsHtml}
+        </tbody>
+      </table>
+    </div>
+
+    <div style="text-align: center; margin: 24px 0;">
+      <a href="${appUrl}" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: white; text-decoration: none; padding: 12px 24px; border-radius: 8px; font-weight: 600;">Open ShiftFlow</a>
+    </div>
+
+    <p style="margin-bottom: 0; color: #6b7280; font-size: 14px;">
+      — The ${organizationName} Team
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    <p style="margin: 0;">You can change which updates are summarised in Settings &gt; Notifications.</p>
+  </div>
+</body>
+</html>
+`;
+
+  const text = `
+Daily Summary
+
+Hi ${recipientName},
+
+Here's what happened since your last summary:
+
+${items.map((item) => `• ${item.createdAt} - ${item.title}: ${item.message}`).join('\n')}
+
+Open ShiftFlow: ${appUrl}
+
+— The ${organizationName} Team
+
+You can change which updates are summarised in Settings > Notifications.
+`;
+
+  return { subject, html, text };
+}
+
+export function managerDigestEmail(params: {
+  managerName: string;
+  periodLabel: string;
+  sections: { title: string; link: string; items: { label: string; detail?: string; link: string }[] }[];
+  appUrl: string;
+  organizationName: string;
+}): { subject: string; html: string; text: string } {
+  const { managerName, periodLabel, sections, appUrl, organizationName } = params;
+
+  const total = sections.reduce((sum, section) => sum + section.items.length, 0);
+  const subject = `${periodLabel}: ${total} item${total !== 1 ? 's' : ''} need${total === 1 ? 's' : ''} your attention`;
+
+  const sectionsHtml = sections.map((section) => `
+    <h2 style="font-size: 16px; margin: 24px 0 8px;">
+      <a href="${appUrl}${section.link}" style="color: #4f46e5; text-decoration: none;">${section.title} (${section.items.length})</a>
+    </h2>
+    <div style="background: #f9fafb; border-radius: 8px; padding: 8px 16px;">
+      <table style="width: 100%; border-collapse: collapse;">
+        <tbody>
+          ${section.items.map((item, index) => `
+          <tr style="${index > 0 ? 'border-top: 1px solid #e5e7eb;' : ''}">
+            <td style="padding: 8px 0;">
+              <a href="${appUrl}${item.link}" style="color: #111827; font-weight: 600; text-decoration: none;">${item.label}</a>
+              ${item.detail ? `<br><span style="color: #6b7280; font-size: 14px;">${item.detail}</span>` : ''}
+            </td>
+          </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `).join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${periodLabel}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${periodLabel}</h1>
+  </div>
+
+  <div style="background: #fff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <p style="margin-top: 0;">Hi ${managerName},</p>
+
+    <p>Here's what's waiting for you:</p>
+
+    ${sectionsHtml}
+
+    <p style="margin-bottom: 0; margin-top: 24px; color: #6b7280; font-size: 14px;">
+      — The ${organizationName} Team
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    <p style="margin: 0;">You can change how often you get this in Settings &gt; Notifications.</p>
+  </div>
+</body>
+</html>
+`;
+
+  const text = `
+${periodLabel}
+
+Hi ${managerName},
+
+Here's what's waiting for you:
+
+${sections.map((section) => `${section.title} (${section.items.length})
+${section.items.map((item) => `• ${item.label}${item.detail ? ` - ${item.detail}` : ''}
+  ${appUrl}${item.link}`).join('\n')}`).join('\n\n')}
+
+— The ${organizationName} Team
+
+You can change how often you get this in Settings > Notifications.
+`;
+
+  return { subject, html, text };
+}
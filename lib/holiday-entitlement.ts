@@ -0,0 +1,627 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getLocalTimeParts } from "@/lib/shift-conflicts";
+import { getTimeEntryHours } from "@/lib/payroll-run";
+import { getTaxYearRules } from "@/lib/uk-payroll";
+import { addDaysToDateString, zonedTimeToUtc } from "@/lib/utils";
+
+/**
+ * Holiday entitlement
+ *
+ * Each organization has a leave year (Organization.leaveYearStartMonth/Day).
+ * Salaried staff get the statutory 5.6 weeks of their contracted hours at the
+ * start of each leave year, pro-rated for new starters; hourly staff accrue
+ * holiday on the hours they work instead. Unused hours carry over up to the
+ * organization's cap.
+ *
+ * Every change to a balance is a HolidayLedgerEntry, and a balance is the sum
+ * of its leave year's entries. User.holidayBalance caches the current leave
+ * year's balance for lists and should never be written directly.
+ *
+ * Bank holidays are either INCLUDED (part of the 5.6 weeks, booked like any
+ * other day), DEDUCTED (the centre closes, so each one is taken out of the
+ * entitlement up front) or ADDITIONAL (given on top of the 5.6 weeks).
+ * Contracted hours are assumed to be spread over a five-day week.
+ */
+
+export const STATUTORY_LEAVE_WEEKS = 5.6;
+const WORKING_DAYS_PER_WEEK = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BANK_HOLIDAY_MODES = ["INCLUDED", "DEDUCTED", "ADDITIONAL"] as const;
+export type BankHolidayMode = (typeof BANK_HOLIDAY_MODES)[number];
+
+export const BANK_HOLIDAY_REGIONS = ["england-and-wales", "scotland", "northern-ireland"] as const;
+export type BankHolidayRegion = (typeof BANK_HOLIDAY_REGIONS)[number];
+
+export type LedgerEntryType =
+  | "OPENING_BALANCE"
+  | "ENTITLEMENT"
+  | "CARRY_OVER"
+  | "BANK_HOLIDAY"
+  | "ACCRUAL"
+  | "REQUEST_APPROVED"
+  | "REQUEST_CANCELLED"
+  | "ADJUSTMENT";
+
+const ENGLAND_AND_WALES = [
+  "2025-01-01", "2025-04-18", "2025-04-21", "2025-05-05", "2025-05-26", "2025-08-25", "2025-12-25", "2025-12-26",
+  "2026-01-01", "2026-04-03", "2026-04-06", "2026-05-04", "2026-05-25", "2026-08-31", "2026-12-25", "2026-12-28",
+  "2027-01-01", "2027-03-26", "2027-03-29", "2027-05-03", "2027-05-31", "2027-08-30", "2027-12-27", "2027-12-28",
+];
+
+// As published on gov.uk, substitute days included. Add the next year here
+// once it's announced; never edit past years.
+export const UK_BANK_HOLIDAYS: Record<BankHolidayRegion, string[]> = {
+  "england-and-wales": ENGLAND_AND_WALES,
+  scotland: [
+    "2025-01-01", "2025-01-02", "2025-04-18", "2025-05-05", "2025-05-26", "2025-08-04", "2025-12-01", "2025-12-25", "2025-12-26",
+    "2026-01-01", "2026-01-02", "2026-04-03", "2026-05-04", "2026-05-25", "2026-08-03", "2026-11-30", "2026-12-25", "2026-12-28",
+    "2027-01-01", "2027-01-04", "2027-03-26", "2027-05-03", "2027-05-31", "2027-08-02", "2027-11-30", "2027-12-27", "2027-12-28",
+  ],
+  "northern-ireland": [
+    ...ENGLAND_AND_WALES,
+    "2025-03-17", "2025-07-14",
+    "2026-03-17", "2026-07-13",
+    "2027-03-17", "2027-07-12",
+  ].sort(),
+};
+
+export interface LeaveSettings {
+  timezone: string;
+  leaveYearStartMonth: number;
+  leaveYearStartDay: number;
+  holidayCarryOverHours: number;
+  bankHolidayMode: string;
+  bankHolidayRegion: string;
+}
+
+export interface LeaveYear {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  label: string; // "2026", or "2026/27" for years that don't start on 1 January
+}
+
+export interface LeaveStaff {
+  id: string;
+  paymentType: string;
+  contractedHours: number | null;
+  createdAt: Date;
+  holidayBalance: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Statutory guidance rounds pro-rated leave up, never down
+export function roundUpToHalfHour(hours: number): number {
+  return Math.ceil(round(hours) * 2) / 2;
+}
+
+function formatDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Inclusive of both ends
+function countDays(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+/**
+ * The leave year a local date falls in
+ */
+export function getLeaveYear(
+  localDate: string,
+  settings: Pick<LeaveSettings, "leaveYearStartMonth" | "leaveYearStartDay">
+): LeaveYear {
+  const { leaveYearStartMonth: month, leaveYearStartDay: day } = settings;
+  const year = Number(localDate.slice(0, 4));
+  const startYear = localDate >= formatDateString(year, month, day) ? year : year - 1;
+
+  return {
+    start: formatDateString(startYear, month, day),
+    end: addDaysToDateString(formatDateString(startYear + 1, month, day), -1),
+    label: month === 1 && day === 1 ? `${startYear}` : `${startYear}/${String(startYear + 1).slice(2)}`,
+  };
+}
+
+export function getPreviousLeaveYear(
+  leaveYear: LeaveYear,
+  settings: Pick<LeaveSettings, "leaveYearStartMonth" | "leaveYearStartDay">
+): LeaveYear {
+  return getLeaveYear(addDaysToDateString(leaveYear.start, -1), settings);
+}
+
+export function getBankHolidays(region: string, start: string, end: string): string[] {
+  const dates = UK_BANK_HOLIDAYS[region as BankHolidayRegion] ?? UK_BANK_HOLIDAYS["england-and-wales"];
+  return dates.filter((date) => date >= start && date <= end);
+}
+
+/**
+ * Hours of leave a salaried member of staff gets for the leave year, from
+ * `fromDate` if they started part way through. Hourly staff accrue instead,
+ * so get none up front.
+ */
+export function calculateEntitlement(
+  staff: Pick<LeaveStaff, "paymentType" | "contractedHours">,
+  leaveYear: LeaveYear,
+  settings: Pick<LeaveSettings, "bankHolidayMode" | "bankHolidayRegion">,
+  fromDate: string = leaveYear.start
+): number {
+  if (staff.paymentType === "HOURLY" || !staff.contractedHours) return 0;
+
+  const from = fromDate > leaveYear.start ? fromDate : leaveYear.start;
+  if (from > leaveYear.end) return 0;
+
+  const fraction = countDays(from, leaveYear.end) / countDays(leaveYear.start, leaveYear.end);
+  let hours = STATUTORY_LEAVE_WEEKS * staff.contractedHours * fraction;
+
+  if (settings.bankHolidayMode === "ADDITIONAL") {
+    const bankHolidays = getBankHolidays(settings.bankHolidayRegion, from, leaveYear.end);
+    hours += bankHolidays.length * (staff.contractedHours / WORKING_DAYS_PER_WEEK);
+  }
+
+  return roundUpToHalfHour(hours);
+}
+
+/**
+ * Bank holidays taken out of a salaried member of staff's entitlement when
+ * the centre closes on them
+ */
+export function getBankHolidayDeductions(
+  staff: Pick<LeaveStaff, "paymentType" | "contractedHours">,
+  leaveYear: LeaveYear,
+  settings: Pick<LeaveSettings, "bankHolidayMode" | "bankHolidayRegion">,
+  fromDate: string = leaveYear.start
+): { date: string; hours: number }[] {
+  if (settings.bankHolidayMode !== "DEDUCTED") return [];
+  if (staff.paymentType === "HOURLY" || !staff.contractedHours) return [];
+
+  const from = fromDate > leaveYear.start ? fromDate : leaveYear.start;
+  const dailyHours = round(staff.contractedHours / WORKING_DAYS_PER_WEEK);
+  return getBankHolidays(settings.bankHolidayRegion, from, leaveYear.end).map((date) => ({
+    date,
+    hours: -dailyHours,
+  }));
+}
+
+/**
+ * How much of last year's balance rolls over. Unused hours above the cap
+ * lapse; an overdrawn balance carries over in full.
+ */
+export function calculateCarryOver(balance: number, cap: number): { carried: number; forfeited: number } {
+  if (balance <= 0) return { carried: round(balance), forfeited: 0 };
+  const carried = Math.min(balance, Math.max(0, cap));
+  return { carried: round(carried), forfeited: round(balance - carried) };
+}
+
+export function calculateAccrual(hoursWorked: number, accrualRate: number): number {
+  return round(hoursWorked * accrualRate);
+}
+
+export function sumLedger(entries: { hours: number }[]): number {
+  return round(entries.reduce((sum, entry) => sum + entry.hours, 0));
+}
+
+function formatHours(hours: number): string {
+  return `${round(Math.abs(hours))}h`;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Holiday requests store their dates as UTC midnight of the day chosen, so
+ * the date part is the local date
+ */
+export function getRequestLeaveYear(
+  request: { startDate: Date },
+  settings: Pick<LeaveSettings, "leaveYearStartMonth" | "leaveYearStartDay">
+): LeaveYear {
+  return getLeaveYear(request.startDate.toISOString().slice(0, 10), settings);
+}
+
+// Ledger
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export const leaveSettingsSelect = {
+  timezone: true,
+  leaveYearStartMonth: true,
+  leaveYearStartDay: true,
+  holidayCarryOverHours: true,
+  bankHolidayMode: true,
+  bankHolidayRegion: true,
+} as const;
+
+export const leaveStaffSelect = {
+  id: true,
+  paymentType: true,
+  contractedHours: true,
+  createdAt: true,
+  holidayBalance: true,
+} as const;
+
+export async function getLeaveSettings(organizationId: string, db: Db = prisma): Promise<LeaveSettings> {
+  const org = await db.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: leaveSettingsSelect,
+  });
+  return { ...org, timezone: org.timezone || "UTC" };
+}
+
+export function getCurrentLeaveYear(settings: LeaveSettings, now: Date = new Date()): LeaveYear {
+  return getLeaveYear(getLocalTimeParts(now, settings.timezone).date, settings);
+}
+
+export async function getLeaveBalance(userId: string, leaveYearStart: string, db: Db = prisma): Promise<number> {
+  const result = await db.holidayLedgerEntry.aggregate({
+    where: { userId, leaveYearStart },
+    _sum: { hours: true },
+  });
+  return round(result._sum.hours ?? 0);
+}
+
+async function isLeaveYearOpen(userId: string, leaveYearStart: string, db: Db): Promise<boolean> {
+  const count = await db.holidayLedgerEntry.count({
+    where: { userId, leaveYearStart, type: { in: ["OPENING_BALANCE", "ENTITLEMENT"] } },
+  });
+  return count > 0;
+}
+
+/**
+ * Keep User.holidayBalance in step with the current leave year's ledger
+ */
+export async function refreshHolidayBalance(
+  userId: string,
+  settings: LeaveSettings,
+  now: Date = new Date(),
+  db: Db = prisma
+): Promise<number> {
+  const balance = await getLeaveBalance(userId, getCurrentLeaveYear(settings, now).start, db);
+  await db.user.update({ where: { id: userId }, data: { holidayBalance: balance } });
+  return balance;
+}
+
+/**
+ * Open a leave year for a member of staff: carry over last year's balance
+ * and grant this year's entitlement. Staff who had a balance before the
+ * ledger existed get it as an opening balance instead, so nobody's balance
+ * changes when the ledger starts. New starters (`newStarter`) are pro-rated
+ * from the day they were added. Does nothing if the year is already open.
+ */
+export async function openLeaveYear(
+  staff: LeaveStaff,
+  settings: LeaveSettings,
+  leaveYear: LeaveYear,
+  options: { newStarter?: boolean; db?: Db } = {}
+): Promise<boolean> {
+  const db = options.db ?? prisma;
+  if (await isLeaveYearOpen(staff.id, leaveYear.start, db)) return false;
+
+  const entries: Prisma.HolidayLedgerEntryCreateManyInput[] = [];
+  const entry = (type: LedgerEntryType, hours: number, description: string) =>
+    entries.push({ userId: staff.id, leaveYearStart: leaveYear.start, type, hours, description });
+
+  const hasLedger = (await db.holidayLedgerEntry.count({ where: { userId: staff.id } })) > 0;
+
+  if (!hasLedger && !options.newStarter) {
+    entry("OPENING_BALANCE", staff.holidayBalance, "Balance brought forward when the holiday ledger started");
+  } else {
+    if (hasLedger) {
+      const previous = getPreviousLeaveYear(leaveYear, settings);
+      const balance = await getLeaveBalance(staff.id, previous.start, db);
+      const { carried, forfeited } = calculateCarryOver(balance, settings.holidayCarryOverHours);
+      if (carried !== 0 || forfeited !== 0) {
+        entry(
+          "CARRY_OVER",
+          carried,
+          forfeited > 0
+            ? `Carried over from ${previous.label} (${formatHours(forfeited)} over the ${formatHours(settings.holidayCarryOverHours)} cap lapsed)`
+            : `Carried over from ${previous.label}`
+        );
+      }
+    }
+
+    const fromDate = options.newStarter
+      ? getLocalTimeParts(staff.createdAt, settings.timezone).date
+      : leaveYear.start;
+    const proRated = fromDate > leaveYear.start;
+    const hours = calculateEntitlement(staff, leaveYear, settings, fromDate);
+
+    if (staff.paymentType === "HOURLY") {
+      entry("ENTITLEMENT", 0, "Hourly staff accrue holiday on the hours they work");
+    } else if (!staff.contractedHours) {
+      entry("ENTITLEMENT", 0, "No contracted hours set, so no entitlement could be worked out");
+    } else {
+      const bankHolidays = settings.bankHolidayMode === "ADDITIONAL" ? " plus bank holidays" : "";
+      entry(
+        "ENTITLEMENT",
+        hours,
+        `${STATUTORY_LEAVE_WEEKS} weeks of ${staff.contractedHours}h${bankHolidays}` +
+          (proRated ? `, pro-rated from ${formatDay(fromDate)}` : "")
+      );
+    }
+
+    for (const deduction of getBankHolidayDeductions(staff, leaveYear, settings, fromDate)) {
+      entry("BANK_HOLIDAY", deduction.hours, `Bank holiday ${formatDay(deduction.date)}`);
+    }
+  }
+
+  await db.holidayLedgerEntry.createMany({ data: entries });
+  return true;
+}
+
+/**
+ * Open the current leave year for someone just added, pro-rated from today
+ */
+export async function startLeaveLedger(userId: string, settings: LeaveSettings) {
+  const staff = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: leaveStaffSelect });
+  await openLeaveYear(staff, settings, getCurrentLeaveYear(settings), { newStarter: true });
+  return refreshHolidayBalance(userId, settings);
+}
+
+/**
+ * Bring an hourly member of staff's accrual for a leave year in line with
+ * their approved time entries. Each entry's accrual is recorded against it,
+ * so an edited, rejected or deleted entry is corrected by the difference.
+ */
+export async function syncHolidayAccrual(
+  staff: LeaveStaff,
+  settings: LeaveSettings,
+  leaveYear: LeaveYear,
+  db: Db = prisma
+): Promise<number> {
+  if (staff.paymentType !== "HOURLY") return 0;
+
+  // An opening balance already includes whatever was accrued before it
+  const opening = await db.holidayLedgerEntry.findFirst({
+    where: { userId: staff.id, leaveYearStart: leaveYear.start, type: "OPENING_BALANCE" },
+    select: { createdAt: true },
+  });
+  const yearStart = zonedTimeToUtc(leaveYear.start, "00:00", settings.timezone);
+  const accrueFrom = opening && opening.createdAt > yearStart ? opening.createdAt : yearStart;
+  const nextYearStart = zonedTimeToUtc(addDaysToDateString(leaveYear.end, 1), "00:00", settings.timezone);
+
+  const [timeEntries, accrued] = await Promise.all([
+    db.timeEntry.findMany({
+      where: {
+        userId: staff.id,
+        status: "APPROVED",
+        clockOut: { not: null },
+        clockIn: { gte: accrueFrom, lt: nextYearStart },
+      },
+      select: { id: true, clockIn: true, clockOut: true, totalBreak: true },
+    }),
+    db.holidayLedgerEntry.groupBy({
+      by: ["timeEntryId"],
+      where: { userId: staff.id, leaveYearStart: leaveYear.start, type: "ACCRUAL" },
+      _sum: { hours: true },
+    }),
+  ]);
+
+  const accruedByEntry = new Map(accrued.map((a) => [a.timeEntryId, a._sum.hours ?? 0]));
+  const entries: Prisma.HolidayLedgerEntryCreateManyInput[] = [];
+  const record = (timeEntryId: string, hours: number, description: string) =>
+    entries.push({ userId: staff.id, leaveYearStart: leaveYear.start, type: "ACCRUAL", hours, description, timeEntryId });
+
+  for (const timeEntry of timeEntries) {
+    const worked = getTimeEntryHours(timeEntry);
+    const rate = getTaxYearRules(timeEntry.clockIn).holidayAccrualRate;
+    const expected = calculateAccrual(worked, rate);
+    const already = accruedByEntry.get(timeEntry.id) ?? 0;
+    accruedByEntry.delete(timeEntry.id);
+
+    const difference = round(expected - already);
+    if (difference === 0) continue;
+
+    const day = formatDay(getLocalTimeParts(timeEntry.clockIn, settings.timezone).date);
+    record(
+      timeEntry.id,
+      difference,
+      already === 0
+        ? `${round(rate * 100)}% of ${round(worked)}h worked on ${day}`
+        : `Accrual corrected after the time entry for ${day} changed`
+    );
+  }
+
+  // Entries no longer approved, or deleted, give back what they accrued
+  for (const [timeEntryId, hours] of accruedByEntry) {
+    if (!timeEntryId || round(hours) === 0) continue;
+    record(timeEntryId, -round(hours), "Accrual reversed because the time entry is no longer approved");
+  }
+
+  if (entries.length > 0) {
+    await db.holidayLedgerEntry.createMany({ data: entries });
+  }
+  return entries.length;
+}
+
+/**
+ * Hours available for a request in the given leave year. A future leave year
+ * that hasn't opened yet is projected from current terms, without any
+ * carry-over; hourly staff can't be projected, so get null (no limit).
+ */
+export async function getAvailableHours(
+  staff: LeaveStaff,
+  settings: LeaveSettings,
+  leaveYear: LeaveYear,
+  db: Db = prisma
+): Promise<number | null> {
+  const balance = await getLeaveBalance(staff.id, leaveYear.start, db);
+  if (await isLeaveYearOpen(staff.id, leaveYear.start, db)) return balance;
+
+  const current = getCurrentLeaveYear(settings);
+  // The ledger hasn't started for them yet
+  if (leaveYear.start === current.start) return staff.holidayBalance;
+  if (leaveYear.start < current.start) return balance;
+  if (staff.paymentType === "HOURLY") return null;
+
+  const deductions = getBankHolidayDeductions(staff, leaveYear, settings);
+  return round(balance + calculateEntitlement(staff, leaveYear, settings) + sumLedger(deductions));
+}
+
+/**
+ * Take an approved request's hours from the balance of the leave year it
+ * starts in. A request that runs over the end of a leave year is counted in
+ * the year it starts.
+ */
+export async function recordRequestApproval(
+  request: { id: string; userId: string; hours: number; startDate: Date },
+  approvedById: string,
+  settings: LeaveSettings,
+  db: Db = prisma
+) {
+  const leaveYear = getRequestLeaveYear(request, settings);
+  const staff = await db.user.findUniqueOrThrow({ where: { id: request.userId }, select: leaveStaffSelect });
+  // Make sure the ledger has started before anything is taken from it
+  await openLeaveYear(staff, settings, getCurrentLeaveYear(settings), { db });
+
+  await db.holidayLedgerEntry.create({
+    data: {
+      userId: request.userId,
+      leaveYearStart: leaveYear.start,
+      type: "REQUEST_APPROVED",
+      hours: -request.hours,
+      description: `Holiday from ${formatDay(request.startDate.toISOString().slice(0, 10))} approved`,
+      holidayRequestId: request.id,
+      createdById: approvedById,
+    },
+  });
+  return refreshHolidayBalance(request.userId, settings, new Date(), db);
+}
+
+/**
+ * Give back whatever an approved request took from the balance. Safe to call
+ * more than once.
+ */
+export async function recordRequestCancellation(
+  request: { id: string; userId: string; startDate: Date },
+  cancelledById: string,
+  reason: string,
+  settings: LeaveSettings,
+  db: Db = prisma
+) {
+  const taken = await db.holidayLedgerEntry.findMany({
+    where: { holidayRequestId: request.id, type: { in: ["REQUEST_APPROVED", "REQUEST_CANCELLED"] } },
+    select: { hours: true, leaveYearStart: true },
+  });
+  const net = sumLedger(taken);
+  if (net >= 0) return null;
+
+  await db.holidayLedgerEntry.create({
+    data: {
+      userId: request.userId,
+      leaveYearStart: taken[0].leaveYearStart,
+      type: "REQUEST_CANCELLED",
+      hours: -net,
+      description: `Holiday from ${formatDay(request.startDate.toISOString().slice(0, 10))} ${reason}`,
+      holidayRequestId: request.id,
+      createdById: cancelledById,
+    },
+  });
+  return refreshHolidayBalance(request.userId, settings, new Date(), db);
+}
+
+/**
+ * A manual correction to the current leave year's balance
+ */
+export async function recordAdjustment(
+  staff: LeaveStaff,
+  hours: number,
+  reason: string,
+  adjustedById: string,
+  settings: LeaveSettings,
+  db: Db = prisma
+) {
+  const leaveYear = getCurrentLeaveYear(settings);
+  await openLeaveYear(staff, settings, leaveYear, { db });
+
+  const entry = await db.holidayLedgerEntry.create({
+    data: {
+      userId: staff.id,
+      leaveYearStart: leaveYear.start,
+      type: "ADJUSTMENT",
+      hours: round(hours),
+      description: reason,
+      createdById: adjustedById,
+    },
+  });
+  const balance = await refreshHolidayBalance(staff.id, settings, new Date(), db);
+  return { entry, balance };
+}
+
+/**
+ * Pro-rate a change of contracted hours or payment type over the rest of the
+ * current leave year
+ */
+export async function recordContractChange(
+  before: Pick<LeaveStaff, "paymentType" | "contractedHours">,
+  after: LeaveStaff,
+  changedById: string,
+  settings: LeaveSettings,
+  now: Date = new Date(),
+  db: Db = prisma
+) {
+  const leaveYear = getCurrentLeaveYear(settings, now);
+  await openLeaveYear(after, settings, leaveYear, { db });
+
+  const today = getLocalTimeParts(now, settings.timezone).date;
+  const difference = round(
+    calculateEntitlement(after, leaveYear, settings, today) -
+      calculateEntitlement(before, leaveYear, settings, today)
+  );
+  if (difference === 0) return null;
+
+  const describe = (terms: Pick<LeaveStaff, "paymentType" | "contractedHours">) =>
+    terms.paymentType === "HOURLY" ? "hourly" : `${terms.contractedHours ?? 0}h a week`;
+
+  await db.holidayLedgerEntry.create({
+    data: {
+      userId: after.id,
+      leaveYearStart: leaveYear.start,
+      type: "ENTITLEMENT",
+      hours: difference,
+      description: `Contract changed from ${describe(before)} to ${describe(after)} on ${formatDay(today)}`,
+      createdById: changedById,
+    },
+  });
+  return refreshHolidayBalance(after.id, settings, now, db);
+}
+
+/**
+ * Open the current leave year and sync accrual for everyone in the
+ * organization. Last year's accrual is synced first so late approvals are
+ * included in what carries over.
+ */
+export async function updateLeaveBalances(organizationId: string, now: Date) {
+  const settings = await getLeaveSettings(organizationId);
+  const leaveYear = getCurrentLeaveYear(settings, now);
+  const previous = getPreviousLeaveYear(leaveYear, settings);
+
+  const staff = await prisma.user.findMany({
+    where: { organizationId },
+    select: leaveStaffSelect,
+  });
+
+  let yearsOpened = 0;
+  let accrualEntries = 0;
+  for (const member of staff) {
+    await prisma.$transaction(async (tx) => {
+      if (await isLeaveYearOpen(member.id, previous.start, tx)) {
+        accrualEntries += await syncHolidayAccrual(member, settings, previous, tx);
+      }
+      if (await openLeaveYear(member, settings, leaveYear, { db: tx })) yearsOpened++;
+      accrualEntries += await syncHolidayAccrual(member, settings, leaveYear, tx);
+      await refreshHolidayBalance(member.id, settings, now, tx);
+    });
+  }
+
+  return { leaveYear: leaveYear.label, staffChecked: staff.length, yearsOpened, accrualEntries };
+}
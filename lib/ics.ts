@@ -0,0 +1,110 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for subscription feeds
+ */
+
+export interface IcsEvent {
+  uid: string; // Must stay the same across refreshes so apps update rather than duplicate
+  summary: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean; // Uses the UTC calendar date of start/end; end is exclusive
+  description?: string;
+  location?: string;
+  lastModified?: Date;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape text values (backslash, semicolon, comma and newlines)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold lines longer than 75 octets, continuing with a leading space
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Format a date as UTC date-time (20260313T090000Z) or date-only (20260313)
+ */
+export function formatIcsDate(date: Date, dateOnly = false): string {
+  const iso = date.toISOString().replace(/[-:]/g, "").split(".")[0];
+  return dateOnly ? iso.slice(0, 8) : `${iso}Z`;
+}
+
+/**
+ * Build a complete VCALENDAR document
+ */
+export function buildIcsCalendar(params: {
+  name: string;
+  events: IcsEvent[];
+  timeZone?: string;
+  generatedAt?: Date;
+}): string {
+  const { name, events, timeZone, generatedAt = new Date() } = params;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ShiftFlow//Rota//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`] : []),
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of events) {
+    const stamp = event.lastModified || generatedAt;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcsDate(stamp)}`,
+      `LAST-MODIFIED:${formatIcsDate(stamp)}`,
+      event.allDay
+        ? `DTSTART;VALUE=DATE:${formatIcsDate(event.start, true)}`
+        : `DTSTART:${formatIcsDate(event.start)}`,
+      event.allDay
+        ? `DTEND;VALUE=DATE:${formatIcsDate(event.end, true)}`
+        : `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+      `STATUS:${event.status || "CONFIRMED"}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,346 @@
+import { prisma } from "@/lib/db";
+import { managerDigestEmail, shiftReminderEmail } from "@/lib/email";
+import {
+  APP_URL,
+  dispatchNotification,
+  dispatchNotifications,
+  sendDeferredPush,
+  sendNotificationDigests,
+} from "@/lib/notifications";
+import {
+  buildManagerDigest,
+  countDigestItems,
+  getDigestLocationIds,
+  isDigestDue,
+} from "@/lib/manager-digest";
+import { getLeaveSettings, updateLeaveBalances } from "@/lib/holiday-entitlement";
+import { updateToilBalances } from "@/lib/absences";
+import { zonedTimeToUtc } from "@/lib/utils";
+import type { JobHandlers, RecurringJob } from "@/lib/jobs";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Recurring jobs enqueued for every organization on each tick
+ */
+export const RECURRING_JOBS: RecurringJob[] = [
+  { type: "SCHEDULE_SHIFT_REMINDERS", everyMinutes: 60 },
+  { type: "FLAG_MISSED_CLOCK_OUTS", localTime: "00:15" },
+  { type: "CERTIFICATION_EXPIRY", localTime: "09:00" },
+  { type: "SEND_NOTIFICATION_DIGESTS", localTime: "18:00" },
+  { type: "SEND_MANAGER_DIGESTS", localTime: "07:00" },
+  { type: "UPDATE_LEAVE_BALANCES", localTime: "00:30" },
+];
+
+async function getOrganization(organizationId: string | null) {
+  if (!organizationId) {
+    throw new Error("Job has no organization");
+  }
+  return prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { id: true, name: true, timezone: true, shiftReminderHours: true },
+  });
+}
+
+async function getManagerIds(organizationId: string) {
+  const managers = await prisma.user.findMany({
+    where: { organizationId, role: { in: ["ADMIN", "MANAGER"] } },
+    select: { id: true },
+  });
+  return managers.map((m) => m.id);
+}
+
+export const jobHandlers: JobHandlers = {
+  /**
+   * Queue one reminder per published shift, due shiftReminderHours before it
+   * starts. Looks a little past the reminder window so the next hourly run
+   * never misses a shift; the idempotency key stops shifts being queued twice,
+   * and includes the start time so a moved shift gets a fresh reminder.
+   */
+  async SCHEDULE_SHIFT_REMINDERS({ organizationId, now, enqueue }) {
+    const org = await getOrganization(organizationId);
+    const reminderMs = org.shiftReminderHours * HOUR_MS;
+
+    const shifts = await prisma.shift.findMany({
+      where: {
+        organizationId: org.id,
+        status: "SCHEDULED",
+        assignedToId: { not: null },
+        startTime: { gt: now, lte: new Date(now.getTime() + reminderMs + 2 * HOUR_MS) },
+      },
+      select: { id: true, startTime: true },
+    });
+
+    let queued = 0;
+    for (const shift of shifts) {
+      const startTime = shift.startTime.toISOString();
+      const runAt = new Date(Math.max(now.getTime(), shift.startTime.getTime() - reminderMs));
+      const created = await enqueue({
+        type: "SHIFT_REMINDER",
+        organizationId: org.id,
+        payload: { shiftId: shift.id, startTime },
+        idempotencyKey: `SHIFT_REMINDER:${shift.id}:${startTime}`,
+        runAt,
+      });
+      if (created) queued++;
+    }
+
+    return { shiftsChecked: shifts.length, remindersQueued: queued };
+  },
+
+  /**
+   * Remind the assignee of a shift, unless it has since been moved,
+   * unpublished or unassigned
+   */
+  async SHIFT_REMINDER({ organizationId, payload }) {
+    const org = await getOrganization(organizationId);
+    const shift = await prisma.shift.findFirst({
+      where: { id: payload.shiftId, organizationId: org.id },
+      include: {
+        assignedTo: { select: { id: true, name: true } },
+        location: { select: { name: true } },
+      },
+    });
+
+    if (
+      !shift ||
+      !shift.assignedTo ||
+      shift.status !== "SCHEDULED" ||
+      shift.startTime.toISOString() !== payload.startTime
+    ) {
+      return { skipped: true };
+    }
+
+    const timeZone = org.timezone || "UTC";
+    const formatTime = (date: Date) =>
+      date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone });
+    const formattedDate = shift.startTime.toLocaleDateString("en-GB", {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      timeZone,
+    });
+
+    const shiftTime = `${formatTime(shift.startTime)} - ${formatTime(shift.endTime)}`;
+
+    // The dedupe key stops a retried job reminding twice
+    const notification = await dispatchNotification({
+      userId: shift.assignedTo.id,
+      type: "SHIFT_REMINDER",
+      title: "Upcoming Shift Reminder",
+      message: `You have a shift "${shift.title}" on ${formattedDate} at ${formatTime(shift.startTime)}.`,
+      link: "/dashboard/schedule",
+      dedupeKey: `SHIFT_REMINDER:${shift.id}:${payload.startTime}`,
+      email: shiftReminderEmail({
+        employeeName: shift.assignedTo.name || "Team Member",
+        shiftDate: formattedDate,
+        shifts: [{ shiftTitle: shift.title, shiftTime, locationName: shift.location?.name }],
+        organizationName: org.name,
+      }),
+    });
+
+    return { userId: shift.assignedTo.id, notificationId: notification?.id ?? null };
+  },
+
+  /**
+   * Flag time entries still open from before local midnight. Clock-out is left
+   * blank so managers can see and fill it in manually.
+   */
+  async FLAG_MISSED_CLOCK_OUTS({ organizationId, payload }) {
+    const org = await getOrganization(organizationId);
+    const localMidnight = zonedTimeToUtc(payload.localDate, "00:00", org.timezone || "UTC");
+
+    const missedClockOuts = await prisma.timeEntry.findMany({
+      where: {
+        clockOut: null,
+        clockIn: { lt: localMidnight },
+        missedClockOut: false,
+        user: { organizationId: org.id },
+      },
+      include: { user: { select: { name: true } } },
+    });
+
+    if (missedClockOuts.length === 0) {
+      return { flaggedCount: 0 };
+    }
+
+    await prisma.timeEntry.updateMany({
+      where: { id: { in: missedClockOuts.map((e) => e.id) } },
+      data: { missedClockOut: true },
+    });
+
+    const managerIds = await getManagerIds(org.id);
+    const timeZone = org.timezone || "UTC";
+    await dispatchNotifications(
+      missedClockOuts.flatMap((entry) => {
+        const clockInDate = entry.clockIn.toLocaleDateString("en-GB", {
+          weekday: "short",
+          month: "short",
+          day: "numeric",
+          timeZone,
+        });
+        const clockInTime = entry.clockIn.toLocaleTimeString("en-GB", {
+          hour: "2-digit",
+          minute: "2-digit",
+          timeZone,
+        });
+        return managerIds.map((userId) => ({
+          userId,
+          type: "MISSED_CLOCK_OUT",
+          title: "Missed Clock Out",
+          message: `${entry.user.name} forgot to clock out. Clocked in ${clockInDate} at ${clockInTime}.`,
+          link: "/dashboard/timesheet",
+        }));
+      })
+    );
+
+    return { flaggedCount: missedClockOuts.length };
+  },
+
+  /**
+   * Warn staff and managers about certifications expiring within 14 days, and
+   * mark expired ones as EXPIRED
+   */
+  async CERTIFICATION_EXPIRY({ organizationId, now }) {
+    const org = await getOrganization(organizationId);
+
+    const expiringCertifications = await prisma.userCertification.findMany({
+      where: {
+        status: "ACTIVE",
+        expiryDate: { not: null, lte: new Date(now.getTime() + 14 * DAY_MS), gt: now },
+        lastExpiryNotification: null,
+        user: { organizationId: org.id },
+      },
+      include: {
+        user: { select: { id: true, name: true } },
+        certificationType: { select: { name: true } },
+      },
+    });
+
+    const managerIds = expiringCertifications.length > 0 ? await getManagerIds(org.id) : [];
+
+    for (const cert of expiringCertifications) {
+      const daysUntilExpiry = Math.ceil((cert.expiryDate!.getTime() - now.getTime()) / DAY_MS);
+
+      await dispatchNotification({
+        userId: cert.user.id,
+        type: "CERTIFICATION_EXPIRY",
+        title: "Certification Expiring Soon",
+        message: `Your ${cert.certificationType.name} certification expires in ${daysUntilExpiry} days`,
+        link: "/dashboard/certifications",
+      });
+
+      await dispatchNotifications(
+        managerIds.map((userId) => ({
+          userId,
+          type: "CERTIFICATION_EXPIRY",
+          title: "Staff Certification Expiring",
+          message: `${cert.user.name}'s ${cert.certificationType.name} certification expires in ${daysUntilExpiry} days`,
+          link: "/dashboard/certifications",
+        }))
+      );
+
+      // Prevents a second warning if the job is retried or runs again
+      await prisma.userCertification.update({
+        where: { id: cert.id },
+        data: { lastExpiryNotification: now },
+      });
+    }
+
+    const expired = await prisma.userCertification.updateMany({
+      where: {
+        status: "ACTIVE",
+        expiryDate: { not: null, lt: now },
+        user: { organizationId: org.id },
+      },
+      data: { status: "EXPIRED" },
+    });
+
+    return {
+      expiryNotificationsCreated: expiringCertifications.length,
+      certificationsMarkedExpired: expired.count,
+    };
+  },
+
+  /**
+   * Send a push that was held back by the recipient's quiet hours
+   */
+  async SEND_DEFERRED_PUSH({ payload }) {
+    return sendDeferredPush(payload.deliveryId);
+  },
+
+  /**
+   * Email each user a summary of the notifications they chose to get as a digest
+   */
+  async SEND_NOTIFICATION_DIGESTS({ organizationId }) {
+    const org = await getOrganization(organizationId);
+    return sendNotificationDigests(org.id);
+  },
+  /**
+   * Email each manager what's waiting on them at their locations. Weekly
+   * digests go out on Mondays; managers with nothing to action get nothing.
+   */
+  async SEND_MANAGER_DIGESTS({ organizationId, payload, now }) {
+    const org = await getOrganization(organizationId);
+    const timeZone = org.timezone || "UTC";
+    const dayOfWeek = new Date(`${payload.localDate}T00:00:00Z`).getUTCDay();
+
+    const managers = await prisma.user.findMany({
+      where: {
+        organizationId: org.id,
+        role: { in: ["ADMIN", "MANAGER"] },
+        managerDigestFrequency: { not: "OFF" },
+      },
+      select: { id: true, name: true, role: true, managerDigestFrequency: true },
+    });
+
+    let sent = 0;
+    for (const manager of managers) {
+      if (!isDigestDue(manager.managerDigestFrequency, dayOfWeek)) continue;
+
+      const sections = await buildManagerDigest({
+        organizationId: org.id,
+        locationIds: await getDigestLocationIds(manager),
+        timeZone,
+        now,
+      });
+      if (sections.length === 0) continue;
+
+      const count = countDigestItems(sections);
+      const periodLabel = manager.managerDigestFrequency === "WEEKLY" ? "Your weekly digest" : "Your daily digest";
+
+      // The dedupe key stops a retried job sending the same day's digest twice
+      await dispatchNotification({
+        userId: manager.id,
+        type: "MANAGER_DIGEST",
+        title: `${count} item${count !== 1 ? "s" : ""} need${count === 1 ? "s" : ""} your attention`,
+        message: sections.map((s) => `${s.title}: ${s.items.length}`).join(", "),
+        link: "/dashboard",
+        dedupeKey: `MANAGER_DIGEST:${payload.localDate}`,
+        email: managerDigestEmail({
+          managerName: manager.name || "Manager",
+          periodLabel,
+          sections,
+          appUrl: APP_URL,
+          organizationName: org.name,
+        }),
+      });
+      sent++;
+    }
+
+    return { managersChecked: managers.length, digestsSent: sent };
+  },
+
+  /**
+   * Open the new leave year when it starts, with carry-over and entitlement,
+   * add holiday accrued on hourly staff's approved hours and TOIL earned by
+   * salaried staff over their contracted hours
+   */
+  async UPDATE_LEAVE_BALANCES({ organizationId, now }) {
+    const org = await getOrganization(organizationId);
+    const leave = await updateLeaveBalances(org.id, now);
+    const toil = await updateToilBalances(org.id, await getLeaveSettings(org.id), now);
+    return { ...leave, ...toil };
+  },
+};
@@ -0,0 +1,271 @@
+import { prisma } from "@/lib/db";
+import { safeJsonParse } from "@/lib/api-utils";
+import { getLocalTimeParts } from "@/lib/shift-conflicts";
+import { zonedTimeToUtc } from "@/lib/utils";
+import { jobHandlers, RECURRING_JOBS } from "@/lib/job-handlers";
+
+/**
+ * Background jobs
+ *
+ * A durable queue in the Job table, processed by the /api/cron/jobs tick.
+ * Each tick enqueues recurring jobs for every organization at the right
+ * local time (Organization.timezone), then claims and runs due jobs. Failed
+ * attempts are retried with backoff; every attempt is kept as a JobRun.
+ * Idempotency keys make enqueueing safe to repeat.
+ */
+
+/**
+ * Recurring jobs are given the organization's local date they were enqueued for
+ */
+interface RecurringPayload {
+  localDate: string;
+}
+
+export interface JobPayloads {
+  SHIFT_REMINDER: { shiftId: string; startTime: string };
+  SCHEDULE_SHIFT_REMINDERS: RecurringPayload;
+  FLAG_MISSED_CLOCK_OUTS: RecurringPayload;
+  CERTIFICATION_EXPIRY: RecurringPayload;
+  SEND_DEFERRED_PUSH: { deliveryId: string };
+  SEND_NOTIFICATION_DIGESTS: RecurringPayload;
+  SEND_MANAGER_DIGESTS: RecurringPayload;
+  UPDATE_LEAVE_BALANCES: RecurringPayload;
+}
+
+export type JobType = keyof JobPayloads;
+
+type RecurringJobType = Exclude<JobType, "SHIFT_REMINDER" | "SEND_DEFERRED_PUSH">;
+
+export interface EnqueueJobParams<T extends JobType = JobType> {
+  type: T;
+  organizationId: string | null;
+  payload: JobPayloads[T];
+  idempotencyKey: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface JobContext<T extends JobType> {
+  jobId: string;
+  organizationId: string | null;
+  payload: JobPayloads[T];
+  now: Date;
+  enqueue: (params: EnqueueJobParams) => Promise<boolean>;
+}
+
+export type JobHandler<T extends JobType> = (
+  context: JobContext<T>
+) => Promise<Record<string, unknown>>;
+
+export type JobHandlers = { [T in JobType]: JobHandler<T> };
+
+/**
+ * Recurring jobs run either daily at a local time ("HH:mm") or every N
+ * minutes, once per organization
+ */
+export type RecurringJob =
+  | { type: RecurringJobType; localTime: string; everyMinutes?: never }
+  | { type: RecurringJobType; everyMinutes: number; localTime?: never };
+
+const RETRY_BASE_MS = 60 * 1000;
+const STALE_LOCK_MS = 15 * 60 * 1000;
+const BATCH_SIZE = 25;
+
+/**
+ * Delay before the next attempt: 1, 5, then 25 minutes
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return RETRY_BASE_MS * Math.pow(5, Math.max(0, attempt - 1));
+}
+
+/**
+ * When a recurring job should next run for an organization, and the
+ * idempotency key for that occurrence. Daily jobs use today's local date, so a
+ * tick after the local time still catches up on today's run.
+ */
+export function getRecurringOccurrence(
+  job: RecurringJob,
+  organizationId: string,
+  timeZone: string,
+  now: Date
+): { runAt: Date; idempotencyKey: string; localDate: string } {
+  const localDate = getLocalTimeParts(now, timeZone).date;
+
+  if (job.everyMinutes) {
+    const slotMs = job.everyMinutes * 60 * 1000;
+    const runAt = new Date(Math.floor(now.getTime() / slotMs) * slotMs);
+    return { runAt, idempotencyKey: `${job.type}:${organizationId}:${runAt.toISOString()}`, localDate };
+  }
+
+  return {
+    runAt: zonedTimeToUtc(localDate, job.localTime as string, timeZone),
+    idempotencyKey: `${job.type}:${organizationId}:${localDate}`,
+    localDate,
+  };
+}
+
+/**
+ * Add a job unless one with the same idempotency key already exists.
+ * Returns whether a new job was created.
+ */
+export async function enqueueJob<T extends JobType>(params: EnqueueJobParams<T>): Promise<boolean> {
+  const { count } = await prisma.job.createMany({
+    data: [
+      {
+        type: params.type,
+        organizationId: params.organizationId,
+        payload: JSON.stringify(params.payload),
+        idempotencyKey: params.idempotencyKey,
+        runAt: params.runAt ?? new Date(),
+        maxAttempts: params.maxAttempts ?? 3,
+      },
+    ],
+    skipDuplicates: true,
+  });
+  return count > 0;
+}
+
+/**
+ * Enqueue this tick's occurrence of every recurring job for every organization
+ */
+export async function scheduleRecurringJobs(now = new Date()): Promise<number> {
+  const organizations = await prisma.organization.findMany({
+    select: { id: true, timezone: true },
+  });
+
+  let scheduled = 0;
+  for (const org of organizations) {
+    for (const recurring of RECURRING_JOBS) {
+      const { runAt, idempotencyKey, localDate } = getRecurringOccurrence(
+        recurring,
+        org.id,
+        org.timezone || "UTC",
+        now
+      );
+      const created = await enqueueJob({
+        type: recurring.type,
+        organizationId: org.id,
+        payload: { localDate },
+        idempotencyKey,
+        runAt,
+      });
+      if (created) scheduled++;
+    }
+  }
+  return scheduled;
+}
+
+async function runJob(job: {
+  id: string;
+  type: string;
+  payload: string;
+  organizationId: string | null;
+  attempts: number;
+  maxAttempts: number;
+}): Promise<boolean> {
+  const now = new Date();
+  const run = await prisma.jobRun.create({
+    data: { jobId: job.id, attempt: job.attempts },
+  });
+
+  const handler = jobHandlers[job.type as JobType] as JobHandler<JobType> | undefined;
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+
+    const result = await handler({
+      jobId: job.id,
+      organizationId: job.organizationId,
+      payload: safeJsonParse(job.payload, {}) as JobPayloads[JobType],
+      now,
+      enqueue: enqueueJob,
+    });
+    const finishedAt = new Date();
+
+    await prisma.$transaction([
+      prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "SUCCEEDED", result: JSON.stringify(result), finishedAt },
+      }),
+      prisma.job.update({
+        where: { id: job.id },
+        data: { status: "SUCCEEDED", result: JSON.stringify(result), lastError: null, lockedAt: null, finishedAt },
+      }),
+    ]);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const finishedAt = new Date();
+    const willRetry = !!handler && job.attempts < job.maxAttempts;
+    console.error(`Job ${job.type} (${job.id}) failed on attempt ${job.attempts}:`, error);
+
+    await prisma.$transaction([
+      prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: "FAILED", error: message, finishedAt },
+      }),
+      prisma.job.update({
+        where: { id: job.id },
+        data: willRetry
+          ? {
+              status: "PENDING",
+              lastError: message,
+              lockedAt: null,
+              runAt: new Date(finishedAt.getTime() + getRetryDelayMs(job.attempts)),
+            }
+          : { status: "FAILED", lastError: message, lockedAt: null, finishedAt },
+      }),
+    ]);
+    return false;
+  }
+}
+
+/**
+ * Claim and run due jobs, oldest first. Jobs stuck RUNNING (e.g. the process
+ * died mid-run) are released for another attempt.
+ */
+export async function processDueJobs(now = new Date()): Promise<{ succeeded: number; failed: number }> {
+  await prisma.job.updateMany({
+    where: { status: "RUNNING", lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+    data: { status: "PENDING", lockedAt: null, lastError: "Timed out" },
+  });
+
+  const due = await prisma.job.findMany({
+    where: { status: "PENDING", runAt: { lte: now } },
+    orderBy: { runAt: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const job of due) {
+    // Claim the job; another tick may have got there first
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: "PENDING" },
+      data: { status: "RUNNING", lockedAt: new Date(), attempts: { increment: 1 } },
+    });
+    if (count === 0) continue;
+
+    if (await runJob({ ...job, attempts: job.attempts + 1 })) {
+      succeeded++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { succeeded, failed };
+}
+
+/**
+ * Put a failed job back in the queue with a fresh set of attempts
+ */
+export async function retryJob(jobId: string, organizationId: string) {
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, organizationId, status: "FAILED" },
+    data: { status: "PENDING", runAt: new Date(), attempts: 0, finishedAt: null },
+  });
+  return count > 0;
+}
@@ -0,0 +1,140 @@
+import { randomBytes } from "crypto";
+import { compare, hash } from "bcryptjs";
+import { prisma } from "@/lib/db";
+import { AppError, ForbiddenError, NotFoundError } from "@/lib/errors";
+
+/**
+ * Front-desk kiosks
+ *
+ * A kiosk is a shared tablet fixed to one location. The token in its URL
+ * is the only credential for the device; staff then pick their name and
+ * enter their own PIN. Wrong PINs count up and lock the PIN for a while, so
+ * a four digit PIN can't simply be guessed at the desk.
+ */
+
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCK_MINUTES = 15;
+
+export function generateKioskToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function getKioskUrl(origin: string, token: string): string {
+  return `${origin}/kiosk/${token}`;
+}
+
+export async function hashKioskPin(pin: string): Promise<string> {
+  return hash(pin, 10);
+}
+
+/**
+ * Find an active kiosk from its token
+ */
+export async function getKioskDevice(token: string) {
+  const device = await prisma.kioskDevice.findUnique({
+    where: { token },
+    include: { location: { select: { id: true, name: true, isActive: true } } },
+  });
+
+  if (!device || device.revokedAt || !device.location.isActive) {
+    throw new NotFoundError("Kiosk not found");
+  }
+  return device;
+}
+
+/**
+ * Staff who can clock in at the kiosk's location: those based there or
+ * given access to it, with a PIN set
+ */
+export async function getKioskStaff(organizationId: string, locationId: string) {
+  const users = await prisma.user.findMany({
+    where: {
+      organizationId,
+      kioskPinHash: { not: null },
+      OR: [
+        { primaryLocationId: locationId },
+        { locationAccess: { some: { locationId } } },
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      avatarUrl: true,
+      timeEntries: {
+        where: { clockOut: null },
+        select: { id: true, breakStart: true },
+        take: 1,
+      },
+    },
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+  });
+
+  return users.map(({ timeEntries, ...user }) => ({
+    ...user,
+    clockedIn: timeEntries.length > 0,
+    onBreak: !!timeEntries[0]?.breakStart,
+  }));
+}
+
+/**
+ * Check a PIN entered on a kiosk. Only staff at the kiosk's location can
+ * use it.
+ */
+export async function verifyKioskPin(
+  device: { organizationId: string; locationId: string },
+  userId: string,
+  pin: string,
+  now = new Date()
+) {
+  const user = await prisma.user.findFirst({
+    where: {
+      id: userId,
+      organizationId: device.organizationId,
+      OR: [
+        { primaryLocationId: device.locationId },
+        { locationAccess: { some: { locationId: device.locationId } } },
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      kioskPinHash: true,
+      kioskPinAttempts: true,
+      kioskPinLockedUntil: true,
+    },
+  });
+
+  if (!user || !user.kioskPinHash) {
+    throw new ForbiddenError("You can't clock in at this kiosk");
+  }
+
+  if (user.kioskPinLockedUntil && user.kioskPinLockedUntil > now) {
+    throw new AppError(
+      "Too many wrong PINs. Try again later or ask a manager.",
+      429,
+      "PIN_LOCKED"
+    );
+  }
+
+  if (!(await compare(pin, user.kioskPinHash))) {
+    const attempts = user.kioskPinAttempts + 1;
+    const locked = attempts >= MAX_PIN_ATTEMPTS;
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        kioskPinAttempts: locked ? 0 : attempts,
+        kioskPinLockedUntil: locked ? new Date(now.getTime() + PIN_LOCK_MINUTES * 60 * 1000) : null,
+      },
+    });
+    throw new AppError("Wrong PIN", 401, "WRONG_PIN");
+  }
+
+  if (user.kioskPinAttempts > 0 || user.kioskPinLockedUntil) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { kioskPinAttempts: 0, kioskPinLockedUntil: null },
+    });
+  }
+
+  return { id: user.id, name: user.name };
+}
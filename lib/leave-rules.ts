@@ -0,0 +1,351 @@
+import { prisma } from "@/lib/db";
+import { addDaysToDateString } from "@/lib/utils";
+import { getLocalTimeParts } from "@/lib/shift-conflicts";
+import { getAbsenceRules } from "@/lib/absence-types";
+
+/**
+ * Leave rules, set per location
+ *
+ * - maxOff: no more than this many staff off at once
+ * - minStaff: at least this many staff of a staff role still available
+ * - blackouts: dates no leave can be booked, set by hand or taken from
+ *   events of the chosen types (with days either side for set-up)
+ *
+ * Rules are checked when leave is requested and again when it is approved.
+ * Sickness isn't chosen, so it is never checked, but it does count towards
+ * who is already off.
+ */
+
+export interface LeaveBlackout {
+  startDate: string; // "YYYY-MM-DD", inclusive
+  endDate: string;
+  reason: string;
+}
+
+export interface MinimumStaffRule {
+  staffRole: string; // StaffRole code, as on User.staffRole
+  minimum: number;
+}
+
+export interface LeaveRules {
+  maxOff: number | null;
+  minStaff: MinimumStaffRule[];
+  blackouts: LeaveBlackout[];
+  blackoutEventTypes: string[];
+  eventBufferDays: number;
+}
+
+export const DEFAULT_LEAVE_RULES: LeaveRules = {
+  maxOff: null,
+  minStaff: [],
+  blackouts: [],
+  blackoutEventTypes: [],
+  eventBufferDays: 0,
+};
+
+export type LeaveClashType = "BLACKOUT" | "MAX_OFF" | "MIN_STAFF";
+
+export interface LeaveClash {
+  type: LeaveClashType;
+  locationId: string;
+  locationName: string;
+  message: string;
+  dates: string[];
+}
+
+export interface LeaveRuleLocation {
+  id: string;
+  name: string;
+  rules: LeaveRules;
+  // Manual blackouts plus any taken from events
+  blackouts: LeaveBlackout[];
+  staff: { id: string; staffRole: string }[];
+}
+
+export interface LeaveRuleAbsence {
+  userId: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface LeaveRuleEvent {
+  title: string;
+  eventType: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface ReassignShift {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  location: { name: string } | null;
+}
+
+export interface LeaveRuleCheck {
+  clashes: LeaveClash[];
+  shifts: ReassignShift[];
+}
+
+/**
+ * Parse a location's leave rules JSON, filling in anything missing
+ */
+export function parseLeaveRules(json: string | null | undefined): LeaveRules {
+  if (!json) return DEFAULT_LEAVE_RULES;
+  try {
+    return { ...DEFAULT_LEAVE_RULES, ...JSON.parse(json) };
+  } catch {
+    return DEFAULT_LEAVE_RULES;
+  }
+}
+
+export function hasLeaveRules(rules: LeaveRules): boolean {
+  return (
+    rules.maxOff !== null ||
+    rules.minStaff.length > 0 ||
+    rules.blackouts.length > 0 ||
+    rules.blackoutEventTypes.length > 0
+  );
+}
+
+/**
+ * Whether an absence type is checked against the rules
+ */
+export function isLeaveRuleChecked(type: string): boolean {
+  return getAbsenceRules(type).approver !== null;
+}
+
+/**
+ * Turn events of the blacked-out types into blackout dates, widened by the
+ * buffer either side
+ */
+export function getEventBlackouts(
+  events: LeaveRuleEvent[],
+  rules: LeaveRules,
+  timeZone: string
+): LeaveBlackout[] {
+  return events
+    .filter((e) => rules.blackoutEventTypes.includes(e.eventType))
+    .map((e) => ({
+      startDate: addDaysToDateString(getLocalTimeParts(e.startTime, timeZone).date, -rules.eventBufferDays),
+      endDate: addDaysToDateString(getLocalTimeParts(e.endTime, timeZone).date, rules.eventBufferDays),
+      reason: e.title,
+    }));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function isOffOn(absence: LeaveRuleAbsence, date: string): boolean {
+  return toDateString(absence.startDate) <= date && toDateString(absence.endDate) >= date;
+}
+
+/**
+ * Check a leave request against the rules of each location the person works at.
+ * Absences should be other people's approved absence overlapping the request.
+ * Clashes on several days are grouped, so each rule broken is listed once.
+ */
+export function evaluateLeaveRules(
+  request: { userId: string; staffRole: string; startDate: Date; endDate: Date },
+  locations: LeaveRuleLocation[],
+  absences: LeaveRuleAbsence[],
+  roleNames: Record<string, string> = {}
+): LeaveClash[] {
+  const clashes = new Map<string, LeaveClash>();
+  const add = (location: LeaveRuleLocation, type: LeaveClashType, message: string, date: string) => {
+    const key = `${location.id}:${type}:${message}`;
+    const clash = clashes.get(key);
+    if (clash) {
+      clash.dates.push(date);
+    } else {
+      clashes.set(key, { type, locationId: location.id, locationName: location.name, message, dates: [date] });
+    }
+  };
+
+  const lastDate = toDateString(request.endDate);
+  for (let date = toDateString(request.startDate); date <= lastDate; date = addDaysToDateString(date, 1)) {
+    for (const location of locations) {
+      for (const blackout of location.blackouts) {
+        if (blackout.startDate <= date && blackout.endDate >= date) {
+          add(location, "BLACKOUT", `Blackout: ${blackout.reason}`, date);
+        }
+      }
+
+      const others = location.staff.filter((s) => s.id !== request.userId);
+      const off = new Set(
+        absences
+          .filter((a) => a.userId !== request.userId && isOffOn(a, date))
+          .map((a) => a.userId)
+      );
+
+      const { maxOff } = location.rules;
+      const alreadyOff = others.filter((s) => off.has(s.id)).length;
+      if (maxOff !== null && alreadyOff >= maxOff) {
+        add(location, "MAX_OFF", `Already ${maxOff === 1 ? "1 person" : `${maxOff} people`} off, the most allowed at once`, date);
+      }
+
+      const minimum = location.rules.minStaff.find((r) => r.staffRole === request.staffRole)?.minimum;
+      if (minimum) {
+        const available = others.filter((s) => s.staffRole === request.staffRole && !off.has(s.id)).length;
+        if (available < minimum) {
+          const role = roleNames[request.staffRole] || request.staffRole;
+          add(location, "MIN_STAFF", `Fewer than ${minimum} ${role} staff left available`, date);
+        }
+      }
+    }
+  }
+
+  return Array.from(clashes.values());
+}
+
+/**
+ * Format clashes as one line each, for errors and confirmations
+ */
+export function formatLeaveClashes(clashes: LeaveClash[]): string {
+  return clashes
+    .map((c) => {
+      const days = c.dates.length === 1 ? c.dates[0] : `${c.dates[0]} to ${c.dates[c.dates.length - 1]}`;
+      return `${c.locationName}: ${c.message} (${days})`;
+    })
+    .join("\n");
+}
+
+/**
+ * Check a leave request against the leave rules of the person's locations,
+ * and find the shifts they are already scheduled for that would need
+ * reassigning if it is approved
+ */
+export async function checkLeaveRules(
+  request: { id?: string; userId: string; startDate: Date; endDate: Date },
+  organizationId: string
+): Promise<LeaveRuleCheck> {
+  const dayAfterEnd = new Date(request.endDate.getTime() + 24 * 60 * 60 * 1000);
+
+  const [user, organization, shifts] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: request.userId },
+      select: {
+        staffRole: true,
+        primaryLocationId: true,
+        locationAccess: { select: { locationId: true } },
+      },
+    }),
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { timezone: true },
+    }),
+    prisma.shift.findMany({
+      where: {
+        organizationId,
+        assignedToId: request.userId,
+        startTime: { lt: dayAfterEnd },
+        endTime: { gt: request.startDate },
+      },
+      select: {
+        id: true,
+        title: true,
+        startTime: true,
+        endTime: true,
+        location: { select: { name: true } },
+      },
+      orderBy: { startTime: "asc" },
+    }),
+  ]);
+
+  const locationIds = [
+    ...user.locationAccess.map((a) => a.locationId),
+    ...(user.primaryLocationId ? [user.primaryLocationId] : []),
+  ];
+  const locations = (
+    await prisma.location.findMany({
+      where: { id: { in: locationIds }, organizationId, leaveRules: { not: null } },
+      select: { id: true, name: true, leaveRules: true },
+    })
+  )
+    .map((l) => ({ ...l, rules: parseLeaveRules(l.leaveRules) }))
+    .filter((l) => hasLeaveRules(l.rules));
+
+  if (locations.length === 0) {
+    return { clashes: [], shifts };
+  }
+
+  const timeZone = organization?.timezone || "UTC";
+  const ruleLocationIds = locations.map((l) => l.id);
+  const eventTypes = [...new Set(locations.flatMap((l) => l.rules.blackoutEventTypes))];
+  const maxBuffer = Math.max(...locations.map((l) => l.rules.eventBufferDays));
+  const bufferMs = (maxBuffer + 1) * 24 * 60 * 60 * 1000;
+
+  const [staff, events, roles] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        organizationId,
+        OR: [
+          { primaryLocationId: { in: ruleLocationIds } },
+          { locationAccess: { some: { locationId: { in: ruleLocationIds } } } },
+        ],
+      },
+      select: {
+        id: true,
+        staffRole: true,
+        primaryLocationId: true,
+        locationAccess: { select: { locationId: true } },
+      },
+    }),
+    eventTypes.length > 0
+      ? prisma.event.findMany({
+          where: {
+            organizationId,
+            eventType: { in: eventTypes },
+            // Events without a location are for the whole centre
+            OR: [{ locationId: { in: ruleLocationIds } }, { locationId: null }],
+            startTime: { lt: new Date(dayAfterEnd.getTime() + bufferMs) },
+            endTime: { gt: new Date(request.startDate.getTime() - bufferMs) },
+          },
+          select: { title: true, eventType: true, startTime: true, endTime: true, locationId: true },
+        })
+      : Promise.resolve([]),
+    prisma.staffRole.findMany({
+      where: { organizationId },
+      select: { code: true, name: true },
+    }),
+  ]);
+
+  const absences = await prisma.holidayRequest.findMany({
+    where: {
+      userId: { in: staff.map((s) => s.id) },
+      status: "APPROVED",
+      startDate: { lte: request.endDate },
+      endDate: { gte: request.startDate },
+      ...(request.id ? { id: { not: request.id } } : {}),
+    },
+    select: { userId: true, startDate: true, endDate: true },
+  });
+
+  const ruleLocations: LeaveRuleLocation[] = locations.map((location) => ({
+    id: location.id,
+    name: location.name,
+    rules: location.rules,
+    blackouts: [
+      ...location.rules.blackouts,
+      ...getEventBlackouts(
+        events.filter((e) => e.locationId === location.id || e.locationId === null),
+        location.rules,
+        timeZone
+      ),
+    ],
+    staff: staff.filter(
+      (s) => s.primaryLocationId === location.id || s.locationAccess.some((a) => a.locationId === location.id)
+    ),
+  }));
+
+  const clashes = evaluateLeaveRules(
+    { ...request, staffRole: user.staffRole },
+    ruleLocations,
+    absences,
+    Object.fromEntries(roles.map((r) => [r.code, r.name]))
+  );
+
+  return { clashes, shifts };
+}
@@ -0,0 +1,311 @@
+import { prisma } from "@/lib/db";
+import { getLocalTimeParts } from "@/lib/shift-conflicts";
+import { zonedTimeToUtc } from "@/lib/utils";
+import { getAbsenceLabel } from "@/lib/absence-types";
+
+/**
+ * Manager digest
+ *
+ * A summary of everything waiting on a manager at their locations, emailed
+ * daily or weekly (User.managerDigestFrequency). Admins, and managers not
+ * assigned to any location, cover the whole organization.
+ */
+
+export interface DigestItem {
+  label: string;
+  detail?: string;
+  link: string;
+}
+
+export interface DigestSection {
+  key: string;
+  title: string;
+  link: string;
+  items: DigestItem[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMPLIANCE_WARNING_DAYS = 30;
+const MAINTENANCE_LOOKBACK_DAYS = 30;
+
+/**
+ * The most recent check for each check type at each location, kept only if
+ * it didn't pass. A later pass clears an earlier failure.
+ */
+export function getFailingChecks<
+  T extends { checkTypeId: string; locationId: string; status: string; checkDate: Date }
+>(logs: T[]): T[] {
+  const latest = new Map<string, T>();
+  for (const log of logs) {
+    const key = `${log.checkTypeId}:${log.locationId}`;
+    const current = latest.get(key);
+    if (!current || log.checkDate > current.checkDate) {
+      latest.set(key, log);
+    }
+  }
+  return [...latest.values()].filter((log) => log.status !== "PASS");
+}
+
+export function isLowStock(item: { currentStock: number; minimumStock: number }): boolean {
+  return item.currentStock <= item.minimumStock;
+}
+
+export function hasCashDiscrepancy(session: { totalDiscrepancy: number }): boolean {
+  return Math.abs(session.totalDiscrepancy) >= 0.01;
+}
+
+export function countDigestItems(sections: DigestSection[]): number {
+  return sections.reduce((sum, section) => sum + section.items.length, 0);
+}
+
+/**
+ * Whether a manager's digest is due on this local day. Weekly digests go out
+ * on Mondays.
+ */
+export function isDigestDue(frequency: string, localDayOfWeek: number): boolean {
+  if (frequency === "DAILY") return true;
+  if (frequency === "WEEKLY") return localDayOfWeek === 1;
+  return false;
+}
+
+/**
+ * Location ids a manager's digest covers, or null for the whole organization
+ */
+export async function getDigestLocationIds(user: { id: string; role: string }): Promise<string[] | null> {
+  if (user.role === "ADMIN") return null;
+  const access = await prisma.locationStaff.findMany({
+    where: { userId: user.id },
+    select: { locationId: true },
+  });
+  return access.length > 0 ? access.map((a) => a.locationId) : null;
+}
+
+export async function buildManagerDigest(params: {
+  organizationId: string;
+  locationIds: string[] | null;
+  timeZone: string;
+  now: Date;
+}): Promise<DigestSection[]> {
+  const { organizationId, locationIds, timeZone, now } = params;
+
+  const inLocations = locationIds ? { in: locationIds } : undefined;
+  // Staff belong to a location through LocationStaff
+  const staffFilter = locationIds
+    ? { organizationId, locationAccess: { some: { locationId: { in: locationIds } } } }
+    : { organizationId };
+  // Tasks and stock without a location apply to every location
+  const optionalLocation = locationIds
+    ? { OR: [{ locationId: null }, { locationId: { in: locationIds } }] }
+    : {};
+
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short", timeZone });
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone });
+
+  const todayStart = zonedTimeToUtc(getLocalTimeParts(now, timeZone).date, "00:00", timeZone);
+  const complianceCutoff = new Date(now.getTime() + COMPLIANCE_WARNING_DAYS * DAY_MS);
+
+  const [
+    swapRequests,
+    holidayRequests,
+    unapprovedClockIns,
+    missedClockOuts,
+    overdueTasks,
+    maintenanceLogs,
+    inventoryItems,
+    cashUps,
+    expiringCompliance,
+    expiringCertifications,
+  ] = await Promise.all([
+    prisma.swapRequest.findMany({
+      where: {
+        status: "PENDING",
+        shift: { organizationId, ...(inLocations && { locationId: inLocations }) },
+      },
+      include: {
+        fromUser: { select: { name: true } },
+        shift: { select: { title: true, startTime: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.holidayRequest.findMany({
+      where: { status: "PENDING", user: staffFilter },
+      include: { user: { select: { name: true } } },
+      orderBy: { startDate: "asc" },
+    }),
+    prisma.timeEntry.findMany({
+      where: { clockInApproved: false, user: staffFilter },
+      include: {
+        user: { select: { name: true } },
+        shift: { select: { locationId: true } },
+      },
+      orderBy: { clockIn: "asc" },
+    }),
+    prisma.timeEntry.findMany({
+      where: { missedClockOut: true, clockOut: null, user: staffFilter },
+      include: {
+        user: { select: { name: true } },
+        shift: { select: { locationId: true } },
+      },
+      orderBy: { clockIn: "asc" },
+    }),
+    prisma.weeklyTask.findMany({
+      where: { organizationId, isCompleted: false, dueDate: { lt: todayStart }, ...optionalLocation },
+      include: { location: { select: { name: true } } },
+      orderBy: { dueDate: "asc" },
+    }),
+    prisma.maintenanceLog.findMany({
+      where: {
+        organizationId,
+        checkDate: { gte: new Date(now.getTime() - MAINTENANCE_LOOKBACK_DAYS * DAY_MS) },
+        ...(inLocations && { locationId: inLocations }),
+      },
+      include: {
+        checkType: { select: { name: true, isActive: true } },
+        location: { select: { name: true } },
+      },
+    }),
+    prisma.inventoryItem.findMany({
+      where: { organizationId, isActive: true, ...optionalLocation },
+      include: { location: { select: { name: true } } },
+      orderBy: { name: "asc" },
+    }),
+    prisma.cashUpSession.findMany({
+      where: {
+        organizationId,
+        status: "SUBMITTED",
+        ...(inLocations && { locationId: inLocations }),
+      },
+      include: { location: { select: { name: true } } },
+      orderBy: { date: "asc" },
+    }),
+    prisma.userCompliance.findMany({
+      where: { status: "ACTIVE", expiryDate: { lte: complianceCutoff }, user: staffFilter },
+      include: {
+        user: { select: { name: true } },
+        complianceItem: { select: { name: true } },
+      },
+      orderBy: { expiryDate: "asc" },
+    }),
+    prisma.userCertification.findMany({
+      where: { status: "ACTIVE", expiryDate: { not: null, lte: complianceCutoff }, user: staffFilter },
+      include: {
+        user: { select: { name: true } },
+        certificationType: { select: { name: true } },
+      },
+      orderBy: { expiryDate: "asc" },
+    }),
+  ]);
+
+  const timesheetLink = (locationId?: string | null) =>
+    locationId ? `/dashboard/timesheet?location=${locationId}` : "/dashboard/timesheet";
+  const expiryDetail = (expiryDate: Date) =>
+    expiryDate < now ? `Expired ${formatDay(expiryDate)}` : `Expires ${formatDay(expiryDate)}`;
+
+  const sections: DigestSection[] = [
+    {
+      key: "swaps",
+      title: "Swap and drop requests",
+      link: "/dashboard/swaps",
+      items: swapRequests.map((r) => ({
+        label: `${r.fromUser.name} wants to ${r.type === "drop" ? "drop" : "swap"} "${r.shift.title}"`,
+        detail: `${formatDay(r.shift.startTime)} at ${formatTime(r.shift.startTime)}`,
+        link: "/dashboard/swaps",
+      })),
+    },
+    {
+      key: "holidays",
+      title: "Leave requests",
+      link: "/dashboard/holidays",
+      items: holidayRequests.map((r) => ({
+        label: `${r.user.name}: ${r.hours} hours ${getAbsenceLabel(r.type).toLowerCase()}`,
+        detail: `${formatDay(r.startDate)} to ${formatDay(r.endDate)}`,
+        link: "/dashboard/holidays",
+      })),
+    },
+    {
+      key: "clockIns",
+      title: "Early or late clock-ins to approve",
+      link: "/dashboard/timesheet",
+      items: unapprovedClockIns.map((e) => ({
+        label: `${e.user.name} clocked in ${e.clockInFlag === "EARLY" ? "early" : "late"}`,
+        detail: `${formatDay(e.clockIn)} at ${formatTime(e.clockIn)}`,
+        link: timesheetLink(e.shift?.locationId),
+      })),
+    },
+    {
+      key: "missedClockOuts",
+      title: "Missed clock-outs",
+      link: "/dashboard/timesheet",
+      items: missedClockOuts.map((e) => ({
+        label: `${e.user.name} didn't clock out`,
+        detail: `Clocked in ${formatDay(e.clockIn)} at ${formatTime(e.clockIn)}`,
+        link: timesheetLink(e.shift?.locationId),
+      })),
+    },
+    {
+      key: "tasks",
+      title: "Overdue tasks",
+      link: "/dashboard/tasks",
+      items: overdueTasks.map((t) => ({
+        label: t.name,
+        detail: `Due ${formatDay(t.dueDate)}${t.location ? ` at ${t.location.name}` : ""}`,
+        link: "/dashboard/tasks",
+      })),
+    },
+    {
+      key: "maintenance",
+      title: "Failing maintenance checks",
+      link: "/dashboard/maintenance",
+      items: getFailingChecks(maintenanceLogs.filter((l) => l.checkType.isActive)).map((l) => ({
+        label: `${l.checkType.name} at ${l.location.name}`,
+        detail: `${l.status === "FAIL" ? "Failed" : "Needs attention"} on ${formatDay(l.checkDate)}${l.notes ? `: ${l.notes}` : ""}`,
+        link: "/dashboard/maintenance",
+      })),
+    },
+    {
+      key: "inventory",
+      title: "Low stock",
+      link: "/dashboard/inventory",
+      items: inventoryItems.filter(isLowStock).map((i) => ({
+        label: `${i.name}${i.location ? ` at ${i.location.name}` : ""}`,
+        detail: `${i.currentStock} ${i.unit} left (minimum ${i.minimumStock})`,
+        link: "/dashboard/inventory",
+      })),
+    },
+    {
+      key: "cashUps",
+      title: "Cash-ups with discrepancies to review",
+      link: "/dashboard/cash",
+      items: cashUps.filter(hasCashDiscrepancy).map((c) => ({
+        label: `${c.location.name} on ${formatDay(c.date)}`,
+        detail: `${c.totalDiscrepancy > 0 ? "Over" : "Short"} by £${Math.abs(c.totalDiscrepancy).toFixed(2)}`,
+        link: `/dashboard/cash?locationId=${c.locationId}`,
+      })),
+    },
+    {
+      key: "compliance",
+      title: "Expiring compliance",
+      link: "/dashboard/compliance",
+      items: [
+        ...expiringCompliance.map((c) => ({
+          label: `${c.user.name}: ${c.complianceItem.name}`,
+          detail: expiryDetail(c.expiryDate),
+          link: "/dashboard/compliance",
+          expiryDate: c.expiryDate,
+        })),
+        ...expiringCertifications.map((c) => ({
+          label: `${c.user.name}: ${c.certificationType.name}`,
+          detail: expiryDetail(c.expiryDate!),
+          link: "/dashboard/compliance",
+          expiryDate: c.expiryDate!,
+        })),
+      ]
+        .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime())
+        .map(({ label, detail, link }) => ({ label, detail, link })),
+    },
+  ];
+
+  return sections.filter((section) => section.items.length > 0);
+}
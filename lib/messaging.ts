@@ -0,0 +1,527 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { dispatchNotifications } from "@/lib/notifications";
+import { ForbiddenError, NotFoundError } from "@/lib/errors";
+
+/**
+ * In-app messaging
+ *
+ * Messages live in one of four conversations, identified by a key:
+ *   dm:<userId>              direct messages (Message.receiverId)
+ *   shift:<shiftId>          thread attached to a shift (Message.shiftId)
+ *   location:<locationId>    broadcast channel for a location (Message.locationId)
+ *   timesheet:<timesheetId>  queries about a week's timesheet (Message.timesheetId)
+ *
+ * Read receipts are MessageRead rows. A message is unread for a user until
+ * they have a MessageRead for it; people never have unread messages they sent.
+ */
+
+export type ConversationType = "dm" | "shift" | "location" | "timesheet";
+
+export interface ConversationRef {
+  type: ConversationType;
+  id: string;
+}
+
+export interface MessagingUser {
+  id: string;
+  role: string;
+  organizationId: string;
+}
+
+export interface ConversationSummary {
+  key: string;
+  type: ConversationType;
+  title: string;
+  subtitle: string | null;
+  lastMessage: { content: string; createdAt: Date; senderName: string } | null;
+  unreadCount: number;
+}
+
+export interface UnreadCounts {
+  total: number;
+  direct: number;
+  shifts: number;
+  locations: number;
+  timesheets: number;
+}
+
+interface ResolvedConversation {
+  key: string;
+  type: ConversationType;
+  title: string;
+  canPost: boolean;
+  where: Prisma.MessageWhereInput;
+  data: { receiverId?: string; shiftId?: string; locationId?: string; timesheetId?: string };
+  getRecipientIds: () => Promise<string[]>;
+}
+
+const CONVERSATION_TYPES: ConversationType[] = ["dm", "shift", "location", "timesheet"];
+const PUSH_PREVIEW_LENGTH = 120;
+
+export function parseConversationKey(key: string): ConversationRef | null {
+  const [type, id, ...rest] = key.split(":");
+  if (rest.length > 0 || !id || !CONVERSATION_TYPES.includes(type as ConversationType)) {
+    return null;
+  }
+  return { type: type as ConversationType, id };
+}
+
+export function formatConversationKey(ref: ConversationRef): string {
+  return `${ref.type}:${ref.id}`;
+}
+
+export function truncateMessage(content: string, length = PUSH_PREVIEW_LENGTH): string {
+  const singleLine = content.replace(/\s+/g, " ").trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
+
+function isManagerRole(role: string): boolean {
+  return role === "MANAGER" || role === "ADMIN";
+}
+
+function unreadFor(userId: string): Prisma.MessageWhereInput {
+  return {
+    senderId: { not: userId },
+    reads: { none: { userId } },
+  };
+}
+
+/**
+ * Locations whose broadcast channel a user can read. Admins see every active
+ * location; everyone else sees the locations they are staffed at.
+ */
+export async function getAccessibleLocationIds(user: MessagingUser): Promise<string[]> {
+  const locations = await prisma.location.findMany({
+    where: {
+      organizationId: user.organizationId,
+      isActive: true,
+      ...(user.role === "ADMIN" ? {} : { staff: { some: { userId: user.id } } }),
+    },
+    select: { id: true },
+  });
+  return locations.map((l) => l.id);
+}
+
+// Shift threads a user takes part in: their own shifts, shifts they created,
+// and any thread they have posted in
+function shiftParticipantFilter(user: MessagingUser): Prisma.ShiftWhereInput {
+  return {
+    organizationId: user.organizationId,
+    OR: [
+      { assignedToId: user.id },
+      { createdById: user.id },
+      { messages: { some: { senderId: user.id } } },
+    ],
+  };
+}
+
+// Timesheet threads a user takes part in: queries about their own weeks, and
+// for managers every timesheet query
+function timesheetParticipantFilter(user: MessagingUser): Prisma.TimesheetWhereInput {
+  return {
+    organizationId: user.organizationId,
+    ...(isManagerRole(user.role) ? {} : { userId: user.id }),
+  };
+}
+
+/**
+ * Check access to a conversation and describe how to query and post to it.
+ * Throws NotFoundError for unknown conversations and ForbiddenError when the
+ * user cannot see it.
+ */
+export async function resolveConversation(
+  user: MessagingUser,
+  key: string
+): Promise<ResolvedConversation> {
+  const ref = parseConversationKey(key);
+  if (!ref) {
+    throw new NotFoundError("Conversation not found");
+  }
+
+  if (ref.type === "dm") {
+    if (ref.id === user.id) {
+      throw new ForbiddenError("You cannot message yourself");
+    }
+    const other = await prisma.user.findFirst({
+      where: { id: ref.id, organizationId: user.organizationId },
+      select: { id: true, name: true },
+    });
+    if (!other) {
+      throw new NotFoundError("User not found");
+    }
+    return {
+      key,
+      type: "dm",
+      title: other.name,
+      canPost: true,
+      where: {
+        OR: [
+          { senderId: user.id, receiverId: other.id },
+          { senderId: other.id, receiverId: user.id },
+        ],
+      },
+      data: { receiverId: other.id },
+      getRecipientIds: async () => [other.id],
+    };
+  }
+
+  if (ref.type === "shift") {
+    const shift = await prisma.shift.findFirst({
+      where: { id: ref.id, organizationId: user.organizationId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        assignedToId: true,
+        createdById: true,
+        locationId: true,
+      },
+    });
+    if (!shift) {
+      throw new NotFoundError("Shift not found");
+    }
+
+    const isParticipant = shift.assignedToId === user.id || shift.createdById === user.id;
+    if (!isManagerRole(user.role) && !isParticipant) {
+      // Colleagues at the same location can join published shift threads
+      const atLocation = shift.locationId
+        ? (await getAccessibleLocationIds(user)).includes(shift.locationId)
+        : false;
+      if (shift.status === "DRAFT" || !atLocation) {
+        throw new ForbiddenError("You do not have access to this shift");
+      }
+    }
+
+    return {
+      key,
+      type: "shift",
+      title: shift.title,
+      canPost: true,
+      where: { shiftId: shift.id },
+      data: { shiftId: shift.id },
+      getRecipientIds: async () => {
+        const senders = await prisma.message.findMany({
+          where: { shiftId: shift.id },
+          select: { senderId: true },
+          distinct: ["senderId"],
+        });
+        const ids = new Set<string>(senders.map((m) => m.senderId));
+        if (shift.assignedToId) ids.add(shift.assignedToId);
+        if (shift.createdById) ids.add(shift.createdById);
+        ids.delete(user.id);
+        return [...ids];
+      },
+    };
+  }
+
+  if (ref.type === "timesheet") {
+    const timesheet = await prisma.timesheet.findFirst({
+      where: { id: ref.id, ...timesheetParticipantFilter(user) },
+      select: { id: true, weekStart: true, userId: true, user: { select: { name: true } } },
+    });
+    if (!timesheet) {
+      throw new NotFoundError("Timesheet not found");
+    }
+
+    return {
+      key,
+      type: "timesheet",
+      title: `${timesheet.user.name}: week of ${timesheet.weekStart}`,
+      canPost: true,
+      where: { timesheetId: timesheet.id },
+      data: { timesheetId: timesheet.id },
+      getRecipientIds: async () => {
+        const senders = await prisma.message.findMany({
+          where: { timesheetId: timesheet.id },
+          select: { senderId: true },
+          distinct: ["senderId"],
+        });
+        const ids = new Set<string>([timesheet.userId, ...senders.map((m) => m.senderId)]);
+        ids.delete(user.id);
+        if (ids.size > 0) return [...ids];
+
+        // An employee starting a query reaches every manager
+        const managers = await prisma.user.findMany({
+          where: {
+            organizationId: user.organizationId,
+            role: { in: ["MANAGER", "ADMIN"] },
+            id: { not: user.id },
+          },
+          select: { id: true },
+        });
+        return managers.map((m) => m.id);
+      },
+    };
+  }
+
+  const location = await prisma.location.findFirst({
+    where: { id: ref.id, organizationId: user.organizationId },
+    select: { id: true, name: true },
+  });
+  if (!location) {
+    throw new NotFoundError("Location not found");
+  }
+  if (!(await getAccessibleLocationIds(user)).includes(location.id)) {
+    throw new ForbiddenError("You do not have access to this location");
+  }
+
+  return {
+    key,
+    type: "location",
+    title: location.name,
+    // Broadcast channels are one-way from managers
+    canPost: isManagerRole(user.role),
+    where: { locationId: location.id },
+    data: { locationId: location.id },
+    getRecipientIds: async () => {
+      const staff = await prisma.locationStaff.findMany({
+        where: { locationId: location.id, userId: { not: user.id } },
+        select: { userId: true },
+      });
+      return staff.map((s) => s.userId);
+    },
+  };
+}
+
+export async function getUnreadCounts(user: MessagingUser): Promise<UnreadCounts> {
+  const locationIds = await getAccessibleLocationIds(user);
+
+  const [direct, shifts, locations, timesheets] = await Promise.all([
+    prisma.message.count({
+      where: { receiverId: user.id, ...unreadFor(user.id) },
+    }),
+    prisma.message.count({
+      where: { shift: shiftParticipantFilter(user), ...unreadFor(user.id) },
+    }),
+    locationIds.length > 0
+      ? prisma.message.count({
+          where: { locationId: { in: locationIds }, ...unreadFor(user.id) },
+        })
+      : 0,
+    prisma.message.count({
+      where: { timesheet: timesheetParticipantFilter(user), ...unreadFor(user.id) },
+    }),
+  ]);
+
+  return { total: direct + shifts + locations + timesheets, direct, shifts, locations, timesheets };
+}
+
+/**
+ * Every conversation the user can see that has activity, plus their location
+ * channels, most recent first
+ */
+export async function listConversations(user: MessagingUser): Promise<ConversationSummary[]> {
+  const locationIds = await getAccessibleLocationIds(user);
+
+  const [directMessages, locations, shifts, timesheets] = await Promise.all([
+    prisma.message.findMany({
+      where: {
+        receiverId: { not: null },
+        OR: [{ senderId: user.id }, { receiverId: user.id }],
+        sender: { organizationId: user.organizationId },
+      },
+      include: {
+        sender: { select: { id: true, name: true } },
+        receiver: { select: { id: true, name: true } },
+        reads: { where: { userId: user.id }, select: { id: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 500,
+    }),
+    prisma.location.findMany({
+      where: { id: { in: locationIds } },
+      select: {
+        id: true,
+        name: true,
+        messages: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          include: { sender: { select: { name: true } } },
+        },
+        _count: { select: { messages: { where: unreadFor(user.id) } } },
+      },
+    }),
+    prisma.shift.findMany({
+      where: { ...shiftParticipantFilter(user), messages: { some: {} } },
+      select: {
+        id: true,
+        title: true,
+        startTime: true,
+        messages: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          include: { sender: { select: { name: true } } },
+        },
+        _count: { select: { messages: { where: unreadFor(user.id) } } },
+      },
+      orderBy: { updatedAt: "desc" },
+      take: 50,
+    }),
+    prisma.timesheet.findMany({
+      where: { ...timesheetParticipantFilter(user), messages: { some: {} } },
+      select: {
+        id: true,
+        weekStart: true,
+        status: true,
+        user: { select: { name: true } },
+        messages: {
+          orderBy: { createdAt: "desc" },
+          take: 1,
+          include: { sender: { select: { name: true } } },
+        },
+        _count: { select: { messages: { where: unreadFor(user.id) } } },
+      },
+      orderBy: { updatedAt: "desc" },
+      take: 50,
+    }),
+  ]);
+
+  const conversations = new Map<string, ConversationSummary>();
+
+  for (const message of directMessages) {
+    const other = message.senderId === user.id ? message.receiver! : message.sender;
+    const key = formatConversationKey({ type: "dm", id: other.id });
+    let conversation = conversations.get(key);
+    if (!conversation) {
+      // Messages are newest first, so the first one seen is the latest
+      conversation = {
+        key,
+        type: "dm",
+        title: other.name,
+        subtitle: null,
+        lastMessage: {
+          content: message.content,
+          createdAt: message.createdAt,
+          senderName: message.sender.name,
+        },
+        unreadCount: 0,
+      };
+      conversations.set(key, conversation);
+    }
+    if (message.receiverId === user.id && message.reads.length === 0) {
+      conversation.unreadCount++;
+    }
+  }
+
+  for (const location of locations) {
+    const last = location.messages[0];
+    const key = formatConversationKey({ type: "location", id: location.id });
+    conversations.set(key, {
+      key,
+      type: "location",
+      title: location.name,
+      subtitle: "Location broadcast",
+      lastMessage: last
+        ? { content: last.content, createdAt: last.createdAt, senderName: last.sender.name }
+        : null,
+      unreadCount: location._count.messages,
+    });
+  }
+
+  for (const shift of shifts) {
+    const last = shift.messages[0];
+    const key = formatConversationKey({ type: "shift", id: shift.id });
+    conversations.set(key, {
+      key,
+      type: "shift",
+      title: shift.title,
+      subtitle: shift.startTime.toISOString(),
+      lastMessage: last
+        ? { content: last.content, createdAt: last.createdAt, senderName: last.sender.name }
+        : null,
+      unreadCount: shift._count.messages,
+    });
+  }
+
+  for (const timesheet of timesheets) {
+    const last = timesheet.messages[0];
+    const key = formatConversationKey({ type: "timesheet", id: timesheet.id });
+    conversations.set(key, {
+      key,
+      type: "timesheet",
+      title: `${timesheet.user.name}: week of ${timesheet.weekStart}`,
+      subtitle: timesheet.status === "APPROVED" ? "Timesheet approved" : "Timesheet query",
+      lastMessage: last
+        ? { content: last.content, createdAt: last.createdAt, senderName: last.sender.name }
+        : null,
+      unreadCount: timesheet._count.messages,
+    });
+  }
+
+  return [...conversations.values()].sort(
+    (a, b) => (b.lastMessage?.createdAt.getTime() ?? 0) - (a.lastMessage?.createdAt.getTime() ?? 0)
+  );
+}
+
+/**
+ * Record read receipts for everything in a conversation the user hasn't read
+ */
+export async function markConversationRead(
+  user: MessagingUser,
+  conversation: ResolvedConversation
+): Promise<number> {
+  const unread = await prisma.message.findMany({
+    where: { AND: [conversation.where, unreadFor(user.id)] },
+    select: { id: true },
+  });
+  if (unread.length === 0) return 0;
+
+  const result = await prisma.messageRead.createMany({
+    data: unread.map((m) => ({ messageId: m.id, userId: user.id })),
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * Post a message and push it to everyone else in the conversation
+ */
+export async function sendMessage(
+  sender: MessagingUser & { name: string },
+  conversation: ResolvedConversation,
+  content: string
+) {
+  if (!conversation.canPost) {
+    throw new ForbiddenError("Only managers can post to location broadcasts");
+  }
+
+  const message = await prisma.message.create({
+    data: {
+      content,
+      senderId: sender.id,
+      ...conversation.data,
+      // Senders have always read their own message
+      reads: { create: { userId: sender.id } },
+    },
+    include: {
+      sender: { select: { id: true, name: true, avatarUrl: true } },
+      reads: { select: { userId: true, readAt: true, user: { select: { name: true } } } },
+    },
+  });
+
+  const recipientIds = await conversation.getRecipientIds();
+  if (recipientIds.length > 0) {
+    const title = conversation.type === "dm"
+      ? sender.name
+      : `${sender.name} in ${conversation.title}`;
+    // The recipient of a direct message sees it as a conversation with the sender
+    const recipientKey = conversation.type === "dm"
+      ? formatConversationKey({ type: "dm", id: sender.id })
+      : conversation.key;
+
+    await dispatchNotifications(
+      recipientIds.map((userId) => ({
+        userId,
+        type: "MESSAGE",
+        title,
+        message: truncateMessage(content),
+        link: `/dashboard/messages?c=${encodeURIComponent(recipientKey)}`,
+        dedupeKey: `MESSAGE:${message.id}`,
+        push: { tag: `message-${recipientKey}` },
+      }))
+    );
+  }
+
+  return message;
+}
@@ -0,0 +1,150 @@
+import { getLocalTimeParts } from "@/lib/shift-conflicts";
+import { addDaysToDateString, zonedTimeToUtc } from "@/lib/utils";
+
+/**
+ * Notification preferences
+ *
+ * Each notification type has default channels. Users can override them per
+ * type (stored in NotificationPreference) and set quiet hours, during which
+ * push notifications are held until the quiet hours end. Digest replaces an
+ * immediate email with a daily summary email.
+ */
+
+export const NOTIFICATION_CHANNELS = ["inApp", "email", "push", "digest"] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export type ChannelSettings = Record<NotificationChannel, boolean>;
+
+export interface NotificationTypeConfig {
+  label: string;
+  category: string;
+  defaults: ChannelSettings;
+  // Channels the user can change; the rest stay at their defaults
+  configurable?: NotificationChannel[];
+  managersOnly?: boolean;
+}
+
+const ALL_CHANNELS: NotificationChannel[] = [...NOTIFICATION_CHANNELS];
+
+const standard = (email = false): ChannelSettings => ({ inApp: true, email, push: true, digest: false });
+
+export const NOTIFICATION_TYPES: Record<string, NotificationTypeConfig> = {
+  SHIFT_REMINDER: { label: "Shift reminders", category: "Shifts", defaults: standard(true) },
+  ROTA_PUBLISHED: { label: "Rota published or changed", category: "Shifts", defaults: standard(true) },
+  SHIFT_PICKUP: { label: "Open shift picked up", category: "Shifts", defaults: standard() },
+  SWAP_REQUEST: { label: "Swap requests", category: "Shifts", defaults: standard() },
+  DROP_REQUEST: { label: "Drop requests", category: "Shifts", defaults: standard() },
+  REQUEST_APPROVED: { label: "Swap or drop approved", category: "Shifts", defaults: standard() },
+  REQUEST_REJECTED: { label: "Swap or drop rejected", category: "Shifts", defaults: standard() },
+  HOLIDAY_REQUEST: { label: "Holiday requests", category: "Holidays", defaults: standard() },
+  HOLIDAY_APPROVED: { label: "Holiday approved", category: "Holidays", defaults: standard(true) },
+  HOLIDAY_REJECTED: { label: "Holiday rejected", category: "Holidays", defaults: standard(true) },
+  SICKNESS_REPORTED: { label: "Sickness reported", category: "Holidays", defaults: standard(), managersOnly: true },
+  CLOCKIN_APPROVED: { label: "Clock-in approved", category: "Timesheets", defaults: standard() },
+  CLOCKIN_REJECTED: { label: "Clock-in rejected", category: "Timesheets", defaults: standard() },
+  TIMESHEET_APPROVED: { label: "Timesheet approved", category: "Timesheets", defaults: standard() },
+  TIMESHEET_REJECTED: { label: "Timesheet rejected", category: "Timesheets", defaults: standard() },
+  TIMESHEET_EDITED: { label: "Timesheet edited by a manager", category: "Timesheets", defaults: standard() },
+  MANUAL_TIME_ENTRY: { label: "Time added by a manager", category: "Timesheets", defaults: standard() },
+  MISSED_CLOCK_OUT: { label: "Missed clock-outs", category: "Timesheets", defaults: standard() },
+  SPEND_REQUEST: { label: "Spend requests", category: "Spend", defaults: standard() },
+  SPEND_APPROVED: { label: "Spend approved", category: "Spend", defaults: standard() },
+  SPEND_REJECTED: { label: "Spend rejected", category: "Spend", defaults: standard() },
+  REVIEW_COMPLETED: { label: "Compliance review completed", category: "Compliance", defaults: standard() },
+  REVIEW_ACKNOWLEDGED: { label: "Compliance review acknowledged", category: "Compliance", defaults: standard() },
+  CERTIFICATION_EXPIRY: { label: "Certifications expiring", category: "Compliance", defaults: standard(true) },
+  DEFECT_ASSIGNED: { label: "Defects assigned to you", category: "Maintenance", defaults: standard() },
+  DEFECT_RAISED: { label: "Safety-critical defects", category: "Maintenance", defaults: standard(true), managersOnly: true },
+  ANNOUNCEMENT: { label: "Announcements", category: "Team", defaults: standard() },
+  MANAGER_DIGEST: {
+    label: "Manager digest",
+    category: "Team",
+    // Email is controlled by the digest frequency instead
+    defaults: { inApp: true, email: true, push: false, digest: false },
+    configurable: ["inApp", "push"],
+    managersOnly: true,
+  },
+  MESSAGE: {
+    label: "New messages",
+    category: "Team",
+    // Messages have their own inbox, so they never appear in the bell
+    defaults: { inApp: false, email: false, push: true, digest: false },
+    configurable: ["email", "push", "digest"],
+  },
+  CREDENTIALS_SENT: {
+    label: "Login details sent",
+    category: "Account",
+    defaults: standard(),
+    configurable: ["push"],
+  },
+  PASSWORD_RESET: {
+    label: "Password reset",
+    category: "Account",
+    defaults: standard(),
+    configurable: ["push"],
+  },
+};
+
+const FALLBACK_TYPE: NotificationTypeConfig = {
+  label: "Other",
+  category: "Other",
+  defaults: standard(),
+};
+
+export function getNotificationTypeConfig(type: string): NotificationTypeConfig {
+  return NOTIFICATION_TYPES[type] ?? FALLBACK_TYPE;
+}
+
+/**
+ * The channels a notification of this type goes to, given the user's stored
+ * preference (if any). Digest takes the place of an immediate email.
+ */
+export function resolveChannels(
+  type: string,
+  preference?: Partial<ChannelSettings> | null
+): ChannelSettings {
+  const config = getNotificationTypeConfig(type);
+  const configurable = config.configurable ?? ALL_CHANNELS;
+
+  const channels = { ...config.defaults };
+  for (const channel of configurable) {
+    const value = preference?.[channel];
+    if (typeof value === "boolean") {
+      channels[channel] = value;
+    }
+  }
+
+  if (channels.digest) {
+    channels.email = false;
+  }
+  return channels;
+}
+
+/**
+ * Whether a local "HH:mm" time falls in quiet hours. Quiet hours may run
+ * overnight (e.g. 22:00 to 07:00); equal start and end means none.
+ */
+export function isInQuietHours(localTime: string, start: string | null, end: string | null): boolean {
+  if (!start || !end || start === end) return false;
+  if (start < end) {
+    return localTime >= start && localTime < end;
+  }
+  return localTime >= start || localTime < end;
+}
+
+/**
+ * When the current quiet hours end, or null if `now` is outside quiet hours
+ */
+export function getQuietHoursEnd(
+  now: Date,
+  timeZone: string,
+  start: string | null,
+  end: string | null
+): Date | null {
+  const local = getLocalTimeParts(now, timeZone);
+  if (!isInQuietHours(local.time, start, end)) return null;
+
+  const endDate = local.time < end! ? local.date : addDaysToDateString(local.date, 1);
+  return zonedTimeToUtc(endDate, end!, timeZone);
+}
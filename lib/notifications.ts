@@ -1,43 +1,334 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/db";
-import { sendPushNotification, sendPushToUsers } from "@/lib/push";
+import { sendEmail, notificationEmail, notificationDigestEmail } from "@/lib/email";
+import { isPushConfigured, sendPushNotification, type PushPayload } from "@/lib/push";
+import { enqueueJob } from "@/lib/jobs";
+import { getQuietHoursEnd, resolveChannels } from "@/lib/notification-preferences";
 
-interface NotificationData {
+/**
+ * Notification dispatcher
+ *
+ * Every notification goes through dispatchNotifications, which works out each
+ * recipient's channels from their preferences, fans out to in-app, email,
+ * push and digest, and records a NotificationDelivery per channel so it's
+ * clear why someone did or didn't hear about something.
+ */
+
+export interface NotificationData {
   userId: string;
   type: string;
   title: string;
   message: string;
   link?: string;
+  // Skips the notification if the user has already had one with this key
+  dedupeKey?: string;
+  // Replaces the generic notification email
+  email?: { subject: string; html: string; text: string };
+  // Replaces the push body or tag (the title is always the notification title)
+  push?: { body?: string; tag?: string };
 }
 
-export async function createNotification(data: NotificationData) {
-  const notification = await prisma.notification.create({ data });
+type DeliveryResult = Pick<Prisma.NotificationDeliveryCreateManyInput, "status" | "reason" | "error" | "sentAt">;
 
-  // Fire-and-forget push notification
-  sendPushNotification(data.userId, {
-    title: data.title,
-    body: data.message,
-    link: data.link,
-    tag: data.type,
-    icon: "/icons/icon-192.png",
-  }).catch(() => {});
+export const APP_URL = process.env.NEXTAUTH_URL || "https://app.example.com";
+const DISABLED = "Turned off in notification preferences";
+
+const recipientSelect = {
+  id: true,
+  name: true,
+  email: true,
+  organizationId: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  organization: { select: { name: true, timezone: true } },
+} as const;
+
+type Recipient = Prisma.UserGetPayload<{ select: typeof recipientSelect }>;
+
+function formatLocalTime(date: Date, timeZone: string) {
+  return date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone });
+}
+
+async function deliverPush(userId: string, payload: PushPayload): Promise<DeliveryResult> {
+  if (!isPushConfigured()) {
+    return { status: "SKIPPED", reason: "Push notifications are not configured" };
+  }
+
+  const results = await sendPushNotification(userId, payload);
+  if (results.length === 0) {
+    return { status: "SKIPPED", reason: "No devices subscribed to push" };
+  }
+
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+  if (failures.length === results.length) {
+    const reason = failures[0].reason;
+    return { status: "FAILED", error: reason instanceof Error ? reason.message : String(reason) };
+  }
+  return { status: "SENT", sentAt: new Date() };
+}
+
+async function deliverEmail(
+  item: NotificationData,
+  recipient: Recipient
+): Promise<DeliveryResult> {
+  if (!recipient.email) {
+    return { status: "SKIPPED", reason: "No email address" };
+  }
+
+  const content = item.email ?? notificationEmail({
+    recipientName: recipient.name || "Team Member",
+    title: item.title,
+    message: item.message,
+    linkUrl: item.link ? `${APP_URL}${item.link}` : undefined,
+    organizationName: recipient.organization.name,
+  });
+
+  const result = await sendEmail({ to: recipient.email, ...content });
+  return result.success
+    ? { status: "SENT", sentAt: new Date() }
+    : { status: "FAILED", error: result.error || "Failed to send email" };
+}
+
+async function dispatchToRecipient(
+  item: NotificationData,
+  recipient: Recipient,
+  preference: Prisma.NotificationPreferenceGetPayload<object> | undefined,
+  now: Date
+) {
+  const channels = resolveChannels(item.type, preference);
+
+  let notification;
+  try {
+    notification = await prisma.notification.create({
+      data: {
+        userId: item.userId,
+        type: item.type,
+        title: item.title,
+        message: item.message,
+        link: item.link,
+        dedupeKey: item.dedupeKey,
+        showInApp: channels.inApp,
+        pushBody: item.push?.body,
+        pushTag: item.push?.tag,
+      },
+    });
+  } catch (error) {
+    // Another request sent the same notification first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return null;
+    }
+    throw error;
+  }
+
+  const timeZone = recipient.organization.timezone || "UTC";
+  const quietHoursEnd = getQuietHoursEnd(now, timeZone, recipient.quietHoursStart, recipient.quietHoursEnd);
+
+  const [email, push] = await Promise.all([
+    channels.email
+      ? deliverEmail(item, recipient)
+      : ({ status: "SKIPPED", reason: channels.digest ? "Included in daily digest" : DISABLED } as DeliveryResult),
+    !channels.push
+      ? ({ status: "SKIPPED", reason: DISABLED } as DeliveryResult)
+      : quietHoursEnd
+        ? ({ status: "DEFERRED", reason: `Quiet hours until ${formatLocalTime(quietHoursEnd, timeZone)}` } as DeliveryResult)
+        : deliverPush(item.userId, {
+            title: item.title,
+            body: item.push?.body ?? item.message,
+            link: item.link,
+            tag: item.push?.tag ?? item.type,
+            icon: "/icons/icon-192.png",
+          }),
+  ]);
+
+  const deliveries: Prisma.NotificationDeliveryCreateManyInput[] = [
+    channels.inApp
+      ? { notificationId: notification.id, channel: "IN_APP", status: "SENT", sentAt: now }
+      : { notificationId: notification.id, channel: "IN_APP", status: "SKIPPED", reason: DISABLED },
+    { notificationId: notification.id, channel: "EMAIL", ...email },
+  ];
+  if (channels.digest) {
+    deliveries.push({ notificationId: notification.id, channel: "DIGEST", status: "QUEUED" });
+  }
+  await prisma.notificationDelivery.createMany({ data: deliveries });
+
+  // Deferred push needs its own delivery id for the job that sends it later
+  const pushDelivery = await prisma.notificationDelivery.create({
+    data: { notificationId: notification.id, channel: "PUSH", ...push },
+  });
+  if (pushDelivery.status === "DEFERRED" && quietHoursEnd) {
+    await enqueueJob({
+      type: "SEND_DEFERRED_PUSH",
+      organizationId: recipient.organizationId,
+      payload: { deliveryId: pushDelivery.id },
+      idempotencyKey: `SEND_DEFERRED_PUSH:${pushDelivery.id}`,
+      runAt: quietHoursEnd,
+    });
+  }
 
   return notification;
 }
 
-export async function createNotifications(dataArray: NotificationData[]) {
-  if (dataArray.length === 0) return;
+/**
+ * Send notifications to their recipients over the channels each recipient
+ * has chosen. Duplicates within the batch, and anything whose dedupeKey the
+ * recipient has already had, are dropped.
+ */
+export async function dispatchNotifications(items: NotificationData[]) {
+  const seen = new Set<string>();
+  const unique = items.filter((item) => {
+    const key = `${item.userId}|${item.dedupeKey ?? `${item.type}|${item.title}|${item.message}`}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (unique.length === 0) return [];
+
+  const keyed = unique.filter((item) => item.dedupeKey);
+  const alreadySent = keyed.length > 0
+    ? await prisma.notification.findMany({
+        where: { OR: keyed.map((item) => ({ userId: item.userId, dedupeKey: item.dedupeKey })) },
+        select: { userId: true, dedupeKey: true },
+      })
+    : [];
+  const sentKeys = new Set(alreadySent.map((n) => `${n.userId}|${n.dedupeKey}`));
+  const pending = unique.filter((item) => !item.dedupeKey || !sentKeys.has(`${item.userId}|${item.dedupeKey}`));
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(pending.map((item) => item.userId))] } },
+    select: {
+      ...recipientSelect,
+      notificationPreferences: {
+        where: { type: { in: [...new Set(pending.map((item) => item.type))] } },
+      },
+    },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
 
-  await prisma.notification.createMany({ data: dataArray });
+  const now = new Date();
+  const notifications = await Promise.all(
+    pending.map((item) => {
+      const user = usersById.get(item.userId);
+      if (!user) return null;
+      const preference = user.notificationPreferences.find((p) => p.type === item.type);
+      return dispatchToRecipient(item, user, preference, now);
+    })
+  );
+
+  return notifications.filter((n) => n !== null);
+}
 
-  // Fire-and-forget push notifications
-  const userIds = [...new Set(dataArray.map((d) => d.userId))];
-  const payload = {
-    title: dataArray[0].title,
-    body: dataArray[0].message,
-    link: dataArray[0].link,
-    tag: dataArray[0].type,
+export async function dispatchNotification(data: NotificationData) {
+  const [notification] = await dispatchNotifications([data]);
+  return notification ?? null;
+}
+
+/**
+ * Send a push that was held back by quiet hours
+ */
+export async function sendDeferredPush(deliveryId: string) {
+  const delivery = await prisma.notificationDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { notification: true },
+  });
+  if (!delivery || delivery.status !== "DEFERRED") {
+    return { skipped: true };
+  }
+
+  const { notification } = delivery;
+  const result = await deliverPush(notification.userId, {
+    title: notification.title,
+    body: notification.pushBody ?? notification.message,
+    link: notification.link ?? undefined,
+    tag: notification.pushTag ?? notification.type,
     icon: "/icons/icon-192.png",
-  };
+  });
+
+  await prisma.notificationDelivery.update({
+    where: { id: delivery.id },
+    data: result,
+  });
+  return { status: result.status };
+}
+
+/**
+ * Email each user in the organization a summary of their queued digest
+ * notifications. Users whose email fails stay queued for the job's retry.
+ */
+export async function sendNotificationDigests(organizationId: string) {
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { name: true, timezone: true },
+  });
+
+  const queued = await prisma.notificationDelivery.findMany({
+    where: {
+      channel: "DIGEST",
+      status: "QUEUED",
+      notification: { user: { organizationId } },
+    },
+    include: {
+      notification: {
+        include: { user: { select: { id: true, name: true, email: true } } },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const byUser = new Map<string, typeof queued>();
+  for (const delivery of queued) {
+    const userId = delivery.notification.userId;
+    byUser.set(userId, [...(byUser.get(userId) ?? []), delivery]);
+  }
+
+  let digestsSent = 0;
+  const failures: string[] = [];
+
+  for (const deliveries of byUser.values()) {
+    const user = deliveries[0].notification.user;
+    const ids = deliveries.map((d) => d.id);
+
+    if (!user.email) {
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: { status: "SKIPPED", reason: "No email address" },
+      });
+      continue;
+    }
+
+    const content = notificationDigestEmail({
+      recipientName: user.name || "Team Member",
+      items: deliveries.map(({ notification }) => ({
+        title: notification.title,
+        message: notification.message,
+        createdAt: notification.createdAt.toLocaleString("en-GB", {
+          weekday: "short",
+          hour: "2-digit",
+          minute: "2-digit",
+          timeZone: organization.timezone || "UTC",
+        }),
+      })),
+      appUrl: `${APP_URL}/dashboard`,
+      organizationName: organization.name,
+    });
+
+    const result = await sendEmail({ to: user.email, ...content });
+    if (result.success) {
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: { status: "SENT", sentAt: new Date(), error: null },
+      });
+      digestsSent++;
+    } else {
+      await prisma.notificationDelivery.updateMany({
+        where: { id: { in: ids } },
+        data: { error: result.error || "Failed to send digest" },
+      });
+      failures.push(user.id);
+    }
+  }
 
-  sendPushToUsers(userIds, payload).catch(() => {});
+  if (failures.length > 0) {
+    throw new Error(`Failed to send ${failures.length} digest email${failures.length !== 1 ? "s" : ""}`);
+  }
+  return { digestsSent };
 }
@@ -0,0 +1,42 @@
+import { prisma } from "@/lib/db";
+import {
+  getStarterTaxCode,
+  getTaxYearRules,
+  isAutoEnrolmentAge,
+  type PayrollProfile,
+} from "@/lib/uk-payroll";
+
+/**
+ * Payroll profiles from staff starter forms, keyed by user ID, as they stand
+ * on a given date. Staff without a starter form are left out, so callers fall
+ * back to DEFAULT_PAYROLL_PROFILE.
+ */
+export async function getPayrollProfiles(
+  organizationId: string,
+  asOf: Date
+): Promise<Map<string, PayrollProfile>> {
+  const rules = getTaxYearRules(asOf);
+  const forms = await prisma.starterForm.findMany({
+    where: { user: { organizationId } },
+    select: {
+      userId: true,
+      dateOfBirth: true,
+      hasP45: true,
+      p45TaxCode: true,
+      starterDeclaration: true,
+      studentLoanPlan: true,
+      pensionOptOut: true,
+    },
+  });
+
+  return new Map(
+    forms.map((form) => [
+      form.userId,
+      {
+        pensionEnrolled: !form.pensionOptOut && isAutoEnrolmentAge(form.dateOfBirth, asOf),
+        taxCode: getStarterTaxCode(form, rules),
+        studentLoanPlan: form.studentLoanPlan,
+      },
+    ])
+  );
+}
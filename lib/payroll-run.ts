@@ -0,0 +1,575 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { ConflictError, NotFoundError } from "@/lib/errors";
+import { getPayrollProfiles } from "@/lib/payroll-profiles";
+import {
+  getAbsenceHoursInPeriod,
+  getAbsenceRules,
+  getSalaryHourlyEquivalent,
+  type AbsencePay,
+  type PayrollAbsence,
+} from "@/lib/absence-types";
+import {
+  calculateStaffCost,
+  getEffectiveHourlyRate,
+  getTaxYearRules,
+  type PayrollProfile,
+  type TaxYearRules,
+} from "@/lib/uk-payroll";
+
+/**
+ * Payroll runs
+ *
+ * A run snapshots a pay period: approved time entries priced per category with
+ * getEffectiveHourlyRate, salaried staff pro-rated to the period, holiday
+ * accrual, NI and pension at the rates for the tax year of the pay date.
+ * Approved absences are listed by type; unpaid and statutory-paid absence is
+ * taken off salaried pay at the hourly equivalent of their contract. Drafts
+ * can be regenerated as often as needed. Signing off
+ * stores a content hash, makes the run read-only and locks the pay period;
+ * from then on time entry changes in that period are only accepted as
+ * adjustments, which are paid in the next run.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PayrollStaff {
+  id: string;
+  name: string;
+  paymentType: string;
+  monthlySalary: number | null;
+  contractedHours?: number | null;
+  categoryRates: { categoryId: string; hourlyRate: number }[];
+  profile?: PayrollProfile;
+}
+
+export interface PayrollTimeEntry {
+  id: string;
+  userId: string;
+  clockIn: Date;
+  clockOut: Date | null;
+  totalBreak: number;
+  status: string;
+  shift: { category: { id: string; name: string; hourlyRate: number } | null } | null;
+}
+
+export interface PendingAdjustment {
+  id: string;
+  userId: string;
+  hoursDelta: number;
+  amount: number;
+}
+
+export interface CategoryPay {
+  categoryId: string | null;
+  categoryName: string;
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+export interface PayrollLine {
+  userId: string;
+  userName: string;
+  paymentType: string;
+  hours: number;
+  grossPay: number;
+  adjustmentsTotal: number;
+  holidayAccrual: number;
+  employeeNI: number;
+  employerNI: number;
+  employerPension: number;
+  employeePension: number;
+  totalCost: number;
+  categoryBreakdown: CategoryPay[];
+  absenceDeductions: number;
+  absenceBreakdown: AbsencePay[];
+}
+
+export interface PayrollTotals {
+  hours: number;
+  grossPay: number;
+  holidayAccrual: number;
+  employeeNI: number;
+  employerNI: number;
+  employerPension: number;
+  employeePension: number;
+  totalCost: number;
+}
+
+export interface PayrollCalculation {
+  lines: PayrollLine[];
+  totals: PayrollTotals;
+  warnings: string[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function getTimeEntryHours(entry: {
+  clockIn: Date;
+  clockOut: Date | null;
+  totalBreak: number;
+}): number {
+  if (!entry.clockOut) return 0;
+  const minutes = (entry.clockOut.getTime() - entry.clockIn.getTime()) / 60000 - (entry.totalBreak || 0);
+  return Math.max(0, minutes / 60);
+}
+
+/**
+ * Gross pay for a single entry. Salaried staff earn nothing per entry; only
+ * approved entries count.
+ */
+export function getTimeEntryPay(
+  entry: Pick<PayrollTimeEntry, "clockIn" | "clockOut" | "totalBreak" | "status" | "shift">,
+  paymentType: string,
+  categoryRates: PayrollStaff["categoryRates"]
+): { hours: number; rate: number; amount: number } {
+  if (entry.status !== "APPROVED") return { hours: 0, rate: 0, amount: 0 };
+
+  const hours = getTimeEntryHours(entry);
+  const category = entry.shift?.category;
+  const rate = paymentType === "HOURLY" && category
+    ? getEffectiveHourlyRate(category.hourlyRate, categoryRates, category.id)
+    : 0;
+
+  return { hours, rate, amount: hours * rate };
+}
+
+/**
+ * How many months of salary a period is worth. A whole calendar month counts
+ * as exactly one; anything else is pro-rated by day.
+ */
+export function getSalaryFraction(startDate: Date, endDate: Date): number {
+  const isWholeMonth =
+    startDate.getUTCDate() === 1 &&
+    startDate.getUTCFullYear() === endDate.getUTCFullYear() &&
+    startDate.getUTCMonth() === endDate.getUTCMonth() &&
+    new Date(endDate.getTime() + DAY_MS).getUTCDate() === 1;
+  if (isWholeMonth) return 1;
+
+  const days = Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1;
+  return (days * 12) / 365;
+}
+
+export function calculatePayroll(params: {
+  staff: PayrollStaff[];
+  timeEntries: PayrollTimeEntry[];
+  adjustments: PendingAdjustment[];
+  absences?: PayrollAbsence[];
+  startDate: Date;
+  endDate: Date;
+  rules: TaxYearRules;
+}): PayrollCalculation {
+  const { staff, timeEntries, adjustments, absences = [], startDate, endDate, rules } = params;
+  const salaryFraction = getSalaryFraction(startDate, endDate);
+  const warnings = new Set<string>();
+  const lines: PayrollLine[] = [];
+
+  for (const member of staff) {
+    const entries = timeEntries.filter((e) => e.userId === member.id);
+    const memberAdjustments = adjustments.filter((a) => a.userId === member.id);
+    const breakdown = new Map<string, CategoryPay>();
+    let hours = 0;
+
+    const unapproved = entries.filter((e) => e.status === "PENDING").length;
+    if (unapproved > 0) {
+      warnings.add(`${member.name} has ${unapproved} unapproved time ${unapproved === 1 ? "entry" : "entries"} that will not be paid`);
+    }
+    if (entries.some((e) => !e.clockOut)) {
+      warnings.add(`${member.name} has a time entry without a clock out`);
+    }
+
+    for (const entry of entries) {
+      const pay = getTimeEntryPay(entry, member.paymentType, member.categoryRates);
+      if (pay.hours === 0) continue;
+
+      const category = entry.shift?.category;
+      if (member.paymentType === "HOURLY" && !category) {
+        warnings.add(`${member.name} has approved hours with no shift category, so no rate applies`);
+      }
+
+      const key = `${category?.id ?? "none"}|${pay.rate}`;
+      const row = breakdown.get(key) || {
+        categoryId: category?.id ?? null,
+        categoryName: category?.name ?? "Uncategorised",
+        hours: 0,
+        rate: pay.rate,
+        amount: 0,
+      };
+      row.hours += pay.hours;
+      row.amount += pay.amount;
+      breakdown.set(key, row);
+      hours += pay.hours;
+    }
+
+    const adjustmentsTotal = memberAdjustments.reduce((sum, a) => sum + a.amount, 0);
+    hours += memberAdjustments.reduce((sum, a) => sum + a.hoursDelta, 0);
+
+    const absenceBreakdown = new Map<string, AbsencePay>();
+    const hourlyEquivalent = getSalaryHourlyEquivalent(member.monthlySalary, member.contractedHours);
+    for (const absence of absences.filter((a) => a.userId === member.id)) {
+      const absenceHours = getAbsenceHoursInPeriod(absence, startDate, endDate);
+      if (absenceHours === 0) continue;
+
+      const absenceRules = getAbsenceRules(absence.type);
+      const row = absenceBreakdown.get(absence.type) || {
+        type: absence.type,
+        label: absenceRules.label,
+        payrollCode: absenceRules.payrollCode,
+        hours: 0,
+        deduction: 0,
+      };
+      row.hours += absenceHours;
+      if (member.paymentType === "MONTHLY" && absenceRules.pay !== "PAID") {
+        if (hourlyEquivalent === null) {
+          warnings.add(`${member.name} has ${absenceRules.label.toLowerCase()} but no contracted hours, so nothing was taken off their salary`);
+        } else {
+          row.deduction += absenceHours * hourlyEquivalent;
+        }
+      }
+      absenceBreakdown.set(absence.type, row);
+    }
+
+    const salary = (member.monthlySalary || 0) * salaryFraction;
+    const absenceDeductions = Math.min(
+      salary,
+      [...absenceBreakdown.values()].reduce((sum, row) => sum + row.deduction, 0)
+    );
+
+    const basePay = member.paymentType === "MONTHLY"
+      ? salary - absenceDeductions
+      : [...breakdown.values()].reduce((sum, row) => sum + row.amount, 0);
+    const grossPay = round(basePay + adjustmentsTotal);
+
+    if (grossPay === 0 && hours === 0 && absenceBreakdown.size === 0) continue;
+    if (grossPay < 0) {
+      warnings.add(`${member.name} has a negative gross pay after adjustments`);
+    }
+
+    const { holidayAccrual, employeeNI, employerNI, employerPension, employeePension } = calculateStaffCost(
+      Math.max(0, grossPay),
+      member.paymentType,
+      rules,
+      { months: salaryFraction, profile: member.profile }
+    );
+
+    lines.push({
+      userId: member.id,
+      userName: member.name,
+      paymentType: member.paymentType,
+      hours: round(hours),
+      grossPay,
+      adjustmentsTotal: round(adjustmentsTotal),
+      holidayAccrual,
+      employeeNI,
+      employerNI,
+      employerPension,
+      employeePension,
+      totalCost: round(grossPay + holidayAccrual + employerNI + employerPension),
+      categoryBreakdown: [...breakdown.values()].map((row) => ({
+        ...row,
+        hours: round(row.hours),
+        amount: round(row.amount),
+      })),
+      absenceDeductions: round(absenceDeductions),
+      absenceBreakdown: [...absenceBreakdown.values()].map((row) => ({
+        ...row,
+        hours: round(row.hours),
+        deduction: round(row.deduction),
+      })),
+    });
+  }
+
+  lines.sort((a, b) => a.userName.localeCompare(b.userName));
+
+  const totals = lines.reduce(
+    (acc, line) => ({
+      hours: round(acc.hours + line.hours),
+      grossPay: round(acc.grossPay + line.grossPay),
+      holidayAccrual: round(acc.holidayAccrual + line.holidayAccrual),
+      employeeNI: round(acc.employeeNI + line.employeeNI),
+      employerNI: round(acc.employerNI + line.employerNI),
+      employerPension: round(acc.employerPension + line.employerPension),
+      employeePension: round(acc.employeePension + line.employeePension),
+      totalCost: round(acc.totalCost + line.totalCost),
+    }),
+    {
+      hours: 0,
+      grossPay: 0,
+      holidayAccrual: 0,
+      employeeNI: 0,
+      employerNI: 0,
+      employerPension: 0,
+      employeePension: 0,
+      totalCost: 0,
+    }
+  );
+
+  return { lines, totals, warnings: [...warnings] };
+}
+
+/**
+ * Stable hash of a run's figures, stored at sign-off so later tampering shows
+ */
+export function hashPayrollRun(lines: PayrollLine[], totals: PayrollTotals): string {
+  const canonical = lines
+    .map((line) => ({ ...line }))
+    .sort((a, b) => a.userId.localeCompare(b.userId));
+  return createHash("sha256").update(JSON.stringify({ lines: canonical, totals })).digest("hex");
+}
+
+/**
+ * The signed-off pay period (if any) that a moment falls in
+ */
+export async function getLockedPayPeriod(organizationId: string, date: Date) {
+  const periods = await prisma.payPeriod.findMany({
+    where: {
+      organizationId,
+      lockedAt: { not: null },
+      startDate: { lte: date },
+      endDate: { gte: new Date(date.getTime() - DAY_MS) },
+    },
+    select: { id: true, name: true, startDate: true, endDate: true },
+  });
+  // End dates are inclusive days
+  return periods.find((p) => date.getTime() < p.endDate.getTime() + DAY_MS) || null;
+}
+
+export async function generatePayrollRun(params: {
+  organizationId: string;
+  payPeriodId: string;
+  generatedById: string;
+}) {
+  const { organizationId, payPeriodId, generatedById } = params;
+
+  const payPeriod = await prisma.payPeriod.findFirst({
+    where: { id: payPeriodId, organizationId },
+    include: { payrollRun: { select: { id: true, status: true } } },
+  });
+  if (!payPeriod) {
+    throw new NotFoundError("Pay period not found");
+  }
+  if (payPeriod.payrollRun?.status === "SIGNED_OFF" || payPeriod.lockedAt) {
+    throw new ConflictError("This pay period has already been signed off");
+  }
+
+  // Tax year follows the pay date, falling back to the end of the period
+  const payDate = payPeriod.payDate ?? payPeriod.endDate;
+  const rules = getTaxYearRules(payDate);
+
+  const [staff, timeEntries, adjustments, absences, profiles] = await Promise.all([
+    prisma.user.findMany({
+      where: { organizationId },
+      select: {
+        id: true,
+        name: true,
+        paymentType: true,
+        monthlySalary: true,
+        contractedHours: true,
+        categoryRates: { select: { categoryId: true, hourlyRate: true } },
+      },
+    }),
+    prisma.timeEntry.findMany({
+      where: {
+        user: { organizationId },
+        clockIn: {
+          gte: payPeriod.startDate,
+          lt: new Date(payPeriod.endDate.getTime() + DAY_MS),
+        },
+      },
+      select: {
+        id: true,
+        userId: true,
+        clockIn: true,
+        clockOut: true,
+        totalBreak: true,
+        status: true,
+        shift: {
+          select: { category: { select: { id: true, name: true, hourlyRate: true } } },
+        },
+      },
+    }),
+    prisma.payrollAdjustment.findMany({
+      where: { organizationId, paidInRunId: null },
+      select: { id: true, userId: true, hoursDelta: true, amount: true },
+    }),
+    prisma.holidayRequest.findMany({
+      where: {
+        user: { organizationId },
+        status: "APPROVED",
+        startDate: { lte: payPeriod.endDate },
+        endDate: { gte: payPeriod.startDate },
+      },
+      select: { userId: true, type: true, startDate: true, endDate: true, hours: true },
+    }),
+    getPayrollProfiles(organizationId, payDate),
+  ]);
+
+  const { lines, totals, warnings } = calculatePayroll({
+    staff: staff.map((member) => ({ ...member, profile: profiles.get(member.id) })),
+    timeEntries,
+    adjustments,
+    absences,
+    startDate: payPeriod.startDate,
+    endDate: payPeriod.endDate,
+    rules,
+  });
+
+  // Regenerating replaces the draft outright
+  return prisma.$transaction(async (tx) => {
+    if (payPeriod.payrollRun) {
+      await tx.payrollRun.delete({ where: { id: payPeriod.payrollRun.id } });
+    }
+
+    return tx.payrollRun.create({
+      data: {
+        payPeriodId,
+        organizationId,
+        generatedById,
+        taxYear: rules.label,
+        totals: JSON.stringify(totals),
+        warnings: JSON.stringify(warnings),
+        lines: {
+          create: lines.map(({ categoryBreakdown, absenceBreakdown, ...line }) => ({
+            ...line,
+            categoryBreakdown: JSON.stringify(categoryBreakdown),
+            absenceBreakdown: JSON.stringify(absenceBreakdown),
+          })),
+        },
+      },
+      include: { lines: true },
+    });
+  });
+}
+
+export async function signOffPayrollRun(params: {
+  organizationId: string;
+  payrollRunId: string;
+  signedOffById: string;
+}) {
+  const { organizationId, payrollRunId, signedOffById } = params;
+
+  const run = await prisma.payrollRun.findFirst({
+    where: { id: payrollRunId, organizationId },
+    include: { lines: true },
+  });
+  if (!run) {
+    throw new NotFoundError("Payroll run not found");
+  }
+  if (run.status !== "DRAFT") {
+    throw new ConflictError("This payroll run has already been signed off");
+  }
+
+  const lines: PayrollLine[] = run.lines.map((line) => ({
+    userId: line.userId,
+    userName: line.userName,
+    paymentType: line.paymentType,
+    hours: line.hours,
+    grossPay: line.grossPay,
+    adjustmentsTotal: line.adjustmentsTotal,
+    holidayAccrual: line.holidayAccrual,
+    employeeNI: line.employeeNI,
+    employerNI: line.employerNI,
+    employerPension: line.employerPension,
+    employeePension: line.employeePension,
+    totalCost: line.totalCost,
+    categoryBreakdown: JSON.parse(line.categoryBreakdown),
+    absenceDeductions: line.absenceDeductions,
+    absenceBreakdown: JSON.parse(line.absenceBreakdown),
+  }));
+  const contentHash = hashPayrollRun(lines, JSON.parse(run.totals));
+  const signedOffAt = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    // Adjustments recorded after the run was generated wait for the next one
+    await tx.payrollAdjustment.updateMany({
+      where: { organizationId, paidInRunId: null, createdAt: { lte: run.generatedAt } },
+      data: { paidInRunId: run.id },
+    });
+
+    await tx.payPeriod.update({
+      where: { id: run.payPeriodId },
+      data: { lockedAt: signedOffAt },
+    });
+
+    return tx.payrollRun.update({
+      where: { id: run.id },
+      data: {
+        status: "SIGNED_OFF",
+        signedOffById,
+        signedOffAt,
+        contentHash,
+      },
+    });
+  });
+}
+
+export interface AdjustableEntry {
+  userId: string;
+  shiftId: string | null;
+  clockIn: Date;
+  clockOut: Date | null;
+  totalBreak: number;
+  status: string;
+}
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Record the pay difference caused by changing a time entry in a locked
+ * period. Pass null for `before` when an entry is added, or for `after` when
+ * it is removed.
+ */
+export async function recordPayrollAdjustment(
+  params: {
+    organizationId: string;
+    payPeriodId: string;
+    timeEntryId: string | null;
+    createdById: string;
+    before: AdjustableEntry | null;
+    after: AdjustableEntry | null;
+    reason: string;
+  },
+  db: Db = prisma
+) {
+  const { organizationId, payPeriodId, timeEntryId, createdById, before, after, reason } = params;
+  const userId = (after || before)!.userId;
+
+  const shiftIds = [before?.shiftId, after?.shiftId].filter((id): id is string => !!id);
+  const [user, shifts] = await Promise.all([
+    db.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        paymentType: true,
+        categoryRates: { select: { categoryId: true, hourlyRate: true } },
+      },
+    }),
+    db.shift.findMany({
+      where: { id: { in: shiftIds } },
+      select: { id: true, category: { select: { id: true, name: true, hourlyRate: true } } },
+    }),
+  ]);
+
+  const pay = (entry: AdjustableEntry | null) => {
+    if (!entry) return { hours: 0, amount: 0 };
+    const shift = shifts.find((s) => s.id === entry.shiftId) || null;
+    return getTimeEntryPay({ ...entry, shift }, user.paymentType, user.categoryRates);
+  };
+
+  const previous = pay(before);
+  const next = pay(after);
+
+  return db.payrollAdjustment.create({
+    data: {
+      organizationId,
+      userId,
+      payPeriodId,
+      timeEntryId,
+      createdById,
+      hoursDelta: round(next.hours - previous.hours),
+      amount: round(next.amount - previous.amount),
+      reason,
+    },
+  });
+}
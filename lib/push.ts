@@ -13,7 +13,11 @@ if (vapidConfigured) {
   );
 }
 
-interface PushPayload {
+export function isPushConfigured() {
+  return vapidConfigured;
+}
+
+export interface PushPayload {
   title: string;
   body: string;
   icon?: string;
@@ -0,0 +1,163 @@
+import { prisma } from "@/lib/db";
+import { ConflictError, ValidationError } from "@/lib/errors";
+import { zonedTimeToUtc, addDaysToDateString } from "@/lib/utils";
+import { checkShiftConflicts, getLocalTimeParts, type ShiftConflict } from "@/lib/shift-conflicts";
+
+/**
+ * Copy week
+ *
+ * Clones a week's shifts for a location (segments, categories, breaks and
+ * optionally assignees) into another week. Copies keep their wall-clock times
+ * in the organization's timezone, so a 09:00 shift stays at 09:00 across a
+ * clock change. Copied shifts are drafts; any assignee who now clashes is
+ * reported so the manager can fix it before publishing. Copying only fills
+ * an empty week, so copying twice can't double up the rota.
+ */
+
+export interface CopyWeekParams {
+  organizationId: string;
+  locationId: string | null;
+  sourceWeekStart: string; // YYYY-MM-DD (Monday)
+  targetWeekStart: string; // YYYY-MM-DD (Monday)
+  keepAssignees: boolean;
+  createdById: string;
+}
+
+export interface CopyConflictReport {
+  shiftId: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  assignedToId: string;
+  assignedToName: string;
+  conflicts: ShiftConflict[];
+}
+
+export interface CopyWeekResult {
+  copiedCount: number;
+  conflicts: CopyConflictReport[];
+}
+
+/**
+ * Move an instant by a number of days, keeping its local time of day
+ */
+export function shiftByDays(date: Date, days: number, timeZone: string): Date {
+  const local = getLocalTimeParts(date, timeZone);
+  return zonedTimeToUtc(addDaysToDateString(local.date, days), local.time, timeZone);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000)
+  );
+}
+
+export async function copyWeek(params: CopyWeekParams): Promise<CopyWeekResult> {
+  const { organizationId, locationId, sourceWeekStart, targetWeekStart, keepAssignees, createdById } = params;
+
+  if (sourceWeekStart === targetWeekStart) {
+    throw new ValidationError("Target week must be different from the source week");
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+  const timeZone = organization?.timezone || "UTC";
+  const offsetDays = daysBetween(sourceWeekStart, targetWeekStart);
+  const weekWhere = (weekStart: string) => ({
+    organizationId,
+    locationId,
+    startTime: {
+      gte: zonedTimeToUtc(weekStart, "00:00", timeZone),
+      lt: zonedTimeToUtc(addDaysToDateString(weekStart, 7), "00:00", timeZone),
+    },
+  });
+
+  const existingCount = await prisma.shift.count({ where: weekWhere(targetWeekStart) });
+  if (existingCount > 0) {
+    throw new ConflictError(
+      `The week of ${targetWeekStart} already has ${existingCount} shift${existingCount === 1 ? "" : "s"} here. Copy into an empty week.`
+    );
+  }
+
+  const sourceShifts = await prisma.shift.findMany({
+    where: weekWhere(sourceWeekStart),
+    include: {
+      assignedTo: { select: { id: true, name: true } },
+      segments: { select: { startTime: true, endTime: true, categoryId: true } },
+    },
+    orderBy: { startTime: "asc" },
+  });
+
+  const copies = sourceShifts.map((shift) => ({
+    source: shift,
+    startTime: shiftByDays(shift.startTime, offsetDays, timeZone),
+    endTime: shiftByDays(shift.endTime, offsetDays, timeZone),
+    assignedTo: keepAssignees ? shift.assignedTo : null,
+  }));
+
+  // Check clashes before creating so copies aren't compared against each other
+  const conflictResults = await Promise.all(
+    copies.map((copy) =>
+      copy.assignedTo
+        ? checkShiftConflicts({
+            userId: copy.assignedTo.id,
+            organizationId,
+            startTime: copy.startTime,
+            endTime: copy.endTime,
+          })
+        : null
+    )
+  );
+
+  const created = await prisma.$transaction(
+    copies.map((copy) =>
+      prisma.shift.create({
+        data: {
+          title: copy.source.title,
+          description: copy.source.description,
+          startTime: copy.startTime,
+          endTime: copy.endTime,
+          status: "DRAFT",
+          organizationId,
+          createdById,
+          assignedToId: copy.assignedTo?.id || null,
+          isOpen: !copy.assignedTo,
+          templateId: copy.source.templateId,
+          categoryId: copy.source.categoryId,
+          locationId: copy.source.locationId,
+          scheduledBreakMinutes: copy.source.scheduledBreakMinutes,
+          segments: {
+            create: copy.source.segments.map((segment) => ({
+              startTime: shiftByDays(segment.startTime, offsetDays, timeZone),
+              endTime: shiftByDays(segment.endTime, offsetDays, timeZone),
+              categoryId: segment.categoryId,
+            })),
+          },
+        },
+        select: { id: true },
+      })
+    )
+  );
+
+  const conflicts: CopyConflictReport[] = [];
+  copies.forEach((copy, i) => {
+    const result = conflictResults[i];
+    if (!copy.assignedTo || !result?.hasConflicts) return;
+    conflicts.push({
+      shiftId: created[i].id,
+      title: copy.source.title,
+      startTime: copy.startTime,
+      endTime: copy.endTime,
+      assignedToId: copy.assignedTo.id,
+      assignedToName: copy.assignedTo.name,
+      conflicts: [...result.hardConflicts, ...result.softConflicts],
+    });
+  });
+
+  return {
+    copiedCount: created.length,
+    conflicts,
+  };
+}
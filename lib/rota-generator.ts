@@ -0,0 +1,370 @@
+import { prisma } from "@/lib/db";
+import { checkUserCertifications } from "@/lib/certification-utils";
+import { safeJsonParse } from "@/lib/api-utils";
+import { zonedTimeToUtc, addDaysToDateString } from "@/lib/utils";
+import {
+  findOverlappingShifts,
+  findRestViolations,
+  findHolidayClashes,
+  isWithinAvailability,
+  MIN_REST_HOURS,
+  type TimedShift,
+  type HolidayRange,
+  type AvailabilitySlot,
+} from "@/lib/shift-conflicts";
+
+/**
+ * Draft rota generation
+ *
+ * 1. Expand active templates for the location into slots using each template's daysOfWeek
+ * 2. Add extra slots for events with staffRequired (the event uplift)
+ * 3. Skip slots the week already has shifts for, so regenerating doesn't duplicate
+ * 4. Greedily assign each slot to the fairest eligible staff member
+ *
+ * Eligibility uses the same rules as the conflict checker, but soft conflicts
+ * (availability, minimum rest) are treated as blocking: the generator never
+ * proposes something a manager would have to override.
+ *
+ * Fairness: staff under their contracted hours go first, ordered by how full
+ * their week is; then staff without contracted hours by hours assigned; staff
+ * who would go over their contract are only used as a last resort.
+ */
+
+export interface RotaTemplate {
+  id: string;
+  name: string;
+  defaultTitle: string | null;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  daysOfWeek: string; // JSON array of 0-6 (Sunday-Saturday)
+  categoryId: string | null;
+}
+
+export interface RotaEvent {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  staffRequired: number | null;
+}
+
+export interface RotaSlot {
+  key: string;
+  source: "TEMPLATE" | "EVENT";
+  templateId: string | null;
+  eventId: string | null;
+  title: string;
+  categoryId: string | null;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface RotaCandidate {
+  id: string;
+  name: string;
+  contractedHours: number | null;
+  certified: boolean;
+  availability: AvailabilitySlot[];
+  holidays: HolidayRange[];
+  shifts: TimedShift[]; // Existing assigned shifts around the week
+  scheduledHours: number; // Hours already scheduled within the week
+}
+
+export interface RotaProposal {
+  slot: RotaSlot;
+  assignedToId: string | null;
+  assignedToName: string | null;
+}
+
+export interface RotaStaffSummary {
+  userId: string;
+  name: string;
+  contractedHours: number | null;
+  scheduledHours: number;
+  proposedHours: number;
+}
+
+export interface GeneratedRota {
+  weekStart: string;
+  locationId: string;
+  proposals: RotaProposal[];
+  unfilledCount: number;
+  skippedCount: number;
+  staff: RotaStaffSummary[];
+}
+
+function slotHours(slot: { startTime: Date; endTime: Date }): number {
+  return (slot.endTime.getTime() - slot.startTime.getTime()) / (1000 * 60 * 60);
+}
+
+/**
+ * Expand templates into concrete slots for the week starting on weekStart (YYYY-MM-DD)
+ */
+export function expandTemplates(
+  templates: RotaTemplate[],
+  weekStart: string,
+  timeZone: string
+): RotaSlot[] {
+  const slots: RotaSlot[] = [];
+
+  for (let i = 0; i < 7; i++) {
+    const date = addDaysToDateString(weekStart, i);
+    const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+    for (const template of templates) {
+      const days = safeJsonParse<number[]>(template.daysOfWeek, []);
+      if (!days.includes(dayOfWeek)) continue;
+
+      const startTime = zonedTimeToUtc(date, template.startTime, timeZone);
+      // Overnight templates finish the next day
+      const endDate = template.endTime <= template.startTime ? addDaysToDateString(date, 1) : date;
+      const endTime = zonedTimeToUtc(endDate, template.endTime, timeZone);
+
+      slots.push({
+        key: `template:${template.id}:${date}`,
+        source: "TEMPLATE",
+        templateId: template.id,
+        eventId: null,
+        title: template.defaultTitle || template.name,
+        categoryId: template.categoryId,
+        startTime,
+        endTime,
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Create extra cover slots for events that need additional staff
+ */
+export function buildEventSlots(events: RotaEvent[]): RotaSlot[] {
+  const slots: RotaSlot[] = [];
+
+  for (const event of events) {
+    for (let i = 0; i < (event.staffRequired || 0); i++) {
+      slots.push({
+        key: `event:${event.id}:${i}`,
+        source: "EVENT",
+        templateId: null,
+        eventId: event.id,
+        title: `${event.title} cover`,
+        categoryId: null,
+        startTime: event.startTime,
+        endTime: event.endTime,
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Whether a candidate can work a slot without any conflict
+ */
+export function isEligibleForSlot(
+  candidate: RotaCandidate,
+  slot: RotaSlot,
+  timeZone: string
+): boolean {
+  if (!candidate.certified) return false;
+  if (findOverlappingShifts(slot.startTime, slot.endTime, candidate.shifts).length > 0) return false;
+  if (findHolidayClashes(slot.startTime, slot.endTime, candidate.holidays).length > 0) return false;
+  if (!isWithinAvailability(slot.startTime, slot.endTime, candidate.availability, timeZone)) return false;
+  if (findRestViolations(slot.startTime, slot.endTime, candidate.shifts).length > 0) return false;
+  return true;
+}
+
+/**
+ * Rank candidates for a slot: lower tier first, then least full
+ */
+function rankCandidate(candidate: RotaCandidate, hours: number): [number, number] {
+  const contracted = candidate.contractedHours;
+  if (contracted && candidate.scheduledHours + hours <= contracted) {
+    return [0, candidate.scheduledHours / contracted];
+  }
+  if (!contracted) {
+    return [1, candidate.scheduledHours];
+  }
+  return [2, candidate.scheduledHours];
+}
+
+/**
+ * Assign slots to candidates. Candidates are updated in place as slots are assigned
+ * so later slots see earlier proposals.
+ */
+export function proposeAssignments(
+  slots: RotaSlot[],
+  candidates: RotaCandidate[],
+  timeZone: string
+): RotaProposal[] {
+  const ordered = [...slots].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  return ordered.map((slot) => {
+    const hours = slotHours(slot);
+
+    const best = candidates
+      .filter((c) => isEligibleForSlot(c, slot, timeZone))
+      .map((c) => ({ candidate: c, rank: rankCandidate(c, hours) }))
+      .sort((a, b) =>
+        a.rank[0] - b.rank[0] ||
+        a.rank[1] - b.rank[1] ||
+        a.candidate.name.localeCompare(b.candidate.name)
+      )[0]?.candidate;
+
+    if (!best) {
+      return { slot, assignedToId: null, assignedToName: null };
+    }
+
+    best.shifts.push({ id: slot.key, title: slot.title, startTime: slot.startTime, endTime: slot.endTime });
+    best.scheduledHours += hours;
+
+    return { slot, assignedToId: best.id, assignedToName: best.name };
+  });
+}
+
+/**
+ * Build a draft rota proposal for a location and week. Nothing is saved.
+ */
+export async function generateRota(params: {
+  organizationId: string;
+  locationId: string;
+  weekStart: string; // YYYY-MM-DD
+}): Promise<GeneratedRota> {
+  const { organizationId, locationId, weekStart } = params;
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+  const timeZone = organization?.timezone || "UTC";
+
+  const weekStartTime = zonedTimeToUtc(weekStart, "00:00", timeZone);
+  const weekEndTime = zonedTimeToUtc(addDaysToDateString(weekStart, 7), "00:00", timeZone);
+  const restWindowMs = MIN_REST_HOURS * 60 * 60 * 1000;
+  const windowStart = new Date(weekStartTime.getTime() - restWindowMs);
+  const windowEnd = new Date(weekEndTime.getTime() + restWindowMs);
+
+  const [templates, events, existingShifts, staff] = await Promise.all([
+    prisma.shiftTemplate.findMany({
+      where: { organizationId, locationId, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        defaultTitle: true,
+        startTime: true,
+        endTime: true,
+        daysOfWeek: true,
+        categoryId: true,
+      },
+    }),
+    prisma.event.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        staffRequired: { gt: 0 },
+        startTime: { gte: weekStartTime, lt: weekEndTime },
+        OR: [{ locationId }, { locationId: null }],
+      },
+      select: { id: true, title: true, startTime: true, endTime: true, staffRequired: true },
+    }),
+    prisma.shift.findMany({
+      where: {
+        organizationId,
+        locationId,
+        startTime: { gte: weekStartTime, lt: weekEndTime },
+      },
+      select: { templateId: true, startTime: true, endTime: true },
+    }),
+    prisma.user.findMany({
+      where: {
+        organizationId,
+        locationAccess: { some: { locationId } },
+      },
+      select: {
+        id: true,
+        name: true,
+        contractedHours: true,
+        availability: {
+          select: {
+            dayOfWeek: true,
+            startTime: true,
+            endTime: true,
+            isRecurring: true,
+            specificDate: true,
+          },
+        },
+        holidayRequests: {
+          where: {
+            status: "APPROVED",
+            startDate: { lt: weekEndTime },
+            endDate: { gte: new Date(weekStartTime.getTime() - 24 * 60 * 60 * 1000) },
+          },
+          select: { id: true, startDate: true, endDate: true },
+        },
+        assignedShifts: {
+          where: {
+            startTime: { lt: windowEnd },
+            endTime: { gt: windowStart },
+          },
+          select: { id: true, title: true, startTime: true, endTime: true },
+        },
+      },
+    }),
+  ]);
+
+  // Drop template slots that already have a shift, and reduce event uplift
+  // by shifts already covering the event's exact times
+  const allSlots = [...expandTemplates(templates, weekStart, timeZone), ...buildEventSlots(events)];
+  const remainingExisting = [...existingShifts];
+  const slots = allSlots.filter((slot) => {
+    const matchIndex = remainingExisting.findIndex((s) =>
+      s.startTime.getTime() === slot.startTime.getTime() &&
+      (slot.source === "TEMPLATE"
+        ? s.templateId === slot.templateId
+        : s.templateId === null && s.endTime.getTime() === slot.endTime.getTime())
+    );
+    if (matchIndex === -1) return true;
+    remainingExisting.splice(matchIndex, 1);
+    return false;
+  });
+
+  const certChecks = await Promise.all(
+    staff.map((u) => checkUserCertifications(u.id, organizationId))
+  );
+
+  const candidates: RotaCandidate[] = staff.map((u, i) => ({
+    id: u.id,
+    name: u.name,
+    contractedHours: u.contractedHours,
+    certified: certChecks[i].isValid,
+    availability: u.availability,
+    holidays: u.holidayRequests,
+    shifts: u.assignedShifts,
+    scheduledHours: u.assignedShifts
+      .filter((s) => s.startTime >= weekStartTime && s.startTime < weekEndTime)
+      .reduce((sum, s) => sum + slotHours(s), 0),
+  }));
+  const initialHours = new Map(candidates.map((c) => [c.id, c.scheduledHours]));
+
+  const proposals = proposeAssignments(slots, candidates, timeZone);
+
+  return {
+    weekStart,
+    locationId,
+    proposals,
+    unfilledCount: proposals.filter((p) => !p.assignedToId).length,
+    skippedCount: allSlots.length - slots.length,
+    staff: candidates
+      .map((c) => ({
+        userId: c.id,
+        name: c.name,
+        contractedHours: c.contractedHours,
+        scheduledHours: Math.round((initialHours.get(c.id) || 0) * 100) / 100,
+        proposedHours: Math.round((c.scheduledHours - (initialHours.get(c.id) || 0)) * 100) / 100,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
@@ -0,0 +1,291 @@
+import { prisma } from "@/lib/db";
+import { rotaPublishedEmail } from "@/lib/email";
+import { dispatchNotifications } from "@/lib/notifications";
+import { safeJsonParse } from "@/lib/api-utils";
+import { zonedTimeToUtc, addDaysToDateString } from "@/lib/utils";
+
+/**
+ * Rota publishing
+ *
+ * New shifts are created as DRAFT and only staff-visible once the week is
+ * published for their location. Publishing flips the week's drafts to
+ * SCHEDULED and stores a snapshot of what staff were sent. Publishing again
+ * diffs the current rota against that snapshot, so each person is told
+ * exactly what changed rather than being sent the whole week again.
+ */
+
+export interface PublishedShift {
+  id: string;
+  title: string;
+  startTime: string; // ISO
+  endTime: string; // ISO
+  assignedToId: string | null;
+}
+
+export type RotaChangeType = "ADDED" | "REMOVED" | "MOVED";
+
+export interface RotaChange {
+  type: RotaChangeType;
+  shiftId: string;
+  startTime: string;
+  message: string;
+}
+
+export interface RotaStatus {
+  published: boolean;
+  publishedAt: Date | null;
+  draftCount: number;
+  changedStaffCount: number;
+}
+
+export interface PublishRotaResult {
+  isUpdate: boolean;
+  publishedCount: number;
+  notifiedUserIds: string[];
+}
+
+interface RotaScope {
+  organizationId: string;
+  locationId: string | null;
+  weekStart: string; // YYYY-MM-DD (Monday)
+}
+
+function formatParts(iso: string, timeZone: string) {
+  const date = new Date(iso);
+  return {
+    weekday: date.toLocaleDateString("en-GB", { weekday: "long", timeZone }),
+    day: date.toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short", timeZone }),
+    time: date.toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit", timeZone }),
+  };
+}
+
+function formatTimes(shift: PublishedShift, timeZone: string): string {
+  return `${formatParts(shift.startTime, timeZone).time}-${formatParts(shift.endTime, timeZone).time}`;
+}
+
+/**
+ * One line describing a shift, e.g. "Tue 13 Oct, 09:00-17:00 (Front desk)"
+ */
+export function formatShiftLine(shift: PublishedShift, timeZone: string): string {
+  return `${formatParts(shift.startTime, timeZone).day}, ${formatTimes(shift, timeZone)} (${shift.title})`;
+}
+
+/**
+ * Work out what changed for each person between two versions of a week's rota.
+ * Returns a map of userId to their changes, ordered by shift start time.
+ */
+export function diffRota(
+  previous: PublishedShift[],
+  current: PublishedShift[],
+  timeZone: string
+): Map<string, RotaChange[]> {
+  const changes = new Map<string, RotaChange[]>();
+  const add = (userId: string, change: RotaChange) => {
+    if (!changes.has(userId)) changes.set(userId, []);
+    changes.get(userId)!.push(change);
+  };
+
+  const previousById = new Map(previous.map((s) => [s.id, s]));
+  const currentById = new Map(current.map((s) => [s.id, s]));
+
+  for (const before of previous) {
+    const after = currentById.get(before.id);
+    if (before.assignedToId && (!after || after.assignedToId !== before.assignedToId)) {
+      add(before.assignedToId, {
+        type: "REMOVED",
+        shiftId: before.id,
+        startTime: before.startTime,
+        message: `Removed: ${formatShiftLine(before, timeZone)}`,
+      });
+    }
+  }
+
+  for (const after of current) {
+    if (!after.assignedToId) continue;
+    const before = previousById.get(after.id);
+
+    if (!before || before.assignedToId !== after.assignedToId) {
+      add(after.assignedToId, {
+        type: "ADDED",
+        shiftId: after.id,
+        startTime: after.startTime,
+        message: `New shift: ${formatShiftLine(after, timeZone)}`,
+      });
+      continue;
+    }
+
+    if (before.startTime === after.startTime && before.endTime === after.endTime) continue;
+
+    const oldDay = formatParts(before.startTime, timeZone);
+    const newDay = formatParts(after.startTime, timeZone);
+    add(after.assignedToId, {
+      type: "MOVED",
+      shiftId: after.id,
+      startTime: after.startTime,
+      message: oldDay.day === newDay.day
+        ? `Your ${oldDay.weekday} moved ${formatTimes(before, timeZone)} → ${formatTimes(after, timeZone)}`
+        : `Your ${oldDay.weekday} ${formatTimes(before, timeZone)} moved to ${newDay.day}, ${formatTimes(after, timeZone)}`,
+    });
+  }
+
+  for (const list of changes.values()) {
+    list.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  return changes;
+}
+
+async function loadWeek({ organizationId, locationId, weekStart }: RotaScope) {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { name: true, timezone: true },
+  });
+  const timeZone = organization?.timezone || "UTC";
+
+  const [shifts, publication] = await Promise.all([
+    prisma.shift.findMany({
+      where: {
+        organizationId,
+        locationId,
+        startTime: {
+          gte: zonedTimeToUtc(weekStart, "00:00", timeZone),
+          lt: zonedTimeToUtc(addDaysToDateString(weekStart, 7), "00:00", timeZone),
+        },
+      },
+      select: { id: true, title: true, startTime: true, endTime: true, assignedToId: true, status: true },
+      orderBy: { startTime: "asc" },
+    }),
+    prisma.rotaPublication.findFirst({
+      where: { organizationId, locationId, weekStart: new Date(`${weekStart}T00:00:00Z`) },
+    }),
+  ]);
+
+  return { organizationName: organization?.name || "Your Organization", timeZone, shifts, publication };
+}
+
+function toPublishedShift(shift: {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  assignedToId: string | null;
+}): PublishedShift {
+  return {
+    id: shift.id,
+    title: shift.title,
+    startTime: shift.startTime.toISOString(),
+    endTime: shift.endTime.toISOString(),
+    assignedToId: shift.assignedToId,
+  };
+}
+
+/**
+ * Whether a week has been published and how much has changed since
+ */
+export async function getRotaStatus(scope: RotaScope): Promise<RotaStatus> {
+  const { timeZone, shifts, publication } = await loadWeek(scope);
+
+  const previous = publication ? safeJsonParse<PublishedShift[]>(publication.snapshot, []) : [];
+  const changes = publication ? diffRota(previous, shifts.map(toPublishedShift), timeZone) : new Map();
+
+  return {
+    published: !!publication,
+    publishedAt: publication?.publishedAt || null,
+    draftCount: shifts.filter((s) => s.status === "DRAFT").length,
+    changedStaffCount: changes.size,
+  };
+}
+
+/**
+ * Publish a week's rota for a location and tell each affected person once,
+ * by email and push, with either their shifts or what changed since last time
+ */
+export async function publishRota(
+  scope: RotaScope & { publishedById: string }
+): Promise<PublishRotaResult> {
+  const { organizationId, locationId, weekStart, publishedById } = scope;
+  const { organizationName, timeZone, shifts, publication } = await loadWeek(scope);
+
+  const draftIds = shifts.filter((s) => s.status === "DRAFT").map((s) => s.id);
+  if (draftIds.length > 0) {
+    await prisma.shift.updateMany({
+      where: { id: { in: draftIds } },
+      data: { status: "SCHEDULED" },
+    });
+  }
+
+  const current = shifts.map(toPublishedShift);
+  const previous = publication ? safeJsonParse<PublishedShift[]>(publication.snapshot, []) : [];
+  const changes = diffRota(previous, current, timeZone);
+  const isUpdate = !!publication;
+
+  const data = {
+    snapshot: JSON.stringify(current),
+    publishedAt: new Date(),
+    publishedById,
+  };
+  if (publication) {
+    await prisma.rotaPublication.update({ where: { id: publication.id }, data });
+  } else {
+    await prisma.rotaPublication.create({
+      data: {
+        ...data,
+        organizationId,
+        locationId,
+        weekStart: new Date(`${weekStart}T00:00:00Z`),
+      },
+    });
+  }
+
+  const userIds = [...changes.keys()];
+  if (userIds.length > 0) {
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds }, organizationId },
+      select: { id: true, name: true },
+    });
+
+    const weekLabel = new Date(`${weekStart}T00:00:00Z`).toLocaleDateString("en-GB", {
+      day: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    });
+    const title = isUpdate ? "Rota updated" : "Rota published";
+
+    const messages = users.map((user) => {
+      // The first publish lists the week; later publishes list only what changed
+      const lines = isUpdate
+        ? changes.get(user.id)!.map((c) => c.message)
+        : current.filter((s) => s.assignedToId === user.id).map((s) => formatShiftLine(s, timeZone));
+      return { user, lines };
+    });
+
+    await dispatchNotifications(
+      messages.map(({ user, lines }) => ({
+        userId: user.id,
+        type: "ROTA_PUBLISHED",
+        title,
+        message: isUpdate
+          ? `Your rota for w/c ${weekLabel} has changed: ${lines.join("; ")}`
+          : `Your rota for w/c ${weekLabel} is ready (${lines.length} shift${lines.length !== 1 ? "s" : ""})`,
+        link: "/dashboard/schedule",
+        email: rotaPublishedEmail({
+          employeeName: user.name || "Team Member",
+          weekLabel,
+          changes: lines,
+          isUpdate,
+          organizationName,
+        }),
+        push: {
+          body: isUpdate ? lines.join("\n") : `Your rota for w/c ${weekLabel} is ready`,
+          tag: `rota-${weekStart}`,
+        },
+      }))
+    );
+  }
+
+  return {
+    isUpdate,
+    publishedCount: draftIds.length,
+    notifiedUserIds: userIds,
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Route feedback
+ *
+ * Climbers rate routes, say what grade a route felt and report problems
+ * from the public climber page at each location. Grade suggestions are
+ * compared with the route's grade in steps of its own grading scale, so
+ * consensus works the same for V grades, Font, French sport and YDS.
+ */
+
+import type { DefectSeverity } from "@/lib/defects";
+
+export type GradeVerdict = "SOFT" | "ON_GRADE" | "HARD";
+
+const V_GRADES = ["VB", ...Array.from({ length: 18 }, (_, i) => `V${i}`)];
+
+const FONT_GRADES = [
+  "3", "4", "4+", "5", "5+",
+  ...["6", "7", "8"].flatMap((n) => ["A", "A+", "B", "B+", "C", "C+"].map((l) => `${n}${l}`)),
+  "9A",
+];
+
+const FRENCH_GRADES = [
+  "3", "4a", "4b", "4c",
+  ...["5", "6", "7", "8", "9"].flatMap((n) => ["a", "a+", "b", "b+", "c", "c+"].map((l) => `${n}${l}`)),
+];
+
+const YDS_GRADES = [
+  "5.5", "5.6", "5.7", "5.8", "5.9",
+  ...Array.from({ length: 6 }, (_, i) => 10 + i).flatMap((n) => ["a", "b", "c", "d"].map((l) => `5.${n}${l}`)),
+];
+
+// Font and French share digits; the letter's case tells them apart
+const GRADE_SCALES = [V_GRADES, FONT_GRADES, FRENCH_GRADES, YDS_GRADES];
+
+export const GRADE_VERDICT_LABELS: Record<GradeVerdict, string> = {
+  SOFT: "Soft",
+  ON_GRADE: "On grade",
+  HARD: "Hard",
+};
+
+// An average this many grade steps off the route's grade makes it soft or hard
+export const GRADE_VERDICT_THRESHOLD = 0.5;
+
+export const ROUTE_PROBLEMS: { value: string; label: string; severity: DefectSeverity }[] = [
+  { value: "SPINNING_HOLD", label: "Spinning hold", severity: "HIGH" },
+  { value: "LOOSE_HOLD", label: "Loose or cracked hold", severity: "HIGH" },
+  { value: "SHARP_HOLD", label: "Sharp hold", severity: "MEDIUM" },
+  { value: "DIRTY_HOLDS", label: "Holds need cleaning", severity: "LOW" },
+  { value: "MISSING_TAG", label: "Missing or wrong tag", severity: "LOW" },
+  { value: "OTHER", label: "Something else", severity: "MEDIUM" },
+];
+
+function indexInScale(scale: string[], grade: string): number {
+  const trimmed = grade.trim();
+  const index = scale.indexOf(trimmed);
+  if (index >= 0 || (scale !== V_GRADES && scale !== YDS_GRADES)) return index;
+  // V grades and YDS are often written in either case
+  return scale.findIndex((g) => g.toLowerCase() === trimmed.toLowerCase());
+}
+
+function findGrade(grade: string): { scale: string[]; index: number } | null {
+  for (const scale of GRADE_SCALES) {
+    const index = indexInScale(scale, grade);
+    if (index >= 0) return { scale, index };
+  }
+  return null;
+}
+
+/**
+ * Grades a climber can suggest for a route: its own and the few either
+ * side, on the same scale. Grades outside the known scales get none.
+ */
+export function getGradeOptions(grade: string, spread = 2): string[] {
+  const found = findGrade(grade);
+  if (!found) return [];
+  return found.scale.slice(Math.max(0, found.index - spread), found.index + spread + 1);
+}
+
+/**
+ * How many grade steps a suggestion is from the route's grade; positive
+ * when it felt harder. Null when the two aren't on the same scale.
+ */
+export function getGradeOffset(grade: string, suggested: string): number | null {
+  const route = findGrade(grade);
+  if (!route) return null;
+  const index = indexInScale(route.scale, suggested);
+  return index >= 0 ? index - route.index : null;
+}
+
+export interface GradeConsensus {
+  votes: number;
+  averageOffset: number | null;
+  // The grade climbers agree on, rounded to the nearest grade on the scale
+  consensusGrade: string | null;
+  verdict: GradeVerdict | null;
+}
+
+export function getGradeConsensus(grade: string, suggestions: (string | null)[]): GradeConsensus {
+  const offsets = suggestions.flatMap((suggested) => {
+    const offset = suggested ? getGradeOffset(grade, suggested) : null;
+    return offset === null ? [] : [offset];
+  });
+  if (offsets.length === 0) {
+    return { votes: 0, averageOffset: null, consensusGrade: null, verdict: null };
+  }
+
+  const average = offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length;
+  const found = findGrade(grade)!;
+  const consensusIndex = Math.min(Math.max(found.index + Math.round(average), 0), found.scale.length - 1);
+
+  return {
+    votes: offsets.length,
+    averageOffset: Math.round(average * 10) / 10,
+    consensusGrade: found.scale[consensusIndex],
+    verdict: getGradeVerdict(average),
+  };
+}
+
+export function getGradeVerdict(averageOffset: number): GradeVerdict {
+  if (averageOffset >= GRADE_VERDICT_THRESHOLD) return "HARD";
+  if (averageOffset <= -GRADE_VERDICT_THRESHOLD) return "SOFT";
+  return "ON_GRADE";
+}
+
+export interface RouteFeedbackSummary {
+  ratings: number;
+  averageRating: number | null;
+  grade: GradeConsensus;
+}
+
+/**
+ * Popularity and grade consensus for a route from its feedback
+ */
+export function summarizeRouteFeedback(
+  grade: string,
+  feedback: { rating: number | null; suggestedGrade: string | null }[]
+): RouteFeedbackSummary {
+  const ratings = feedback.flatMap((f) => (f.rating ? [f.rating] : []));
+  return {
+    ratings: ratings.length,
+    averageRating:
+      ratings.length > 0 ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10 : null,
+    grade: getGradeConsensus(grade, feedback.map((f) => f.suggestedGrade)),
+  };
+}
+
+export function getProblemLabel(problem: string): string {
+  return ROUTE_PROBLEMS.find((p) => p.value === problem)?.label || "Problem";
+}
+
+export interface SetterSummary {
+  routes: number;
+  ratings: number;
+  averageRating: number | null;
+  gradeVotes: number;
+  averageOffset: number | null;
+  verdict: GradeVerdict | null;
+  // Routes climbers agree are soft or hard for their grade
+  offGradeRoutes: number;
+}
+
+/**
+ * A setter's popularity and grading across their routes. Each vote counts
+ * once, so well-climbed routes weigh more than quiet ones.
+ */
+export function summarizeSetterRoutes(
+  routes: { grade: string; feedback: { rating: number | null; suggestedGrade: string | null }[] }[]
+): SetterSummary {
+  const ratings = routes.flatMap((route) => route.feedback.flatMap((f) => (f.rating ? [f.rating] : [])));
+  const offsets = routes.flatMap((route) =>
+    route.feedback.flatMap((f) => {
+      const offset = f.suggestedGrade ? getGradeOffset(route.grade, f.suggestedGrade) : null;
+      return offset === null ? [] : [offset];
+    })
+  );
+  const averageOffset = offsets.length > 0 ? offsets.reduce((sum, o) => sum + o, 0) / offsets.length : null;
+
+  return {
+    routes: routes.length,
+    ratings: ratings.length,
+    averageRating:
+      ratings.length > 0 ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10 : null,
+    gradeVotes: offsets.length,
+    averageOffset: averageOffset === null ? null : Math.round(averageOffset * 10) / 10,
+    verdict: averageOffset === null ? null : getGradeVerdict(averageOffset),
+    offGradeRoutes: routes.filter((route) => {
+      const verdict = getGradeConsensus(route.grade, route.feedback.map((f) => f.suggestedGrade)).verdict;
+      return verdict === "SOFT" || verdict === "HARD";
+    }).length,
+  };
+}
+
+/**
+ * Groups a setter's routes: staff by their user, external setters by name
+ */
+export function getSetterKey(route: { setterId: string | null; externalSetterName: string | null }): string {
+  return route.setterId ? `user:${route.setterId}` : `external:${(route.externalSetterName || "").trim().toLowerCase()}`;
+}
+
+interface SetterRoute {
+  id: string;
+  grade: string;
+  setDate: Date;
+  setterId: string | null;
+  externalSetterName: string | null;
+  setter: { id: string; name: string } | null;
+  signoff: { id: string; settingDate: Date } | null;
+  feedback: { rating: number | null; suggestedGrade: string | null }[];
+}
+
+export interface SetterReport<R extends SetterRoute> {
+  key: string;
+  setterId: string | null;
+  name: string;
+  summary: SetterSummary;
+  // Routes grouped by the setting sign-off they were signed off on; routes
+  // not yet signed off are grouped by the day they were set
+  settingDays: { signoffId: string | null; date: Date; summary: SetterSummary }[];
+  routes: (Omit<R, "feedback"> & { summary: RouteFeedbackSummary })[];
+}
+
+/**
+ * Each setter's routes with what climbers made of them, busiest setter
+ * first
+ */
+export function buildSetterReports<R extends SetterRoute>(routes: R[]): SetterReport<R>[] {
+  const bySetter = new Map<string, R[]>();
+  for (const route of routes) {
+    const key = getSetterKey(route);
+    bySetter.set(key, [...(bySetter.get(key) || []), route]);
+  }
+
+  return [...bySetter.entries()]
+    .map(([key, setterRoutes]) => {
+      const byDay = new Map<string, { signoffId: string | null; date: Date; routes: R[] }>();
+      for (const route of setterRoutes) {
+        const dayKey = route.signoff?.id || `set:${route.setDate.toISOString().split("T")[0]}`;
+        const day = byDay.get(dayKey) || {
+          signoffId: route.signoff?.id || null,
+          date: route.signoff?.settingDate || route.setDate,
+          routes: [],
+        };
+        day.routes.push(route);
+        byDay.set(dayKey, day);
+      }
+
+      const first = setterRoutes[0];
+      return {
+        key,
+        setterId: first.setterId,
+        name: first.setter?.name || first.externalSetterName || "Unknown setter",
+        summary: summarizeSetterRoutes(setterRoutes),
+        settingDays: [...byDay.values()]
+          .sort((a, b) => b.date.getTime() - a.date.getTime())
+          .map((day) => ({ signoffId: day.signoffId, date: day.date, summary: summarizeSetterRoutes(day.routes) })),
+        routes: setterRoutes.map(({ feedback, ...route }) => ({
+          ...route,
+          summary: summarizeRouteFeedback(route.grade, feedback),
+        })),
+      };
+    })
+    .sort((a, b) => b.summary.routes - a.summary.routes || a.name.localeCompare(b.name));
+}
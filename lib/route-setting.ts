@@ -0,0 +1,148 @@
+/**
+ * Route setting
+ *
+ * Each location is split into sectors (walls, or parts of a wall) that are
+ * reset in rotation. Routes are set in a sector with a grade and hold
+ * colour, and stay up until they are stripped. The reset schedule puts the
+ * sectors whose routes have been up longest first.
+ */
+
+export type SectorDiscipline = "BOULDER" | "ROPE";
+
+export type RouteStatus = "UP" | "STRIP_DUE" | "STRIPPED";
+
+export const SECTOR_DISCIPLINES = [
+  { value: "BOULDER", label: "Bouldering" },
+  { value: "ROPE", label: "Roped" },
+];
+
+export const HOLD_COLORS = [
+  { value: "Red", hex: "#dc2626" },
+  { value: "Orange", hex: "#ea580c" },
+  { value: "Yellow", hex: "#facc15" },
+  { value: "Green", hex: "#16a34a" },
+  { value: "Blue", hex: "#2563eb" },
+  { value: "Purple", hex: "#9333ea" },
+  { value: "Pink", hex: "#ec4899" },
+  { value: "Black", hex: "#111827" },
+  { value: "White", hex: "#f9fafb" },
+  { value: "Grey", hex: "#9ca3af" },
+];
+
+export function getHoldColorHex(color: string): string {
+  return HOLD_COLORS.find((c) => c.value.toLowerCase() === color.toLowerCase())?.hex || "#9ca3af";
+}
+
+/**
+ * When a route set today should come down, from its sector's reset interval
+ */
+export function getDefaultStripDate(setDate: Date, resetIntervalDays: number): Date {
+  const strip = new Date(setDate);
+  strip.setDate(strip.getDate() + resetIntervalDays);
+  return strip;
+}
+
+export function getRouteStatus(
+  route: { plannedStripDate: Date | null; strippedAt: Date | null },
+  now = new Date()
+): RouteStatus {
+  if (route.strippedAt) return "STRIPPED";
+  if (route.plannedStripDate && route.plannedStripDate <= now) return "STRIP_DUE";
+  return "UP";
+}
+
+export function getRouteSetterName(route: {
+  setter?: { name: string } | null;
+  externalSetterName?: string | null;
+}): string {
+  return route.setter?.name || route.externalSetterName || "Unknown setter";
+}
+
+interface ScheduleSector {
+  id: string;
+  name: string;
+  discipline: string;
+  resetIntervalDays: number;
+  routes: { setDate: Date; strippedAt: Date | null }[];
+  settingDays: { id: string; startTime: Date }[];
+}
+
+export interface ResetScheduleEntry {
+  sectorId: string;
+  name: string;
+  discipline: string;
+  resetIntervalDays: number;
+  routesUp: number;
+  oldestSetDate: Date | null;
+  newestSetDate: Date | null;
+  // Days the oldest route has been up
+  ageDays: number | null;
+  resetDue: Date | null;
+  overdue: boolean;
+  nextSettingDay: { id: string; startTime: Date } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The rolling reset schedule: empty sectors first, as they need setting
+ * now, then the rest oldest first. A sector's age is the age of its
+ * oldest route still up.
+ */
+export function buildResetSchedule(sectors: ScheduleSector[], now = new Date()): ResetScheduleEntry[] {
+  const entries = sectors.map((sector): ResetScheduleEntry => {
+    const setDates = sector.routes
+      .filter((route) => !route.strippedAt)
+      .map((route) => route.setDate.getTime());
+    const oldest = setDates.length > 0 ? new Date(Math.min(...setDates)) : null;
+    const newest = setDates.length > 0 ? new Date(Math.max(...setDates)) : null;
+    const resetDue = oldest ? getDefaultStripDate(oldest, sector.resetIntervalDays) : null;
+    const nextSettingDay = sector.settingDays
+      .filter((day) => day.startTime >= startOfDay(now))
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())[0];
+
+    return {
+      sectorId: sector.id,
+      name: sector.name,
+      discipline: sector.discipline,
+      resetIntervalDays: sector.resetIntervalDays,
+      routesUp: setDates.length,
+      oldestSetDate: oldest,
+      newestSetDate: newest,
+      ageDays: oldest ? Math.floor((now.getTime() - oldest.getTime()) / DAY_MS) : null,
+      resetDue,
+      overdue: resetDue ? resetDue <= now : false,
+      nextSettingDay: nextSettingDay || null,
+    };
+  });
+
+  return entries.sort((a, b) => {
+    if (!a.oldestSetDate || !b.oldestSetDate) {
+      return (a.oldestSetDate ? 1 : 0) - (b.oldestSetDate ? 1 : 0) || a.name.localeCompare(b.name);
+    }
+    return a.oldestSetDate.getTime() - b.oldestSetDate.getTime();
+  });
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+// A route with the details shown in lists
+export const routeInclude = {
+  sector: { select: { id: true, name: true } },
+  location: { select: { id: true, name: true } },
+  setter: { select: { id: true, name: true } },
+  signoff: { select: { id: true, settingDate: true } },
+};
+
+// The routes listed on a setting sign-off
+export const settingSignoffRouteSelect = {
+  id: true,
+  name: true,
+  grade: true,
+  color: true,
+  sector: { select: { id: true, name: true } },
+};
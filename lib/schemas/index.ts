@@ -24,6 +24,26 @@ export const createLocationSchema = z.object({
   breakRules: z.string().optional().nullable(),
 });
 
+const leaveDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const leaveRulesSchema = z.object({
+  maxOff: z.number().int().min(1, "At least one person must be allowed off").nullable(),
+  minStaff: z.array(z.object({
+    staffRole: z.string().min(1, "Staff role is required"),
+    minimum: z.number().int().min(1, "Minimum must be at least 1"),
+  })),
+  blackouts: z.array(z.object({
+    startDate: leaveDateSchema,
+    endDate: leaveDateSchema,
+    reason: z.string().min(1, "Blackout reason is required"),
+  }).refine((b) => b.startDate <= b.endDate, {
+    message: "Blackout end date must be on or after the start date",
+    path: ["endDate"],
+  })),
+  blackoutEventTypes: z.array(z.enum(["PARTY", "GROUP", "TRAINING", "COMPETITION", "SETTING", "OTHER"])),
+  eventBufferDays: z.number().int().min(0).max(14),
+});
+
 // Shift schemas
 export const createShiftSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -33,6 +53,8 @@ export const createShiftSchema = z.object({
   assignedToId: idSchema.optional().nullable(),
   categoryId: idSchema.optional().nullable(),
   locationId: idSchema.optional().nullable(),
+  overrideConflicts: z.boolean().optional(),
+  overrideReason: z.string().optional().nullable(),
 }).refine(
   (data) => new Date(data.startTime) < new Date(data.endTime),
   {
@@ -41,6 +63,129 @@ export const createShiftSchema = z.object({
   }
 );
 
+export const checkShiftConflictsSchema = z.object({
+  userId: idSchema,
+  startTime: z.string().datetime("Invalid start time format"),
+  endTime: z.string().datetime("Invalid end time format"),
+  shiftId: idSchema.optional().nullable(),
+}).refine(
+  (data) => new Date(data.startTime) < new Date(data.endTime),
+  {
+    message: "End time must be after start time",
+    path: ["endTime"],
+  }
+);
+
+export const generateRotaSchema = z.object({
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Week start must be a YYYY-MM-DD date"),
+  locationId: idSchema,
+  preview: z.boolean().optional(),
+});
+
+export const publishRotaSchema = z.object({
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Week start must be a YYYY-MM-DD date"),
+  locationId: idSchema.optional().nullable(),
+});
+
+export const copyWeekSchema = z.object({
+  sourceWeekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Source week must be a YYYY-MM-DD date"),
+  targetWeekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Target week must be a YYYY-MM-DD date"),
+  locationId: idSchema.optional().nullable(),
+  keepAssignees: z.boolean().default(true),
+}).refine(
+  (data) => data.sourceWeekStart !== data.targetWeekStart,
+  {
+    message: "Target week must be different from the source week",
+    path: ["targetWeekStart"],
+  }
+);
+
+// Calendar feed schemas
+export const createCalendarFeedSchema = z.object({
+  type: z.enum(["USER", "LOCATION"]),
+  locationId: idSchema.optional().nullable(),
+}).refine(
+  (data) => data.type !== "LOCATION" || !!data.locationId,
+  {
+    message: "Location is required for a location feed",
+    path: ["locationId"],
+  }
+);
+
+// Message schemas
+export const conversationKeySchema = z
+  .string()
+  .regex(/^(dm|shift|location|timesheet):[A-Za-z0-9_-]+$/, "Invalid conversation");
+
+export const sendMessageSchema = z.object({
+  conversation: conversationKeySchema,
+  content: z.string().trim().min(1, "Message is required").max(2000, "Message must be 2000 characters or fewer"),
+});
+
+export const markConversationReadSchema = z.object({
+  conversation: conversationKeySchema,
+});
+
+// Announcement schemas
+export const createAnnouncementSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  content: z.string().trim().min(1, "Content is required").max(5000),
+  priority: z.number().int().min(0).max(2).default(0),
+  targetLocationIds: z.array(idSchema).default([]),
+  targetStaffRoles: z.array(z.string().min(1)).default([]),
+  expiresAt: z.string().datetime("Invalid expiry date").optional().nullable(),
+});
+
+export const updateAnnouncementSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200).optional(),
+  content: z.string().trim().min(1, "Content is required").max(5000).optional(),
+  priority: z.number().int().min(0).max(2).optional(),
+  targetLocationIds: z.array(idSchema).optional(),
+  targetStaffRoles: z.array(z.string().min(1)).optional(),
+  expiresAt: z.string().datetime("Invalid expiry date").optional().nullable(),
+});
+
+// Notification preference schemas
+const quietHoursTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Quiet hours must be HH:mm times")
+  .nullable();
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    preferences: z
+      .array(
+        z.object({
+          type: z.string().min(1),
+          inApp: z.boolean(),
+          email: z.boolean(),
+          push: z.boolean(),
+          digest: z.boolean(),
+        })
+      )
+      .default([]),
+    quietHoursStart: quietHoursTimeSchema.optional(),
+    quietHoursEnd: quietHoursTimeSchema.optional(),
+    managerDigestFrequency: z.enum(["DAILY", "WEEKLY", "OFF"]).optional(),
+  })
+  .refine((data) => !data.quietHoursStart === !data.quietHoursEnd, {
+    message: "Set both a start and end time for quiet hours",
+  });
+
+// Holiday schemas
+export const adjustHolidayBalanceSchema = z.object({
+  userId: idSchema,
+  hours: z
+    .number({ error: "Hours are required" })
+    .refine((hours) => hours !== 0, "Adjustment can't be zero"),
+  reason: z.string().trim().min(1, "Give a reason for the adjustment").max(200),
+});
+
+// Payroll schemas
+export const generatePayrollRunSchema = z.object({
+  payPeriodId: idSchema,
+});
+
 // Time entry schemas
 export const clockInSchema = z.object({
   shiftId: idSchema,
@@ -48,6 +193,246 @@ export const clockInSchema = z.object({
   longitude: z.number().min(-180).max(180).optional(),
 });
 
+export const timeEntryBreakSchema = z.object({
+  timeEntryId: idSchema,
+  action: z.enum(["start", "end"], { error: "Invalid action" }),
+  type: z.enum(["PAID", "UNPAID"]).default("UNPAID"),
+});
+
+// Kiosk schemas
+const kioskPinSchema = z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits");
+
+export const createKioskDeviceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  locationId: idSchema,
+});
+
+export const setKioskPinSchema = z.object({
+  pin: kioskPinSchema,
+});
+
+export const kioskClockSchema = z.object({
+  userId: idSchema,
+  pin: kioskPinSchema,
+  action: z.enum(["in", "out"], { error: "Invalid action" }),
+  // Webcam snapshot as a data URL, kept small by the kiosk
+  photo: z
+    .string()
+    .regex(/^data:image\/(jpeg|png|webp);base64,/, "Photo must be a JPEG, PNG or WebP image")
+    .max(1024 * 1024, "Photo is too large")
+    .optional()
+    .nullable(),
+});
+
+// Maintenance checklist schemas
+const checklistItemSchema = z.object({
+  id: z.string().min(1).max(50),
+  label: z.string().trim().min(1, "Every checklist item needs a label").max(200),
+  type: z.enum(["YES_NO", "NUMBER", "PHOTO"], { error: "Invalid checklist item type" }),
+  required: z.boolean(),
+  expected: z.enum(["yes", "no"]).optional().nullable(),
+  min: z.number().optional().nullable(),
+  max: z.number().optional().nullable(),
+  unit: z.string().trim().max(20).optional().nullable(),
+  failStatus: z.enum(["NEEDS_ATTENTION", "FAIL"]),
+  showIf: z.object({
+    itemId: z.string().min(1),
+    when: z.enum(["yes", "no", "out_of_range"]),
+  }).optional().nullable(),
+});
+
+export const checklistSchema = z.array(checklistItemSchema).max(50, "A checklist can have at most 50 items").superRefine((items, ctx) => {
+  items.forEach((item, index) => {
+    if (items.findIndex((i) => i.id === item.id) !== index) {
+      ctx.addIssue({ code: "custom", message: "Checklist item ids must be unique" });
+    }
+    if (item.min != null && item.max != null && item.min > item.max) {
+      ctx.addIssue({ code: "custom", message: `${item.label}: the minimum is above the maximum` });
+    }
+    if (item.showIf) {
+      // Follow-ups come after the item they follow, which also rules out loops
+      const parent = items.slice(0, index).find((i) => i.id === item.showIf?.itemId);
+      if (!parent) {
+        ctx.addIssue({ code: "custom", message: `${item.label}: follow-ups must come after the item they follow` });
+      } else if (item.showIf.when !== "out_of_range" && parent.type !== "YES_NO") {
+        ctx.addIssue({ code: "custom", message: `${item.label}: only yes/no items can be followed up on a yes or no` });
+      }
+    }
+  });
+});
+
+export const checklistAnswersSchema = z.array(z.object({
+  itemId: z.string().min(1),
+  answer: z.enum(["yes", "no"]).optional().nullable(),
+  reading: z.number().optional().nullable(),
+  photoUrl: z.string().max(5 * 1024 * 1024, "Photo is too large").optional().nullable(),
+}));
+
+// Maintenance defect schemas
+const defectSeveritySchema = z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"], { error: "Invalid severity" });
+
+export const createDefectSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  description: z.string().trim().max(2000).optional().nullable(),
+  severity: defectSeveritySchema.default("MEDIUM"),
+  area: z.string().trim().max(100).optional().nullable(),
+  outOfService: z.boolean().optional(),
+  locationId: idSchema,
+});
+
+export const updateDefectSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("assign"), assignedToId: idSchema }),
+  z.object({ action: z.literal("start") }),
+  z.object({
+    action: z.literal("resolve"),
+    workLogId: idSchema.optional().nullable(),
+    workLog: z.object({
+      title: z.string().trim().max(200).optional().nullable(),
+      description: z.string().trim().max(2000).optional().nullable(),
+      completedBy: z.string().trim().min(1, "Say who did the work"),
+      partsUsed: z.string().trim().max(500).optional().nullable(),
+    }).optional().nullable(),
+  }),
+  z.object({ action: z.literal("verify") }),
+  z.object({ action: z.literal("reopen"), reason: z.string().trim().max(500).optional().nullable() }),
+  z.object({
+    action: z.literal("edit"),
+    severity: defectSeveritySchema.optional(),
+    area: z.string().trim().max(100).optional().nullable(),
+    outOfService: z.boolean().optional(),
+  }),
+]);
+
+// Maintenance asset schemas
+const assetDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const assetFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  category: z.enum(["AUTO_BELAY", "HARNESS", "ROPE", "DRILL", "LADDER", "OTHER"], { error: "Invalid category" }),
+  serialNumber: z.string().trim().max(100).optional().nullable(),
+  manufacturer: z.string().trim().max(100).optional().nullable(),
+  model: z.string().trim().max(100).optional().nullable(),
+  purchaseDate: assetDateSchema.optional().nullable(),
+  retirementDate: assetDateSchema.optional().nullable(),
+  inspectionIntervalDays: z.number().int().min(1, "Inspection interval must be at least a day").max(3650).optional().nullable(),
+  notes: z.string().trim().max(2000).optional().nullable(),
+  locationId: idSchema,
+});
+
+const assetDatesInOrder = (data: { purchaseDate?: string | null; retirementDate?: string | null }) =>
+  !data.purchaseDate || !data.retirementDate || data.purchaseDate < data.retirementDate;
+
+export const createAssetSchema = assetFieldsSchema.refine(assetDatesInOrder, {
+  message: "Retirement date must be after the purchase date",
+  path: ["retirementDate"],
+});
+
+export const updateAssetSchema = assetFieldsSchema
+  .partial()
+  .extend({ retired: z.boolean().optional() })
+  .refine(assetDatesInOrder, {
+    message: "Retirement date must be after the purchase date",
+    path: ["retirementDate"],
+  });
+
+// Route setting schemas
+const routeDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const createSectorSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  discipline: z.enum(["BOULDER", "ROPE"], { error: "Invalid discipline" }),
+  resetIntervalDays: z.number().int().min(1, "Reset interval must be at least a day").max(730),
+  sortOrder: z.number().int().optional(),
+  locationId: idSchema,
+});
+
+export const updateSectorSchema = createSectorSchema
+  .omit({ locationId: true })
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+const routeSetterSchema = z.object({
+  setterId: idSchema.optional().nullable(),
+  externalSetterName: z.string().trim().max(100).optional().nullable(),
+});
+
+const routeDetailsSchema = routeSetterSchema.extend({
+  name: z.string().trim().max(100).optional().nullable(),
+  grade: z.string().trim().min(1, "Grade is required").max(20),
+  color: z.string().trim().min(1, "Colour is required").max(30),
+  notes: z.string().trim().max(1000).optional().nullable(),
+});
+
+const hasSetter = (route: { setterId?: string | null; externalSetterName?: string | null }) =>
+  Boolean(route.setterId || route.externalSetterName);
+
+const stripAfterSet = (data: { setDate?: string; plannedStripDate?: string | null }) =>
+  !data.setDate || !data.plannedStripDate || data.setDate < data.plannedStripDate;
+
+// Routes set together in one sector on a setting day
+export const createRoutesSchema = z
+  .object({
+    sectorId: idSchema,
+    setDate: routeDateSchema,
+    plannedStripDate: routeDateSchema.optional().nullable(),
+    // Strip the routes currently up in the sector, for a full reset
+    stripExisting: z.boolean().optional(),
+    routes: z
+      .array(routeDetailsSchema.refine(hasSetter, { message: "Choose a setter or enter an external setter's name" }))
+      .min(1, "Add at least one route")
+      .max(100),
+  })
+  .refine(stripAfterSet, { message: "Strip date must be after the set date", path: ["plannedStripDate"] });
+
+export const updateRouteSchema = routeDetailsSchema
+  .partial()
+  .extend({
+    sectorId: idSchema.optional(),
+    setDate: routeDateSchema.optional(),
+    plannedStripDate: routeDateSchema.optional().nullable(),
+    stripped: z.boolean().optional(),
+  })
+  .refine(stripAfterSet, { message: "Strip date must be after the set date", path: ["plannedStripDate"] });
+
+// Climbers are anonymous; the page keeps a random ID in their browser
+const climberIdSchema = z.string().trim().min(8, "Invalid climber ID").max(64, "Invalid climber ID");
+
+export const routeFeedbackSchema = z
+  .object({
+    climberId: climberIdSchema,
+    routeId: idSchema,
+    rating: z.number().int().min(1, "Rate the route from 1 to 5").max(5, "Rate the route from 1 to 5").optional().nullable(),
+    suggestedGrade: z.string().trim().max(20).optional().nullable(),
+    comment: z.string().trim().max(500, "Comment must be 500 characters or fewer").optional().nullable(),
+  })
+  .refine((data) => data.rating || data.suggestedGrade, { message: "Rate the route or suggest a grade" });
+
+export const routeProblemSchema = z.object({
+  routeId: idSchema,
+  problem: z.enum(["SPINNING_HOLD", "LOOSE_HOLD", "SHARP_HOLD", "DIRTY_HOLDS", "MISSING_TAG", "OTHER"], {
+    error: "Choose what the problem is",
+  }),
+  details: z.string().trim().max(1000, "Details must be 1000 characters or fewer").optional().nullable(),
+});
+
+export const climberPageSchema = z.object({
+  locationId: idSchema,
+});
+
+// Timesheet schemas
+export const approveTimesheetsSchema = z.object({
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Week start must be a YYYY-MM-DD date"),
+  userIds: z.array(idSchema).min(1, "Choose at least one timesheet to approve"),
+  // Approve entries in a signed-off pay period as payroll adjustments
+  recordAsAdjustment: z.boolean().optional(),
+});
+
+export const queryTimesheetSchema = z.object({
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Week start must be a YYYY-MM-DD date"),
+  userId: idSchema,
+  content: z.string().trim().min(1, "Message is required").max(2000, "Message must be 2000 characters or fewer"),
+});
+
 // Compliance schemas
 export const createComplianceItemSchema = z.object({
   name: z.string().min(1, "Name is required"),
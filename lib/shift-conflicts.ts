@@ -0,0 +1,338 @@
+import { prisma } from "@/lib/db";
+import { checkUserCertifications, formatCertificationError } from "@/lib/certification-utils";
+import { getAbsenceLabel } from "@/lib/absence-types";
+import { YOUNG_WORKER_LIMITS, getWorkingTimeLimits, isYoungWorker } from "@/lib/working-time";
+
+/**
+ * Shift conflict detection
+ *
+ * HARD conflicts block an assignment outright:
+ * - OVERLAPPING_SHIFT: the user already works a shift covering this time
+ * - HOLIDAY: the user has approved absence of any type covering this time
+ * - CERTIFICATION: the user is missing or has expired required certifications
+ *
+ * SOFT conflicts can be overridden by a manager with a reason:
+ * - AVAILABILITY: the shift falls outside the user's stated availability
+ * - MIN_REST: less than 11 hours between this shift and an adjacent one
+ *   (12 hours for under-18s)
+ */
+
+export const MIN_REST_HOURS = 11;
+
+export type ConflictSeverity = "HARD" | "SOFT";
+
+export type ConflictType =
+  | "OVERLAPPING_SHIFT"
+  | "HOLIDAY"
+  | "CERTIFICATION"
+  | "AVAILABILITY"
+  | "MIN_REST";
+
+export interface ShiftConflict {
+  type: ConflictType;
+  severity: ConflictSeverity;
+  message: string;
+  relatedId?: string; // Conflicting shift or holiday request
+}
+
+export interface ConflictCheckResult {
+  hasConflicts: boolean;
+  hardConflicts: ShiftConflict[];
+  softConflicts: ShiftConflict[];
+}
+
+export interface ConflictCheckParams {
+  userId: string;
+  organizationId: string;
+  startTime: Date;
+  endTime: Date;
+  excludeShiftId?: string; // The shift being edited, so it doesn't conflict with itself
+  ignore?: ConflictType[];
+}
+
+export interface ConflictOverride {
+  overrideConflicts?: boolean;
+  overrideReason?: string | null;
+}
+
+export interface TimedShift {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface HolidayRange {
+  id: string;
+  type?: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface AvailabilitySlot {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  isRecurring: boolean;
+  specificDate: Date | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function formatShiftTime(date: Date, timeZone: string): string {
+  return date.toLocaleString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  });
+}
+
+/**
+ * Get the weekday, calendar date and HH:MM of an instant in the given timezone
+ */
+export function getLocalTimeParts(
+  date: Date,
+  timeZone: string
+): { dayOfWeek: number; date: string; time: string } {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+  return {
+    dayOfWeek: weekdays.indexOf(get("weekday")),
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+  };
+}
+
+/**
+ * Find shifts that overlap the given time range
+ */
+export function findOverlappingShifts(
+  startTime: Date,
+  endTime: Date,
+  shifts: TimedShift[]
+): TimedShift[] {
+  return shifts.filter((s) => s.startTime < endTime && s.endTime > startTime);
+}
+
+/**
+ * Find non-overlapping shifts that leave less than the minimum rest gap
+ */
+export function findRestViolations(
+  startTime: Date,
+  endTime: Date,
+  shifts: TimedShift[],
+  minRestHours = MIN_REST_HOURS
+): TimedShift[] {
+  const minRestMs = minRestHours * HOUR_MS;
+
+  return shifts.filter((s) => {
+    if (s.endTime <= startTime) {
+      return startTime.getTime() - s.endTime.getTime() < minRestMs;
+    }
+    if (s.startTime >= endTime) {
+      return s.startTime.getTime() - endTime.getTime() < minRestMs;
+    }
+    return false;
+  });
+}
+
+/**
+ * Find holidays covering any part of the time range.
+ * Holiday end dates are inclusive, so the range runs to the end of that day.
+ */
+export function findHolidayClashes(
+  startTime: Date,
+  endTime: Date,
+  holidays: HolidayRange[]
+): HolidayRange[] {
+  return holidays.filter((h) => {
+    const holidayEnd = new Date(h.endDate.getTime() + DAY_MS);
+    return h.startDate < endTime && holidayEnd > startTime;
+  });
+}
+
+/**
+ * Check whether a shift fits inside the user's stated availability.
+ * Users with no availability recorded are treated as available at any time.
+ * A slot for a specific date takes precedence over recurring slots for that day.
+ */
+export function isWithinAvailability(
+  startTime: Date,
+  endTime: Date,
+  availability: AvailabilitySlot[],
+  timeZone: string
+): boolean {
+  if (availability.length === 0) return true;
+
+  const start = getLocalTimeParts(startTime, timeZone);
+  const end = getLocalTimeParts(endTime, timeZone);
+
+  // Overnight shifts run past midnight, so compare against the end of the day
+  const endTimeOfDay = end.date === start.date ? end.time : "24:00";
+
+  const specificSlots = availability.filter(
+    (a) => !a.isRecurring && a.specificDate &&
+      a.specificDate.toISOString().split("T")[0] === start.date
+  );
+  const slots = specificSlots.length > 0
+    ? specificSlots
+    : availability.filter((a) => a.isRecurring && a.dayOfWeek === start.dayOfWeek);
+
+  return slots.some((a) => a.startTime <= start.time && a.endTime >= endTimeOfDay);
+}
+
+/**
+ * Check a proposed assignment for scheduling conflicts
+ */
+export async function checkShiftConflicts(
+  params: ConflictCheckParams
+): Promise<ConflictCheckResult> {
+  const { userId, organizationId, startTime, endTime, excludeShiftId, ignore = [] } = params;
+  const hardConflicts: ShiftConflict[] = [];
+  const softConflicts: ShiftConflict[] = [];
+
+  // Wide enough for the longer rest young workers need
+  const restWindowMs = YOUNG_WORKER_LIMITS.dailyRestHours * HOUR_MS;
+
+  const [organization, starterForm, nearbyShifts, holidays, availability] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { timezone: true },
+    }),
+    prisma.starterForm.findUnique({
+      where: { userId },
+      select: { dateOfBirth: true },
+    }),
+    prisma.shift.findMany({
+      where: {
+        organizationId,
+        assignedToId: userId,
+        ...(excludeShiftId ? { id: { not: excludeShiftId } } : {}),
+        startTime: { lt: new Date(endTime.getTime() + restWindowMs) },
+        endTime: { gt: new Date(startTime.getTime() - restWindowMs) },
+      },
+      select: { id: true, title: true, startTime: true, endTime: true },
+    }),
+    prisma.holidayRequest.findMany({
+      where: {
+        userId,
+        status: "APPROVED",
+        startDate: { lt: endTime },
+        endDate: { gte: new Date(startTime.getTime() - DAY_MS) },
+      },
+      select: { id: true, type: true, startDate: true, endDate: true },
+    }),
+    prisma.staffAvailability.findMany({
+      where: { userId },
+      select: {
+        dayOfWeek: true,
+        startTime: true,
+        endTime: true,
+        isRecurring: true,
+        specificDate: true,
+      },
+    }),
+  ]);
+
+  const timeZone = organization?.timezone || "UTC";
+
+  if (!ignore.includes("OVERLAPPING_SHIFT")) {
+    for (const s of findOverlappingShifts(startTime, endTime, nearbyShifts)) {
+      hardConflicts.push({
+        type: "OVERLAPPING_SHIFT",
+        severity: "HARD",
+        message: `Already working "${s.title}" (${formatShiftTime(s.startTime, timeZone)})`,
+        relatedId: s.id,
+      });
+    }
+  }
+
+  if (!ignore.includes("HOLIDAY")) {
+    for (const h of findHolidayClashes(startTime, endTime, holidays)) {
+      hardConflicts.push({
+        type: "HOLIDAY",
+        severity: "HARD",
+        message: `On approved ${getAbsenceLabel(h.type ?? "HOLIDAY").toLowerCase()} during this shift`,
+        relatedId: h.id,
+      });
+    }
+  }
+
+  if (!ignore.includes("CERTIFICATION")) {
+    const certCheck = await checkUserCertifications(userId, organizationId);
+    if (!certCheck.isValid) {
+      hardConflicts.push({
+        type: "CERTIFICATION",
+        severity: "HARD",
+        message: formatCertificationError(certCheck),
+      });
+    }
+  }
+
+  if (!ignore.includes("AVAILABILITY") &&
+      !isWithinAvailability(startTime, endTime, availability, timeZone)) {
+    softConflicts.push({
+      type: "AVAILABILITY",
+      severity: "SOFT",
+      message: "Outside stated availability",
+    });
+  }
+
+  if (!ignore.includes("MIN_REST")) {
+    const minRestHours = getWorkingTimeLimits(isYoungWorker(starterForm?.dateOfBirth, startTime)).dailyRestHours;
+    for (const s of findRestViolations(startTime, endTime, nearbyShifts, minRestHours)) {
+      softConflicts.push({
+        type: "MIN_REST",
+        severity: "SOFT",
+        message: `Less than ${minRestHours} hours rest around "${s.title}" (${formatShiftTime(s.startTime, timeZone)})`,
+        relatedId: s.id,
+      });
+    }
+  }
+
+  return {
+    hasConflicts: hardConflicts.length > 0 || softConflicts.length > 0,
+    hardConflicts,
+    softConflicts,
+  };
+}
+
+/**
+ * Decide whether an assignment may go ahead.
+ * Hard conflicts always block; soft conflicts need an override with a reason.
+ */
+export function isAssignmentAllowed(
+  result: ConflictCheckResult,
+  override: ConflictOverride,
+  canOverride: boolean
+): boolean {
+  if (result.hardConflicts.length > 0) return false;
+  if (result.softConflicts.length === 0) return true;
+  return canOverride && !!override.overrideConflicts && !!override.overrideReason?.trim();
+}
+
+/**
+ * Format conflicts into a human-readable error message
+ */
+export function formatConflictError(result: ConflictCheckResult): string {
+  if (result.hardConflicts.length > 0) {
+    return result.hardConflicts.map((c) => c.message).join(". ");
+  }
+  return `${result.softConflicts.map((c) => c.message).join(". ")}. A manager can override with a reason.`;
+}
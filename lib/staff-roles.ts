@@ -0,0 +1,8 @@
+// Offered when an organization sets up its staff roles, and used wherever it
+// hasn't set up its own
+export const DEFAULT_STAFF_ROLES = [
+  { code: "DESK", name: "Front Desk", color: "#3b82f6" },
+  { code: "COACH", name: "Coach", color: "#10b981" },
+  { code: "SETTER", name: "Route Setter", color: "#f59e0b" },
+  { code: "INSTRUCTOR", name: "Instructor", color: "#8b5cf6" },
+];
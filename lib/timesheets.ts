@@ -0,0 +1,504 @@
+import { prisma } from "@/lib/db";
+import { addDaysToDateString, zonedTimeToUtc } from "@/lib/utils";
+import { getLocalTimeParts } from "@/lib/shift-conflicts";
+import { getWeekStart } from "@/lib/absence-types";
+import { getLockedPayPeriod, getTimeEntryHours, recordPayrollAdjustment } from "@/lib/payroll-run";
+import { formatConversationKey, resolveConversation, sendMessage, type MessagingUser } from "@/lib/messaging";
+import { AppError, ForbiddenError, NotFoundError, ValidationError } from "@/lib/errors";
+import { calculateScheduledBreak } from "@/lib/break-rules";
+import {
+  ADULT_LIMITS,
+  checkWorkingTime,
+  getWorkingTimeLimits,
+  isYoungWorker,
+  type WorkingTimeIssue,
+} from "@/lib/working-time";
+
+/**
+ * Weekly timesheet review
+ *
+ * Each employee's week (Monday to Sunday in the organization's timezone) is
+ * compared against their scheduled shifts and approved as a whole. Anything
+ * unclear is queried with the employee in a timesheet message thread.
+ * Approval locks the week: later changes to its time entries have to be
+ * confirmed and are written to the audit log with before and after values.
+ */
+
+// Clock-ins further than this from the shift start need a manager's approval
+export const EARLY_CLOCK_IN_MINUTES = 10;
+export const LATE_CLOCK_IN_MINUTES = 5;
+// Breaks can run this far over the scheduled break before they are flagged
+export const OVER_BREAK_MINUTES = 5;
+
+export type TimesheetStatus = "OPEN" | "QUERIED" | "APPROVED";
+export type TimesheetFlag = "EARLY" | "LATE" | "MISSED_CLOCK_OUT" | "OVER_BREAK";
+
+export interface ReviewShift {
+  id: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  scheduledBreakMinutes: number;
+}
+
+export interface ReviewEntry {
+  id: string;
+  clockIn: Date;
+  clockOut: Date | null;
+  totalBreak: number;
+  status: string;
+  clockInFlag: string | null;
+  missedClockOut: boolean;
+  shiftId: string | null;
+  breaks: BreakRecord[];
+}
+
+export interface TimesheetDay {
+  date: string;
+  shifts: ReviewShift[];
+  entries: (ReviewEntry & { flags: TimesheetFlag[] })[];
+  scheduledHours: number;
+  actualHours: number;
+}
+
+export interface TimesheetWeek {
+  weekStart: string;
+  days: TimesheetDay[];
+  scheduledHours: number;
+  actualHours: number;
+  variance: number;
+  flagCount: number;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export type BreakType = "PAID" | "UNPAID";
+
+export interface BreakRecord {
+  type: string;
+  startTime: Date;
+  endTime: Date | null;
+}
+
+export interface BreakSummary {
+  count: number;
+  paidMinutes: number;
+  unpaidMinutes: number;
+  // Longest single break, for the uninterrupted rest break the law asks for
+  longestMinutes: number;
+}
+
+/**
+ * Minutes in a break. A break still in progress runs up to now.
+ */
+export function getBreakMinutes(record: BreakRecord, now = new Date()): number {
+  const end = record.endTime ?? now;
+  return Math.max(0, Math.round((end.getTime() - record.startTime.getTime()) / 60000));
+}
+
+/**
+ * Add up a time entry's breaks. Only unpaid breaks come off hours worked.
+ */
+export function summarizeBreaks(breaks: BreakRecord[], now = new Date()): BreakSummary {
+  return breaks.reduce<BreakSummary>(
+    (summary, record) => {
+      const minutes = getBreakMinutes(record, now);
+      if (record.type === "PAID") {
+        summary.paidMinutes += minutes;
+      } else {
+        summary.unpaidMinutes += minutes;
+      }
+      summary.longestMinutes = Math.max(summary.longestMinutes, minutes);
+      summary.count++;
+      return summary;
+    },
+    { count: 0, paidMinutes: 0, unpaidMinutes: 0, longestMinutes: 0 }
+  );
+}
+
+/**
+ * Monday of the week an instant falls in, in the organization's timezone
+ */
+export function getTimesheetWeekStart(date: Date, timeZone: string): string {
+  return getWeekStart(getLocalTimeParts(date, timeZone).date);
+}
+
+/**
+ * The instants a timesheet week runs between
+ */
+export function getTimesheetWeekRange(weekStart: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(weekStart, "00:00", timeZone),
+    end: zonedTimeToUtc(addDaysToDateString(weekStart, 7), "00:00", timeZone),
+  };
+}
+
+export function getScheduledHours(shift: ReviewShift): number {
+  const minutes = (shift.endTime.getTime() - shift.startTime.getTime()) / 60000 - shift.scheduledBreakMinutes;
+  return Math.max(0, minutes / 60);
+}
+
+/**
+ * Variances between a time entry and the shift it was clocked against
+ */
+export function getEntryFlags(entry: ReviewEntry, shift: ReviewShift | null): TimesheetFlag[] {
+  const flags: TimesheetFlag[] = [];
+  const minutesFromStart = shift ? (entry.clockIn.getTime() - shift.startTime.getTime()) / 60000 : 0;
+
+  if (entry.clockInFlag === "EARLY" || minutesFromStart < -EARLY_CLOCK_IN_MINUTES) {
+    flags.push("EARLY");
+  }
+  if (entry.clockInFlag === "LATE" || minutesFromStart > LATE_CLOCK_IN_MINUTES) {
+    flags.push("LATE");
+  }
+  if (entry.missedClockOut) {
+    flags.push("MISSED_CLOCK_OUT");
+  }
+  if (shift) {
+    // Paid breaks count too; entries recorded by hand only have an unpaid total
+    const breaks = summarizeBreaks(entry.breaks);
+    const breakMinutes = breaks.count > 0 ? breaks.paidMinutes + breaks.unpaidMinutes : entry.totalBreak;
+    if (breakMinutes > shift.scheduledBreakMinutes + OVER_BREAK_MINUTES) {
+      flags.push("OVER_BREAK");
+    }
+  }
+  return flags;
+}
+
+/**
+ * Lay out an employee's shifts and time entries for the week day by day,
+ * with scheduled against actual hours and the variances on each entry
+ */
+export function buildTimesheetWeek(
+  weekStart: string,
+  shifts: ReviewShift[],
+  entries: ReviewEntry[],
+  timeZone: string
+): TimesheetWeek {
+  const days: TimesheetDay[] = Array.from({ length: 7 }, (_, i) => ({
+    date: addDaysToDateString(weekStart, i),
+    shifts: [],
+    entries: [],
+    scheduledHours: 0,
+    actualHours: 0,
+  }));
+  const dayFor = (date: Date) => days.find((d) => d.date === getLocalTimeParts(date, timeZone).date);
+
+  for (const shift of shifts) {
+    const day = dayFor(shift.startTime);
+    if (!day) continue;
+    day.shifts.push(shift);
+    day.scheduledHours += getScheduledHours(shift);
+  }
+
+  for (const entry of entries) {
+    const day = dayFor(entry.clockIn);
+    if (!day) continue;
+    const shift = shifts.find((s) => s.id === entry.shiftId) ?? null;
+    day.entries.push({ ...entry, flags: getEntryFlags(entry, shift) });
+    // Rejected time isn't paid, so it doesn't count towards the week
+    if (entry.status !== "REJECTED") {
+      day.actualHours += getTimeEntryHours(entry);
+    }
+  }
+
+  for (const day of days) {
+    day.shifts.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    day.entries.sort((a, b) => a.clockIn.getTime() - b.clockIn.getTime());
+    day.scheduledHours = round(day.scheduledHours);
+    day.actualHours = round(day.actualHours);
+  }
+
+  const scheduledHours = round(days.reduce((total, d) => total + d.scheduledHours, 0));
+  const actualHours = round(days.reduce((total, d) => total + d.actualHours, 0));
+
+  return {
+    weekStart,
+    days,
+    scheduledHours,
+    actualHours,
+    variance: round(actualHours - scheduledHours),
+    flagCount: days.reduce((total, d) => total + d.entries.reduce((n, e) => n + e.flags.length, 0), 0),
+  };
+}
+
+async function getTimeZone(organizationId: string): Promise<string> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+  return organization?.timezone || "UTC";
+}
+
+/**
+ * The approved timesheet covering an instant, if there is one. Changes to
+ * time in an approved week have to be confirmed and are audit logged.
+ */
+export async function getApprovedTimesheet(userId: string, date: Date, organizationId: string) {
+  const weekStart = getTimesheetWeekStart(date, await getTimeZone(organizationId));
+  return prisma.timesheet.findFirst({
+    where: { userId, weekStart, organizationId, status: "APPROVED" },
+    select: { id: true, weekStart: true },
+  });
+}
+
+export interface TimesheetApprovalResult {
+  approved: { userId: string; timesheetId: string; entryCount: number }[];
+  skipped: { userId: string; name: string; reason: string }[];
+  // Entries approved in a signed-off pay period, paid in the next payroll run
+  adjustments: {
+    id: string;
+    userId: string;
+    timeEntryId: string | null;
+    payPeriodId: string;
+    hoursDelta: number;
+    amount: number;
+  }[];
+}
+
+/**
+ * Approve a week's timesheets for several employees at once. Approving
+ * accepts every pending entry in the week, including early and late
+ * clock-ins. Anyone still clocked in is skipped. Approving pays the pending
+ * entries, so those in a signed-off pay period are refused unless they are
+ * recorded as payroll adjustments.
+ */
+export async function approveTimesheets(
+  organizationId: string,
+  approverId: string,
+  weekStart: string,
+  userIds: string[],
+  options: { recordAsAdjustment?: boolean } = {},
+  now = new Date()
+): Promise<TimesheetApprovalResult> {
+  if (getWeekStart(weekStart) !== weekStart) {
+    throw new ValidationError("Timesheet weeks start on a Monday");
+  }
+  const { start, end } = getTimesheetWeekRange(weekStart, await getTimeZone(organizationId));
+  if (end > now) {
+    throw new ValidationError("Timesheets can be approved once the week is over");
+  }
+  const result: TimesheetApprovalResult = { approved: [], skipped: [], adjustments: [] };
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds }, organizationId },
+    select: {
+      id: true,
+      name: true,
+      timeEntries: {
+        where: { clockIn: { gte: start, lt: end } },
+        select: { id: true, userId: true, shiftId: true, clockIn: true, clockOut: true, totalBreak: true, status: true },
+      },
+    },
+  });
+
+  const lockedPeriods = new Map<string, { id: string; name: string }>();
+  for (const user of users) {
+    if (user.timeEntries.some((e) => !e.clockOut)) continue;
+    for (const entry of user.timeEntries.filter((e) => e.status === "PENDING")) {
+      const period = await getLockedPayPeriod(organizationId, entry.clockIn);
+      if (period) lockedPeriods.set(entry.id, period);
+    }
+  }
+  const [lockedPeriod] = lockedPeriods.values();
+  if (lockedPeriod && !options.recordAsAdjustment) {
+    throw new AppError(
+      `Payroll for ${lockedPeriod.name} has been signed off. Approving pays this week's pending time, so it will be recorded as an adjustment for the next payroll run.`,
+      409,
+      "PERIOD_LOCKED"
+    );
+  }
+
+  for (const user of users) {
+    if (user.timeEntries.some((e) => !e.clockOut)) {
+      result.skipped.push({ userId: user.id, name: user.name, reason: "Still clocked in" });
+      continue;
+    }
+
+    const timesheet = await prisma.$transaction(async (tx) => {
+      const approved = await tx.timesheet.upsert({
+        where: { userId_weekStart: { userId: user.id, weekStart } },
+        create: {
+          userId: user.id,
+          weekStart,
+          organizationId,
+          status: "APPROVED",
+          approvedById: approverId,
+          approvedAt: now,
+        },
+        update: { status: "APPROVED", approvedById: approverId, approvedAt: now },
+      });
+      await tx.timeEntry.updateMany({
+        where: { userId: user.id, clockIn: { gte: start, lt: end }, clockInApproved: false },
+        data: { clockInApproved: true, clockInApprovedBy: approverId, clockInApprovedAt: now },
+      });
+      await tx.timeEntry.updateMany({
+        where: { userId: user.id, clockIn: { gte: start, lt: end }, status: "PENDING" },
+        data: { status: "APPROVED" },
+      });
+      for (const entry of user.timeEntries) {
+        const period = lockedPeriods.get(entry.id);
+        if (!period) continue;
+        const adjustment = await recordPayrollAdjustment(
+          {
+            organizationId,
+            payPeriodId: period.id,
+            timeEntryId: entry.id,
+            createdById: approverId,
+            before: entry,
+            after: { ...entry, status: "APPROVED" },
+            reason: "Time entry approved after payroll sign-off",
+          },
+          tx
+        );
+        result.adjustments.push({
+          id: adjustment.id,
+          userId: user.id,
+          timeEntryId: adjustment.timeEntryId,
+          payPeriodId: period.id,
+          hoursDelta: adjustment.hoursDelta,
+          amount: adjustment.amount,
+        });
+      }
+      return approved;
+    });
+
+    result.approved.push({ userId: user.id, timesheetId: timesheet.id, entryCount: user.timeEntries.length });
+  }
+
+  return result;
+}
+
+/**
+ * Start or add to the query thread on an employee's week. Managers query
+ * anyone's timesheet; employees can raise a query about their own.
+ */
+export async function queryTimesheet(
+  sender: MessagingUser & { name: string },
+  userId: string,
+  weekStart: string,
+  content: string
+) {
+  if (getWeekStart(weekStart) !== weekStart) {
+    throw new ValidationError("Timesheet weeks start on a Monday");
+  }
+  const isManager = sender.role === "MANAGER" || sender.role === "ADMIN";
+  if (!isManager && userId !== sender.id) {
+    throw new ForbiddenError("You can only query your own timesheet");
+  }
+  const employee = await prisma.user.findFirst({
+    where: { id: userId, organizationId: sender.organizationId },
+    select: { id: true },
+  });
+  if (!employee) {
+    throw new NotFoundError("User not found");
+  }
+
+  const existing = await prisma.timesheet.findUnique({
+    where: { userId_weekStart: { userId, weekStart } },
+  });
+  // An approved week stays approved and locked while it is discussed
+  const timesheet = existing
+    ? existing.status === "APPROVED"
+      ? existing
+      : await prisma.timesheet.update({ where: { id: existing.id }, data: { status: "QUERIED" } })
+    : await prisma.timesheet.create({
+        data: { userId, weekStart, organizationId: sender.organizationId, status: "QUERIED" },
+      });
+
+  const conversation = await resolveConversation(
+    sender,
+    formatConversationKey({ type: "timesheet", id: timesheet.id })
+  );
+  const message = await sendMessage(sender, conversation, content);
+
+  return { timesheet, conversation: conversation.key, message };
+}
+
+export interface WorkingTimeCheck {
+  youngWorker: boolean;
+  issues: WorkingTimeIssue[];
+}
+
+/**
+ * Check the time people actually worked in a week against the Working Time
+ * Regulations and the break rules of where they worked. Earlier weeks are
+ * loaded for the rest and weekly average checks.
+ */
+export async function getWorkingTimeIssues(
+  organizationId: string,
+  userIds: string[],
+  weekStart: string
+): Promise<Map<string, WorkingTimeCheck>> {
+  const [organization, locations, users] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { timezone: true, breakRules: true },
+    }),
+    prisma.location.findMany({
+      where: { organizationId },
+      select: { id: true, breakRules: true },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: userIds }, organizationId },
+      select: { id: true, starterForm: { select: { dateOfBirth: true } } },
+    }),
+  ]);
+
+  const timeZone = organization?.timezone || "UTC";
+  const { end } = getTimesheetWeekRange(weekStart, timeZone);
+  // The longest reference period, plus the day before it for rest
+  const from = getTimesheetWeekRange(
+    addDaysToDateString(weekStart, -7 * (ADULT_LIMITS.averagingWeeks - 1)),
+    timeZone
+  ).start;
+
+  const entries = await prisma.timeEntry.findMany({
+    where: {
+      userId: { in: userIds },
+      clockIn: { gte: new Date(from.getTime() - 24 * 60 * 60 * 1000), lt: end },
+      clockOut: { not: null },
+      status: { not: "REJECTED" },
+    },
+    select: {
+      id: true,
+      userId: true,
+      clockIn: true,
+      clockOut: true,
+      totalBreak: true,
+      shift: { select: { locationId: true } },
+      breaks: { select: { type: true, startTime: true, endTime: true } },
+    },
+  });
+
+  // Locations without their own break rules use the organization's
+  const locationRules = new Map(locations.map((l) => [l.id, l.breakRules]));
+  const breakRulesFor = (locationId: string | null | undefined) => {
+    const rules = locationId ? locationRules.get(locationId) : null;
+    return rules && rules !== "[]" ? rules : organization?.breakRules || "[]";
+  };
+
+  const checks = new Map<string, WorkingTimeCheck>();
+  for (const user of users) {
+    const youngWorker = isYoungWorker(user.starterForm?.dateOfBirth, end);
+    const periods = entries
+      .filter((e) => e.userId === user.id)
+      .map((e) => {
+        // Entries recorded by hand only have an unpaid total
+        const breaks = summarizeBreaks(e.breaks);
+        return {
+          id: e.id,
+          startTime: e.clockIn,
+          endTime: e.clockOut!,
+          breakMinutes: e.totalBreak + breaks.paidMinutes,
+          longestBreakMinutes: breaks.count > 0 ? breaks.longestMinutes : undefined,
+          requiredBreakMinutes: calculateScheduledBreak(e.clockIn, e.clockOut!, breakRulesFor(e.shift?.locationId)),
+        };
+      });
+    checks.set(user.id, {
+      youngWorker,
+      issues: checkWorkingTime(periods, weekStart, getWorkingTimeLimits(youngWorker), timeZone),
+    });
+  }
+  return checks;
+}
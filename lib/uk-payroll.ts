@@ -1,28 +1,168 @@
 /**
- * UK Payroll Calculations for 2025/26 Tax Year (April 2025 - April 2026)
+ * UK Payroll Calculations
  *
- * NI Thresholds (monthly):
- * - Employee Primary Threshold (PT): £1,048/month - NI starts
- * - Upper Earnings Limit (UEL): £4,189/month - 8% rate stops
- * - Employee NI: 8% on earnings £1,048-£4,189/month, 2% above £4,189/month
- * - Employer Secondary Threshold (ST): £417/month
- * - Employer NI: 15% on earnings above £417/month
+ * Rates and thresholds change every April, so they live in a table of tax
+ * years rather than constants. Always pick the year with getTaxYearRules()
+ * using the pay date (or period end) being reported, so historical reports
+ * keep the rules that applied at the time.
+ *
+ * NI thresholds are monthly; levy, employment allowance, income tax bands,
+ * student loan thresholds and pension qualifying earnings are annual, as
+ * published by HMRC and TPR.
  *
  * Holiday Accrual: 12.07% for HOURLY staff only
+ * Pension: statutory minimum contributions on qualifying earnings unless the
+ * employee has opted out or is outside the auto-enrolment age range
+ * PAYE: an indicative, non-cumulative estimate from the tax code. Scottish
+ * and Welsh codes are estimated with the rest-of-UK bands.
  */
 
-// Monthly thresholds for 2025/26 tax year
-const EMPLOYEE_NI_LOWER_THRESHOLD_MONTHLY = 1048; // Primary Threshold (PT)
-const EMPLOYEE_NI_UPPER_THRESHOLD_MONTHLY = 4189; // Upper Earnings Limit (UEL)
-const EMPLOYER_NI_THRESHOLD_MONTHLY = 417; // Secondary Threshold (ST)
+export interface TaxYearRules {
+  label: string; // e.g. "2025/26"
+  startDate: string; // YYYY-MM-DD, always 6 April
+  ni: {
+    primaryThresholdMonthly: number; // PT - employee NI starts
+    upperEarningsLimitMonthly: number; // UEL - main rate stops
+    secondaryThresholdMonthly: number; // ST - employer NI starts
+    employeeMainRate: number;
+    employeeAdditionalRate: number; // Above the UEL
+    employerRate: number;
+  };
+  holidayAccrualRate: number;
+  apprenticeshipLevy: {
+    rate: number;
+    allowance: number; // Annual levy allowance, offset against the levy
+  };
+  employmentAllowance: number; // Annual reduction in employer NI
+  pension: {
+    earningsTrigger: number; // Auto-enrolment trigger
+    lowerQualifyingEarnings: number;
+    upperQualifyingEarnings: number;
+    employerRate: number; // Statutory minimums on qualifying earnings
+    employeeRate: number;
+  };
+  incomeTax: {
+    emergencyTaxCode: string;
+    bands: { upTo: number; rate: number }[]; // Taxable income above the allowance
+  };
+  studentLoans: Record<string, { threshold: number; rate: number }>; // Keyed by StarterForm.studentLoanPlan
+}
+
+const INCOME_TAX_RUK = {
+  emergencyTaxCode: "1257L",
+  bands: [
+    { upTo: 37700, rate: 0.2 },
+    { upTo: 125140, rate: 0.4 },
+    { upTo: Infinity, rate: 0.45 },
+  ],
+};
 
-// NI Rates for 2025/26
-const EMPLOYEE_NI_MAIN_RATE = 0.08; // 8%
-const EMPLOYEE_NI_ADDITIONAL_RATE = 0.02; // 2%
-const EMPLOYER_NI_RATE = 0.15; // 15%
+// Oldest first. Add the new year here each April; never edit past years.
+export const UK_TAX_YEARS: TaxYearRules[] = [
+  {
+    label: "2024/25",
+    startDate: "2024-04-06",
+    ni: {
+      primaryThresholdMonthly: 1048,
+      upperEarningsLimitMonthly: 4189,
+      secondaryThresholdMonthly: 758,
+      employeeMainRate: 0.08,
+      employeeAdditionalRate: 0.02,
+      employerRate: 0.138,
+    },
+    holidayAccrualRate: 0.1207,
+    apprenticeshipLevy: { rate: 0.005, allowance: 15000 },
+    employmentAllowance: 5000,
+    pension: {
+      earningsTrigger: 10000,
+      lowerQualifyingEarnings: 6240,
+      upperQualifyingEarnings: 50270,
+      employerRate: 0.03,
+      employeeRate: 0.05,
+    },
+    incomeTax: INCOME_TAX_RUK,
+    studentLoans: {
+      PLAN_1: { threshold: 24990, rate: 0.09 },
+      PLAN_2: { threshold: 27295, rate: 0.09 },
+      PLAN_4: { threshold: 31395, rate: 0.09 },
+      POSTGRAD: { threshold: 21000, rate: 0.06 },
+    },
+  },
+  {
+    label: "2025/26",
+    startDate: "2025-04-06",
+    ni: {
+      primaryThresholdMonthly: 1048,
+      upperEarningsLimitMonthly: 4189,
+      secondaryThresholdMonthly: 417,
+      employeeMainRate: 0.08,
+      employeeAdditionalRate: 0.02,
+      employerRate: 0.15,
+    },
+    holidayAccrualRate: 0.1207,
+    apprenticeshipLevy: { rate: 0.005, allowance: 15000 },
+    employmentAllowance: 10500,
+    pension: {
+      earningsTrigger: 10000,
+      lowerQualifyingEarnings: 6240,
+      upperQualifyingEarnings: 50270,
+      employerRate: 0.03,
+      employeeRate: 0.05,
+    },
+    incomeTax: INCOME_TAX_RUK,
+    studentLoans: {
+      PLAN_1: { threshold: 26065, rate: 0.09 },
+      PLAN_2: { threshold: 28470, rate: 0.09 },
+      PLAN_4: { threshold: 32745, rate: 0.09 },
+      POSTGRAD: { threshold: 21000, rate: 0.06 },
+    },
+  },
+  {
+    label: "2026/27",
+    startDate: "2026-04-06",
+    ni: {
+      primaryThresholdMonthly: 1048,
+      upperEarningsLimitMonthly: 4189,
+      secondaryThresholdMonthly: 417,
+      employeeMainRate: 0.08,
+      employeeAdditionalRate: 0.02,
+      employerRate: 0.15,
+    },
+    holidayAccrualRate: 0.1207,
+    apprenticeshipLevy: { rate: 0.005, allowance: 15000 },
+    employmentAllowance: 10500,
+    pension: {
+      earningsTrigger: 10000,
+      lowerQualifyingEarnings: 6240,
+      upperQualifyingEarnings: 50270,
+      employerRate: 0.03,
+      employeeRate: 0.05,
+    },
+    incomeTax: INCOME_TAX_RUK,
+    studentLoans: {
+      PLAN_1: { threshold: 26900, rate: 0.09 },
+      PLAN_2: { threshold: 29385, rate: 0.09 },
+      PLAN_4: { threshold: 33795, rate: 0.09 },
+      POSTGRAD: { threshold: 21000, rate: 0.06 },
+    },
+  },
+];
+
+/**
+ * Rules for the tax year a date falls in (UK calendar date). Dates before
+ * the first year in the table use the first year; dates after the last use
+ * the last until the next year is added.
+ */
+export function getTaxYearRules(date: Date): TaxYearRules {
+  const ukDate = date.toLocaleDateString("en-CA", { timeZone: "Europe/London" });
+  let rules = UK_TAX_YEARS[0];
+  for (const year of UK_TAX_YEARS) {
+    if (year.startDate <= ukDate) rules = year;
+  }
+  return rules;
+}
 
-// Holiday Accrual
-const HOLIDAY_ACCRUAL_RATE = 0.1207; // 12.07%
+const round = (value: number) => Math.round(value * 100) / 100;
 
 export interface NICalculation {
   employeeNI: number;
@@ -32,34 +172,45 @@ export interface NICalculation {
 /**
  * Calculate monthly National Insurance contributions
  * @param monthlyGross - Gross monthly pay
+ * @param rules - Tax year to apply
  * @returns Employee and employer NI amounts
  */
-export function calculateMonthlyNI(monthlyGross: number): NICalculation {
-  // Employee NI calculation
+export function calculateMonthlyNI(monthlyGross: number, rules: TaxYearRules): NICalculation {
+  const { ni } = rules;
+
+  // Employee NI: main rate between PT and UEL, additional rate above the UEL
   let employeeNI = 0;
 
-  if (monthlyGross > EMPLOYEE_NI_LOWER_THRESHOLD_MONTHLY) {
-    if (monthlyGross <= EMPLOYEE_NI_UPPER_THRESHOLD_MONTHLY) {
-      // 8% on amount between lower and upper threshold
-      employeeNI = (monthlyGross - EMPLOYEE_NI_LOWER_THRESHOLD_MONTHLY) * EMPLOYEE_NI_MAIN_RATE;
-    } else {
-      // 8% on amount between thresholds + 2% on amount above upper threshold
-      const mainBandNI = (EMPLOYEE_NI_UPPER_THRESHOLD_MONTHLY - EMPLOYEE_NI_LOWER_THRESHOLD_MONTHLY) * EMPLOYEE_NI_MAIN_RATE;
-      const additionalBandNI = (monthlyGross - EMPLOYEE_NI_UPPER_THRESHOLD_MONTHLY) * EMPLOYEE_NI_ADDITIONAL_RATE;
-      employeeNI = mainBandNI + additionalBandNI;
-    }
+  if (monthlyGross > ni.primaryThresholdMonthly) {
+    const mainBand = Math.min(monthlyGross, ni.upperEarningsLimitMonthly) - ni.primaryThresholdMonthly;
+    const additionalBand = Math.max(0, monthlyGross - ni.upperEarningsLimitMonthly);
+    employeeNI = mainBand * ni.employeeMainRate + additionalBand * ni.employeeAdditionalRate;
   }
 
   // Employer NI calculation
   let employerNI = 0;
 
-  if (monthlyGross > EMPLOYER_NI_THRESHOLD_MONTHLY) {
-    employerNI = (monthlyGross - EMPLOYER_NI_THRESHOLD_MONTHLY) * EMPLOYER_NI_RATE;
+  if (monthlyGross > ni.secondaryThresholdMonthly) {
+    employerNI = (monthlyGross - ni.secondaryThresholdMonthly) * ni.employerRate;
   }
 
   return {
-    employeeNI: Math.round(employeeNI * 100) / 100,
-    employerNI: Math.round(employerNI * 100) / 100,
+    employeeNI: round(employeeNI),
+    employerNI: round(employerNI),
+  };
+}
+
+/**
+ * NI for a pay period of any length: work out the monthly-equivalent pay,
+ * apply the monthly thresholds, then scale back to the period
+ * @param months - Length of the period in months (e.g. 12/52 for a week)
+ */
+export function calculatePeriodNI(grossPay: number, months: number, rules: TaxYearRules): NICalculation {
+  if (months <= 0 || grossPay <= 0) return { employeeNI: 0, employerNI: 0 };
+  const monthly = calculateMonthlyNI(grossPay / months, rules);
+  return {
+    employeeNI: round(monthly.employeeNI * months),
+    employerNI: round(monthly.employerNI * months),
   };
 }
 
@@ -68,13 +219,22 @@ export function calculateMonthlyNI(monthlyGross: number): NICalculation {
  * Only applicable for HOURLY staff - monthly salaried staff have holiday included
  * @param grossPay - Gross pay amount
  * @param paymentType - "HOURLY" or "MONTHLY"
+ * @param rules - Tax year to apply
  * @returns Holiday accrual amount (12.07% for hourly, 0 for monthly)
  */
-export function calculateHolidayAccrual(grossPay: number, paymentType: string): number {
+export function calculateHolidayAccrual(grossPay: number, paymentType: string, rules: TaxYearRules): number {
   if (paymentType === "MONTHLY") {
     return 0;
   }
-  return Math.round(grossPay * HOLIDAY_ACCRUAL_RATE * 100) / 100;
+  return round(grossPay * rules.holidayAccrualRate);
+}
+
+/**
+ * Apprenticeship levy owed on an annual pay bill, after the levy allowance
+ */
+export function calculateApprenticeshipLevy(annualPayBill: number, rules: TaxYearRules): number {
+  const { rate, allowance } = rules.apprenticeshipLevy;
+  return round(Math.max(0, annualPayBill * rate - allowance));
 }
 
 /**
@@ -94,29 +254,214 @@ export function getEffectiveHourlyRate(
   return userRate ? userRate.hourlyRate : categoryRate;
 }
 
+/**
+ * What the employee's starter form tells us about their deductions
+ */
+export interface PayrollProfile {
+  pensionEnrolled: boolean; // False when opted out or outside the auto-enrolment age range
+  taxCode: string | null; // Null uses the emergency code
+  studentLoanPlan: string | null;
+}
+
+export const DEFAULT_PAYROLL_PROFILE: PayrollProfile = {
+  pensionEnrolled: true,
+  taxCode: null,
+  studentLoanPlan: null,
+};
+
+// Auto-enrolment applies from 22 until state pension age
+const AUTO_ENROLMENT_MIN_AGE = 22;
+const STATE_PENSION_AGE = 66;
+
+export function isAutoEnrolmentAge(dateOfBirth: Date | null, asOf: Date): boolean {
+  if (!dateOfBirth) return true;
+  let age = asOf.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const birthdayPassed =
+    asOf.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (asOf.getUTCMonth() === dateOfBirth.getUTCMonth() && asOf.getUTCDate() >= dateOfBirth.getUTCDate());
+  if (!birthdayPassed) age--;
+  return age >= AUTO_ENROLMENT_MIN_AGE && age < STATE_PENSION_AGE;
+}
+
+/**
+ * Tax code to estimate with: the P45 code if there is one, otherwise from
+ * the starter declaration (A and B get the emergency code, C is basic rate)
+ */
+export function getStarterTaxCode(
+  form: { hasP45: boolean; p45TaxCode: string | null; starterDeclaration: string | null },
+  rules: TaxYearRules
+): string | null {
+  if (form.hasP45 && form.p45TaxCode) return form.p45TaxCode;
+  if (form.starterDeclaration === "C") return "BR";
+  if (form.starterDeclaration === "A" || form.starterDeclaration === "B") {
+    return rules.incomeTax.emergencyTaxCode;
+  }
+  return null;
+}
+
+export interface ParsedTaxCode {
+  allowance: number; // Annual; negative for K codes
+  flatRate: number | null; // BR, D0, D1
+  noTax: boolean; // NT
+}
+
+/**
+ * Parse a tax code such as 1257L, S1257L, K475, BR, D0, NT or 0T W1.
+ * Returns null for codes we don't recognise.
+ */
+export function parseTaxCode(code: string, rules: TaxYearRules): ParsedTaxCode | null {
+  const normalised = code
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .replace(/(W1|M1|X)$/, "")
+    .replace(/^[SC](?=\d|K|BR|D\d|NT|0T)/, "");
+  const bands = rules.incomeTax.bands;
+
+  if (normalised === "NT") return { allowance: 0, flatRate: null, noTax: true };
+  if (normalised === "BR") return { allowance: 0, flatRate: bands[0].rate, noTax: false };
+  if (normalised === "D0") return { allowance: 0, flatRate: bands[1].rate, noTax: false };
+  if (normalised === "D1") return { allowance: 0, flatRate: bands[2].rate, noTax: false };
+  if (normalised === "0T") return { allowance: 0, flatRate: null, noTax: false };
+
+  const k = normalised.match(/^K(\d+)$/);
+  if (k) return { allowance: -(Number(k[1]) * 10), flatRate: null, noTax: false };
+
+  const standard = normalised.match(/^(\d+)[LMNT]$/);
+  if (standard) return { allowance: Number(standard[1]) * 10 + 9, flatRate: null, noTax: false };
+
+  return null;
+}
+
+/**
+ * Indicative PAYE for one pay period, worked out non-cumulatively (as for a
+ * W1/M1 code). Real payroll software may differ once year-to-date figures
+ * are taken into account.
+ */
+export function estimateIncomeTax(
+  grossPay: number,
+  taxCode: string | null,
+  rules: TaxYearRules,
+  months = 1
+): number {
+  if (grossPay <= 0) return 0;
+  const code =
+    (taxCode && parseTaxCode(taxCode, rules)) ||
+    (parseTaxCode(rules.incomeTax.emergencyTaxCode, rules) as ParsedTaxCode);
+  if (code.noTax) return 0;
+  if (code.flatRate !== null) return round(grossPay * code.flatRate);
+
+  const scale = months / 12;
+  let taxable = Math.max(0, grossPay - code.allowance * scale);
+  let tax = 0;
+  let lower = 0;
+  for (const band of rules.incomeTax.bands) {
+    const width = (band.upTo - lower) * scale;
+    const inBand = Math.min(taxable, width);
+    tax += inBand * band.rate;
+    taxable -= inBand;
+    lower = band.upTo;
+    if (taxable <= 0) break;
+  }
+
+  // K codes can't take more than half of the period's pay
+  if (code.allowance < 0) tax = Math.min(tax, grossPay * 0.5);
+  return round(tax);
+}
+
+/**
+ * Student loan repayment for one pay period. HMRC rounds down to whole pounds.
+ */
+export function calculateStudentLoan(
+  grossPay: number,
+  plan: string | null,
+  rules: TaxYearRules,
+  months = 1
+): number {
+  const loan = plan ? rules.studentLoans[plan] : undefined;
+  if (!loan) return 0;
+  const threshold = (loan.threshold * months) / 12;
+  return Math.max(0, Math.floor((grossPay - threshold) * loan.rate));
+}
+
+export interface PensionContributions {
+  employerPension: number;
+  employeePension: number;
+}
+
+/**
+ * Auto-enrolment contributions on qualifying earnings for one pay period.
+ * Nothing is due below the earnings trigger.
+ */
+export function calculatePensionContributions(
+  grossPay: number,
+  rules: TaxYearRules,
+  months = 1
+): PensionContributions {
+  const { pension } = rules;
+  const scale = months / 12;
+  if (grossPay <= pension.earningsTrigger * scale) {
+    return { employerPension: 0, employeePension: 0 };
+  }
+
+  const qualifying =
+    Math.min(grossPay, pension.upperQualifyingEarnings * scale) - pension.lowerQualifyingEarnings * scale;
+  return {
+    employerPension: round(Math.max(0, qualifying) * pension.employerRate),
+    employeePension: round(Math.max(0, qualifying) * pension.employeeRate),
+  };
+}
+
 export interface StaffCostCalculation {
   grossPay: number;
   holidayAccrual: number;
   employeeNI: number;
   employerNI: number;
-  totalCost: number; // grossPay + holidayAccrual + employerNI
+  employerPension: number;
+  employeePension: number;
+  incomeTax: number; // Indicative PAYE
+  studentLoan: number;
+  netPay: number; // grossPay less employee NI, pension, PAYE and student loan
+  totalCost: number; // grossPay + holidayAccrual + employerNI + employerPension
+}
+
+export interface StaffCostOptions {
+  months?: number; // Length of the pay period in months (defaults to one month)
+  profile?: PayrollProfile; // Defaults to auto-enrolled on the emergency tax code
 }
 
 /**
  * Calculate full staff cost breakdown
  * @param grossPay - Gross pay amount
  * @param paymentType - "HOURLY" or "MONTHLY"
- * @returns Full cost breakdown including NI and holiday accrual
+ * @param rules - Tax year to apply
+ * @returns Full cost breakdown including NI, pension, holiday accrual and
+ * the employee's indicative deductions
  */
-export function calculateStaffCost(grossPay: number, paymentType: string): StaffCostCalculation {
-  const holidayAccrual = calculateHolidayAccrual(grossPay, paymentType);
-  const { employeeNI, employerNI } = calculateMonthlyNI(grossPay);
+export function calculateStaffCost(
+  grossPay: number,
+  paymentType: string,
+  rules: TaxYearRules,
+  options: StaffCostOptions = {}
+): StaffCostCalculation {
+  const { months = 1, profile = DEFAULT_PAYROLL_PROFILE } = options;
+  const holidayAccrual = calculateHolidayAccrual(grossPay, paymentType, rules);
+  const { employeeNI, employerNI } = calculatePeriodNI(grossPay, months, rules);
+  const { employerPension, employeePension } = profile.pensionEnrolled
+    ? calculatePensionContributions(grossPay, rules, months)
+    : { employerPension: 0, employeePension: 0 };
+  const incomeTax = estimateIncomeTax(grossPay, profile.taxCode, rules, months);
+  const studentLoan = calculateStudentLoan(grossPay, profile.studentLoanPlan, rules, months);
 
   return {
-    grossPay: Math.round(grossPay * 100) / 100,
+    grossPay: round(grossPay),
     holidayAccrual,
     employeeNI,
     employerNI,
-    totalCost: Math.round((grossPay + holidayAccrual + employerNI) * 100) / 100,
+    employerPension,
+    employeePension,
+    incomeTax,
+    studentLoan,
+    netPay: round(grossPay - employeeNI - employeePension - incomeTax - studentLoan),
+    totalCost: round(grossPay + holidayAccrual + employerNI + employerPension),
   };
 }
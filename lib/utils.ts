@@ -91,3 +91,51 @@ export function calculateWorkingDays(start: Date, end: Date): number {
   }
   return count;
 }
+
+function getTimeZoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock date ("YYYY-MM-DD") and time ("HH:mm") in a timezone to a UTC Date
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const naive = Date.parse(`${date}T${time}:00Z`);
+  const offset = getTimeZoneOffsetMs(new Date(naive), timeZone);
+  const result = naive - offset;
+
+  // Re-check in case the offset changes across a DST boundary
+  const correctedOffset = getTimeZoneOffsetMs(new Date(result), timeZone);
+  return new Date(correctedOffset === offset ? result : naive - correctedOffset);
+}
+
+/**
+ * Read an optional "YYYY-MM-DD" date from a form for an update. Undefined
+ * leaves the field as it is; empty clears it.
+ */
+export function parseFormDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Add days to a "YYYY-MM-DD" date string
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
@@ -0,0 +1,278 @@
+import { addDaysToDateString } from "@/lib/utils";
+import { getWeekStart } from "@/lib/absence-types";
+
+/**
+ * Working time checks
+ *
+ * UK Working Time Regulations, checked against the rota or against time
+ * actually worked:
+ * - REST_BREAK: a 20 minute break when working more than 6 hours
+ *   (30 minutes over 4.5 hours for under-18s)
+ * - DAILY_REST: 11 hours rest between working days (12 for under-18s)
+ * - DAILY_HOURS: under-18s can work no more than 8 hours a day
+ * - WEEKLY_HOURS: no more than 48 hours a week, averaged over 17 weeks.
+ *   Under-18s can work no more than 40 hours in any week.
+ *
+ * BREAK_RULE: time entries are also checked against the organization's or
+ * location's own break rules, the same ones used to schedule breaks.
+ */
+
+export interface WorkingTimeLimits {
+  restBreakAfterHours: number;
+  restBreakMinutes: number;
+  dailyRestHours: number;
+  maxDailyHours: number | null;
+  maxWeeklyHours: number;
+  averagingWeeks: number;
+}
+
+export const ADULT_LIMITS: WorkingTimeLimits = {
+  restBreakAfterHours: 6,
+  restBreakMinutes: 20,
+  dailyRestHours: 11,
+  maxDailyHours: null,
+  maxWeeklyHours: 48,
+  averagingWeeks: 17,
+};
+
+export const YOUNG_WORKER_LIMITS: WorkingTimeLimits = {
+  restBreakAfterHours: 4.5,
+  restBreakMinutes: 30,
+  dailyRestHours: 12,
+  maxDailyHours: 8,
+  maxWeeklyHours: 40,
+  averagingWeeks: 1,
+};
+
+export const YOUNG_WORKER_AGE = 18;
+
+export type WorkingTimeIssueType = "REST_BREAK" | "BREAK_RULE" | "DAILY_REST" | "DAILY_HOURS" | "WEEKLY_HOURS";
+
+export interface WorkPeriod {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+  breakMinutes: number;
+  // The rest break has to be taken in one go, so when individual breaks are
+  // known the longest one is checked
+  longestBreakMinutes?: number;
+  // Break the organization's break rules ask for, when checking actual time
+  requiredBreakMinutes?: number;
+}
+
+export interface WorkingTimeIssue {
+  type: WorkingTimeIssueType;
+  date: string; // Local date the issue falls on
+  periodId: string | null;
+  message: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Age in whole years on a date
+ */
+export function getAge(dateOfBirth: Date, on: Date): number {
+  let age = on.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const birthdayPassed =
+    on.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (on.getUTCMonth() === dateOfBirth.getUTCMonth() && on.getUTCDate() >= dateOfBirth.getUTCDate());
+  if (!birthdayPassed) age--;
+  return age;
+}
+
+/**
+ * Whether someone is a young worker. Without a date of birth on their
+ * starter form they are treated as an adult.
+ */
+export function isYoungWorker(dateOfBirth: Date | null | undefined, on: Date): boolean {
+  return !!dateOfBirth && getAge(dateOfBirth, on) < YOUNG_WORKER_AGE;
+}
+
+export function getWorkingTimeLimits(youngWorker: boolean): WorkingTimeLimits {
+  return youngWorker ? YOUNG_WORKER_LIMITS : ADULT_LIMITS;
+}
+
+function getLocalDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+export function getWorkedHours(period: WorkPeriod): number {
+  const hours = (period.endTime.getTime() - period.startTime.getTime()) / HOUR_MS - period.breakMinutes / 60;
+  return Math.max(0, hours);
+}
+
+/**
+ * Check the break taken during one period of work
+ */
+export function checkBreaks(period: WorkPeriod, limits: WorkingTimeLimits, timeZone: string): WorkingTimeIssue[] {
+  const issues: WorkingTimeIssue[] = [];
+  const date = getLocalDate(period.startTime, timeZone);
+  const worked = getWorkedHours(period);
+
+  const restBreak = period.longestBreakMinutes ?? period.breakMinutes;
+  if (worked > limits.restBreakAfterHours && restBreak < limits.restBreakMinutes) {
+    issues.push({
+      type: "REST_BREAK",
+      date,
+      periodId: period.id,
+      message: period.longestBreakMinutes !== undefined && period.breakMinutes >= limits.restBreakMinutes
+        ? `No single break of ${limits.restBreakMinutes} minutes over ${round(worked)} hours worked. The rest break has to be taken in one go.`
+        : `${period.breakMinutes} minute break over ${round(worked)} hours worked. At least ${limits.restBreakMinutes} minutes is needed after ${limits.restBreakAfterHours} hours.`,
+    });
+  }
+  if (period.requiredBreakMinutes && period.breakMinutes < period.requiredBreakMinutes) {
+    issues.push({
+      type: "BREAK_RULE",
+      date,
+      periodId: period.id,
+      message: `${period.breakMinutes} minute break is shorter than the ${period.requiredBreakMinutes} minute break rule`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Check the rest between working days. Gaps within a day, such as split
+ * shifts, aren't counted.
+ */
+export function checkDailyRest(periods: WorkPeriod[], limits: WorkingTimeLimits, timeZone: string): WorkingTimeIssue[] {
+  const issues: WorkingTimeIssue[] = [];
+  const sorted = [...periods].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const next = sorted[i];
+    if (getLocalDate(previous.startTime, timeZone) === getLocalDate(next.startTime, timeZone)) continue;
+
+    const restHours = (next.startTime.getTime() - previous.endTime.getTime()) / HOUR_MS;
+    if (restHours >= 0 && restHours < limits.dailyRestHours) {
+      issues.push({
+        type: "DAILY_REST",
+        date: getLocalDate(next.startTime, timeZone),
+        periodId: next.id,
+        message: `Only ${round(restHours)} hours rest since the last working day. At least ${limits.dailyRestHours} hours is needed.`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check hours worked each day against the daily limit, if there is one
+ */
+export function checkDailyHours(periods: WorkPeriod[], limits: WorkingTimeLimits, timeZone: string): WorkingTimeIssue[] {
+  if (limits.maxDailyHours === null) return [];
+  const maxDailyHours = limits.maxDailyHours;
+
+  const byDate = new Map<string, number>();
+  for (const period of periods) {
+    const date = getLocalDate(period.startTime, timeZone);
+    byDate.set(date, (byDate.get(date) ?? 0) + getWorkedHours(period));
+  }
+
+  return Array.from(byDate.entries())
+    .filter(([, hours]) => hours > maxDailyHours)
+    .map(([date, hours]) => ({
+      type: "DAILY_HOURS" as const,
+      date,
+      periodId: null,
+      message: `${round(hours)} hours worked, over the ${maxDailyHours} hour daily limit`,
+    }));
+}
+
+/**
+ * Hours worked in each week, keyed by the Monday it starts on
+ */
+export function getWeeklyHours(periods: WorkPeriod[], timeZone: string): Map<string, number> {
+  const weeks = new Map<string, number>();
+  for (const period of periods) {
+    const weekStart = getWeekStart(getLocalDate(period.startTime, timeZone));
+    weeks.set(weekStart, (weeks.get(weekStart) ?? 0) + getWorkedHours(period));
+  }
+  return weeks;
+}
+
+/**
+ * Check the weekly average over the reference period ending with the given
+ * week. Someone who started part way through is averaged over the weeks
+ * since their first.
+ */
+export function checkWeeklyHours(
+  periods: WorkPeriod[],
+  weekStart: string,
+  limits: WorkingTimeLimits,
+  timeZone: string
+): WorkingTimeIssue[] {
+  const weeklyHours = getWeeklyHours(periods, timeZone);
+  const referenceStart = addDaysToDateString(weekStart, -7 * (limits.averagingWeeks - 1));
+  const weeks = Array.from(weeklyHours.keys()).filter((w) => w >= referenceStart && w <= weekStart);
+  if (weeks.length === 0) return [];
+
+  const firstWeek = weeks.sort()[0];
+  const weekCount =
+    Math.round((Date.parse(weekStart) - Date.parse(firstWeek)) / (7 * 24 * HOUR_MS)) + 1;
+  const total = weeks.reduce((sum, w) => sum + (weeklyHours.get(w) ?? 0), 0);
+  const average = total / weekCount;
+
+  if (average <= limits.maxWeeklyHours) return [];
+
+  return [{
+    type: "WEEKLY_HOURS",
+    date: weekStart,
+    periodId: null,
+    message: limits.averagingWeeks === 1
+      ? `${round(average)} hours worked this week, over the ${limits.maxWeeklyHours} hour limit`
+      : `Averaging ${round(average)} hours a week over ${weekCount} week${weekCount === 1 ? "" : "s"}, over the ${limits.maxWeeklyHours} hour limit`,
+  }];
+}
+
+/**
+ * Run every check for one person's week. Periods from earlier weeks can be
+ * passed in for the rest and weekly average checks; only issues falling in
+ * the week are returned.
+ */
+export function checkWorkingTime(
+  periods: WorkPeriod[],
+  weekStart: string,
+  limits: WorkingTimeLimits,
+  timeZone: string
+): WorkingTimeIssue[] {
+  const weekEnd = addDaysToDateString(weekStart, 7);
+  const inWeek = periods.filter((p) => {
+    const date = getLocalDate(p.startTime, timeZone);
+    return date >= weekStart && date < weekEnd;
+  });
+
+  const issues = [
+    ...inWeek.flatMap((p) => checkBreaks(p, limits, timeZone)),
+    ...checkDailyRest(periods, limits, timeZone).filter((i) => i.date >= weekStart && i.date < weekEnd),
+    ...checkDailyHours(inWeek, limits, timeZone),
+    ...checkWeeklyHours(periods, weekStart, limits, timeZone),
+  ];
+
+  return issues.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Checks for the rota. It only has a few weeks of shifts to hand, so the
+ * 17 week average is left to the timesheet checks; the under-18s' limit
+ * applies to each week on its own and is still checked.
+ */
+export function checkRotaWorkingTime(
+  periods: WorkPeriod[],
+  weekStart: string,
+  youngWorker: boolean,
+  timeZone: string
+): WorkingTimeIssue[] {
+  const limits = getWorkingTimeLimits(youngWorker);
+  const issues = checkWorkingTime(periods, weekStart, limits, timeZone);
+  return limits.averagingWeeks > 1 ? issues.filter((issue) => issue.type !== "WEEKLY_HOURS") : issues;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBradfordFactor,
+  calculateToilEarned,
+  canApproveAbsence,
+  getAbsenceHoursInPeriod,
+  getAbsenceLabel,
+  getBradfordBand,
+  getOutstandingEvidence,
+  getSalaryHourlyEquivalent,
+  getSicknessEvidence,
+  getSicknessSpells,
+  getWeekStart,
+  isAbsenceType,
+} from '@/lib/absence-types';
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+const span = (startDate: string, endDate: string) => ({ startDate: day(startDate), endDate: day(endDate) });
+
+describe('Absence types', () => {
+  describe('rules', () => {
+    it('recognises the absence types', () => {
+      expect(isAbsenceType('SICK')).toBe(true);
+      expect(isAbsenceType('SABBATICAL')).toBe(false);
+      expect(getAbsenceLabel('TOIL')).toBe('Time off in lieu');
+    });
+
+    it('treats old requests without a known type as holiday', () => {
+      expect(getAbsenceLabel('')).toBe('Holiday');
+    });
+
+    it('leaves unpaid and parental leave to admins', () => {
+      expect(canApproveAbsence('HOLIDAY', 'MANAGER')).toBe(true);
+      expect(canApproveAbsence('UNPAID', 'MANAGER')).toBe(false);
+      expect(canApproveAbsence('PARENTAL', 'ADMIN')).toBe(true);
+      expect(canApproveAbsence('COMPASSIONATE', 'EMPLOYEE')).toBe(false);
+    });
+  });
+
+  describe('sickness evidence', () => {
+    it('self-certifies up to seven days and needs a fit note after', () => {
+      expect(getSicknessEvidence(day('2026-10-05'), day('2026-10-11'))).toBe('SELF_CERTIFICATION');
+      expect(getSicknessEvidence(day('2026-10-05'), day('2026-10-12'))).toBe('FIT_NOTE');
+    });
+
+    it('says what is missing', () => {
+      const sick = { type: 'SICK', ...span('2026-10-05', '2026-10-06'), selfCertified: false, documentUrl: null };
+      expect(getOutstandingEvidence(sick)).toBe('Self-certification needed');
+      expect(getOutstandingEvidence({ ...sick, selfCertified: true })).toBeNull();
+      expect(getOutstandingEvidence({ ...sick, ...span('2026-10-01', '2026-10-20'), selfCertified: true })).toBe(
+        'Fit note needed'
+      );
+      expect(getOutstandingEvidence({ ...sick, type: 'HOLIDAY' })).toBeNull();
+    });
+  });
+
+  describe('Bradford Factor', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('squares the number of spells and multiplies by days', () => {
+      // Three one-day spells score 3 x 3 x 3; one three-day spell scores 1 x 1 x 3
+      expect(
+        calculateBradfordFactor([span('2026-03-02', '2026-03-02'), span('2026-06-01', '2026-06-01'), span('2026-09-07', '2026-09-07')], now)
+      ).toEqual({ spells: 3, days: 3, score: 27 });
+      expect(calculateBradfordFactor([span('2026-09-07', '2026-09-09')], now).score).toBe(3);
+    });
+
+    it('counts back-to-back records as one spell', () => {
+      expect(getSicknessSpells([span('2026-09-08', '2026-09-08'), span('2026-09-07', '2026-09-07')], day('2026-01-01'), day('2026-12-31'))).toEqual([
+        span('2026-09-07', '2026-09-08'),
+      ]);
+    });
+
+    it('only looks back 52 weeks', () => {
+      expect(calculateBradfordFactor([span('2025-10-01', '2025-10-01')], now).score).toBe(0);
+      // The part of a spell inside the window still counts
+      expect(calculateBradfordFactor([span('2025-10-19', '2025-10-22')], now)).toEqual({ spells: 1, days: 2, score: 2 });
+    });
+
+    it('bands scores by the usual triggers', () => {
+      expect(getBradfordBand(50)).toBeNull();
+      expect(getBradfordBand(51)?.level).toBe('WATCH');
+      expect(getBradfordBand(201)?.level).toBe('REVIEW');
+      expect(getBradfordBand(401)?.level).toBe('ACTION');
+    });
+  });
+
+  describe('pay', () => {
+    it('spreads an absence over the days it covers', () => {
+      const absence = { userId: 'sam', type: 'UNPAID', ...span('2026-01-29', '2026-02-02'), hours: 40 };
+      expect(getAbsenceHoursInPeriod(absence, day('2026-01-01'), day('2026-01-31'))).toBe(24);
+      expect(getAbsenceHoursInPeriod(absence, day('2026-03-01'), day('2026-03-31'))).toBe(0);
+    });
+
+    it('works out an hourly equivalent of salary', () => {
+      expect(getSalaryHourlyEquivalent(2600, 40)).toBe(15);
+      expect(getSalaryHourlyEquivalent(2600, null)).toBeNull();
+    });
+  });
+
+  describe('TOIL', () => {
+    it('earns the hours worked over contract', () => {
+      expect(calculateToilEarned(43.5, 40)).toBe(3.5);
+      expect(calculateToilEarned(38, 40)).toBe(0);
+      expect(calculateToilEarned(45, null)).toBe(0);
+    });
+
+    it('finds the Monday of the week', () => {
+      expect(getWeekStart('2026-10-19')).toBe('2026-10-19');
+      expect(getWeekStart('2026-10-25')).toBe('2026-10-19');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { isTargetedAt, parseTargets, requiresAcknowledgement } from '@/lib/announcements';
+
+describe('Announcements', () => {
+  const deskAtNorth = { locationIds: ['north'], staffRole: 'DESK' };
+  const setterAtSouth = { locationIds: ['south'], staffRole: 'SETTER' };
+
+  describe('isTargetedAt', () => {
+    it('targets everyone when no locations or roles are set', () => {
+      const targets = { locationIds: [], staffRoles: [] };
+      expect(isTargetedAt(targets, deskAtNorth)).toBe(true);
+      expect(isTargetedAt(targets, setterAtSouth)).toBe(true);
+    });
+
+    it('narrows by location', () => {
+      const targets = { locationIds: ['north'], staffRoles: [] };
+      expect(isTargetedAt(targets, deskAtNorth)).toBe(true);
+      expect(isTargetedAt(targets, setterAtSouth)).toBe(false);
+    });
+
+    it('narrows by staff role', () => {
+      const targets = { locationIds: [], staffRoles: ['SETTER'] };
+      expect(isTargetedAt(targets, deskAtNorth)).toBe(false);
+      expect(isTargetedAt(targets, setterAtSouth)).toBe(true);
+    });
+
+    it('requires both location and role when both are set', () => {
+      const targets = { locationIds: ['north'], staffRoles: ['SETTER'] };
+      expect(isTargetedAt(targets, deskAtNorth)).toBe(false);
+      expect(isTargetedAt(targets, setterAtSouth)).toBe(false);
+      expect(isTargetedAt(targets, { locationIds: ['north', 'south'], staffRole: 'SETTER' })).toBe(true);
+    });
+  });
+
+  describe('parseTargets', () => {
+    it('falls back to empty targets for invalid JSON', () => {
+      expect(parseTargets({ targetLocationIds: 'oops', targetStaffRoles: '["DESK"]' })).toEqual({
+        locationIds: [],
+        staffRoles: ['DESK'],
+      });
+    });
+  });
+
+  it('only requires acknowledgement for high priority', () => {
+    expect(requiresAcknowledgement(0)).toBe(false);
+    expect(requiresAcknowledgement(1)).toBe(false);
+    expect(requiresAcknowledgement(2)).toBe(true);
+  });
+});
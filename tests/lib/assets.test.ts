@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { getAssetStatus, getNextInspectionDue, needsAttention } from '@/lib/assets';
+
+const now = new Date('2026-10-15T12:00:00Z');
+
+const asset = (overrides: Partial<Parameters<typeof getAssetStatus>[0]> = {}) => ({
+  inspectionIntervalDays: 30,
+  lastInspectedAt: new Date('2026-10-01T12:00:00Z'),
+  retirementDate: null,
+  retiredAt: null,
+  createdAt: new Date('2026-01-01T12:00:00Z'),
+  ...overrides,
+});
+
+describe('Asset register', () => {
+  describe('getNextInspectionDue', () => {
+    it('adds the interval to the last inspection', () => {
+      expect(getNextInspectionDue(asset())).toEqual(new Date('2026-10-31T12:00:00Z'));
+    });
+
+    it('is due straight away when never inspected', () => {
+      expect(getNextInspectionDue(asset({ lastInspectedAt: null }))).toEqual(new Date('2026-01-01T12:00:00Z'));
+    });
+
+    it('has no due date without an interval', () => {
+      expect(getNextInspectionDue(asset({ inspectionIntervalDays: null }))).toBeNull();
+    });
+  });
+
+  describe('getAssetStatus', () => {
+    it('is fine between inspections', () => {
+      expect(getAssetStatus(asset(), now)).toBe('OK');
+    });
+
+    it('flags inspections due within a week and overdue ones', () => {
+      expect(getAssetStatus(asset({ lastInspectedAt: new Date('2026-09-20T12:00:00Z') }), now)).toBe('DUE_SOON');
+      expect(getAssetStatus(asset({ lastInspectedAt: new Date('2026-09-01T12:00:00Z') }), now)).toBe('OVERDUE');
+    });
+
+    it('puts being past its lifespan ahead of a recent inspection', () => {
+      expect(getAssetStatus(asset({ retirementDate: new Date('2026-10-01T00:00:00Z') }), now)).toBe('PAST_LIFESPAN');
+    });
+
+    it('ignores the schedule once retired', () => {
+      expect(getAssetStatus(asset({ retiredAt: now, lastInspectedAt: null }), now)).toBe('RETIRED');
+    });
+  });
+
+  it('only needs attention when due or past its lifespan', () => {
+    expect(needsAttention('OVERDUE')).toBe(true);
+    expect(needsAttention('PAST_LIFESPAN')).toBe(true);
+    expect(needsAttention('RETIRED')).toBe(false);
+    expect(needsAttention('OK')).toBe(false);
+  });
+});
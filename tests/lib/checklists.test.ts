@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRange,
+  evaluateChecklist,
+  isItemShown,
+  parseChecklist,
+  summarizeReadings,
+  worstStatus,
+  type ChecklistItem,
+} from '@/lib/checklists';
+import { checklistSchema } from '@/lib/schemas';
+
+const item = (overrides: Partial<ChecklistItem>): ChecklistItem => ({
+  id: 'item',
+  label: 'Item',
+  type: 'YES_NO',
+  required: true,
+  expected: 'yes',
+  failStatus: 'FAIL',
+  ...overrides,
+});
+
+const checklist: ChecklistItem[] = [
+  item({ id: 'lanyard', label: 'Lanyard intact' }),
+  item({ id: 'lanyard-photo', label: 'Photo of damage', type: 'PHOTO', expected: null, showIf: { itemId: 'lanyard', when: 'no' } }),
+  item({ id: 'retraction', label: 'Retraction time', type: 'NUMBER', expected: null, min: 1, max: 3, unit: 's', failStatus: 'NEEDS_ATTENTION' }),
+  item({ id: 'retest', label: 'Retested after service', required: false, showIf: { itemId: 'retraction', when: 'out_of_range' } }),
+];
+
+describe('Checklists', () => {
+  it('passes a check when every answer is in range', () => {
+    const result = evaluateChecklist(checklist, [
+      { itemId: 'lanyard', answer: 'yes' },
+      { itemId: 'retraction', reading: 2.1 },
+    ]);
+    expect(result.status).toBe('PASS');
+    expect(result.missing).toEqual([]);
+    expect(result.issues).toEqual([]);
+    expect(result.results).toHaveLength(2);
+  });
+
+  it('sets the status from out-of-range answers and lists them as issues', () => {
+    const result = evaluateChecklist(checklist, [
+      { itemId: 'lanyard', answer: 'yes' },
+      { itemId: 'retraction', reading: 4.5 },
+    ]);
+    expect(result.status).toBe('NEEDS_ATTENTION');
+    expect(result.issues).toEqual(['Retraction time: 4.5 s (expected 1–3 s)']);
+  });
+
+  it('takes the worst status across items', () => {
+    const result = evaluateChecklist(checklist, [
+      { itemId: 'lanyard', answer: 'no' },
+      { itemId: 'lanyard-photo', photoUrl: 'data:image/png;base64,AAAA' },
+      { itemId: 'retraction', reading: 0.5 },
+    ]);
+    expect(result.status).toBe('FAIL');
+    expect(result.issues).toHaveLength(2);
+  });
+
+  it('only asks follow-ups when the answer calls for them', () => {
+    const answers = [{ itemId: 'lanyard', answer: 'yes' as const }];
+    expect(isItemShown(checklist[1], checklist, answers)).toBe(false);
+    expect(isItemShown(checklist[1], checklist, [{ itemId: 'lanyard', answer: 'no' }])).toBe(true);
+    expect(isItemShown(checklist[3], checklist, [{ itemId: 'retraction', reading: 5 }])).toBe(true);
+  });
+
+  it('requires answers to required items that are shown', () => {
+    const result = evaluateChecklist(checklist, [{ itemId: 'lanyard', answer: 'no' }]);
+    expect(result.missing).toEqual(['Photo of damage', 'Retraction time']);
+  });
+
+  it('ignores answers to follow-ups that are not shown', () => {
+    const result = evaluateChecklist(checklist, [
+      { itemId: 'lanyard', answer: 'yes' },
+      { itemId: 'retraction', reading: 2 },
+      { itemId: 'retest', answer: 'no' },
+    ]);
+    expect(result.status).toBe('PASS');
+    expect(result.results.map((r) => r.item.id)).toEqual(['lanyard', 'retraction']);
+  });
+
+  it('describes ranges', () => {
+    expect(describeRange({ min: 1, max: 3, unit: 's' })).toBe('1–3 s');
+    expect(describeRange({ min: 10, max: null, unit: null })).toBe('at least 10');
+    expect(describeRange({ min: null, max: null })).toBeNull();
+  });
+
+  it('ranks statuses', () => {
+    expect(worstStatus('PASS', 'NEEDS_ATTENTION')).toBe('NEEDS_ATTENTION');
+    expect(worstStatus('FAIL', 'NEEDS_ATTENTION')).toBe('FAIL');
+  });
+
+  it('summarizes readings for trends', () => {
+    expect(summarizeReadings([
+      { reading: 2, outOfRange: false },
+      { reading: 4, outOfRange: true },
+      { reading: 3, outOfRange: false },
+    ])).toEqual({ count: 3, outOfRange: 1, min: 2, max: 4, average: 3 });
+    expect(summarizeReadings([]).average).toBeNull();
+  });
+
+  it('reads stored checklists safely', () => {
+    expect(parseChecklist(JSON.stringify(checklist))).toHaveLength(4);
+    expect(parseChecklist('oops')).toEqual([]);
+    expect(parseChecklist(null)).toEqual([]);
+  });
+
+  describe('checklistSchema', () => {
+    it('accepts a valid checklist', () => {
+      expect(checklistSchema.safeParse(checklist).success).toBe(true);
+    });
+
+    it('rejects follow-ups that come before the item they follow', () => {
+      const result = checklistSchema.safeParse([checklist[1], checklist[0]]);
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects a yes/no condition on a reading', () => {
+      const result = checklistSchema.safeParse([
+        checklist[2],
+        item({ id: 'bad', showIf: { itemId: 'retraction', when: 'yes' } }),
+      ]);
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects an inverted range', () => {
+      const result = checklistSchema.safeParse([item({ id: 'load', type: 'NUMBER', min: 5, max: 2 })]);
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    timeEntry: { findFirst: vi.fn(), update: vi.fn(), create: vi.fn() },
+    organization: { findUnique: vi.fn() },
+    shift: { findUnique: vi.fn(), findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma, default: db.prisma }));
+
+import { clockIn, getClockInFlag, getClockInFlagReason, getDistanceMetres, recordBreak } from '@/lib/clock-in';
+
+const shiftStart = new Date('2026-10-13T09:00:00Z');
+const at = (time: string) => new Date(`2026-10-13T${time}:00Z`);
+
+describe('Clock-in', () => {
+  describe('getClockInFlag', () => {
+    it('allows clocking in a little either side of the shift start', () => {
+      expect(getClockInFlag(shiftStart, at('08:50'))).toBeNull();
+      expect(getClockInFlag(shiftStart, at('09:05'))).toBeNull();
+    });
+
+    it('flags early and late clock-ins', () => {
+      expect(getClockInFlag(shiftStart, at('08:49'))).toBe('EARLY');
+      expect(getClockInFlag(shiftStart, at('09:06'))).toBe('LATE');
+    });
+  });
+
+  it('explains a flag for the person clocking in', () => {
+    expect(getClockInFlagReason('EARLY')).toBe('You clocked in more than 10 minutes early. This requires manager approval.');
+    expect(getClockInFlagReason(null)).toBeNull();
+  });
+
+  it('measures distance between two points in metres', () => {
+    expect(getDistanceMetres(51.5, -0.1, 51.5, -0.1)).toBe(0);
+    expect(Math.round(getDistanceMetres(51.5, -0.1, 51.501, -0.1))).toBe(111);
+  });
+
+  describe('recordBreak', () => {
+    const entry = { id: 'te1', userId: 'u1', breakStart: null as Date | null, totalBreak: 0, breaks: [] as unknown[] };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.prisma.timeEntry.update.mockImplementation(({ data }) => data);
+    });
+
+    it('adds unpaid minutes to the total as a break ends', async () => {
+      db.prisma.timeEntry.findFirst.mockResolvedValue({
+        ...entry,
+        breakStart: at('12:00'),
+        totalBreak: 15,
+        breaks: [{ id: 'b2', type: 'UNPAID', startTime: at('12:00'), endTime: null }],
+      });
+
+      const updated = await recordBreak('u1', 'te1', 'end', 'UNPAID', at('12:30'));
+      expect(updated).toMatchObject({
+        breakStart: null,
+        totalBreak: 45,
+        breaks: { update: { where: { id: 'b2' }, data: { endTime: at('12:30') } } },
+      });
+    });
+
+    it('leaves the total alone when a paid break ends', async () => {
+      db.prisma.timeEntry.findFirst.mockResolvedValue({
+        ...entry,
+        breakStart: at('10:00'),
+        totalBreak: 30,
+        breaks: [{ id: 'b1', type: 'PAID', startTime: at('10:00'), endTime: null }],
+      });
+
+      const updated = await recordBreak('u1', 'te1', 'end', 'UNPAID', at('10:10'));
+      expect(updated).toMatchObject({ totalBreak: 30 });
+    });
+
+    it('ends a break started before breaks were recorded separately', async () => {
+      // Mid-break under the old code: breakStart set, earlier break minutes
+      // in totalBreak and no break records
+      db.prisma.timeEntry.findFirst.mockResolvedValue({ ...entry, breakStart: at('13:00'), totalBreak: 20 });
+
+      await expect(recordBreak('u1', 'te1', 'start', 'UNPAID', at('13:10'))).rejects.toThrow('Already on break');
+
+      const updated = await recordBreak('u1', 'te1', 'end', 'UNPAID', at('13:25'));
+      expect(updated).toMatchObject({
+        breakStart: null,
+        totalBreak: 45,
+        breaks: { create: { type: 'UNPAID', startTime: at('13:00'), endTime: at('13:25') } },
+      });
+    });
+
+    it('refuses to end a break that was never started', async () => {
+      db.prisma.timeEntry.findFirst.mockResolvedValue(entry);
+
+      await expect(recordBreak('u1', 'te1', 'end', 'UNPAID', at('12:00'))).rejects.toThrow('Not on break');
+      expect(db.prisma.timeEntry.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clockIn', () => {
+    const shift = {
+      id: 'shift1',
+      assignedToId: 'u1',
+      status: 'SCHEDULED',
+      startTime: shiftStart,
+      endTime: at('17:00'),
+      location: null,
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.prisma.timeEntry.findFirst.mockResolvedValue(null);
+      db.prisma.organization.findUnique.mockResolvedValue({ clockInWindowMinutes: 15, requireGeolocation: false });
+      db.prisma.timeEntry.create.mockImplementation(({ data }) => data);
+    });
+
+    it('clocks in to a chosen shift', async () => {
+      db.prisma.shift.findUnique.mockResolvedValue(shift);
+
+      const entry = await clockIn({ userId: 'u1', organizationId: 'org1', shiftId: 'shift1' }, at('08:55'));
+      expect(entry).toMatchObject({ shiftId: 'shift1', clockInFlag: null, requiresApproval: false });
+    });
+
+    it('refuses a chosen shift that is still a draft', async () => {
+      db.prisma.shift.findUnique.mockResolvedValue({ ...shift, status: 'DRAFT' });
+
+      await expect(
+        clockIn({ userId: 'u1', organizationId: 'org1', shiftId: 'shift1' }, at('08:55'))
+      ).rejects.toThrow("This shift hasn't been published yet");
+      expect(db.prisma.timeEntry.create).not.toHaveBeenCalled();
+    });
+
+    it('only matches shifts at the kiosk location', async () => {
+      db.prisma.shift.findFirst.mockResolvedValue(null);
+      const kiosk = { id: 'kiosk1', locationId: 'loc1' };
+
+      await expect(clockIn({ userId: 'u1', organizationId: 'org1', kiosk }, at('08:55'))).rejects.toThrow(
+        'No shift found here'
+      );
+      expect(db.prisma.shift.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ assignedToId: 'u1', status: 'SCHEDULED', locationId: 'loc1' }),
+        })
+      );
+    });
+
+    it('records the kiosk on the time entry', async () => {
+      db.prisma.shift.findFirst.mockResolvedValue(shift);
+      const kiosk = { id: 'kiosk1', locationId: 'loc1', photoUrl: 'https://example.com/photo.jpg' };
+
+      const entry = await clockIn({ userId: 'u1', organizationId: 'org1', kiosk }, at('08:55'));
+      expect(entry).toMatchObject({
+        shiftId: 'shift1',
+        kioskDeviceId: 'kiosk1',
+        clockInPhotoUrl: 'https://example.com/photo.jpg',
+      });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDefaultSeverity,
+  getDefectDueBy,
+  getLogIssues,
+  getNextDefectStatus,
+  isDefectOverdue,
+} from '@/lib/defects';
+import { ValidationError } from '@/lib/errors';
+
+const raised = new Date('2026-10-13T09:00:00Z');
+
+describe('Defects', () => {
+  describe('getNextDefectStatus', () => {
+    it('walks a defect from open to verified', () => {
+      expect(getNextDefectStatus('OPEN', 'assign')).toBe('ASSIGNED');
+      expect(getNextDefectStatus('ASSIGNED', 'start')).toBe('IN_PROGRESS');
+      expect(getNextDefectStatus('IN_PROGRESS', 'resolve')).toBe('RESOLVED');
+      expect(getNextDefectStatus('RESOLVED', 'verify')).toBe('VERIFIED');
+    });
+
+    it('sends a reopened defect back to in progress', () => {
+      expect(getNextDefectStatus('RESOLVED', 'reopen')).toBe('IN_PROGRESS');
+    });
+
+    it('rejects actions that skip a step', () => {
+      expect(() => getNextDefectStatus('OPEN', 'verify')).toThrow(ValidationError);
+      expect(() => getNextDefectStatus('VERIFIED', 'resolve')).toThrow("Can't resolve a defect that is verified");
+    });
+  });
+
+  it('sets the due date from the severity', () => {
+    expect(getDefectDueBy('CRITICAL', raised)).toEqual(new Date('2026-10-14T09:00:00Z'));
+    expect(getDefectDueBy('HIGH', raised)).toEqual(new Date('2026-10-16T09:00:00Z'));
+    expect(getDefectDueBy('UNKNOWN', raised)).toEqual(new Date('2026-10-20T09:00:00Z'));
+  });
+
+  it('raises failed checks as high and flagged checks as medium', () => {
+    expect(getDefaultSeverity('FAIL')).toBe('HIGH');
+    expect(getDefaultSeverity('NEEDS_ATTENTION')).toBe('MEDIUM');
+  });
+
+  it('only counts unresolved defects as overdue', () => {
+    const now = new Date('2026-10-15T09:00:00Z');
+    expect(isDefectOverdue({ status: 'ASSIGNED', dueBy: raised }, now)).toBe(true);
+    expect(isDefectOverdue({ status: 'RESOLVED', dueBy: raised }, now)).toBe(false);
+    expect(isDefectOverdue({ status: 'OPEN', dueBy: new Date('2026-10-16T09:00:00Z') }, now)).toBe(false);
+  });
+
+  it('reads the issues listed on a check', () => {
+    expect(getLogIssues('["Frayed rope", "", "Loose hold"]')).toEqual(['Frayed rope', 'Loose hold']);
+    expect(getLogIssues('not json')).toEqual([]);
+    expect(getLogIssues(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAccrual,
+  calculateCarryOver,
+  calculateEntitlement,
+  getBankHolidayDeductions,
+  getBankHolidays,
+  getLeaveYear,
+  getPreviousLeaveYear,
+  getRequestLeaveYear,
+  roundUpToHalfHour,
+  sumLedger,
+} from '@/lib/holiday-entitlement';
+
+const calendarYear = { leaveYearStartMonth: 1, leaveYearStartDay: 1 };
+const aprilYear = { leaveYearStartMonth: 4, leaveYearStartDay: 1 };
+const included = { bankHolidayMode: 'INCLUDED', bankHolidayRegion: 'england-and-wales' };
+
+describe('Holiday entitlement', () => {
+  describe('getLeaveYear', () => {
+    it('uses the calendar year by default', () => {
+      expect(getLeaveYear('2026-10-19', calendarYear)).toEqual({
+        start: '2026-01-01',
+        end: '2026-12-31',
+        label: '2026',
+      });
+    });
+
+    it('puts dates before the start day in the previous leave year', () => {
+      expect(getLeaveYear('2026-03-31', aprilYear)).toEqual({
+        start: '2025-04-01',
+        end: '2026-03-31',
+        label: '2025/26',
+      });
+      expect(getLeaveYear('2026-04-01', aprilYear).start).toBe('2026-04-01');
+    });
+
+    it('finds the previous leave year', () => {
+      const year = getLeaveYear('2026-06-01', aprilYear);
+      expect(getPreviousLeaveYear(year, aprilYear).label).toBe('2025/26');
+    });
+
+    it('reads a request by the date it was booked for', () => {
+      const request = { startDate: new Date('2026-04-01T00:00:00Z') };
+      expect(getRequestLeaveYear(request, aprilYear).label).toBe('2026/27');
+    });
+  });
+
+  describe('calculateEntitlement', () => {
+    const year2026 = getLeaveYear('2026-01-01', calendarYear);
+    const fullTime = { paymentType: 'MONTHLY', contractedHours: 40 };
+
+    it('gives 5.6 weeks of contracted hours', () => {
+      expect(calculateEntitlement(fullTime, year2026, included)).toBe(224);
+      expect(calculateEntitlement({ paymentType: 'MONTHLY', contractedHours: 20 }, year2026, included)).toBe(112);
+    });
+
+    it('gives hourly staff nothing up front', () => {
+      expect(calculateEntitlement({ paymentType: 'HOURLY', contractedHours: 40 }, year2026, included)).toBe(0);
+    });
+
+    it('gives nothing without contracted hours', () => {
+      expect(calculateEntitlement({ paymentType: 'MONTHLY', contractedHours: null }, year2026, included)).toBe(0);
+    });
+
+    it('pro-rates new starters and rounds up to the half hour', () => {
+      // 2 July to 31 December is 183 of 365 days
+      expect(calculateEntitlement(fullTime, year2026, included, '2026-07-02')).toBe(112.5);
+    });
+
+    it('ignores a start date before the leave year', () => {
+      expect(calculateEntitlement(fullTime, year2026, included, '2025-06-01')).toBe(224);
+    });
+
+    it('adds bank holidays on top when they are additional', () => {
+      const additional = { ...included, bankHolidayMode: 'ADDITIONAL' };
+      // Eight bank holidays of 8 hours
+      expect(calculateEntitlement(fullTime, year2026, additional)).toBe(288);
+    });
+  });
+
+  describe('bank holidays', () => {
+    it('lists bank holidays for the region', () => {
+      expect(getBankHolidays('england-and-wales', '2026-01-01', '2026-12-31')).toHaveLength(8);
+      expect(getBankHolidays('scotland', '2026-01-01', '2026-12-31')).toContain('2026-11-30');
+      expect(getBankHolidays('northern-ireland', '2026-01-01', '2026-12-31')).toHaveLength(10);
+    });
+
+    it('deducts a day per bank holiday when the centre closes', () => {
+      const year = getLeaveYear('2026-01-01', calendarYear);
+      const deducted = { ...included, bankHolidayMode: 'DEDUCTED' };
+      const deductions = getBankHolidayDeductions({ paymentType: 'MONTHLY', contractedHours: 37.5 }, year, deducted, '2026-09-01');
+      expect(deductions).toEqual([
+        { date: '2026-12-25', hours: -7.5 },
+        { date: '2026-12-28', hours: -7.5 },
+      ]);
+    });
+
+    it('deducts nothing when bank holidays are booked as leave', () => {
+      const year = getLeaveYear('2026-01-01', calendarYear);
+      expect(getBankHolidayDeductions({ paymentType: 'MONTHLY', contractedHours: 40 }, year, included)).toEqual([]);
+    });
+  });
+
+  describe('calculateCarryOver', () => {
+    it('carries over up to the cap and lets the rest lapse', () => {
+      expect(calculateCarryOver(60, 40)).toEqual({ carried: 40, forfeited: 20 });
+      expect(calculateCarryOver(12.5, 40)).toEqual({ carried: 12.5, forfeited: 0 });
+    });
+
+    it('lapses everything with no cap', () => {
+      expect(calculateCarryOver(16, 0)).toEqual({ carried: 0, forfeited: 16 });
+    });
+
+    it('carries an overdrawn balance in full', () => {
+      expect(calculateCarryOver(-8, 40)).toEqual({ carried: -8, forfeited: 0 });
+    });
+  });
+
+  describe('rounding and totals', () => {
+    it('accrues 12.07% of hours worked', () => {
+      expect(calculateAccrual(7.5, 0.1207)).toBe(0.91);
+    });
+
+    it('rounds up to the next half hour', () => {
+      expect(roundUpToHalfHour(112.2)).toBe(112.5);
+      expect(roundUpToHalfHour(112)).toBe(112);
+    });
+
+    it('sums ledger entries without floating point drift', () => {
+      expect(sumLedger([{ hours: 0.1 }, { hours: 0.2 }, { hours: -0.3 }])).toBe(0);
+    });
+  });
+});
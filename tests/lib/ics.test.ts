@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { escapeIcsText, foldIcsLine, formatIcsDate, buildIcsCalendar } from '@/lib/ics';
+
+describe('ICS', () => {
+  describe('escapeIcsText', () => {
+    it('escapes special characters and newlines', () => {
+      expect(escapeIcsText('Desk; cover, then\nclose \\ lock')).toBe('Desk\\; cover\\, then\\nclose \\\\ lock');
+    });
+  });
+
+  describe('foldIcsLine', () => {
+    it('leaves short lines alone', () => {
+      expect(foldIcsLine('SUMMARY:Front desk')).toBe('SUMMARY:Front desk');
+    });
+
+    it('folds long lines at 75 octets', () => {
+      const folded = foldIcsLine(`DESCRIPTION:${'a'.repeat(100)}`);
+      const lines = folded.split('\r\n');
+      expect(lines[0]).toHaveLength(75);
+      expect(lines[1].startsWith(' ')).toBe(true);
+      expect(lines.map((l, i) => (i === 0 ? l : l.slice(1))).join('')).toBe(`DESCRIPTION:${'a'.repeat(100)}`);
+    });
+  });
+
+  describe('formatIcsDate', () => {
+    it('formats UTC date-times and dates', () => {
+      const date = new Date('2026-03-13T09:30:00Z');
+      expect(formatIcsDate(date)).toBe('20260313T093000Z');
+      expect(formatIcsDate(date, true)).toBe('20260313');
+    });
+  });
+
+  describe('buildIcsCalendar', () => {
+    it('builds events with stable UIDs and CRLF line endings', () => {
+      const ics = buildIcsCalendar({
+        name: 'Alex shifts',
+        generatedAt: new Date('2026-03-01T00:00:00Z'),
+        events: [
+          {
+            uid: 'shift-abc@shiftflow',
+            summary: 'Front desk',
+            start: new Date('2026-03-13T09:00:00Z'),
+            end: new Date('2026-03-13T17:00:00Z'),
+          },
+          {
+            uid: 'holiday-xyz@shiftflow',
+            summary: 'Holiday',
+            start: new Date('2026-03-16T00:00:00Z'),
+            end: new Date('2026-03-18T00:00:00Z'),
+            allDay: true,
+          },
+        ],
+      });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('UID:shift-abc@shiftflow\r\n');
+      expect(ics).toContain('DTSTART:20260313T090000Z\r\n');
+      expect(ics).toContain('DTSTART;VALUE=DATE:20260316\r\n');
+      expect(ics).toContain('DTEND;VALUE=DATE:20260318\r\n');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { getRecurringOccurrence, getRetryDelayMs } from '@/lib/jobs';
+
+describe('Background jobs', () => {
+  describe('getRetryDelayMs', () => {
+    it('backs off 1, 5 then 25 minutes', () => {
+      expect(getRetryDelayMs(1)).toBe(60 * 1000);
+      expect(getRetryDelayMs(2)).toBe(5 * 60 * 1000);
+      expect(getRetryDelayMs(3)).toBe(25 * 60 * 1000);
+    });
+  });
+
+  describe('getRecurringOccurrence', () => {
+    const daily = { type: 'CERTIFICATION_EXPIRY' as const, localTime: '09:00' };
+    const hourly = { type: 'SCHEDULE_SHIFT_REMINDERS' as const, everyMinutes: 60 };
+
+    it('runs daily jobs at the local time in winter and summer', () => {
+      const winter = getRecurringOccurrence(daily, 'org-1', 'Europe/London', new Date('2026-01-15T10:00:00Z'));
+      const summer = getRecurringOccurrence(daily, 'org-1', 'Europe/London', new Date('2026-07-15T10:00:00Z'));
+
+      expect(winter.runAt.toISOString()).toBe('2026-01-15T09:00:00.000Z');
+      expect(summer.runAt.toISOString()).toBe('2026-07-15T08:00:00.000Z');
+    });
+
+    it('keys daily jobs by the organization\'s local date', () => {
+      const occurrence = getRecurringOccurrence(daily, 'org-1', 'Asia/Tokyo', new Date('2026-01-15T20:00:00Z'));
+
+      expect(occurrence.localDate).toBe('2026-01-16');
+      expect(occurrence.idempotencyKey).toBe('CERTIFICATION_EXPIRY:org-1:2026-01-16');
+      expect(occurrence.runAt.toISOString()).toBe('2026-01-16T00:00:00.000Z');
+    });
+
+    it('gives every tick in the same day the same key', () => {
+      const morning = getRecurringOccurrence(daily, 'org-1', 'UTC', new Date('2026-01-15T06:00:00Z'));
+      const evening = getRecurringOccurrence(daily, 'org-1', 'UTC', new Date('2026-01-15T21:00:00Z'));
+
+      expect(morning.idempotencyKey).toBe(evening.idempotencyKey);
+    });
+
+    it('slots interval jobs to the start of the interval', () => {
+      const first = getRecurringOccurrence(hourly, 'org-1', 'UTC', new Date('2026-01-15T10:05:00Z'));
+      const second = getRecurringOccurrence(hourly, 'org-1', 'UTC', new Date('2026-01-15T10:55:00Z'));
+      const next = getRecurringOccurrence(hourly, 'org-1', 'UTC', new Date('2026-01-15T11:00:00Z'));
+
+      expect(first.runAt.toISOString()).toBe('2026-01-15T10:00:00.000Z');
+      expect(first.idempotencyKey).toBe(second.idempotencyKey);
+      expect(next.idempotencyKey).not.toBe(first.idempotencyKey);
+    });
+  });
+});
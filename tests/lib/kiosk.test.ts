@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hash } from 'bcryptjs';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    user: { findFirst: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma, default: db.prisma }));
+
+import { MAX_PIN_ATTEMPTS, PIN_LOCK_MINUTES, verifyKioskPin } from '@/lib/kiosk';
+
+const device = { organizationId: 'org1', locationId: 'loc1' };
+const now = new Date('2026-10-13T09:00:00Z');
+
+describe('Kiosk', () => {
+  describe('verifyKioskPin', () => {
+    let kioskPinHash: string;
+
+    beforeEach(async () => {
+      vi.clearAllMocks();
+      kioskPinHash ??= await hash('1234', 4);
+    });
+
+    const staff = (overrides = {}) => ({
+      id: 'u1',
+      name: 'Alex',
+      kioskPinHash,
+      kioskPinAttempts: 0,
+      kioskPinLockedUntil: null as Date | null,
+      ...overrides,
+    });
+
+    it('only looks for staff at the kiosk location', async () => {
+      db.prisma.user.findFirst.mockResolvedValue(staff());
+
+      await expect(verifyKioskPin(device, 'u1', '1234', now)).resolves.toEqual({ id: 'u1', name: 'Alex' });
+      expect(db.prisma.user.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            id: 'u1',
+            organizationId: 'org1',
+            OR: [{ primaryLocationId: 'loc1' }, { locationAccess: { some: { locationId: 'loc1' } } }],
+          },
+        })
+      );
+    });
+
+    it("refuses staff who don't work at the kiosk location", async () => {
+      db.prisma.user.findFirst.mockResolvedValue(null);
+
+      await expect(verifyKioskPin(device, 'u2', '1234', now)).rejects.toThrow("You can't clock in at this kiosk");
+    });
+
+    it('counts wrong PINs', async () => {
+      db.prisma.user.findFirst.mockResolvedValue(staff({ kioskPinAttempts: 2 }));
+
+      await expect(verifyKioskPin(device, 'u1', '0000', now)).rejects.toThrow('Wrong PIN');
+      expect(db.prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { kioskPinAttempts: 3, kioskPinLockedUntil: null },
+      });
+    });
+
+    it(`locks the PIN for ${PIN_LOCK_MINUTES} minutes after ${MAX_PIN_ATTEMPTS} wrong tries`, async () => {
+      db.prisma.user.findFirst.mockResolvedValue(staff({ kioskPinAttempts: MAX_PIN_ATTEMPTS - 1 }));
+
+      await expect(verifyKioskPin(device, 'u1', '0000', now)).rejects.toThrow('Wrong PIN');
+      expect(db.prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { kioskPinAttempts: 0, kioskPinLockedUntil: new Date('2026-10-13T09:15:00Z') },
+      });
+    });
+
+    it('refuses even the right PIN while locked', async () => {
+      db.prisma.user.findFirst.mockResolvedValue(staff({ kioskPinLockedUntil: new Date('2026-10-13T09:10:00Z') }));
+
+      await expect(verifyKioskPin(device, 'u1', '1234', now)).rejects.toThrow('Too many wrong PINs');
+      expect(db.prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('resets the count once the right PIN is entered', async () => {
+      db.prisma.user.findFirst.mockResolvedValue(
+        staff({ kioskPinAttempts: 3, kioskPinLockedUntil: new Date('2026-10-13T08:50:00Z') })
+      );
+
+      await expect(verifyKioskPin(device, 'u1', '1234', now)).resolves.toEqual({ id: 'u1', name: 'Alex' });
+      expect(db.prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'u1' },
+        data: { kioskPinAttempts: 0, kioskPinLockedUntil: null },
+      });
+    });
+  });
+});
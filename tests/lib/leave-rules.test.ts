@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LEAVE_RULES,
+  evaluateLeaveRules,
+  formatLeaveClashes,
+  getEventBlackouts,
+  isLeaveRuleChecked,
+  parseLeaveRules,
+  type LeaveRuleLocation,
+  type LeaveRules,
+} from '@/lib/leave-rules';
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+const absence = (userId: string, startDate: string, endDate: string) => ({
+  userId,
+  startDate: day(startDate),
+  endDate: day(endDate),
+});
+
+const location = (rules: Partial<LeaveRules>, blackouts = rules.blackouts ?? []): LeaveRuleLocation => ({
+  id: 'loc',
+  name: 'Main Wall',
+  rules: { ...DEFAULT_LEAVE_RULES, ...rules },
+  blackouts,
+  staff: [
+    { id: 'sam', staffRole: 'DESK' },
+    { id: 'alex', staffRole: 'DESK' },
+    { id: 'jo', staffRole: 'DESK' },
+    { id: 'kim', staffRole: 'COACH' },
+  ],
+});
+
+const request = { userId: 'sam', staffRole: 'DESK', startDate: day('2026-11-02'), endDate: day('2026-11-04') };
+
+describe('Leave rules', () => {
+  describe('parseLeaveRules', () => {
+    it('fills in anything missing', () => {
+      expect(parseLeaveRules('{"maxOff":2}')).toEqual({ ...DEFAULT_LEAVE_RULES, maxOff: 2 });
+      expect(parseLeaveRules(null)).toEqual(DEFAULT_LEAVE_RULES);
+      expect(parseLeaveRules('not json')).toEqual(DEFAULT_LEAVE_RULES);
+    });
+  });
+
+  it('never checks sickness', () => {
+    expect(isLeaveRuleChecked('SICK')).toBe(false);
+    expect(isLeaveRuleChecked('HOLIDAY')).toBe(true);
+  });
+
+  describe('evaluateLeaveRules', () => {
+    it('passes when nothing is broken', () => {
+      expect(evaluateLeaveRules(request, [location({ maxOff: 1 })], [])).toEqual([]);
+    });
+
+    it('flags blackout days, grouped into one clash', () => {
+      const blackouts = [{ startDate: '2026-11-03', endDate: '2026-11-10', reason: 'Bouldering league' }];
+      const clashes = evaluateLeaveRules(request, [location({ blackouts })], []);
+      expect(clashes).toEqual([
+        {
+          type: 'BLACKOUT',
+          locationId: 'loc',
+          locationName: 'Main Wall',
+          message: 'Blackout: Bouldering league',
+          dates: ['2026-11-03', '2026-11-04'],
+        },
+      ]);
+    });
+
+    it('stops more people being off than allowed', () => {
+      const clashes = evaluateLeaveRules(request, [location({ maxOff: 1 })], [absence('kim', '2026-11-04', '2026-11-06')]);
+      expect(clashes.map((c) => [c.type, c.dates])).toEqual([['MAX_OFF', ['2026-11-04']]]);
+    });
+
+    it('ignores absence from people at other locations', () => {
+      const clashes = evaluateLeaveRules(request, [location({ maxOff: 1 })], [absence('lee', '2026-11-02', '2026-11-02')]);
+      expect(clashes).toEqual([]);
+    });
+
+    it('keeps the minimum of the same staff role available', () => {
+      const rules = { minStaff: [{ staffRole: 'DESK', minimum: 2 }] };
+      expect(evaluateLeaveRules(request, [location(rules)], [absence('kim', '2026-11-02', '2026-11-02')])).toEqual([]);
+
+      const clashes = evaluateLeaveRules(
+        request,
+        [location(rules)],
+        [absence('alex', '2026-11-02', '2026-11-02')],
+        { DESK: 'Front Desk' }
+      );
+      expect(clashes).toHaveLength(1);
+      expect(clashes[0].message).toBe('Fewer than 2 Front Desk staff left available');
+      expect(clashes[0].dates).toEqual(['2026-11-02']);
+    });
+  });
+
+  describe('getEventBlackouts', () => {
+    it('blacks out events of the chosen types, with days either side', () => {
+      const rules = { ...DEFAULT_LEAVE_RULES, blackoutEventTypes: ['COMPETITION'], eventBufferDays: 1 };
+      const events = [
+        { title: 'Regional comp', eventType: 'COMPETITION', startTime: new Date('2026-11-07T09:00:00Z'), endTime: new Date('2026-11-08T18:00:00Z') },
+        { title: 'Birthday party', eventType: 'PARTY', startTime: new Date('2026-11-07T14:00:00Z'), endTime: new Date('2026-11-07T16:00:00Z') },
+      ];
+      expect(getEventBlackouts(events, rules, 'Europe/London')).toEqual([
+        { startDate: '2026-11-06', endDate: '2026-11-09', reason: 'Regional comp' },
+      ]);
+    });
+  });
+
+  it('formats clashes a line each', () => {
+    expect(
+      formatLeaveClashes([
+        { type: 'BLACKOUT', locationId: 'loc', locationName: 'Main Wall', message: 'Blackout: Comp', dates: ['2026-11-03', '2026-11-04'] },
+      ])
+    ).toBe('Main Wall: Blackout: Comp (2026-11-03 to 2026-11-04)');
+  });
+});
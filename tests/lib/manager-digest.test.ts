@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countDigestItems,
+  getFailingChecks,
+  hasCashDiscrepancy,
+  isDigestDue,
+  isLowStock,
+} from '@/lib/manager-digest';
+
+describe('Manager digest', () => {
+  describe('getFailingChecks', () => {
+    const log = (overrides: Partial<{ checkTypeId: string; locationId: string; status: string; checkDate: Date }>) => ({
+      checkTypeId: 'matting',
+      locationId: 'loc-1',
+      status: 'PASS',
+      checkDate: new Date('2026-01-10T09:00:00Z'),
+      ...overrides,
+    });
+
+    it('keeps a check whose latest result failed', () => {
+      const failing = getFailingChecks([
+        log({ status: 'PASS', checkDate: new Date('2026-01-09T09:00:00Z') }),
+        log({ status: 'FAIL' }),
+      ]);
+      expect(failing).toHaveLength(1);
+      expect(failing[0].status).toBe('FAIL');
+    });
+
+    it('clears a failure once a later check passes', () => {
+      expect(
+        getFailingChecks([
+          log({ status: 'NEEDS_ATTENTION', checkDate: new Date('2026-01-09T09:00:00Z') }),
+          log({ status: 'PASS' }),
+        ])
+      ).toEqual([]);
+    });
+
+    it('tracks each check type at each location separately', () => {
+      const failing = getFailingChecks([
+        log({ status: 'FAIL' }),
+        log({ locationId: 'loc-2', status: 'PASS' }),
+        log({ checkTypeId: 'ladders', status: 'NEEDS_ATTENTION' }),
+      ]);
+      expect(failing.map((l) => `${l.checkTypeId}:${l.locationId}`)).toEqual(['matting:loc-1', 'ladders:loc-1']);
+    });
+  });
+
+  describe('isLowStock', () => {
+    it('flags stock at or below the minimum', () => {
+      expect(isLowStock({ currentStock: 5, minimumStock: 5 })).toBe(true);
+      expect(isLowStock({ currentStock: 6, minimumStock: 5 })).toBe(false);
+    });
+  });
+
+  describe('hasCashDiscrepancy', () => {
+    it('ignores rounding noise but flags overs and shorts', () => {
+      expect(hasCashDiscrepancy({ totalDiscrepancy: 0.001 })).toBe(false);
+      expect(hasCashDiscrepancy({ totalDiscrepancy: -2.5 })).toBe(true);
+      expect(hasCashDiscrepancy({ totalDiscrepancy: 0.01 })).toBe(true);
+    });
+  });
+
+  describe('isDigestDue', () => {
+    it('sends daily digests every day and weekly digests on Mondays', () => {
+      expect(isDigestDue('DAILY', 3)).toBe(true);
+      expect(isDigestDue('WEEKLY', 1)).toBe(true);
+      expect(isDigestDue('WEEKLY', 2)).toBe(false);
+      expect(isDigestDue('OFF', 1)).toBe(false);
+    });
+  });
+
+  describe('countDigestItems', () => {
+    it('counts items across sections', () => {
+      const item = { label: 'x', link: '/dashboard' };
+      expect(
+        countDigestItems([
+          { key: 'a', title: 'A', link: '/dashboard', items: [item, item] },
+          { key: 'b', title: 'B', link: '/dashboard', items: [item] },
+        ])
+      ).toBe(3);
+    });
+  });
+});
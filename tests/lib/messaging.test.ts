@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseConversationKey, formatConversationKey, truncateMessage } from '@/lib/messaging';
+
+describe('Messaging', () => {
+  describe('parseConversationKey', () => {
+    it('parses each conversation type', () => {
+      expect(parseConversationKey('dm:user1')).toEqual({ type: 'dm', id: 'user1' });
+      expect(parseConversationKey('shift:shift1')).toEqual({ type: 'shift', id: 'shift1' });
+      expect(parseConversationKey('location:loc1')).toEqual({ type: 'location', id: 'loc1' });
+      expect(parseConversationKey('timesheet:ts1')).toEqual({ type: 'timesheet', id: 'ts1' });
+    });
+
+    it('rejects unknown types and malformed keys', () => {
+      expect(parseConversationKey('team:abc')).toBeNull();
+      expect(parseConversationKey('dm:')).toBeNull();
+      expect(parseConversationKey('dm')).toBeNull();
+      expect(parseConversationKey('dm:a:b')).toBeNull();
+    });
+
+    it('round-trips with formatConversationKey', () => {
+      const key = formatConversationKey({ type: 'shift', id: 'abc123' });
+      expect(key).toBe('shift:abc123');
+      expect(parseConversationKey(key)).toEqual({ type: 'shift', id: 'abc123' });
+    });
+  });
+
+  describe('truncateMessage', () => {
+    it('collapses whitespace', () => {
+      expect(truncateMessage('Running late\n\nbe there at 10')).toBe('Running late be there at 10');
+    });
+
+    it('truncates long messages with an ellipsis', () => {
+      const result = truncateMessage('a'.repeat(200), 20);
+      expect(result).toHaveLength(20);
+      expect(result.endsWith('…')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getQuietHoursEnd,
+  isInQuietHours,
+  resolveChannels,
+} from '@/lib/notification-preferences';
+
+describe('Notification preferences', () => {
+  describe('resolveChannels', () => {
+    it('uses the type defaults when there is no preference', () => {
+      expect(resolveChannels('SHIFT_REMINDER')).toEqual({
+        inApp: true,
+        email: true,
+        push: true,
+        digest: false,
+      });
+    });
+
+    it('applies the user\'s choices', () => {
+      const channels = resolveChannels('SHIFT_REMINDER', { inApp: true, email: false, push: false, digest: false });
+      expect(channels.email).toBe(false);
+      expect(channels.push).toBe(false);
+    });
+
+    it('sends a digest instead of an immediate email', () => {
+      const channels = resolveChannels('HOLIDAY_APPROVED', { inApp: true, email: true, push: true, digest: true });
+      expect(channels.digest).toBe(true);
+      expect(channels.email).toBe(false);
+    });
+
+    it('ignores choices for channels the type does not allow changing', () => {
+      const channels = resolveChannels('PASSWORD_RESET', { inApp: false, email: false, push: false, digest: false });
+      expect(channels.inApp).toBe(true);
+      expect(channels.push).toBe(false);
+    });
+
+    it('falls back to in-app and push for unknown types', () => {
+      expect(resolveChannels('SOMETHING_NEW')).toEqual({
+        inApp: true,
+        email: false,
+        push: true,
+        digest: false,
+      });
+    });
+  });
+
+  describe('isInQuietHours', () => {
+    it('handles quiet hours within a day', () => {
+      expect(isInQuietHours('13:30', '13:00', '14:00')).toBe(true);
+      expect(isInQuietHours('14:00', '13:00', '14:00')).toBe(false);
+    });
+
+    it('handles quiet hours that run overnight', () => {
+      expect(isInQuietHours('23:15', '22:00', '07:00')).toBe(true);
+      expect(isInQuietHours('06:59', '22:00', '07:00')).toBe(true);
+      expect(isInQuietHours('12:00', '22:00', '07:00')).toBe(false);
+    });
+
+    it('treats missing or empty quiet hours as none', () => {
+      expect(isInQuietHours('23:00', null, null)).toBe(false);
+      expect(isInQuietHours('23:00', '22:00', '22:00')).toBe(false);
+    });
+  });
+
+  describe('getQuietHoursEnd', () => {
+    it('returns null outside quiet hours', () => {
+      expect(getQuietHoursEnd(new Date('2026-01-15T12:00:00Z'), 'UTC', '22:00', '07:00')).toBeNull();
+    });
+
+    it('ends the next morning when quiet hours start in the evening', () => {
+      const end = getQuietHoursEnd(new Date('2026-07-15T22:30:00Z'), 'Europe/London', '22:00', '07:00');
+      expect(end?.toISOString()).toBe('2026-07-16T06:00:00.000Z');
+    });
+
+    it('ends the same day after midnight', () => {
+      const end = getQuietHoursEnd(new Date('2026-01-15T02:00:00Z'), 'Europe/London', '22:00', '07:00');
+      expect(end?.toISOString()).toBe('2026-01-15T07:00:00.000Z');
+    });
+  });
+});
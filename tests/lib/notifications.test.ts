@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  prisma: {
+    notificationDelivery: { findUnique: vi.fn(), update: vi.fn() },
+  },
+  sendPushNotification: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mocks.prisma, default: mocks.prisma }));
+vi.mock('@/lib/email', () => ({ sendEmail: vi.fn(), notificationEmail: vi.fn(), notificationDigestEmail: vi.fn() }));
+vi.mock('@/lib/jobs', () => ({ enqueueJob: vi.fn() }));
+vi.mock('@/lib/push', () => ({
+  isPushConfigured: () => true,
+  sendPushNotification: mocks.sendPushNotification,
+}));
+
+import { sendDeferredPush } from '@/lib/notifications';
+
+const notification = {
+  id: 'n1',
+  userId: 'u1',
+  type: 'NEW_MESSAGE',
+  title: 'Sam',
+  message: 'Sent you a message',
+  link: '/dashboard/messages',
+  pushBody: null as string | null,
+  pushTag: null as string | null,
+};
+
+describe('sendDeferredPush', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.sendPushNotification.mockResolvedValue([{ status: 'fulfilled', value: undefined }]);
+  });
+
+  it('sends the push body and tag the notification was sent with', async () => {
+    mocks.prisma.notificationDelivery.findUnique.mockResolvedValue({
+      id: 'd1',
+      status: 'DEFERRED',
+      notification: { ...notification, pushBody: 'Can you swap Saturday?', pushTag: 'message-c1' },
+    });
+
+    await expect(sendDeferredPush('d1')).resolves.toEqual({ status: 'SENT' });
+    expect(mocks.sendPushNotification).toHaveBeenCalledWith(
+      'u1',
+      expect.objectContaining({ title: 'Sam', body: 'Can you swap Saturday?', tag: 'message-c1' })
+    );
+  });
+
+  it('falls back to the notification message and type', async () => {
+    mocks.prisma.notificationDelivery.findUnique.mockResolvedValue({
+      id: 'd1',
+      status: 'DEFERRED',
+      notification,
+    });
+
+    await sendDeferredPush('d1');
+    expect(mocks.sendPushNotification).toHaveBeenCalledWith(
+      'u1',
+      expect.objectContaining({ body: 'Sent you a message', tag: 'NEW_MESSAGE' })
+    );
+  });
+
+  it('skips deliveries that are no longer deferred', async () => {
+    mocks.prisma.notificationDelivery.findUnique.mockResolvedValue({ id: 'd1', status: 'SENT', notification });
+
+    await expect(sendDeferredPush('d1')).resolves.toEqual({ skipped: true });
+    expect(mocks.sendPushNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePayroll,
+  getSalaryFraction,
+  getTimeEntryPay,
+  hashPayrollRun,
+  type PayrollStaff,
+  type PayrollTimeEntry,
+} from '@/lib/payroll-run';
+import { getTaxYearRules } from '@/lib/uk-payroll';
+
+describe('Payroll runs', () => {
+  const climbing = { id: 'cat-climb', name: 'Coaching', hourlyRate: 15 };
+  const desk = { id: 'cat-desk', name: 'Front Desk', hourlyRate: 12 };
+
+  const entry = (overrides: Partial<PayrollTimeEntry> = {}): PayrollTimeEntry => ({
+    id: 'entry-1',
+    userId: 'alex',
+    clockIn: new Date('2026-01-05T09:00:00Z'),
+    clockOut: new Date('2026-01-05T17:30:00Z'),
+    totalBreak: 30,
+    status: 'APPROVED',
+    shift: { category: desk },
+    ...overrides,
+  });
+
+  const hourly: PayrollStaff = {
+    id: 'alex',
+    name: 'Alex',
+    paymentType: 'HOURLY',
+    monthlySalary: null,
+    categoryRates: [],
+  };
+
+  const salaried: PayrollStaff = {
+    id: 'sam',
+    name: 'Sam',
+    paymentType: 'MONTHLY',
+    monthlySalary: 2500,
+    categoryRates: [],
+  };
+
+  const january = {
+    startDate: new Date('2026-01-01T00:00:00Z'),
+    endDate: new Date('2026-01-31T00:00:00Z'),
+    rules: getTaxYearRules(new Date('2026-01-31T00:00:00Z')),
+  };
+
+  describe('getSalaryFraction', () => {
+    it('counts a whole calendar month as one', () => {
+      expect(getSalaryFraction(january.startDate, january.endDate)).toBe(1);
+      expect(
+        getSalaryFraction(new Date('2026-02-01T00:00:00Z'), new Date('2026-02-28T00:00:00Z'))
+      ).toBe(1);
+    });
+
+    it('pro-rates other periods by day', () => {
+      const fraction = getSalaryFraction(
+        new Date('2026-01-05T00:00:00Z'),
+        new Date('2026-01-11T00:00:00Z')
+      );
+      expect(fraction).toBeCloseTo((7 * 12) / 365);
+    });
+  });
+
+  describe('getTimeEntryPay', () => {
+    it('prices approved hours at the category rate', () => {
+      expect(getTimeEntryPay(entry(), 'HOURLY', [])).toEqual({ hours: 8, rate: 12, amount: 96 });
+    });
+
+    it('uses the staff member\'s own rate for the category when set', () => {
+      const pay = getTimeEntryPay(entry(), 'HOURLY', [{ categoryId: desk.id, hourlyRate: 13.5 }]);
+      expect(pay.rate).toBe(13.5);
+      expect(pay.amount).toBe(108);
+    });
+
+    it('ignores entries that are not approved', () => {
+      expect(getTimeEntryPay(entry({ status: 'PENDING' }), 'HOURLY', []).amount).toBe(0);
+    });
+
+    it('pays salaried staff nothing per entry', () => {
+      const pay = getTimeEntryPay(entry(), 'MONTHLY', []);
+      expect(pay.hours).toBe(8);
+      expect(pay.amount).toBe(0);
+    });
+  });
+
+  describe('calculatePayroll', () => {
+    it('breaks hourly pay down by category', () => {
+      const { lines } = calculatePayroll({
+        staff: [hourly],
+        timeEntries: [
+          entry(),
+          entry({ id: 'entry-2', shift: { category: climbing } }),
+          entry({ id: 'entry-3' }),
+        ],
+        adjustments: [],
+        ...january,
+      });
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0].hours).toBe(24);
+      expect(lines[0].grossPay).toBe(312);
+      expect(lines[0].categoryBreakdown).toEqual([
+        { categoryId: desk.id, categoryName: 'Front Desk', hours: 16, rate: 12, amount: 192 },
+        { categoryId: climbing.id, categoryName: 'Coaching', hours: 8, rate: 15, amount: 120 },
+      ]);
+      expect(lines[0].holidayAccrual).toBeGreaterThan(0);
+    });
+
+    it('pays salaried staff their monthly salary without holiday accrual', () => {
+      const { lines } = calculatePayroll({
+        staff: [salaried],
+        timeEntries: [],
+        adjustments: [],
+        ...january,
+      });
+
+      expect(lines[0].grossPay).toBe(2500);
+      expect(lines[0].holidayAccrual).toBe(0);
+      expect(lines[0].employerNI).toBeGreaterThan(0);
+      expect(lines[0].employerPension).toBeGreaterThan(0);
+    });
+
+    it('leaves pension out for staff who opted out', () => {
+      const { lines } = calculatePayroll({
+        staff: [{ ...salaried, profile: { pensionEnrolled: false, taxCode: null, studentLoanPlan: null } }],
+        timeEntries: [],
+        adjustments: [],
+        ...january,
+      });
+
+      expect(lines[0].employerPension).toBe(0);
+      expect(lines[0].employeePension).toBe(0);
+      expect(lines[0].totalCost).toBe(lines[0].grossPay + lines[0].employerNI);
+    });
+
+    it('adds pending adjustments to gross pay and hours', () => {
+      const { lines } = calculatePayroll({
+        staff: [hourly],
+        timeEntries: [entry()],
+        adjustments: [{ id: 'adj-1', userId: 'alex', hoursDelta: -1, amount: -12 }],
+        ...january,
+      });
+
+      expect(lines[0].hours).toBe(7);
+      expect(lines[0].grossPay).toBe(84);
+      expect(lines[0].adjustmentsTotal).toBe(-12);
+    });
+
+    it('leaves out staff with nothing to pay', () => {
+      const { lines, totals } = calculatePayroll({
+        staff: [hourly, { ...hourly, id: 'jo', name: 'Jo' }],
+        timeEntries: [entry()],
+        adjustments: [],
+        ...january,
+      });
+
+      expect(lines.map((l) => l.userName)).toEqual(['Alex']);
+      expect(totals.grossPay).toBe(96);
+    });
+
+    it('takes unpaid absence off salary and reports paid absence', () => {
+      const absence = (type: string, startDate: string, endDate: string, hours: number) => ({
+        userId: 'sam',
+        type,
+        startDate: new Date(`${startDate}T00:00:00Z`),
+        endDate: new Date(`${endDate}T00:00:00Z`),
+        hours,
+      });
+      const { lines } = calculatePayroll({
+        staff: [{ ...salaried, contractedHours: 40 }],
+        timeEntries: [],
+        adjustments: [],
+        absences: [
+          absence('UNPAID', '2026-01-12', '2026-01-12', 8),
+          absence('SICK', '2026-01-20', '2026-01-21', 16),
+          // Only the January half of this counts
+          absence('UNPAID', '2026-01-31', '2026-02-01', 16),
+        ],
+        ...january,
+      });
+
+      // £2,500 a month is £14.42 an hour over a 40 hour week
+      expect(lines[0].absenceDeductions).toBe(230.77);
+      expect(lines[0].grossPay).toBe(2269.23);
+      expect(lines[0].absenceBreakdown).toEqual([
+        { type: 'UNPAID', label: 'Unpaid leave', payrollCode: 'UNPD', hours: 16, deduction: 230.77 },
+        { type: 'SICK', label: 'Sickness', payrollCode: 'SICK', hours: 16, deduction: 0 },
+      ]);
+    });
+
+    it('never changes hourly pay for absence', () => {
+      const { lines } = calculatePayroll({
+        staff: [hourly],
+        timeEntries: [entry()],
+        adjustments: [],
+        absences: [{
+          userId: 'alex',
+          type: 'UNPAID',
+          startDate: new Date('2026-01-06T00:00:00Z'),
+          endDate: new Date('2026-01-06T00:00:00Z'),
+          hours: 8,
+        }],
+        ...january,
+      });
+
+      expect(lines[0].grossPay).toBe(96);
+      expect(lines[0].absenceBreakdown[0].hours).toBe(8);
+    });
+
+    it('warns once per problem', () => {
+      const { warnings } = calculatePayroll({
+        staff: [hourly],
+        timeEntries: [
+          entry({ id: 'a', status: 'PENDING' }),
+          entry({ id: 'b', shift: null }),
+          entry({ id: 'c', shift: null }),
+        ],
+        adjustments: [],
+        ...january,
+      });
+
+      expect(warnings).toEqual([
+        'Alex has 1 unapproved time entry that will not be paid',
+        'Alex has approved hours with no shift category, so no rate applies',
+      ]);
+    });
+  });
+
+  describe('hashPayrollRun', () => {
+    it('does not depend on line order', () => {
+      const { lines, totals } = calculatePayroll({
+        staff: [hourly, salaried],
+        timeEntries: [entry()],
+        adjustments: [],
+        ...january,
+      });
+
+      expect(hashPayrollRun(lines, totals)).toBe(hashPayrollRun([...lines].reverse(), totals));
+    });
+
+    it('changes when a figure changes', () => {
+      const { lines, totals } = calculatePayroll({
+        staff: [hourly],
+        timeEntries: [entry()],
+        adjustments: [],
+        ...january,
+      });
+      const altered = [{ ...lines[0], grossPay: lines[0].grossPay + 1 }];
+
+      expect(hashPayrollRun(altered, totals)).not.toBe(hashPayrollRun(lines, totals));
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  prisma: {
+    organization: { findUnique: vi.fn() },
+    shift: { count: vi.fn(), findMany: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn((creates: unknown[]) => Promise.all(creates)),
+  },
+  checkShiftConflicts: vi.fn(),
+}));
+
+vi.mock('@/lib/db', () => ({ prisma: mocks.prisma, default: mocks.prisma }));
+vi.mock('@/lib/shift-conflicts', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/shift-conflicts')>()),
+  checkShiftConflicts: mocks.checkShiftConflicts,
+}));
+
+import { copyWeek, shiftByDays } from '@/lib/rota-copy';
+
+const sourceShift = (id: string, day: string, assignedTo: { id: string; name: string } | null) => ({
+  id,
+  title: 'Front desk',
+  description: null,
+  startTime: new Date(`${day}T09:00:00Z`),
+  endTime: new Date(`${day}T17:00:00Z`),
+  assignedTo,
+  templateId: null,
+  categoryId: 'cat1',
+  locationId: 'loc1',
+  scheduledBreakMinutes: 30,
+  segments: [
+    { startTime: new Date(`${day}T09:00:00Z`), endTime: new Date(`${day}T13:00:00Z`), categoryId: 'cat2' },
+  ],
+});
+
+const params = {
+  organizationId: 'org1',
+  locationId: 'loc1',
+  sourceWeekStart: '2026-10-05',
+  targetWeekStart: '2026-10-12',
+  keepAssignees: true,
+  createdById: 'manager1',
+};
+
+describe('Rota copy', () => {
+  describe('shiftByDays', () => {
+    it('moves a shift forward a week', () => {
+      const result = shiftByDays(new Date('2026-03-09T09:00:00Z'), 7, 'UTC');
+      expect(result.toISOString()).toBe('2026-03-16T09:00:00.000Z');
+    });
+
+    it('keeps the local time across a clock change', () => {
+      // 09:00 GMT on 23 Mar becomes 09:00 BST on 30 Mar
+      const result = shiftByDays(new Date('2026-03-23T09:00:00Z'), 7, 'Europe/London');
+      expect(result.toISOString()).toBe('2026-03-30T08:00:00.000Z');
+    });
+  });
+
+  describe('copyWeek', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mocks.prisma.organization.findUnique.mockResolvedValue({ timezone: 'UTC' });
+      mocks.prisma.shift.count.mockResolvedValue(0);
+      mocks.prisma.shift.findMany.mockResolvedValue([
+        sourceShift('s1', '2026-10-06', { id: 'u1', name: 'Alex' }),
+        sourceShift('s2', '2026-10-07', null),
+      ]);
+      mocks.prisma.shift.create.mockImplementation(({ data }) => Promise.resolve({ id: `copy-${data.startTime.toISOString()}` }));
+      mocks.checkShiftConflicts.mockResolvedValue({ hasConflicts: false, hardConflicts: [], softConflicts: [] });
+    });
+
+    const created = () => mocks.prisma.shift.create.mock.calls.map(([{ data }]) => data);
+
+    it('copies shifts and their segments into the target week as drafts', async () => {
+      const result = await copyWeek(params);
+
+      expect(result).toEqual({ copiedCount: 2, conflicts: [] });
+      expect(created()[0]).toMatchObject({
+        startTime: new Date('2026-10-13T09:00:00Z'),
+        endTime: new Date('2026-10-13T17:00:00Z'),
+        status: 'DRAFT',
+        assignedToId: 'u1',
+        isOpen: false,
+        categoryId: 'cat1',
+        scheduledBreakMinutes: 30,
+        segments: {
+          create: [{ startTime: new Date('2026-10-13T09:00:00Z'), endTime: new Date('2026-10-13T13:00:00Z'), categoryId: 'cat2' }],
+        },
+      });
+      expect(created()[1]).toMatchObject({ status: 'DRAFT', assignedToId: null, isOpen: true });
+    });
+
+    it('leaves copies open when assignees are not kept', async () => {
+      await copyWeek({ ...params, keepAssignees: false });
+
+      expect(created().every((data) => data.assignedToId === null && data.isOpen)).toBe(true);
+      expect(mocks.checkShiftConflicts).not.toHaveBeenCalled();
+    });
+
+    it('reports assignees who clash in the target week', async () => {
+      const clash = { type: 'HOLIDAY', severity: 'HARD', message: 'Alex is on holiday' };
+      mocks.checkShiftConflicts.mockResolvedValue({ hasConflicts: true, hardConflicts: [clash], softConflicts: [] });
+
+      const result = await copyWeek(params);
+
+      expect(mocks.checkShiftConflicts).toHaveBeenCalledTimes(1);
+      expect(mocks.checkShiftConflicts).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'u1', startTime: new Date('2026-10-13T09:00:00Z') })
+      );
+      expect(result.conflicts).toEqual([
+        {
+          shiftId: 'copy-2026-10-13T09:00:00.000Z',
+          title: 'Front desk',
+          startTime: new Date('2026-10-13T09:00:00Z'),
+          endTime: new Date('2026-10-13T17:00:00Z'),
+          assignedToId: 'u1',
+          assignedToName: 'Alex',
+          conflicts: [clash],
+        },
+      ]);
+    });
+
+    it('refuses to copy into a week that already has shifts', async () => {
+      mocks.prisma.shift.count.mockResolvedValue(3);
+
+      await expect(copyWeek(params)).rejects.toThrow('already has 3 shifts here');
+      expect(mocks.prisma.shift.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses to copy a week onto itself', async () => {
+      await expect(copyWeek({ ...params, targetWeekStart: params.sourceWeekStart })).rejects.toThrow(
+        'Target week must be different from the source week'
+      );
+      expect(mocks.prisma.shift.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandTemplates,
+  buildEventSlots,
+  proposeAssignments,
+  type RotaCandidate,
+} from '@/lib/rota-generator';
+import { zonedTimeToUtc } from '@/lib/utils';
+
+const template = {
+  id: 't1',
+  name: 'Front desk',
+  defaultTitle: null,
+  startTime: '09:00',
+  endTime: '17:00',
+  daysOfWeek: '[1,3]',
+  categoryId: null,
+};
+
+const candidate = (id: string, overrides: Partial<RotaCandidate> = {}): RotaCandidate => ({
+  id,
+  name: id,
+  contractedHours: null,
+  certified: true,
+  availability: [],
+  holidays: [],
+  shifts: [],
+  scheduledHours: 0,
+  ...overrides,
+});
+
+describe('Rota generator', () => {
+  describe('zonedTimeToUtc', () => {
+    it('converts wall-clock time in winter and summer', () => {
+      expect(zonedTimeToUtc('2026-01-12', '09:00', 'Europe/London').toISOString()).toBe('2026-01-12T09:00:00.000Z');
+      expect(zonedTimeToUtc('2026-07-13', '09:00', 'Europe/London').toISOString()).toBe('2026-07-13T08:00:00.000Z');
+    });
+  });
+
+  describe('expandTemplates', () => {
+    it('creates slots only on the template days', () => {
+      const slots = expandTemplates([template], '2026-03-09', 'UTC');
+      expect(slots.map((s) => s.startTime.toISOString())).toEqual([
+        '2026-03-09T09:00:00.000Z',
+        '2026-03-11T09:00:00.000Z',
+      ]);
+      expect(slots[0].title).toBe('Front desk');
+    });
+
+    it('ends overnight templates on the next day', () => {
+      const [slot] = expandTemplates(
+        [{ ...template, startTime: '22:00', endTime: '06:00', daysOfWeek: '[1]' }],
+        '2026-03-09',
+        'UTC'
+      );
+      expect(slot.endTime.toISOString()).toBe('2026-03-10T06:00:00.000Z');
+    });
+  });
+
+  describe('buildEventSlots', () => {
+    it('creates one slot per extra staff member', () => {
+      const slots = buildEventSlots([{
+        id: 'e1',
+        title: 'Comp',
+        startTime: new Date('2026-03-14T10:00:00Z'),
+        endTime: new Date('2026-03-14T16:00:00Z'),
+        staffRequired: 2,
+      }]);
+      expect(slots).toHaveLength(2);
+      expect(slots[0].title).toBe('Comp cover');
+    });
+  });
+
+  describe('proposeAssignments', () => {
+    const slots = expandTemplates([template], '2026-03-09', 'UTC');
+
+    it('prefers staff furthest below their contracted hours', () => {
+      const proposals = proposeAssignments(slots, [
+        candidate('alex', { contractedHours: 16, scheduledHours: 8 }),
+        candidate('sam', { contractedHours: 16 }),
+      ], 'UTC');
+      expect(proposals.map((p) => p.assignedToId)).toEqual(['sam', 'alex']);
+    });
+
+    it('leaves slots open when nobody is eligible', () => {
+      const proposals = proposeAssignments(slots, [
+        candidate('alex', { certified: false }),
+      ], 'UTC');
+      expect(proposals.every((p) => p.assignedToId === null)).toBe(true);
+    });
+
+    it('only uses staff over contract as a last resort', () => {
+      const proposals = proposeAssignments(slots.slice(0, 1), [
+        candidate('alex', { contractedHours: 4 }),
+        candidate('sam', { scheduledHours: 30 }),
+      ], 'UTC');
+      expect(proposals[0].assignedToId).toBe('sam');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { diffRota, formatShiftLine } from '@/lib/rota-publishing';
+
+const shift = (id: string, assignedToId: string | null, start: string, end: string) => ({
+  id,
+  title: 'Front desk',
+  startTime: new Date(start).toISOString(),
+  endTime: new Date(end).toISOString(),
+  assignedToId,
+});
+
+describe('Rota publishing', () => {
+  const tuesday = shift('s1', 'alex', '2026-10-13T09:00:00Z', '2026-10-13T17:00:00Z');
+
+  describe('formatShiftLine', () => {
+    it('formats in the organization timezone', () => {
+      expect(formatShiftLine(tuesday, 'Europe/London')).toBe('Tue 13 Oct, 10:00-18:00 (Front desk)');
+    });
+  });
+
+  describe('diffRota', () => {
+    it('lists every assigned shift on first publish', () => {
+      const changes = diffRota([], [tuesday, shift('s2', null, '2026-10-14T09:00:00Z', '2026-10-14T17:00:00Z')], 'UTC');
+      expect([...changes.keys()]).toEqual(['alex']);
+      expect(changes.get('alex')![0].type).toBe('ADDED');
+    });
+
+    it('reports nothing when the rota is unchanged', () => {
+      expect(diffRota([tuesday], [tuesday], 'UTC').size).toBe(0);
+    });
+
+    it('describes a moved shift on the same day', () => {
+      const moved = { ...tuesday, startTime: '2026-10-13T10:00:00.000Z', endTime: '2026-10-13T18:00:00.000Z' };
+      const [change] = diffRota([tuesday], [moved], 'UTC').get('alex')!;
+      expect(change.type).toBe('MOVED');
+      expect(change.message).toBe('Your Tuesday moved 09:00-17:00 → 10:00-18:00');
+    });
+
+    it('describes a shift moved to another day', () => {
+      const moved = { ...tuesday, startTime: '2026-10-15T09:00:00.000Z', endTime: '2026-10-15T17:00:00.000Z' };
+      const [change] = diffRota([tuesday], [moved], 'UTC').get('alex')!;
+      expect(change.message).toBe('Your Tuesday 09:00-17:00 moved to Thu 15 Oct, 09:00-17:00');
+    });
+
+    it('tells both people when a shift is reassigned', () => {
+      const changes = diffRota([tuesday], [{ ...tuesday, assignedToId: 'sam' }], 'UTC');
+      expect(changes.get('alex')![0].type).toBe('REMOVED');
+      expect(changes.get('sam')![0].type).toBe('ADDED');
+    });
+
+    it('reports deleted shifts as removed', () => {
+      const changes = diffRota([tuesday], [], 'UTC');
+      expect(changes.get('alex')![0].message).toBe('Removed: Tue 13 Oct, 09:00-17:00 (Front desk)');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSetterReports,
+  getGradeConsensus,
+  getGradeOffset,
+  getGradeOptions,
+  summarizeRouteFeedback,
+  summarizeSetterRoutes,
+} from '@/lib/route-feedback';
+import { routeFeedbackSchema, routeProblemSchema } from '@/lib/schemas';
+
+const vote = (suggestedGrade: string | null, rating: number | null = null) => ({ rating, suggestedGrade });
+
+const route = (
+  id: string,
+  grade: string,
+  setter: { setterId?: string; name?: string; external?: string },
+  feedback: { rating: number | null; suggestedGrade: string | null }[],
+  signoff: { id: string; settingDate: Date } | null = null
+) => ({
+  id,
+  grade,
+  setDate: new Date('2026-06-01T00:00:00Z'),
+  setterId: setter.setterId || null,
+  externalSetterName: setter.external || null,
+  setter: setter.setterId ? { id: setter.setterId, name: setter.name || 'Setter' } : null,
+  signoff,
+  feedback,
+});
+
+describe('Route feedback', () => {
+  it('offers grades either side of the route grade on its own scale', () => {
+    expect(getGradeOptions('V4')).toEqual(['V2', 'V3', 'V4', 'V5', 'V6']);
+    expect(getGradeOptions('VB')).toEqual(['VB', 'V0', 'V1']);
+    expect(getGradeOptions('6B+')).toEqual(['6A+', '6B', '6B+', '6C', '6C+']);
+    expect(getGradeOptions('6b+')).toEqual(['6a+', '6b', '6b+', '6c', '6c+']);
+    expect(getGradeOptions('5.10a', 1)).toEqual(['5.9', '5.10a', '5.10b']);
+    expect(getGradeOptions('Pink tag')).toEqual([]);
+  });
+
+  it('counts grade offsets in steps of the route grade scale', () => {
+    expect(getGradeOffset('V4', 'V5')).toBe(1);
+    expect(getGradeOffset('v4', 'V2')).toBe(-2);
+    expect(getGradeOffset('6a', '6a+')).toBe(1);
+    // Font and French grades look alike but are different scales
+    expect(getGradeOffset('6A', '6a+')).toBeNull();
+    expect(getGradeOffset('V4', '6A')).toBeNull();
+  });
+
+  it('finds the grade climbers agree on', () => {
+    const consensus = getGradeConsensus('V4', ['V5', 'V5', 'V6', null, '7a']);
+    expect(consensus.votes).toBe(3);
+    expect(consensus.averageOffset).toBe(1.3);
+    expect(consensus.consensusGrade).toBe('V5');
+    expect(consensus.verdict).toBe('HARD');
+
+    expect(getGradeConsensus('V4', ['V4', 'V5', 'V3']).verdict).toBe('ON_GRADE');
+    expect(getGradeConsensus('V4', ['V3', 'V3', 'V4']).verdict).toBe('SOFT');
+    expect(getGradeConsensus('V4', [])).toEqual({ votes: 0, averageOffset: null, consensusGrade: null, verdict: null });
+  });
+
+  it('summarizes ratings and grade votes for a route', () => {
+    const summary = summarizeRouteFeedback('6b', [vote('6b+', 5), vote(null, 4), vote('6b'), vote('6b')]);
+    expect(summary.ratings).toBe(2);
+    expect(summary.averageRating).toBe(4.5);
+    expect(summary.grade.votes).toBe(3);
+    expect(summary.grade.verdict).toBe('ON_GRADE');
+  });
+
+  it('weights a setter by every vote across their routes', () => {
+    const summary = summarizeSetterRoutes([
+      { grade: 'V3', feedback: [vote('V4', 5), vote('V4', 4), vote('V5', 3)] },
+      { grade: 'V6', feedback: [vote('V6', 4)] },
+      { grade: 'V1', feedback: [] },
+    ]);
+    expect(summary.routes).toBe(3);
+    expect(summary.ratings).toBe(4);
+    expect(summary.averageRating).toBe(4);
+    expect(summary.gradeVotes).toBe(4);
+    expect(summary.averageOffset).toBe(1);
+    expect(summary.verdict).toBe('HARD');
+    expect(summary.offGradeRoutes).toBe(1);
+  });
+
+  it('groups routes by setter and by setting sign-off', () => {
+    const signoff = { id: 'signoff-1', settingDate: new Date('2026-06-01T00:00:00Z') };
+    const reports = buildSetterReports([
+      route('a', 'V2', { setterId: 'sam', name: 'Sam' }, [vote('V2', 4)], signoff),
+      route('b', 'V3', { setterId: 'sam', name: 'Sam' }, [vote('V3', 2)], signoff),
+      route('c', 'V5', { setterId: 'sam', name: 'Sam' }, []),
+      route('d', 'V4', { external: 'Guest Setter' }, [vote('V6', 5)]),
+      route('e', 'V1', { external: ' guest setter' }, []),
+    ]);
+
+    expect(reports.map((report) => [report.name, report.summary.routes])).toEqual([
+      ['Sam', 3],
+      ['Guest Setter', 2],
+    ]);
+    const [sam, guest] = reports;
+    expect(sam.settingDays.map((day) => [day.signoffId, day.summary.routes])).toEqual([
+      ['signoff-1', 2],
+      [null, 1],
+    ]);
+    expect(sam.summary.averageRating).toBe(3);
+    expect(guest.setterId).toBeNull();
+    expect(guest.routes[0].summary.grade.consensusGrade).toBe('V6');
+  });
+
+  it('needs a rating or a grade from a climber', () => {
+    const base = { climberId: 'climber-1234', routeId: 'clh3k2j5p0000qzrmn8o1f9x2' };
+    expect(routeFeedbackSchema.safeParse(base).success).toBe(false);
+    expect(routeFeedbackSchema.safeParse({ ...base, rating: 6 }).success).toBe(false);
+    expect(routeFeedbackSchema.safeParse({ ...base, rating: 4 }).success).toBe(true);
+    expect(routeFeedbackSchema.safeParse({ ...base, suggestedGrade: 'V3' }).success).toBe(true);
+    expect(routeFeedbackSchema.safeParse({ ...base, climberId: 'short', rating: 4 }).success).toBe(false);
+  });
+
+  it('only accepts known route problems', () => {
+    const routeId = 'clh3k2j5p0000qzrmn8o1f9x2';
+    expect(routeProblemSchema.safeParse({ routeId, problem: 'SPINNING_HOLD' }).success).toBe(true);
+    expect(routeProblemSchema.safeParse({ routeId, problem: 'TOO_HARD' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildResetSchedule,
+  getDefaultStripDate,
+  getHoldColorHex,
+  getRouteSetterName,
+  getRouteStatus,
+} from '@/lib/route-setting';
+import { createRoutesSchema } from '@/lib/schemas';
+
+const now = new Date('2026-06-15T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const sector = (id: string, name: string, routes: { setDate: Date; strippedAt?: Date | null }[], settingDays: Date[] = []) => ({
+  id,
+  name,
+  discipline: 'BOULDER',
+  resetIntervalDays: 42,
+  routes: routes.map((route) => ({ strippedAt: null, ...route })),
+  settingDays: settingDays.map((startTime, i) => ({ id: `${id}-day-${i}`, startTime })),
+});
+
+describe('Route setting', () => {
+  it('orders the reset schedule oldest first, with empty sectors at the top', () => {
+    const schedule = buildResetSchedule(
+      [
+        sector('slab', 'Slab', [{ setDate: daysAgo(10) }]),
+        sector('cave', 'Cave', [{ setDate: daysAgo(50) }, { setDate: daysAgo(5) }]),
+        sector('arete', 'Arete', []),
+        sector('roof', 'Roof', [{ setDate: daysAgo(20) }]),
+      ],
+      now
+    );
+    expect(schedule.map((entry) => entry.sectorId)).toEqual(['arete', 'cave', 'roof', 'slab']);
+  });
+
+  it('ages a sector by its oldest route still up', () => {
+    const [entry] = buildResetSchedule(
+      [sector('cave', 'Cave', [{ setDate: daysAgo(60), strippedAt: daysAgo(30) }, { setDate: daysAgo(30) }, { setDate: daysAgo(3) }])],
+      now
+    );
+    expect(entry.routesUp).toBe(2);
+    expect(entry.ageDays).toBe(30);
+    expect(entry.overdue).toBe(false);
+    expect(entry.resetDue).toEqual(getDefaultStripDate(daysAgo(30), 42));
+  });
+
+  it('marks sectors past their reset interval as overdue', () => {
+    const [entry] = buildResetSchedule([sector('cave', 'Cave', [{ setDate: daysAgo(43) }])], now);
+    expect(entry.overdue).toBe(true);
+  });
+
+  it('picks the next planned setting day, ignoring past ones', () => {
+    const upcoming = new Date('2026-06-20T08:00:00Z');
+    const [entry] = buildResetSchedule(
+      [sector('cave', 'Cave', [{ setDate: daysAgo(10) }], [new Date('2026-06-01T08:00:00Z'), new Date('2026-07-01T08:00:00Z'), upcoming])],
+      now
+    );
+    expect(entry.nextSettingDay?.startTime).toEqual(upcoming);
+  });
+
+  it('works out where a route stands', () => {
+    expect(getRouteStatus({ plannedStripDate: daysAgo(-5), strippedAt: null }, now)).toBe('UP');
+    expect(getRouteStatus({ plannedStripDate: null, strippedAt: null }, now)).toBe('UP');
+    expect(getRouteStatus({ plannedStripDate: daysAgo(1), strippedAt: null }, now)).toBe('STRIP_DUE');
+    expect(getRouteStatus({ plannedStripDate: daysAgo(-5), strippedAt: daysAgo(1) }, now)).toBe('STRIPPED');
+  });
+
+  it('names staff or external setters', () => {
+    expect(getRouteSetterName({ setter: { name: 'Sam' }, externalSetterName: null })).toBe('Sam');
+    expect(getRouteSetterName({ setter: null, externalSetterName: 'Guest Setter' })).toBe('Guest Setter');
+  });
+
+  it('falls back to grey for custom hold colours', () => {
+    expect(getHoldColorHex('blue')).toBe('#2563eb');
+    expect(getHoldColorHex('Teal')).toBe('#9ca3af');
+  });
+
+  describe('createRoutesSchema', () => {
+    const valid = {
+      sectorId: 'ckx0000000000000000000001',
+      setDate: '2026-06-15',
+      routes: [{ grade: 'V4', color: 'Blue', externalSetterName: 'Guest Setter' }],
+    };
+
+    it('accepts routes with a setter', () => {
+      expect(createRoutesSchema.safeParse(valid).success).toBe(true);
+    });
+
+    it('requires a setter for each route', () => {
+      const result = createRoutesSchema.safeParse({ ...valid, routes: [{ grade: 'V4', color: 'Blue' }] });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects a strip date before the set date', () => {
+      const result = createRoutesSchema.safeParse({ ...valid, plannedStripDate: '2026-06-01' });
+      expect(result.success).toBe(false);
+    });
+  });
+});
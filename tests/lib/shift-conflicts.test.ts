@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findOverlappingShifts,
+  findRestViolations,
+  findHolidayClashes,
+  isWithinAvailability,
+  isAssignmentAllowed,
+  getLocalTimeParts,
+} from '@/lib/shift-conflicts';
+
+const shift = (id: string, start: string, end: string) => ({
+  id,
+  title: `Shift ${id}`,
+  startTime: new Date(start),
+  endTime: new Date(end),
+});
+
+describe('Shift conflicts', () => {
+  const start = new Date('2026-03-10T09:00:00Z');
+  const end = new Date('2026-03-10T17:00:00Z');
+
+  describe('findOverlappingShifts', () => {
+    it('finds shifts that overlap the range', () => {
+      const result = findOverlappingShifts(start, end, [
+        shift('a', '2026-03-10T16:00:00Z', '2026-03-10T20:00:00Z'),
+        shift('b', '2026-03-10T05:00:00Z', '2026-03-10T09:00:00Z'),
+      ]);
+      expect(result.map((s) => s.id)).toEqual(['a']);
+    });
+
+    it('does not treat back-to-back shifts as overlapping', () => {
+      const result = findOverlappingShifts(start, end, [
+        shift('a', '2026-03-10T17:00:00Z', '2026-03-10T21:00:00Z'),
+      ]);
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('findRestViolations', () => {
+    it('flags a shift ending less than 11 hours before', () => {
+      const result = findRestViolations(start, end, [
+        shift('a', '2026-03-09T18:00:00Z', '2026-03-10T00:00:00Z'),
+      ]);
+      expect(result.map((s) => s.id)).toEqual(['a']);
+    });
+
+    it('allows a shift with enough rest afterwards', () => {
+      const result = findRestViolations(start, end, [
+        shift('a', '2026-03-11T04:00:00Z', '2026-03-11T10:00:00Z'),
+      ]);
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('findHolidayClashes', () => {
+    it('treats the holiday end date as inclusive', () => {
+      const result = findHolidayClashes(start, end, [
+        { id: 'h', startDate: new Date('2026-03-08T00:00:00Z'), endDate: new Date('2026-03-10T00:00:00Z') },
+      ]);
+      expect(result).toHaveLength(1);
+    });
+
+    it('ignores holidays that finished the day before', () => {
+      const result = findHolidayClashes(start, end, [
+        { id: 'h', startDate: new Date('2026-03-08T00:00:00Z'), endDate: new Date('2026-03-09T00:00:00Z') },
+      ]);
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('isWithinAvailability', () => {
+    const slot = { dayOfWeek: 2, startTime: '08:00', endTime: '18:00', isRecurring: true, specificDate: null };
+
+    it('treats users without availability as always available', () => {
+      expect(isWithinAvailability(start, end, [], 'UTC')).toBe(true);
+    });
+
+    it('accepts a shift inside a recurring slot', () => {
+      expect(isWithinAvailability(start, end, [slot], 'UTC')).toBe(true);
+    });
+
+    it('rejects a shift on a day with no slot', () => {
+      expect(isWithinAvailability(start, end, [{ ...slot, dayOfWeek: 3 }], 'UTC')).toBe(false);
+    });
+
+    it('uses the organisation timezone', () => {
+      // 09:00 UTC in summer is 10:00 in London
+      const summerStart = new Date('2026-07-07T09:00:00Z');
+      const summerEnd = new Date('2026-07-07T17:00:00Z');
+      const lateSlot = { ...slot, startTime: '10:00', endTime: '18:00' };
+      expect(isWithinAvailability(summerStart, summerEnd, [lateSlot], 'Europe/London')).toBe(true);
+      expect(isWithinAvailability(summerStart, summerEnd, [lateSlot], 'UTC')).toBe(false);
+    });
+  });
+
+  describe('getLocalTimeParts', () => {
+    it('returns weekday, date and time in the timezone', () => {
+      expect(getLocalTimeParts(new Date('2026-03-10T23:30:00Z'), 'Asia/Tokyo')).toEqual({
+        dayOfWeek: 3,
+        date: '2026-03-11',
+        time: '08:30',
+      });
+    });
+  });
+
+  describe('isAssignmentAllowed', () => {
+    const soft = {
+      hasConflicts: true,
+      hardConflicts: [],
+      softConflicts: [{ type: 'MIN_REST' as const, severity: 'SOFT' as const, message: 'Short rest' }],
+    };
+
+    it('blocks hard conflicts even with an override', () => {
+      const hard = {
+        ...soft,
+        hardConflicts: [{ type: 'HOLIDAY' as const, severity: 'HARD' as const, message: 'On holiday' }],
+      };
+      expect(isAssignmentAllowed(hard, { overrideConflicts: true, overrideReason: 'Needed' }, true)).toBe(false);
+    });
+
+    it('requires a reason to override soft conflicts', () => {
+      expect(isAssignmentAllowed(soft, { overrideConflicts: true, overrideReason: ' ' }, true)).toBe(false);
+      expect(isAssignmentAllowed(soft, { overrideConflicts: true, overrideReason: 'Agreed' }, true)).toBe(true);
+    });
+
+    it('does not let non-managers override', () => {
+      expect(isAssignmentAllowed(soft, { overrideConflicts: true, overrideReason: 'Agreed' }, false)).toBe(false);
+    });
+  });
+});
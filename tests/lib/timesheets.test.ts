@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => {
+  const tx = {
+    timesheet: { upsert: vi.fn() },
+    timeEntry: { updateMany: vi.fn() },
+    user: { findUniqueOrThrow: vi.fn() },
+    shift: { findMany: vi.fn() },
+    payrollAdjustment: { create: vi.fn() },
+  };
+  return {
+    tx,
+    prisma: {
+      organization: { findUnique: vi.fn() },
+      user: { findMany: vi.fn() },
+      payPeriod: { findMany: vi.fn() },
+      $transaction: vi.fn((run: (client: typeof tx) => unknown) => run(tx)),
+    },
+  };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma, default: db.prisma }));
+
+import {
+  approveTimesheets,
+  buildTimesheetWeek,
+  getEntryFlags,
+  getTimesheetWeekRange,
+  getTimesheetWeekStart,
+  summarizeBreaks,
+  type ReviewEntry,
+  type ReviewShift,
+} from '@/lib/timesheets';
+
+const shift: ReviewShift = {
+  id: 'shift1',
+  title: 'Desk',
+  startTime: new Date('2026-10-13T09:00:00Z'),
+  endTime: new Date('2026-10-13T17:00:00Z'),
+  scheduledBreakMinutes: 30,
+};
+
+const entry = (overrides: Partial<ReviewEntry> = {}): ReviewEntry => ({
+  id: 'entry1',
+  clockIn: new Date('2026-10-13T09:00:00Z'),
+  clockOut: new Date('2026-10-13T17:00:00Z'),
+  totalBreak: 30,
+  status: 'PENDING',
+  clockInFlag: null,
+  missedClockOut: false,
+  shiftId: 'shift1',
+  breaks: [],
+  ...overrides,
+});
+
+describe('Timesheets', () => {
+  describe('getTimesheetWeekStart', () => {
+    it('uses the Monday in the organization timezone', () => {
+      // Late Sunday in UTC is already Monday in Auckland
+      expect(getTimesheetWeekStart(new Date('2026-10-18T20:00:00Z'), 'UTC')).toBe('2026-10-12');
+      expect(getTimesheetWeekStart(new Date('2026-10-18T20:00:00Z'), 'Pacific/Auckland')).toBe('2026-10-19');
+    });
+
+    it('covers a whole week', () => {
+      const { start, end } = getTimesheetWeekRange('2026-10-12', 'Europe/London');
+      expect(start.toISOString()).toBe('2026-10-11T23:00:00.000Z');
+      expect(end.toISOString()).toBe('2026-10-18T23:00:00.000Z');
+    });
+  });
+
+  describe('getEntryFlags', () => {
+    it('flags nothing when the entry matches the shift', () => {
+      expect(getEntryFlags(entry(), shift)).toEqual([]);
+    });
+
+    it('flags early and late clock-ins against the shift start', () => {
+      expect(getEntryFlags(entry({ clockIn: new Date('2026-10-13T08:40:00Z') }), shift)).toEqual(['EARLY']);
+      expect(getEntryFlags(entry({ clockIn: new Date('2026-10-13T09:20:00Z') }), shift)).toEqual(['LATE']);
+      expect(getEntryFlags(entry({ clockIn: new Date('2026-10-13T09:03:00Z') }), shift)).toEqual([]);
+    });
+
+    it('flags missed clock-outs and long breaks', () => {
+      expect(getEntryFlags(entry({ missedClockOut: true, totalBreak: 45 }), shift)).toEqual([
+        'MISSED_CLOCK_OUT',
+        'OVER_BREAK',
+      ]);
+    });
+
+    it('counts paid breaks towards a long break', () => {
+      const at = (time: string) => new Date(`2026-10-13T${time}:00Z`);
+      const breaks = [
+        { type: 'UNPAID', startTime: at('12:00'), endTime: at('12:30') },
+        { type: 'PAID', startTime: at('15:00'), endTime: at('15:15') },
+      ];
+      expect(getEntryFlags(entry({ totalBreak: 30, breaks }), shift)).toEqual(['OVER_BREAK']);
+      expect(getEntryFlags(entry({ totalBreak: 30, breaks: breaks.slice(0, 1) }), shift)).toEqual([]);
+    });
+
+    it('keeps the clock-in flag when there is no shift', () => {
+      expect(getEntryFlags(entry({ shiftId: null, clockInFlag: 'LATE' }), null)).toEqual(['LATE']);
+    });
+  });
+
+  describe('buildTimesheetWeek', () => {
+    it('compares scheduled and actual hours day by day', () => {
+      const week = buildTimesheetWeek(
+        '2026-10-12',
+        [shift],
+        [
+          entry({ clockOut: new Date('2026-10-13T18:00:00Z') }),
+          entry({ id: 'entry2', shiftId: null, clockIn: new Date('2026-10-15T10:00:00Z'), clockOut: new Date('2026-10-15T12:00:00Z'), totalBreak: 0 }),
+          entry({ id: 'entry3', shiftId: null, status: 'REJECTED', clockIn: new Date('2026-10-16T10:00:00Z') }),
+        ],
+        'UTC'
+      );
+
+      expect(week.days).toHaveLength(7);
+      expect(week.days[1].scheduledHours).toBe(7.5);
+      expect(week.days[1].actualHours).toBe(8.5);
+      expect(week.days[3].actualHours).toBe(2);
+      // Rejected time is listed but not counted
+      expect(week.days[4].entries).toHaveLength(1);
+      expect(week.days[4].actualHours).toBe(0);
+      expect(week.scheduledHours).toBe(7.5);
+      expect(week.actualHours).toBe(10.5);
+      expect(week.variance).toBe(3);
+    });
+
+    it('counts the flags on every entry', () => {
+      const week = buildTimesheetWeek(
+        '2026-10-12',
+        [shift],
+        [entry({ clockIn: new Date('2026-10-13T09:30:00Z'), missedClockOut: true })],
+        'UTC'
+      );
+      expect(week.flagCount).toBe(2);
+    });
+  });
+
+  describe('summarizeBreaks', () => {
+    const at = (time: string) => new Date(`2026-10-13T${time}:00Z`);
+
+    it('keeps paid and unpaid breaks apart', () => {
+      const summary = summarizeBreaks([
+        { type: 'UNPAID', startTime: at('12:00'), endTime: at('12:30') },
+        { type: 'PAID', startTime: at('15:00'), endTime: at('15:10') },
+        { type: 'UNPAID', startTime: at('16:00'), endTime: at('16:15') },
+      ]);
+      expect(summary).toEqual({ count: 3, paidMinutes: 10, unpaidMinutes: 45, longestMinutes: 30 });
+    });
+
+    it('runs a break in progress up to now', () => {
+      const summary = summarizeBreaks([{ type: 'UNPAID', startTime: at('12:00'), endTime: null }], at('12:20'));
+      expect(summary.unpaidMinutes).toBe(20);
+    });
+  });
+
+  describe('approveTimesheets', () => {
+    const lockedPeriod = {
+      id: 'period1',
+      name: 'October 2026',
+      startDate: new Date('2026-10-01T00:00:00Z'),
+      endDate: new Date('2026-10-31T00:00:00Z'),
+    };
+    const pendingEntry = {
+      id: 'entry1',
+      userId: 'user1',
+      shiftId: 'shift1',
+      clockIn: new Date('2026-10-06T09:00:00Z'),
+      clockOut: new Date('2026-10-06T17:00:00Z'),
+      totalBreak: 30,
+      status: 'PENDING',
+    };
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      db.prisma.organization.findUnique.mockResolvedValue({ timezone: 'UTC' });
+      db.prisma.user.findMany.mockResolvedValue([{ id: 'user1', name: 'Alex', timeEntries: [pendingEntry] }]);
+      db.tx.timesheet.upsert.mockResolvedValue({ id: 'timesheet1' });
+      db.tx.user.findUniqueOrThrow.mockResolvedValue({ paymentType: 'HOURLY', categoryRates: [] });
+      db.tx.shift.findMany.mockResolvedValue([
+        { id: 'shift1', category: { id: 'cat1', name: 'Desk', hourlyRate: 12 } },
+      ]);
+      db.tx.payrollAdjustment.create.mockImplementation(({ data }) => Promise.resolve({ id: 'adj1', ...data }));
+    });
+
+    it('refuses to approve a week in a signed-off pay period', async () => {
+      db.prisma.payPeriod.findMany.mockResolvedValue([lockedPeriod]);
+
+      await expect(approveTimesheets('org1', 'manager1', '2026-10-05', ['user1'], {}, now)).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'PERIOD_LOCKED',
+      });
+      expect(db.prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('records approvals in a signed-off pay period as payroll adjustments', async () => {
+      db.prisma.payPeriod.findMany.mockResolvedValue([lockedPeriod]);
+
+      const result = await approveTimesheets(
+        'org1',
+        'manager1',
+        '2026-10-05',
+        ['user1'],
+        { recordAsAdjustment: true },
+        now
+      );
+
+      expect(result.approved).toHaveLength(1);
+      expect(result.adjustments).toEqual([
+        { id: 'adj1', userId: 'user1', timeEntryId: 'entry1', payPeriodId: 'period1', hoursDelta: 7.5, amount: 90 },
+      ]);
+      expect(db.tx.payrollAdjustment.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('approves without adjustments outside signed-off periods', async () => {
+      db.prisma.payPeriod.findMany.mockResolvedValue([]);
+
+      const result = await approveTimesheets('org1', 'manager1', '2026-10-05', ['user1'], {}, now);
+
+      expect(result.approved).toHaveLength(1);
+      expect(result.adjustments).toEqual([]);
+      expect(db.tx.payrollAdjustment.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UK_TAX_YEARS,
+  calculateApprenticeshipLevy,
+  calculateHolidayAccrual,
+  calculateMonthlyNI,
+  calculatePensionContributions,
+  calculateStaffCost,
+  calculateStudentLoan,
+  estimateIncomeTax,
+  getStarterTaxCode,
+  getTaxYearRules,
+  isAutoEnrolmentAge,
+  parseTaxCode,
+} from '@/lib/uk-payroll';
+
+describe('UK payroll', () => {
+  const year2425 = getTaxYearRules(new Date('2024-09-30T12:00:00Z'));
+  const year2526 = getTaxYearRules(new Date('2025-09-30T12:00:00Z'));
+
+  describe('getTaxYearRules', () => {
+    it('switches year on 6 April', () => {
+      expect(getTaxYearRules(new Date('2025-04-05T12:00:00Z')).label).toBe('2024/25');
+      expect(getTaxYearRules(new Date('2025-04-06T12:00:00Z')).label).toBe('2025/26');
+    });
+
+    it('uses the UK calendar date rather than UTC', () => {
+      // 23:30 UTC on 5 April is already 6 April in BST
+      expect(getTaxYearRules(new Date('2025-04-05T23:30:00Z')).label).toBe('2025/26');
+    });
+
+    it('falls back to the nearest year outside the table', () => {
+      expect(getTaxYearRules(new Date('2020-01-01T12:00:00Z')).label).toBe(UK_TAX_YEARS[0].label);
+      expect(getTaxYearRules(new Date('2040-01-01T12:00:00Z')).label).toBe(
+        UK_TAX_YEARS[UK_TAX_YEARS.length - 1].label
+      );
+    });
+
+    it('lists tax years oldest first', () => {
+      const starts = UK_TAX_YEARS.map((y) => y.startDate);
+      expect([...starts].sort()).toEqual(starts);
+    });
+  });
+
+  describe('calculateMonthlyNI', () => {
+    it('applies the rates of the given year', () => {
+      expect(calculateMonthlyNI(2000, year2425)).toEqual({ employeeNI: 76.16, employerNI: 171.4 });
+      expect(calculateMonthlyNI(2000, year2526)).toEqual({ employeeNI: 76.16, employerNI: 237.45 });
+    });
+
+    it('charges the additional rate above the upper earnings limit', () => {
+      const { employeeNI } = calculateMonthlyNI(5000, year2526);
+      expect(employeeNI).toBeCloseTo((4189 - 1048) * 0.08 + (5000 - 4189) * 0.02, 2);
+    });
+
+    it('charges nothing below the thresholds', () => {
+      expect(calculateMonthlyNI(400, year2526)).toEqual({ employeeNI: 0, employerNI: 0 });
+    });
+  });
+
+  describe('calculateStaffCost', () => {
+    it('includes employer pension unless the employee opted out', () => {
+      const enrolled = calculateStaffCost(2000, 'MONTHLY', year2526);
+      const optedOut = calculateStaffCost(2000, 'MONTHLY', year2526, {
+        profile: { pensionEnrolled: false, taxCode: null, studentLoanPlan: null },
+      });
+
+      expect(enrolled.totalCost).toBe(2000 + 237.45 + 44.4);
+      expect(optedOut.employerPension).toBe(0);
+      expect(optedOut.totalCost).toBe(2000 + 237.45);
+      expect(optedOut.netPay).toBeGreaterThan(enrolled.netPay);
+    });
+
+    it('adds holiday accrual for hourly staff only', () => {
+      expect(calculateHolidayAccrual(1000, 'HOURLY', year2526)).toBe(120.7);
+      expect(calculateHolidayAccrual(1000, 'MONTHLY', year2526)).toBe(0);
+    });
+
+    it('scales NI thresholds to shorter periods', () => {
+      const weekly = calculateStaffCost(500, 'HOURLY', year2526, { months: 12 / 52 });
+      const monthly = calculateMonthlyNI((500 * 52) / 12, year2526);
+      expect(weekly.employerNI).toBeCloseTo((monthly.employerNI * 12) / 52, 1);
+      expect(weekly.totalCost).toBeCloseTo(
+        500 + weekly.holidayAccrual + weekly.employerNI + weekly.employerPension,
+        2
+      );
+    });
+  });
+
+  describe('calculatePensionContributions', () => {
+    it('applies the statutory minimums to qualifying earnings', () => {
+      expect(calculatePensionContributions(2000, year2526)).toEqual({
+        employerPension: 44.4,
+        employeePension: 74,
+      });
+    });
+
+    it('caps qualifying earnings at the upper limit', () => {
+      const capped = calculatePensionContributions(10000, year2526);
+      expect(capped.employerPension).toBeCloseTo(((50270 - 6240) / 12) * 0.03, 2);
+    });
+
+    it('charges nothing below the earnings trigger', () => {
+      expect(calculatePensionContributions(800, year2526)).toEqual({
+        employerPension: 0,
+        employeePension: 0,
+      });
+    });
+  });
+
+  describe('isAutoEnrolmentAge', () => {
+    const asOf = new Date('2026-06-01T00:00:00Z');
+
+    it('enrols staff from 22 until state pension age', () => {
+      expect(isAutoEnrolmentAge(new Date('2004-06-01T00:00:00Z'), asOf)).toBe(true);
+      expect(isAutoEnrolmentAge(new Date('2004-06-02T00:00:00Z'), asOf)).toBe(false);
+      expect(isAutoEnrolmentAge(new Date('1960-06-01T00:00:00Z'), asOf)).toBe(false);
+    });
+
+    it('assumes eligibility when the date of birth is unknown', () => {
+      expect(isAutoEnrolmentAge(null, asOf)).toBe(true);
+    });
+  });
+
+  describe('tax codes', () => {
+    it('parses common codes', () => {
+      expect(parseTaxCode('1257L', year2526)).toEqual({ allowance: 12579, flatRate: null, noTax: false });
+      expect(parseTaxCode('s1257l W1', year2526)?.allowance).toBe(12579);
+      expect(parseTaxCode('K475', year2526)?.allowance).toBe(-4750);
+      expect(parseTaxCode('BR', year2526)?.flatRate).toBe(0.2);
+      expect(parseTaxCode('D0', year2526)?.flatRate).toBe(0.4);
+      expect(parseTaxCode('NT', year2526)?.noTax).toBe(true);
+      expect(parseTaxCode('nonsense', year2526)).toBeNull();
+    });
+
+    it('picks the code from the starter form', () => {
+      const form = { hasP45: false, p45TaxCode: null, starterDeclaration: 'A' };
+      expect(getStarterTaxCode(form, year2526)).toBe('1257L');
+      expect(getStarterTaxCode({ ...form, starterDeclaration: 'C' }, year2526)).toBe('BR');
+      expect(getStarterTaxCode({ ...form, hasP45: true, p45TaxCode: '1100L' }, year2526)).toBe('1100L');
+      expect(getStarterTaxCode({ ...form, starterDeclaration: null }, year2526)).toBeNull();
+    });
+  });
+
+  describe('estimateIncomeTax', () => {
+    it('taxes monthly pay above the allowance at the basic rate', () => {
+      expect(estimateIncomeTax(2000, '1257L', year2526)).toBeCloseTo((2000 - 12579 / 12) * 0.2, 2);
+    });
+
+    it('moves into the higher rate band', () => {
+      const tax = estimateIncomeTax(5000, '1257L', year2526);
+      const basic = (37700 / 12) * 0.2;
+      const higher = (5000 - 12579 / 12 - 37700 / 12) * 0.4;
+      expect(tax).toBeCloseTo(basic + higher, 1);
+    });
+
+    it('uses the emergency code when there is none', () => {
+      expect(estimateIncomeTax(2000, null, year2526)).toBe(estimateIncomeTax(2000, '1257L', year2526));
+    });
+
+    it('applies flat rate and no-tax codes', () => {
+      expect(estimateIncomeTax(1000, 'BR', year2526)).toBe(200);
+      expect(estimateIncomeTax(1000, 'NT', year2526)).toBe(0);
+    });
+
+    it('limits K code tax to half of pay', () => {
+      expect(estimateIncomeTax(500, 'K9999', year2526)).toBe(250);
+    });
+  });
+
+  describe('calculateStudentLoan', () => {
+    it('repays the plan rate above the threshold, rounded down', () => {
+      expect(calculateStudentLoan(3000, 'PLAN_2', year2526)).toBe(Math.floor((3000 - 28470 / 12) * 0.09));
+      expect(calculateStudentLoan(3000, 'POSTGRAD', year2526)).toBe(Math.floor((3000 - 1750) * 0.06));
+    });
+
+    it('repays nothing without a plan or below the threshold', () => {
+      expect(calculateStudentLoan(3000, 'NONE', year2526)).toBe(0);
+      expect(calculateStudentLoan(1500, 'PLAN_1', year2526)).toBe(0);
+    });
+  });
+
+  describe('calculateApprenticeshipLevy', () => {
+    it('only applies once the levy exceeds the allowance', () => {
+      expect(calculateApprenticeshipLevy(2_000_000, year2526)).toBe(0);
+      expect(calculateApprenticeshipLevy(4_000_000, year2526)).toBe(5000);
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { describe, it, expect } from 'vitest';
+import { parseFormDate } from '@/lib/utils';
+
+describe('parseFormDate', () => {
+  it('reads form dates, leaving missing ones unchanged', () => {
+    expect(parseFormDate('2026-10-15')).toEqual(new Date('2026-10-15'));
+    expect(parseFormDate('')).toBeNull();
+    expect(parseFormDate(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ADULT_LIMITS,
+  YOUNG_WORKER_LIMITS,
+  checkBreaks,
+  checkDailyHours,
+  checkDailyRest,
+  checkRotaWorkingTime,
+  checkWeeklyHours,
+  checkWorkingTime,
+  getAge,
+  isYoungWorker,
+  type WorkPeriod,
+} from '@/lib/working-time';
+
+const period = (id: string, start: string, end: string, breakMinutes = 30, requiredBreakMinutes?: number): WorkPeriod => ({
+  id,
+  startTime: new Date(start),
+  endTime: new Date(end),
+  breakMinutes,
+  requiredBreakMinutes,
+});
+
+// A 9 hour day with a 30 minute break on the given date
+const day = (date: string, breakMinutes = 30) =>
+  period(date, `${date}T09:00:00Z`, `${date}T18:00:00Z`, breakMinutes);
+
+describe('Working time', () => {
+  describe('young workers', () => {
+    it('works out age from the date of birth', () => {
+      const dob = new Date('2008-10-20T00:00:00Z');
+      expect(getAge(dob, new Date('2026-10-19T12:00:00Z'))).toBe(17);
+      expect(getAge(dob, new Date('2026-10-20T12:00:00Z'))).toBe(18);
+    });
+
+    it('treats anyone without a date of birth as an adult', () => {
+      expect(isYoungWorker(null, new Date())).toBe(false);
+      expect(isYoungWorker(new Date('2010-01-01T00:00:00Z'), new Date('2026-10-19T00:00:00Z'))).toBe(true);
+    });
+  });
+
+  describe('checkBreaks', () => {
+    it('needs 20 minutes over 6 hours for adults', () => {
+      expect(checkBreaks(day('2026-10-12', 20), ADULT_LIMITS, 'UTC')).toEqual([]);
+      const issues = checkBreaks(day('2026-10-12', 10), ADULT_LIMITS, 'UTC');
+      expect(issues.map((i) => i.type)).toEqual(['REST_BREAK']);
+      expect(issues[0].date).toBe('2026-10-12');
+    });
+
+    it('needs 30 minutes over 4.5 hours for under-18s', () => {
+      const shortDay = period('p', '2026-10-12T09:00:00Z', '2026-10-12T14:00:00Z', 20);
+      expect(checkBreaks(shortDay, ADULT_LIMITS, 'UTC')).toEqual([]);
+      expect(checkBreaks(shortDay, YOUNG_WORKER_LIMITS, 'UTC').map((i) => i.type)).toEqual(['REST_BREAK']);
+    });
+
+    it('needs the rest break in one go when breaks are known', () => {
+      const split = { ...day('2026-10-12', 20), longestBreakMinutes: 10 };
+      const issues = checkBreaks(split, ADULT_LIMITS, 'UTC');
+      expect(issues.map((i) => i.type)).toEqual(['REST_BREAK']);
+      expect(issues[0].message).toContain('in one go');
+    });
+
+    it('checks against the break rules', () => {
+      const entry = period('p', '2026-10-12T09:00:00Z', '2026-10-12T18:00:00Z', 30, 60);
+      expect(checkBreaks(entry, ADULT_LIMITS, 'UTC').map((i) => i.type)).toEqual(['BREAK_RULE']);
+    });
+  });
+
+  describe('checkDailyRest', () => {
+    it('flags short rest between working days', () => {
+      const periods = [
+        period('late', '2026-10-12T14:00:00Z', '2026-10-12T23:00:00Z'),
+        period('early', '2026-10-13T07:00:00Z', '2026-10-13T12:00:00Z'),
+      ];
+      const issues = checkDailyRest(periods, ADULT_LIMITS, 'UTC');
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ type: 'DAILY_REST', date: '2026-10-13', periodId: 'early' });
+    });
+
+    it('ignores gaps within a day', () => {
+      const periods = [
+        period('am', '2026-10-12T08:00:00Z', '2026-10-12T11:00:00Z'),
+        period('pm', '2026-10-12T17:00:00Z', '2026-10-12T21:00:00Z'),
+      ];
+      expect(checkDailyRest(periods, ADULT_LIMITS, 'UTC')).toEqual([]);
+    });
+  });
+
+  it('limits under-18s to 8 hours a day', () => {
+    expect(checkDailyHours([day('2026-10-12')], ADULT_LIMITS, 'UTC')).toEqual([]);
+    expect(checkDailyHours([day('2026-10-12')], YOUNG_WORKER_LIMITS, 'UTC').map((i) => i.type)).toEqual(['DAILY_HOURS']);
+  });
+
+  describe('checkWeeklyHours', () => {
+    const week = (monday: string) =>
+      [0, 1, 2, 3, 4, 5].map((i) => {
+        const date = new Date(`${monday}T00:00:00Z`);
+        date.setUTCDate(date.getUTCDate() + i);
+        return day(date.toISOString().split('T')[0]);
+      });
+
+    it('averages adults over the weeks worked', () => {
+      // 51 hours in one week
+      expect(checkWeeklyHours(week('2026-10-12'), '2026-10-12', ADULT_LIMITS, 'UTC').map((i) => i.type)).toEqual(['WEEKLY_HOURS']);
+      // The same week after a quiet one averages under 48
+      const periods = [day('2026-10-05'), ...week('2026-10-12')];
+      expect(checkWeeklyHours(periods, '2026-10-12', ADULT_LIMITS, 'UTC')).toEqual([]);
+    });
+
+    it('limits under-18s to 40 hours in any week', () => {
+      const periods = [day('2026-10-12'), day('2026-10-13'), day('2026-10-14'), day('2026-10-15'), day('2026-10-16')];
+      expect(checkWeeklyHours(periods, '2026-10-12', ADULT_LIMITS, 'UTC')).toEqual([]);
+      expect(checkWeeklyHours(periods, '2026-10-12', YOUNG_WORKER_LIMITS, 'UTC')[0].message).toBe(
+        '42.5 hours worked this week, over the 40 hour limit'
+      );
+    });
+  });
+
+  it('only returns issues in the week checked', () => {
+    const periods = [day('2026-10-09', 0), day('2026-10-12', 0)];
+    const issues = checkWorkingTime(periods, '2026-10-12', ADULT_LIMITS, 'UTC');
+    expect(issues.map((i) => [i.type, i.date])).toEqual([['REST_BREAK', '2026-10-12']]);
+  });
+
+  it('leaves the adult weekly average off the rota but keeps the under-18 weekly limit', () => {
+    // Six 9 hour days: 51 hours in a single week
+    const periods = ['12', '13', '14', '15', '16', '17'].map((d) => day(`2026-10-${d}`));
+    expect(checkRotaWorkingTime(periods, '2026-10-12', false, 'UTC').map((i) => i.type)).not.toContain('WEEKLY_HOURS');
+    expect(checkRotaWorkingTime(periods, '2026-10-12', true, 'UTC').map((i) => i.type)).toContain('WEEKLY_HOURS');
+  });
+});